@@ -7,6 +7,10 @@ import { db } from "@/db";
 import { useProjectStore, useUserPreferencesStore } from "@/store";
 
 const ProxyBuilderPage = lazy(() => import("@/pages/ProxyBuilderPage"));
+const AdminPage = lazy(() => import("@/pages/AdminPage"));
+
+// ?admin opens the server admin dashboard instead of the builder
+const isAdminView = new URLSearchParams(window.location.search).has("admin");
 
 function App() {
   const [showAbout, setShowAbout] = useState(false);
@@ -105,7 +109,7 @@ function App() {
       <UpdateNotification />
       <AboutModal isOpen={showAbout} onClose={() => setShowAbout(false)} />
 
-      <ProxyBuilderPage />
+      {isAdminView ? <AdminPage /> : <ProxyBuilderPage />}
     </>
   );
 }
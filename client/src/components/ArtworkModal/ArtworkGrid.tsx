@@ -1,4 +1,5 @@
 import { useState } from "react";
+import { useCardSize } from "@/hooks/useCardSize";
 
 export interface ArtworkGridProps {
     imageUrls: string[];
@@ -44,10 +45,11 @@ function ArtworkGridItem({
     onSelect: () => void;
 }) {
     const [isLoading, setIsLoading] = useState(true);
+    const cardSize = useCardSize();
     const imageSrc = isSelected && processedDisplayUrl ? processedDisplayUrl : url;
 
     return (
-        <div className="relative w-full" style={{ aspectRatio: '63/88' }}>
+        <div className="relative w-full" style={{ aspectRatio: `${cardSize.widthMm} / ${cardSize.heightMm}` }}>
             <img
                 src={imageSrc}
                 loading="lazy"
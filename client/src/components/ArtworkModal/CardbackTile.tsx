@@ -1,5 +1,6 @@
 import { Star, Trash2, Pencil } from 'lucide-react';
 import { CardImageSvg } from '../common/CardImageSvg';
+import { useCardSize } from '@/hooks/useCardSize';
 
 export interface CardbackTileProps {
     id: string;
@@ -43,6 +44,7 @@ export function CardbackTile({
     onCancelEdit,
 }: CardbackTileProps) {
     const isBlank = id === 'cardback_builtin_blank';
+    const cardSize = useCardSize();
     const isUploaded = source === 'uploaded';
 
     const borderClasses = isSelected
@@ -51,7 +53,8 @@ export function CardbackTile({
 
     return (
         <div
-            className="relative cursor-pointer group w-full aspect-63/88 rounded-[4%] overflow-hidden"
+            className="relative cursor-pointer group w-full rounded-[4%] overflow-hidden"
+            style={{ aspectRatio: `${cardSize.widthMm} / ${cardSize.heightMm}` }}
             onClick={onSelect}
         >
             {isBlank ? (
@@ -5,6 +5,7 @@
  */
 
 import type { DarkenMode } from '../../store/settings';
+import type { ToneCurve } from '../../../../shared/types';
 
 /**
  * Render parameters for CardCanvas.
@@ -122,6 +123,12 @@ export interface RenderParams {
     /** Gamma correction (0.1-3.0, 1.0 = no change) */
     gamma: number;
 
+    // === Curves & Levels ===
+    /** Per-channel levels and curve points (editor state) */
+    toneCurve: ToneCurve;
+    /** Baked RGB lookup table from toneCurve (base64, empty = none) */
+    toneLut: string;
+
     // === Border Effects ===
     /** Vignette intensity (0-1.0) */
     vignetteAmount: number;
@@ -130,6 +137,20 @@ export interface RenderParams {
     /** Vignette feather - softness of edge (0-1.0, higher = softer) */
     vignetteFeather: number;
 
+    // === Artwork Transform ===
+    /** Zoom of the artwork around the card center (0.5-4.0, 1 = fit) */
+    artScale: number;
+    /** Horizontal artwork offset as a fraction of card width (positive = right) */
+    artOffsetX: number;
+    /** Vertical artwork offset as a fraction of card height (positive = down) */
+    artOffsetY: number;
+    /** Artwork rotation in degrees (-180 to +180, clockwise) */
+    artRotation: number;
+    /** Mirror the artwork horizontally */
+    artFlipX: boolean;
+    /** Mirror the artwork vertically */
+    artFlipY: boolean;
+
     /** Explicit DPI for resolution-aware scaling */
     dpi?: number;
 }
@@ -192,10 +213,20 @@ export const DEFAULT_RENDER_PARAMS: RenderParams = {
     colorReplaceThreshold: 30,
     // Gamma
     gamma: 1.0,
+    // Curves & Levels
+    toneCurve: {},
+    toneLut: '',
     // Border effects
     vignetteAmount: 0,
     vignetteSize: 0.8,
     vignetteFeather: 0.5,
+    // Artwork transform
+    artScale: 1,
+    artOffsetX: 0,
+    artOffsetY: 0,
+    artRotation: 0,
+    artFlipX: false,
+    artFlipY: false,
     // Context
     dpi: undefined,
 };
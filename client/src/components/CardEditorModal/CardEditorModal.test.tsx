@@ -35,11 +35,19 @@ vi.mock('@/store/userPreferences', () => ({
 
 vi.mock('@/helpers/imageHistogram', () => ({
     calculateDarknessFactorFromBlob: vi.fn().mockResolvedValue(0.5),
+    calculateChannelHistogramsFromBlob: vi.fn().mockResolvedValue(null),
 }));
 
 // Mock PixiCardPreview since it uses WebGL
 vi.mock('../PixiPage/PixiCardPreview', () => ({
-    PixiCardPreview: () => <div data-testid="pixi-preview">PixiCardPreview Mock</div>,
+    PixiCardPreview: ({ onArtTransformChange }: { onArtTransformChange?: (patch: Record<string, number>) => void }) => (
+        <div data-testid="pixi-preview">
+            PixiCardPreview Mock
+            {onArtTransformChange && (
+                <button onClick={() => onArtTransformChange({ artOffsetX: 0.1, artScale: 1.2 })}>Drag Art</button>
+            )}
+        </div>
+    ),
 }));
 
 // Mock ZoomControls
@@ -363,6 +371,30 @@ describe('CardEditorModal', () => {
             expect(originalBtn).toHaveTextContent('Adjusted');
         });
 
+        it('should move the artwork by dragging on the preview in Move Art mode', async () => {
+            render(<CardEditorModal {...defaultProps} />);
+            expect(screen.queryByText('Drag Art')).not.toBeInTheDocument();
+
+            fireEvent.click(screen.getByRole('button', { name: 'Move Art' }));
+            await act(async () => {
+                fireEvent.click(screen.getByText('Drag Art'));
+            });
+            await act(async () => {
+                fireEvent.click(screen.getByText('Apply'));
+            });
+
+            expect(mockOnApply).toHaveBeenCalledWith(
+                'test-front-uuid',
+                expect.objectContaining({ artOffsetX: 0.1, artScale: 1.2 })
+            );
+        });
+
+        it('should show sections added after the section order was saved', () => {
+            render(<CardEditorModal {...defaultProps} />);
+
+            expect(screen.getByText('Artwork Position')).toBeInTheDocument();
+        });
+
         it('should handle zoom via wheel', async () => {
             render(<CardEditorModal {...defaultProps} />);
             const previewWrapper = screen.getByTestId('pixi-preview').parentElement;
@@ -438,8 +470,8 @@ describe('CardEditorModal', () => {
 
         it('should toggle all sections', () => {
             const setCollapsed = vi.fn();
-            // Mock needs to satisfy "collapsedCount >= SECTION_IDS.length / 2" (8/2 = 4)
-            const collapsedState = { basic: true, enhance: true, darkPixels: true, holographic: true };
+            // Mock needs to satisfy "collapsedCount >= SECTION_IDS.length / 2" (10/2 = 5)
+            const collapsedState = { basic: true, enhance: true, darkPixels: true, holographic: true, colorReplace: true };
 
             (useUserPreferencesStore as unknown as Mock).mockImplementation((selector) => {
                 const state = {
@@ -11,7 +11,7 @@
 import { memo, useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import { paramsToOverrides } from './paramsToOverrides';
 import { Modal, ModalHeader, ModalBody, ModalFooter, Button } from 'flowbite-react';
-import { Sun, Palette, RotateCcw, Moon, Sparkles, RefreshCw, ZoomIn, ZoomOut, Eye, EyeOff, ChevronsDown, ChevronsUp, WandSparkles, Replace, SquareDashedTopSolid } from 'lucide-react';
+import { Sun, Palette, RotateCcw, Moon, Sparkles, RefreshCw, ZoomIn, ZoomOut, Eye, EyeOff, ChevronsDown, ChevronsUp, WandSparkles, Replace, SquareDashedTopSolid, Crop, Move, Spline } from 'lucide-react';
 import {
     DndContext,
     closestCenter,
@@ -38,7 +38,10 @@ import { useOnClickOutside } from '@/hooks/useOnClickOutside';
 import { DEFAULT_RENDER_PARAMS, type RenderParams } from '../CardCanvas';
 import type { CardOption, CardOverrides } from '../../../../shared/types';
 import type { Image } from '../../db';
-import { calculateDarknessFactorFromBlob } from '@/helpers/imageHistogram';
+import { omitArtTransform, pickArtTransform } from '@/helpers/artTransform';
+import { calculateChannelHistogramsFromBlob, calculateDarknessFactorFromBlob, type ChannelHistograms } from '@/helpers/imageHistogram';
+import { LooksPanel } from './LooksPanel';
+import type { OverridesPreset } from '../../db';
 import './CardEditorModal.css';
 
 import {
@@ -50,6 +53,8 @@ import {
     GammaSection,
     ColorEffectsSection,
     BorderEffectsSection,
+    TransformSection,
+    CurvesSection,
     type SectionProps,
 } from './sections';
 
@@ -141,10 +146,14 @@ const SECTION_CONFIG: Record<string, { title: string; icon: React.ElementType; C
     holographic: { title: 'Holographic', icon: Sparkles, Content: HolographicSection },
     colorReplace: { title: 'Color Replace', icon: Replace, Content: ColorReplaceSection },
     gamma: { title: 'Gamma', icon: Sun, Content: GammaSection },
+    curves: { title: 'Curves & Levels', icon: Spline, Content: CurvesSection },
     colorEffects: { title: 'Color Effects', icon: Palette, Content: ColorEffectsSection },
     borderEffects: { title: 'Border Effects', icon: SquareDashedTopSolid, Content: BorderEffectsSection },
+    transform: { title: 'Artwork Position', icon: Crop, Content: TransformSection },
 };
 
+const SECTION_IDS = ['transform', 'basic', 'enhance', 'darkPixels', 'holographic', 'colorReplace', 'gamma', 'curves', 'colorEffects', 'borderEffects'];
+
 export function CardEditorModal({
     isOpen,
     onClose,
@@ -208,6 +217,7 @@ export function CardEditorModal({
     const panStart = useRef({ x: 0, y: 0, panX: 0, panY: 0 });
     const [useExportRes, setUseExportRes] = useState(false);
     const [showOriginal, setShowOriginal] = useState(false);
+    const [isMovingArt, setIsMovingArt] = useState(false);
     const containerRef = useRef<HTMLDivElement>(null);
 
     // Mobile detection
@@ -246,11 +256,12 @@ export function CardEditorModal({
     const setCardEditorSectionCollapsed = useUserPreferencesStore((state) => state.setCardEditorSectionCollapsed);
 
     // Section order (persisted in user preferences)
-    const cardEditorSectionOrder = useUserPreferencesStore((state) =>
-        (state.preferences?.cardEditorSectionOrder && state.preferences.cardEditorSectionOrder.length > 0)
-            ? state.preferences.cardEditorSectionOrder
-            : ['basic', 'enhance', 'darkPixels', 'holographic', 'colorReplace', 'gamma', 'colorEffects', 'borderEffects']
-    );
+    // Sections added after the order was saved go to the end
+    const savedSectionOrder = useUserPreferencesStore((state) => state.preferences?.cardEditorSectionOrder);
+    const cardEditorSectionOrder = useMemo(() => {
+        if (!savedSectionOrder || savedSectionOrder.length === 0) return SECTION_IDS;
+        return [...savedSectionOrder, ...SECTION_IDS.filter((id) => !savedSectionOrder.includes(id))];
+    }, [savedSectionOrder]);
     const setCardEditorSectionOrder = useUserPreferencesStore((state) => state.setCardEditorSectionOrder);
 
     // Helper to check if a section is open (not collapsed = open)
@@ -327,6 +338,7 @@ export function CardEditorModal({
             setPan({ x: 0, y: 0 });
             // DO NOT reset showBack here - it's initialized correctly via useState(initialFace === 'back')
             setUseExportRes(false);
+            setIsMovingArt(false);
         }
     }, [isOpen, card.uuid]);
 
@@ -422,8 +434,7 @@ export function CardEditorModal({
         });
     }, [cardEditorSectionCollapsed, setCardEditorSectionCollapsed]);
 
-    // Section IDs for expand/collapse all
-    const SECTION_IDS = ['basic', 'enhance', 'darkPixels', 'holographic', 'colorReplace', 'gamma', 'colorEffects', 'borderEffects'];
+    // Expand/collapse all
     const collapsedCount = SECTION_IDS.filter(id => !!cardEditorSectionCollapsed[id]).length;
     const shouldExpand = collapsedCount >= SECTION_IDS.length / 2;
 
@@ -436,13 +447,28 @@ export function CardEditorModal({
         }), {} as Record<string, boolean>);
 
         setCardEditorSectionCollapsed(newCollapsed);
-        // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [shouldExpand, setCardEditorSectionCollapsed]);
 
     const updateParam = useCallback(<K extends keyof RenderParams>(key: K, value: RenderParams[K]) => {
         setParams(prev => ({ ...prev, [key]: value }));
     }, [setParams]);
 
+    // Loading a saved look replaces the current face's adjustments (applied on Apply)
+    // A look replaces the adjustments but keeps the card's own artwork transform
+    const handleSelectLook = useCallback((preset: OverridesPreset) => {
+        setParams(prev => ({ ...getInitialParams(omitArtTransform(preset.overrides)), ...pickArtTransform(prev) }));
+    }, [setParams, getInitialParams]);
+
+    const currentOverrides = useMemo(() => paramsToOverrides(params), [params]);
+
+    // Dragging/scrolling on the preview in Move Art mode
+    const handleArtTransformChange = useCallback((patch: Partial<RenderParams>) => {
+        setParams(prev => ({ ...prev, ...patch }));
+    }, [setParams]);
+
+    // Histograms of the face being edited, for Curves & Levels
+    const [histogram, setHistogram] = useState<ChannelHistograms | null>(null);
+
     // Render a section by ID using config lookup
     const renderSection = useCallback((id: string) => {
         const config = SECTION_CONFIG[id];
@@ -457,10 +483,10 @@ export function CardEditorModal({
                 isOpen={isSectionOpen(id)}
                 onToggle={() => toggleSection(id)}
             >
-                <Content params={params} updateParam={updateParam} defaultParams={defaultParams} />
+                <Content params={params} updateParam={updateParam} defaultParams={defaultParams} histogram={histogram} />
             </SortableSection>
         );
-    }, [isSectionOpen, toggleSection, params, updateParam, defaultParams]);
+    }, [isSectionOpen, toggleSection, params, updateParam, defaultParams, histogram]);
 
     const currentUrl = showBack && backUrl ? backUrl : frontUrl;
     const hasBack = !!backCard; // Check for back card, not just image (allows default cardbacks)
@@ -493,6 +519,18 @@ export function CardEditorModal({
         });
     }, [baseTexture]);
 
+    useEffect(() => {
+        setHistogram(null);
+        if (!baseTexture) return;
+        let cancelled = false;
+        calculateChannelHistogramsFromBlob(baseTexture).then(result => {
+            if (!cancelled) setHistogram(result);
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [baseTexture]);
+
 
     return (
         <Modal
@@ -534,7 +572,7 @@ export function CardEditorModal({
                                 style={{
                                     // Apply pan offset - image size grows with zoom
                                     transform: `translate(${pan.x}px, ${pan.y}px)`,
-                                    pointerEvents: 'none',
+                                    pointerEvents: isMovingArt && !showOriginal ? 'auto' : 'none',
                                 }}
                             >
                                 {/* Render using shared PixiJS application for WebGL */}
@@ -545,6 +583,7 @@ export function CardEditorModal({
                                     height={Math.round(PREVIEW_HEIGHT * zoom)}
                                     params={showOriginal ? DEFAULT_RENDER_PARAMS : params}
                                     className="rounded-lg shadow-2xl"
+                                    onArtTransformChange={isMovingArt && !showOriginal ? handleArtTransformChange : undefined}
                                 />
                             </div>
                         ) : currentUrl ? (
@@ -641,7 +680,7 @@ export function CardEditorModal({
 
                         {/* Top-left: Front/Back toggle + DPI switch (desktop) */}
                         <div className={`absolute top-4 left-4 flex items-center gap-1 ${isMobile ? 'hidden' : ''}`}>
-                            {/* Front/Back flip button - matches SortableCard style */}
+                            {/* Front/Back flip button */}
                             <button
                                 type="button"
                                 className={`flex items-center gap-1.5 text-xs px-2 py-1.5 rounded-l backdrop-blur-sm transition-colors ${showBack
@@ -675,19 +714,39 @@ export function CardEditorModal({
                             </button>
                         </div>
 
-                        {/* Show Original toggle - bottom-left to avoid overlap */}
-                        <button
-                            type="button"
-                            className={`absolute bottom-4 left-4 flex items-center gap-1.5 text-xs px-3 py-1.5 rounded backdrop-blur-sm transition-colors ${showOriginal
-                                ? 'bg-amber-600/90 hover:bg-amber-500 text-white'
-                                : 'bg-gray-700/90 hover:bg-gray-600 text-gray-200'
-                                }`}
-                            onClick={() => setShowOriginal(!showOriginal)}
-                            title={showOriginal ? 'Show with adjustments' : 'Show original (no effects)'}
+                        {/* Show Original + Move Art toggles - bottom-left to avoid overlap */}
+                        <div
+                            className="absolute bottom-4 left-4 flex items-center gap-2"
+                            onMouseDown={(e) => e.stopPropagation()}
                         >
-                            {showOriginal ? <EyeOff className="w-3.5 h-3.5" /> : <Eye className="w-3.5 h-3.5" />}
-                            {showOriginal ? 'Original' : 'Adjusted'}
-                        </button>
+                            <button
+                                type="button"
+                                className={`flex items-center gap-1.5 text-xs px-3 py-1.5 rounded backdrop-blur-sm transition-colors ${showOriginal
+                                    ? 'bg-amber-600/90 hover:bg-amber-500 text-white'
+                                    : 'bg-gray-700/90 hover:bg-gray-600 text-gray-200'
+                                    }`}
+                                onClick={() => setShowOriginal(!showOriginal)}
+                                title={showOriginal ? 'Show with adjustments' : 'Show original (no effects)'}
+                            >
+                                {showOriginal ? <EyeOff className="w-3.5 h-3.5" /> : <Eye className="w-3.5 h-3.5" />}
+                                {showOriginal ? 'Original' : 'Adjusted'}
+                            </button>
+                            {baseTexture && (
+                                <button
+                                    type="button"
+                                    className={`flex items-center gap-1.5 text-xs px-3 py-1.5 rounded backdrop-blur-sm transition-colors ${isMovingArt
+                                        ? 'bg-blue-600/90 hover:bg-blue-500 text-white'
+                                        : 'bg-gray-700/90 hover:bg-gray-600 text-gray-200'
+                                        }`}
+                                    onClick={() => setIsMovingArt(!isMovingArt)}
+                                    aria-pressed={isMovingArt}
+                                    title={isMovingArt ? 'Drag to pan the view' : 'Drag to move the artwork, scroll to zoom, Shift+scroll to rotate'}
+                                >
+                                    <Move className="w-3.5 h-3.5" />
+                                    Move Art
+                                </button>
+                            )}
+                        </div>
 
                         {/* Reset button */}
                         {isDirty && (
@@ -719,6 +778,11 @@ export function CardEditorModal({
                                 {shouldExpand ? <ChevronsDown className="size-6" /> : <ChevronsUp className="size-6" />}
                             </button>
                         </div>
+                        <LooksPanel
+                            overrides={currentOverrides}
+                            thumbnailSource={baseTexture}
+                            onSelect={handleSelectLook}
+                        />
                         <DndContext
                             sensors={sensors}
                             collisionDetection={closestCenter}
@@ -13,6 +13,7 @@ import { db, type Image } from '@/db';
 import type { CardOverrides } from '../../../../shared/types';
 import { preRenderEffect, queueBulkPreRender } from '@/helpers/effectCache';
 import { hasActiveAdjustments } from '@/helpers/adjustmentUtils';
+import { hasArtTransform } from '@/helpers/artTransform';
 
 export function CardEditorModalWrapper() {
     const open = useCardEditorModalStore((state) => state.open);
@@ -91,7 +92,7 @@ export function CardEditorModalWrapper() {
         await db.cards.update(cardUuid, { overrides });
 
         // Fire-and-forget pre-render for export cache
-        if (overrides && hasActiveAdjustments(overrides)) {
+        if (overrides && (hasActiveAdjustments(overrides) || hasArtTransform(overrides))) {
             const cardRecord = await db.cards.get(cardUuid);
             const imageRecord = cardRecord?.imageId ? await db.images.get(cardRecord.imageId) : undefined;
             if (cardRecord && imageRecord?.exportBlob) {
@@ -109,7 +110,7 @@ export function CardEditorModalWrapper() {
         });
 
         // Queue pre-rendering in background using requestIdleCallback (non-blocking)
-        if (overrides && hasActiveAdjustments(overrides)) {
+        if (overrides && (hasActiveAdjustments(overrides) || hasArtTransform(overrides))) {
             // Gather image data in the next event loop tick
             setTimeout(async () => {
                 const imageIds = [...new Set(allCards.map(c => c.imageId).filter(Boolean))] as string[];
@@ -136,7 +137,7 @@ export function CardEditorModalWrapper() {
         });
 
         // Queue pre-rendering in background using requestIdleCallback (non-blocking)
-        if (overrides && hasActiveAdjustments(overrides)) {
+        if (overrides && (hasActiveAdjustments(overrides) || hasArtTransform(overrides))) {
             // Gather image data in the next event loop tick
             setTimeout(async () => {
                 const imageIds = [...new Set(selectedCards.map(c => c.imageId).filter(Boolean))] as string[];
@@ -0,0 +1,89 @@
+import '@testing-library/jest-dom';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { LooksPanel } from './LooksPanel';
+import { useUserPreferencesStore } from '@/store/userPreferences';
+
+const mocks = vi.hoisted(() => ({
+    renderPresetThumbnail: vi.fn(),
+    downloadOverridesPresets: vi.fn(),
+    parseOverridesPresets: vi.fn(),
+    showInfoToast: vi.fn(),
+    showErrorToast: vi.fn(),
+}));
+
+vi.mock('@/helpers/overridesPresets', () => ({
+    renderPresetThumbnail: mocks.renderPresetThumbnail,
+    downloadOverridesPresets: mocks.downloadOverridesPresets,
+    parseOverridesPresets: mocks.parseOverridesPresets,
+}));
+
+vi.mock('@/store/toast', () => ({
+    useToastStore: {
+        getState: () => ({ showInfoToast: mocks.showInfoToast, showErrorToast: mocks.showErrorToast }),
+    },
+}));
+
+describe('LooksPanel', () => {
+    const saveOverridesPresets = vi.fn().mockResolvedValue(undefined);
+    const deleteOverridesPreset = vi.fn().mockResolvedValue(undefined);
+    const warm = { name: 'Warm', overrides: { redBalance: 20 }, thumbnail: 'data:image/png;base64,AAAA', updatedAt: 1 };
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        useUserPreferencesStore.setState({
+            preferences: { id: 'default', settings: {}, favoriteCardbacks: [], overridesPresets: [warm] },
+            saveOverridesPresets,
+            deleteOverridesPreset,
+        });
+    });
+
+    it('should load a saved look into the editor', () => {
+        const onSelect = vi.fn();
+        render(<LooksPanel overrides={{}} thumbnailSource={null} onSelect={onSelect} />);
+
+        fireEvent.click(screen.getByTitle('Load "Warm"'));
+
+        expect(onSelect).toHaveBeenCalledWith(warm);
+    });
+
+    it('should save the current adjustments with a rendered thumbnail', async () => {
+        const source = new Blob(['card']);
+        mocks.renderPresetThumbnail.mockResolvedValueOnce('data:image/png;base64,BBBB');
+        render(<LooksPanel overrides={{ gamma: 1.3 }} thumbnailSource={source} onSelect={vi.fn()} />);
+
+        fireEvent.click(screen.getByTitle('Save current adjustments as a look'));
+        fireEvent.change(screen.getByLabelText('Look name'), { target: { value: ' warm ' } });
+        expect(screen.getByText(/will be overwritten/)).toBeInTheDocument();
+        fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+
+        await waitFor(() => expect(saveOverridesPresets).toHaveBeenCalledWith([
+            { name: 'warm', overrides: { gamma: 1.3 }, thumbnail: 'data:image/png;base64,BBBB', updatedAt: expect.any(Number) },
+        ]));
+        expect(mocks.renderPresetThumbnail).toHaveBeenCalledWith(source, { gamma: 1.3 });
+    });
+
+    it('should delete and export looks', () => {
+        render(<LooksPanel overrides={{}} thumbnailSource={null} onSelect={vi.fn()} />);
+
+        fireEvent.click(screen.getByLabelText('Delete look Warm'));
+        expect(deleteOverridesPreset).toHaveBeenCalledWith('Warm');
+
+        fireEvent.click(screen.getByTitle('Export looks'));
+        expect(mocks.downloadOverridesPresets).toHaveBeenCalledWith([warm]);
+    });
+
+    it('should report import errors', async () => {
+        mocks.parseOverridesPresets.mockImplementationOnce(() => {
+            throw new Error('Not a valid looks file');
+        });
+        render(<LooksPanel overrides={{}} thumbnailSource={null} onSelect={vi.fn()} />);
+
+        fireEvent.change(screen.getByTestId('looks-import-input'), {
+            target: { files: [new File(['{}'], 'looks.json', { type: 'application/json' })] },
+        });
+
+        await waitFor(() => expect(mocks.showErrorToast).toHaveBeenCalledWith('Not a valid looks file'));
+        expect(saveOverridesPresets).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,185 @@
+/**
+ * LooksPanel - Save the editor's current adjustments as a named look, load
+ * saved looks back into the editor, and share them as JSON
+ */
+
+import { useRef, useState } from 'react';
+import { Download, Save, Upload, X } from 'lucide-react';
+import { useUserPreferencesStore } from '@/store/userPreferences';
+import { useToastStore } from '@/store/toast';
+import { LookThumbnail } from '../common/LookMenu';
+import {
+    downloadOverridesPresets,
+    parseOverridesPresets,
+    renderPresetThumbnail,
+} from '@/helpers/overridesPresets';
+import { omitArtTransform } from '@/helpers/artTransform';
+import type { OverridesPreset } from '../../db';
+import type { CardOverrides } from '../../../../shared/types';
+
+async function readText(file: File): Promise<string> {
+    return new Promise((resolve) => {
+        const r = new FileReader();
+        r.onloadend = () => resolve(String(r.result || ''));
+        r.readAsText(file);
+    });
+}
+
+const iconButtonClass = 'p-1.5 rounded-md text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed';
+
+interface LooksPanelProps {
+    /** Adjustments of the face being edited */
+    overrides: CardOverrides;
+    /** Image the thumbnail is rendered from */
+    thumbnailSource: Blob | null;
+    onSelect: (preset: OverridesPreset) => void;
+}
+
+export function LooksPanel({ overrides, thumbnailSource, onSelect }: LooksPanelProps) {
+    const presets = useUserPreferencesStore((state) => state.preferences?.overridesPresets) ?? [];
+    const saveOverridesPresets = useUserPreferencesStore((state) => state.saveOverridesPresets);
+    const deleteOverridesPreset = useUserPreferencesStore((state) => state.deleteOverridesPreset);
+
+    const [isNaming, setIsNaming] = useState(false);
+    const [saveName, setSaveName] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+    const importInputRef = useRef<HTMLInputElement>(null);
+
+    const nameExists = presets.some((p) => p.name.trim().toLowerCase() === saveName.trim().toLowerCase());
+
+    const handleSave = async () => {
+        const name = saveName.trim();
+        if (!name || isSaving) return;
+        setIsSaving(true);
+        try {
+            // Looks are shared between cards, so leave this card's crop and rotation out
+            const look = omitArtTransform(overrides);
+            const thumbnail = thumbnailSource ? await renderPresetThumbnail(thumbnailSource, look) : undefined;
+            await saveOverridesPresets([{ name, overrides: look, thumbnail, updatedAt: Date.now() }]);
+            setIsNaming(false);
+            setSaveName('');
+            useToastStore.getState().showInfoToast(`Saved look "${name}"`);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const imported = parseOverridesPresets(await readText(file));
+            await saveOverridesPresets(imported);
+            useToastStore.getState().showInfoToast(
+                `Imported ${imported.length} look${imported.length !== 1 ? 's' : ''}`
+            );
+        } catch (err) {
+            const message = err instanceof Error ? err.message : 'Failed to import looks';
+            useToastStore.getState().showErrorToast(message);
+        }
+    };
+
+    return (
+        <div className="p-3 space-y-2 border-b border-gray-300 dark:border-gray-600">
+            <div className="flex items-center gap-1">
+                <span className="flex-1 text-base font-medium text-gray-700 dark:text-gray-200">Looks</span>
+                <button
+                    type="button"
+                    className={iconButtonClass}
+                    onClick={() => setIsNaming(!isNaming)}
+                    title="Save current adjustments as a look"
+                >
+                    <Save className="w-4 h-4" />
+                </button>
+                <button
+                    type="button"
+                    className={iconButtonClass}
+                    onClick={() => downloadOverridesPresets(presets)}
+                    disabled={presets.length === 0}
+                    title="Export looks"
+                >
+                    <Download className="w-4 h-4" />
+                </button>
+                <button
+                    type="button"
+                    className={iconButtonClass}
+                    onClick={() => importInputRef.current?.click()}
+                    title="Import looks"
+                >
+                    <Upload className="w-4 h-4" />
+                </button>
+                <input
+                    ref={importInputRef}
+                    type="file"
+                    accept=".json,application/json"
+                    onChange={handleImport}
+                    className="hidden"
+                    data-testid="looks-import-input"
+                />
+            </div>
+
+            {isNaming && (
+                <div className="space-y-1">
+                    <div className="flex gap-1">
+                        <input
+                            type="text"
+                            value={saveName}
+                            onChange={(e) => setSaveName(e.target.value)}
+                            onKeyDown={(e) => {
+                                if (e.key === 'Enter') void handleSave();
+                            }}
+                            placeholder="Look name"
+                            aria-label="Look name"
+                            autoFocus
+                            className="flex-1 min-w-0 px-2 py-1 text-sm rounded-md border border-gray-300 dark:border-gray-500 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                        />
+                        <button
+                            type="button"
+                            onClick={() => void handleSave()}
+                            disabled={!saveName.trim() || isSaving}
+                            className="px-2 py-1 text-sm rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+                        >
+                            {isSaving ? 'Saving...' : 'Save'}
+                        </button>
+                    </div>
+                    {nameExists && (
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                            A look with this name exists and will be overwritten.
+                        </p>
+                    )}
+                </div>
+            )}
+
+            {presets.length === 0 ? (
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                    Save your adjustments to reuse them on other cards and projects.
+                </p>
+            ) : (
+                <div className="grid grid-cols-4 gap-2">
+                    {presets.map((preset) => (
+                        <div key={preset.name} className="group relative">
+                            <button
+                                type="button"
+                                onClick={() => onSelect(preset)}
+                                className="w-full flex flex-col items-center gap-1 p-1 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600"
+                                title={`Load "${preset.name}"`}
+                            >
+                                <LookThumbnail preset={preset} className="w-full aspect-[5/7]" />
+                                <span className="w-full truncate text-xs text-gray-700 dark:text-gray-300">{preset.name}</span>
+                            </button>
+                            <button
+                                type="button"
+                                onClick={() => void deleteOverridesPreset(preset.name)}
+                                className="absolute top-0 right-0 p-0.5 rounded-full bg-gray-800/80 text-white opacity-0 group-hover:opacity-100 focus:opacity-100"
+                                aria-label={`Delete look ${preset.name}`}
+                            >
+                                <X className="w-3 h-3" />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -68,9 +68,21 @@ export function paramsToOverrides(params: RenderParams): CardOverrides {
     if (params.colorReplaceThreshold !== DEFAULT_RENDER_PARAMS.colorReplaceThreshold) overrides.colorReplaceThreshold = params.colorReplaceThreshold;
     // Gamma
     if (params.gamma !== DEFAULT_RENDER_PARAMS.gamma) overrides.gamma = params.gamma;
+    // Curves & Levels - the curve is kept next to its LUT so it can be edited again
+    if (params.toneLut) {
+        overrides.toneLut = params.toneLut;
+        overrides.toneCurve = params.toneCurve;
+    }
     // Border effects
     if (params.vignetteAmount !== DEFAULT_RENDER_PARAMS.vignetteAmount) overrides.vignetteAmount = params.vignetteAmount;
     if (params.vignetteSize !== DEFAULT_RENDER_PARAMS.vignetteSize) overrides.vignetteSize = params.vignetteSize;
     if (params.vignetteFeather !== DEFAULT_RENDER_PARAMS.vignetteFeather) overrides.vignetteFeather = params.vignetteFeather;
+    // Artwork transform
+    if (params.artScale !== DEFAULT_RENDER_PARAMS.artScale) overrides.artScale = params.artScale;
+    if (params.artOffsetX !== DEFAULT_RENDER_PARAMS.artOffsetX) overrides.artOffsetX = params.artOffsetX;
+    if (params.artOffsetY !== DEFAULT_RENDER_PARAMS.artOffsetY) overrides.artOffsetY = params.artOffsetY;
+    if (params.artRotation !== DEFAULT_RENDER_PARAMS.artRotation) overrides.artRotation = params.artRotation;
+    if (params.artFlipX !== DEFAULT_RENDER_PARAMS.artFlipX) overrides.artFlipX = params.artFlipX;
+    if (params.artFlipY !== DEFAULT_RENDER_PARAMS.artFlipY) overrides.artFlipY = params.artFlipY;
     return overrides;
 }
@@ -0,0 +1,105 @@
+import '@testing-library/jest-dom';
+import { describe, it, expect, vi, beforeEach, type Mock } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { CurvesSection } from './CurvesSection';
+import { DEFAULT_RENDER_PARAMS, type RenderParams } from '../../CardCanvas/types';
+import { DEFAULT_TONE_CHANNEL } from '@/helpers/toneCurve';
+import type { ChannelHistograms } from '@/helpers/imageHistogram';
+
+interface MockStyledSliderProps {
+    label: string;
+    value: number;
+    onChange: (val: number) => void;
+    displayValue?: string;
+}
+
+vi.mock('../../common/StyledSlider', () => ({
+    StyledSlider: ({ label, value, onChange, displayValue }: MockStyledSliderProps) => (
+        <div data-testid={`slider-${label}`}>
+            <span data-testid={`display-${label}`}>{displayValue}</span>
+            <input
+                data-testid={`input-${label}`}
+                type="range"
+                value={value}
+                onChange={(e) => onChange(Number(e.target.value))}
+            />
+        </div>
+    )
+}));
+
+function makeHistograms(): ChannelHistograms {
+    const bins = () => new Uint32Array(256);
+    const histograms = { red: bins(), green: bins(), blue: bins(), luminance: bins() };
+    for (let i = 30; i <= 220; i++) {
+        histograms.red[i] = 10;
+        histograms.green[i] = 10;
+        histograms.blue[i] = 10;
+        histograms.luminance[i] = 10;
+    }
+    return histograms;
+}
+
+describe('CurvesSection', () => {
+    const mockUpdateParam: Mock = vi.fn();
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('should edit the levels of the selected channel and bake the LUT', () => {
+        render(<CurvesSection params={DEFAULT_RENDER_PARAMS} updateParam={mockUpdateParam} defaultParams={DEFAULT_RENDER_PARAMS} />);
+
+        fireEvent.click(screen.getByRole('button', { name: 'Red' }));
+        fireEvent.change(screen.getByTestId('input-Input White'), { target: { value: '90' } });
+
+        expect(mockUpdateParam).toHaveBeenCalledWith('toneCurve', { red: { ...DEFAULT_TONE_CHANNEL, inWhite: 90 } });
+        expect(mockUpdateParam).toHaveBeenCalledWith('toneLut', expect.stringMatching(/.+/));
+    });
+
+    it('should keep the input black point below the white point', () => {
+        const params: RenderParams = { ...DEFAULT_RENDER_PARAMS, toneCurve: { master: { ...DEFAULT_TONE_CHANNEL, inWhite: 100 } } };
+        render(<CurvesSection params={params} updateParam={mockUpdateParam} defaultParams={DEFAULT_RENDER_PARAMS} />);
+
+        fireEvent.change(screen.getByTestId('input-Input Black'), { target: { value: '99' } });
+
+        expect(mockUpdateParam).toHaveBeenCalledWith('toneCurve', { master: { ...DEFAULT_TONE_CHANNEL, inWhite: 100, inBlack: 98 } });
+    });
+
+    it('should auto-level from the histogram', () => {
+        render(<CurvesSection params={DEFAULT_RENDER_PARAMS} updateParam={mockUpdateParam} defaultParams={DEFAULT_RENDER_PARAMS} histogram={makeHistograms()} />);
+
+        fireEvent.click(screen.getByRole('button', { name: /Auto Levels/ }));
+
+        expect(mockUpdateParam).toHaveBeenCalledWith('toneCurve', expect.objectContaining({
+            red: expect.objectContaining({ inBlack: 30, inWhite: 220 }),
+        }));
+    });
+
+    it('should disable auto levels until the histogram is ready', () => {
+        render(<CurvesSection params={DEFAULT_RENDER_PARAMS} updateParam={mockUpdateParam} defaultParams={DEFAULT_RENDER_PARAMS} histogram={null} />);
+
+        expect(screen.getByRole('button', { name: /Auto Levels/ })).toBeDisabled();
+    });
+
+    it('should reset only the selected channel and clear the LUT when nothing is left', () => {
+        const params: RenderParams = { ...DEFAULT_RENDER_PARAMS, toneCurve: { master: { ...DEFAULT_TONE_CHANNEL, gamma: 1.4 } } };
+        render(<CurvesSection params={params} updateParam={mockUpdateParam} defaultParams={DEFAULT_RENDER_PARAMS} />);
+
+        fireEvent.click(screen.getByRole('button', { name: /Reset RGB/ }));
+
+        expect(mockUpdateParam).toHaveBeenCalledWith('toneCurve', {});
+        expect(mockUpdateParam).toHaveBeenCalledWith('toneLut', '');
+    });
+
+    it('should remove a curve point on double-click but keep the end points', () => {
+        const points: [number, number][] = [[0, 0], [128, 160], [255, 255]];
+        const params: RenderParams = { ...DEFAULT_RENDER_PARAMS, toneCurve: { master: { ...DEFAULT_TONE_CHANNEL, points } } };
+        render(<CurvesSection params={params} updateParam={mockUpdateParam} defaultParams={DEFAULT_RENDER_PARAMS} />);
+
+        fireEvent.doubleClick(screen.getByTestId('curve-point-0'));
+        expect(mockUpdateParam).not.toHaveBeenCalled();
+
+        fireEvent.doubleClick(screen.getByTestId('curve-point-1'));
+        expect(mockUpdateParam).toHaveBeenCalledWith('toneCurve', { master: { ...DEFAULT_TONE_CHANNEL, points: [[0, 0], [255, 255]] } });
+    });
+});
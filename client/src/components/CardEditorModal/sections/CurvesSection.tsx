@@ -0,0 +1,293 @@
+/**
+ * CurvesSection - Per-channel levels and tone curve over the card's histogram
+ */
+
+import { memo, useCallback, useMemo, useRef, useState } from 'react';
+import { RotateCcw, Wand2 } from 'lucide-react';
+import { StyledSlider } from '../../common/StyledSlider';
+import {
+    DEFAULT_TONE_CHANNEL,
+    TONE_CHANNELS,
+    computeAutoLevels,
+    createCurve,
+    getToneLut,
+} from '@/helpers/toneCurve';
+import type { ToneChannel, ToneChannelSettings, ToneCurve } from '../../../../../shared/types';
+import type { SectionProps } from './index';
+
+const CHANNEL_LABELS: Record<ToneChannel, string> = {
+    master: 'RGB',
+    red: 'Red',
+    green: 'Green',
+    blue: 'Blue',
+};
+
+const CHANNEL_COLORS: Record<ToneChannel, string> = {
+    master: '#9ca3af',
+    red: '#ef4444',
+    green: '#22c55e',
+    blue: '#3b82f6',
+};
+
+// Grab radius around a control point, in curve units (0-255)
+const HIT_RADIUS = 10;
+
+const channelButtonClass = (active: boolean) =>
+    `flex-1 text-xs px-2 py-1 rounded border transition-colors ${active
+        ? 'bg-blue-600 border-blue-600 text-white'
+        : 'bg-white dark:bg-gray-800 border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700'
+    }`;
+
+interface CurveGraphProps {
+    points: [number, number][];
+    histogram: Uint32Array | null;
+    color: string;
+    onChange: (points: [number, number][]) => void;
+}
+
+/**
+ * Draggable curve editor. Click to add a point, drag to move it,
+ * double-click to remove it (the end points always stay).
+ */
+const CurveGraph = memo(function CurveGraph({ points, histogram, color, onChange }: CurveGraphProps) {
+    const svgRef = useRef<SVGSVGElement>(null);
+    const dragIndexRef = useRef<number | null>(null);
+
+    const histogramPath = useMemo(() => {
+        if (!histogram) return null;
+        // Scale to the tallest inner bin so clipped blacks/whites don't flatten the rest
+        let max = 1;
+        for (let i = 1; i < 255; i++) max = Math.max(max, histogram[i]);
+        let d = 'M0,256';
+        for (let i = 0; i < 256; i++) {
+            d += ` L${i},${256 - Math.min(1, histogram[i] / max) * 256}`;
+        }
+        return `${d} L255,256 Z`;
+    }, [histogram]);
+
+    const curvePath = useMemo(() => {
+        const curve = createCurve(points);
+        let d = '';
+        for (let x = 0; x <= 256; x += 4) {
+            const clamped = Math.min(255, x);
+            d += `${d ? ' L' : 'M'}${clamped},${255 - curve(clamped)}`;
+        }
+        return d;
+    }, [points]);
+
+    // Pointer position in curve units, or null if the graph has no size yet
+    const toCurveValue = (e: React.PointerEvent): [number, number] | null => {
+        const rect = svgRef.current?.getBoundingClientRect();
+        if (!rect || !rect.width || !rect.height) return null;
+        const x = Math.round(((e.clientX - rect.left) / rect.width) * 255);
+        const y = Math.round(255 - ((e.clientY - rect.top) / rect.height) * 255);
+        return [Math.min(255, Math.max(0, x)), Math.min(255, Math.max(0, y))];
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+        const value = toCurveValue(e);
+        if (!value) return;
+        e.currentTarget.setPointerCapture(e.pointerId);
+
+        const hit = points.findIndex(([x, y]) => Math.hypot(x - value[0], y - value[1]) <= HIT_RADIUS);
+        if (hit !== -1) {
+            dragIndexRef.current = hit;
+            return;
+        }
+
+        // Add a point on the curve under the pointer, between the end points
+        if (value[0] <= points[0][0] || value[0] >= points[points.length - 1][0]) return;
+        if (points.some(([x]) => x === value[0])) return;
+        const next = [...points, value].sort((a, b) => a[0] - b[0]);
+        dragIndexRef.current = next.indexOf(value);
+        onChange(next);
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+        const index = dragIndexRef.current;
+        if (index === null) return;
+        const value = toCurveValue(e);
+        if (!value) return;
+
+        // Keep points in order so the curve stays a function of the input
+        const minX = index > 0 ? points[index - 1][0] + 1 : 0;
+        const maxX = index < points.length - 1 ? points[index + 1][0] - 1 : 255;
+        const next = [...points];
+        next[index] = [Math.min(maxX, Math.max(minX, value[0])), value[1]];
+        onChange(next);
+    };
+
+    const handlePointerUp = () => {
+        dragIndexRef.current = null;
+    };
+
+    const removePoint = (index: number) => {
+        if (index === 0 || index === points.length - 1) return;
+        onChange(points.filter((_, i) => i !== index));
+    };
+
+    return (
+        <svg
+            ref={svgRef}
+            viewBox="-4 -4 263 263"
+            className="w-full aspect-square bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-600 rounded cursor-crosshair touch-none select-none"
+            role="img"
+            aria-label="Tone curve"
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+        >
+            {histogramPath && <path d={histogramPath} fill={color} opacity={0.25} />}
+            {[64, 128, 192].map((v) => (
+                <g key={v} stroke="currentColor" className="text-gray-200 dark:text-gray-700" strokeWidth={0.5}>
+                    <line x1={v} y1={0} x2={v} y2={255} />
+                    <line x1={0} y1={v} x2={255} y2={v} />
+                </g>
+            ))}
+            <line x1={0} y1={255} x2={255} y2={0} stroke="currentColor" className="text-gray-300 dark:text-gray-600" strokeDasharray="4 4" strokeWidth={0.75} />
+            <path d={curvePath} fill="none" stroke={color} strokeWidth={2} />
+            {points.map(([x, y], i) => (
+                <circle
+                    key={i}
+                    cx={x}
+                    cy={255 - y}
+                    r={5}
+                    fill="white"
+                    stroke={color}
+                    strokeWidth={2}
+                    data-testid={`curve-point-${i}`}
+                    onDoubleClick={() => removePoint(i)}
+                />
+            ))}
+        </svg>
+    );
+});
+
+export const CurvesSection = memo(function CurvesSection({
+    params,
+    updateParam,
+    histogram,
+}: SectionProps) {
+    const [channel, setChannel] = useState<ToneChannel>('master');
+    const settings = params.toneCurve[channel] ?? DEFAULT_TONE_CHANNEL;
+
+    // The curve is edited, the LUT is what gets rendered - keep them together
+    const setCurve = useCallback((next: ToneCurve) => {
+        updateParam('toneCurve', next);
+        updateParam('toneLut', getToneLut(next));
+    }, [updateParam]);
+
+    const updateChannel = (patch: Partial<ToneChannelSettings>) => {
+        setCurve({ ...params.toneCurve, [channel]: { ...settings, ...patch } });
+    };
+
+    const resetChannel = () => {
+        const next = { ...params.toneCurve };
+        delete next[channel];
+        setCurve(next);
+    };
+
+    const handleAutoLevels = () => {
+        if (histogram) setCurve(computeAutoLevels(params.toneCurve, histogram));
+    };
+
+    const channelHistogram = histogram ? histogram[channel === 'master' ? 'luminance' : channel] : null;
+
+    return (
+        <>
+            <div className="flex gap-1 mb-2" role="group" aria-label="Channel">
+                {TONE_CHANNELS.map((id) => (
+                    <button
+                        key={id}
+                        type="button"
+                        className={channelButtonClass(id === channel)}
+                        onClick={() => setChannel(id)}
+                        aria-pressed={id === channel}
+                    >
+                        {CHANNEL_LABELS[id]}
+                    </button>
+                ))}
+            </div>
+            <CurveGraph
+                points={settings.points}
+                histogram={channelHistogram}
+                color={CHANNEL_COLORS[channel]}
+                onChange={(points) => updateChannel({ points })}
+            />
+            <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+                Click to add a point, drag to move it, double-click to remove it.
+            </p>
+            <StyledSlider
+                label="Input Black"
+                value={settings.inBlack}
+                onChange={(v) => updateChannel({ inBlack: Math.min(v, settings.inWhite - 2) })}
+                min={0}
+                max={255}
+                step={1}
+                displayValue={`${settings.inBlack}`}
+                defaultValue={DEFAULT_TONE_CHANNEL.inBlack}
+            />
+            <StyledSlider
+                label="Input White"
+                value={settings.inWhite}
+                onChange={(v) => updateChannel({ inWhite: Math.max(v, settings.inBlack + 2) })}
+                min={0}
+                max={255}
+                step={1}
+                displayValue={`${settings.inWhite}`}
+                defaultValue={DEFAULT_TONE_CHANNEL.inWhite}
+            />
+            <StyledSlider
+                label="Midtones"
+                value={settings.gamma}
+                onChange={(v) => updateChannel({ gamma: v })}
+                min={0.1}
+                max={3}
+                step={0.01}
+                displayValue={settings.gamma.toFixed(2)}
+                defaultValue={DEFAULT_TONE_CHANNEL.gamma}
+            />
+            <StyledSlider
+                label="Output Black"
+                value={settings.outBlack}
+                onChange={(v) => updateChannel({ outBlack: v })}
+                min={0}
+                max={255}
+                step={1}
+                displayValue={`${settings.outBlack}`}
+                defaultValue={DEFAULT_TONE_CHANNEL.outBlack}
+            />
+            <StyledSlider
+                label="Output White"
+                value={settings.outWhite}
+                onChange={(v) => updateChannel({ outWhite: v })}
+                min={0}
+                max={255}
+                step={1}
+                displayValue={`${settings.outWhite}`}
+                defaultValue={DEFAULT_TONE_CHANNEL.outWhite}
+            />
+            <div className="flex gap-2">
+                <button
+                    type="button"
+                    className="flex-1 flex items-center justify-center gap-1.5 text-xs px-2 py-1.5 rounded border bg-white dark:bg-gray-800 border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                    onClick={handleAutoLevels}
+                    disabled={!histogram}
+                    title="Stretch each color channel to the full range"
+                >
+                    <Wand2 className="w-3.5 h-3.5" />
+                    Auto Levels
+                </button>
+                <button
+                    type="button"
+                    className="flex-1 flex items-center justify-center gap-1.5 text-xs px-2 py-1.5 rounded border bg-white dark:bg-gray-800 border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+                    onClick={resetChannel}
+                >
+                    <RotateCcw className="w-3.5 h-3.5" />
+                    Reset {CHANNEL_LABELS[channel]}
+                </button>
+            </div>
+        </>
+    );
+});
@@ -0,0 +1,62 @@
+import '@testing-library/jest-dom';
+import { describe, it, expect, vi, beforeEach, type Mock } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { TransformSection } from './TransformSection';
+import { DEFAULT_RENDER_PARAMS, type RenderParams } from '../../CardCanvas/types';
+
+interface MockStyledSliderProps {
+    label: string;
+    value: number;
+    onChange: (val: number) => void;
+    displayValue?: string;
+}
+
+vi.mock('../../common/StyledSlider', () => ({
+    StyledSlider: ({ label, value, onChange, displayValue }: MockStyledSliderProps) => (
+        <div data-testid={`slider-${label}`}>
+            <span data-testid={`display-${label}`}>{displayValue}</span>
+            <input
+                data-testid={`input-${label}`}
+                type="range"
+                value={value}
+                onChange={(e) => onChange(Number(e.target.value))}
+            />
+        </div>
+    )
+}));
+
+describe('TransformSection', () => {
+    const mockUpdateParam: Mock = vi.fn();
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('should show the current transform', () => {
+        const params: RenderParams = { ...DEFAULT_RENDER_PARAMS, artScale: 1.25, artOffsetX: -0.05, artRotation: 2.5 };
+        render(<TransformSection params={params} updateParam={mockUpdateParam} defaultParams={DEFAULT_RENDER_PARAMS} />);
+
+        expect(screen.getByTestId('display-Scale')).toHaveTextContent('125%');
+        expect(screen.getByTestId('display-Horizontal Position')).toHaveTextContent('-5.0%');
+        expect(screen.getByTestId('display-Rotation')).toHaveTextContent('2.5°');
+    });
+
+    it('should update the rotation', () => {
+        render(<TransformSection params={DEFAULT_RENDER_PARAMS} updateParam={mockUpdateParam} defaultParams={DEFAULT_RENDER_PARAMS} />);
+
+        fireEvent.change(screen.getByTestId('input-Rotation'), { target: { value: '90' } });
+
+        expect(mockUpdateParam).toHaveBeenCalledWith('artRotation', 90);
+    });
+
+    it('should toggle the flips', () => {
+        const params: RenderParams = { ...DEFAULT_RENDER_PARAMS, artFlipY: true };
+        render(<TransformSection params={params} updateParam={mockUpdateParam} defaultParams={DEFAULT_RENDER_PARAMS} />);
+
+        fireEvent.click(screen.getByRole('button', { name: 'Flip Horizontal' }));
+        fireEvent.click(screen.getByRole('button', { name: 'Flip Vertical' }));
+
+        expect(mockUpdateParam).toHaveBeenCalledWith('artFlipX', true);
+        expect(mockUpdateParam).toHaveBeenCalledWith('artFlipY', false);
+    });
+});
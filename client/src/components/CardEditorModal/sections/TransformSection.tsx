@@ -0,0 +1,92 @@
+/**
+ * TransformSection - Artwork scale, position, rotation and flip controls
+ */
+
+import { memo } from 'react';
+import { FlipHorizontal2, FlipVertical2 } from 'lucide-react';
+import { StyledSlider } from '../../common/StyledSlider';
+import { ART_SCALE_MAX, ART_SCALE_MIN } from '@/helpers/artTransform';
+import type { SectionProps } from './index';
+
+const flipButtonClass = (active: boolean) =>
+    `flex-1 flex items-center justify-center gap-1.5 text-xs px-2 py-1.5 rounded border transition-colors ${active
+        ? 'bg-blue-600 border-blue-600 text-white'
+        : 'bg-white dark:bg-gray-800 border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700'
+    }`;
+
+export const TransformSection = memo(function TransformSection({
+    params,
+    updateParam,
+    defaultParams,
+}: SectionProps) {
+    return (
+        <>
+            <StyledSlider
+                label="Scale"
+                value={params.artScale}
+                onChange={(v) => updateParam('artScale', v)}
+                min={ART_SCALE_MIN}
+                max={ART_SCALE_MAX}
+                step={0.01}
+                displayValue={`${(params.artScale * 100).toFixed(0)}%`}
+                displayMultiplier={100}
+                defaultValue={defaultParams.artScale}
+            />
+            <StyledSlider
+                label="Horizontal Position"
+                value={params.artOffsetX}
+                onChange={(v) => updateParam('artOffsetX', v)}
+                min={-0.5}
+                max={0.5}
+                step={0.001}
+                displayValue={`${(params.artOffsetX * 100).toFixed(1)}%`}
+                displayMultiplier={100}
+                defaultValue={defaultParams.artOffsetX}
+            />
+            <StyledSlider
+                label="Vertical Position"
+                value={params.artOffsetY}
+                onChange={(v) => updateParam('artOffsetY', v)}
+                min={-0.5}
+                max={0.5}
+                step={0.001}
+                displayValue={`${(params.artOffsetY * 100).toFixed(1)}%`}
+                displayMultiplier={100}
+                defaultValue={defaultParams.artOffsetY}
+            />
+            <StyledSlider
+                label="Rotation"
+                value={params.artRotation}
+                onChange={(v) => updateParam('artRotation', v)}
+                min={-180}
+                max={180}
+                step={0.1}
+                displayValue={`${params.artRotation.toFixed(1)}°`}
+                defaultValue={defaultParams.artRotation}
+            />
+            <div className="flex gap-2 mb-3">
+                <button
+                    type="button"
+                    className={flipButtonClass(params.artFlipX)}
+                    onClick={() => updateParam('artFlipX', !params.artFlipX)}
+                    aria-pressed={params.artFlipX}
+                >
+                    <FlipHorizontal2 className="w-3.5 h-3.5" />
+                    Flip Horizontal
+                </button>
+                <button
+                    type="button"
+                    className={flipButtonClass(params.artFlipY)}
+                    onClick={() => updateParam('artFlipY', !params.artFlipY)}
+                    aria-pressed={params.artFlipY}
+                >
+                    <FlipVertical2 className="w-3.5 h-3.5" />
+                    Flip Vertical
+                </button>
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+                Turn on Move Art to drag the artwork on the preview. Scroll to zoom, Shift+scroll to rotate.
+            </p>
+        </>
+    );
+});
@@ -11,13 +11,18 @@ export { ColorReplaceSection } from './ColorReplaceSection';
 export { GammaSection } from './GammaSection';
 export { ColorEffectsSection } from './ColorEffectsSection';
 export { BorderEffectsSection } from './BorderEffectsSection';
+export { TransformSection } from './TransformSection';
+export { CurvesSection } from './CurvesSection';
 
 // Shared props interface for all section components
 import type { RenderParams } from '../../CardCanvas';
 import type { DEFAULT_RENDER_PARAMS } from '../../CardCanvas';
+import type { ChannelHistograms } from '@/helpers/imageHistogram';
 
 export interface SectionProps {
     params: RenderParams;
     updateParam: <K extends keyof RenderParams>(key: K, value: RenderParams[K]) => void;
     defaultParams: typeof DEFAULT_RENDER_PARAMS;
+    /** Histograms of the face being edited (null while loading) */
+    histogram?: ChannelHistograms | null;
 }
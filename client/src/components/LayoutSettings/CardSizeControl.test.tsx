@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import React from 'react';
+
+const mockState = vi.hoisted(() => ({
+    cardSizePreset: 'mtg' as string,
+    cardWidthMm: 63,
+    cardHeightMm: 88,
+    cardCornerRadiusMm: 2.5,
+}));
+
+const mockSetters = vi.hoisted(() => ({
+    setCardSizePreset: vi.fn(),
+    setCardWidthMm: vi.fn(),
+    setCardHeightMm: vi.fn(),
+    setCardCornerRadiusMm: vi.fn(),
+}));
+
+vi.mock('@/store', () => ({
+    useSettingsStore: vi.fn((selector) => selector({ ...mockState, ...mockSetters })),
+}));
+
+vi.mock('flowbite-react', () => ({
+    Label: ({ children, htmlFor, className }: { children: React.ReactNode; htmlFor?: string; className?: string }) => (
+        <label htmlFor={htmlFor} className={className}>{children}</label>
+    ),
+    Select: ({ id, value, onChange, children }: { id?: string; value: string; onChange: (e: { target: { value: string } }) => void; children: React.ReactNode }) => (
+        <select data-testid={id || 'select'} value={value} onChange={onChange}>{children}</select>
+    ),
+}));
+
+vi.mock('../common', () => ({
+    NumberInput: ({ id, disabled, value, onChange, onBlur, onKeyDown }: { id?: string; disabled?: boolean; value: string; onChange?: (e: { target: { value: string } }) => void; onBlur?: () => void; onKeyDown?: (e: { key: string }) => void }) => (
+        <input
+            data-testid={id || 'number-input'}
+            type="number"
+            disabled={disabled}
+            value={value}
+            onChange={onChange}
+            onBlur={onBlur}
+            onKeyDown={onKeyDown}
+        />
+    ),
+}));
+
+import { CardSizeControl } from './CardSizeControl';
+
+describe('CardSizeControl', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        mockState.cardSizePreset = 'mtg';
+        mockState.cardWidthMm = 63;
+        mockState.cardHeightMm = 88;
+        mockState.cardCornerRadiusMm = 2.5;
+    });
+
+    it('should list presets with their dimensions', () => {
+        render(<CardSizeControl />);
+        expect(screen.getByText('Standard (MTG, Pokémon) (63 × 88 mm)')).toBeDefined();
+        expect(screen.getByText('Yu-Gi-Oh (59 × 86 mm)')).toBeDefined();
+        expect(screen.getByText('Custom')).toBeDefined();
+    });
+
+    it('should call setCardSizePreset when preset changes', () => {
+        render(<CardSizeControl />);
+        fireEvent.change(screen.getByTestId('card-size-select'), { target: { value: 'tarot' } });
+        expect(mockSetters.setCardSizePreset).toHaveBeenCalledWith('tarot');
+    });
+
+    it('should disable dimension inputs for presets', () => {
+        render(<CardSizeControl />);
+        expect((screen.getByTestId('card-width-input') as HTMLInputElement).disabled).toBe(true);
+        expect((screen.getByTestId('card-radius-input') as HTMLInputElement).disabled).toBe(true);
+    });
+
+    describe('custom size inputs', () => {
+        beforeEach(() => {
+            mockState.cardSizePreset = 'custom';
+        });
+
+        it('should commit width on blur', () => {
+            render(<CardSizeControl />);
+            const input = screen.getByTestId('card-width-input');
+            fireEvent.change(input, { target: { value: '70' } });
+            fireEvent.blur(input);
+            expect(mockSetters.setCardWidthMm).toHaveBeenCalledWith(70);
+        });
+
+        it('should commit height on Enter key', () => {
+            render(<CardSizeControl />);
+            const input = screen.getByTestId('card-height-input');
+            fireEvent.change(input, { target: { value: '120' } });
+            fireEvent.keyDown(input, { key: 'Enter' });
+            expect(mockSetters.setCardHeightMm).toHaveBeenCalledWith(120);
+        });
+
+        it('should reject invalid values', () => {
+            render(<CardSizeControl />);
+            const width = screen.getByTestId('card-width-input') as HTMLInputElement;
+            fireEvent.change(width, { target: { value: '0' } });
+            fireEvent.blur(width);
+            expect(mockSetters.setCardWidthMm).not.toHaveBeenCalled();
+            expect(width.value).toBe('63');
+
+            // Radius larger than half the card width
+            const radius = screen.getByTestId('card-radius-input');
+            fireEvent.change(radius, { target: { value: '40' } });
+            fireEvent.blur(radius);
+            expect(mockSetters.setCardCornerRadiusMm).not.toHaveBeenCalled();
+        });
+
+        it('should commit corner radius', () => {
+            render(<CardSizeControl />);
+            const input = screen.getByTestId('card-radius-input');
+            fireEvent.change(input, { target: { value: '3' } });
+            fireEvent.blur(input);
+            expect(mockSetters.setCardCornerRadiusMm).toHaveBeenCalledWith(3);
+        });
+    });
+});
@@ -0,0 +1,129 @@
+import { useSettingsStore } from "@/store";
+import { CARD_SIZE_PRESETS, formatCardSize, type CardSizePreset } from "@/helpers/cardSizes";
+import { Label, Select } from "flowbite-react";
+import { NumberInput } from "../common";
+import { useEffect, useState } from "react";
+
+const presetOptions = Object.values(CARD_SIZE_PRESETS);
+
+export function CardSizeControl() {
+  const cardSizePreset = useSettingsStore((state) => state.cardSizePreset);
+  const cardWidthMm = useSettingsStore((state) => state.cardWidthMm);
+  const cardHeightMm = useSettingsStore((state) => state.cardHeightMm);
+  const cardCornerRadiusMm = useSettingsStore((state) => state.cardCornerRadiusMm);
+
+  const setCardSizePreset = useSettingsStore((state) => state.setCardSizePreset);
+  const setCardWidthMm = useSettingsStore((state) => state.setCardWidthMm);
+  const setCardHeightMm = useSettingsStore((state) => state.setCardHeightMm);
+  const setCardCornerRadiusMm = useSettingsStore((state) => state.setCardCornerRadiusMm);
+
+  const isCustom = cardSizePreset === "custom";
+
+  // Local state for input values to prevent focus loss while typing
+  const [localWidth, setLocalWidth] = useState(String(cardWidthMm));
+  const [localHeight, setLocalHeight] = useState(String(cardHeightMm));
+  const [localRadius, setLocalRadius] = useState(String(cardCornerRadiusMm));
+
+  // Sync local state when store values change (e.g., preset change, undo)
+  useEffect(() => {
+    setLocalWidth(String(cardWidthMm));
+    setLocalHeight(String(cardHeightMm));
+    setLocalRadius(String(cardCornerRadiusMm));
+  }, [cardWidthMm, cardHeightMm, cardCornerRadiusMm]);
+
+  const handleWidthCommit = () => {
+    const value = parseFloat(localWidth);
+    if (!isNaN(value) && value > 0) {
+      if (value !== cardWidthMm) setCardWidthMm(value);
+    } else {
+      // Reset to store value if invalid
+      setLocalWidth(String(cardWidthMm));
+    }
+  };
+
+  const handleHeightCommit = () => {
+    const value = parseFloat(localHeight);
+    if (!isNaN(value) && value > 0) {
+      if (value !== cardHeightMm) setCardHeightMm(value);
+    } else {
+      setLocalHeight(String(cardHeightMm));
+    }
+  };
+
+  const handleRadiusCommit = () => {
+    const value = parseFloat(localRadius);
+    // Corners can't be rounder than half the short side
+    if (!isNaN(value) && value >= 0 && value <= Math.min(cardWidthMm, cardHeightMm) / 2) {
+      if (value !== cardCornerRadiusMm) setCardCornerRadiusMm(value);
+    } else {
+      setLocalRadius(String(cardCornerRadiusMm));
+    }
+  };
+
+  const onEnter = (commit: () => void) => (e: React.KeyboardEvent) => {
+    if (e.key === "Enter") {
+      commit();
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <Label htmlFor="card-size-select" className="block mb-1">Card size</Label>
+
+      <Select
+        id="card-size-select"
+        value={cardSizePreset}
+        onChange={(e) => setCardSizePreset(e.target.value as CardSizePreset)}
+      >
+        {presetOptions.map((preset) => (
+          <option key={preset.id} value={preset.id}>
+            {`${preset.label} (${formatCardSize(preset)})`}
+          </option>
+        ))}
+        <option value="custom">Custom</option>
+      </Select>
+
+      <div className="grid grid-cols-[1fr_min-content_1fr] gap-x-2 gap-y-1 items-center">
+        <Label htmlFor="card-width-input">Card width (mm)</Label>
+        <div />
+        <Label htmlFor="card-height-input">Card height (mm)</Label>
+
+        <NumberInput
+          id="card-width-input"
+          disabled={!isCustom}
+          value={localWidth}
+          onChange={(e) => setLocalWidth(e.target.value)}
+          onBlur={handleWidthCommit}
+          onKeyDown={onEnter(handleWidthCommit)}
+          step={0.1}
+          min={1}
+        />
+        <div className="text-white">×</div>
+        <NumberInput
+          id="card-height-input"
+          disabled={!isCustom}
+          value={localHeight}
+          onChange={(e) => setLocalHeight(e.target.value)}
+          onBlur={handleHeightCommit}
+          onKeyDown={onEnter(handleHeightCommit)}
+          step={0.1}
+          min={1}
+        />
+      </div>
+
+      <div>
+        <Label htmlFor="card-radius-input">Corner radius (mm)</Label>
+        <NumberInput
+          id="card-radius-input"
+          disabled={!isCustom}
+          value={localRadius}
+          onChange={(e) => setLocalRadius(e.target.value)}
+          onBlur={handleRadiusCommit}
+          onKeyDown={onEnter(handleRadiusCommit)}
+          step={0.1}
+          min={0}
+        />
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
-import { useState, useMemo } from "react";
+import { useState, useMemo, useEffect, useRef } from "react";
 import { createPortal } from "react-dom";
-import { FileText, Image, Clipboard, Download } from "lucide-react";
-import { buildDecklist, downloadDecklist } from "@/helpers/decklistHelper";
+import { FileText, Image, Clipboard, Download, Printer } from "lucide-react";
+import { buildArenaDecklist, buildCockatriceCod, buildDecklist, buildMtgoDek, downloadDecklist } from "@/helpers/decklistHelper";
 import { downloadMpcXml } from "@/helpers/mpcXmlExport";
 import { useLoadingStore } from "@/store/loading";
 import { useSettingsStore } from "@/store/settings";
@@ -14,6 +14,10 @@ import { useFilteredAndSortedCards } from "@/hooks/useFilteredAndSortedCards";
 import { SplitButton } from "../common";
 import { extractMpcIdentifierFromImageId } from "@/helpers/mpcAutofillApi";
 import { inferImageSource } from "@/helpers/imageSourceUtils";
+import { saveWithNativeDialog } from "@/helpers/electronFiles";
+import { canPrintDirectly, getDuplexFlipMode, interleaveDuplexPages, printPages, toMm, type PrintOptions } from "@/helpers/electronPrint";
+import { PrintDialog } from "./PrintDialog";
+import { registerCommandHandler } from "@/helpers/commands";
 import type { CardOption } from "../../../../shared/types";
 import { CONSTANTS } from "@/constants/commonConstants";
 
@@ -22,8 +26,8 @@ type Props = {
 };
 
 type ExportMode = 'fronts' | 'interleaved-all' | 'interleaved-custom' | 'duplex' | 'backs' | 'visible_faces';
-type CopyMode = 'standard' | 'withMpc';
-type DownloadMode = 'standard' | 'withMpc' | 'xml';
+type CopyMode = 'standard' | 'withMpc' | 'arena';
+type DownloadMode = 'standard' | 'withMpc' | 'xml' | 'arena' | 'mtgo' | 'cockatrice';
 type ImageExportMode = 'zip' | 'individual';
 
 const EXPORT_MODES: { value: ExportMode; label: string; description: string }[] = [
@@ -38,12 +42,16 @@ const EXPORT_MODES: { value: ExportMode; label: string; description: string }[]
 const COPY_MODES: { value: CopyMode; label: string; description: string }[] = [
   { value: 'standard', label: 'Basic', description: 'Card names with set info' },
   { value: 'withMpc', label: 'With MPC Art IDs', description: 'Preserve exact MPC art selections' },
+  { value: 'arena', label: 'MTG Arena', description: 'Paste into Arena\'s deck import' },
 ];
 
 const DOWNLOAD_MODES: { value: DownloadMode; label: string; description: string }[] = [
   { value: 'standard', label: 'Basic (.txt)', description: 'Card names with set info' },
   { value: 'withMpc', label: 'With MPC Art IDs (.txt)', description: 'Preserve exact MPC art selections' },
   { value: 'xml', label: 'MPC Autofill (.xml)', description: 'For import in MPC Autofill' },
+  { value: 'arena', label: 'MTG Arena (.txt)', description: 'Arena import list with sections' },
+  { value: 'mtgo', label: 'MTGO (.dek)', description: 'For import in Magic Online' },
+  { value: 'cockatrice', label: 'Cockatrice (.cod)', description: 'For import in Cockatrice' },
 ];
 
 const IMAGE_EXPORT_MODES: { value: ImageExportMode; label: string; description: string }[] = [
@@ -73,6 +81,7 @@ export function ExportActions({ cards }: Props) {
   const [isCopyDropdownOpen, setIsCopyDropdownOpen] = useState(false);
   const [isDownloadDropdownOpen, setIsDownloadDropdownOpen] = useState(false);
   const [isImageExportDropdownOpen, setIsImageExportDropdownOpen] = useState(false);
+  const [isPrintDialogOpen, setIsPrintDialogOpen] = useState(false);
 
   // Mode state for Copy/Download (similar to exportMode for PDF)
   const [copyMode, setCopyMode] = useState<CopyMode>('withMpc');
@@ -92,7 +101,9 @@ export function ExportActions({ cards }: Props) {
 
   const handleCopyDecklist = async () => {
     const style = copyMode === 'withMpc' ? "withMpc" : "withSetNum";
-    const text = buildDecklist(frontCards, { style, sort: decklistSortAlpha ? "alpha" : "none" });
+    const text = copyMode === 'arena'
+      ? buildArenaDecklist(frontCards)
+      : buildDecklist(frontCards, { style, sort: decklistSortAlpha ? "alpha" : "none" });
     await navigator.clipboard.writeText(text);
     useToastStore.getState().addToast({ message: 'Copied Decklist!', type: 'success', dismissible: true });
   };
@@ -161,6 +172,12 @@ export function ExportActions({ cards }: Props) {
       }
 
       downloadMpcXml(cardsToExport, `mpc_decklist_${date}.xml`, mpcDefaultBackId);
+    } else if (downloadMode === 'arena') {
+      downloadDecklist(`decklist_arena_${date}.txt`, buildArenaDecklist(frontCards));
+    } else if (downloadMode === 'mtgo') {
+      downloadDecklist(`decklist_${date}.dek`, buildMtgoDek(frontCards), "application/xml;charset=utf-8");
+    } else if (downloadMode === 'cockatrice') {
+      downloadDecklist(`decklist_${date}.cod`, buildCockatriceCod(frontCards), "application/xml;charset=utf-8");
     } else {
       const style = downloadMode === 'withMpc' ? "withMpc" : "withSetNum";
       const text = buildDecklist(frontCards, { style, sort: decklistSortAlpha ? "alpha" : "none" });
@@ -217,7 +234,11 @@ export function ExportActions({ cards }: Props) {
     linkedBackId: undefined,
   });
 
-  const handleExport = async () => {
+  /**
+   * Render the pages for the current export mode and save them as a PDF, or
+   * send them straight to a printer when print options are given.
+   */
+  const handleExport = async (printOptions?: PrintOptions) => {
     if (!frontCards.length) return;
 
     const { exportProxyPagesToPdf } = await import(
@@ -243,7 +264,15 @@ export function ExportActions({ cards }: Props) {
     const autoPagesPerPdf = Math.floor(MAX_PIXELS_PER_PDF_BATCH / pixelsPerPage);
     const effectivePagesPerPdf = Math.max(1, autoPagesPerPdf);
 
-    setLoadingTask("Generating PDF");
+    const pageSizeMm = { width: toMm(pageWidth, pageSizeUnit), height: toMm(pageHeight, pageSizeUnit) };
+    const pageImages: ArrayBuffer[] = [];
+    const collectPageImage = printOptions ? (jpeg: ArrayBuffer) => { pageImages.push(jpeg); } : undefined;
+    const sendToPrinter = async (pages: ArrayBuffer[], options: PrintOptions) => {
+      await printPages(pages, pageSizeMm, options);
+      useToastStore.getState().addToast({ message: `Sent ${pages.length} pages to the printer`, type: 'success', dismissible: true });
+    };
+
+    setLoadingTask(printOptions ? "Printing" : "Generating PDF");
     setProgress(0);
 
     let rejectPromise: (reason?: Error) => void;
@@ -345,7 +374,9 @@ export function ExportActions({ cards }: Props) {
             pagesPerPdf: effectivePagesPerPdf,
             cancellationPromise,
             returnBuffer: true,
+            onPageImage: collectPageImage,
           });
+          const frontPageCount = pageImages.length;
 
           // Export backs (right-aligned incomplete rows) - get buffer
           const pdfSettingsForBacks = { ...pdfSettings, rightAlignRows: true };
@@ -361,8 +392,18 @@ export function ExportActions({ cards }: Props) {
             pagesPerPdf: effectivePagesPerPdf,
             cancellationPromise,
             returnBuffer: true,
+            onPageImage: collectPageImage,
           });
 
+          // Printing: pair each front page with its back and print two-sided
+          if (printOptions) {
+            setProgress(95);
+            const pages = interleaveDuplexPages(pageImages.slice(0, frontPageCount), pageImages.slice(frontPageCount));
+            await sendToPrinter(pages, printOptions);
+            setProgress(100);
+            return;
+          }
+
           // Merge fronts and backs into single PDF
           setProgress(92);
           const mergedPdf = await PDFDocument.create();
@@ -387,14 +428,16 @@ export function ExportActions({ cards }: Props) {
           const filename = `proxxies_${date}_duplex.pdf`;
           // eslint-disable-next-line @typescript-eslint/no-explicit-any
           const blob = new Blob([mergedPdfFile as any], { type: "application/pdf" });
-          const url = URL.createObjectURL(blob);
-          const link = document.createElement("a");
-          link.href = url;
-          link.download = filename;
-          document.body.appendChild(link);
-          link.click();
-          document.body.removeChild(link);
-          setTimeout(() => URL.revokeObjectURL(url), 1000);
+          if (!saveWithNativeDialog(blob, filename)) {
+            const url = URL.createObjectURL(blob);
+            const link = document.createElement("a");
+            link.href = url;
+            link.download = filename;
+            document.body.appendChild(link);
+            link.click();
+            document.body.removeChild(link);
+            setTimeout(() => URL.revokeObjectURL(url), 1000);
+          }
 
           setProgress(100);
           return; // Skip the normal export path below
@@ -422,8 +465,14 @@ export function ExportActions({ cards }: Props) {
         pagesPerPdf: effectivePagesPerPdf,
         cancellationPromise,
         filenameSuffix,
+        returnBuffer: !!printOptions,
+        onPageImage: collectPageImage,
       });
 
+      if (printOptions) {
+        await sendToPrinter(pageImages, printOptions);
+      }
+
       // Log PDF export summary
       const elapsed = (performance.now() - startTime) / 1000;
       const perPage = Math.max(1, pdfSettings.columns * (pdfSettings.rows ?? 1));
@@ -448,6 +497,10 @@ export function ExportActions({ cards }: Props) {
       }
 
       console.error("Export failed:", err);
+      if (printOptions) {
+        useToastStore.getState().showErrorToast(`Printing failed: ${err instanceof Error ? err.message : String(err)}`);
+        return;
+      }
       setErrorMessage(err instanceof Error ? err.message : String(err));
       setShowErrorModal(true);
     } finally {
@@ -456,6 +509,13 @@ export function ExportActions({ cards }: Props) {
     }
   };
 
+  // Export command for the keyboard shortcut and command palette
+  const handleExportRef = useRef(handleExport);
+  useEffect(() => {
+    handleExportRef.current = handleExport;
+  });
+  useEffect(() => registerCommandHandler("export", () => void handleExportRef.current()), []);
+
   async function handleExportZip() {
     setLoadingTask("Exporting ZIP");
     try {
@@ -509,7 +569,7 @@ export function ExportActions({ cards }: Props) {
         sublabel={EXPORT_MODES.find(m => m.value === exportMode)?.label}
         color="green"
         disabled={!frontCards.length}
-        onClick={handleExport}
+        onClick={() => handleExport()}
         isOpen={isDropdownOpen}
         onToggle={() => setIsDropdownOpen(!isDropdownOpen)}
         onClose={() => setIsDropdownOpen(false)}
@@ -519,6 +579,14 @@ export function ExportActions({ cards }: Props) {
         icon={FileText}
       />
 
+      {/* Direct printing - only in the desktop app */}
+      {canPrintDirectly() && (
+        <Button color="light" size="sm" disabled={!frontCards.length} onClick={() => setIsPrintDialogOpen(true)}>
+          <Printer className="w-4 h-4 mr-2" />
+          Print…
+        </Button>
+      )}
+
       {/* Split button for image export */}
       <SplitButton
         label="Export Card Images"
@@ -571,6 +639,19 @@ export function ExportActions({ cards }: Props) {
       />
 
 
+      {isPrintDialogOpen && (
+        <PrintDialog
+          show={isPrintDialogOpen}
+          onClose={() => setIsPrintDialogOpen(false)}
+          onPrint={(options) => {
+            setIsPrintDialogOpen(false);
+            void handleExport(options);
+          }}
+          duplexFlipMode={exportMode === 'duplex' ? getDuplexFlipMode(pageWidth, pageHeight) : null}
+          exportModeLabel={EXPORT_MODES.find(m => m.value === exportMode)?.label || exportMode}
+        />
+      )}
+
       {showErrorModal && errorMessage && createPortal(
         <div className="fixed inset-0 z-100 bg-gray-900/50 flex items-center justify-center">
           <div className="bg-white dark:bg-gray-800 p-6 rounded shadow-md w-96 text-center">
@@ -0,0 +1,66 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { PrintDialog } from './PrintDialog';
+
+const setup: PrintSetup = {
+    printers: [
+        { name: 'office', displayName: 'Office Laser' },
+        { name: 'pdf', displayName: 'Print to PDF' },
+    ],
+    lastPrinter: 'pdf',
+    defaults: { pdf: { copies: 3, duplexMode: 'shortEdge' } },
+};
+
+function renderDialog(duplexFlipMode: 'longEdge' | 'shortEdge' | null = null) {
+    const onPrint = vi.fn();
+    render(
+        <PrintDialog
+            show
+            onClose={vi.fn()}
+            onPrint={onPrint}
+            duplexFlipMode={duplexFlipMode}
+            exportModeLabel="Fronts Only"
+        />
+    );
+    return onPrint;
+}
+
+describe('PrintDialog', () => {
+    afterEach(() => {
+        delete window.electronAPI;
+    });
+
+    it('should preselect the last printer with its saved defaults', async () => {
+        window.electronAPI = { getPrintSetup: vi.fn().mockResolvedValueOnce(setup) } as unknown as Window['electronAPI'];
+        const onPrint = renderDialog('longEdge');
+
+        await waitFor(() => expect(screen.getByLabelText('Copies')).toHaveValue(3));
+        expect(screen.getByLabelText('Printer')).toHaveValue('pdf');
+        expect(screen.getByLabelText('Two-sided')).toHaveValue('shortEdge');
+
+        fireEvent.click(screen.getAllByRole('button', { name: /Print/ }).at(-1)!);
+        expect(onPrint).toHaveBeenCalledWith({ deviceName: 'pdf', copies: 3, duplexMode: 'shortEdge' });
+    });
+
+    it('should print one-sided outside duplex mode', async () => {
+        window.electronAPI = { getPrintSetup: vi.fn().mockResolvedValueOnce(setup) } as unknown as Window['electronAPI'];
+        const onPrint = renderDialog();
+
+        await waitFor(() => expect(screen.getByLabelText('Printer')).toHaveValue('pdf'));
+        fireEvent.change(screen.getByLabelText('Printer'), { target: { value: 'office' } });
+        await waitFor(() => expect(screen.getByLabelText('Copies')).toHaveValue(1));
+        expect(screen.queryByLabelText('Two-sided')).not.toBeInTheDocument();
+
+        fireEvent.click(screen.getAllByRole('button', { name: /Print/ }).at(-1)!);
+        expect(onPrint).toHaveBeenCalledWith({ deviceName: 'office', copies: 1, duplexMode: 'simplex' });
+    });
+
+    it('should say when there are no printers', async () => {
+        window.electronAPI = {
+            getPrintSetup: vi.fn().mockResolvedValueOnce({ printers: [], lastPrinter: null, defaults: {} }),
+        } as unknown as Window['electronAPI'];
+        renderDialog();
+
+        expect(await screen.findByText('No printers found.')).toBeInTheDocument();
+    });
+});
@@ -0,0 +1,130 @@
+import { useEffect, useState } from "react";
+import { Button, Label, Modal, ModalBody, ModalFooter, ModalHeader, Select, Spinner, TextInput } from "flowbite-react";
+import { Printer } from "lucide-react";
+import type { PrintOptions } from "@/helpers/electronPrint";
+
+interface PrintDialogProps {
+    show: boolean;
+    onClose: () => void;
+    onPrint: (options: PrintOptions) => void;
+    /** Duplex export: print both sides, flipping on the given edge by default */
+    duplexFlipMode: Exclude<PrintDuplexMode, "simplex"> | null;
+    exportModeLabel: string;
+}
+
+/**
+ * Picks a system printer for direct printing from the desktop app. The last
+ * printer used is preselected, along with the copies and flip edge last used
+ * on it.
+ */
+export function PrintDialog({ show, onClose, onPrint, duplexFlipMode, exportModeLabel }: PrintDialogProps) {
+    const [setup, setSetup] = useState<PrintSetup | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [deviceName, setDeviceName] = useState("");
+    const [copies, setCopies] = useState(1);
+    const [flipMode, setFlipMode] = useState<Exclude<PrintDuplexMode, "simplex">>("longEdge");
+
+    useEffect(() => {
+        const getPrintSetup = window.electronAPI?.getPrintSetup;
+        if (!show || !getPrintSetup) return;
+        let cancelled = false;
+        setSetup(null);
+        setError(null);
+        getPrintSetup()
+            .then((result) => {
+                if (cancelled) return;
+                setSetup(result);
+                const printer = result.printers.find((p) => p.name === result.lastPrinter) ?? result.printers[0];
+                setDeviceName(printer?.name ?? "");
+            })
+            .catch((err) => {
+                if (!cancelled) setError(err instanceof Error ? err.message : "Failed to list printers");
+            });
+        return () => { cancelled = true; };
+    }, [show]);
+
+    // Apply the saved defaults whenever a printer is picked
+    useEffect(() => {
+        const defaults = setup?.defaults[deviceName];
+        setCopies(defaults?.copies ?? 1);
+        setFlipMode(defaults?.duplexMode ?? duplexFlipMode ?? "longEdge");
+    }, [setup, deviceName, duplexFlipMode]);
+
+    const handlePrint = () => {
+        onPrint({
+            deviceName,
+            copies: Math.max(1, Math.floor(copies) || 1),
+            duplexMode: duplexFlipMode ? flipMode : "simplex",
+        });
+    };
+
+    return (
+        <Modal show={show} onClose={onClose} size="md">
+            <ModalHeader>
+                <span className="flex items-center gap-2">
+                    <Printer className="w-5 h-5" />
+                    Print
+                </span>
+            </ModalHeader>
+            <ModalBody>
+                {error ? (
+                    <div className="text-sm text-red-500">{error}</div>
+                ) : !setup ? (
+                    <div className="flex justify-center py-8">
+                        <Spinner />
+                    </div>
+                ) : setup.printers.length === 0 ? (
+                    <div className="text-sm text-gray-500 dark:text-gray-400">No printers found.</div>
+                ) : (
+                    <div className="space-y-4">
+                        <div>
+                            <Label htmlFor="print-device" className="mb-1 block">Printer</Label>
+                            <Select id="print-device" value={deviceName} onChange={(e) => setDeviceName(e.target.value)}>
+                                {setup.printers.map((printer) => (
+                                    <option key={printer.name} value={printer.name}>
+                                        {printer.displayName}
+                                    </option>
+                                ))}
+                            </Select>
+                        </div>
+                        <div>
+                            <Label htmlFor="print-copies" className="mb-1 block">Copies</Label>
+                            <TextInput
+                                id="print-copies"
+                                type="number"
+                                min={1}
+                                value={copies}
+                                onChange={(e) => setCopies(Number(e.target.value))}
+                            />
+                        </div>
+                        {duplexFlipMode && (
+                            <div>
+                                <Label htmlFor="print-flip" className="mb-1 block">Two-sided</Label>
+                                <Select
+                                    id="print-flip"
+                                    value={flipMode}
+                                    onChange={(e) => setFlipMode(e.target.value as Exclude<PrintDuplexMode, "simplex">)}
+                                >
+                                    <option value="longEdge">Flip on long edge</option>
+                                    <option value="shortEdge">Flip on short edge</option>
+                                </Select>
+                            </div>
+                        )}
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                            Prints {exportModeLabel.toLowerCase()} at 100% scale with no margins.
+                        </p>
+                    </div>
+                )}
+            </ModalBody>
+            <ModalFooter>
+                <Button color="green" onClick={handlePrint} disabled={!deviceName}>
+                    <Printer className="w-4 h-4 mr-2" />
+                    Print
+                </Button>
+                <Button color="gray" onClick={onClose}>
+                    Cancel
+                </Button>
+            </ModalFooter>
+        </Modal>
+    );
+}
@@ -10,6 +10,7 @@ describe("CardGuides", () => {
         perCardGuideStyle: "corners",
         guidePlacement: "inside" as const,
         guideOffset: "3mm",
+        cornerRadiusMm: 2.5,
     };
 
     describe("rendering with corners style", () => {
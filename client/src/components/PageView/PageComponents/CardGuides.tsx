@@ -1,9 +1,6 @@
 import { CONSTANTS } from "@/constants/commonConstants";
 import React, { memo } from "react";
 
-// Corner radius for MTG cards per wiki: 2.5mm
-const CARD_CORNER_RADIUS_MM = 2.5;
-
 type Props = {
     guideWidth: number;
     guideColor: string;
@@ -11,6 +8,8 @@ type Props = {
     guidePlacement: string;
     guideOffset: number | string;
     imageBleedWidth?: number;
+    /** Corner radius of the project's card size */
+    cornerRadiusMm: number;
 };
 
 export const CardGuides = memo(function CardGuides({
@@ -19,7 +18,8 @@ export const CardGuides = memo(function CardGuides({
     perCardGuideStyle,
     guidePlacement,
     guideOffset,
-    imageBleedWidth
+    imageBleedWidth,
+    cornerRadiusMm,
 }: Props) {
     if (perCardGuideStyle === 'none') return null;
 
@@ -38,8 +38,8 @@ export const CardGuides = memo(function CardGuides({
                         ? (val: number | string) => `calc(${typeof val === 'number' ? `${val}px` : val} - ${guideWidthPx}px)`
                         : (val: number | string) => typeof val === 'number' ? `${val}px` : val;
 
-                    // Length of one leg = 2.5 * radius. Radius = 2.5mm, so Leg = 6.25mm
-                    const legLengthMm = 6.25;
+                    // Length of one leg = 2.5 * radius (6.25mm for a standard 2.5mm corner)
+                    const legLengthMm = 2.5 * cornerRadiusMm;
                     const length = guidePlacement === 'outside'
                         ? `calc(${legLengthMm}mm + ${guideWidthPx}px)`
                         : `${legLengthMm}mm`;
@@ -49,12 +49,10 @@ export const CardGuides = memo(function CardGuides({
                     // For dashed corners, use repeating linear gradient to simulate dashed lines
                     const getBackgroundStyle = (direction: string): React.CSSProperties => {
                         if (isDashed) {
-                            // We want exactly 2.5 dashes along the leg length (6.25mm)
+                            // We want exactly 2.5 dashes along the leg length
                             // Total path (2 legs) has 5 dashes + 4 gaps.
-                            // Total Length = 12.5mm.
                             // Dash d, Gap g=0.6d. Total = 7.4d.
-                            // d = 12.5 / 7.4 approx 1.69mm.
-                            const totalL = 12.5;
+                            const totalL = 2 * legLengthMm;
                             const d = totalL / 7.4; // mm
                             const g = d * 0.6; // mm
 
@@ -204,7 +202,7 @@ export const CardGuides = memo(function CardGuides({
                         : roundedOffsetPx;
 
                     // Calculate dimensions
-                    const radiusPx = Math.round(CONSTANTS.DISPLAY_MM_TO_PX * CARD_CORNER_RADIUS_MM);
+                    const radiusPx = Math.round(CONSTANTS.DISPLAY_MM_TO_PX * cornerRadiusMm);
                     // For outside: SVG box needs to be larger to accommodate the outward stroke
                     // For inside: inner edge at card radius, so outer edge at radius + guideWidth
                     const W = radiusPx + guideWidthPx;
@@ -290,13 +288,13 @@ export const CardGuides = memo(function CardGuides({
                         : offsetValue;
 
                     // For outside: outer radius = card radius + width (inner edge at card radius)
-                    // For inside: inner radius should be 2.5mm, so border-radius = 2.5mm + width
+                    // For inside: inner radius should be the card radius, so border-radius = radius + width
                     //             (CSS border-radius is the outer edge, inner edge = outer - border-width)
                     const borderRadius = isSquare
                         ? 0
                         : guidePlacement === 'outside'
-                            ? `calc(${CARD_CORNER_RADIUS_MM}mm + ${guideWidthPx}px)`
-                            : `calc(${CARD_CORNER_RADIUS_MM}mm + ${guideWidthPx}px)`;
+                            ? `calc(${cornerRadiusMm}mm + ${guideWidthPx}px)`
+                            : `calc(${cornerRadiusMm}mm + ${guideWidthPx}px)`;
 
                     return (
                         <div
@@ -1,10 +1,13 @@
 import { Button } from "flowbite-react";
-import { Copy, Trash, Settings, Palette } from "lucide-react";
-import { useEffect } from "react";
+import { Copy, Trash, Settings, Palette, WandSparkles } from "lucide-react";
+import { useEffect, useState } from "react";
 import { useSelectionStore } from "@/store/selection";
 import { undoableDeleteCard, undoableDeleteCardsBatch, undoableDuplicateCard, undoableDuplicateCardsBatch } from "@/helpers/undoableActions";
 import { useArtworkModalStore, useCardEditorModalStore, useSettingsStore } from "@/store";
-import { db, type Image } from "@/db";
+import { getCardWithImages } from "@/helpers/dbUtils";
+import { applyOverridesPreset } from "@/helpers/overridesPresets";
+import { LookMenu } from "@/components/common/LookMenu";
+import type { OverridesPreset } from "@/db";
 import type { CardOption } from "@/types";
 
 interface PageViewContextMenuProps {
@@ -20,38 +23,6 @@ interface PageViewContextMenuProps {
     flippedCards: Set<string>;
 }
 
-/** Helper to get card with its back card and images from database */
-async function getCardWithImages(allCards: CardOption[], cardUuid: string, globalDpi: number) {
-    const card = allCards.find(c => c.uuid === cardUuid);
-    if (!card || !card.imageId) return null;
-
-    const image = await db.images.get(card.imageId);
-    const backCard = card.linkedBackId
-        ? allCards.find(c => c.uuid === card.linkedBackId)
-        : undefined;
-
-    let backImage: Image | undefined = undefined;
-    if (backCard?.imageId) {
-        backImage = await db.images.get(backCard.imageId);
-        if (!backImage) {
-            const cardback = await db.cardbacks.get(backCard.imageId);
-            if (cardback) {
-                backImage = {
-                    id: cardback.id,
-                    displayBlob: cardback.displayBlob,
-                    exportBlob: cardback.exportBlob,
-                    baseDisplayBlob: cardback.displayBlob,
-                    baseExportBlob: cardback.exportBlob,
-                    displayDpi: 300,
-                    exportDpi: globalDpi,
-                } as Image;
-            }
-        }
-    }
-
-    return { card, image: image ?? null, backCard, backImage: backImage ?? null };
-}
-
 export function PageViewContextMenu({ contextMenu, setContextMenu, cards, allCards, flippedCards }: PageViewContextMenuProps) {
     const selectedCards = useSelectionStore((state) => state.selectedCards);
     const clearSelection = useSelectionStore((state) => state.clearSelection);
@@ -59,6 +30,11 @@ export function PageViewContextMenu({ contextMenu, setContextMenu, cards, allCar
     const openCardEditor = useCardEditorModalStore((state) => state.openModal);
     const hasSelection = selectedCards.size > 0;
     const globalDpi = useSettingsStore((state) => state.dpi);
+    const [showLooks, setShowLooks] = useState(false);
+
+    useEffect(() => {
+        if (!contextMenu.visible) setShowLooks(false);
+    }, [contextMenu.visible]);
 
     useEffect(() => {
         const handler = (e: MouseEvent) => {
@@ -83,6 +59,24 @@ export function PageViewContextMenu({ contextMenu, setContextMenu, cards, allCar
 
     if (!contextMenu.visible || !contextMenu.cardUuid) return null;
 
+    const isMultiSelect = hasSelection && selectedCards.has(contextMenu.cardUuid);
+
+    const handleApplyLook = async (preset: OverridesPreset) => {
+        const uuids = isMultiSelect ? Array.from(selectedCards) : [contextMenu.cardUuid!];
+        setContextMenu({ ...contextMenu, visible: false });
+        await applyOverridesPreset(uuids, preset);
+    };
+
+    const lookButton = (
+        <>
+            <Button size="sm" onClick={() => setShowLooks(!showLooks)}>
+                <WandSparkles className="size-3 mr-1" />
+                Apply Look
+            </Button>
+            {showLooks && <LookMenu onSelect={handleApplyLook} />}
+        </>
+    );
+
     return (
         <div
             id="mobile-context-menu"
@@ -97,7 +91,7 @@ export function PageViewContextMenu({ contextMenu, setContextMenu, cards, allCar
             }
         >
             {/* Show multi-select operations when multiple cards are selected */}
-            {hasSelection && selectedCards.has(contextMenu.cardUuid) && (
+            {isMultiSelect && (
                 <>
                     <Button
                         size="sm"
@@ -116,6 +110,7 @@ export function PageViewContextMenu({ contextMenu, setContextMenu, cards, allCar
                         <Palette className="size-3 mr-1" />
                         Adjust {selectedCards.size} Cards
                     </Button>
+                    {lookButton}
                     <Button
                         size="sm"
                         onClick={async () => {
@@ -157,7 +152,7 @@ export function PageViewContextMenu({ contextMenu, setContextMenu, cards, allCar
                 </>
             )}
             {/* Single card operations */}
-            {(!hasSelection || !selectedCards.has(contextMenu.cardUuid)) && (
+            {!isMultiSelect && (
                 <>
                     <Button
                         size="sm"
@@ -176,6 +171,7 @@ export function PageViewContextMenu({ contextMenu, setContextMenu, cards, allCar
                         <Palette className="size-3 mr-1" />
                         Adjust Art
                     </Button>
+                    {lookButton}
                     <Button
                         size="sm"
                         onClick={async () => {
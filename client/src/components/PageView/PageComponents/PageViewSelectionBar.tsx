@@ -1,8 +1,12 @@
-import { CheckSquare, XSquare } from "lucide-react";
+import { CheckSquare, WandSparkles, XSquare } from "lucide-react";
 import { useSelectionStore } from "@/store/selection";
 import { usePageViewSettings } from "@/hooks/usePageViewSettings";
+import { useOnClickOutside } from "@/hooks/useOnClickOutside";
+import { applyOverridesPreset } from "@/helpers/overridesPresets";
+import { LookMenu } from "@/components/common/LookMenu";
 import type { CardOption } from "../../../../shared/types";
-import { useMemo } from "react";
+import type { OverridesPreset } from "@/db";
+import { useMemo, useRef, useState } from "react";
 
 interface PageViewSelectionBarProps {
     cards: CardOption[];
@@ -24,6 +28,15 @@ export function PageViewSelectionBar({ cards, mobile }: PageViewSelectionBarProp
 
     const allCardUuids = useMemo(() => cards.map(c => c.uuid), [cards]);
 
+    const [showLooks, setShowLooks] = useState(false);
+    const looksRef = useRef<HTMLDivElement>(null);
+    useOnClickOutside(looksRef, () => setShowLooks(false));
+
+    const handleApplyLook = (preset: OverridesPreset) => {
+        setShowLooks(false);
+        void applyOverridesPreset(Array.from(selectedCards), preset);
+    };
+
     if (!hasSelection || !cards || cards.length === 0) {
         return null;
     }
@@ -47,6 +60,22 @@ export function PageViewSelectionBar({ cards, mobile }: PageViewSelectionBarProp
                 <CheckSquare className="size-4" />
                 <span className="text-sm hidden sm:inline">Select All</span>
             </button>
+            <div ref={looksRef} className="relative border-r border-gray-300 dark:border-gray-600">
+                <button
+                    onClick={() => setShowLooks(!showLooks)}
+                    className="px-3 py-3 text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 transition-all duration-75 active:translate-y-[1px] flex items-center gap-2"
+                    title="Apply Look"
+                    aria-expanded={showLooks}
+                >
+                    <WandSparkles className="size-4" />
+                    <span className="text-sm hidden sm:inline">Apply Look</span>
+                </button>
+                {showLooks && (
+                    <div className="absolute bottom-full left-0 mb-2 p-1 min-w-48 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg shadow-lg">
+                        <LookMenu onSelect={handleApplyLook} />
+                    </div>
+                )}
+            </div>
             <button
                 onClick={clearSelection}
                 className="px-3 py-3 text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 transition-all duration-75 active:translate-y-[1px] flex items-center gap-2"
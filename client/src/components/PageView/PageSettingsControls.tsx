@@ -117,16 +117,20 @@ export function PageSettingsControls({
   const filterColors = useSettingsStore((state) => state.filterColors);
   const filterTypes = useSettingsStore((state) => state.filterTypes);
   const filterCategories = useSettingsStore((state) => state.filterCategories);
+  const filterLegality = useSettingsStore((state) => state.filterLegality);
   const setFilterManaCost = useSettingsStore((state) => state.setFilterManaCost);
   const setFilterColors = useSettingsStore((state) => state.setFilterColors);
   const setFilterTypes = useSettingsStore((state) => state.setFilterTypes);
   const setFilterCategories = useSettingsStore((state) => state.setFilterCategories);
-  const totalFilters = filterManaCost.length + filterColors.length + filterTypes.length + filterCategories.length;
+  const setFilterLegality = useSettingsStore((state) => state.setFilterLegality);
+  const totalFilters = filterManaCost.length + filterColors.length + filterTypes.length + filterCategories.length
+    + (filterLegality !== "all" ? 1 : 0);
   const clearAllFilters = () => {
     setFilterManaCost([]);
     setFilterColors([]);
     setFilterTypes([]);
     setFilterCategories([]);
+    setFilterLegality("all");
   };
 
   const isLandscape = useMediaQuery("(orientation: landscape)");
@@ -22,7 +22,7 @@ import { SortableContext, rectSortingStrategy, arrayMove } from "@dnd-kit/sortab
 import { useSelectionStore } from "@/store/selection";
 import { useSettingsStore } from "@/store";
 import { undoableReorderCards, undoableReorderMultipleCards } from "@/helpers/undoableActions";
-import { rebalanceCardOrders } from "@/helpers/dbUtils";
+import { getCardWithImages, rebalanceCardOrders } from "@/helpers/dbUtils";
 import { type Image, db } from "@/db";
 import { useArtworkModalStore } from "@/store/artworkModal";
 import { useCardEditorModalStore } from "@/store/cardEditorModal";
@@ -43,9 +43,11 @@ import { PageViewContextMenu } from "./PageComponents/PageViewContextMenu";
 import { PageViewSelectionBar } from "./PageComponents/PageViewSelectionBar";
 import { ArtworkModal } from "../ArtworkModal";
 import { CardEditorModalWrapper } from "../CardEditorModal/CardEditorModalWrapper";
-import { KeyboardShortcutsModal } from "../common";
+import { CommandPalette, KeyboardShortcutsModal } from "../common";
 import { usePageViewHotkeys } from "@/hooks/usePageViewHotkeys";
+import { registerCommandHandler } from "@/helpers/commands";
 import { usePageViewZoom } from "@/hooks/usePageViewZoom";
+import { useCardSize } from "@/hooks/useCardSize";
 import { PullToRefresh } from "../PullToRefresh";
 import { CONSTANTS } from "@/constants/commonConstants";
 
@@ -88,6 +90,8 @@ export function PageView({ cards, allCards, images, mobile, active = true }: Pag
   const cutGuideLengthMm = useSettingsStore((s) => s.cutGuideLengthMm);
   const registrationMarks = useSettingsStore((s) => s.registrationMarks);
   const registrationMarksPortrait = useSettingsStore((s) => s.registrationMarksPortrait);
+  const cutterProfile = useSettingsStore((s) => s.cutterProfile);
+  const cardSize = useCardSize();
 
   // Flipped cards for back image display
   const flippedCards = useSelectionStore((s) => s.flippedCards);
@@ -234,48 +238,39 @@ export function PageView({ cards, allCards, images, mobile, active = true }: Pag
     return () => container.removeEventListener('wheel', handleWheel);
   }, [scrollRef, setZoom]);
 
-  // Keyboard shortcuts: Ctrl++, Ctrl+-, Ctrl+0, Ctrl+A, Escape
+  // Card commands for the keyboard shortcuts and command palette; they act
+  // on the first selected card
   useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      // Ignore shortcuts if a modal is open
-      if (useArtworkModalStore.getState().open || useCardEditorModalStore.getState().open) {
-        return;
-      }
-
-      // Escape key - deselect all (no modifier needed)
-      if (e.key === 'Escape') {
-        e.preventDefault();
-        useSelectionStore.getState().clearSelection();
-        return;
-      }
-
-      // Other shortcuts require Ctrl/Cmd
-      if (!e.ctrlKey && !e.metaKey) return;
+    const getFirstSelected = () => {
+      const uuid = useSelectionStore.getState().selectedCards.values().next().value;
+      return uuid ? cards.find((c) => c.uuid === uuid) : undefined;
+    };
 
-      const zoomStep = 0.1;
-      const currentZoom = useSettingsStore.getState().zoom;
+    const unregisterArtwork = registerCommandHandler("openArtwork", () => {
+      const card = getFirstSelected();
+      if (!card) return;
+      const navigable = cards.filter((c) => !c.linkedFrontId);
+      useArtworkModalStore.getState().openModal({ card, index: navigable.indexOf(card), allCards: navigable });
+    });
+    const unregisterEditor = registerCommandHandler("openCardEditor", () => {
+      const card = getFirstSelected();
+      if (!card) return;
+      const selectedCardUuids = Array.from(useSelectionStore.getState().selectedCards);
+      void getCardWithImages(allCards, card.uuid, useSettingsStore.getState().dpi).then((result) => {
+        if (!result) return;
+        useCardEditorModalStore.getState().openModal({
+          ...result,
+          selectedCardUuids,
+          initialFace: useSelectionStore.getState().flippedCards.has(card.uuid) ? 'back' : 'front',
+        });
+      });
+    });
 
-      // Ctrl/Cmd + Plus (= or +)
-      if (e.key === '=' || e.key === '+') {
-        e.preventDefault();
-        setZoom(Math.min(5, currentZoom + zoomStep));
-      }
-      // Ctrl/Cmd + Minus
-      else if (e.key === '-') {
-        e.preventDefault();
-        setZoom(Math.max(0.1, currentZoom - zoomStep));
-      }
-      // Ctrl/Cmd + 0 (reset to 1x)
-      else if (e.key === '0') {
-        e.preventDefault();
-        setZoom(1.0);
-      }
-      // Note: Ctrl+A (select all) is handled by usePageViewHotkeys with input focus check
+    return () => {
+      unregisterArtwork();
+      unregisterEditor();
     };
-
-    document.addEventListener('keydown', handleKeyDown);
-    return () => document.removeEventListener('keydown', handleKeyDown);
-  }, [setZoom, cards]);
+  }, [cards, allCards]);
 
   // Filter visible cards (exclude back cards - they're shown via flip)
   const visibleCards = useMemo(() => {
@@ -597,8 +592,8 @@ export function PageView({ cards, allCards, images, mobile, active = true }: Pag
 
   // Card positions for PixiJS
   // Use a consistent card size for grid layout (base + bleed) to prevent shifts when cards are added
-  const fixedCardWidthMm = CONSTANTS.CARD_WIDTH_MM + effectiveBleedWidth * 2;
-  const fixedCardHeightMm = CONSTANTS.CARD_HEIGHT_MM + effectiveBleedWidth * 2;
+  const fixedCardWidthMm = cardSize.widthMm + effectiveBleedWidth * 2;
+  const fixedCardHeightMm = cardSize.heightMm + effectiveBleedWidth * 2;
 
   // Serialized overrides for dependency tracking (extracted to avoid complex expressions in dep array)
   const frontCardOverridesKey = localCards.map(c => `${c.overrides?.brightness}:${c.overrides?.contrast}:${c.overrides?.saturation}:${c.overrides?.holoEffect}:${c.overrides?.holoAnimation}`).join(',');
@@ -626,7 +621,7 @@ export function PageView({ cards, allCards, images, mobile, active = true }: Pag
       const gridStartXMm = (pageWidthMm - gridWidthMm) / 2 + effectiveCardPositionX;
       const gridStartYMm = (pageHeightMm - gridHeightMm) / 2 + effectiveCardPositionY;
 
-      const layouts = computeCardLayouts(page, sourceSettings, effectiveBleedWidth);
+      const layouts = computeCardLayouts(page, sourceSettings, effectiveBleedWidth, cardSize);
 
       page.forEach((card, index) => {
         const layout = layouts[index];
@@ -669,7 +664,7 @@ export function PageView({ cards, allCards, images, mobile, active = true }: Pag
     return result;
     // frontCardOverridesKey and backCardOverridesKey are intentional - they detect nested override changes
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [localCards, pageCapacity, pageWidth, pageHeight, pageSizeUnit, columns, rows, cardSpacingMm, cardPositionX, cardPositionY, useCustomBackOffset, cardBackPositionX, cardBackPositionY, sourceSettings, effectiveBleedWidth, backCardMap, imageDataById, pageHeightPx, fixedCardWidthMm, fixedCardHeightMm, topPaddingPx, frontCardOverridesKey, backCardOverridesKey, flippedCards]);
+  }, [localCards, pageCapacity, pageWidth, pageHeight, pageSizeUnit, columns, rows, cardSpacingMm, cardPositionX, cardPositionY, useCustomBackOffset, cardBackPositionX, cardBackPositionY, sourceSettings, effectiveBleedWidth, cardSize, backCardMap, imageDataById, pageHeightPx, fixedCardWidthMm, fixedCardHeightMm, topPaddingPx, frontCardOverridesKey, backCardOverridesKey, flippedCards]);
 
   const perCardGuideColorNum = parseInt(guideColor.replace('#', ''), 16);
 
@@ -772,8 +767,10 @@ export function PageView({ cards, allCards, images, mobile, active = true }: Pag
                   perCardGuideColor={perCardGuideColorNum}
                   perCardGuidePlacement={guidePlacement}
                   cutGuideLengthMm={cutGuideLengthMm}
+                  cardCornerRadiusMm={cardSize.cornerRadiusMm}
                   registrationMarks={registrationMarks}
                   registrationMarksPortrait={registrationMarksPortrait}
+                  cutterProfile={cutterProfile}
                   isDarkMode={isDarkMode}
                   onRenderedCardsChange={setRenderedCardUuids}
                   style={{
@@ -827,8 +824,8 @@ export function PageView({ cards, allCards, images, mobile, active = true }: Pag
 
                               // Calculate bleed/dimensions
                               const bleedMm = getCardTargetBleed(card, sourceSettings, effectiveBleedWidth);
-                              const cardWidth = (CONSTANTS.CARD_WIDTH_MM + bleedMm * 2) * CONSTANTS.DISPLAY_MM_TO_PX * effectiveZoom;
-                              const cardHeight = (CONSTANTS.CARD_HEIGHT_MM + bleedMm * 2) * CONSTANTS.DISPLAY_MM_TO_PX * effectiveZoom;
+                              const cardWidth = (cardSize.widthMm + bleedMm * 2) * CONSTANTS.DISPLAY_MM_TO_PX * effectiveZoom;
+                              const cardHeight = (cardSize.heightMm + bleedMm * 2) * CONSTANTS.DISPLAY_MM_TO_PX * effectiveZoom;
 
                               const imageUrl = card.imageId ? processedImageUrls[card.imageId] : undefined;
                               if (!imageUrl) return null;
@@ -879,12 +876,12 @@ export function PageView({ cards, allCards, images, mobile, active = true }: Pag
                       if (!card) return null;
 
                       const bleedMm = getCardTargetBleed(card, sourceSettings, effectiveBleedWidth);
-                      const cardWidth = (CONSTANTS.CARD_WIDTH_MM + bleedMm * 2) * CONSTANTS.DISPLAY_MM_TO_PX * effectiveZoom;
-                      const cardHeight = (CONSTANTS.CARD_HEIGHT_MM + bleedMm * 2) * CONSTANTS.DISPLAY_MM_TO_PX * effectiveZoom;
+                      const cardWidth = (cardSize.widthMm + bleedMm * 2) * CONSTANTS.DISPLAY_MM_TO_PX * effectiveZoom;
+                      const cardHeight = (cardSize.heightMm + bleedMm * 2) * CONSTANTS.DISPLAY_MM_TO_PX * effectiveZoom;
                       const bleedPx = bleedMm * CONSTANTS.DISPLAY_MM_TO_PX * effectiveZoom;
                       const baseWidth = cardWidth - 2 * bleedPx;
                       const baseHeight = cardHeight - 2 * bleedPx;
-                      const cornerRadius = CONSTANTS.CORNER_RADIUS_MM * CONSTANTS.DISPLAY_MM_TO_PX * effectiveZoom;
+                      const cornerRadius = cardSize.cornerRadiusMm * CONSTANTS.DISPLAY_MM_TO_PX * effectiveZoom;
 
                       const imageUrl = card.imageId ? processedImageUrls[card.imageId] : undefined;
                       if (!imageUrl) return null;
@@ -968,6 +965,9 @@ export function PageView({ cards, allCards, images, mobile, active = true }: Pag
 
       {/* Keyboard shortcuts help modal */}
       <KeyboardShortcutsModal />
+
+      {/* Ctrl+K command palette */}
+      <CommandPalette />
     </>
   );
 }
\ No newline at end of file
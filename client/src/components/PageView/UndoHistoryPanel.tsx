@@ -0,0 +1,72 @@
+import { useUndoRedoStore } from "@/store/undoRedo";
+import { Check, CircleDot } from "lucide-react";
+
+function formatTime(timestamp: number): string {
+    return new Date(timestamp).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+}
+
+/**
+ * Browsable undo history for the current project.
+ * Applied actions are listed oldest first, followed by undone (redoable) ones;
+ * clicking an entry undoes or redoes until it is the latest applied action.
+ */
+export function UndoHistoryPanel() {
+    const undoStack = useUndoRedoStore((state) => state.undoStack);
+    const redoStack = useUndoRedoStore((state) => state.redoStack);
+    const isPerformingAction = useUndoRedoStore((state) => state.isPerformingAction);
+    const jumpTo = useUndoRedoStore((state) => state.jumpTo);
+
+    const currentId = undoStack[undoStack.length - 1]?.id ?? null;
+    // Redo stack is ordered with the next redo last
+    const undone = [...redoStack].reverse();
+
+    const itemClass = "w-full flex items-center gap-2 px-2 py-1.5 rounded-md text-left text-sm transition-colors disabled:cursor-not-allowed";
+
+    return (
+        <div className="w-72 max-h-80 overflow-y-auto bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg shadow-xl p-1">
+            <div className="text-xs font-semibold text-gray-500 px-2 py-1 uppercase">History</div>
+
+            <button
+                type="button"
+                disabled={isPerformingAction}
+                onClick={() => void jumpTo(null)}
+                className={`${itemClass} ${currentId === null
+                    ? "bg-blue-50 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300"
+                    : "hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-200"}`}
+            >
+                <CircleDot className="size-3.5 shrink-0" />
+                <span className="flex-1 truncate italic">Start</span>
+            </button>
+
+            {undoStack.map((action) => (
+                <button
+                    key={action.id}
+                    type="button"
+                    disabled={isPerformingAction}
+                    onClick={() => void jumpTo(action.id)}
+                    className={`${itemClass} ${action.id === currentId
+                        ? "bg-blue-50 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300"
+                        : "hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-200"}`}
+                >
+                    {action.id === currentId ? <Check className="size-3.5 shrink-0" /> : <span className="size-3.5 shrink-0" />}
+                    <span className="flex-1 truncate">{action.description}</span>
+                    <span className="text-xs text-gray-400">{formatTime(action.timestamp)}</span>
+                </button>
+            ))}
+
+            {undone.map((action) => (
+                <button
+                    key={action.id}
+                    type="button"
+                    disabled={isPerformingAction}
+                    onClick={() => void jumpTo(action.id)}
+                    className={`${itemClass} hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-400 dark:text-gray-500`}
+                >
+                    <span className="size-3.5 shrink-0" />
+                    <span className="flex-1 truncate line-through">{action.description}</span>
+                    <span className="text-xs">{formatTime(action.timestamp)}</span>
+                </button>
+            ))}
+        </div>
+    );
+}
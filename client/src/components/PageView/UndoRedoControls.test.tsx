@@ -7,6 +7,8 @@ const mockState = vi.hoisted(() => ({
     redoStack: [] as unknown[],
     undo: vi.fn(),
     redo: vi.fn(),
+    jumpTo: vi.fn(),
+    isPerformingAction: false,
 }));
 
 vi.mock('@/store/undoRedo', () => ({
@@ -16,6 +18,9 @@ vi.mock('@/store/undoRedo', () => ({
 vi.mock('lucide-react', () => ({
     Undo2: ({ className }: { className?: string }) => <span data-testid="undo-icon" className={className}>↶</span>,
     Redo2: ({ className }: { className?: string }) => <span data-testid="redo-icon" className={className}>↷</span>,
+    History: ({ className }: { className?: string }) => <span data-testid="history-icon" className={className}>⟲</span>,
+    Check: () => <span>✓</span>,
+    CircleDot: () => <span>•</span>,
 }));
 
 import { UndoRedoControls } from './UndoRedoControls';
@@ -130,4 +135,31 @@ describe('UndoRedoControls', () => {
             // Visual state changes are internal
         });
     });
+
+    describe('history panel', () => {
+        it('should be disabled with no history', () => {
+            render(<UndoRedoControls />);
+            expect(screen.getByLabelText('History').hasAttribute('disabled')).toBe(true);
+        });
+
+        it('should list applied and undone actions and jump on click', () => {
+            mockState.undoStack = [
+                { id: 'a', description: 'Add "Sol Ring"', timestamp: 1 },
+                { id: 'b', description: 'Change columns', timestamp: 2 },
+            ];
+            mockState.redoStack = [{ id: 'c', description: 'Delete "Forest"', timestamp: 3 }];
+            render(<UndoRedoControls />);
+
+            fireEvent.click(screen.getByLabelText('History'));
+
+            expect(screen.getByText('Change columns')).toBeDefined();
+            expect(screen.getByText('Delete "Forest"')).toBeDefined();
+
+            fireEvent.click(screen.getByText('Add "Sol Ring"'));
+            expect(mockState.jumpTo).toHaveBeenCalledWith('a');
+
+            fireEvent.click(screen.getByText('Start'));
+            expect(mockState.jumpTo).toHaveBeenCalledWith(null);
+        });
+    });
 });
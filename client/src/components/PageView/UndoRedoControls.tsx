@@ -1,6 +1,8 @@
 import { useUndoRedoStore } from "@/store/undoRedo";
-import { Undo2, Redo2 } from "lucide-react";
-import { useEffect, useState } from "react";
+import { Undo2, Redo2, History } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { useOnClickOutside } from "@/hooks/useOnClickOutside";
+import { UndoHistoryPanel } from "./UndoHistoryPanel";
 
 export function UndoRedoControls() {
     // Only subscribe to stack lengths
@@ -13,6 +15,10 @@ export function UndoRedoControls() {
     const [undoPressed, setUndoPressed] = useState(false);
     const [redoPressed, setRedoPressed] = useState(false);
 
+    const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+    const historyRef = useRef<HTMLDivElement>(null);
+    useOnClickOutside(historyRef, () => setIsHistoryOpen(false));
+
     useEffect(() => {
         const isMac = navigator.platform.toUpperCase().includes('MAC');
 
@@ -70,6 +76,22 @@ export function UndoRedoControls() {
             >
                 <Redo2 className="size-5" />
             </button>
+            <div ref={historyRef} className="relative">
+                <button
+                    disabled={undoCount === 0 && redoCount === 0}
+                    onClick={() => setIsHistoryOpen(!isHistoryOpen)}
+                    className={buttonBaseClass}
+                    aria-label="History"
+                    aria-expanded={isHistoryOpen}
+                >
+                    <History className="size-5" />
+                </button>
+                {isHistoryOpen && (
+                    <div className="absolute bottom-full left-0 mb-2">
+                        <UndoHistoryPanel />
+                    </div>
+                )}
+            </div>
         </div>
     );
 }
@@ -4,6 +4,7 @@ import { useSettingsStore } from "@/store/settings";
 import { settingsToCuttingTemplate, downloadCuttingTemplatePDF, generateCuttingTemplatePDFBlob } from "@/helpers/exportCuttingTemplate";
 import { StyledSlider } from "@/components/common/StyledSlider";
 import { CONSTANTS } from "@/constants/commonConstants";
+import { useCardSize } from "@/hooks/useCardSize";
 
 interface PerCardOffsetModalProps {
   isOpen: boolean;
@@ -28,6 +29,7 @@ export function PerCardOffsetModal({ isOpen, onClose }: PerCardOffsetModalProps)
   const cardSpacingMm = useSettingsStore((state) => state.cardSpacingMm);
   const cardPositionX = useSettingsStore((state) => state.cardPositionX);
   const cardPositionY = useSettingsStore((state) => state.cardPositionY);
+  const cardSize = useCardSize();
 
   const [selectedIndices, setSelectedIndices] = useState<Set<number>>(new Set());
   const [lastSelectedIndex, setLastSelectedIndex] = useState<number | null>(null);
@@ -56,8 +58,8 @@ export function PerCardOffsetModal({ isOpen, onClose }: PerCardOffsetModalProps)
   }, [cleanupPreview, onClose]);
 
   // Card slot size (content + bleed)
-  const slotWidthMm = CONSTANTS.CARD_WIDTH_MM + 2 * bleedMm;
-  const slotHeightMm = CONSTANTS.CARD_HEIGHT_MM + 2 * bleedMm;
+  const slotWidthMm = cardSize.widthMm + 2 * bleedMm;
+  const slotHeightMm = cardSize.heightMm + 2 * bleedMm;
 
   // Grid positions
   const gridPositions = useMemo(() => {
@@ -204,7 +206,8 @@ export function PerCardOffsetModal({ isOpen, onClose }: PerCardOffsetModalProps)
       cardSpacingMm,
       cardPositionX,
       cardPositionY,
-      pageOrientation === 'portrait'
+      pageOrientation === 'portrait',
+      cardSize
     );
 
     // Add per-card offsets to settings
@@ -215,7 +218,7 @@ export function PerCardOffsetModal({ isOpen, onClose }: PerCardOffsetModalProps)
   }, [
     pageWidth, pageHeight, pageUnit, pageOrientation, columns, rows,
     bleedEdge, bleedEdgeWidth, bleedEdgeUnit,
-    cardSpacingMm, cardPositionX, cardPositionY,
+    cardSpacingMm, cardPositionX, cardPositionY, cardSize,
     perCardBackOffsets, includeCutGuides
   ]);
 
@@ -237,7 +240,8 @@ export function PerCardOffsetModal({ isOpen, onClose }: PerCardOffsetModalProps)
       cardSpacingMm,
       cardPositionX,
       cardPositionY,
-      pageOrientation === 'portrait'
+      pageOrientation === 'portrait',
+      cardSize
     );
 
     // Add per-card offsets to settings
@@ -251,7 +255,7 @@ export function PerCardOffsetModal({ isOpen, onClose }: PerCardOffsetModalProps)
   }, [
     pageWidth, pageHeight, pageUnit, pageOrientation, columns, rows,
     bleedEdge, bleedEdgeWidth, bleedEdgeUnit,
-    cardSpacingMm, cardPositionX, cardPositionY,
+    cardSpacingMm, cardPositionX, cardPositionY, cardSize,
     perCardBackOffsets, includeCutGuides,
     previewUrl
   ]);
@@ -3,11 +3,13 @@
  * 
  * Renders a single card preview using the shared PixiJS Application.
  * Used by CardEditorModal for live preview with WebGL filters.
+ * When onArtTransformChange is set, dragging moves the artwork, the wheel
+ * zooms it and Shift+wheel rotates it.
  */
 
 import { useRef, useEffect, useState, memo } from 'react';
 import { Container, Sprite as PixiSprite, Texture, RenderTexture } from 'pixi.js';
-import { DarkenFilter, AdjustmentFilter } from './filters';
+import { DarkenFilter, AdjustmentFilter, ArtTransformFilter } from './filters';
 import { getPixiApp } from './pixiSingleton';
 import { calculateHoloAnimation, type HoloAnimationStyle } from './holoAnimation';
 import { useSettingsStore } from '@/store/settings';
@@ -18,6 +20,7 @@ import {
 } from './cardFilterUtils';
 import type { RenderParams } from '../CardCanvas/types';
 import { hasActiveAdjustments } from '@/helpers/adjustmentUtils';
+import { clampArtScale, hasArtTransform } from '@/helpers/artTransform';
 import { CONSTANTS } from "@/constants/commonConstants";
 
 interface PixiCardPreviewProps {
@@ -35,6 +38,8 @@ interface PixiCardPreviewProps {
     className?: string;
     /** Additional inline styles */
     style?: React.CSSProperties;
+    /** Enables editing the artwork transform by dragging on the preview */
+    onArtTransformChange?: (patch: Partial<Pick<RenderParams, 'artScale' | 'artOffsetX' | 'artOffsetY' | 'artRotation'>>) => void;
 }
 
 function PixiCardPreviewInner({
@@ -45,18 +50,21 @@ function PixiCardPreviewInner({
     height,
     className,
     style,
+    onArtTransformChange,
 }: PixiCardPreviewProps) {
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const containerRef = useRef<Container | null>(null);
     const spriteRef = useRef<PixiSprite | null>(null);
     const darkenFilterRef = useRef<DarkenFilter | null>(null);
     const adjustFilterRef = useRef<AdjustmentFilter | null>(null);
+    const artFilterRef = useRef<ArtTransformFilter | null>(null);
     const textureRef = useRef<Texture | null>(null);
     const renderTextureRef = useRef<RenderTexture | null>(null);
     const [isReady, setIsReady] = useState(false);
     const [textureVersion, setTextureVersion] = useState(0); // Increment to trigger render
     const blobUrlRef = useRef<string | null>(null);
     const prevDimensionsRef = useRef({ width: 0, height: 0 });
+    const artDragRef = useRef<{ x: number; y: number; offsetX: number; offsetY: number } | null>(null);
 
     // Initialize container, sprite and filters (once)
     useEffect(() => {
@@ -77,6 +85,7 @@ function PixiCardPreviewInner({
         // Create filters
         const darkenFilter = new DarkenFilter();
         const adjustFilter = new AdjustmentFilter();
+        const artFilter = new ArtTransformFilter();
 
         container.addChild(sprite);
 
@@ -84,6 +93,7 @@ function PixiCardPreviewInner({
         spriteRef.current = sprite;
         darkenFilterRef.current = darkenFilter;
         adjustFilterRef.current = adjustFilter;
+        artFilterRef.current = artFilter;
 
         setIsReady(true);
 
@@ -104,10 +114,12 @@ function PixiCardPreviewInner({
             container.destroy({ children: true });
             darkenFilter.destroy();
             adjustFilter.destroy();
+            artFilter.destroy();
             containerRef.current = null;
             spriteRef.current = null;
             darkenFilterRef.current = null;
             adjustFilterRef.current = null;
+            artFilterRef.current = null;
             setIsReady(false);
         };
     }, []); // Only run once on mount
@@ -241,11 +253,12 @@ function PixiCardPreviewInner({
         const sprite = spriteRef.current;
         const darkenFilter = darkenFilterRef.current;
         const adjustFilter = adjustFilterRef.current;
+        const artFilter = artFilterRef.current;
         const renderTexture = renderTextureRef.current;
         const canvas = canvasRef.current;
 
         // Check that texture is loaded (textureRef.current is set after image loads)
-        if (!app || !container || !sprite || !darkenFilter || !adjustFilter || !renderTexture || !canvas || !textureRef.current) {
+        if (!app || !container || !sprite || !darkenFilter || !adjustFilter || !artFilter || !renderTexture || !canvas || !textureRef.current) {
             return;
         }
 
@@ -290,9 +303,14 @@ function PixiCardPreviewInner({
             { angle: holoAngleRef.current, strength: holoStrengthRef.current }
         );
 
-        // Build filter array
+        // Build filter array - the artwork moves first, like in the export worker
         const filters: import('pixi.js').Filter[] = [];
 
+        if (hasArtTransform(params)) {
+            artFilter.setTransform(params, sprite.width, sprite.height);
+            filters.push(artFilter);
+        }
+
         if (activeDarkenMode && activeDarkenMode !== 'none') {
             filters.push(darkenFilter);
         }
@@ -326,13 +344,55 @@ function PixiCardPreviewInner({
         }
     }, [isReady, params, darknessFactor, width, height, textureVersion, holoAnimationTick]);
 
+    // Artwork drag/zoom/rotate - offsets are relative to the displayed card size
+    const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        if (!onArtTransformChange) return;
+        e.stopPropagation();
+        e.currentTarget.setPointerCapture?.(e.pointerId);
+        artDragRef.current = { x: e.clientX, y: e.clientY, offsetX: params.artOffsetX, offsetY: params.artOffsetY };
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const drag = artDragRef.current;
+        const sprite = spriteRef.current;
+        if (!drag || !onArtTransformChange) return;
+        const cardWidth = sprite?.width || width;
+        const cardHeight = sprite?.height || height;
+        onArtTransformChange({
+            artOffsetX: drag.offsetX + (e.clientX - drag.x) / cardWidth,
+            artOffsetY: drag.offsetY + (e.clientY - drag.y) / cardHeight,
+        });
+    };
+
+    const handlePointerUp = () => {
+        artDragRef.current = null;
+    };
+
+    const handleWheel = (e: React.WheelEvent<HTMLCanvasElement>) => {
+        if (!onArtTransformChange) return;
+        e.stopPropagation();
+        const direction = e.deltaY > 0 ? -1 : 1;
+        if (e.shiftKey) {
+            const rotation = Math.round(params.artRotation + direction);
+            onArtTransformChange({ artRotation: Math.min(Math.max(rotation, -180), 180) });
+        } else {
+            onArtTransformChange({ artScale: clampArtScale(params.artScale * (direction > 0 ? 1.05 : 1 / 1.05)) });
+        }
+    };
+
     return (
         <canvas
             ref={canvasRef}
             width={width}
             height={height}
             className={className}
-            style={{ display: 'block', ...style }}
+            style={{ display: 'block', ...(onArtTransformChange ? { cursor: 'move', touchAction: 'none' } : undefined), ...style }}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            onMouseDown={onArtTransformChange ? (e) => e.stopPropagation() : undefined}
+            onWheel={handleWheel}
         />
     );
 }
@@ -18,6 +18,7 @@ import { calculateHoloAnimation, type HoloAnimationStyle } from './holoAnimation
 import { usePageGuides } from './usePageGuides';
 import { usePerCardGuides } from './usePerCardGuides';
 import { useRegistrationMarks } from './useRegistrationMarks';
+import { useSoftProof } from './useSoftProof';
 import {
     hasActiveAdjustments,
     applyDarkenFilter,
@@ -28,7 +29,10 @@ import {
 } from './cardFilterUtils';
 import type { CardOption } from '../../../../shared/types';
 import type { DarkenMode } from '../../store/settings';
+import type { CutterProfileId } from '../../helpers/cutterProfiles';
 import { useSettingsStore } from '../../store/settings';
+import { getArtTransformKey } from '../../helpers/artTransform';
+import { renderArtTransform } from '../../helpers/effectCache';
 
 // --- Types ---
 
@@ -78,9 +82,11 @@ interface PixiVirtualCanvasProps {
     perCardGuideColor: number; // Hex color for PixiJS (e.g., 0x39FF14)
     perCardGuidePlacement: 'inside' | 'outside' | 'center';
     cutGuideLengthMm: number; // Length of corner guides in mm
+    cardCornerRadiusMm: number; // Corner radius of the trimmed card for rounded guides
     // Registration marks
     registrationMarks: 'none' | '3' | '4';
     registrationMarksPortrait: boolean;
+    cutterProfile: CutterProfileId;
     // Theme
     isDarkMode: boolean;
     // Callback when card textures are loaded (for placeholder hiding)
@@ -116,8 +122,10 @@ function PixiVirtualCanvasInner({
     perCardGuideColor,
     perCardGuidePlacement,
     cutGuideLengthMm,
+    cardCornerRadiusMm,
     registrationMarks,
     registrationMarksPortrait,
+    cutterProfile,
     isDarkMode,
     onRenderedCardsChange,
     className,
@@ -506,6 +514,19 @@ function PixiVirtualCanvasInner({
         }
     }, []);
 
+    // Bake the artwork transform into the display image. Done up front rather than
+    // as a filter because Pixi clips filter input to the screen, which would pull
+    // edge pixels into partially visible cards.
+    const applyArtTransform = useCallback(async (blob: Blob, overrides: CardOption['overrides']): Promise<Blob> => {
+        if (!overrides || !getArtTransformKey(overrides)) return blob;
+        try {
+            return await renderArtTransform(blob, overrides);
+        } catch (e) {
+            console.warn('[PixiVirtualCanvas] Failed to apply artwork transform:', e);
+            return blob;
+        }
+    }, []);
+
     // Render page backgrounds
     useEffect(() => {
         if (!isReady || !pagesContainerRef.current) return;
@@ -567,6 +588,7 @@ function PixiVirtualCanvasInner({
         guidePlacement: perCardGuidePlacement,
         guideWidth,
         cutGuideLengthMm,
+        cornerRadiusMm: cardCornerRadiusMm,
         activeId,
     });
 
@@ -578,6 +600,14 @@ function PixiVirtualCanvasInner({
         pages,
         registrationMarks,
         registrationMarksPortrait,
+        cutterProfile,
+    });
+
+    // Soft-proof the cards against the selected printer profile
+    useSoftProof({
+        isReady,
+        container: cardsContainerRef.current,
+        app: appRef.current,
     });
 
     // Update card sprites
@@ -677,11 +707,15 @@ function PixiVirtualCanvasInner({
                 // Check if artwork has changed (imageId changed = different artwork selected)
                 const frontBlobSize = imageBlob?.size ?? 0;
                 const backBlobSize = backBlob?.size;
+                const frontArtKey = getArtTransformKey(card.overrides);
+                const backArtKey = getArtTransformKey(backOverrides);
                 const artworkChanged = spriteData && (
                     spriteData.frontImageId !== frontImageId ||
                     spriteData.backImageId !== backImageId ||
                     spriteData.frontBlobSize !== frontBlobSize ||
-                    spriteData.backBlobSize !== backBlobSize
+                    spriteData.backBlobSize !== backBlobSize ||
+                    spriteData.frontArtKey !== frontArtKey ||
+                    spriteData.backArtKey !== backArtKey
                 );
 
                 // If artwork changed, destroy old sprite data and recreate
@@ -702,7 +736,9 @@ function PixiVirtualCanvasInner({
                         // Check staleness again before async operations
                         if (isStale()) return;
 
-                        frontTexture = await createTexture(imageBlob, `front-${uuid}`);
+                        const frontImage = await applyArtTransform(imageBlob, card.overrides);
+                        if (isStale()) return;
+                        frontTexture = await createTexture(frontImage, `front-${uuid}`);
 
                         // Check staleness after async
                         if (isStale()) {
@@ -715,7 +751,9 @@ function PixiVirtualCanvasInner({
 
                     let backTexture: Texture | undefined;
                     if (backBlob) {
-                        backTexture = (await createTexture(backBlob, `back-${uuid}`)) ?? undefined;
+                        const backImage = await applyArtTransform(backBlob, backOverrides);
+                        if (isStale()) return;
+                        backTexture = (await createTexture(backImage, `back-${uuid}`)) ?? undefined;
                         if (isStale()) return;
                     }
 
@@ -744,6 +782,8 @@ function PixiVirtualCanvasInner({
                         backBlobSize,
                         frontImageId,
                         backImageId,
+                        frontArtKey,
+                        backArtKey,
                         isPlaceholder, // Flag to indicate this is a placeholder
                     };
                     sprites.set(uuid, spriteData);
@@ -890,6 +930,7 @@ function PixiVirtualCanvasInner({
         globalDarkenAutoDetect,
         flippedCards,
         createTexture,
+        applyArtTransform,
         onRenderedCardsChange,
         holoAnimationTick,
         holoSettingsKey,
@@ -917,8 +958,8 @@ const SHALLOW_COMPARE_KEYS: (keyof PixiVirtualCanvasProps)[] = [
     'viewportWidth', 'viewportHeight', 'scrollTop', 'zoom',
     'globalDarkenMode', 'flippedCards', 'activeId',
     'guideWidth', 'cutLineStyle', 'perCardGuideStyle',
-    'perCardGuideColor', 'perCardGuidePlacement', 'cutGuideLengthMm', 'isDarkMode', 'pages',
-    'registrationMarks', 'registrationMarksPortrait',
+    'perCardGuideColor', 'perCardGuidePlacement', 'cutGuideLengthMm', 'cardCornerRadiusMm', 'isDarkMode', 'pages',
+    'registrationMarks', 'registrationMarksPortrait', 'cutterProfile',
 ];
 
 // Card properties that need simple equality check
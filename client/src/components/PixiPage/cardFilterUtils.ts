@@ -22,6 +22,9 @@ export interface SpriteData {
     backBlobSize?: number;
     frontImageId?: string;
     backImageId?: string;
+    /** Artwork transform baked into each texture (see getArtTransformKey) */
+    frontArtKey?: string;
+    backArtKey?: string;
     isPlaceholder?: boolean;
 }
 
@@ -99,6 +102,8 @@ export interface CardOverrides {
     colorReplaceThreshold?: number;
     // Gamma
     gamma?: number;
+    // Curves & Levels
+    toneLut?: string;
     // Border effects
     vignetteAmount?: number;
     vignetteSize?: number;
@@ -212,6 +217,9 @@ export function applyAdjustmentFilter(
     // Gamma
     filter.gamma = overrides?.gamma ?? 1.0;
 
+    // Curves & Levels
+    filter.toneLut = overrides?.toneLut ?? '';
+
     // Border effects
     filter.vignetteAmount = overrides?.vignetteAmount ?? 0;
     filter.vignetteSize = overrides?.vignetteSize ?? 0.8;
@@ -4,7 +4,8 @@
  * Ports the adjustment shader from CardCanvas/shaders.ts to PixiJS filter format.
  */
 
-import { Filter, GlProgram } from 'pixi.js';
+import { BufferImageSource, Filter, GlProgram } from 'pixi.js';
+import { decodeToneLut } from '../../../helpers/toneCurve';
 
 const VERTEX = `
 in vec2 aPosition;
@@ -39,7 +40,20 @@ ${ADJUSTMENT_FRAGMENT}
 `;
 
 export class AdjustmentFilter extends Filter {
+    // 256x1 lookup table texture for Curves & Levels, refilled when the LUT changes
+    private toneLutSource: BufferImageSource;
+    private toneLutValue = '';
+
     constructor() {
+        const toneLutSource = new BufferImageSource({
+            resource: new Uint8Array(256 * 4),
+            width: 256,
+            height: 1,
+            format: 'rgba8unorm',
+            scaleMode: 'linear',
+            addressMode: 'clamp-to-edge',
+        });
+
         const glProgram = GlProgram.from({
             vertex: VERTEX,
             fragment: FRAGMENT,
@@ -102,9 +116,19 @@ export class AdjustmentFilter extends Filter {
                     uColorReplaceThreshold: { value: 30, type: 'f32' },
                     // Gamma
                     uGamma: { value: 1.0, type: 'f32' },
+                    // Curves & Levels
+                    uToneLutEnabled: { value: 0, type: 'f32' },
                 },
+                uToneLut: toneLutSource,
             },
         });
+
+        this.toneLutSource = toneLutSource;
+    }
+
+    override destroy(destroyProgram?: boolean): void {
+        super.destroy(destroyProgram);
+        this.toneLutSource.destroy();
     }
 
     get textureResolution(): [number, number] {
@@ -443,4 +467,20 @@ export class AdjustmentFilter extends Filter {
     set gamma(value: number) {
         this.resources.adjustUniforms.uniforms.uGamma = value;
     }
+
+    // Curves & Levels - encoded LUT from CardOverrides.toneLut, empty = off
+    get toneLut(): string {
+        return this.toneLutValue;
+    }
+    set toneLut(value: string) {
+        if (value === this.toneLutValue) return;
+        this.toneLutValue = value;
+
+        const rgba = decodeToneLut(value);
+        this.resources.adjustUniforms.uniforms.uToneLutEnabled = rgba ? 1 : 0;
+        if (rgba) {
+            (this.toneLutSource.resource as Uint8Array).set(rgba);
+            this.toneLutSource.update();
+        }
+    }
 }
@@ -0,0 +1,68 @@
+/**
+ * ArtTransformFilter - PixiJS custom filter for the artwork transform
+ * (scale, offset, rotation, flip)
+ *
+ * Shares its shader with the export worker so the preview matches the PDF.
+ * Must run before the darken/adjustment filters.
+ */
+
+import { Filter, GlProgram } from 'pixi.js';
+import { ART_TRANSFORM_FRAGMENT } from '../../../shaders/artTransformShader';
+import { getArtTransformMatrix, type ArtTransform } from '../../../helpers/artTransform';
+
+// Standard vertex shader that passes texture coordinates correctly
+const VERTEX = `
+in vec2 aPosition;
+out vec2 vTextureCoord;
+
+uniform vec4 uInputSize;
+uniform vec4 uOutputFrame;
+uniform vec4 uOutputTexture;
+
+vec4 filterVertexPosition(void) {
+    vec2 position = aPosition * uOutputFrame.zw + uOutputFrame.xy;
+    position.x = position.x * (2.0 / uOutputTexture.x) - 1.0;
+    position.y = position.y * (2.0 * uOutputTexture.z / uOutputTexture.y) - uOutputTexture.z;
+    return vec4(position, 0.0, 1.0);
+}
+
+vec2 filterTextureCoord(void) {
+    return aPosition * (uOutputFrame.zw * uInputSize.zw);
+}
+
+void main(void) {
+    gl_Position = filterVertexPosition();
+    vTextureCoord = filterTextureCoord();
+}
+`;
+
+const FRAGMENT = `
+#define IS_PIXI 1
+${ART_TRANSFORM_FRAGMENT}
+`;
+
+export class ArtTransformFilter extends Filter {
+    constructor() {
+        const glProgram = GlProgram.from({
+            vertex: VERTEX,
+            fragment: FRAGMENT,
+            name: 'art-transform-filter',
+        });
+
+        super({
+            glProgram,
+            resources: {
+                artTransformUniforms: {
+                    uArtTransform: { value: new Float32Array([1, 0, 0, 0, 1, 0, 0, 0, 1]), type: 'mat3x3<f32>' },
+                },
+            },
+        });
+    }
+
+    /**
+     * Update the transform for a sprite of the given size (aspect matters for rotation)
+     */
+    setTransform(transform: ArtTransform, width: number, height: number): void {
+        this.resources.artTransformUniforms.uniforms.uArtTransform = getArtTransformMatrix(transform, width, height);
+    }
+}
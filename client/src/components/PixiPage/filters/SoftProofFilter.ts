@@ -0,0 +1,147 @@
+/**
+ * SoftProofFilter - PixiJS filter that previews how the page will print
+ *
+ * Samples a 3D lookup table baked from a printer ICC profile (see
+ * buildProofLut) and optionally paints colors the printer can't reach in a
+ * gamut warning color. Applied to the whole cards container.
+ */
+
+import { BufferImageSource, Filter, GlProgram } from 'pixi.js';
+import type { ColorLut } from '../../../helpers/colorLut';
+
+const VERTEX = `
+in vec2 aPosition;
+out vec2 vTextureCoord;
+
+uniform vec4 uInputSize;
+uniform vec4 uOutputFrame;
+uniform vec4 uOutputTexture;
+
+vec4 filterVertexPosition(void) {
+    vec2 position = aPosition * uOutputFrame.zw + uOutputFrame.xy;
+    position.x = position.x * (2.0 / uOutputTexture.x) - 1.0;
+    position.y = position.y * (2.0 * uOutputTexture.z / uOutputTexture.y) - uOutputTexture.z;
+    return vec4(position, 0.0, 1.0);
+}
+
+vec2 filterTextureCoord(void) {
+    return aPosition * (uOutputFrame.zw * uInputSize.zw);
+}
+
+void main(void) {
+    gl_Position = filterVertexPosition();
+    vTextureCoord = filterTextureCoord();
+}
+`;
+
+const FRAGMENT = `
+in vec2 vTextureCoord;
+out vec4 finalColor;
+
+uniform sampler2D uTexture;
+uniform sampler2D uProofLut;
+uniform float uLutSize;
+uniform float uGamutWarning;
+uniform vec3 uGamutWarningColor;
+
+// Slices of size x size laid out side by side: x = r + b * size, y = g
+vec4 sampleSlice(vec2 rg, float slice) {
+    vec2 texel = vec2(1.0 / (uLutSize * uLutSize), 1.0 / uLutSize);
+    vec2 coord = vec2(slice * uLutSize + rg.x + 0.5, rg.y + 0.5) * texel;
+    return texture(uProofLut, coord);
+}
+
+vec4 sampleLut(vec3 color) {
+    float maxIndex = uLutSize - 1.0;
+    vec3 scaled = clamp(color, 0.0, 1.0) * maxIndex;
+    float b0 = floor(scaled.b);
+    float b1 = min(b0 + 1.0, maxIndex);
+    return mix(sampleSlice(scaled.rg, b0), sampleSlice(scaled.rg, b1), scaled.b - b0);
+}
+
+void main(void) {
+    vec4 color = texture(uTexture, vTextureCoord);
+    if (color.a <= 0.0) {
+        finalColor = color;
+        return;
+    }
+
+    // Filter input is premultiplied
+    vec4 proof = sampleLut(color.rgb / color.a);
+    vec3 rgb = proof.rgb;
+    if (uGamutWarning > 0.5 && proof.a > 0.5) {
+        rgb = uGamutWarningColor;
+    }
+    finalColor = vec4(rgb * color.a, color.a);
+}
+`;
+
+const createLutSource = (lut: ColorLut) => new BufferImageSource({
+    resource: lut.data,
+    width: lut.size * lut.size,
+    height: lut.size,
+    format: 'rgba8unorm',
+    scaleMode: 'linear',
+    addressMode: 'clamp-to-edge',
+    // Alpha holds the gamut flag, keep the colors as they are
+    alphaMode: 'no-premultiply-alpha',
+});
+
+export class SoftProofFilter extends Filter {
+    private lutSource: BufferImageSource;
+    private lutValue: ColorLut;
+
+    constructor(lut: ColorLut) {
+        const lutSource = createLutSource(lut);
+
+        const glProgram = GlProgram.from({
+            vertex: VERTEX,
+            fragment: FRAGMENT,
+            name: 'soft-proof-filter',
+        });
+
+        super({
+            glProgram,
+            // Match the canvas resolution so the page stays sharp on HiDPI screens
+            resolution: 'inherit',
+            resources: {
+                softProofUniforms: {
+                    uLutSize: { value: lut.size, type: 'f32' },
+                    uGamutWarning: { value: 0, type: 'f32' },
+                    // Neutral gray, like most print tools
+                    uGamutWarningColor: { value: new Float32Array([0.5, 0.5, 0.5]), type: 'vec3<f32>' },
+                },
+                uProofLut: lutSource,
+            },
+        });
+
+        this.lutSource = lutSource;
+        this.lutValue = lut;
+    }
+
+    override destroy(destroyProgram?: boolean): void {
+        super.destroy(destroyProgram);
+        this.lutSource.destroy();
+    }
+
+    get lut(): ColorLut {
+        return this.lutValue;
+    }
+    set lut(value: ColorLut) {
+        if (value === this.lutValue) return;
+        this.lutValue = value;
+
+        const previous = this.lutSource;
+        this.lutSource = createLutSource(value);
+        this.resources.uProofLut = this.lutSource;
+        this.resources.softProofUniforms.uniforms.uLutSize = value.size;
+        previous.destroy();
+    }
+
+    get gamutWarning(): boolean {
+        return this.resources.softProofUniforms.uniforms.uGamutWarning > 0.5;
+    }
+    set gamutWarning(value: boolean) {
+        this.resources.softProofUniforms.uniforms.uGamutWarning = value ? 1 : 0;
+    }
+}
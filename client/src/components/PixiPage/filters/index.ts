@@ -1,2 +1,4 @@
 export { DarkenFilter } from './DarkenFilter';
 export { AdjustmentFilter } from './AdjustmentFilter';
+export { ArtTransformFilter } from './ArtTransformFilter';
+export { SoftProofFilter } from './SoftProofFilter';
@@ -79,9 +79,9 @@ export function usePageGuides({
                 const bleedPx = card.bleedMm * CONSTANTS.DISPLAY_MM_TO_PX;
 
                 const leftCut = card.globalX + bleedPx;
-                const rightCut = card.globalX + bleedPx + CONSTANTS.CARD_WIDTH_PX;
+                const rightCut = card.globalX + card.width - bleedPx;
                 const topCut = card.globalY + bleedPx;
-                const bottomCut = card.globalY + bleedPx + CONSTANTS.CARD_HEIGHT_PX;
+                const bottomCut = card.globalY + card.height - bleedPx;
 
                 // Track grid bounds
                 gridStartXPx = Math.min(gridStartXPx, leftCut);
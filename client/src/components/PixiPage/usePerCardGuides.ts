@@ -24,6 +24,7 @@ interface UsePerCardGuidesProps {
     guidePlacement: GuidePlacement;
     guideWidth: number;
     cutGuideLengthMm: number;
+    cornerRadiusMm: number;
     activeId?: string | null;
 }
 
@@ -40,6 +41,7 @@ export function usePerCardGuides({
     guidePlacement,
     guideWidth,
     cutGuideLengthMm,
+    cornerRadiusMm,
     activeId,
 }: UsePerCardGuidesProps): void {
     const graphicsRef = useRef<Map<string, Graphics>>(new Map());
@@ -65,7 +67,7 @@ export function usePerCardGuides({
         }
 
         const guideWidthPx = Math.max(0.1, guideWidth);
-        const radiusPx = CONSTANTS.CORNER_RADIUS_MM * CONSTANTS.DISPLAY_MM_TO_PX;
+        const radiusPx = cornerRadiusMm * CONSTANTS.DISPLAY_MM_TO_PX;
         const isRounded = guideStyle.includes('rounded');
         const isRect = guideStyle.includes('rect');
 
@@ -134,7 +136,8 @@ export function usePerCardGuides({
 
             const bleedPx = card.bleedMm * CONSTANTS.DISPLAY_MM_TO_PX;
 
-            const ctx = getOrCreateContext(CONSTANTS.CARD_WIDTH_PX, CONSTANTS.CARD_HEIGHT_PX);
+            // Trimmed card size is the laid-out size minus bleed on both sides
+            const ctx = getOrCreateContext(card.width - 2 * bleedPx, card.height - 2 * bleedPx);
             const g = new Graphics(ctx);
             g.x = card.globalX + bleedPx;
             g.y = card.globalY + bleedPx;
@@ -144,7 +147,7 @@ export function usePerCardGuides({
         });
 
         if (app) app.render();
-    }, [isReady, container, app, cards, guideStyle, guideColor, guidePlacement, guideWidth, cutGuideLengthMm, activeId]);
+    }, [isReady, container, app, cards, guideStyle, guideColor, guidePlacement, guideWidth, cutGuideLengthMm, cornerRadiusMm, activeId]);
 
     // Cleanup on unmount
     useEffect(() => {
@@ -0,0 +1,86 @@
+/**
+ * useSoftProof Hook
+ *
+ * Previews the cards as they will print on the selected printer: applies a
+ * SoftProofFilter built from the printer's ICC profile to the cards container,
+ * with an optional gamut warning overlay.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import type { Application, Container } from 'pixi.js';
+import { SoftProofFilter } from './filters';
+import { useSettingsStore } from '../../store/settings';
+import { getColorLut } from '../../helpers/iccProfileLibrary';
+import type { ColorLut } from '../../helpers/colorLut';
+
+interface UseSoftProofProps {
+    isReady: boolean;
+    container: Container | null;
+    app: Application | null;
+}
+
+/**
+ * Hook to soft-proof the cards container against the selected ICC profile
+ */
+export function useSoftProof({ isReady, container, app }: UseSoftProofProps): void {
+    const enabled = useSettingsStore((s) => s.softProofEnabled);
+    const profileId = useSettingsStore((s) => s.softProofProfileId);
+    const intent = useSettingsStore((s) => s.softProofIntent);
+    const gamutWarning = useSettingsStore((s) => s.softProofGamutWarning);
+
+    const filterRef = useRef<SoftProofFilter | null>(null);
+    const [loaded, setLoaded] = useState<{ key: string; lut: ColorLut | null } | null>(null);
+
+    const key = enabled && profileId ? `${profileId}:${intent}` : null;
+    const lut = key && loaded?.key === key ? loaded.lut : null;
+
+    // Load the lookup table for the selected profile and intent
+    useEffect(() => {
+        if (!enabled || !profileId) return;
+        let cancelled = false;
+        getColorLut(profileId, 'proof', intent)
+            .then((result) => {
+                if (!cancelled) setLoaded({ key: `${profileId}:${intent}`, lut: result });
+            })
+            .catch((error) => {
+                console.warn('[useSoftProof] Failed to build proof table:', error);
+                if (!cancelled) setLoaded({ key: `${profileId}:${intent}`, lut: null });
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [enabled, profileId, intent]);
+
+    useEffect(() => {
+        if (!isReady || !container) return;
+
+        if (!lut) {
+            if (filterRef.current) {
+                container.filters = null;
+                filterRef.current.destroy();
+                filterRef.current = null;
+                if (app) app.render();
+            }
+            return;
+        }
+
+        if (filterRef.current) {
+            filterRef.current.lut = lut;
+        } else {
+            filterRef.current = new SoftProofFilter(lut);
+            container.filters = [filterRef.current];
+        }
+        filterRef.current.gamutWarning = gamutWarning;
+        if (app) app.render();
+    }, [isReady, container, app, lut, gamutWarning]);
+
+    // Release the filter when the canvas goes away
+    useEffect(() => {
+        return () => {
+            try {
+                filterRef.current?.destroy();
+            } catch { /* ignore */ }
+            filterRef.current = null;
+        };
+    }, []);
+}
@@ -0,0 +1,121 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, fireEvent, waitFor } from "@testing-library/react";
+import { PrintProfileSelector } from "./PrintProfileSelector";
+import { useSettingsStore } from "@/store/settings";
+import { useUserPreferencesStore } from "@/store/userPreferences";
+import { useUndoRedoStore } from "@/store/undoRedo";
+import { capturePrintProfileSettings } from "@/helpers/printProfiles";
+import type { PrintProfile } from "@/db";
+
+const mocks = vi.hoisted(() => ({
+    savePrintProfiles: vi.fn(),
+    deletePrintProfile: vi.fn(),
+    setSelectedPrintProfile: vi.fn(),
+    showInfoToast: vi.fn(),
+    showErrorToast: vi.fn(),
+}));
+
+vi.mock("@/store/toast", () => ({
+    useToastStore: {
+        getState: () => ({ showInfoToast: mocks.showInfoToast, showErrorToast: mocks.showErrorToast }),
+    },
+}));
+
+// Mock ResizeObserver
+global.ResizeObserver = class ResizeObserver {
+    observe() { }
+    unobserve() { }
+    disconnect() { }
+};
+
+describe("PrintProfileSelector", () => {
+    const initialSettings = useSettingsStore.getState();
+    let office: PrintProfile;
+
+    const setPreferences = (selectedPrintProfile: string | null) => {
+        useUserPreferencesStore.setState({
+            preferences: { id: "default", settings: {}, favoriteCardbacks: [], printProfiles: [office], selectedPrintProfile },
+            savePrintProfiles: mocks.savePrintProfiles,
+            deletePrintProfile: mocks.deletePrintProfile,
+            setSelectedPrintProfile: mocks.setSelectedPrintProfile,
+        });
+    };
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        useSettingsStore.setState(initialSettings, true);
+        useUndoRedoStore.getState().clearHistory();
+        office = { name: "Office", settings: { ...capturePrintProfileSettings(), dpi: 600, columns: 4 }, updatedAt: 1 };
+    });
+
+    it("should show which settings diverge from the selected profile", () => {
+        setPreferences("Office");
+        render(<PrintProfileSelector />);
+
+        expect(screen.getByText('2 settings differ from "Office":')).toBeTruthy();
+        expect(screen.getByText("DPI: 900 → 600")).toBeTruthy();
+        expect(screen.getByText("Columns: 3 → 4")).toBeTruthy();
+    });
+
+    it("should apply the selected profile in one click", () => {
+        setPreferences("Office");
+        render(<PrintProfileSelector />);
+
+        fireEvent.click(screen.getByText("Apply Profile"));
+
+        expect(useSettingsStore.getState().dpi).toBe(600);
+        expect(useSettingsStore.getState().columns).toBe(4);
+        expect(screen.getByText('Project matches "Office"')).toBeTruthy();
+    });
+
+    it("should select a profile from the dropdown", () => {
+        setPreferences(null);
+        render(<PrintProfileSelector />);
+
+        fireEvent.change(screen.getByRole("combobox"), { target: { value: "Office" } });
+        expect(mocks.setSelectedPrintProfile).toHaveBeenCalledWith("Office");
+    });
+
+    it("should save the current layout under a name", async () => {
+        setPreferences(null);
+        render(<PrintProfileSelector />);
+
+        fireEvent.click(screen.getByTitle("Save current layout as profile"));
+        fireEvent.change(screen.getByPlaceholderText("Office Laser - Letter"), { target: { value: "Home Inkjet" } });
+        fireEvent.click(screen.getByText("Save"));
+
+        await waitFor(() => expect(mocks.setSelectedPrintProfile).toHaveBeenCalledWith("Home Inkjet"));
+        const [saved] = mocks.savePrintProfiles.mock.calls[0][0];
+        expect(saved.name).toBe("Home Inkjet");
+        expect(saved.settings.dpi).toBe(900);
+    });
+
+    it("should import profiles from a JSON file", async () => {
+        setPreferences(null);
+        render(<PrintProfileSelector />);
+
+        const json = JSON.stringify({
+            format: "proxxied-print-profiles",
+            version: 1,
+            profiles: [{ name: "Library", settings: { dpi: 300 }, updatedAt: 2 }],
+        });
+        const file = new File([json], "profiles.json", { type: "application/json" });
+        fireEvent.change(screen.getByTestId("print-profile-import-input"), { target: { files: [file] } });
+
+        await waitFor(() => expect(mocks.savePrintProfiles).toHaveBeenCalledWith([
+            { name: "Library", settings: { dpi: 300 }, updatedAt: 2 },
+        ]));
+        expect(mocks.showInfoToast).toHaveBeenCalledWith("Imported 1 print profile");
+    });
+
+    it("should report invalid import files", async () => {
+        setPreferences(null);
+        render(<PrintProfileSelector />);
+
+        const file = new File(["nope"], "profiles.json", { type: "application/json" });
+        fireEvent.change(screen.getByTestId("print-profile-import-input"), { target: { files: [file] } });
+
+        await waitFor(() => expect(mocks.showErrorToast).toHaveBeenCalledWith("Not a valid print profiles file"));
+        expect(mocks.savePrintProfiles).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,188 @@
+import { useState, useMemo, useRef } from "react";
+import { Check, Download, Save, Trash2, Upload } from "lucide-react";
+import { Button, Label, Modal, ModalBody, ModalFooter, ModalHeader, Select, TextInput } from "flowbite-react";
+import { useShallow } from "zustand/react/shallow";
+import { useSettingsStore } from "@/store/settings";
+import { useUserPreferencesStore } from "@/store/userPreferences";
+import { useToastStore } from "@/store/toast";
+import {
+    applyPrintProfile,
+    capturePrintProfileSettings,
+    downloadPrintProfiles,
+    formatPrintProfileValue,
+    getPrintProfileDifferences,
+    parsePrintProfiles,
+    selectPrintProfileSettings,
+} from "@/helpers/printProfiles";
+
+async function readText(file: File): Promise<string> {
+    return new Promise((resolve) => {
+        const r = new FileReader();
+        r.onloadend = () => resolve(String(r.result || ""));
+        r.readAsText(file);
+    });
+}
+
+const iconButtonClass = "p-2 rounded-md text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-40 disabled:cursor-not-allowed";
+
+export function PrintProfileSelector() {
+    const printProfiles = useUserPreferencesStore((state) => state.preferences?.printProfiles);
+    const selectedName = useUserPreferencesStore((state) => state.preferences?.selectedPrintProfile ?? null);
+    const savePrintProfiles = useUserPreferencesStore((state) => state.savePrintProfiles);
+    const deletePrintProfile = useUserPreferencesStore((state) => state.deletePrintProfile);
+    const setSelectedPrintProfile = useUserPreferencesStore((state) => state.setSelectedPrintProfile);
+
+    const settings = useSettingsStore(useShallow(selectPrintProfileSettings));
+
+    const [isSaveModalOpen, setIsSaveModalOpen] = useState(false);
+    const [saveName, setSaveName] = useState("");
+    const importInputRef = useRef<HTMLInputElement>(null);
+
+    const profiles = useMemo(() => printProfiles ?? [], [printProfiles]);
+    const selectedProfile = profiles.find((p) => p.name === selectedName);
+    const differences = useMemo(
+        () => (selectedProfile ? getPrintProfileDifferences(selectedProfile, settings) : []),
+        [selectedProfile, settings]
+    );
+
+    const handleApply = () => {
+        if (!selectedProfile) return;
+        const changed = applyPrintProfile(selectedProfile);
+        useToastStore.getState().showInfoToast(
+            `Applied "${selectedProfile.name}" (${changed} setting${changed !== 1 ? 's' : ''} changed)`
+        );
+    };
+
+    const openSaveModal = () => {
+        setSaveName(selectedProfile?.name ?? "");
+        setIsSaveModalOpen(true);
+    };
+
+    const handleSave = async () => {
+        const name = saveName.trim();
+        if (!name) return;
+        await savePrintProfiles([{ name, settings: capturePrintProfileSettings(), updatedAt: Date.now() }]);
+        await setSelectedPrintProfile(name);
+        setIsSaveModalOpen(false);
+        useToastStore.getState().showInfoToast(`Saved print profile "${name}"`);
+    };
+
+    const handleDelete = async () => {
+        if (!selectedProfile) return;
+        await deletePrintProfile(selectedProfile.name);
+    };
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = "";
+        if (!file) return;
+        try {
+            const imported = parsePrintProfiles(await readText(file));
+            await savePrintProfiles(imported);
+            useToastStore.getState().showInfoToast(
+                `Imported ${imported.length} print profile${imported.length !== 1 ? 's' : ''}`
+            );
+        } catch (err) {
+            const message = err instanceof Error ? err.message : 'Failed to import print profiles';
+            useToastStore.getState().showErrorToast(message);
+        }
+    };
+
+    const nameExists = profiles.some((p) => p.name.trim().toLowerCase() === saveName.trim().toLowerCase());
+
+    return (
+        <div className="flex flex-col gap-2">
+            <div className="flex items-center gap-1">
+                <Select
+                    id="printProfile"
+                    sizing="sm"
+                    className="flex-1 min-w-0"
+                    value={selectedProfile?.name ?? ""}
+                    onChange={(e) => setSelectedPrintProfile(e.target.value || null)}
+                >
+                    <option value="">No profile</option>
+                    {profiles.map((p) => (
+                        <option key={p.name} value={p.name}>{p.name}</option>
+                    ))}
+                </Select>
+                <button type="button" className={iconButtonClass} onClick={openSaveModal} title="Save current layout as profile">
+                    <Save className="w-4 h-4" />
+                </button>
+                <button type="button" className={iconButtonClass} onClick={handleDelete} disabled={!selectedProfile} title="Delete profile">
+                    <Trash2 className="w-4 h-4" />
+                </button>
+                <button type="button" className={iconButtonClass} onClick={() => downloadPrintProfiles(profiles)} disabled={profiles.length === 0} title="Export profiles">
+                    <Download className="w-4 h-4" />
+                </button>
+                <button type="button" className={iconButtonClass} onClick={() => importInputRef.current?.click()} title="Import profiles">
+                    <Upload className="w-4 h-4" />
+                </button>
+                <input
+                    ref={importInputRef}
+                    type="file"
+                    accept=".json,application/json"
+                    onChange={handleImport}
+                    className="hidden"
+                    data-testid="print-profile-import-input"
+                />
+            </div>
+
+            {selectedProfile && (differences.length === 0 ? (
+                <p className="flex items-center gap-1 text-xs text-green-700 dark:text-green-400">
+                    <Check className="w-3.5 h-3.5" />
+                    Project matches "{selectedProfile.name}"
+                </p>
+            ) : (
+                <div className="p-2 rounded-md bg-yellow-50 dark:bg-yellow-900/30 border border-yellow-300 dark:border-yellow-700 text-xs text-yellow-800 dark:text-yellow-200 space-y-2">
+                    <p className="font-medium">
+                        {differences.length} setting{differences.length !== 1 ? 's' : ''} differ from "{selectedProfile.name}":
+                    </p>
+                    <ul className="space-y-0.5">
+                        {differences.map((d) => (
+                            <li key={d.key}>
+                                {d.label}: {formatPrintProfileValue(d.key, d.currentValue)} → {formatPrintProfileValue(d.key, d.profileValue)}
+                            </li>
+                        ))}
+                    </ul>
+                    <Button size="xs" color="yellow" onClick={handleApply}>
+                        Apply Profile
+                    </Button>
+                </div>
+            ))}
+
+            <Modal show={isSaveModalOpen} onClose={() => setIsSaveModalOpen(false)} size="md">
+                <ModalHeader>Save Print Profile</ModalHeader>
+                <ModalBody>
+                    <div className="space-y-2">
+                        <Label htmlFor="printProfileName">Profile Name</Label>
+                        <TextInput
+                            id="printProfileName"
+                            placeholder="Office Laser - Letter"
+                            value={saveName}
+                            onChange={(e) => setSaveName(e.target.value)}
+                            autoFocus
+                            onKeyDown={(e) => {
+                                if (e.key === 'Enter') handleSave();
+                            }}
+                        />
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                            {nameExists
+                                ? 'A profile with this name exists and will be overwritten.'
+                                : 'Saves page size, DPI, spacing, offsets, bleed and guide settings.'}
+                        </p>
+                    </div>
+                </ModalBody>
+                <ModalFooter>
+                    <div className="flex justify-end gap-2 w-full">
+                        <Button color="gray" onClick={() => setIsSaveModalOpen(false)}>
+                            Cancel
+                        </Button>
+                        <Button onClick={handleSave} disabled={!saveName.trim()}>
+                            Save
+                        </Button>
+                    </div>
+                </ModalFooter>
+            </Modal>
+        </div>
+    );
+}
@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, fireEvent, waitFor } from "@testing-library/react";
+import { PrinterCalibrationModal } from "./PrinterCalibrationModal";
+import { useSettingsStore } from "@/store/settings";
+import { useUserPreferencesStore } from "@/store/userPreferences";
+
+const mocks = vi.hoisted(() => ({
+    downloadCalibrationSheet: vi.fn(),
+    savePrinterCalibration: vi.fn(),
+    deletePrinterCalibration: vi.fn(),
+}));
+
+vi.mock("@/helpers/printerCalibration", async (importOriginal) => ({
+    ...(await importOriginal<typeof import("@/helpers/printerCalibration")>()),
+    downloadCalibrationSheet: mocks.downloadCalibrationSheet,
+}));
+
+// Mock ResizeObserver
+global.ResizeObserver = class ResizeObserver {
+    observe() { }
+    unobserve() { }
+    disconnect() { }
+};
+
+const profile = {
+    name: "Office",
+    columns: 2,
+    rows: 2,
+    cardBackPositionX: 1.5,
+    cardBackPositionY: -0.5,
+    perCardBackOffsets: { 1: { x: 0.2, y: 0, rotation: 0.3 } },
+    updatedAt: 1,
+};
+
+describe("PrinterCalibrationModal", () => {
+    const mockOnClose = vi.fn();
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        useSettingsStore.setState({
+            columns: 2,
+            rows: 2,
+            pageWidth: 210,
+            pageHeight: 297,
+            pageSizeUnit: "mm",
+            useCustomBackOffset: false,
+            cardPositionX: 0,
+            cardPositionY: 0,
+            cardBackPositionX: 0,
+            cardBackPositionY: 0,
+            perCardBackOffsets: {},
+        });
+        useUserPreferencesStore.setState({
+            preferences: { id: "default", settings: {}, favoriteCardbacks: [], printerCalibrations: [profile] },
+            savePrinterCalibration: mocks.savePrinterCalibration,
+            deletePrinterCalibration: mocks.deletePrinterCalibration,
+        });
+    });
+
+    it("should download the calibration sheet with the current back alignment", async () => {
+        render(<PrinterCalibrationModal isOpen={true} onClose={mockOnClose} />);
+
+        fireEvent.click(screen.getByText("Download Calibration Sheet"));
+
+        await waitFor(() => expect(mocks.downloadCalibrationSheet).toHaveBeenCalled());
+        const [settings, back] = mocks.downloadCalibrationSheet.mock.calls[0];
+        expect(settings.columns).toBe(2);
+        expect(back).toEqual({ cardBackPositionX: 0, cardBackPositionY: 0, perCardBackOffsets: {} });
+    });
+
+    it("should apply a saved printer calibration", () => {
+        render(<PrinterCalibrationModal isOpen={true} onClose={mockOnClose} />);
+
+        fireEvent.change(screen.getByRole("combobox"), { target: { value: "Office" } });
+        fireEvent.click(screen.getByText("Apply"));
+
+        const state = useSettingsStore.getState();
+        expect(state.useCustomBackOffset).toBe(true);
+        expect(state.cardBackPositionX).toBe(1.5);
+        expect(state.cardBackPositionY).toBe(-0.5);
+        expect(state.perCardBackOffsets).toEqual(profile.perCardBackOffsets);
+    });
+
+    it("should compute, apply and save offsets from entered readings", async () => {
+        render(<PrinterCalibrationModal isOpen={true} onClose={mockOnClose} />);
+        fireEvent.click(screen.getByText("Enter Readings"));
+
+        // Every card is 1mm too far left and 0.5mm too high
+        for (let card = 1; card <= 4; card++) {
+            fireEvent.change(screen.getByLabelText(`Card ${card} T →`), { target: { value: "1" } });
+            fireEvent.change(screen.getByLabelText(`Card ${card} B →`), { target: { value: "1" } });
+            fireEvent.change(screen.getByLabelText(`Card ${card} T ↓`), { target: { value: "0.5" } });
+            fireEvent.change(screen.getByLabelText(`Card ${card} B ↓`), { target: { value: "0.5" } });
+        }
+        fireEvent.click(screen.getByText("Review (4/4 cards)"));
+
+        expect(screen.getByText("None needed: all cards move together.")).toBeTruthy();
+        fireEvent.change(screen.getByPlaceholderText(/Office Laser/), { target: { value: "Home Inkjet" } });
+        fireEvent.click(screen.getByText("Apply & Save"));
+
+        await waitFor(() => expect(mockOnClose).toHaveBeenCalled());
+        const state = useSettingsStore.getState();
+        expect(state.useCustomBackOffset).toBe(true);
+        expect(state.cardBackPositionX).toBe(1);
+        expect(state.cardBackPositionY).toBe(0.5);
+        expect(mocks.savePrinterCalibration).toHaveBeenCalledWith(expect.objectContaining({
+            name: "Home Inkjet",
+            columns: 2,
+            rows: 2,
+            cardBackPositionX: 1,
+            cardBackPositionY: 0.5,
+        }));
+    });
+
+    it("should block readings that are off the ruler", () => {
+        render(<PrinterCalibrationModal isOpen={true} onClose={mockOnClose} />);
+        fireEvent.click(screen.getByText("Enter Readings"));
+
+        fireEvent.change(screen.getByLabelText("Card 1 T →"), { target: { value: "12" } });
+
+        expect(screen.getByText(/Readings must be numbers between/)).toBeTruthy();
+        expect(screen.getByText("Review (0/4 cards)").closest("button")?.disabled).toBe(true);
+    });
+});
@@ -0,0 +1,358 @@
+import { Modal, ModalHeader, ModalBody, ModalFooter, Label, Button, Select, TextInput } from "flowbite-react";
+import { useState, useCallback, useMemo } from "react";
+import { Download, Save, Trash2 } from "lucide-react";
+import { useSettingsStore } from "@/store/settings";
+import { useUserPreferencesStore } from "@/store/userPreferences";
+import { useToastStore } from "@/store/toast";
+import { settingsToCuttingTemplate } from "@/helpers/exportCuttingTemplate";
+import { useCardSize } from "@/hooks/useCardSize";
+import {
+  CALIBRATION_RULER_RANGE_MM,
+  computeCalibration,
+  downloadCalibrationSheet,
+  type BackAlignment,
+  type SlotReading,
+} from "@/helpers/printerCalibration";
+import type { PrinterCalibrationProfile } from "@/db";
+
+interface PrinterCalibrationModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type Step = 'print' | 'measure' | 'review';
+
+const READING_FIELDS = [
+  { key: 'topX', label: 'T →' },
+  { key: 'topY', label: 'T ↓' },
+  { key: 'bottomX', label: 'B →' },
+  { key: 'bottomY', label: 'B ↓' },
+] as const;
+
+type ReadingField = typeof READING_FIELDS[number]['key'];
+type SlotInputs = Partial<Record<ReadingField, string>>;
+
+/**
+ * Turns the entered strings into readings. Slots with no values are skipped,
+ * empty fields in a partly filled slot count as 0.
+ * Returns null if any value is not a number or is off the ruler.
+ */
+function parseReadings(inputs: Record<number, SlotInputs>): Record<number, SlotReading> | null {
+  const readings: Record<number, SlotReading> = {};
+
+  for (const [index, slot] of Object.entries(inputs)) {
+    const values = READING_FIELDS.map(({ key }) => (slot[key] ?? '').trim().replace(',', '.'));
+    if (values.every((v) => v === '')) continue;
+
+    const [topX, topY, bottomX, bottomY] = values.map((v) => (v === '' ? 0 : Number(v)));
+    if ([topX, topY, bottomX, bottomY].some((n) => !Number.isFinite(n) || Math.abs(n) > CALIBRATION_RULER_RANGE_MM)) {
+      return null;
+    }
+    readings[Number(index)] = { top: { x: topX, y: topY }, bottom: { x: bottomX, y: bottomY } };
+  }
+
+  return readings;
+}
+
+export function PrinterCalibrationModal({ isOpen, onClose }: PrinterCalibrationModalProps) {
+  const columns = useSettingsStore((state) => state.columns);
+  const rows = useSettingsStore((state) => state.rows);
+  const pageWidth = useSettingsStore((state) => state.pageWidth);
+  const pageHeight = useSettingsStore((state) => state.pageHeight);
+  const pageUnit = useSettingsStore((state) => state.pageSizeUnit);
+  const pageOrientation = useSettingsStore((state) => state.pageOrientation);
+  const bleedEdge = useSettingsStore((state) => state.bleedEdge);
+  const bleedEdgeWidth = useSettingsStore((state) => state.bleedEdgeWidth);
+  const bleedEdgeUnit = useSettingsStore((state) => state.bleedEdgeUnit);
+  const cardSpacingMm = useSettingsStore((state) => state.cardSpacingMm);
+  const cardPositionX = useSettingsStore((state) => state.cardPositionX);
+  const cardPositionY = useSettingsStore((state) => state.cardPositionY);
+  const cardSize = useCardSize();
+  const useCustomBackOffset = useSettingsStore((state) => state.useCustomBackOffset);
+  const cardBackPositionX = useSettingsStore((state) => state.cardBackPositionX);
+  const cardBackPositionY = useSettingsStore((state) => state.cardBackPositionY);
+  const perCardBackOffsets = useSettingsStore((state) => state.perCardBackOffsets);
+
+  const printerCalibrations = useUserPreferencesStore((state) => state.preferences?.printerCalibrations);
+  const savePrinterCalibration = useUserPreferencesStore((state) => state.savePrinterCalibration);
+  const deletePrinterCalibration = useUserPreferencesStore((state) => state.deletePrinterCalibration);
+
+  const [step, setStep] = useState<Step>('print');
+  const [inputs, setInputs] = useState<Record<number, SlotInputs>>({});
+  const [printerName, setPrinterName] = useState('');
+  const [selectedProfile, setSelectedProfile] = useState('');
+
+  const profiles = useMemo(() => printerCalibrations ?? [], [printerCalibrations]);
+  const slotCount = columns * rows;
+
+  // The back page of the sheet is printed with what exports currently use
+  const currentAlignment = useMemo<BackAlignment>(() => ({
+    cardBackPositionX: useCustomBackOffset ? cardBackPositionX : cardPositionX,
+    cardBackPositionY: useCustomBackOffset ? cardBackPositionY : cardPositionY,
+    perCardBackOffsets,
+  }), [useCustomBackOffset, cardBackPositionX, cardBackPositionY, cardPositionX, cardPositionY, perCardBackOffsets]);
+
+  const readings = useMemo(() => parseReadings(inputs), [inputs]);
+  const measuredCount = readings ? Object.keys(readings).length : 0;
+  const result = useMemo(
+    () => (readings ? computeCalibration(currentAlignment, readings) : null),
+    [readings, currentAlignment]
+  );
+
+  const handleClose = useCallback(() => {
+    setStep('print');
+    setInputs({});
+    onClose();
+  }, [onClose]);
+
+  const applyAlignment = useCallback((alignment: BackAlignment) => {
+    const settings = useSettingsStore.getState();
+    settings.setUseCustomBackOffset(true);
+    settings.setCardBackPositionX(alignment.cardBackPositionX);
+    settings.setCardBackPositionY(alignment.cardBackPositionY);
+    settings.setPerCardBackOffsets(alignment.perCardBackOffsets);
+  }, []);
+
+  const handleDownloadSheet = useCallback(async () => {
+    const settings = settingsToCuttingTemplate(
+      pageWidth,
+      pageHeight,
+      pageUnit,
+      columns,
+      rows,
+      bleedEdge,
+      bleedEdgeWidth,
+      bleedEdgeUnit,
+      cardSpacingMm,
+      cardPositionX,
+      cardPositionY,
+      pageOrientation === 'portrait',
+      cardSize
+    );
+
+    try {
+      await downloadCalibrationSheet(settings, currentAlignment);
+    } catch (error) {
+      console.error('[PrinterCalibration] Failed to generate calibration sheet:', error);
+      useToastStore.getState().showErrorToast('Failed to generate calibration sheet');
+    }
+  }, [
+    pageWidth, pageHeight, pageUnit, pageOrientation, columns, rows,
+    bleedEdge, bleedEdgeWidth, bleedEdgeUnit,
+    cardSpacingMm, cardPositionX, cardPositionY, cardSize,
+    currentAlignment
+  ]);
+
+  const handleLoadProfile = useCallback(() => {
+    const profile = profiles.find((p) => p.name === selectedProfile);
+    if (!profile) return;
+
+    applyAlignment(profile);
+    setPrinterName(profile.name);
+    if (profile.columns !== columns || profile.rows !== rows) {
+      useToastStore.getState().showInfoToast(
+        `"${profile.name}" was calibrated on a ${profile.columns}x${profile.rows} grid; per-card offsets may not match this layout`
+      );
+    } else {
+      useToastStore.getState().showInfoToast(`Applied calibration for "${profile.name}"`);
+    }
+  }, [profiles, selectedProfile, columns, rows, applyAlignment]);
+
+  const handleDeleteProfile = useCallback(async () => {
+    if (!selectedProfile) return;
+    await deletePrinterCalibration(selectedProfile);
+    setSelectedProfile('');
+  }, [selectedProfile, deletePrinterCalibration]);
+
+  const handleApply = useCallback(async () => {
+    if (!result) return;
+    applyAlignment(result);
+
+    const name = printerName.trim();
+    if (name) {
+      const profile: PrinterCalibrationProfile = {
+        name,
+        columns,
+        rows,
+        ...result,
+        updatedAt: Date.now(),
+      };
+      await savePrinterCalibration(profile);
+      useToastStore.getState().showInfoToast(`Saved calibration for "${name}"`);
+    }
+    handleClose();
+  }, [result, printerName, columns, rows, applyAlignment, savePrinterCalibration, handleClose]);
+
+  const setReading = (index: number, field: ReadingField, value: string) => {
+    setInputs((prev) => ({ ...prev, [index]: { ...prev[index], [field]: value } }));
+  };
+
+  const formatMm = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(2)}`;
+
+  return (
+    <Modal show={isOpen} onClose={handleClose} size="4xl" dismissible>
+      <ModalHeader>Printer Calibration</ModalHeader>
+      <ModalBody>
+        {step === 'print' && (
+          <div className="space-y-5 text-sm text-gray-700 dark:text-gray-300">
+            <div className="space-y-2">
+              <Label className="font-bold">Saved Printers</Label>
+              {profiles.length === 0 ? (
+                <p className="text-gray-500 dark:text-gray-400">No saved calibrations yet. Finish a calibration and give it a printer name to save it.</p>
+              ) : (
+                <div className="flex items-center gap-2">
+                  <Select
+                    id="printerCalibrationProfile"
+                    className="flex-1"
+                    value={selectedProfile}
+                    onChange={(e) => setSelectedProfile(e.target.value)}
+                  >
+                    <option value="">Select a printer…</option>
+                    {profiles.map((p) => (
+                      <option key={p.name} value={p.name}>
+                        {p.name} ({p.columns}x{p.rows})
+                      </option>
+                    ))}
+                  </Select>
+                  <Button color="blue" disabled={!selectedProfile} onClick={handleLoadProfile}>
+                    Apply
+                  </Button>
+                  <Button color="red" disabled={!selectedProfile} onClick={handleDeleteProfile} title="Delete saved calibration">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label className="font-bold">New Calibration</Label>
+              <ol className="list-decimal list-inside space-y-1">
+                <li>Download the calibration sheet and print it double-sided (flip on long edge) at 100% scale, on the printer and paper you want to calibrate.</li>
+                <li>Hold the sheet against a light with the back facing you. The front crosshairs show through the paper.</li>
+                <li>For every numbered card, read where each crosshair's center falls on the T (top) and B (bottom) rulers: right and down are positive.</li>
+              </ol>
+              <p className="text-gray-500 dark:text-gray-400">
+                The sheet uses your current layout and back offsets, so you can repeat the calibration to refine the result.
+              </p>
+              <Button color="green" onClick={handleDownloadSheet} className="gap-2">
+                <Download className="h-4 w-4" />
+                Download Calibration Sheet
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === 'measure' && (
+          <div className="space-y-3">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Enter the readings in mm (up to ±{CALIBRATION_RULER_RANGE_MM}). Leave a card empty to skip it; empty fields count as 0.
+            </p>
+            <div
+              className="grid gap-3"
+              style={{ gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` }}
+            >
+              {Array.from({ length: slotCount }, (_, index) => (
+                <div key={index} className="p-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-gray-50 dark:bg-gray-800">
+                  <div className="text-center font-semibold text-gray-700 dark:text-gray-300 mb-1">{index + 1}</div>
+                  <div className="grid grid-cols-2 gap-1">
+                    {READING_FIELDS.map(({ key, label }) => (
+                      <div key={key} className="flex items-center gap-1">
+                        <span className="text-xs text-gray-500 dark:text-gray-400 w-6 shrink-0">{label}</span>
+                        <TextInput
+                          sizing="sm"
+                          type="number"
+                          step={0.1}
+                          aria-label={`Card ${index + 1} ${label}`}
+                          value={inputs[index]?.[key] ?? ''}
+                          onChange={(e) => setReading(index, key, e.target.value)}
+                          placeholder="0"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+            {readings === null && (
+              <p className="text-sm text-red-600 dark:text-red-400">
+                Readings must be numbers between -{CALIBRATION_RULER_RANGE_MM} and {CALIBRATION_RULER_RANGE_MM} mm.
+              </p>
+            )}
+          </div>
+        )}
+
+        {step === 'review' && result && (
+          <div className="space-y-4 text-sm text-gray-700 dark:text-gray-300">
+            <div>
+              <Label className="font-bold">Back Offset</Label>
+              <p>
+                Horizontal {formatMm(currentAlignment.cardBackPositionX)} → <strong>{formatMm(result.cardBackPositionX)}</strong> mm,
+                vertical {formatMm(currentAlignment.cardBackPositionY)} → <strong>{formatMm(result.cardBackPositionY)}</strong> mm
+              </p>
+            </div>
+            <div>
+              <Label className="font-bold">Per-Card Back Offsets</Label>
+              {Object.keys(result.perCardBackOffsets).length === 0 ? (
+                <p>None needed: all cards move together.</p>
+              ) : (
+                <table className="mt-1 text-left">
+                  <thead>
+                    <tr className="text-gray-500 dark:text-gray-400">
+                      <th className="pr-4">Card</th>
+                      <th className="pr-4">X (mm)</th>
+                      <th className="pr-4">Y (mm)</th>
+                      <th>Rotation (°)</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {Object.entries(result.perCardBackOffsets).map(([index, offset]) => (
+                      <tr key={index}>
+                        <td className="pr-4">{Number(index) + 1}</td>
+                        <td className="pr-4">{formatMm(offset.x)}</td>
+                        <td className="pr-4">{formatMm(offset.y)}</td>
+                        <td>{formatMm(offset.rotation)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="printerCalibrationName" className="font-bold">Printer Name</Label>
+              <TextInput
+                id="printerCalibrationName"
+                value={printerName}
+                onChange={(e) => setPrinterName(e.target.value)}
+                placeholder="e.g. Office Laser (optional)"
+              />
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Saves this calibration so you can switch back to it later. An existing calibration with the same name is replaced.
+              </p>
+            </div>
+          </div>
+        )}
+      </ModalBody>
+      <ModalFooter className="flex justify-between">
+        <Button color="gray" onClick={step === 'print' ? handleClose : () => setStep(step === 'review' ? 'measure' : 'print')}>
+          {step === 'print' ? 'Close' : 'Back'}
+        </Button>
+        {step === 'print' && (
+          <Button color="blue" onClick={() => setStep('measure')}>
+            Enter Readings
+          </Button>
+        )}
+        {step === 'measure' && (
+          <Button color="blue" disabled={measuredCount === 0} onClick={() => setStep('review')}>
+            Review ({measuredCount}/{slotCount} cards)
+          </Button>
+        )}
+        {step === 'review' && (
+          <Button color="green" onClick={handleApply} className="gap-2">
+            <Save className="h-4 w-4" />
+            {printerName.trim() ? 'Apply & Save' : 'Apply'}
+          </Button>
+        )}
+      </ModalFooter>
+    </Modal>
+  );
+}
@@ -1,16 +1,20 @@
-import { useState, useMemo, useCallback, useEffect } from "react";
+import { useState, useMemo, useCallback, useEffect, useRef } from "react";
 import { createPortal } from "react-dom";
-import { Plus, Check, Trash2, Edit2, Share2, RefreshCw, AlertCircle } from "lucide-react";
+import { saveAs } from "file-saver";
+import { Plus, Check, Trash2, Edit2, Share2, RefreshCw, AlertCircle, Download, Upload, Link2Off, History } from "lucide-react";
 import { useProjectStore, useSettingsStore } from "@/store";
 import { SelectDropdown } from "@/components/common";
 import { Button, TextInput, Label, Modal, ModalHeader, ModalBody, ModalFooter } from "flowbite-react";
 import { useLiveQuery } from "dexie-react-hooks";
 import { db } from "@/db";
-import { createShare, getShareWarnings } from "@/helpers/shareHelper";
+import { createShare, deleteShare, getShareWarnings } from "@/helpers/shareHelper";
 import { useToastStore } from "@/store/toast";
 import { useShallow } from "zustand/react/shallow";
 import { useShareSync } from "@/hooks/useShareSync";
 import { debugLog } from "@/helpers/debug";
+import { exportProjectArchive, importProjectArchive, PROJECT_ARCHIVE_EXTENSION } from "@/helpers/projectArchive";
+import { saveWithNativeDialog } from "@/helpers/electronFiles";
+import { ShareHistoryModal } from "./ShareHistoryModal";
 
 export function ProjectSelector() {
     const projects = useProjectStore((state) => state.projects);
@@ -19,6 +23,7 @@ export function ProjectSelector() {
     const createProject = useProjectStore((state) => state.createProject);
     const deleteProject = useProjectStore((state) => state.deleteProject);
     const renameProject = useProjectStore((state) => state.renameProject);
+    const loadProjects = useProjectStore((state) => state.loadProjects);
 
     const [isDropdownOpen, setIsDropdownOpen] = useState(false);
 
@@ -33,6 +38,10 @@ export function ProjectSelector() {
     const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
     const [projectToDelete, setProjectToDelete] = useState<{ id: string; name: string } | null>(null);
 
+    const [isHistoryModalOpen, setIsHistoryModalOpen] = useState(false);
+
+    const archiveInputRef = useRef<HTMLInputElement>(null);
+
     const currentProject = projects.find((p) => p.id === currentProjectId);
 
     const handleSwitch = (id: string) => {
@@ -87,6 +96,36 @@ export function ProjectSelector() {
         }
     };
 
+    // --- Export / Import Archive ---
+    const handleExportArchive = async () => {
+        setIsDropdownOpen(false);
+        if (!currentProjectId) return;
+        try {
+            const { blob, filename } = await exportProjectArchive(currentProjectId);
+            if (!saveWithNativeDialog(blob, filename)) saveAs(blob, filename);
+        } catch (err) {
+            const message = err instanceof Error ? err.message : 'Failed to export project';
+            useToastStore.getState().showErrorToast(message);
+        }
+    };
+
+    const handleImportArchive = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = "";
+        if (!file) return;
+        try {
+            const result = await importProjectArchive(file);
+            await loadProjects();
+            await switchProject(result.projectId);
+            useToastStore.getState().showInfoToast(
+                `Imported ${result.cardCount} card${result.cardCount !== 1 ? 's' : ''} into a new project`
+            );
+        } catch (err) {
+            const message = err instanceof Error ? err.message : 'Failed to import project';
+            useToastStore.getState().showErrorToast(message);
+        }
+    };
+
     // --- Share Project ---
     const cardsQuery = useLiveQuery(async () => {
         if (!currentProjectId) return [];
@@ -97,6 +136,13 @@ export function ProjectSelector() {
     }, [currentProjectId]);
     const cards = useMemo(() => cardsQuery ?? [], [cardsQuery]);
 
+    // Live project record (picks up shareId / shareEditToken as they're written)
+    const currentProjectRecord = useLiveQuery(
+        () => currentProjectId ? db.projects.get(currentProjectId) : undefined,
+        [currentProjectId]
+    );
+    const canUnshare = !!(currentProjectRecord?.shareId && currentProjectRecord.shareEditToken);
+
     // Migration / cleanup: Enforce shared slot topology on load
     useEffect(() => {
         if (currentProjectId) {
@@ -112,6 +158,10 @@ export function ProjectSelector() {
         columns: state.columns,
         rows: state.rows,
         dpi: state.dpi,
+        cardSizePreset: state.cardSizePreset,
+        cardWidthMm: state.cardWidthMm,
+        cardHeightMm: state.cardHeightMm,
+        cardCornerRadiusMm: state.cardCornerRadiusMm,
         bleedEdge: state.bleedEdge,
         bleedEdgeWidth: state.bleedEdgeWidth,
         withBleedSourceAmount: state.withBleedSourceAmount,
@@ -150,10 +200,13 @@ export function ProjectSelector() {
         filterCategories: state.filterCategories,
         filterFeatures: state.filterFeatures,
         filterMatchType: state.filterMatchType,
+        legalityFormat: state.legalityFormat,
+        filterLegality: state.filterLegality,
         exportMode: state.exportMode,
         decklistSortAlpha: state.decklistSortAlpha,
         registrationMarks: state.registrationMarks,
         registrationMarksPortrait: state.registrationMarksPortrait,
+        cutterProfile: state.cutterProfile,
         defaultCardbackId: state.defaultCardbackId,
     })));
 
@@ -209,6 +262,23 @@ export function ProjectSelector() {
         }
     }, [settings, currentProjectId]);
 
+    const handleUnshare = useCallback(async () => {
+        if (!currentProjectId || !currentProjectRecord?.shareId || !currentProjectRecord.shareEditToken) return;
+        try {
+            await deleteShare(currentProjectRecord.shareId, currentProjectRecord.shareEditToken);
+            await db.projects.update(currentProjectId, {
+                shareId: undefined,
+                lastSharedAt: undefined,
+                lastSyncedHash: undefined,
+                shareEditToken: undefined,
+            });
+            useToastStore.getState().showInfoToast('Share link deleted');
+        } catch (err) {
+            const message = err instanceof Error ? err.message : 'Failed to delete share';
+            useToastStore.getState().showErrorToast(message);
+        }
+    }, [currentProjectId, currentProjectRecord]);
+
     // Auto-sync shared projects
     const { syncStatus } = useShareSync();
 
@@ -285,9 +355,38 @@ export function ProjectSelector() {
                             <Plus className="w-4 h-4" />
                             Create New Project...
                         </button>
+
+                        <button
+                            onClick={handleExportArchive}
+                            disabled={!currentProjectId}
+                            className="flex items-center gap-2 px-2 py-2 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-200 text-sm transition-colors disabled:opacity-50"
+                        >
+                            <Download className="w-4 h-4" />
+                            Export project ({PROJECT_ARCHIVE_EXTENSION})
+                        </button>
+
+                        <button
+                            onClick={() => {
+                                setIsDropdownOpen(false);
+                                archiveInputRef.current?.click();
+                            }}
+                            className="flex items-center gap-2 px-2 py-2 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-200 text-sm transition-colors"
+                        >
+                            <Upload className="w-4 h-4" />
+                            Import project...
+                        </button>
                     </div>
                 </SelectDropdown>
 
+                <input
+                    ref={archiveInputRef}
+                    type="file"
+                    accept={`${PROJECT_ARCHIVE_EXTENSION},.zip`}
+                    onChange={handleImportArchive}
+                    className="hidden"
+                    data-testid="project-archive-input"
+                />
+
                 {/* Share Project Button */}
                 <button
                     type="button"
@@ -333,8 +432,43 @@ export function ProjectSelector() {
                         </span>
                     )}
                 </button>
+
+                {currentProjectRecord?.shareId && (
+                    <div className="flex items-center justify-center gap-4">
+                        <button
+                            type="button"
+                            onClick={() => setIsHistoryModalOpen(true)}
+                            title="Browse and restore earlier versions of the shared deck"
+                            className="flex items-center justify-center gap-1.5 text-xs text-gray-500 hover:text-blue-500 dark:text-gray-400 transition-colors"
+                        >
+                            <History className="w-3.5 h-3.5" />
+                            History
+                        </button>
+
+                        {canUnshare && (
+                            <button
+                                type="button"
+                                onClick={handleUnshare}
+                                title="Delete the share link from the server"
+                                className="flex items-center justify-center gap-1.5 text-xs text-gray-500 hover:text-red-500 dark:text-gray-400 transition-colors"
+                            >
+                                <Link2Off className="w-3.5 h-3.5" />
+                                Stop sharing
+                            </button>
+                        )}
+                    </div>
+                )}
             </div>
 
+            {currentProjectRecord?.shareId && (
+                <ShareHistoryModal
+                    show={isHistoryModalOpen}
+                    onClose={() => setIsHistoryModalOpen(false)}
+                    shareId={currentProjectRecord.shareId}
+                    projectName={currentProjectRecord.name}
+                />
+            )}
+
             {/* Create Project Modal */}
             <Modal
                 show={isCreateModalOpen}
@@ -0,0 +1,219 @@
+import { useEffect, useMemo, useState } from "react";
+import { Button, Modal, ModalHeader, ModalBody, ModalFooter, Spinner } from "flowbite-react";
+import { History, RotateCcw } from "lucide-react";
+import {
+    diffShareData,
+    deserializeForImport,
+    listShareRevisions,
+    loadShare,
+    type ShareData,
+    type ShareDiffEntry,
+    type ShareRevision,
+} from "@/helpers/shareHelper";
+import { applyShareSettings, convertToImportIntents } from "@/hooks/useShareUrl";
+import { ImportOrchestrator } from "@/helpers/ImportOrchestrator";
+import { useProjectStore } from "@/store";
+import { useToastStore } from "@/store/toast";
+
+interface ShareHistoryModalProps {
+    show: boolean;
+    onClose: () => void;
+    shareId: string;
+    projectName: string;
+}
+
+function DiffList({ title, entries, className }: { title: string; entries: ShareDiffEntry[]; className: string }) {
+    if (entries.length === 0) return null;
+    return (
+        <div>
+            <div className={`text-xs font-semibold uppercase mb-1 ${className}`}>{title}</div>
+            <ul className="text-sm text-gray-700 dark:text-gray-300 space-y-0.5">
+                {entries.map((entry) => (
+                    <li key={entry.key}>
+                        {entry.count}x {entry.name}
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+}
+
+/**
+ * Lists the server-side revisions of a share, shows what changed in each one
+ * relative to the revision before it, and restores any revision into a new project.
+ */
+export function ShareHistoryModal({ show, onClose, shareId, projectName }: ShareHistoryModalProps) {
+    const [revisions, setRevisions] = useState<ShareRevision[]>([]);
+    const [snapshots, setSnapshots] = useState<Map<number, ShareData>>(new Map());
+    const [selectedRev, setSelectedRev] = useState<number | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [isRestoring, setIsRestoring] = useState(false);
+
+    useEffect(() => {
+        if (!show) return;
+        let cancelled = false;
+        setIsLoading(true);
+        setError(null);
+        setSnapshots(new Map());
+        listShareRevisions(shareId)
+            .then((list) => {
+                if (cancelled) return;
+                setRevisions(list);
+                setSelectedRev(list[0]?.rev ?? null);
+            })
+            .catch((err) => {
+                if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load share history');
+            })
+            .finally(() => {
+                if (!cancelled) setIsLoading(false);
+            });
+        return () => { cancelled = true; };
+    }, [show, shareId]);
+
+    // The selected revision is compared against the next older one
+    const previousRev = useMemo(() => {
+        const index = revisions.findIndex((r) => r.rev === selectedRev);
+        return index >= 0 ? revisions[index + 1]?.rev ?? null : null;
+    }, [revisions, selectedRev]);
+
+    // Fetch the snapshots needed for the current comparison
+    useEffect(() => {
+        if (selectedRev === null) return;
+        const needed = [selectedRev, previousRev].filter((rev): rev is number => rev !== null && !snapshots.has(rev));
+        if (needed.length === 0) return;
+        let cancelled = false;
+        Promise.all(needed.map(async (rev) => [rev, await loadShare(shareId, rev)] as const))
+            .then((loaded) => {
+                if (cancelled) return;
+                setSnapshots((prev) => {
+                    const next = new Map(prev);
+                    for (const [rev, data] of loaded) next.set(rev, data);
+                    return next;
+                });
+            })
+            .catch((err) => {
+                if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load revision');
+            });
+        return () => { cancelled = true; };
+    }, [shareId, selectedRev, previousRev, snapshots]);
+
+    const selected = selectedRev !== null ? snapshots.get(selectedRev) : undefined;
+    const previous = previousRev !== null ? snapshots.get(previousRev) : undefined;
+
+    const diff = useMemo(() => {
+        if (!selected) return null;
+        return diffShareData(previous ?? { v: 1, c: [] }, selected);
+    }, [selected, previous]);
+
+    const handleRestore = async () => {
+        if (!selected || selectedRev === null) return;
+        setIsRestoring(true);
+        try {
+            const { cards, dfcLinks, settings } = deserializeForImport(selected);
+            if (cards.length === 0) throw new Error('This revision contains no cards');
+
+            const { createProject, switchProject } = useProjectStore.getState();
+            const newProjectId = await createProject(`${projectName} (rev ${selectedRev})`);
+            await switchProject(newProjectId);
+            if (settings) applyShareSettings(settings);
+
+            const intents = convertToImportIntents(cards, dfcLinks);
+            await ImportOrchestrator.process(intents, {
+                onComplete: () => {
+                    useToastStore.getState().showSuccessToast(`Restored revision ${selectedRev} into a new project`);
+                },
+            });
+            onClose();
+        } catch (err) {
+            const message = err instanceof Error ? err.message : 'Failed to restore revision';
+            useToastStore.getState().showErrorToast(message);
+        } finally {
+            setIsRestoring(false);
+        }
+    };
+
+    const hasChanges = !!diff && (diff.added.length > 0 || diff.removed.length > 0 || diff.changed.length > 0);
+
+    return (
+        <Modal show={show} onClose={onClose} size="2xl">
+            <ModalHeader>
+                <span className="flex items-center gap-2">
+                    <History className="w-5 h-5" />
+                    Share History
+                </span>
+            </ModalHeader>
+            <ModalBody>
+                {isLoading ? (
+                    <div className="flex justify-center py-8">
+                        <Spinner />
+                    </div>
+                ) : error ? (
+                    <div className="text-sm text-red-500">{error}</div>
+                ) : revisions.length === 0 ? (
+                    <div className="text-sm text-gray-500 dark:text-gray-400">No revisions recorded for this share yet.</div>
+                ) : (
+                    <div className="flex gap-4 min-h-[240px]">
+                        <div className="w-48 shrink-0 flex flex-col gap-1 max-h-80 overflow-y-auto">
+                            {revisions.map((revision, index) => (
+                                <button
+                                    key={revision.rev}
+                                    type="button"
+                                    onClick={() => setSelectedRev(revision.rev)}
+                                    className={`text-left px-2 py-1.5 rounded-md text-sm transition-colors ${revision.rev === selectedRev
+                                        ? "bg-blue-50 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300"
+                                        : "hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-200"
+                                        }`}
+                                >
+                                    <div className="font-medium">
+                                        Revision {revision.rev}
+                                        {index === 0 && <span className="ml-1 text-xs text-gray-500">(latest)</span>}
+                                    </div>
+                                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                                        {new Date(revision.createdAt).toLocaleString()}
+                                    </div>
+                                </button>
+                            ))}
+                        </div>
+
+                        <div className="flex-1 flex flex-col gap-3">
+                            {!diff ? (
+                                <div className="flex justify-center py-8">
+                                    <Spinner />
+                                </div>
+                            ) : (
+                                <>
+                                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                                        {previousRev !== null
+                                            ? `Changes since revision ${previousRev}`
+                                            : 'Initial revision'}
+                                    </div>
+                                    <DiffList title="Added" entries={diff.added} className="text-green-600 dark:text-green-400" />
+                                    <DiffList title="Removed" entries={diff.removed} className="text-red-600 dark:text-red-400" />
+                                    <DiffList title="Changed" entries={diff.changed} className="text-amber-600 dark:text-amber-400" />
+                                    {diff.settingsChanged && previousRev !== null && (
+                                        <div className="text-sm text-gray-600 dark:text-gray-300">Print settings changed</div>
+                                    )}
+                                    {!hasChanges && !diff.settingsChanged && (
+                                        <div className="text-sm text-gray-500 dark:text-gray-400">No card changes</div>
+                                    )}
+                                </>
+                            )}
+                        </div>
+                    </div>
+                )}
+            </ModalBody>
+            <ModalFooter>
+                <div className="flex justify-end gap-2 w-full">
+                    <Button color="gray" onClick={onClose}>
+                        Close
+                    </Button>
+                    <Button onClick={handleRestore} disabled={!selected || isRestoring}>
+                        <RotateCcw className="w-4 h-4 mr-2" />
+                        Restore into new project
+                    </Button>
+                </div>
+            </ModalFooter>
+        </Modal>
+    );
+}
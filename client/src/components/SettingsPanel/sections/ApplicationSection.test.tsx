@@ -55,6 +55,7 @@ vi.mock('@/components/common', () => ({
     ),
     AutoTooltip: ({ children }: { children: React.ReactNode }) => <>{children}</>,
     UpdateChannelSelector: () => <div data-testid="update-channel-selector">UpdateChannelSelector</div>,
+    WatchFolderSelector: () => <div data-testid="watch-folder-selector">WatchFolderSelector</div>,
 }));
 
 vi.mock('../../LayoutSettings/ExportActions', () => ({
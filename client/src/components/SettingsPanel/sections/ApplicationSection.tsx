@@ -6,7 +6,7 @@ import { createPortal } from "react-dom";
 import { db } from "@/db";
 import { cancelAllProcessing } from "@/helpers/cancellationService";
 import { LANGUAGE_OPTIONS } from "@/constants";
-import { AutoTooltip, ArtSourceToggle, UpdateChannelSelector } from "../../common";
+import { AutoTooltip, ArtSourceToggle, UpdateChannelSelector, WatchFolderSelector } from "../../common";
 import { HelpCircle, Coffee, Save, RefreshCw } from "lucide-react";
 import { useToastStore } from "@/store/toast";
 
@@ -157,6 +157,9 @@ export function ApplicationSection() {
                 </AutoTooltip>
             </div>
 
+            {/* Watch folder - only visible in Electron */}
+            <WatchFolderSelector />
+
             <div className="pt-4 border-t border-gray-200 dark:border-gray-700 space-y-2">
                 <Label className="text-sm text-gray-500 dark:text-gray-400 uppercase font-bold">
                     Defaults & Reset
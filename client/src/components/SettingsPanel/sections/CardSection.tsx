@@ -5,8 +5,10 @@ import { useNormalizedInput, usePositionInput } from "@/hooks/useInputHooks";
 import { AutoTooltip } from "@/components/common";
 import { useMemo, useState } from "react";
 import { PerCardOffsetModal } from "@/components/PerCardOffsetModal";
-import { WrenchIcon } from "lucide-react";
+import { PrinterCalibrationModal } from "@/components/PrinterCalibrationModal";
+import { Printer, WrenchIcon } from "lucide-react";
 import { CONSTANTS } from "@/constants/commonConstants";
+import { useCardSize } from "@/hooks/useCardSize";
 
 export function CardSection() {
     const columns = useSettingsStore((state) => state.columns);
@@ -22,6 +24,7 @@ export function CardSection() {
     const useCustomBackOffset = useSettingsStore((state) => state.useCustomBackOffset);
     const cardBackPositionX = useSettingsStore((state) => state.cardBackPositionX);
     const cardBackPositionY = useSettingsStore((state) => state.cardBackPositionY);
+    const cardSize = useCardSize();
 
     const setCardSpacingMm = useSettingsStore((state) => state.setCardSpacingMm);
     const setCardPositionX = useSettingsStore((state) => state.setCardPositionX);
@@ -31,12 +34,13 @@ export function CardSection() {
     const setCardBackPositionY = useSettingsStore((state) => state.setCardBackPositionY);
 
     const [showPerCardModal, setShowPerCardModal] = useState(false);
+    const [showCalibrationModal, setShowCalibrationModal] = useState(false);
 
     const pageWmm = pageUnit === "mm" ? pageWidth : pageWidth * CONSTANTS.MM_PER_IN;
     const pageHmm = pageUnit === "mm" ? pageHeight : pageHeight * CONSTANTS.MM_PER_IN;
 
-    const cardWmm = CONSTANTS.CARD_WIDTH_MM + (bleedEdge ? 2 * bleedEdgeWidth : 0);
-    const cardHmm = CONSTANTS.CARD_HEIGHT_MM + (bleedEdge ? 2 * bleedEdgeWidth : 0);
+    const cardWmm = cardSize.widthMm + (bleedEdge ? 2 * bleedEdgeWidth : 0);
+    const cardHmm = cardSize.heightMm + (bleedEdge ? 2 * bleedEdgeWidth : 0);
 
     const maxSpacingMm = useMemo(() => {
         const xDen = Math.max(1, columns - 1);
@@ -77,6 +81,17 @@ export function CardSection() {
                     </Button>
                     <AutoTooltip content="Adjust position and rotation for each card back individually. Use this to fine-tune alignment for each position in the grid." />
                 </div>
+                <div className="flex items-center gap-2">
+                    <Button
+                        color="blue"
+                        onClick={() => setShowCalibrationModal(true)}
+                        className="flex-1 gap-2"
+                    >
+                        <Printer className="h-5 w-5" />
+                        Printer Calibration Wizard
+                    </Button>
+                    <AutoTooltip content="Print a test sheet, enter the measured misalignment and compute the back offsets automatically. Calibrations can be saved per printer." />
+                </div>
             </div>
 
             <div>
@@ -204,6 +219,11 @@ export function CardSection() {
                 isOpen={showPerCardModal}
                 onClose={() => setShowPerCardModal(false)}
             />
+
+            <PrinterCalibrationModal
+                isOpen={showCalibrationModal}
+                onClose={() => setShowCalibrationModal(false)}
+            />
         </div>
     );
 }
@@ -1,11 +1,15 @@
 import { useSettingsStore } from "@/store/settings";
 import { Label, Select, Button } from "flowbite-react";
 import { ExportActions } from "../../LayoutSettings/ExportActions";
+import { SoftProofControls } from "../../SoftProofControls";
 import { ToggleButtonGroup, AutoTooltip } from "../../common";
 import { useMemo, useEffect, useCallback } from "react";
 import type { CardOption } from "@/types";
-import { settingsToCuttingTemplate, downloadCuttingTemplate } from "@/helpers/exportCuttingTemplate";
+import { settingsToCuttingTemplate, downloadCuttingTemplate, downloadCutFiles } from "@/helpers/exportCuttingTemplate";
+import { getCutterProfile } from "@/helpers/cutterProfiles";
+import { useToastStore } from "@/store/toast";
 import { CONSTANTS } from "@/constants/commonConstants";
+import { useCardSize } from "@/hooks/useCardSize";
 
 const DECKLIST_ORDER_OPTIONS = [
     { id: 'displayed' as const, label: 'As Displayed' },
@@ -34,7 +38,11 @@ export function ExportSection({ cards }: Props) {
     const cardSpacingMm = useSettingsStore((state) => state.cardSpacingMm);
     const cardPositionX = useSettingsStore((state) => state.cardPositionX);
     const cardPositionY = useSettingsStore((state) => state.cardPositionY);
+    const cardSize = useCardSize();
     const registrationMarksPortrait = useSettingsStore((state) => state.registrationMarksPortrait);
+    const registrationMarks = useSettingsStore((state) => state.registrationMarks);
+    const cutterProfile = useSettingsStore((state) => state.cutterProfile);
+    const profile = getCutterProfile(cutterProfile);
 
     const handleExportCuttingTemplate = useCallback(() => {
         const settings = settingsToCuttingTemplate(
@@ -49,13 +57,45 @@ export function ExportSection({ cards }: Props) {
             cardSpacingMm,
             cardPositionX,
             cardPositionY,
-            registrationMarksPortrait
+            registrationMarksPortrait,
+            cardSize
         );
         downloadCuttingTemplate(settings);
     }, [
         pageWidth, pageHeight, pageUnit, columns, rows,
         bleedEdge, bleedEdgeWidth, bleedEdgeUnit,
-        cardSpacingMm, cardPositionX, cardPositionY, registrationMarksPortrait
+        cardSpacingMm, cardPositionX, cardPositionY, registrationMarksPortrait, cardSize
+    ]);
+
+    const handleExportCutFiles = useCallback(async () => {
+        const settings = settingsToCuttingTemplate(
+            pageWidth,
+            pageHeight,
+            pageUnit,
+            columns,
+            rows,
+            bleedEdge,
+            bleedEdgeWidth,
+            bleedEdgeUnit,
+            cardSpacingMm,
+            cardPositionX,
+            cardPositionY,
+            registrationMarksPortrait,
+            cardSize
+        );
+        // One cut file per printed page of front cards
+        const frontCount = cards.filter((c) => !c.linkedFrontId).length;
+        try {
+            await downloadCutFiles({ ...settings, cutterProfile, registrationMarks }, frontCount);
+        } catch (err) {
+            console.error(err);
+            useToastStore.getState().showErrorToast("Failed to export cut files.");
+        }
+    }, [
+        cards, pageWidth, pageHeight, pageUnit, columns, rows,
+        bleedEdge, bleedEdgeWidth, bleedEdgeUnit,
+        cardSpacingMm, cardPositionX, cardPositionY, registrationMarksPortrait, cardSize,
+        cutterProfile, registrationMarks
     ]);
 
     const maxSafeDpiForPage = useMemo(() => {
@@ -125,6 +165,13 @@ export function ExportSection({ cards }: Props) {
                 </Select>
             </div>
 
+            <div>
+                <div className="mb-2 block">
+                    <Label>Printer Color Profile</Label>
+                </div>
+                <SoftProofControls />
+            </div>
+
             <div>
                 <div className="mb-2 block">
                     <Label>Copy Decklist Order</Label>
@@ -149,6 +196,20 @@ export function ExportSection({ cards }: Props) {
                 </Button>
                 <AutoTooltip content="Export an SVG cutting template based on your current layout settings. Import this into Silhouette Studio for print & cut alignment. See setup requirements in the Guides section when registration marks are enabled." />
             </div>
+
+            <div className="flex items-center gap-2">
+                <Button
+                    color="gray"
+                    onClick={handleExportCutFiles}
+                    className="flex-1"
+                >
+                    <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                    </svg>
+                    {profile.label} Cut Files (SVG)
+                </Button>
+                <AutoTooltip content={`Export one SVG cut file per printed page for ${profile.software}, with cut lines and registration marks matching the PDF. Select the cutter in the Guides section.`} />
+            </div>
         </div>
     );
 }
\ No newline at end of file
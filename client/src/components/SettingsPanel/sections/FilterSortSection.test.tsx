@@ -11,6 +11,8 @@ const mockState = vi.hoisted(() => ({
     filterTypes: [] as string[],
     filterCategories: [] as string[],
     filterMatchType: 'partial' as 'partial' | 'exact',
+    legalityFormat: 'commander',
+    filterLegality: 'all' as 'all' | 'legal' | 'not_legal',
     filterSectionCollapsed: {} as Record<string, boolean>,
 }));
 
@@ -22,6 +24,8 @@ const mockSetters = vi.hoisted(() => ({
     setFilterTypes: vi.fn(),
     setFilterCategories: vi.fn(),
     setFilterMatchType: vi.fn(),
+    setLegalityFormat: vi.fn(),
+    setFilterLegality: vi.fn(),
     setFilterSectionCollapsed: vi.fn(),
 }));
 
@@ -49,8 +53,8 @@ vi.mock('@/store/userPreferences', () => ({
 
 vi.mock('flowbite-react', () => ({
     Label: ({ children }: { children: React.ReactNode }) => <label>{children}</label>,
-    Select: ({ value, onChange, children, className }: { value: string; onChange: (e: { target: { value: string } }) => void; children: React.ReactNode; className?: string }) => (
-        <select data-testid="sort-select" value={value} onChange={onChange} className={className}>{children}</select>
+    Select: ({ value, onChange, children, className, 'aria-label': ariaLabel }: { value: string; onChange: (e: { target: { value: string } }) => void; children: React.ReactNode; className?: string; 'aria-label'?: string }) => (
+        <select data-testid={ariaLabel ? `${ariaLabel.toLowerCase()}-select` : 'sort-select'} value={value} onChange={onChange} className={className}>{children}</select>
     ),
     Button: ({ children, onClick, color, size, className, title }: { children: React.ReactNode; onClick?: () => void; color?: string; size?: string; className?: string; title?: string }) => (
         <button onClick={onClick} data-color={color} data-size={size} className={className} title={title}>{children}</button>
@@ -108,6 +112,8 @@ describe('FilterSortSection', () => {
         mockState.filterTypes = [];
         mockState.filterCategories = [];
         mockState.filterMatchType = 'partial';
+        mockState.legalityFormat = 'commander';
+        mockState.filterLegality = 'all';
         mockState.filterSectionCollapsed = {};
     });
 
@@ -288,13 +294,13 @@ describe('FilterSortSection', () => {
     describe('category filter', () => {
         it('should render available categories', () => {
             render(<FilterSortSection />);
-            expect(screen.getByText('Commander')).toBeDefined();
+            expect(screen.getByRole('button', { name: 'Commander' })).toBeDefined();
             expect(screen.getByText('Mainboard')).toBeDefined();
         });
 
         it('should call setFilterCategories when category clicked', () => {
             render(<FilterSortSection />);
-            fireEvent.click(screen.getByText('Commander'));
+            fireEvent.click(screen.getByRole('button', { name: 'Commander' }));
             expect(mockSetters.setFilterCategories).toHaveBeenCalledWith(['Commander']);
         });
     });
@@ -350,6 +356,7 @@ describe('FilterSortSection', () => {
             expect(mockSetters.setFilterColors).toHaveBeenCalledWith([]);
             expect(mockSetters.setFilterTypes).toHaveBeenCalledWith([]);
             expect(mockSetters.setFilterCategories).toHaveBeenCalledWith([]);
+            expect(mockSetters.setFilterLegality).toHaveBeenCalledWith('all');
         });
 
         it('should clear mana value filter when section clear clicked', () => {
@@ -392,6 +399,43 @@ describe('FilterSortSection', () => {
         });
     });
 
+    describe('legality and prices', () => {
+        it('should summarize prices and legality for the project', async () => {
+            const { useLiveQuery } = await import('dexie-react-hooks');
+            vi.mocked(useLiveQuery).mockReturnValueOnce([
+                { uuid: '1', name: 'Sol Ring', prices: { usd: 1.5, eur: 1 }, legalities: { commander: 'legal' } },
+                { uuid: '2', name: 'Mana Crypt', prices: { usd: 150, eur: 120 }, legalities: { commander: 'banned' } },
+                { uuid: '3', name: 'Proxy Token', isToken: true, prices: { usd: 99 } },
+                { uuid: '4', name: 'Custom Art' },
+            ]);
+            render(<FilterSortSection />);
+
+            const summary = screen.getByTestId('project-summary');
+            expect(summary.textContent).toContain('$151.50');
+            expect(summary.textContent).toContain('1 card has no price');
+            expect(summary.textContent).toContain('Not legal in Commander');
+
+            // Clicking the not-legal count filters to those cards
+            fireEvent.click(screen.getByTitle('Show only these cards'));
+            expect(mockSetters.setFilterLegality).toHaveBeenCalledWith('not_legal');
+        });
+
+        it('should change the legality format and filter', () => {
+            render(<FilterSortSection />);
+            fireEvent.change(screen.getByTestId('format-select'), { target: { value: 'modern' } });
+            expect(mockSetters.setLegalityFormat).toHaveBeenCalledWith('modern');
+
+            fireEvent.click(screen.getByText('Not legal'));
+            expect(mockSetters.setFilterLegality).toHaveBeenCalledWith('not_legal');
+        });
+
+        it('should offer price sorting', () => {
+            render(<FilterSortSection />);
+            fireEvent.change(screen.getByTestId('sort-select'), { target: { value: 'price_usd' } });
+            expect(mockSetters.setSortBy).toHaveBeenCalledWith('price_usd');
+        });
+    });
+
     describe('collapsible sections', () => {
         it('should toggle section collapsed state', () => {
             render(<FilterSortSection />);
@@ -8,7 +8,22 @@ import { useLiveQuery } from "dexie-react-hooks";
 import { db } from "@/db";
 import { useMemo, useCallback } from "react";
 import type { CardOption } from "@/types";
-import { extractAvailableFilters } from "@/helpers/sortAndFilterUtils";
+import {
+    extractAvailableFilters,
+    summarizeProject,
+    LEGALITY_FORMATS,
+    type LegalityFilter,
+    type SortBy,
+} from "@/helpers/sortAndFilterUtils";
+
+const formatCurrency = (amount: number, currency: "USD" | "EUR") =>
+    amount.toLocaleString(undefined, { style: "currency", currency });
+
+const LEGALITY_OPTIONS: { id: LegalityFilter; label: string }[] = [
+    { id: "all", label: "All" },
+    { id: "legal", label: "Legal" },
+    { id: "not_legal", label: "Not legal" },
+];
 
 // Collapsible section component with persisted state
 interface FilterSectionProps {
@@ -99,6 +114,10 @@ export function FilterSortSection({ cards }: { cards?: CardOption[] }) {
     const setFilterCategories = useSettingsStore((state) => state.setFilterCategories);
     const filterMatchType = useSettingsStore((state) => state.filterMatchType);
     const setFilterMatchType = useSettingsStore((state) => state.setFilterMatchType);
+    const legalityFormat = useSettingsStore((state) => state.legalityFormat);
+    const setLegalityFormat = useSettingsStore((state) => state.setLegalityFormat);
+    const filterLegality = useSettingsStore((state) => state.filterLegality);
+    const setFilterLegality = useSettingsStore((state) => state.setFilterLegality);
     // Get access to project ID for filtering
     const currentProjectId = useProjectStore((state) => state.currentProjectId);
 
@@ -120,6 +139,9 @@ export function FilterSortSection({ cards }: { cards?: CardOption[] }) {
         return extractAvailableFilters(cardsFromDb);
     }, [cardsFromDb]);
 
+    const summary = useMemo(() => summarizeProject(cardsFromDb, legalityFormat), [cardsFromDb, legalityFormat]);
+    const formatLabel = LEGALITY_FORMATS.find((f) => f.id === legalityFormat)?.label ?? legalityFormat;
+
     const toggleManaCost = (cost: number) => {
         if (filterManaCost.includes(cost)) {
             setFilterManaCost(filterManaCost.filter((c) => c !== cost));
@@ -157,9 +179,11 @@ export function FilterSortSection({ cards }: { cards?: CardOption[] }) {
         setFilterColors([]);
         setFilterTypes([]);
         setFilterCategories([]);
+        setFilterLegality("all");
     };
 
-    const hasActiveFilters = filterManaCost.length > 0 || filterColors.length > 0 || filterTypes.length > 0 || filterCategories.length > 0;
+    const hasActiveFilters = filterManaCost.length > 0 || filterColors.length > 0 || filterTypes.length > 0 || filterCategories.length > 0 ||
+        filterLegality !== "all";
 
     const manaCosts = [0, 1, 2, 3, 4, 5, 6, 7];
     const colors: { id: "W" | "U" | "B" | "R" | "G" | "C" | "M"; label: string }[] = [
@@ -174,6 +198,43 @@ export function FilterSortSection({ cards }: { cards?: CardOption[] }) {
 
     return (
         <div className="space-y-3">
+            {/* Project Summary */}
+            {cardsFromDb.length > 0 && (
+                <div className="rounded-lg bg-gray-100 dark:bg-gray-700 p-2 text-xs space-y-1" data-testid="project-summary">
+                    <div className="flex justify-between">
+                        <span className="text-gray-600 dark:text-gray-400">Total</span>
+                        <span className="font-medium text-gray-900 dark:text-white">
+                            {formatCurrency(summary.totalUsd, "USD")} · {formatCurrency(summary.totalEur, "EUR")}
+                        </span>
+                    </div>
+                    {summary.unpriced > 0 && (
+                        <div className="text-gray-500 dark:text-gray-400">
+                            {summary.unpriced} {summary.unpriced === 1 ? "card has" : "cards have"} no price
+                        </div>
+                    )}
+                    <div className="flex justify-between">
+                        <span className="text-gray-600 dark:text-gray-400">Not legal in {formatLabel}</span>
+                        <button
+                            type="button"
+                            onClick={() => setFilterLegality(filterLegality === "not_legal" ? "all" : "not_legal")}
+                            disabled={summary.notLegal === 0}
+                            title={summary.notLegal > 0 ? "Show only these cards" : undefined}
+                            className={`font-medium ${summary.notLegal > 0
+                                ? "text-red-600 dark:text-red-400 hover:underline cursor-pointer"
+                                : "text-gray-900 dark:text-white"
+                                }`}
+                        >
+                            {summary.notLegal} {summary.notLegal === 1 ? "card" : "cards"}
+                        </button>
+                    </div>
+                    {summary.unknownLegality > 0 && (
+                        <div className="text-gray-500 dark:text-gray-400">
+                            {summary.unknownLegality} {summary.unknownLegality === 1 ? "card has" : "cards have"} unknown legality
+                        </div>
+                    )}
+                </div>
+            )}
+
             {/* Sort Controls */}
             <div className="space-y-2">
                 <Label>Sort By</Label>
@@ -181,7 +242,7 @@ export function FilterSortSection({ cards }: { cards?: CardOption[] }) {
                     <Select
                         className="flex-1"
                         value={sortBy}
-                        onChange={(e) => setSortBy(e.target.value as "manual" | "name" | "type" | "cmc" | "color")}
+                        onChange={(e) => setSortBy(e.target.value as SortBy)}
                     >
                         <option value="manual">Manual</option>
                         <option value="name">Name</option>
@@ -189,6 +250,8 @@ export function FilterSortSection({ cards }: { cards?: CardOption[] }) {
                         <option value="cmc">Mana Value</option>
                         <option value="color">Color</option>
                         <option value="rarity">Rarity</option>
+                        <option value="price_usd">Price (USD)</option>
+                        <option value="price_eur">Price (EUR)</option>
                     </Select>
                     <Button
                         color="gray"
@@ -289,6 +352,41 @@ rounded-full cursor-pointer select-none transition-all
                 </div>
             </FilterSection>
 
+            {/* Format Legality Filter */}
+            <FilterSection
+                id="legality"
+                title="Legality"
+                activeCount={filterLegality !== "all" ? 1 : 0}
+                onClear={() => setFilterLegality("all")}
+            >
+                <div className="space-y-2">
+                    <Select
+                        sizing="sm"
+                        value={legalityFormat}
+                        onChange={(e) => setLegalityFormat(e.target.value)}
+                        aria-label="Format"
+                    >
+                        {LEGALITY_FORMATS.map((format) => (
+                            <option key={format.id} value={format.id}>{format.label}</option>
+                        ))}
+                    </Select>
+                    <div className="flex bg-gray-200 dark:bg-gray-700 rounded-lg p-1">
+                        {LEGALITY_OPTIONS.map((option) => (
+                            <button
+                                key={option.id}
+                                onClick={() => setFilterLegality(option.id)}
+                                className={`flex-1 px-3 py-1 text-xs rounded-md transition-colors ${filterLegality === option.id
+                                    ? "bg-white dark:bg-gray-600 shadow text-gray-900 dark:text-white"
+                                    : "text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+                                    } `}
+                            >
+                                {option.label}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            </FilterSection>
+
             {/* Match Type Toggle */}
             <div className="flex items-center justify-between">
                 <Label>Match Type</Label>
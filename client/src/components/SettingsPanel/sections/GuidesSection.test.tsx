@@ -12,7 +12,18 @@ const mockState = vi.hoisted(() => ({
     cutGuideLengthMm: 6.25,
     bleedEdge: true,
     bleedEdgeWidth: 3,
+    bleedEdgeUnit: 'mm' as 'mm' | 'in',
     cardSpacingMm: 0,
+    registrationMarks: 'none' as 'none' | '3' | '4',
+    registrationMarksPortrait: false,
+    cutterProfile: 'silhouette' as 'silhouette' | 'cricut' | 'scanncut',
+    pageWidth: 297,
+    pageHeight: 210,
+    pageSizeUnit: 'mm' as 'mm' | 'in',
+    columns: 3,
+    rows: 2,
+    cardPositionX: 0,
+    cardPositionY: 0,
 }));
 
 const mockSetters = vi.hoisted(() => ({
@@ -22,6 +33,9 @@ const mockSetters = vi.hoisted(() => ({
     setPerCardGuideStyle: vi.fn(),
     setGuidePlacement: vi.fn(),
     setCutGuideLengthMm: vi.fn(),
+    setRegistrationMarks: vi.fn(),
+    setRegistrationMarksPortrait: vi.fn(),
+    setCutterProfile: vi.fn(),
 }));
 
 const mockSetState = vi.hoisted(() => vi.fn());
@@ -91,6 +105,10 @@ describe('GuidesSection', () => {
         mockState.perCardGuideStyle = 'corners';
         mockState.guidePlacement = 'outside';
         mockState.guideWidth = 1;
+        mockState.registrationMarks = 'none';
+        mockState.cutterProfile = 'silhouette';
+        mockState.columns = 3;
+        mockState.rows = 2;
     });
 
     describe('rendering', () => {
@@ -277,4 +295,41 @@ describe('GuidesSection', () => {
             expect(mockSetters.setPerCardGuideStyle).toHaveBeenCalledWith('dashed-rounded-rect');
         });
     });
+
+    describe('registration marks', () => {
+        it('should call setCutterProfile when a cutter is selected', () => {
+            render(<GuidesSection />);
+            fireEvent.change(screen.getByTestId('cutterProfile'), { target: { value: 'cricut' } });
+            expect(mockSetters.setCutterProfile).toHaveBeenCalledWith('cricut');
+        });
+
+        it('should offer 3-point marks only for Silhouette', () => {
+            const { unmount } = render(<GuidesSection />);
+            expect(screen.getByText('3-Point')).toBeDefined();
+            unmount();
+
+            mockState.cutterProfile = 'cricut';
+            render(<GuidesSection />);
+            expect(screen.queryByText('3-Point')).toBeNull();
+            fireEvent.click(screen.getByText('Frame'));
+            expect(mockSetters.setRegistrationMarks).toHaveBeenCalledWith('4');
+        });
+
+        it('should warn when cards fall outside the cutter print area', () => {
+            mockState.registrationMarks = '4';
+            mockState.cutterProfile = 'cricut';
+            mockState.columns = 4;
+            render(<GuidesSection />);
+            expect(screen.getByText(/fall outside the Cricut print area/)).toBeDefined();
+        });
+
+        it('should not warn when the layout fits', () => {
+            mockState.registrationMarks = '4';
+            mockState.cutterProfile = 'silhouette';
+            mockState.columns = 3;
+            mockState.rows = 1;
+            render(<GuidesSection />);
+            expect(screen.queryByText(/fall outside/)).toBeNull();
+        });
+    });
 });
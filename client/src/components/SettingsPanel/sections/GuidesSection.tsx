@@ -2,11 +2,14 @@ import { useSettingsStore } from "@/store/settings";
 import { Label, Select, Button } from "flowbite-react";
 import { NumberInput } from "@/components/common";
 import { useNormalizedInput } from "@/hooks/useInputHooks";
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { AutoTooltip } from "@/components/common";
 import { ColorPicker } from "../../common/ColorPicker";
 import { StyledSlider } from "../../common/StyledSlider";
 import { CONSTANTS } from "@/constants/commonConstants";
+import { CUTTER_PROFILE_IDS, CUTTER_PROFILES, getCutterProfile, type CutterProfileId } from "@/helpers/cutterProfiles";
+import { countCardsOutsidePrintArea, settingsToCuttingTemplate } from "@/helpers/exportCuttingTemplate";
+import { useCardSize } from "@/hooks/useCardSize";
 
 export function GuidesSection() {
     const guideColor = useSettingsStore((state) => state.guideColor);
@@ -25,6 +28,20 @@ export function GuidesSection() {
     const setRegistrationMarks = useSettingsStore((state) => state.setRegistrationMarks);
     const registrationMarksPortrait = useSettingsStore((state) => state.registrationMarksPortrait);
     const setRegistrationMarksPortrait = useSettingsStore((state) => state.setRegistrationMarksPortrait);
+    const cutterProfile = useSettingsStore((state) => state.cutterProfile);
+    const setCutterProfile = useSettingsStore((state) => state.setCutterProfile);
+    const profile = getCutterProfile(cutterProfile);
+
+    // Layout settings for the print area check
+    const pageWidth = useSettingsStore((state) => state.pageWidth);
+    const pageHeight = useSettingsStore((state) => state.pageHeight);
+    const pageSizeUnit = useSettingsStore((state) => state.pageSizeUnit);
+    const columns = useSettingsStore((state) => state.columns);
+    const rows = useSettingsStore((state) => state.rows);
+    const bleedEdgeUnit = useSettingsStore((state) => state.bleedEdgeUnit);
+    const cardPositionX = useSettingsStore((state) => state.cardPositionX);
+    const cardPositionY = useSettingsStore((state) => state.cardPositionY);
+    const cardSize = useCardSize();
 
     const bleedEdge = useSettingsStore((state) => state.bleedEdge);
     const bleedEdgeWidth = useSettingsStore((state) => state.bleedEdgeWidth);
@@ -62,6 +79,25 @@ export function GuidesSection() {
 
     // Check if using corner styles (not full rect)
     const isCornerStyle = perCardGuideStyle.includes('corner');
+
+    const fourPointSelected = profile.supportsMarkCount ? registrationMarks === '4' : registrationMarks !== 'none';
+
+    // Cards whose cut lines the selected cutter can't reach
+    const cardsOutsidePrintArea = useMemo(() => {
+        if (registrationMarks === 'none') return 0;
+        return countCardsOutsidePrintArea({
+            ...settingsToCuttingTemplate(
+                pageWidth, pageHeight, pageSizeUnit, columns, rows,
+                bleedEdge, bleedEdgeWidth, bleedEdgeUnit, cardSpacingMm,
+                cardPositionX, cardPositionY, registrationMarksPortrait, cardSize
+            ),
+            cutterProfile,
+        });
+    }, [
+        registrationMarks, pageWidth, pageHeight, pageSizeUnit, columns, rows,
+        bleedEdge, bleedEdgeWidth, bleedEdgeUnit, cardSpacingMm,
+        cardPositionX, cardPositionY, registrationMarksPortrait, cutterProfile, cardSize,
+    ]);
     return (
         <div className="space-y-4">
             <ColorPicker
@@ -412,13 +448,31 @@ export function GuidesSection() {
                 </Select>
             </div>
 
-            {/* Silhouette Registration Marks */}
+            {/* Print & Cut Registration Marks */}
+            <div>
+                <div className="mb-2 flex items-center gap-2">
+                    <Label htmlFor="cutterProfile">Print &amp; Cut Cutter</Label>
+                    <AutoTooltip content="Selects the cutting machine the registration marks and cut files are made for. Each cutter reads a different mark layout and can only cut inside a limited area." />
+                </div>
+                <Select
+                    id="cutterProfile"
+                    value={cutterProfile}
+                    onChange={(e) => setCutterProfile(e.target.value as CutterProfileId)}
+                >
+                    {CUTTER_PROFILE_IDS.map((id) => (
+                        <option key={id} value={id}>{CUTTER_PROFILES[id].label}</option>
+                    ))}
+                </Select>
+            </div>
+
             <div>
                 <div className="mb-2 flex items-center gap-2">
-                    <Label htmlFor="registrationMarks">Silhouette Registration Marks</Label>
-                    <AutoTooltip content="Adds registration marks for Silhouette Cameo print & cut. 3-point uses marks in 3 corners, 4-point adds a mark in the bottom-right for better accuracy on distorted prints." />
+                    <Label htmlFor="registrationMarks">Registration Marks</Label>
+                    <AutoTooltip content={profile.supportsMarkCount
+                        ? "Adds registration marks for Silhouette Cameo print & cut. 3-point uses marks in 3 corners, 4-point adds a mark in the bottom-right for better accuracy on distorted prints."
+                        : `Adds the registration marks ${profile.software} expects for ${profile.label} print & cut.`} />
                 </div>
-                <div className="grid grid-cols-3 gap-2">
+                <div className={`grid ${profile.supportsMarkCount ? 'grid-cols-3' : 'grid-cols-2'} gap-2`}>
                     {/* None option */}
                     <button
                         onClick={() => setRegistrationMarks('none')}
@@ -439,56 +493,69 @@ export function GuidesSection() {
                         </span>
                     </button>
 
-                    {/* 3-point option */}
+                    {/* 3-point option (Silhouette only) */}
+                    {profile.supportsMarkCount && (
+                        <button
+                            onClick={() => setRegistrationMarks('3')}
+                            className={`p-2 rounded-lg border transition-colors flex flex-col items-center gap-1 ${registrationMarks === '3'
+                                ? 'bg-blue-50 dark:bg-blue-900/30 border-blue-300 dark:border-blue-600'
+                                : 'bg-gray-50 dark:bg-gray-800 border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700'
+                                }`}
+                        >
+                            <div className="h-[42px] flex items-center justify-center">
+                                {registrationMarksPortrait ? (
+                                    /* Portrait: tall page, dot top-left, L's at top-right and bottom-left */
+                                    <svg width="32" height="42" viewBox="0 0 40 52" className="flex-shrink-0">
+                                        <rect x="4" y="4" width="32" height="44" fill="white" stroke="#ccc" strokeWidth="1" />
+                                        <rect x="6" y="6" width="4" height="4" fill="black" />
+                                        <path d="M34,6 L34,10 M34,6 L30,6" stroke="black" strokeWidth="1.5" fill="none" />
+                                        <path d="M6,46 L6,42 M6,46 L10,46" stroke="black" strokeWidth="1.5" fill="none" />
+                                        <rect x="10" y="12" width="8" height="11" fill="#e5e7eb" rx="0.5" />
+                                        <rect x="22" y="12" width="8" height="11" fill="#e5e7eb" rx="0.5" />
+                                        <rect x="10" y="26" width="8" height="11" fill="#e5e7eb" rx="0.5" />
+                                        <rect x="22" y="26" width="8" height="11" fill="#e5e7eb" rx="0.5" />
+                                    </svg>
+                                ) : (
+                                    /* Landscape: wide page, dot top-left, L's at top-right and bottom-left */
+                                    <svg width="42" height="32" viewBox="0 0 52 40" className="flex-shrink-0">
+                                        <rect x="4" y="4" width="44" height="32" fill="white" stroke="#ccc" strokeWidth="1" />
+                                        <rect x="6" y="6" width="4" height="4" fill="black" />
+                                        <path d="M46,6 L46,10 M46,6 L42,6" stroke="black" strokeWidth="1.5" fill="none" />
+                                        <path d="M6,34 L6,30 M6,34 L10,34" stroke="black" strokeWidth="1.5" fill="none" />
+                                        <rect x="12" y="10" width="11" height="8" fill="#e5e7eb" rx="0.5" />
+                                        <rect x="12" y="22" width="11" height="8" fill="#e5e7eb" rx="0.5" />
+                                        <rect x="26" y="10" width="11" height="8" fill="#e5e7eb" rx="0.5" />
+                                        <rect x="26" y="22" width="11" height="8" fill="#e5e7eb" rx="0.5" />
+                                    </svg>
+                                )}
+                            </div>
+                            <span className={`text-xs font-medium ${registrationMarks === '3' ? 'text-blue-700 dark:text-blue-300' : 'text-gray-600 dark:text-gray-400'}`}>
+                                3-Point
+                            </span>
+                        </button>
+                    )}
+
+                    {/* 4-point option (the only enabled layout for fixed-layout cutters) */}
                     <button
-                        onClick={() => setRegistrationMarks('3')}
-                        className={`p-2 rounded-lg border transition-colors flex flex-col items-center gap-1 ${registrationMarks === '3'
+                        onClick={() => setRegistrationMarks('4')}
+                        className={`p-2 rounded-lg border transition-colors flex flex-col items-center gap-1 ${fourPointSelected
                             ? 'bg-blue-50 dark:bg-blue-900/30 border-blue-300 dark:border-blue-600'
                             : 'bg-gray-50 dark:bg-gray-800 border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700'
                             }`}
                     >
                         <div className="h-[42px] flex items-center justify-center">
-                            {registrationMarksPortrait ? (
-                                /* Portrait: tall page, dot top-left, L's at top-right and bottom-left */
-                                <svg width="32" height="42" viewBox="0 0 40 52" className="flex-shrink-0">
-                                    <rect x="4" y="4" width="32" height="44" fill="white" stroke="#ccc" strokeWidth="1" />
-                                    <rect x="6" y="6" width="4" height="4" fill="black" />
-                                    <path d="M34,6 L34,10 M34,6 L30,6" stroke="black" strokeWidth="1.5" fill="none" />
-                                    <path d="M6,46 L6,42 M6,46 L10,46" stroke="black" strokeWidth="1.5" fill="none" />
-                                    <rect x="10" y="12" width="8" height="11" fill="#e5e7eb" rx="0.5" />
-                                    <rect x="22" y="12" width="8" height="11" fill="#e5e7eb" rx="0.5" />
-                                    <rect x="10" y="26" width="8" height="11" fill="#e5e7eb" rx="0.5" />
-                                    <rect x="22" y="26" width="8" height="11" fill="#e5e7eb" rx="0.5" />
-                                </svg>
-                            ) : (
-                                /* Landscape: wide page, dot top-left, L's at top-right and bottom-left */
+                            {profile.layout === 'frame' ? (
+                                /* Frame: outline around the print area, origin square in one corner */
                                 <svg width="42" height="32" viewBox="0 0 52 40" className="flex-shrink-0">
                                     <rect x="4" y="4" width="44" height="32" fill="white" stroke="#ccc" strokeWidth="1" />
-                                    <rect x="6" y="6" width="4" height="4" fill="black" />
-                                    <path d="M46,6 L46,10 M46,6 L42,6" stroke="black" strokeWidth="1.5" fill="none" />
-                                    <path d="M6,34 L6,30 M6,34 L10,34" stroke="black" strokeWidth="1.5" fill="none" />
-                                    <rect x="12" y="10" width="11" height="8" fill="#e5e7eb" rx="0.5" />
-                                    <rect x="12" y="22" width="11" height="8" fill="#e5e7eb" rx="0.5" />
-                                    <rect x="26" y="10" width="11" height="8" fill="#e5e7eb" rx="0.5" />
-                                    <rect x="26" y="22" width="11" height="8" fill="#e5e7eb" rx="0.5" />
+                                    <rect x="8" y="8" width="36" height="24" fill="none" stroke="black" strokeWidth="1.5" />
+                                    {registrationMarksPortrait
+                                        ? <rect x="8" y="28" width="4" height="4" fill="black" />
+                                        : <rect x="8" y="8" width="4" height="4" fill="black" />}
+                                    <rect x="12" y="12" width="11" height="8" fill="#e5e7eb" rx="0.5" />
+                                    <rect x="26" y="12" width="11" height="8" fill="#e5e7eb" rx="0.5" />
                                 </svg>
-                            )}
-                        </div>
-                        <span className={`text-xs font-medium ${registrationMarks === '3' ? 'text-blue-700 dark:text-blue-300' : 'text-gray-600 dark:text-gray-400'}`}>
-                            3-Point
-                        </span>
-                    </button>
-
-                    {/* 4-point option */}
-                    <button
-                        onClick={() => setRegistrationMarks('4')}
-                        className={`p-2 rounded-lg border transition-colors flex flex-col items-center gap-1 ${registrationMarks === '4'
-                            ? 'bg-blue-50 dark:bg-blue-900/30 border-blue-300 dark:border-blue-600'
-                            : 'bg-gray-50 dark:bg-gray-800 border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700'
-                            }`}
-                    >
-                        <div className="h-[42px] flex items-center justify-center">
-                            {registrationMarksPortrait ? (
+                            ) : registrationMarksPortrait ? (
                                 /* Portrait: tall page, all 4 corners are L-shapes */
                                 <svg width="32" height="42" viewBox="0 0 40 52" className="flex-shrink-0">
                                     <rect x="4" y="4" width="32" height="44" fill="white" stroke="#ccc" strokeWidth="1" />
@@ -516,8 +583,8 @@ export function GuidesSection() {
                                 </svg>
                             )}
                         </div>
-                        <span className={`text-xs font-medium ${registrationMarks === '4' ? 'text-blue-700 dark:text-blue-300' : 'text-gray-600 dark:text-gray-400'}`}>
-                            4-Point
+                        <span className={`text-xs font-medium ${fourPointSelected ? 'text-blue-700 dark:text-blue-300' : 'text-gray-600 dark:text-gray-400'}`}>
+                            {profile.supportsMarkCount ? '4-Point' : profile.layout === 'frame' ? 'Frame' : '4-Corner'}
                         </span>
                     </button>
                 </div>
@@ -553,17 +620,33 @@ export function GuidesSection() {
                             <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7-4a1 1 0 11-2 0 1 1 0 012 0zM9 9a1 1 0 000 2v3a1 1 0 001 1h1a1 1 0 100-2v-3a1 1 0 00-1-1H9z" clipRule="evenodd" />
                         </svg>
                         <div className="text-sm text-blue-900 dark:text-blue-100">
-                            <p className="font-semibold mb-1.5">Silhouette Studio Settings:</p>
-                            <ul className="space-y-1 text-xs leading-relaxed">
-                                <li>• Recommended bleed width: <strong>0.5mm</strong></li>
-                                <li>• Registration mark length: <strong>0.350 in.</strong> (default)</li>
-                                <li>• Registration mark thickness: <strong>0.039 in.</strong> (max)</li>
-                                <li>• Registration mark inset: <strong>0.394 in.</strong> (min)</li>
-                            </ul>
+                            <p className="font-semibold mb-1.5">{profile.software} Settings:</p>
+                            {profile.id === 'silhouette' ? (
+                                <ul className="space-y-1 text-xs leading-relaxed">
+                                    <li>• Recommended bleed width: <strong>0.5mm</strong></li>
+                                    <li>• Registration mark length: <strong>0.350 in.</strong> (default)</li>
+                                    <li>• Registration mark thickness: <strong>0.039 in.</strong> (max)</li>
+                                    <li>• Registration mark inset: <strong>0.394 in.</strong> (min)</li>
+                                </ul>
+                            ) : (
+                                <ul className="space-y-1 text-xs leading-relaxed">
+                                    {profile.maxCutAreaMm && (
+                                        <li>• Max cut area: <strong>{profile.maxCutAreaMm.long} x {profile.maxCutAreaMm.short}mm</strong></li>
+                                    )}
+                                    <li>• Cut files: <strong>SVG</strong>, one per page (Export section)</li>
+                                    <li>• Import the cut file for each page, using the <strong>{profile.layers.cut}</strong> layer</li>
+                                </ul>
+                            )}
                         </div>
                     </div>
                 </div>
             )}
+
+            {cardsOutsidePrintArea > 0 && (
+                <div className="p-3 bg-yellow-50 dark:bg-yellow-900/20 rounded-lg border border-yellow-200 dark:border-yellow-800 text-sm text-yellow-900 dark:text-yellow-100">
+                    {cardsOutsidePrintArea} card{cardsOutsidePrintArea === 1 ? '' : 's'} per page fall outside the {profile.label} print area. Reduce columns/rows or card spacing so every card can be cut.
+                </div>
+            )}
         </div>
     );
 }
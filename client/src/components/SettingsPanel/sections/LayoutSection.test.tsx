@@ -35,6 +35,10 @@ vi.mock('../../LayoutSettings/PageSizeControl', () => ({
     PageSizeControl: () => <div data-testid="page-size-control">PageSizeControl</div>,
 }));
 
+vi.mock('../../LayoutSettings/CardSizeControl', () => ({
+    CardSizeControl: () => <div data-testid="card-size-control">CardSizeControl</div>,
+}));
+
 vi.mock('@/components/common', () => ({
     NumberInput: React.forwardRef(({
         id,
@@ -98,6 +102,11 @@ describe('LayoutSection', () => {
             expect(screen.getByTestId('page-size-control')).toBeDefined();
         });
 
+        it('should render CardSizeControl', () => {
+            render(<LayoutSection />);
+            expect(screen.getByTestId('card-size-control')).toBeDefined();
+        });
+
         it('should render Columns label and input', () => {
             render(<LayoutSection />);
             expect(screen.getByText('Columns')).toBeDefined();
@@ -1,6 +1,7 @@
 import { useSettingsStore } from "@/store/settings";
 import { Label } from "flowbite-react";
 import { PageSizeControl } from "../../LayoutSettings/PageSizeControl";
+import { CardSizeControl } from "../../LayoutSettings/CardSizeControl";
 import { NumberInput } from "@/components/common";
 import { useNormalizedInput } from "@/hooks/useInputHooks";
 
@@ -26,6 +27,8 @@ export function LayoutSection() {
         <div className="space-y-4">
             <PageSizeControl />
 
+            <CardSizeControl />
+
             <div className="grid grid-cols-2 gap-3">
                 <div>
                     <Label htmlFor="columns-input">Columns</Label>
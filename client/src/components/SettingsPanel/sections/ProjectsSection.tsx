@@ -1,4 +1,5 @@
 import { ProjectSelector } from "@/components/ProjectSelector";
+import { PrintProfileSelector } from "@/components/PrintProfileSelector";
 import { Label } from "flowbite-react";
 import { AutoTooltip } from "@/components/common";
 import { Info } from "lucide-react";
@@ -17,6 +18,15 @@ export function ProjectsSection() {
                     <ProjectSelector />
                 </div>
             </div>
+            <div className="flex flex-col gap-2">
+                <div className="flex items-center gap-2">
+                    <Label>Print Profile</Label>
+                    <AutoTooltip content="Named page, spacing, offset, bleed and guide settings for a printer and paper. Apply one to any project, and see where the project differs from it.">
+                        <Info className="w-4 h-4 text-gray-500 cursor-help" />
+                    </AutoTooltip>
+                </div>
+                <PrintProfileSelector />
+            </div>
         </div>
     );
 }
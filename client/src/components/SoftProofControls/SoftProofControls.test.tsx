@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, fireEvent, waitFor } from "@testing-library/react";
+import { SoftProofControls } from "./SoftProofControls";
+import { useSettingsStore } from "@/store/settings";
+import type { IccProfileRecord } from "@/db";
+
+const mocks = vi.hoisted(() => ({
+    profiles: [] as IccProfileRecord[],
+    importIccProfile: vi.fn(),
+    deleteIccProfile: vi.fn(),
+    showInfoToast: vi.fn(),
+    showErrorToast: vi.fn(),
+}));
+
+vi.mock("dexie-react-hooks", () => ({
+    useLiveQuery: () => mocks.profiles,
+}));
+
+vi.mock("@/helpers/iccProfileLibrary", () => ({
+    importIccProfile: mocks.importIccProfile,
+    deleteIccProfile: mocks.deleteIccProfile,
+    listIccProfiles: vi.fn(),
+}));
+
+vi.mock("@/store/toast", () => ({
+    useToastStore: {
+        getState: () => ({ showInfoToast: mocks.showInfoToast, showErrorToast: mocks.showErrorToast }),
+    },
+}));
+
+// Mock ResizeObserver
+global.ResizeObserver = class ResizeObserver {
+    observe() { }
+    unobserve() { }
+    disconnect() { }
+};
+
+const makeProfile = (id: string, name: string, colorSpace = "RGB"): IccProfileRecord => ({
+    id, name, colorSpace, deviceClass: "prtr", data: new ArrayBuffer(0), createdAt: 1,
+});
+
+describe("SoftProofControls", () => {
+    const initialSettings = useSettingsStore.getState();
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        useSettingsStore.setState(initialSettings, true);
+        mocks.profiles = [makeProfile("p1", "Office Inkjet"), makeProfile("p2", "Photo Lab", "CMYK")];
+    });
+
+    it("should list profiles and hide the options until one is selected", () => {
+        render(<SoftProofControls />);
+
+        expect(screen.getByRole("option", { name: "Office Inkjet (RGB)" })).toBeInTheDocument();
+        expect(screen.getByRole("option", { name: "Photo Lab (CMYK)" })).toBeInTheDocument();
+        expect(screen.queryByLabelText("Soft Proof Page View")).not.toBeInTheDocument();
+
+        fireEvent.change(screen.getByRole("combobox"), { target: { value: "p2" } });
+        expect(useSettingsStore.getState().softProofProfileId).toBe("p2");
+        expect(screen.getByLabelText("Soft Proof Page View")).toBeInTheDocument();
+    });
+
+    it("should toggle soft proofing, gamut warning and export conversion", () => {
+        useSettingsStore.setState({ softProofProfileId: "p1" });
+        render(<SoftProofControls />);
+
+        expect(screen.getByLabelText("Gamut Warning")).toBeDisabled();
+        fireEvent.click(screen.getByLabelText("Soft Proof Page View"));
+        fireEvent.click(screen.getByLabelText("Gamut Warning"));
+        fireEvent.click(screen.getByLabelText("Convert PDF Export Through Profile"));
+        fireEvent.pointerUp(screen.getByRole("button", { name: "Relative" }));
+
+        const state = useSettingsStore.getState();
+        expect(state.softProofEnabled).toBe(true);
+        expect(state.softProofGamutWarning).toBe(true);
+        expect(state.exportConvertToProfile).toBe(true);
+        expect(state.softProofIntent).toBe("relative");
+    });
+
+    it("should import a profile and select it", async () => {
+        mocks.importIccProfile.mockResolvedValue(makeProfile("p3", "New Printer"));
+        render(<SoftProofControls />);
+
+        const file = new File([new Uint8Array(4)], "printer.icc");
+        fireEvent.change(screen.getByTestId("icc-profile-import-input"), { target: { files: [file] } });
+
+        await waitFor(() => expect(useSettingsStore.getState().softProofProfileId).toBe("p3"));
+        expect(mocks.importIccProfile).toHaveBeenCalledWith(file);
+        expect(mocks.showInfoToast).toHaveBeenCalledWith('Imported printer profile "New Printer"');
+    });
+
+    it("should report profiles that can't be read", async () => {
+        mocks.importIccProfile.mockRejectedValue(new Error("Not an ICC profile"));
+        render(<SoftProofControls />);
+
+        fireEvent.change(screen.getByTestId("icc-profile-import-input"), { target: { files: [new File(["x"], "photo.jpg")] } });
+
+        await waitFor(() => expect(mocks.showErrorToast).toHaveBeenCalledWith("Not an ICC profile"));
+        expect(useSettingsStore.getState().softProofProfileId).toBeNull();
+    });
+
+    it("should delete the selected profile and clear the selection", async () => {
+        useSettingsStore.setState({ softProofProfileId: "p1" });
+        render(<SoftProofControls />);
+
+        fireEvent.click(screen.getByTitle("Delete printer profile"));
+
+        await waitFor(() => expect(useSettingsStore.getState().softProofProfileId).toBeNull());
+        expect(mocks.deleteIccProfile).toHaveBeenCalledWith("p1");
+    });
+});
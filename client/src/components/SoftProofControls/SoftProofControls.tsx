@@ -0,0 +1,140 @@
+import { useRef } from "react";
+import { Trash2, Upload } from "lucide-react";
+import { Checkbox, Label, Select } from "flowbite-react";
+import { useLiveQuery } from "dexie-react-hooks";
+import { useSettingsStore } from "@/store/settings";
+import { useToastStore } from "@/store/toast";
+import { AutoTooltip, ToggleButtonGroup } from "@/components/common";
+import { deleteIccProfile, importIccProfile, listIccProfiles } from "@/helpers/iccProfileLibrary";
+import type { RenderingIntent } from "@/helpers/iccProfile";
+
+const INTENT_OPTIONS: { id: RenderingIntent; label: string }[] = [
+    { id: 'perceptual', label: 'Perceptual' },
+    { id: 'relative', label: 'Relative' },
+];
+
+const iconButtonClass = "p-2 rounded-md text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-40 disabled:cursor-not-allowed";
+const checkboxRowClass = "flex items-center gap-2 p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 -ml-2";
+
+/**
+ * Printer ICC profile picker with soft-proof and export conversion options
+ */
+export function SoftProofControls() {
+    const profiles = useLiveQuery(() => listIccProfiles(), []);
+    const profileId = useSettingsStore((state) => state.softProofProfileId);
+    const setProfileId = useSettingsStore((state) => state.setSoftProofProfileId);
+    const enabled = useSettingsStore((state) => state.softProofEnabled);
+    const setEnabled = useSettingsStore((state) => state.setSoftProofEnabled);
+    const gamutWarning = useSettingsStore((state) => state.softProofGamutWarning);
+    const setGamutWarning = useSettingsStore((state) => state.setSoftProofGamutWarning);
+    const intent = useSettingsStore((state) => state.softProofIntent);
+    const setIntent = useSettingsStore((state) => state.setSoftProofIntent);
+    const convertExport = useSettingsStore((state) => state.exportConvertToProfile);
+    const setConvertExport = useSettingsStore((state) => state.setExportConvertToProfile);
+
+    const importInputRef = useRef<HTMLInputElement>(null);
+    const selectedProfile = profiles?.find((p) => p.id === profileId);
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = "";
+        if (!file) return;
+        try {
+            const record = await importIccProfile(file);
+            setProfileId(record.id);
+            useToastStore.getState().showInfoToast(`Imported printer profile "${record.name}"`);
+        } catch (err) {
+            const message = err instanceof Error ? err.message : 'Failed to import ICC profile';
+            useToastStore.getState().showErrorToast(message);
+        }
+    };
+
+    const handleDelete = async () => {
+        if (!selectedProfile) return;
+        await deleteIccProfile(selectedProfile.id);
+        setProfileId(null);
+    };
+
+    const exportHelp = selectedProfile?.colorSpace === 'RGB' || selectedProfile?.colorSpace === 'GRAY'
+        ? "Card images are converted to the printer's own color values. Turn off color management in the printer driver when printing."
+        : "Card images are mapped into the printer's gamut so colors it can't reach don't turn dark or muddy.";
+
+    return (
+        <div className="space-y-2">
+            <div className="flex items-center gap-1">
+                <Select
+                    id="softProofProfile"
+                    sizing="sm"
+                    className="flex-1 min-w-0"
+                    value={selectedProfile?.id ?? ""}
+                    onChange={(e) => setProfileId(e.target.value || null)}
+                >
+                    <option value="">No printer profile</option>
+                    {profiles?.map((p) => (
+                        <option key={p.id} value={p.id}>{p.name} ({p.colorSpace})</option>
+                    ))}
+                </Select>
+                <button type="button" className={iconButtonClass} onClick={handleDelete} disabled={!selectedProfile} title="Delete printer profile">
+                    <Trash2 className="w-4 h-4" />
+                </button>
+                <button type="button" className={iconButtonClass} onClick={() => importInputRef.current?.click()} title="Import ICC profile">
+                    <Upload className="w-4 h-4" />
+                </button>
+                <input
+                    ref={importInputRef}
+                    type="file"
+                    accept=".icc,.icm,application/vnd.iccprofile"
+                    onChange={handleImport}
+                    className="hidden"
+                    data-testid="icc-profile-import-input"
+                />
+            </div>
+
+            {selectedProfile && (
+                <>
+                    <div className={checkboxRowClass}>
+                        <Checkbox
+                            id="soft-proof-enabled"
+                            checked={enabled}
+                            onChange={(e) => setEnabled(e.target.checked)}
+                        />
+                        <Label htmlFor="soft-proof-enabled" className="flex-1 cursor-pointer">
+                            Soft Proof Page View
+                        </Label>
+                        <AutoTooltip content="Preview the cards as they will look printed with this profile" />
+                    </div>
+
+                    <div className={checkboxRowClass}>
+                        <Checkbox
+                            id="soft-proof-gamut-warning"
+                            checked={gamutWarning}
+                            disabled={!enabled}
+                            onChange={(e) => setGamutWarning(e.target.checked)}
+                        />
+                        <Label htmlFor="soft-proof-gamut-warning" className="flex-1 cursor-pointer">
+                            Gamut Warning
+                        </Label>
+                        <AutoTooltip content="Show colors the printer can't reproduce in gray" />
+                    </div>
+
+                    <div>
+                        <Label className="mb-1 block">Rendering Intent</Label>
+                        <ToggleButtonGroup options={INTENT_OPTIONS} value={intent} onChange={setIntent} />
+                    </div>
+
+                    <div className={checkboxRowClass}>
+                        <Checkbox
+                            id="export-convert-to-profile"
+                            checked={convertExport}
+                            onChange={(e) => setConvertExport(e.target.checked)}
+                        />
+                        <Label htmlFor="export-convert-to-profile" className="flex-1 cursor-pointer">
+                            Convert PDF Export Through Profile
+                        </Label>
+                        <AutoTooltip content={exportHelp} />
+                    </div>
+                </>
+            )}
+        </div>
+    );
+}
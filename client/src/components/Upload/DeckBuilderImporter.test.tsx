@@ -81,12 +81,35 @@ vi.mock('@/helpers/moxfieldApi', () => ({
     getDeckSummary: vi.fn(() => ({ name: 'Moxfield Deck', cardCount: 4 })),
 }));
 
+const mockFetchDeckSiteDeck = vi.hoisted(() => vi.fn());
+
+vi.mock('@/helpers/deckSitesApi', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('@/helpers/deckSitesApi')>()),
+    fetchDeckSiteDeck: mockFetchDeckSiteDeck,
+}));
+
 vi.mock('../common', () => ({
     AutoTooltip: ({ mobile, tooltipClassName }: { content: React.ReactNode; mobile?: boolean; tooltipClassName?: string }) => (
         <span data-testid="tooltip" data-mobile={mobile} className={tooltipClassName}>?</span>
     ),
 }));
 
+const mockPreviewUpdate = vi.hoisted(() => vi.fn());
+
+vi.mock('@/hooks/useDeckUpdate', () => ({
+    useDeckUpdate: () => ({
+        plan: null,
+        isApplying: false,
+        preview: mockPreviewUpdate,
+        apply: vi.fn(),
+        dismiss: vi.fn(),
+    }),
+}));
+
+vi.mock('./DeckUpdateModal', () => ({
+    DeckUpdateModal: () => null,
+}));
+
 import { DeckBuilderImporter } from './DeckBuilderImporter';
 
 describe('DeckBuilderImporter', () => {
@@ -107,7 +130,7 @@ describe('DeckBuilderImporter', () => {
         it('should render URL input', () => {
             render(<DeckBuilderImporter />);
             expect(screen.getByTestId('deck-url-input')).toBeDefined();
-            expect(screen.getByPlaceholderText('Paste Archidekt or Moxfield deck URL...')).toBeDefined();
+            expect(screen.getByPlaceholderText('Paste a deck URL (Archidekt, Moxfield, Scryfall...)')).toBeDefined();
         });
 
         it('should render Import Deck button', () => {
@@ -323,3 +346,56 @@ describe('advanced scenarios', () => {
         });
     });
 });
+
+describe('update existing deck', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('should preview the fetched deck instead of importing it', async () => {
+        render(<DeckBuilderImporter />);
+        fireEvent.change(screen.getByTestId('deck-url-input'), { target: { value: 'https://moxfield.com/decks/abc123' } });
+        fireEvent.click(screen.getByRole('button', { name: 'Update Existing Deck' }));
+
+        await waitFor(() => {
+            expect(mockPreviewUpdate).toHaveBeenCalledWith([
+                expect.objectContaining({ name: 'Lightning Bolt', quantity: 4, category: 'Removal' }),
+            ]);
+        });
+        expect(mockOrchestratorProcess).not.toHaveBeenCalled();
+    });
+
+    it('should be disabled for invalid URLs', () => {
+        render(<DeckBuilderImporter />);
+        expect(screen.getByRole('button', { name: 'Update Existing Deck' }).hasAttribute('disabled')).toBe(true);
+    });
+});
+
+describe('other deck sites', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        mockOrchestratorProcess.mockImplementation(async (_intents, options) => {
+            options?.onComplete?.();
+        });
+    });
+
+    it('should import a normalized deck from the server', async () => {
+        mockFetchDeckSiteDeck.mockResolvedValueOnce({
+            source: 'tappedout',
+            id: 'burn',
+            name: 'Burn',
+            cards: [{ name: 'Fire // Ice', set: 'mh2', quantity: 2, category: 'sideboard' }],
+        });
+        render(<DeckBuilderImporter />);
+        fireEvent.change(screen.getByTestId('deck-url-input'), { target: { value: 'https://tappedout.net/mtg-decks/burn/' } });
+        fireEvent.click(screen.getByRole('button', { name: /Import Deck/ }));
+
+        await waitFor(() => {
+            expect(mockFetchDeckSiteDeck).toHaveBeenCalledWith({ site: 'tappedout', id: 'burn' });
+            expect(mockOrchestratorProcess).toHaveBeenCalledWith(
+                [expect.objectContaining({ name: 'Fire // Ice', set: 'mh2', quantity: 2, category: 'Sideboard' })],
+                expect.anything()
+            );
+        });
+    });
+});
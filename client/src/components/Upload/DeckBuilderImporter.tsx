@@ -5,6 +5,8 @@ import { useSettingsStore } from "@/store";
 import { useLoadingStore } from "@/store/loading";
 import { useToastStore } from "@/store/toast";
 import { useCardImport } from "@/hooks/useCardImport";
+import { useDeckUpdate } from "@/hooks/useDeckUpdate";
+import { DeckUpdateModal } from "./DeckUpdateModal";
 import { AutoTooltip } from "../common";
 import {
     extractArchidektDeckId,
@@ -18,8 +20,9 @@ import {
     fetchMoxfieldDeck,
     extractCardsFromDeck as extractMoxfieldCards,
 } from "@/helpers/moxfieldApi";
+import { extractDeckSiteRef, fetchDeckSiteDeck, isDeckSiteUrl } from "@/helpers/deckSitesApi";
 
-type DeckSource = "archidekt" | "moxfield" | null;
+type DeckSource = "archidekt" | "moxfield" | "decksite" | null;
 
 type Props = {
     mobile?: boolean;
@@ -41,6 +44,7 @@ function normalizeCategory(category: string): string {
 function detectSource(url: string): DeckSource {
     if (isArchidektUrl(url)) return "archidekt";
     if (isMoxfieldUrl(url)) return "moxfield";
+    if (isDeckSiteUrl(url)) return "decksite";
     return null;
 }
 
@@ -57,63 +61,94 @@ export function DeckBuilderImporter({ mobile, onUploadComplete }: Props) {
     const source = detectSource(deckUrl);
     const isValidUrl = source !== null;
 
+    const deckUpdate = useDeckUpdate(processCards, () => {
+        setDeckUrl("");
+        onUploadComplete?.();
+    });
+
+    /**
+     * Fetch the deck and convert it to intents.
+     * Returns null (with the error shown) when nothing can be imported.
+     */
+    const fetchIntents = async (): Promise<ImportIntent[] | null> => {
+        let intents: ImportIntent[] = [];
+
+        if (source === "archidekt") {
+            const deckId = extractArchidektDeckId(deckUrl);
+            if (!deckId) {
+                setError("Invalid Archidekt URL. Please paste a valid deck link.");
+                return null;
+            }
+
+            const deck = await fetchArchidektDeck(deckId);
+
+            const cards = extractArchidektCards(deck);
+            intents = cards.map((c) => ({
+                name: c.name,
+                set: c.set,
+                number: c.number,
+                quantity: c.quantity,
+                category: normalizeCategory(c.category),
+                isToken: c.isToken ?? false,
+                sourcePreference: preferredArtSource,
+            }));
+        } else if (source === "moxfield") {
+            const deckId = extractMoxfieldDeckId(deckUrl);
+            if (!deckId) {
+                setError("Invalid Moxfield URL. Please paste a valid deck link.");
+                return null;
+            }
+
+            const deck = await fetchMoxfieldDeck(deckId);
+
+            const cards = extractMoxfieldCards(deck);
+            intents = cards.map((c) => ({
+                name: c.name,
+                set: c.set,
+                number: c.number,
+                quantity: c.quantity,
+                category: normalizeCategory(c.category),
+                isToken: c.isToken ?? false,
+                sourcePreference: preferredArtSource,
+            }));
+        } else if (source === "decksite") {
+            const ref = extractDeckSiteRef(deckUrl);
+            if (!ref) {
+                setError("Invalid deck URL. Please paste a valid deck link.");
+                return null;
+            }
+
+            const deck = await fetchDeckSiteDeck(ref);
+            intents = deck.cards.map((c) => ({
+                name: c.name,
+                set: c.set,
+                number: c.number,
+                quantity: c.quantity,
+                category: normalizeCategory(c.category),
+                isToken: c.isToken ?? false,
+                sourcePreference: preferredArtSource,
+            }));
+        } else {
+            setError("Invalid URL. Please paste a link from a supported deck site.");
+            return null;
+        }
+
+        if (intents.length === 0) {
+            setError("No cards found in deck. The deck may be empty.");
+            return null;
+        }
+
+        return intents;
+    };
+
     const handleImport = async () => {
         setError(null);
         setIsLoading(true);
         setLoadingTask("Fetching cards");
 
         try {
-            let intents: ImportIntent[] = [];
-
-            if (source === "archidekt") {
-                const deckId = extractArchidektDeckId(deckUrl);
-                if (!deckId) {
-                    setError("Invalid Archidekt URL. Please paste a valid deck link.");
-                    return;
-                }
-
-                const deck = await fetchArchidektDeck(deckId);
-
-                const cards = extractArchidektCards(deck);
-                intents = cards.map((c) => ({
-                    name: c.name,
-                    set: c.set,
-                    number: c.number,
-                    quantity: c.quantity,
-                    category: normalizeCategory(c.category),
-                    isToken: c.isToken ?? false,
-                    sourcePreference: preferredArtSource,
-                }));
-            } else if (source === "moxfield") {
-                const deckId = extractMoxfieldDeckId(deckUrl);
-                if (!deckId) {
-                    setError("Invalid Moxfield URL. Please paste a valid deck link.");
-                    return;
-                }
-
-                const deck = await fetchMoxfieldDeck(deckId);
-
-                const cards = extractMoxfieldCards(deck);
-                intents = cards.map((c) => ({
-                    name: c.name,
-                    set: c.set,
-                    number: c.number,
-                    quantity: c.quantity,
-                    category: normalizeCategory(c.category),
-                    isToken: c.isToken ?? false,
-                    sourcePreference: preferredArtSource,
-                }));
-            } else {
-                setError("Invalid URL. Please paste an Archidekt or Moxfield deck link.");
-                return;
-            }
-
-            if (intents.length === 0) {
-                setError("No cards found in deck. The deck may be empty.");
-                setIsLoading(false);
-                setLoadingTask(null);
-                return;
-            }
+            const intents = await fetchIntents();
+            if (!intents) return;
 
             // Clear blocking modal - card processing is non-blocking
             setLoadingTask(null);
@@ -126,8 +161,25 @@ export function DeckBuilderImporter({ mobile, onUploadComplete }: Props) {
         } catch (err) {
             const message = err instanceof Error ? err.message : "Failed to fetch deck";
             setError(message);
+        } finally {
             setLoadingTask(null);
+            setIsLoading(false);
+        }
+    };
+
+    const handleUpdate = async () => {
+        setError(null);
+        setIsLoading(true);
+        setLoadingTask("Fetching cards");
+
+        try {
+            const intents = await fetchIntents();
+            if (intents) await deckUpdate.preview(intents);
+        } catch (err) {
+            const message = err instanceof Error ? err.message : "Failed to fetch deck";
+            setError(message);
         } finally {
+            setLoadingTask(null);
             setIsLoading(false);
         }
     };
@@ -141,9 +193,9 @@ export function DeckBuilderImporter({ mobile, onUploadComplete }: Props) {
                         <span>
                             Paste a deck URL from{" "}
                             <a href="https://archidekt.com" target="_blank" rel="noreferrer" className="underline">Archidekt</a>
-                            {" "}or{" "}
+                            ,{" "}
                             <a href="https://moxfield.com" target="_blank" rel="noreferrer" className="underline">Moxfield</a>
-                            {" "}to import cards with categories
+                            , Scryfall, TappedOut, Deckstats or MTGGoldfish to import cards with categories
                         </span>
                     }
                     mobile={mobile}
@@ -154,7 +206,7 @@ export function DeckBuilderImporter({ mobile, onUploadComplete }: Props) {
             <div className={`flex flex-col gap-2 ${mobile ? 'landscape:gap-2' : ''}`}>
                 <TextInput
                     type="text"
-                    placeholder="Paste Archidekt or Moxfield deck URL..."
+                    placeholder="Paste a deck URL (Archidekt, Moxfield, Scryfall...)"
                     value={deckUrl}
                     onChange={(e) => {
                         setDeckUrl(e.target.value);
@@ -172,11 +224,26 @@ export function DeckBuilderImporter({ mobile, onUploadComplete }: Props) {
                 >
                     {isLoading ? "Importing..." : "Import Deck"}
                 </button>
+                <button
+                    type="button"
+                    onClick={handleUpdate}
+                    disabled={isLoading || !isValidUrl}
+                    className={`inline-block w-full text-center cursor-pointer rounded-md border border-blue-700 dark:border-blue-500 ${mobile ? 'px-4 py-3 landscape:py-2' : 'px-4 py-2'} text-sm font-medium text-blue-700 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/30 disabled:opacity-50 disabled:cursor-not-allowed`}
+                >
+                    Update Existing Deck
+                </button>
             </div>
 
             {error && (
                 <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
             )}
+
+            <DeckUpdateModal
+                plan={deckUpdate.plan}
+                isApplying={deckUpdate.isApplying}
+                onConfirm={deckUpdate.apply}
+                onClose={deckUpdate.dismiss}
+            />
         </div>
     );
 }
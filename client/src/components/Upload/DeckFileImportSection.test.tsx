@@ -0,0 +1,61 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { DeckFileImportSection } from './DeckFileImportSection';
+import { ImportOrchestrator } from '@/helpers/ImportOrchestrator';
+import { useToastStore } from '@/store/toast';
+
+vi.mock('@/helpers/ImportOrchestrator', () => ({
+    ImportOrchestrator: {
+        process: vi.fn(),
+    },
+}));
+
+vi.mock('@/helpers/tokenImportHelper', () => ({
+    handleAutoImportTokens: vi.fn(),
+}));
+
+vi.mock('@/store/settings', () => ({
+    useSettingsStore: {
+        getState: () => ({ preferredArtSource: 'scryfall' }),
+    },
+}));
+
+describe('DeckFileImportSection', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('should render import button', () => {
+        render(<DeckFileImportSection />);
+        expect(screen.getByText('Import Deck File')).toBeDefined();
+    });
+
+    it('should parse an MTGO .dek file and import its cards', async () => {
+        render(<DeckFileImportSection />);
+        const input = document.getElementById('import-deck-file') as HTMLInputElement;
+
+        const dek = '<Deck><Cards CatID="1" Quantity="4" Sideboard="true" Name="Duress" Annotation="0" /></Deck>';
+        const file = new File([dek], 'burn.dek', { type: 'text/xml' });
+        fireEvent.change(input, { target: { files: [file] } });
+
+        await waitFor(() => {
+            expect(ImportOrchestrator.process).toHaveBeenCalledWith(
+                [expect.objectContaining({ name: 'Duress', quantity: 4, category: 'Sideboard', sourcePreference: 'scryfall' })],
+                expect.anything()
+            );
+        });
+    });
+
+    it('should show an error for files without cards', async () => {
+        const showErrorToast = vi.spyOn(useToastStore.getState(), 'showErrorToast');
+        render(<DeckFileImportSection />);
+        const input = document.getElementById('import-deck-file') as HTMLInputElement;
+
+        fireEvent.change(input, { target: { files: [new File(['<Deck></Deck>'], 'empty.dek')] } });
+
+        await waitFor(() => {
+            expect(showErrorToast).toHaveBeenCalledWith('No cards found in the file.');
+        });
+        expect(ImportOrchestrator.process).not.toHaveBeenCalled();
+    });
+});
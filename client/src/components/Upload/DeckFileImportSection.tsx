@@ -0,0 +1,77 @@
+import React from "react";
+import { parseDeckFile } from "@/helpers/importParsers";
+import { useSettingsStore } from "@/store/settings";
+import { useToastStore } from "@/store/toast";
+import { useCardImport } from "@/hooks/useCardImport";
+import { FileStack } from "lucide-react";
+
+type Props = {
+    mobile?: boolean;
+    onUploadComplete?: () => void;
+};
+
+async function readText(file: File): Promise<string> {
+    return new Promise((resolve) => {
+        const r = new FileReader();
+        r.onloadend = () => resolve(String(r.result || ""));
+        r.readAsText(file);
+    });
+}
+
+/**
+ * Imports deck files exported by game clients: MTGO (.dek), Cockatrice (.cod)
+ * and MTG Arena lists, falling back to plain decklists.
+ */
+export function DeckFileImportSection({ mobile, onUploadComplete }: Props) {
+    const { processCards } = useCardImport({
+        onComplete: () => onUploadComplete?.()
+    });
+
+    const handleImportDeckFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+
+        try {
+            const text = await readText(file);
+            const preferredArtSource = useSettingsStore.getState().preferredArtSource;
+            const intents = parseDeckFile(file.name, text).map(i => ({
+                ...i,
+                sourcePreference: i.sourcePreference || preferredArtSource
+            }));
+
+            if (intents.length === 0) {
+                useToastStore.getState().showErrorToast("No cards found in the file.");
+                return;
+            }
+
+            await processCards(intents);
+        } catch (err) {
+            console.error(err);
+            useToastStore.getState().showErrorToast(
+                err instanceof Error ? err.message : "Failed to parse file or import cards."
+            );
+        } finally {
+            if (e.target) e.target.value = "";
+        }
+    };
+
+    return (
+        <div className="space-y-1">
+            <label
+                htmlFor="import-deck-file"
+                className={`relative flex items-center justify-center w-full cursor-pointer rounded-md bg-gray-300 dark:bg-gray-600 ${mobile ? 'px-4 py-4 landscape:py-3' : 'px-4 py-3'} text-base font-medium text-gray-900 dark:text-white hover:bg-gray-300 dark:hover:bg-gray-500 active:translate-y-[2px]`}
+            >
+                <FileStack className="absolute left-4 w-5 h-5" />
+                Import Deck File
+            </label>
+            <input
+                id="import-deck-file"
+                type="file"
+                accept=".dek,.cod,.txt,.dec,text/plain,text/xml"
+                onChange={handleImportDeckFile}
+                onClick={(e) => ((e.target as HTMLInputElement).value = "")}
+                className="hidden"
+            />
+        </div>
+    );
+}
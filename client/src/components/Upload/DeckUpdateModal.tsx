@@ -0,0 +1,100 @@
+import { Button, Modal, ModalHeader, ModalBody, ModalFooter } from "flowbite-react";
+import { RefreshCw } from "lucide-react";
+import { hasDeckUpdateChanges, type DeckUpdateEntry, type DeckUpdatePlan } from "@/helpers/deckUpdate";
+
+interface DeckUpdateModalProps {
+    plan: DeckUpdatePlan | null;
+    isApplying: boolean;
+    onConfirm: () => void;
+    onClose: () => void;
+}
+
+function EntryList({ title, entries, className, format }: {
+    title: string;
+    entries: DeckUpdateEntry[];
+    className: string;
+    format: (entry: DeckUpdateEntry) => string;
+}) {
+    if (entries.length === 0) return null;
+    return (
+        <div>
+            <div className={`text-xs font-semibold uppercase mb-1 ${className}`}>{title} ({entries.length})</div>
+            <ul className="text-sm text-gray-700 dark:text-gray-300 space-y-0.5">
+                {entries.map((entry) => (
+                    <li key={entry.key} className="flex justify-between gap-2">
+                        <span className="truncate">{entry.name}</span>
+                        <span className="text-xs text-gray-500 dark:text-gray-400 shrink-0">
+                            {format(entry)} · {entry.category}
+                        </span>
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+}
+
+/**
+ * Preview of an "update from source" import: what will be added, removed or
+ * change quantity or printing before anything touches the project.
+ */
+export function DeckUpdateModal({ plan, isApplying, onConfirm, onClose }: DeckUpdateModalProps) {
+    const hasChanges = !!plan && hasDeckUpdateChanges(plan);
+
+    return (
+        <Modal show={!!plan} onClose={onClose} size="lg">
+            <ModalHeader>
+                <span className="flex items-center gap-2">
+                    <RefreshCw className="w-5 h-5" />
+                    Update Deck
+                </span>
+            </ModalHeader>
+            <ModalBody>
+                {plan && (
+                    <div className="flex flex-col gap-4 max-h-96 overflow-y-auto">
+                        {!hasChanges && (
+                            <div className="text-sm text-gray-500 dark:text-gray-400">
+                                Your project already matches this list.
+                            </div>
+                        )}
+                        <EntryList
+                            title="Added"
+                            entries={plan.added}
+                            className="text-green-600 dark:text-green-400"
+                            format={(e) => `+${e.incomingQuantity}`}
+                        />
+                        <EntryList
+                            title="Removed"
+                            entries={plan.removed}
+                            className="text-red-600 dark:text-red-400"
+                            format={(e) => `-${e.currentQuantity}`}
+                        />
+                        <EntryList
+                            title="Changed"
+                            entries={plan.changed}
+                            className="text-amber-600 dark:text-amber-400"
+                            format={(e) => [
+                                e.currentQuantity !== e.incomingQuantity && `${e.currentQuantity} → ${e.incomingQuantity}`,
+                                e.reprintedQuantity > 0 && `${e.reprintedQuantity} new printing`,
+                            ].filter(Boolean).join(", ")}
+                        />
+                        {plan.unchangedCount > 0 && (
+                            <div className="text-xs text-gray-500 dark:text-gray-400">
+                                {plan.unchangedCount} unchanged {plan.unchangedCount === 1 ? "card keeps" : "cards keep"} their artwork and adjustments.
+                            </div>
+                        )}
+                    </div>
+                )}
+            </ModalBody>
+            <ModalFooter>
+                <div className="flex justify-end gap-2 w-full">
+                    <Button color="gray" onClick={onClose} disabled={isApplying}>
+                        Cancel
+                    </Button>
+                    <Button onClick={onConfirm} disabled={!hasChanges || isApplying}>
+                        {isApplying ? "Updating..." : "Apply Changes"}
+                    </Button>
+                </div>
+            </ModalFooter>
+        </Modal>
+    );
+}
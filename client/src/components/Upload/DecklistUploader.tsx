@@ -2,7 +2,7 @@ import { useRef, useState } from "react";
 import { createPortal } from "react-dom";
 import { useLiveQuery } from "dexie-react-hooks";
 import { Button, Modal, ModalBody, ModalHeader, Textarea } from "flowbite-react";
-import { ExternalLink, Search, Sparkles } from "lucide-react";
+import { ExternalLink, RefreshCw, Search, Sparkles } from "lucide-react";
 import { parseDeckList } from "@/helpers/importParsers";
 import type { ImportIntent } from "@/helpers/importParsers";
 import { addRemoteImage } from "@/helpers/dbUtils";
@@ -13,6 +13,8 @@ import { AdvancedSearch } from "../ArtworkModal";
 import { handleAutoImportTokens } from "@/helpers/tokenImportHelper";
 import { useToastStore } from "@/store/toast";
 import { useCardImport } from "@/hooks/useCardImport";
+import { useDeckUpdate } from "@/hooks/useDeckUpdate";
+import { DeckUpdateModal } from "./DeckUpdateModal";
 
 type Props = {
     mobile?: boolean;
@@ -34,6 +36,11 @@ export function DecklistUploader({ mobile, cardCount, onUploadComplete }: Props)
         }
     });
 
+    const deckUpdate = useDeckUpdate(processCards, () => {
+        setDeckText("");
+        onUploadComplete?.();
+    });
+
     const [showClearConfirmModal, setShowClearConfirmModal] = useState(false);
     const [showNoTokensModal, setShowNoTokensModal] = useState(false);
     const [isAdvancedSearchOpen, setIsAdvancedSearchOpen] = useState(false);
@@ -65,6 +72,19 @@ export function DecklistUploader({ mobile, cardCount, onUploadComplete }: Props)
         await processCards(enrichedIntents);
     };
 
+    const handleUpdate = async () => {
+        const text = deckText.trim();
+        if (!text) return;
+
+        const intents = parseDeckList(text).map(i => ({
+            ...i,
+            sourcePreference: i.sourcePreference || preferredArtSource
+        }));
+
+        if (!intents.length) return;
+        await deckUpdate.preview(intents);
+    };
+
     const handleAddCard = async (cardName: string, mpcImageUrl?: string, specificPrint?: { set: string; number: string }) => {
         // If MPC image URL is provided, add the card directly without Scryfall lookup
         if (mpcImageUrl) {
@@ -219,6 +239,15 @@ export function DecklistUploader({ mobile, cardCount, onUploadComplete }: Props)
                 <Button color="blue" size="lg" onClick={handleSubmit} disabled={!deckText.trim()}>
                     Fetch Cards
                 </Button>
+                <Button
+                    color="light"
+                    size="lg"
+                    onClick={handleUpdate}
+                    disabled={!deckText.trim() || cardCount === 0}
+                >
+                    <RefreshCw className="w-5 h-5 mr-2" />
+                    Update Existing Cards
+                </Button>
                 <Button
                     color="red"
                     size="lg"
@@ -257,6 +286,14 @@ export function DecklistUploader({ mobile, cardCount, onUploadComplete }: Props)
                 />
             )}
 
+            {/* Update From List Preview */}
+            <DeckUpdateModal
+                plan={deckUpdate.plan}
+                isApplying={deckUpdate.isApplying}
+                onConfirm={deckUpdate.apply}
+                onClose={deckUpdate.dismiss}
+            />
+
             {/* No Tokens Found Modal */}
             <Modal
                 show={showNoTokensModal}
@@ -1,4 +1,5 @@
 import type { UploadLibraryItem } from '@/helpers/uploadLibrary';
+import { useCardSize } from '@/hooks/useCardSize';
 
 interface LinkFacesDialogProps {
     hashes: [string, string];
@@ -24,6 +25,7 @@ export function LinkFacesDialog({
     const backHash = frontHash ? hashes.find(h => h !== frontHash) || null : null;
     const frontItem = items.find(i => i.hash === frontHash);
     const backItem = items.find(i => i.hash === backHash);
+    const cardSize = useCardSize();
 
     const handleDragStart = (e: React.DragEvent, hash: string) => {
         e.dataTransfer.setData('text/plain', hash);
@@ -62,7 +64,7 @@ export function LinkFacesDialog({
                         draggable
                         onDragStart={(e) => handleDragStart(e, item.hash)}
                     >
-                        <div className="relative w-full" style={{ aspectRatio: '63 / 88' }}>
+                        <div className="relative w-full" style={{ aspectRatio: `${cardSize.widthMm} / ${cardSize.heightMm}` }}>
                             <img
                                 src={item.imageUrl}
                                 alt={item.displayName}
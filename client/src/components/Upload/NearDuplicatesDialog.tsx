@@ -0,0 +1,91 @@
+import { useState } from 'react';
+import { Check } from 'lucide-react';
+import type { UploadLibraryItem } from '@/helpers/uploadLibrary';
+import { useCardSize } from '@/hooks/useCardSize';
+
+interface NearDuplicatesDialogProps {
+    groups: string[][] | null;
+    items: UploadLibraryItem[];
+    onMerge: (keepHash: string, hashes: string[]) => void;
+    onKeepAll: (hashes: string[]) => void;
+    onClose: () => void;
+}
+
+export function NearDuplicatesDialog({
+    groups,
+    items,
+    onMerge,
+    onKeepAll,
+    onClose,
+}: NearDuplicatesDialogProps) {
+    // Chosen upload to keep per group, keyed by the group's first hash
+    const [keepChoices, setKeepChoices] = useState<Record<string, string>>({});
+    const cardSize = useCardSize();
+
+    const renderGroup = (hashes: string[]) => {
+        const groupKey = hashes[0];
+        const keepHash = keepChoices[groupKey] ?? hashes[0];
+        return (
+            <div key={groupKey} className="border border-gray-200 dark:border-gray-600 rounded-lg p-3" data-testid="near-duplicate-group">
+                <div className="flex gap-3 overflow-x-auto pb-2">
+                    {hashes.map(hash => {
+                        const item = items.find(i => i.hash === hash);
+                        if (!item) return null;
+                        const isKept = hash === keepHash;
+                        return (
+                            <button
+                                key={hash}
+                                onClick={() => setKeepChoices(prev => ({ ...prev, [groupKey]: hash }))}
+                                className="w-[120px] shrink-0 flex flex-col items-center gap-1"
+                                title={isKept ? 'Kept' : 'Keep this one'}
+                            >
+                                <div className={`relative w-full rounded-lg ${isKept ? 'ring-4 ring-green-500' : 'opacity-70 hover:opacity-100'}`} style={{ aspectRatio: `${cardSize.widthMm} / ${cardSize.heightMm}` }}>
+                                    <img src={item.imageUrl} alt={item.displayName} className="w-full h-full object-cover rounded-lg" />
+                                    {isKept && (
+                                        <span className="absolute top-1 left-1 w-5 h-5 rounded-sm bg-green-600 flex items-center justify-center">
+                                            <Check className="w-3.5 h-3.5 text-white" />
+                                        </span>
+                                    )}
+                                </div>
+                                <span className="text-xs text-gray-700 dark:text-gray-300 truncate block w-full text-center">{item.displayName}</span>
+                            </button>
+                        );
+                    })}
+                </div>
+                <div className="flex gap-2 justify-end">
+                    <button onClick={() => onKeepAll(hashes)} className="px-3 py-1.5 text-xs rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors">
+                        Keep All
+                    </button>
+                    <button onClick={() => onMerge(keepHash, hashes)} className="px-3 py-1.5 text-xs rounded-lg bg-indigo-600 hover:bg-indigo-700 text-white transition-colors">
+                        Merge into Selected
+                    </button>
+                </div>
+            </div>
+        );
+    };
+
+    return (
+        <div className="fixed inset-0 z-200000 flex items-center justify-center bg-black/50 backdrop-blur-sm" onClick={onClose}>
+            <div className="bg-white dark:bg-gray-800 rounded-xl p-6 max-w-2xl w-full mx-4 shadow-2xl max-h-[85vh] flex flex-col" onClick={e => e.stopPropagation()}>
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-1">Near-Duplicates</h3>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">
+                    Uploads that look like the same art. Pick the one to keep; cards using the others will switch to it.
+                </p>
+                <div className="flex-1 overflow-y-auto flex flex-col gap-3 min-h-0">
+                    {groups === null ? (
+                        <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-6">Looking for near-duplicates...</p>
+                    ) : groups.length === 0 ? (
+                        <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-6">No near-duplicates found.</p>
+                    ) : (
+                        groups.map(renderGroup)
+                    )}
+                </div>
+                <div className="flex gap-2 justify-end mt-4">
+                    <button onClick={onClose} className="px-4 py-2 text-sm rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors">
+                        Done
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
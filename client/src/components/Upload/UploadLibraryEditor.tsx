@@ -1,7 +1,7 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { createPortal } from 'react-dom';
 import { TextInput } from 'flowbite-react';
-import { X, Star, Trash2, Link2, Unlink, Plus } from 'lucide-react';
+import { X, Star, Trash2, Link2, Unlink, Plus, CopyCheck } from 'lucide-react';
 import { ResponsiveModal, FloatingZoomPanel } from '../common';
 import { UploadLibraryContextMenu, type UploadContextMenuState } from './UploadLibraryContextMenu';
 import {
@@ -12,6 +12,7 @@ import {
     unlinkUploadFaces,
     type UploadLibraryItem,
 } from '@/helpers/uploadLibrary';
+import { findUploadNearDuplicates, mergeUploadLibraryItems } from '@/helpers/uploadLibraryDuplicates';
 import { useZoomShortcuts } from '@/hooks/useZoomShortcuts';
 import { useToastStore } from '@/store/toast';
 import { useProjectStore } from '@/store';
@@ -20,6 +21,7 @@ import { undoableAddCards } from '@/helpers/undoableActions';
 import { createLinkedBackCardsBulk } from '@/helpers/dbUtils';
 import { UploadLibraryGrid } from './UploadLibraryGrid';
 import { LinkFacesDialog } from './LinkFacesDialog';
+import { NearDuplicatesDialog } from './NearDuplicatesDialog';
 
 
 interface UploadLibraryEditorProps {
@@ -41,6 +43,8 @@ export function UploadLibraryEditor({ isOpen, onClose }: UploadLibraryEditorProp
     const [contextMenu, setContextMenu] = useState<UploadContextMenuState>({ visible: false, x: 0, y: 0, hash: null });
     const [pendingIdentifyHash, setPendingIdentifyHash] = useState<string | null>(null);
     const [pendingRenameHash, setPendingRenameHash] = useState<string | null>(null);
+    const [showDuplicates, setShowDuplicates] = useState(false);
+    const [duplicateGroups, setDuplicateGroups] = useState<string[][] | null>(null);
 
     useZoomShortcuts({ setZoom: setZoomLevel, isOpen, minZoom: 0.5, maxZoom: 5 });
 
@@ -52,6 +56,7 @@ export function UploadLibraryEditor({ isOpen, onClose }: UploadLibraryEditorProp
             setQuery('');
             setConfirmDeleteHashes(null);
             setLinkDialogHashes(null);
+            setShowDuplicates(false);
         }
     }, [isOpen]);
 
@@ -201,6 +206,35 @@ export function UploadLibraryEditor({ isOpen, onClose }: UploadLibraryEditorProp
         );
     }, [items]);
 
+    const handleFindDuplicates = useCallback(async () => {
+        setDuplicateGroups(null);
+        setShowDuplicates(true);
+        try {
+            setDuplicateGroups(await findUploadNearDuplicates());
+        } catch (e) {
+            console.error('[UploadLibraryEditor] Failed to find near-duplicates:', e);
+            setShowDuplicates(false);
+            useToastStore.getState().showErrorToast('Failed to look for near-duplicates');
+        }
+    }, []);
+
+    const handleMergeDuplicates = useCallback(async (keepHash: string, hashes: string[]) => {
+        const merged = hashes.filter(h => h !== keepHash);
+        await mergeUploadLibraryItems(keepHash, merged);
+        setDuplicateGroups(prev => prev?.filter(group => group !== hashes) ?? null);
+        setSelectedHashes(prev => {
+            const next = new Set(prev);
+            merged.forEach(h => next.delete(h));
+            return next;
+        });
+        await refreshItems();
+        useToastStore.getState().showSuccessToast(merged.length === 1 ? 'duplicate merged' : `${merged.length} duplicates merged`);
+    }, [refreshItems]);
+
+    const handleKeepDuplicates = useCallback((hashes: string[]) => {
+        setDuplicateGroups(prev => prev?.filter(group => group !== hashes) ?? null);
+    }, []);
+
     const clearPendingAction = useCallback(() => {
         setPendingIdentifyHash(null);
         setPendingRenameHash(null);
@@ -311,35 +345,45 @@ export function UploadLibraryEditor({ isOpen, onClose }: UploadLibraryEditorProp
                                 </button>
                             </>
                         ) : (
-                            <div className="relative flex-1 h-10">
-                                <TextInput
-                                    sizing="lg"
-                                    type="text"
-                                    placeholder="Search uploads..."
-                                    value={query}
-                                    onChange={(e) => setQuery(e.target.value)}
-                                    className="w-full h-full"
-                                    theme={{
-                                        field: {
-                                            input: {
-                                                base: "block w-full border disabled:cursor-not-allowed disabled:opacity-50 h-full",
-                                                sizes: { lg: "p-2.5 sm:text-base" },
-                                                colors: {
-                                                    gray: "bg-gray-100 border-gray-300 text-gray-900 focus:border-primary-500 focus:ring-primary-500 dark:border-gray-600 dark:bg-gray-800 dark:text-white dark:placeholder-gray-400 dark:focus:border-primary-500 dark:focus:ring-primary-500"
+                            <>
+                                <div className="relative flex-1 h-10">
+                                    <TextInput
+                                        sizing="lg"
+                                        type="text"
+                                        placeholder="Search uploads..."
+                                        value={query}
+                                        onChange={(e) => setQuery(e.target.value)}
+                                        className="w-full h-full"
+                                        theme={{
+                                            field: {
+                                                input: {
+                                                    base: "block w-full border disabled:cursor-not-allowed disabled:opacity-50 h-full",
+                                                    sizes: { lg: "p-2.5 sm:text-base" },
+                                                    colors: {
+                                                        gray: "bg-gray-100 border-gray-300 text-gray-900 focus:border-primary-500 focus:ring-primary-500 dark:border-gray-600 dark:bg-gray-800 dark:text-white dark:placeholder-gray-400 dark:focus:border-primary-500 dark:focus:ring-primary-500"
+                                                    }
                                                 }
                                             }
-                                        }
-                                    }}
-                                />
-                                {query && (
-                                    <button
-                                        onClick={() => setQuery('')}
-                                        className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
-                                    >
-                                        <X className="w-5 h-5" strokeWidth={2.5} />
-                                    </button>
-                                )}
-                            </div>
+                                        }}
+                                    />
+                                    {query && (
+                                        <button
+                                            onClick={() => setQuery('')}
+                                            className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                                        >
+                                            <X className="w-5 h-5" strokeWidth={2.5} />
+                                        </button>
+                                    )}
+                                </div>
+                                <button
+                                    onClick={handleFindDuplicates}
+                                    disabled={items.length < 2}
+                                    className="h-10 px-3 text-sm rounded-lg border border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                    title="Find uploads that look like the same art"
+                                >
+                                    <CopyCheck className="w-4 h-4 inline mr-1" />Find Duplicates
+                                </button>
+                            </>
                         )}
                     </div>
                 </div>
@@ -379,6 +423,16 @@ export function UploadLibraryEditor({ isOpen, onClose }: UploadLibraryEditorProp
                 />, document.body
             )}
 
+            {showDuplicates && createPortal(
+                <NearDuplicatesDialog
+                    groups={duplicateGroups}
+                    items={items}
+                    onMerge={handleMergeDuplicates}
+                    onKeepAll={handleKeepDuplicates}
+                    onClose={() => setShowDuplicates(false)}
+                />, document.body
+            )}
+
             {createPortal(
                 <UploadLibraryContextMenu
                     contextMenu={contextMenu}
@@ -4,7 +4,10 @@ import '@testing-library/jest-dom';
 import { UploadLibraryGrid, type UploadLibraryGridProps } from './UploadLibraryGrid';
 import type { UploadLibraryItem } from '@/helpers/uploadLibrary';
 import * as uploadLibraryHelpers from '@/helpers/uploadLibrary';
+import * as duplicateHelpers from '@/helpers/uploadLibraryDuplicates';
+import * as scryfallApi from '@/helpers/scryfallApi';
 import { useToastStore } from '@/store/toast';
+import type { ScryfallCard } from '../../../../shared/types';
 
 // Mock dependencies
 vi.mock('@/helpers/uploadLibrary', () => ({
@@ -18,6 +21,11 @@ vi.mock('@/helpers/uploadLibrary', () => ({
 
 vi.mock('@/helpers/scryfallApi', () => ({
     getCardByName: vi.fn(),
+    fetchCardBySetAndNumber: vi.fn(),
+}));
+
+vi.mock('@/helpers/uploadLibraryDuplicates', () => ({
+    suggestCanonicalCard: vi.fn(async () => null),
 }));
 
 // Mock toast store
@@ -235,4 +243,31 @@ describe('UploadLibraryGrid', () => {
         const selectionRing = container.querySelector('.ring-green-500');
         expect(selectionRing).toBeInTheDocument();
     });
+
+    it('suggests an identity from a matching cached print', async () => {
+        vi.mocked(duplicateHelpers.suggestCanonicalCard).mockResolvedValue({ name: 'Counterspell', set: 'mh2', number: '267' });
+        vi.mocked(scryfallApi.fetchCardBySetAndNumber).mockResolvedValue({
+            name: 'Counterspell', set: 'mh2', number: '267', type_line: 'Instant',
+        } as ScryfallCard);
+
+        render(<UploadLibraryGrid {...defaultProps} />);
+        fireEvent.click(screen.getAllByTitle('Identify card')[1]); // Single Card
+
+        const suggestion = await screen.findByText(/Looks like Counterspell/);
+        expect(suggestion).toHaveTextContent('Looks like Counterspell (MH2 #267)');
+        expect(duplicateHelpers.suggestCanonicalCard).toHaveBeenCalledWith('h3');
+
+        fireEvent.click(suggestion);
+
+        await waitFor(() => {
+            expect(uploadLibraryHelpers.updateUploadLibraryMetadata).toHaveBeenCalledWith('h3', {
+                displayName: 'Counterspell',
+                canonicalCardName: 'Counterspell',
+                canonicalCardSet: 'mh2',
+                canonicalCardNumber: '267',
+                typeLine: 'Instant',
+            });
+        });
+        expect(scryfallApi.getCardByName).not.toHaveBeenCalled();
+    });
 });
@@ -24,9 +24,12 @@ import {
     type UploadLibraryItem,
     type UploadLibrarySortKey,
 } from "@/helpers/uploadLibrary";
-import { getCardByName } from "@/helpers/scryfallApi";
+import { suggestCanonicalCard, type CanonicalCardSuggestion } from "@/helpers/uploadLibraryDuplicates";
+import { getCardByName, fetchCardBySetAndNumber } from "@/helpers/scryfallApi";
 import { useToastStore } from "@/store/toast";
 import { useUserPreferencesStore } from "@/store";
+import { useCardSize } from "@/hooks/useCardSize";
+import { CONSTANTS } from "@/constants/commonConstants";
 import type { ScryfallCard } from "../../../../shared/types";
 import { ManaIcon, type ManaSymbol } from "../common/ManaIcon";
 
@@ -123,7 +126,8 @@ interface TileIdentifyOverlayProps {
     displayItem: UploadLibraryItem;
     matchingQuery: string;
     matchedCardResult: ScryfallCard | null;
-    onMatchCard: (hash: string, name: string) => void;
+    suggestion: CanonicalCardSuggestion | null;
+    onMatchCard: (hash: string, name: string, print?: { set?: string; number?: string }) => void;
     onUnmatch: (hash: string) => void;
     onClose: () => void;
 }
@@ -131,6 +135,7 @@ function TileIdentifyOverlay({
     displayItem,
     matchingQuery,
     matchedCardResult,
+    suggestion,
     onMatchCard,
     onUnmatch,
     onClose,
@@ -142,6 +147,19 @@ function TileIdentifyOverlay({
                 onSelect={(name) => onMatchCard(displayItem.hash, name)}
                 onCancel={onClose}
             />
+            {!matchedCardResult && suggestion && (
+                <button
+                    onClick={(e) => {
+                        e.stopPropagation();
+                        onMatchCard(displayItem.hash, suggestion.name, suggestion);
+                    }}
+                    className="mt-2 px-3 py-1 text-xs rounded-full bg-blue-600 hover:bg-blue-700 text-white transition-colors max-w-full truncate"
+                    title="Matches a cached print of this card"
+                >
+                    Looks like {suggestion.name}
+                    {suggestion.set && suggestion.number && ` (${suggestion.set.toUpperCase()} #${suggestion.number})`}
+                </button>
+            )}
             {matchedCardResult ? (
                 <div className="mt-2 flex flex-col items-center gap-2 animate-in fade-in slide-in-from-top-2 duration-200 w-full px-4">
                     <div className="text-xs text-green-400 font-medium flex items-center gap-1">
@@ -273,6 +291,7 @@ export function UploadLibraryGrid({
     onPendingActionHandled,
     selectedFace,
 }: UploadLibraryGridProps) {
+    const projectCardSize = useCardSize();
     const [sortBy, setSortBy] = useState<UploadLibrarySortKey>("date");
     const [sortDir, setSortDir] = useState<"asc" | "desc">("desc");
     const [typeFilters, setTypeFilters] = useState<string[]>([]);
@@ -292,6 +311,10 @@ export function UploadLibraryGrid({
     }, [selectedFace]);
     const [matchedCardResult, setMatchedCardResult] =
         useState<ScryfallCard | null>(null);
+    const [suggestion, setSuggestion] = useState<{
+        hash: string;
+        card: CanonicalCardSuggestion;
+    } | null>(null);
 
     const itemsMap = useMemo(
         () => new Map(items.map((i) => [i.hash, i])),
@@ -341,6 +364,27 @@ export function UploadLibraryGrid({
         }
     }, [matchingHash, itemsMap]);
 
+    // Suggest an identity for unidentified uploads that match a cached print
+    useEffect(() => {
+        if (!matchingHash || itemsMap.get(matchingHash)?.canonicalCardName) return;
+        let cancelled = false;
+        suggestCanonicalCard(matchingHash)
+            .then((card) => {
+                if (!cancelled && card) setSuggestion({ hash: matchingHash, card });
+            })
+            .catch((e) => console.warn("[UploadLibraryGrid] Failed to suggest card:", e));
+        return () => {
+            cancelled = true;
+        };
+    }, [matchingHash, itemsMap]);
+
+    const activeSuggestion =
+        suggestion &&
+        suggestion.hash === matchingHash &&
+        !itemsMap.get(suggestion.hash)?.canonicalCardName
+            ? suggestion.card
+            : null;
+
     const userSort = useUserPreferencesStore(
         (s) => s.preferences?.uploadLibrarySort
     );
@@ -479,10 +523,13 @@ export function UploadLibraryGrid({
     );
 
     const handleMatchCard = useCallback(
-        async (hash: string, cardName: string) => {
+        async (hash: string, cardName: string, print?: { set?: string; number?: string }) => {
             const trimmed = cardName.trim();
             if (!trimmed) return;
-            const card = await getCardByName(trimmed);
+            // A specific print (from a suggestion) keeps its set and number
+            const card = print?.set && print.number
+                ? await fetchCardBySetAndNumber(print.set, print.number)
+                : await getCardByName(trimmed);
             if (card) {
                 const item = itemsMap.get(hash);
                 const isLinkedDfc = item && (item.linkedFrontHash || item.linkedBackHash);
@@ -671,16 +718,16 @@ export function UploadLibraryGrid({
             >
                 <div
                     className="relative w-full overflow-hidden"
-                    style={{ aspectRatio: "63 / 88" }}
+                    style={{ aspectRatio: `${projectCardSize.widthMm} / ${projectCardSize.heightMm}` }}
                 >
                     {hasBleed ? (
                         <CardImageSvg
                             url={displayImage}
                             id={`upload-${upload.hash}`}
                             bleed={{
-                                amountMm: 3.175,
-                                sourceWidthMm: 69.35,
-                                sourceHeightMm: 94.35,
+                                amountMm: CONSTANTS.DEFAULT_MPC_BLEED_MM,
+                                sourceWidthMm: projectCardSize.widthMm + 2 * CONSTANTS.DEFAULT_MPC_BLEED_MM,
+                                sourceHeightMm: projectCardSize.heightMm + 2 * CONSTANTS.DEFAULT_MPC_BLEED_MM,
                             }}
                             rounded={true}
                         />
@@ -768,6 +815,7 @@ export function UploadLibraryGrid({
                         displayItem={displayItem}
                         matchingQuery={matchingQuery}
                         matchedCardResult={matchedCardResult}
+                        suggestion={activeSuggestion}
                         onMatchCard={handleMatchCard}
                         onUnmatch={handleUnmatch}
                         onClose={handleCloseIdentify}
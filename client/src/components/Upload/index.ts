@@ -1,4 +1,5 @@
 export { DeckBuilderImporter } from './DeckBuilderImporter';
+export { DeckFileImportSection } from './DeckFileImportSection';
 export { DecklistUploader } from './DecklistUploader';
 export { FileUploader } from './FileUploader';
 export { MpcImportSection } from './MpcImportSection';
@@ -34,6 +34,9 @@ vi.mock('./Upload', () => ({
     MpcImportSection: ({ mobile, onUploadComplete }: { mobile?: boolean; onUploadComplete?: () => void }) => (
         <div data-testid="mpc-import-section" data-mobile={mobile} data-has-callback={!!onUploadComplete}>MpcImportSection</div>
     ),
+    DeckFileImportSection: ({ mobile, onUploadComplete }: { mobile?: boolean; onUploadComplete?: () => void }) => (
+        <div data-testid="deck-file-import-section" data-mobile={mobile} data-has-callback={!!onUploadComplete}>DeckFileImportSection</div>
+    ),
     DecklistUploader: ({ mobile, cardCount, onUploadComplete }: { mobile?: boolean; cardCount: number; onUploadComplete?: () => void }) => (
         <div data-testid="decklist-uploader" data-mobile={mobile} data-card-count={cardCount} data-has-callback={!!onUploadComplete}>DecklistUploader</div>
     ),
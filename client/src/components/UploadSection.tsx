@@ -11,7 +11,8 @@ import {
   DeckBuilderImporter,
   DecklistUploader,
   FileUploader,
-  MpcImportSection
+  MpcImportSection,
+  DeckFileImportSection
 } from "./Upload";
 
 type Props = {
@@ -68,6 +69,7 @@ export function UploadSection({ isCollapsed, onToggle, cardCount, mobile, onUplo
               {/* File Uploaders */}
               <FileUploader mobile={mobile} onUploadComplete={onUploadComplete} />
               <MpcImportSection mobile={mobile} onUploadComplete={onUploadComplete} />
+              <DeckFileImportSection mobile={mobile} onUploadComplete={onUploadComplete} />
 
               {/* Deck Builder Importer - in landscape, show here below MPC */}
               <div className={`hidden ${mobile ? 'landscape:block' : ''}`}>
@@ -4,6 +4,8 @@ import { ChevronDown, ChevronRight, Star, RefreshCw } from "lucide-react";
 import { CardGrid } from "./CardGrid";
 import { CardArtFilterBar } from "./CardArtFilterBar/CardArtFilterBar";
 import { CardImageSvg } from "./CardImageSvg";
+import { useCardSize } from "@/hooks/useCardSize";
+import { CONSTANTS } from "@/constants/commonConstants";
 
 import { useScryfallSearch } from "@/hooks/useScryfallSearch";
 import { useScryfallPrints } from "@/hooks/useScryfallPrints";
@@ -152,6 +154,8 @@ export function CardArtContent({
 }: CardArtContentProps) {
   const stripQuery = useCallback((url?: string) => url?.split("?")[0], []);
   const [uploadLibraryItems, setUploadLibraryItems] = useState<UploadLibraryItem[]>([]);
+  const projectCardSize = useCardSize();
+  const cardAspectRatio = `${projectCardSize.widthMm} / ${projectCardSize.heightMm}`;
 
   // Fetch items when source is upload-library
   useEffect(() => {
@@ -717,10 +721,10 @@ export function CardArtContent({
           onSelectCard(query, print.imageUrl);
         }}
       >
-        {/* Container enforces 63:88mm ratio for consistent sizing */}
+        {/* Container enforces the project card ratio for consistent sizing */}
         <div
           className="relative w-full overflow-hidden"
-          style={{ aspectRatio: "63 / 88" }}
+          style={{ aspectRatio: cardAspectRatio }}
         >
           <CardImageSvg url={displayUrl} id={`print-${index}`} rounded={true} />
         </div>
@@ -746,19 +750,19 @@ export function CardArtContent({
         onClick={() => handleMpcCardSelect(card)}
       >
         {/* MPC image with bleed cropping via custom SVG component */}
-        {/* Image: 69.35mm × 94.35mm (with 3.175mm bleed/side). Card: 63mm × 88mm. */}
+        {/* Image: card size plus 1/8" bleed per side, cropped to the card */}
         <div
           className="relative w-full overflow-hidden"
-          style={{ aspectRatio: "63 / 88" }}
+          style={{ aspectRatio: cardAspectRatio }}
         >
           <CardImageSvg
             url={primaryUrl}
             fallbackUrl={fallbackUrl}
             id={card.identifier}
             bleed={{
-              amountMm: 3.175,
-              sourceWidthMm: 69.35,
-              sourceHeightMm: 94.35,
+              amountMm: CONSTANTS.DEFAULT_MPC_BLEED_MM,
+              sourceWidthMm: projectCardSize.widthMm + 2 * CONSTANTS.DEFAULT_MPC_BLEED_MM,
+              sourceHeightMm: projectCardSize.heightMm + 2 * CONSTANTS.DEFAULT_MPC_BLEED_MM,
             }}
             rounded={true}
           />
@@ -1278,6 +1282,7 @@ function ScryfallCardItem({
   query,
 }: ScryfallCardItemProps) {
   const [isFlipped, setIsFlipped] = useState(false);
+  const projectCardSize = useCardSize();
 
   useEffect(() => {
     if (!card.card_faces || card.card_faces.length < 2) return;
@@ -1330,10 +1335,10 @@ function ScryfallCardItem({
         })
       }
     >
-      {/* Container enforces 63:88mm ratio for consistent sizing */}
+      {/* Container enforces the project card ratio for consistent sizing */}
       <div
         className="relative w-full overflow-hidden"
-        style={{ aspectRatio: "63 / 88" }}
+        style={{ aspectRatio: `${projectCardSize.widthMm} / ${projectCardSize.heightMm}` }}
       >
         <CardImageSvg
           url={displayUrl}
@@ -1347,7 +1352,7 @@ function ScryfallCardItem({
         <div className="absolute inset-0 rounded-[2.5mm] ring-4 ring-green-500 pointer-events-none" />
       )}
 
-      {/* Flip Button for DFCs - Styled to match SortableCard */}
+      {/* Flip Button for DFCs */}
       {isDfc && (
         <div
           onClick={handleFlip}
@@ -2,6 +2,7 @@ import React, { useState, useMemo, useEffect } from "react";
 import { Star } from "lucide-react";
 import { SelectDropdown, MultiSelectDropdown } from "..";
 import { SharedFilterLayout } from "./SharedFilterLayout";
+import { MpcSearchFiltersDropdown } from "./MpcSearchFiltersDropdown";
 import { useUserPreferencesStore, useSettingsStore } from "@/store";
 import type { MpcAutofillCard } from "@/helpers/mpcAutofillApi";
 import type { MpcFilterState } from "@/hooks/useMpcSearch";
@@ -291,6 +292,7 @@ export function MpcFilterBar(props: MpcFilterProps) {
                     >
                         {mpcFuzzySearch ? "Fuzzy" : "Exact"}
                     </button>
+                    <MpcSearchFiltersDropdown tags={Array.from(mpcData.tagsInResults)} />
                 </div>
             }
         >
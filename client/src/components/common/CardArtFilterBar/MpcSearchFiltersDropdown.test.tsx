@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import React from 'react';
+
+const mockState = vi.hoisted(() => ({
+    preferences: { mpcSearchFilters: null as Record<string, unknown> | null },
+    setMpcSearchFilters: vi.fn(),
+}));
+
+const mockFetchMpcSources = vi.hoisted(() => vi.fn());
+
+vi.mock('@/store', () => ({
+    useUserPreferencesStore: vi.fn((selector) => selector(mockState)),
+}));
+
+vi.mock('@/helpers/mpcAutofillApi', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('@/helpers/mpcAutofillApi')>()),
+    fetchMpcSources: mockFetchMpcSources,
+}));
+
+vi.mock('..', () => ({
+    SelectDropdown: ({ label, buttonText, selectedCount, onToggle, isOpen, children }: { label?: string; buttonText: string; selectedCount?: number; onToggle: () => void; isOpen: boolean; children: React.ReactNode }) => (
+        <div>
+            <button onClick={onToggle}>
+                {label}
+                <span data-testid="button-text">{selectedCount ? selectedCount : buttonText}</span>
+            </button>
+            {isOpen && <div data-testid="dropdown-content">{children}</div>}
+        </div>
+    ),
+}));
+
+import { MpcSearchFiltersDropdown } from './MpcSearchFiltersDropdown';
+
+function open(tags: string[] = []) {
+    render(<MpcSearchFiltersDropdown tags={tags} />);
+    fireEvent.click(screen.getByText('Search'));
+}
+
+describe('MpcSearchFiltersDropdown', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        mockState.preferences.mpcSearchFilters = null;
+        mockFetchMpcSources.mockResolvedValue([
+            { pk: 1, key: 'chilli', name: 'Chilli Axe' },
+            { pk: 2, key: 'other', name: 'Other Drive' },
+        ]);
+    });
+
+    it('should show defaults and load sources only when opened', async () => {
+        render(<MpcSearchFiltersDropdown tags={[]} />);
+        expect(screen.getByTestId('button-text').textContent).toBe('Default');
+        expect(mockFetchMpcSources).not.toHaveBeenCalled();
+
+        fireEvent.click(screen.getByText('Search'));
+
+        expect(await screen.findByText('Chilli Axe')).toBeDefined();
+        expect(screen.getByText('Searching all sources')).toBeDefined();
+        expect((screen.getByLabelText('English') as HTMLInputElement).checked).toBe(true);
+        expect((screen.getByLabelText('Exclude NSFW') as HTMLInputElement).checked).toBe(true);
+    });
+
+    it('should limit the search to checked sources', async () => {
+        open();
+        fireEvent.click(await screen.findByLabelText('Chilli Axe'));
+        expect(mockState.setMpcSearchFilters).toHaveBeenCalledWith(expect.objectContaining({ sources: ['chilli'] }));
+    });
+
+    it('should add languages', () => {
+        open();
+        fireEvent.click(screen.getByLabelText('German'));
+        expect(mockState.setMpcSearchFilters).toHaveBeenCalledWith(expect.objectContaining({ languages: ['EN', 'DE'] }));
+    });
+
+    it('should move a tag from excluded to required', () => {
+        open(['Full Art']);
+        fireEvent.click(screen.getByLabelText('Require NSFW'));
+        expect(mockState.setMpcSearchFilters).toHaveBeenCalledWith(
+            expect.objectContaining({ includesTags: ['NSFW'], excludesTags: [] })
+        );
+        expect(screen.getByLabelText('Exclude Full Art')).toBeDefined();
+    });
+
+    it('should commit the DPI range on blur and ignore invalid ranges', () => {
+        open();
+        const min = screen.getByLabelText('Minimum DPI') as HTMLInputElement;
+
+        fireEvent.change(min, { target: { value: '2000' } });
+        fireEvent.blur(min);
+        expect(mockState.setMpcSearchFilters).not.toHaveBeenCalled();
+        expect(min.value).toBe('0');
+
+        fireEvent.change(min, { target: { value: '800' } });
+        fireEvent.blur(min);
+        expect(mockState.setMpcSearchFilters).toHaveBeenCalledWith(expect.objectContaining({ minDpi: 800, maxDpi: 1500 }));
+    });
+
+    it('should clear the preference when filters are back to defaults', async () => {
+        mockState.preferences.mpcSearchFilters = { languages: ['EN', 'DE'] };
+        open();
+        expect(screen.getByTestId('button-text').textContent).toBe('1');
+
+        fireEvent.click(screen.getByLabelText('German'));
+        expect(mockState.setMpcSearchFilters).toHaveBeenCalledWith(null);
+
+        fireEvent.click(screen.getByText('Reset to Defaults'));
+        await waitFor(() => expect(mockState.setMpcSearchFilters).toHaveBeenCalledTimes(2));
+    });
+});
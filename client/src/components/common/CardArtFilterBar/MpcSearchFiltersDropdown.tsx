@@ -0,0 +1,240 @@
+import { useEffect, useMemo, useState } from "react";
+import { SelectDropdown } from "..";
+import { useUserPreferencesStore } from "@/store";
+import {
+    DEFAULT_MPC_SEARCH_FILTERS,
+    MPC_LANGUAGES,
+    fetchMpcSources,
+    hasCustomMpcSearchFilters,
+    type MpcSearchFilters,
+    type MpcSource,
+} from "@/helpers/mpcAutofillApi";
+
+interface MpcSearchFiltersDropdownProps {
+    /** Tags seen in the current results, offered for include/exclude */
+    tags: string[];
+}
+
+const sectionTitleClass = "px-3 pt-2 pb-1 text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400";
+const rowClass = "flex items-center gap-2 px-3 py-1 text-sm text-gray-900 dark:text-white";
+const dpiInputClass = "w-20 px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-gray-50 dark:bg-gray-800 text-gray-900 dark:text-white focus:outline-none focus:ring-1 focus:ring-blue-500";
+
+/**
+ * Filters applied by MPC Autofill itself (sources, languages, tags, DPI
+ * range). Unlike the result filters next to it these change what the
+ * server searches, so they are saved as a preference and also used when
+ * matching MPC art during import.
+ */
+export function MpcSearchFiltersDropdown({ tags }: MpcSearchFiltersDropdownProps) {
+    const searchFilters = useUserPreferencesStore((s) => s.preferences?.mpcSearchFilters ?? null);
+    const setMpcSearchFilters = useUserPreferencesStore((s) => s.setMpcSearchFilters);
+
+    const [isOpen, setIsOpen] = useState(false);
+    const [sources, setSources] = useState<MpcSource[] | null>(null);
+    const [sourceSearchQuery, setSourceSearchQuery] = useState("");
+
+    const filters = useMemo(
+        () => ({ ...DEFAULT_MPC_SEARCH_FILTERS, ...searchFilters }) as Required<MpcSearchFilters>,
+        [searchFilters]
+    );
+
+    // Local DPI values so typing doesn't re-run the search on every keystroke
+    const [localMinDpi, setLocalMinDpi] = useState(String(filters.minDpi));
+    const [localMaxDpi, setLocalMaxDpi] = useState(String(filters.maxDpi));
+    useEffect(() => {
+        setLocalMinDpi(String(filters.minDpi));
+        setLocalMaxDpi(String(filters.maxDpi));
+    }, [filters.minDpi, filters.maxDpi]);
+
+    // Source list is only needed once the dropdown is opened
+    useEffect(() => {
+        if (!isOpen || sources) return;
+        let cancelled = false;
+        fetchMpcSources().then((list) => {
+            if (!cancelled) setSources(list);
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [isOpen, sources]);
+
+    const update = (changes: MpcSearchFilters) => {
+        const next = { ...filters, ...changes };
+        setMpcSearchFilters(hasCustomMpcSearchFilters(next) ? next : null);
+    };
+
+    const toggle = (list: string[], value: string) =>
+        list.includes(value) ? list.filter((v) => v !== value) : [...list, value];
+
+    const toggleTag = (tag: string, field: "includesTags" | "excludesTags") => {
+        const other = field === "includesTags" ? "excludesTags" : "includesTags";
+        update({
+            [field]: toggle(filters[field], tag),
+            // A tag can't be both required and excluded
+            [other]: filters[other].filter((t) => t !== tag),
+        });
+    };
+
+    const commitDpi = () => {
+        const min = parseInt(localMinDpi, 10);
+        const max = parseInt(localMaxDpi, 10);
+        if (isNaN(min) || isNaN(max) || min < 0 || max < min) {
+            setLocalMinDpi(String(filters.minDpi));
+            setLocalMaxDpi(String(filters.maxDpi));
+            return;
+        }
+        if (min !== filters.minDpi || max !== filters.maxDpi) {
+            update({ minDpi: min, maxDpi: max });
+        }
+    };
+
+    const customCount = (Object.keys(DEFAULT_MPC_SEARCH_FILTERS) as (keyof MpcSearchFilters)[])
+        .filter((key) => JSON.stringify(filters[key]) !== JSON.stringify(DEFAULT_MPC_SEARCH_FILTERS[key]))
+        .length;
+
+    const tagOptions = useMemo(
+        () => Array.from(new Set([...filters.excludesTags, ...filters.includesTags, ...DEFAULT_MPC_SEARCH_FILTERS.excludesTags, ...tags]))
+            .sort((a, b) => a.localeCompare(b)),
+        [filters.excludesTags, filters.includesTags, tags]
+    );
+
+    const visibleSources = (sources ?? []).filter(
+        (s) => !sourceSearchQuery || s.name.toLowerCase().includes(sourceSearchQuery.toLowerCase())
+    );
+
+    return (
+        <SelectDropdown
+            label="Search"
+            buttonText="Default"
+            selectedCount={customCount}
+            disableFavorites
+            isOpen={isOpen}
+            onToggle={() => setIsOpen(!isOpen)}
+            onClose={() => {
+                setIsOpen(false);
+                setSourceSearchQuery("");
+            }}
+            dropdownMaxHeight="24rem"
+        >
+            <button
+                type="button"
+                onClick={() => setMpcSearchFilters(null)}
+                disabled={!searchFilters}
+                className="w-full px-3 py-1.5 text-left text-sm hover:bg-gray-100 dark:hover:bg-gray-600 text-blue-600 dark:text-blue-400 disabled:opacity-50"
+            >
+                Reset to Defaults
+            </button>
+
+            {/* DPI range */}
+            <div className={sectionTitleClass}>DPI</div>
+            <div className={rowClass}>
+                <input
+                    type="number"
+                    aria-label="Minimum DPI"
+                    min={0}
+                    step={100}
+                    value={localMinDpi}
+                    onChange={(e) => setLocalMinDpi(e.target.value)}
+                    onBlur={commitDpi}
+                    onKeyDown={(e) => e.key === "Enter" && commitDpi()}
+                    className={dpiInputClass}
+                />
+                <span>–</span>
+                <input
+                    type="number"
+                    aria-label="Maximum DPI"
+                    min={0}
+                    step={100}
+                    value={localMaxDpi}
+                    onChange={(e) => setLocalMaxDpi(e.target.value)}
+                    onBlur={commitDpi}
+                    onKeyDown={(e) => e.key === "Enter" && commitDpi()}
+                    className={dpiInputClass}
+                />
+            </div>
+
+            {/* Languages */}
+            <div className={sectionTitleClass}>Languages</div>
+            {MPC_LANGUAGES.map((lang) => (
+                <label key={lang.code} className={`${rowClass} cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-600`}>
+                    <input
+                        type="checkbox"
+                        checked={filters.languages.includes(lang.code)}
+                        onChange={() => update({ languages: toggle(filters.languages, lang.code) })}
+                        className="rounded"
+                    />
+                    {lang.label}
+                </label>
+            ))}
+
+            {/* Tags */}
+            <div className={`${sectionTitleClass} flex justify-between`}>
+                <span>Tags</span>
+                <span>Require / Exclude</span>
+            </div>
+            {tagOptions.map((tag) => (
+                <div key={tag} className={rowClass}>
+                    <span className="flex-1 truncate">{tag}</span>
+                    <input
+                        type="checkbox"
+                        aria-label={`Require ${tag}`}
+                        checked={filters.includesTags.includes(tag)}
+                        onChange={() => toggleTag(tag, "includesTags")}
+                        className="rounded"
+                    />
+                    <input
+                        type="checkbox"
+                        aria-label={`Exclude ${tag}`}
+                        checked={filters.excludesTags.includes(tag)}
+                        onChange={() => toggleTag(tag, "excludesTags")}
+                        className="rounded ml-6"
+                    />
+                </div>
+            ))}
+
+            {/* Sources */}
+            <div className={`${sectionTitleClass} flex justify-between`}>
+                <span>Sources</span>
+                {filters.sources.length > 0 && (
+                    <button
+                        type="button"
+                        onClick={() => update({ sources: [] })}
+                        className="normal-case font-normal text-blue-600 dark:text-blue-400"
+                    >
+                        All Sources
+                    </button>
+                )}
+            </div>
+            <div className="px-3 py-1">
+                <input
+                    type="text"
+                    placeholder="Search sources..."
+                    value={sourceSearchQuery}
+                    onChange={(e) => setSourceSearchQuery(e.target.value)}
+                    className="w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-gray-50 dark:bg-gray-800 text-gray-900 dark:text-white placeholder-gray-400 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                    onClick={(e) => e.stopPropagation()}
+                />
+            </div>
+            {filters.sources.length === 0 && (
+                <div className="px-3 py-1 text-xs text-gray-500 dark:text-gray-400">Searching all sources</div>
+            )}
+            {sources === null ? (
+                <div className={`${rowClass} text-gray-400`}>Loading sources...</div>
+            ) : sources.length === 0 ? (
+                <div className={`${rowClass} text-gray-400`}>Sources unavailable</div>
+            ) : (
+                visibleSources.map((source) => (
+                    <label key={source.key} className={`${rowClass} cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-600`}>
+                        <input
+                            type="checkbox"
+                            checked={filters.sources.includes(source.key)}
+                            onChange={() => update({ sources: toggle(filters.sources, source.key) })}
+                            className="rounded"
+                        />
+                        <span className="truncate">{source.name}</span>
+                    </label>
+                ))
+            )}
+        </SelectDropdown>
+    );
+}
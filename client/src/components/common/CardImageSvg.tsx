@@ -1,5 +1,5 @@
 import React, { useRef, useState, useEffect } from 'react';
-import { CONSTANTS } from "@/constants/commonConstants";
+import { useCardSize } from "@/hooks/useCardSize";
 
 interface CardImageSvgProps {
     /** Primary image URL */
@@ -23,7 +23,7 @@ interface CardImageSvgProps {
 
 /**
  * Renders a card image using SVG for precise sub-pixel positioning and cropping.
- * Supports exact mm-based bleed trimming and R2.5mm rounded corners.
+ * Supports exact mm-based bleed trimming and the project card size's rounded corners.
  * Uses IntersectionObserver for lazy loading to prevent mass simultaneous fetches.
  */
 export const CardImageSvg: React.FC<CardImageSvgProps> = ({
@@ -37,6 +37,7 @@ export const CardImageSvg: React.FC<CardImageSvgProps> = ({
     const [isVisible, setIsVisible] = useState(false);
     const [hasLoaded, setHasLoaded] = useState(false);
     const [useFallback, setUseFallback] = useState(false);
+    const cardSize = useCardSize();
 
     // ViewBox always defines the "visible" card area
     // For bleed images, we start the viewBox offset by the bleed amount
@@ -93,7 +94,7 @@ export const CardImageSvg: React.FC<CardImageSvgProps> = ({
     return (
         <svg
             ref={svgRef}
-            viewBox={`${viewBoxX} ${viewBoxY} ${CONSTANTS.CARD_WIDTH_MM} ${CONSTANTS.CARD_HEIGHT_MM}`}
+            viewBox={`${viewBoxX} ${viewBoxY} ${cardSize.widthMm} ${cardSize.heightMm}`}
             className="w-full h-full block"
             preserveAspectRatio="xMidYMid meet"
             xmlns="http://www.w3.org/2000/svg"
@@ -106,10 +107,10 @@ export const CardImageSvg: React.FC<CardImageSvgProps> = ({
                         <rect
                             x={viewBoxX}
                             y={viewBoxY}
-                            width={CONSTANTS.CARD_WIDTH_MM}
-                            height={CONSTANTS.CARD_HEIGHT_MM}
-                            rx={CONSTANTS.CORNER_RADIUS_MM}
-                            ry={CONSTANTS.CORNER_RADIUS_MM}
+                            width={cardSize.widthMm}
+                            height={cardSize.heightMm}
+                            rx={cardSize.cornerRadiusMm}
+                            ry={cardSize.cornerRadiusMm}
                         />
                     </clipPath>
                 )}
@@ -120,10 +121,10 @@ export const CardImageSvg: React.FC<CardImageSvgProps> = ({
                 <rect
                     x={viewBoxX}
                     y={viewBoxY}
-                    width={CONSTANTS.CARD_WIDTH_MM}
-                    height={CONSTANTS.CARD_HEIGHT_MM}
-                    rx={rounded ? CONSTANTS.CORNER_RADIUS_MM : 0}
-                    ry={rounded ? CONSTANTS.CORNER_RADIUS_MM : 0}
+                    width={cardSize.widthMm}
+                    height={cardSize.heightMm}
+                    rx={rounded ? cardSize.cornerRadiusMm : 0}
+                    ry={rounded ? cardSize.cornerRadiusMm : 0}
                     fill="#1f2937"
                     className="animate-pulse"
                 />
@@ -135,9 +136,9 @@ export const CardImageSvg: React.FC<CardImageSvgProps> = ({
                     href={renderUrl}
                     x="0"
                     y="0"
-                    // If bleed, use source dimensions. If not, fill the card area (63x88)
-                    width={bleed ? bleed.sourceWidthMm : CONSTANTS.CARD_WIDTH_MM}
-                    height={bleed ? bleed.sourceHeightMm : CONSTANTS.CARD_HEIGHT_MM}
+                    // If bleed, use source dimensions. If not, fill the card area
+                    width={bleed ? bleed.sourceWidthMm : cardSize.widthMm}
+                    height={bleed ? bleed.sourceHeightMm : cardSize.heightMm}
                     preserveAspectRatio="xMidYMid slice"
                     clipPath={rounded ? `url(#${clipId})` : undefined}
                     style={{ opacity: hasLoaded ? 1 : 0 }}
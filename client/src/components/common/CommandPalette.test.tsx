@@ -0,0 +1,88 @@
+import '@testing-library/jest-dom';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { CommandPalette } from './CommandPalette';
+import { useKeyboardShortcutsStore } from '../../store/keyboardShortcuts';
+import { useProjectStore } from '../../store/projectStore';
+import { registerCommandHandler } from '../../helpers/commands';
+
+vi.mock('flowbite-react', () => ({
+    Modal: ({ show, children }: { show: boolean, children: React.ReactNode }) => (
+        show ? <div data-testid="modal">{children}</div> : null
+    ),
+    ModalBody: ({ children }: { children: React.ReactNode }) => <div>{children}</div>,
+}));
+
+vi.mock('lucide-react', () => ({
+    Search: () => <span>search</span>,
+}));
+
+describe('CommandPalette', () => {
+    const undo = vi.fn();
+    const flip = vi.fn();
+    let unregister: (() => void)[] = [];
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        unregister = [registerCommandHandler('undo', undo), registerCommandHandler('flip', flip)];
+        useKeyboardShortcutsStore.getState().openPalette();
+    });
+
+    afterEach(() => {
+        unregister.forEach((fn) => fn());
+        useKeyboardShortcutsStore.getState().closePalette();
+    });
+
+    it('should list only commands with a registered handler', () => {
+        render(<CommandPalette />);
+
+        const options = screen.getAllByRole('option');
+        expect(options.map((o) => o.textContent)).toEqual([
+            expect.stringContaining('Undo'),
+            expect.stringContaining('Flip Selected Cards'),
+        ]);
+    });
+
+    it('should fuzzy filter and run the chosen command with Enter', () => {
+        render(<CommandPalette />);
+
+        fireEvent.change(screen.getByLabelText('Search commands'), { target: { value: 'flp' } });
+        expect(screen.getAllByRole('option')).toHaveLength(1);
+
+        fireEvent.keyDown(screen.getByLabelText('Search commands'), { key: 'Enter' });
+        expect(flip).toHaveBeenCalledTimes(1);
+        expect(useKeyboardShortcutsStore.getState().isPaletteOpen).toBe(false);
+    });
+
+    it('should move the selection with the arrow keys', () => {
+        render(<CommandPalette />);
+        const input = screen.getByLabelText('Search commands');
+
+        fireEvent.keyDown(input, { key: 'ArrowDown' });
+        expect(screen.getAllByRole('option')[1]).toHaveAttribute('aria-selected', 'true');
+
+        fireEvent.keyDown(input, { key: 'Enter' });
+        expect(flip).toHaveBeenCalled();
+        expect(undo).not.toHaveBeenCalled();
+    });
+
+    it('should switch projects in projects mode', () => {
+        const switchProject = vi.fn().mockResolvedValue(undefined);
+        useProjectStore.setState({
+            currentProjectId: 'a',
+            projects: [
+                { id: 'a', name: 'Elves', createdAt: 0, lastOpenedAt: 2, cardCount: 100, settings: {} },
+                { id: 'b', name: 'Goblins', createdAt: 0, lastOpenedAt: 1, cardCount: 60, settings: {} },
+            ],
+            loadProjects: vi.fn().mockResolvedValue(undefined),
+            switchProject,
+        });
+        useKeyboardShortcutsStore.getState().openPalette('projects');
+        render(<CommandPalette />);
+
+        fireEvent.change(screen.getByLabelText('Search projects'), { target: { value: 'gob' } });
+        fireEvent.keyDown(screen.getByLabelText('Search projects'), { key: 'Enter' });
+
+        expect(switchProject).toHaveBeenCalledWith('b');
+    });
+});
@@ -0,0 +1,153 @@
+/**
+ * CommandPalette - Ctrl+K fuzzy search over every registered command, or over
+ * projects when opened with the Switch Project command
+ */
+import { useEffect, useMemo, useState } from 'react';
+import { Modal, ModalBody } from 'flowbite-react';
+import { Search } from 'lucide-react';
+import { useKeyboardShortcutsStore } from '../../store/keyboardShortcuts';
+import { useProjectStore } from '../../store/projectStore';
+import { useUserPreferencesStore } from '../../store/userPreferences';
+import {
+    COMMANDS,
+    formatBindingKeys,
+    fuzzyScore,
+    hasCommandHandler,
+    resolveKeyBindings,
+    runCommand,
+} from '../../helpers/commands';
+
+interface PaletteItem {
+    id: string;
+    label: string;
+    detail?: string;
+    keys?: string[];
+    run: () => void;
+}
+
+export function CommandPalette() {
+    const isOpen = useKeyboardShortcutsStore((state) => state.isPaletteOpen);
+    const mode = useKeyboardShortcutsStore((state) => state.paletteMode);
+    const closePalette = useKeyboardShortcutsStore((state) => state.closePalette);
+    const projects = useProjectStore((state) => state.projects);
+    const currentProjectId = useProjectStore((state) => state.currentProjectId);
+    const keyBindings = useUserPreferencesStore((state) => state.preferences?.keyBindings);
+
+    const [query, setQuery] = useState('');
+    const [activeIndex, setActiveIndex] = useState(0);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setQuery('');
+        setActiveIndex(0);
+        if (mode === 'projects') void useProjectStore.getState().loadProjects();
+    }, [isOpen, mode]);
+
+    const items = useMemo((): PaletteItem[] => {
+        if (!isOpen) return [];
+        if (mode === 'projects') {
+            return [...projects]
+                .sort((a, b) => b.lastOpenedAt - a.lastOpenedAt)
+                .map((project) => ({
+                    id: project.id,
+                    label: project.name,
+                    detail: project.id === currentProjectId ? 'Current' : `${project.cardCount} cards`,
+                    run: () => void useProjectStore.getState().switchProject(project.id),
+                }));
+        }
+
+        // Only commands something on screen can run right now
+        const bindings = resolveKeyBindings(keyBindings);
+        return COMMANDS
+            .filter((command) => command.id !== 'commandPalette' && hasCommandHandler(command.id))
+            .map((command) => ({
+                id: command.id,
+                label: command.label,
+                detail: command.group,
+                keys: bindings[command.id][0] ? formatBindingKeys(bindings[command.id][0]) : undefined,
+                run: () => runCommand(command.id),
+            }));
+    }, [isOpen, mode, projects, currentProjectId, keyBindings]);
+
+    const results = useMemo(() => {
+        if (!query.trim()) return items;
+        return items
+            .map((item) => ({ item, score: fuzzyScore(query, item.label) }))
+            .filter((entry): entry is { item: PaletteItem; score: number } => entry.score !== null)
+            .sort((a, b) => b.score - a.score)
+            .map((entry) => entry.item);
+    }, [items, query]);
+
+    const select = (item: PaletteItem | undefined) => {
+        if (!item) return;
+        // Close first so commands that open a modal are not covered by the palette
+        closePalette();
+        item.run();
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'ArrowDown') {
+            e.preventDefault();
+            setActiveIndex((i) => Math.min(results.length - 1, i + 1));
+        } else if (e.key === 'ArrowUp') {
+            e.preventDefault();
+            setActiveIndex((i) => Math.max(0, i - 1));
+        } else if (e.key === 'Enter') {
+            e.preventDefault();
+            select(results[activeIndex]);
+        } else if (e.key === 'Escape') {
+            e.preventDefault();
+            closePalette();
+        }
+    };
+
+    return (
+        <Modal show={isOpen} onClose={closePalette} size="lg" position="top-center" dismissible>
+            <ModalBody className="p-0">
+                <div className="flex items-center gap-2 px-3 border-b border-gray-200 dark:border-gray-700">
+                    <Search className="size-4 text-gray-400" />
+                    <input
+                        autoFocus
+                        value={query}
+                        onChange={(e) => {
+                            setQuery(e.target.value);
+                            setActiveIndex(0);
+                        }}
+                        onKeyDown={handleKeyDown}
+                        placeholder={mode === 'projects' ? 'Switch to project…' : 'Type a command…'}
+                        aria-label={mode === 'projects' ? 'Search projects' : 'Search commands'}
+                        className="w-full py-3 bg-transparent border-0 focus:ring-0 text-gray-900 dark:text-white placeholder-gray-400"
+                    />
+                </div>
+                <ul role="listbox" className="max-h-80 overflow-y-auto py-1">
+                    {results.length === 0 && (
+                        <li className="px-4 py-3 text-sm text-gray-500 dark:text-gray-400">No matches</li>
+                    )}
+                    {results.map((item, i) => (
+                        <li
+                            key={item.id}
+                            role="option"
+                            aria-selected={i === activeIndex}
+                            onMouseEnter={() => setActiveIndex(i)}
+                            onClick={() => select(item)}
+                            className={`flex items-center justify-between gap-4 px-4 py-2 text-sm cursor-pointer ${i === activeIndex
+                                ? 'bg-blue-600 text-white'
+                                : 'text-gray-700 dark:text-gray-300'
+                                }`}
+                        >
+                            <span className="truncate">{item.label}</span>
+                            <span className="flex items-center gap-2 shrink-0 text-xs opacity-70">
+                                {item.detail}
+                                {item.keys && (
+                                    <kbd className="px-1.5 py-0.5 font-semibold border rounded border-current">
+                                        {item.keys.join('+')}
+                                    </kbd>
+                                )}
+                            </span>
+                        </li>
+                    ))}
+                </ul>
+            </ModalBody>
+        </Modal>
+    );
+}
@@ -3,6 +3,14 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { render, screen, fireEvent } from '@testing-library/react';
 import { KeyboardShortcutsModal } from './KeyboardShortcutsModal';
 import { useKeyboardShortcutsStore, type KeyboardShortcutsState } from '../../store/keyboardShortcuts';
+import { useUserPreferencesStore } from '../../store/userPreferences';
+
+const mockSetKeyBindings = vi.hoisted(() => vi.fn());
+const mockPreferences = vi.hoisted(() => ({ keyBindings: undefined as Record<string, string[]> | undefined }));
+
+vi.mock('../../store/userPreferences', () => ({
+    useUserPreferencesStore: vi.fn(),
+}));
 
 // Mock store
 vi.mock('../../store/keyboardShortcuts', () => ({
@@ -24,6 +32,9 @@ vi.mock('flowbite-react', () => ({
 // Mock Lucide icons
 vi.mock('lucide-react', () => ({
     Keyboard: () => <span data-testid="keyboard-icon">KeyboardIcon</span>,
+    Plus: () => <span>+</span>,
+    RotateCcw: () => <span>reset</span>,
+    X: () => <span>x</span>,
 }));
 
 describe('KeyboardShortcutsModal', () => {
@@ -32,6 +43,9 @@ describe('KeyboardShortcutsModal', () => {
 
     beforeEach(() => {
         vi.clearAllMocks();
+        mockPreferences.keyBindings = undefined;
+        vi.mocked(useUserPreferencesStore).mockImplementation(((selector: (state: unknown) => unknown) =>
+            selector({ preferences: mockPreferences, setKeyBindings: mockSetKeyBindings })) as never);
     });
 
     const mockState = (isOpen: boolean) => ({
@@ -39,6 +53,10 @@ describe('KeyboardShortcutsModal', () => {
         openModal: vi.fn(),
         closeModal: mockCloseModal,
         toggleModal: vi.fn(),
+        isPaletteOpen: false,
+        paletteMode: 'commands' as const,
+        openPalette: vi.fn(),
+        closePalette: vi.fn(),
     });
 
     it('should render nothing when closed', () => {
@@ -110,4 +128,58 @@ describe('KeyboardShortcutsModal', () => {
         const ctrlKeys = screen.getAllByText('Ctrl');
         expect(ctrlKeys.length).toBeGreaterThan(0);
     });
+
+    describe('remapping', () => {
+        beforeEach(() => {
+            Object.defineProperty(navigator, 'platform', { value: 'Win32', configurable: true });
+            mockStore.mockImplementation((selector: (state: KeyboardShortcutsState) => unknown) =>
+                selector(mockState(true))
+            );
+        });
+
+        it('should record a new shortcut and store only the overrides', () => {
+            render(<KeyboardShortcutsModal />);
+
+            fireEvent.click(screen.getByLabelText('Add shortcut for Flip Selected Cards'));
+            expect(screen.getByText(/Press keys/)).toBeInTheDocument();
+            fireEvent.keyDown(window, { key: 'g', ctrlKey: true });
+
+            expect(mockSetKeyBindings).toHaveBeenCalledWith({ flip: ['F', 'Mod+G'] });
+        });
+
+        it('should cancel recording on Escape without closing', () => {
+            render(<KeyboardShortcutsModal />);
+
+            fireEvent.click(screen.getByLabelText('Add shortcut for Flip Selected Cards'));
+            fireEvent.keyDown(window, { key: 'Escape' });
+
+            expect(screen.queryByText(/Press keys/)).toBeNull();
+            expect(mockCloseModal).not.toHaveBeenCalled();
+            expect(mockSetKeyBindings).not.toHaveBeenCalled();
+        });
+
+        it('should ask before taking a shortcut from another command', () => {
+            render(<KeyboardShortcutsModal />);
+
+            fireEvent.click(screen.getByLabelText('Add shortcut for Flip Selected Cards'));
+            fireEvent.keyDown(window, { key: 'd', ctrlKey: true });
+
+            expect(screen.getByRole('alert')).toHaveTextContent('already used by Duplicate Selected Cards');
+            expect(mockSetKeyBindings).not.toHaveBeenCalled();
+
+            fireEvent.click(screen.getByText('Reassign to Flip Selected Cards'));
+            expect(mockSetKeyBindings).toHaveBeenCalledWith({ duplicate: [], flip: ['F', 'Mod+D'] });
+        });
+
+        it('should highlight stored conflicts and reset a command', () => {
+            mockPreferences.keyBindings = { flip: ['Mod+Z'] };
+            render(<KeyboardShortcutsModal />);
+
+            expect(screen.getAllByTitle('Also bound to Flip Selected Cards').length).toBe(1);
+            expect(screen.getAllByTitle('Also bound to Undo').length).toBe(1);
+
+            fireEvent.click(screen.getByLabelText('Reset Flip Selected Cards'));
+            expect(mockSetKeyBindings).toHaveBeenCalledWith({});
+        });
+    });
 });
@@ -1,54 +1,143 @@
 /**
- * KeyboardShortcutsModal - Displays keyboard shortcuts help
+ * KeyboardShortcutsModal - Lists keyboard shortcuts and lets the user remap them
  */
-import { useEffect } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { Modal, ModalHeader, ModalBody } from 'flowbite-react';
 import { useKeyboardShortcutsStore } from '../../store/keyboardShortcuts';
-import { Keyboard } from 'lucide-react';
+import { useUserPreferencesStore } from '../../store/userPreferences';
+import { Keyboard, Plus, RotateCcw, X } from 'lucide-react';
+import {
+    COMMANDS,
+    eventToBinding,
+    findBindingConflicts,
+    formatBindingKeys,
+    getCommand,
+    resolveKeyBindings,
+    type CommandId,
+    type KeyBindings,
+} from '../../helpers/commands';
 
 interface Shortcut {
     keys: string[];
     description: string;
 }
 
-const shortcuts: Shortcut[] = [
-    { keys: ['Ctrl', 'Z'], description: 'Undo' },
-    { keys: ['Ctrl', 'Shift', 'Z'], description: 'Redo' },
-    { keys: ['Ctrl', 'A'], description: 'Select All Cards' },
-    { keys: ['Ctrl', 'C'], description: 'Copy Selected Card Names' },
-    { keys: ['Ctrl', 'X'], description: 'Cut Selected Cards (Copy + Delete)' },
-    { keys: ['Ctrl', 'D'], description: 'Duplicate Selected Cards' },
-    { keys: ['Ctrl', 'Delete'], description: 'Delete Selected Cards' },
-    { keys: ['Ctrl', '/'], description: 'Show Keyboard Shortcuts' },
-    { keys: ['Ctrl', '\\'], description: 'Show Keyboard Shortcuts (alt)' },
-    { keys: ['Esc'], description: 'Clear Selection' },
-    { keys: ['F'], description: 'Flip Selected Cards' },
+// Mouse and clipboard shortcuts handled by the browser; not remappable
+const fixedShortcuts: Shortcut[] = [
+    { keys: ['Ctrl', 'V'], description: 'Paste Cards or Decklist' },
     { keys: ['Click'], description: 'Select Card' },
     { keys: ['Ctrl', 'Click'], description: 'Toggle Card Selection' },
     { keys: ['Shift', 'Click'], description: 'Select Range' },
 ];
 
+function KeyCombo({ keys }: { keys: string[] }) {
+    return (
+        <>
+            {keys.map((key, i) => (
+                <span key={i}>
+                    <kbd className="px-2 py-1 text-xs font-semibold text-gray-800 bg-gray-100 border border-gray-200 rounded-lg dark:bg-gray-600 dark:text-gray-100 dark:border-gray-500">
+                        {key}
+                    </kbd>
+                    {i < keys.length - 1 && <span className="mx-1 text-gray-400">+</span>}
+                </span>
+            ))}
+        </>
+    );
+}
+
 function ShortcutRow({ shortcut }: { shortcut: Shortcut }) {
     return (
         <div className="flex justify-between items-center py-2 border-b border-gray-200 dark:border-gray-700 last:border-0">
             <span className="text-gray-700 dark:text-gray-300">{shortcut.description}</span>
             <div className="flex gap-1">
-                {shortcut.keys.map((key, i) => (
-                    <span key={i}>
-                        <kbd className="px-2 py-1 text-xs font-semibold text-gray-800 bg-gray-100 border border-gray-200 rounded-lg dark:bg-gray-600 dark:text-gray-100 dark:border-gray-500">
-                            {key}
-                        </kbd>
-                        {i < shortcut.keys.length - 1 && <span className="mx-1 text-gray-400">+</span>}
-                    </span>
-                ))}
+                <KeyCombo keys={shortcut.keys} />
             </div>
         </div>
     );
 }
 
+/** Only store bindings that differ from the defaults */
+function toOverrides(bindings: Record<CommandId, string[]>): KeyBindings {
+    const overrides: KeyBindings = {};
+    for (const command of COMMANDS) {
+        const current = bindings[command.id];
+        const isDefault = current.length === command.defaultBindings.length &&
+            current.every((b, i) => b === command.defaultBindings[i]);
+        if (!isDefault) overrides[command.id] = current;
+    }
+    return overrides;
+}
+
 export function KeyboardShortcutsModal() {
     const isOpen = useKeyboardShortcutsStore((state) => state.isOpen);
     const closeModal = useKeyboardShortcutsStore((state) => state.closeModal);
+    const keyBindings = useUserPreferencesStore((state) => state.preferences?.keyBindings);
+    const setKeyBindings = useUserPreferencesStore((state) => state.setKeyBindings);
+
+    const bindings = useMemo(() => resolveKeyBindings(keyBindings), [keyBindings]);
+    const conflicts = useMemo(() => findBindingConflicts(bindings), [bindings]);
+
+    // Command waiting for a key press, and a press that clashed with another command
+    const [recording, setRecording] = useState<CommandId | null>(null);
+    const [pendingConflict, setPendingConflict] = useState<{ id: CommandId; binding: string; otherId: CommandId } | null>(null);
+
+    useEffect(() => {
+        if (!isOpen) {
+            setRecording(null);
+            setPendingConflict(null);
+        }
+    }, [isOpen]);
+
+    const saveBindings = (next: Record<CommandId, string[]>) => {
+        void setKeyBindings(toOverrides(next));
+    };
+
+    const addBinding = (id: CommandId, binding: string, takeFrom?: CommandId) => {
+        const next = { ...bindings, [id]: [...bindings[id], binding] };
+        if (takeFrom) next[takeFrom] = next[takeFrom].filter((b) => b !== binding);
+        saveBindings(next);
+    };
+
+    const removeBinding = (id: CommandId, binding: string) => {
+        saveBindings({ ...bindings, [id]: bindings[id].filter((b) => b !== binding) });
+    };
+
+    const resetBindings = (id?: CommandId) => {
+        if (!id) {
+            void setKeyBindings({});
+            return;
+        }
+        const next = { ...bindings, [id]: getCommand(id)?.defaultBindings ?? [] };
+        saveBindings(next);
+    };
+
+    // Capture the next key combination while recording
+    useEffect(() => {
+        if (!isOpen || !recording) return;
+
+        const handleKeyDown = (e: KeyboardEvent) => {
+            e.preventDefault();
+            e.stopPropagation();
+            if (e.key === 'Escape') {
+                setRecording(null);
+                return;
+            }
+            const binding = eventToBinding(e);
+            if (!binding) return;
+
+            setRecording(null);
+            if (bindings[recording].includes(binding)) return;
+            const otherId = COMMANDS.find((c) => c.id !== recording && bindings[c.id].includes(binding))?.id;
+            if (otherId) {
+                setPendingConflict({ id: recording, binding, otherId });
+            } else {
+                addBinding(recording, binding);
+            }
+        };
+
+        window.addEventListener('keydown', handleKeyDown, true);
+        return () => window.removeEventListener('keydown', handleKeyDown, true);
+    });
 
     // Handle keyboard shortcuts to close modal
     useEffect(() => {
@@ -67,7 +156,7 @@ export function KeyboardShortcutsModal() {
     }, [isOpen, closeModal]);
 
     return (
-        <Modal show={isOpen} onClose={closeModal} size="md">
+        <Modal show={isOpen} onClose={closeModal} size="lg">
             <ModalHeader>
                 <div className="flex items-center gap-2">
                     <Keyboard className="size-5" />
@@ -75,14 +164,110 @@ export function KeyboardShortcutsModal() {
                 </div>
             </ModalHeader>
             <ModalBody>
+                {pendingConflict && (
+                    <div role="alert" className="mb-3 p-3 rounded-lg text-sm bg-yellow-50 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-200">
+                        <KeyCombo keys={formatBindingKeys(pendingConflict.binding)} /> is already used by{' '}
+                        <strong>{getCommand(pendingConflict.otherId)?.label}</strong>.
+                        <div className="flex gap-2 mt-2">
+                            <button
+                                type="button"
+                                className="px-2 py-1 text-xs rounded bg-yellow-600 text-white hover:bg-yellow-700"
+                                onClick={() => {
+                                    addBinding(pendingConflict.id, pendingConflict.binding, pendingConflict.otherId);
+                                    setPendingConflict(null);
+                                }}
+                            >
+                                Reassign to {getCommand(pendingConflict.id)?.label}
+                            </button>
+                            <button
+                                type="button"
+                                className="px-2 py-1 text-xs rounded hover:bg-yellow-100 dark:hover:bg-yellow-800"
+                                onClick={() => setPendingConflict(null)}
+                            >
+                                Cancel
+                            </button>
+                        </div>
+                    </div>
+                )}
                 <div className="flex flex-col">
-                    {shortcuts.map((shortcut, i) => (
+                    {COMMANDS.map((command) => (
+                        <div
+                            key={command.id}
+                            className="flex justify-between items-center gap-4 py-2 border-b border-gray-200 dark:border-gray-700"
+                        >
+                            <span className="text-gray-700 dark:text-gray-300">{command.label}</span>
+                            <div className="flex flex-wrap justify-end items-center gap-2">
+                                {bindings[command.id].map((binding) => {
+                                    const clash = conflicts.get(binding)?.filter((id) => id !== command.id);
+                                    return (
+                                        <span
+                                            key={binding}
+                                            className={`group flex items-center rounded-lg ${clash?.length ? 'ring-2 ring-red-500' : ''}`}
+                                            title={clash?.length ? `Also bound to ${clash.map((id) => getCommand(id)?.label).join(', ')}` : undefined}
+                                        >
+                                            <KeyCombo keys={formatBindingKeys(binding)} />
+                                            <button
+                                                type="button"
+                                                onClick={() => removeBinding(command.id, binding)}
+                                                className="ml-0.5 p-0.5 rounded text-gray-400 hover:text-red-500 opacity-0 group-hover:opacity-100 focus:opacity-100"
+                                                aria-label={`Remove ${binding} from ${command.label}`}
+                                            >
+                                                <X className="size-3" />
+                                            </button>
+                                        </span>
+                                    );
+                                })}
+                                {recording === command.id ? (
+                                    <span className="text-xs text-blue-600 dark:text-blue-400">Press keys… (Esc to cancel)</span>
+                                ) : (
+                                    <button
+                                        type="button"
+                                        onClick={() => {
+                                            setPendingConflict(null);
+                                            setRecording(command.id);
+                                        }}
+                                        className="p-1 rounded text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+                                        aria-label={`Add shortcut for ${command.label}`}
+                                        title="Add shortcut"
+                                    >
+                                        <Plus className="size-3.5" />
+                                    </button>
+                                )}
+                                {keyBindings?.[command.id] && (
+                                    <button
+                                        type="button"
+                                        onClick={() => resetBindings(command.id)}
+                                        className="p-1 rounded text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+                                        aria-label={`Reset ${command.label}`}
+                                        title="Reset to default"
+                                    >
+                                        <RotateCcw className="size-3.5" />
+                                    </button>
+                                )}
+                            </div>
+                        </div>
+                    ))}
+                    {fixedShortcuts.map((shortcut, i) => (
                         <ShortcutRow key={i} shortcut={shortcut} />
                     ))}
                 </div>
-                <p className="mt-4 text-xs text-gray-500 dark:text-gray-400">
-                    On macOS, use ⌘ Cmd instead of Ctrl
-                </p>
+                <div className="mt-4 flex items-center justify-between gap-4">
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                        Click + and press a key combination to add a shortcut.
+                        {bindings.commandPalette[0] && (
+                            <> Press {formatBindingKeys(bindings.commandPalette[0]).join('+')} to search all commands.</>
+                        )}
+                    </p>
+                    {keyBindings && Object.keys(keyBindings).length > 0 && (
+                        <button
+                            type="button"
+                            onClick={() => resetBindings()}
+                            className="shrink-0 text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                        >
+                            Reset all
+                        </button>
+                    )}
+                </div>
             </ModalBody>
         </Modal>
     );
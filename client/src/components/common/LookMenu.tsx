@@ -0,0 +1,59 @@
+/**
+ * LookMenu - Saved card editor looks as a pickable list, used by the page view
+ * context menu and selection bar
+ */
+import { Palette } from 'lucide-react';
+import { useUserPreferencesStore } from '../../store/userPreferences';
+import type { OverridesPreset } from '../../db';
+
+export function LookThumbnail({ preset, className = 'w-8 h-11' }: { preset: OverridesPreset; className?: string }) {
+    if (preset.thumbnail) {
+        return (
+            <img
+                src={preset.thumbnail}
+                alt=""
+                className={`${className} object-cover rounded-sm shrink-0`}
+                draggable={false}
+            />
+        );
+    }
+    return (
+        <span className={`${className} flex items-center justify-center rounded-sm shrink-0 bg-gray-200 dark:bg-gray-600 text-gray-400`}>
+            <Palette className="size-4" />
+        </span>
+    );
+}
+
+interface LookMenuProps {
+    onSelect: (preset: OverridesPreset) => void;
+}
+
+export function LookMenu({ onSelect }: LookMenuProps) {
+    const presets = useUserPreferencesStore((state) => state.preferences?.overridesPresets);
+
+    if (!presets || presets.length === 0) {
+        return (
+            <p className="px-3 py-2 text-xs text-gray-500 dark:text-gray-400 max-w-48">
+                No saved looks yet. Save one from the card editor.
+            </p>
+        );
+    }
+
+    return (
+        <ul role="menu" className="flex flex-col max-h-64 overflow-y-auto">
+            {presets.map((preset) => (
+                <li key={preset.name} role="none">
+                    <button
+                        type="button"
+                        role="menuitem"
+                        onClick={() => onSelect(preset)}
+                        className="w-full flex items-center gap-2 px-2 py-1 rounded-md text-left text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+                    >
+                        <LookThumbnail preset={preset} />
+                        <span className="truncate">{preset.name}</span>
+                    </button>
+                </li>
+            ))}
+        </ul>
+    );
+}
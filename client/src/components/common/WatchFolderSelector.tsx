@@ -0,0 +1,77 @@
+import { useEffect, useState } from 'react';
+import { Button, Label } from 'flowbite-react';
+import { AutoTooltip } from './index';
+import { FolderOpen, HelpCircle, X } from 'lucide-react';
+
+/**
+ * Watch folder picker for Electron app.
+ * Only renders when running in Electron (window.electronAPI exists).
+ * New images saved into the chosen folder are added to the upload library.
+ */
+export function WatchFolderSelector() {
+    const [folder, setFolder] = useState<string | null>(null);
+    const [isElectron, setIsElectron] = useState(false);
+
+    // Check for Electron on mount
+    useEffect(() => {
+        const getWatchFolder = window.electronAPI?.getWatchFolder;
+        setIsElectron(typeof getWatchFolder === 'function');
+
+        if (!getWatchFolder) return;
+
+        getWatchFolder()
+            .then(setFolder)
+            .catch((e) => console.error('Failed to get watch folder:', e));
+    }, []);
+
+    const handleChoose = async () => {
+        try {
+            const chosen = await window.electronAPI?.chooseWatchFolder?.();
+            if (chosen) setFolder(chosen);
+        } catch (e) {
+            console.error('Failed to set watch folder:', e);
+        }
+    };
+
+    const handleClear = async () => {
+        try {
+            await window.electronAPI?.clearWatchFolder?.();
+            setFolder(null);
+        } catch (e) {
+            console.error('Failed to clear watch folder:', e);
+        }
+    };
+
+    // Only render in Electron
+    if (!isElectron) {
+        return null;
+    }
+
+    return (
+        <div className="space-y-2">
+            <div className="flex items-center gap-2">
+                <Label>Watch Folder</Label>
+                <AutoTooltip content="New images saved into this folder are added to your upload library automatically." placement="top">
+                    <HelpCircle className="w-4 h-4 text-gray-400 hover:text-gray-500 dark:text-gray-500 dark:hover:text-gray-400 cursor-pointer" />
+                </AutoTooltip>
+            </div>
+            <div
+                className="text-sm text-gray-600 dark:text-gray-400 truncate"
+                title={folder ?? undefined}
+            >
+                {folder ?? 'Not watching a folder'}
+            </div>
+            <div className="flex gap-2">
+                <Button size="sm" color="light" className="flex-1" onClick={handleChoose}>
+                    <FolderOpen className="w-4 h-4 mr-2" />
+                    {folder ? 'Change' : 'Choose Folder'}
+                </Button>
+                {folder && (
+                    <Button size="sm" color="light" onClick={handleClear} aria-label="Stop watching folder">
+                        <X className="w-4 h-4" />
+                    </Button>
+                )}
+            </div>
+        </div>
+    );
+}
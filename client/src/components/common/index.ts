@@ -24,8 +24,11 @@ export { ColorPicker } from './ColorPicker';
 export { StyledSlider } from './StyledSlider';
 export { UpdateNotification } from './UpdateNotification';
 export { UpdateChannelSelector } from './UpdateChannelSelector';
+export { WatchFolderSelector } from './WatchFolderSelector';
 export { AboutModal } from './AboutModal';
 export { KeyboardShortcutsModal } from './KeyboardShortcutsModal';
+export { CommandPalette } from './CommandPalette';
+export { LookMenu, LookThumbnail } from './LookMenu';
 export { ResponsiveModal } from './ResponsiveModal';
 export type { ResponsiveModalProps } from './ResponsiveModal';
 
@@ -1,5 +1,8 @@
 import Dexie, { type Table } from 'dexie';
-import type { CardOption, PrintInfo } from '@/types';
+import type { CardOption, CardOverrides, MpcSearchFilters, PrintInfo } from '@/types';
+import type { UndoableAction } from './store/undoRedo';
+import type { PrintProfileSettings } from './helpers/printProfiles';
+import type { KeyBindings } from './helpers/commands';
 
 // Image source types for explicit tracking
 export type ImageSource = 'mpc' | 'scryfall' | 'upload-library' | 'cardback';
@@ -23,6 +26,7 @@ export interface Image {
   // Generation Metadata (for invalidating cache on setting changes)
   generatedHasBuiltInBleed?: boolean;
   generatedBleedMode?: string;
+  generatedCardSize?: string; // getCardSizeKey() of the card size the blobs were generated at
 
   // Darkened versions for each mode (instant toggle)
   // Mode 1: Darken All (legacy threshold)
@@ -78,6 +82,7 @@ export interface Cardback {
   // Generation metadata
   generatedHasBuiltInBleed?: boolean;
   generatedBleedMode?: string;
+  generatedCardSize?: string;
 
   // Source and display
   sourceUrl?: string;
@@ -111,6 +116,7 @@ export interface Project {
   shareId?: string;        // Server share ID (for auto-sync)
   lastSharedAt?: number;   // Timestamp of last share (enables auto-sync)
   lastSyncedHash?: string; // Hash of the state at last sync (to detect local edits)
+  shareEditToken?: string; // Secret token proving ownership of shareId (required to update/delete it)
 }
 
 // Persistent user uploads (content-addressed, shared across projects)
@@ -118,6 +124,7 @@ export interface Project {
 export interface UserImage {
   hash: string;           // Primary key - SHA-256 hash for deduplication
   data: Blob;             // The raw image file
+  phash?: string;         // Perceptual hash for near-duplicate detection (see perceptualHash.ts)
   type: string;           // MIME type
   createdAt: number;
   displayName?: string;
@@ -143,6 +150,7 @@ export interface UserPreferences {
   favoriteMpcDpi?: number | null;
   favoriteMpcSort?: 'name' | 'dpi' | 'source' | null;
   favoriteMpcGroupBySource?: boolean;
+  mpcSearchFilters?: MpcSearchFilters | null;  // Sent with every MPC search; null = server defaults
   // Global Scryfall Favorites
   favoriteScryfallSets?: string[];
   favoriteScryfallSort?: 'name' | 'released' | null;
@@ -161,6 +169,57 @@ export interface UserPreferences {
   cardEditorSectionCollapsed?: Record<string, boolean>;
   cardEditorSectionOrder?: string[];
   filterSectionCollapsed?: Record<string, boolean>;
+  // Saved duplex calibrations, one per printer
+  printerCalibrations?: PrinterCalibrationProfile[];
+  // Named layout settings shared by all projects
+  printProfiles?: PrintProfile[];
+  selectedPrintProfile?: string | null;
+  // Remapped keyboard shortcuts; commands not listed use their defaults
+  keyBindings?: KeyBindings;
+  // Saved card editor looks shared by all projects
+  overridesPresets?: OverridesPreset[];
+}
+
+export interface OverridesPreset {
+  name: string;               // Unique (case-insensitive)
+  overrides: CardOverrides;
+  thumbnail?: string;         // Small PNG data URL of a card with the look applied
+  updatedAt: number;
+}
+
+export interface PrintProfile {
+  name: string;                               // Unique (case-insensitive)
+  settings: Partial<PrintProfileSettings>;    // Layout subset of the settings store
+  updatedAt: number;
+}
+
+// Back alignment measured with the printer calibration wizard
+export interface PrinterCalibrationProfile {
+  name: string;                // Printer name, unique (case-insensitive)
+  columns: number;             // Grid the per-slot offsets were measured on
+  rows: number;
+  cardBackPositionX: number;
+  cardBackPositionY: number;
+  perCardBackOffsets: Record<number, { x: number; y: number; rotation: number }>;
+  updatedAt: number;
+}
+
+// Persisted undo/redo stacks - one record per project, replayed after reload
+export interface UndoHistoryRecord {
+  projectId: string;           // Primary key
+  undoStack: UndoableAction[]; // Oldest first
+  redoStack: UndoableAction[]; // Next redo last
+  updatedAt: number;
+}
+
+// Printer ICC profile for soft proofing and export conversion
+export interface IccProfileRecord {
+  id: string;                  // UUID
+  name: string;                // Profile description (or file name)
+  colorSpace: string;          // Device color space, e.g. 'RGB' or 'CMYK'
+  deviceClass: string;         // Profile class, e.g. 'prtr'
+  data: ArrayBuffer;           // The raw .icc/.icm file
+  createdAt: number;
 }
 
 export interface CachedImage {
@@ -168,6 +227,10 @@ export interface CachedImage {
   blob: Blob;         // Original unprocessed image
   cachedAt: number;   // Timestamp for TTL calculation (last accessed)
   size: number;       // Size in bytes
+  phash?: string;     // Perceptual hash, used to identify matching uploads
+  cardName?: string;  // Print the image was fetched for (Scryfall/MPC cards)
+  cardSet?: string;
+  cardNumber?: string;
 }
 
 // Pre-rendered effect cache for cards with overrides (holo, brightness, etc.)
@@ -211,6 +274,12 @@ class ProxxiedDexie extends Dexie {
   // Persistent custom image storage (content-addressed)
   user_images!: Table<UserImage, string>;
 
+  // Per-project undo history (data-only commands)
+  undoHistory!: Table<UndoHistoryRecord, string>;
+
+  // Imported ICC profiles (global, shared by all projects)
+  iccProfiles!: Table<IccProfileRecord, string>;
+
   constructor() {
     super('ProxxiedDB');
     this.version(1).stores({
@@ -491,11 +560,46 @@ class ProxxiedDexie extends Dexie {
         .filter(img => img.source === 'custom')
         .modify({ source: 'upload-library' });
     });
+
+    // Version 22: Add undoHistory table for persistent per-project undo/redo
+    this.version(22).stores({
+      cards: '&uuid, imageId, order, name, needsEnrichment, needs_token, linkedFrontId, linkedBackId, projectId',
+      images: '&id, refCount, displayDpi, displayBleedWidth, exportDpi, exportBleedWidth',
+      cardbacks: '&id',
+      settings: '&id',
+      imageCache: '&url, cachedAt',
+      cardMetadataCache: 'id, name, set, number, cachedAt',
+      effectCache: '&key, cachedAt',
+      mpcSearchCache: '&[query+cardType], cachedAt',
+      projects: '&id, shareId, lastOpenedAt',
+      userPreferences: '&id',
+      user_images: '&hash, displayName, isFavorite, createdAt',
+      scryfallSetsCache: '&key, cachedAt',
+      undoHistory: '&projectId',
+    });
+
+    // Version 23: Add iccProfiles table for printer soft proofing
+    this.version(23).stores({
+      cards: '&uuid, imageId, order, name, needsEnrichment, needs_token, linkedFrontId, linkedBackId, projectId',
+      images: '&id, refCount, displayDpi, displayBleedWidth, exportDpi, exportBleedWidth',
+      cardbacks: '&id',
+      settings: '&id',
+      imageCache: '&url, cachedAt',
+      cardMetadataCache: 'id, name, set, number, cachedAt',
+      effectCache: '&key, cachedAt',
+      mpcSearchCache: '&[query+cardType], cachedAt',
+      projects: '&id, shareId, lastOpenedAt',
+      userPreferences: '&id',
+      user_images: '&hash, displayName, isFavorite, createdAt',
+      scryfallSetsCache: '&key, cachedAt',
+      undoHistory: '&projectId',
+      iccProfiles: '&id, name, createdAt',
+    });
   }
 }
 
-// Cache version for metadata - bump when adding new required fields
-export const METADATA_CACHE_VERSION = 2;
+// Cache version for metadata - bump when adding new required fields (v3: prices, legalities)
+export const METADATA_CACHE_VERSION = 3;
 
 export type JsonObject = { [key: string]: Json };
 
@@ -183,6 +183,8 @@ export class ImportOrchestrator {
                         type_line?: string;
                         rarity?: string;
                         mana_cost?: string;
+                        prices?: CardOption['prices'];
+                        legalities?: CardOption['legalities'];
                         token_parts?: CardOption['token_parts'];
                     } | undefined;
                     let dfcBackInfo: { imageId: string; name: string } | undefined;
@@ -204,6 +206,8 @@ export class ImportOrchestrator {
                                     type_line: scryfallCard.type_line,
                                     rarity: scryfallCard.rarity,
                                     mana_cost: scryfallCard.mana_cost,
+                                    prices: scryfallCard.prices,
+                                    legalities: scryfallCard.legalities,
                                     token_parts: scryfallCard.token_parts,
                                 };
 
@@ -264,6 +268,8 @@ export class ImportOrchestrator {
                                     type_line: scryfallCard.type_line,
                                     rarity: scryfallCard.rarity,
                                     mana_cost: scryfallCard.mana_cost,
+                                    prices: scryfallCard.prices,
+                                    legalities: scryfallCard.legalities,
                                     token_parts: scryfallCard.token_parts,
                                 };
 
@@ -299,6 +305,8 @@ export class ImportOrchestrator {
                                         type_line: scryfallMetadata.type_line,
                                         rarity: scryfallMetadata.rarity,
                                         mana_cost: scryfallMetadata.mana_cost,
+                                        prices: scryfallMetadata.prices,
+                                        legalities: scryfallMetadata.legalities,
                                         token_parts: scryfallMetadata.token_parts,
                                         needs_token: (scryfallMetadata.token_parts?.length ?? 0) > 0,
                                     }),
@@ -464,6 +472,8 @@ export class ImportOrchestrator {
                 type_line: data.type_line,
                 rarity: data.rarity,
                 mana_cost: data.mana_cost,
+                prices: data.prices,
+                legalities: data.legalities,
                 token_parts: data.token_parts,
                 needs_token: !!data.token_parts?.length,
                 isToken: intent.isToken,
@@ -517,6 +527,8 @@ export class ImportOrchestrator {
                 type_line: undefined as string | undefined,
                 rarity: undefined as string | undefined,
                 mana_cost: undefined as string | undefined,
+                prices: undefined as CardOption['prices'],
+                legalities: undefined as CardOption['legalities'],
                 token_parts: undefined as TokenPart[] | undefined,
                 needs_token: false,
             };
@@ -535,6 +547,8 @@ export class ImportOrchestrator {
                     baseCard.type_line = scryfallCard.type_line;
                     baseCard.rarity = scryfallCard.rarity;
                     baseCard.mana_cost = scryfallCard.mana_cost;
+                    baseCard.prices = scryfallCard.prices;
+                    baseCard.legalities = scryfallCard.legalities;
                     baseCard.token_parts = scryfallCard.token_parts;
                     baseCard.needs_token = !!scryfallCard.token_parts?.length;
 
@@ -151,5 +151,10 @@ describe('hasActiveAdjustments', () => {
             expect(hasActiveAdjustments({ noiseReduction: 50 })).toBe(true);
             expect(hasActiveAdjustments({ noiseReduction: 0 })).toBe(false);
         });
+
+        it('handles a tone curve LUT', () => {
+            expect(hasActiveAdjustments({ toneLut: 'AAEC' })).toBe(true);
+            expect(hasActiveAdjustments({ toneLut: '' })).toBe(false);
+        });
     });
 });
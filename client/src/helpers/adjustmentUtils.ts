@@ -68,6 +68,7 @@ export function hasActiveAdjustments(
     if (overrides.cmykPreview) return true;
     if (overrides.colorReplaceEnabled) return true;
     if (overrides.holoEffect && overrides.holoEffect !== 'none') return true;
+    if (overrides.toneLut) return true;
 
     // Darken-related checks (used by worker to detect any per-card override)
     if (includeDarkenSettings) {
@@ -0,0 +1,86 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+    AdminApiError,
+    fetchAdminStats,
+    formatBytes,
+    getStoredAdminToken,
+    purgeCache,
+    startBulkImport,
+    storeAdminToken,
+} from "./adminApi";
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+const ok = (body: unknown) => ({ ok: true, status: 200, json: async () => body });
+
+describe("adminApi", () => {
+    beforeEach(() => {
+        mockFetch.mockReset();
+        sessionStorage.clear();
+    });
+
+    describe("token storage", () => {
+        it("should store and clear the token", () => {
+            storeAdminToken("secret");
+            expect(getStoredAdminToken()).toBe("secret");
+
+            storeAdminToken("");
+            expect(getStoredAdminToken()).toBe("");
+        });
+    });
+
+    it("should send the token as a bearer token", async () => {
+        mockFetch.mockResolvedValueOnce(ok({ offline: false }));
+
+        await fetchAdminStats("secret");
+
+        expect(mockFetch).toHaveBeenCalledWith(
+            expect.stringContaining("/api/admin/stats"),
+            expect.objectContaining({ headers: { Authorization: "Bearer secret" } })
+        );
+    });
+
+    it("should post the import source as JSON", async () => {
+        mockFetch.mockResolvedValueOnce(ok({ enabled: true }));
+
+        await startBulkImport("secret", "file");
+
+        const [, init] = mockFetch.mock.calls[0];
+        expect(init.method).toBe("POST");
+        expect(JSON.parse(init.body)).toEqual({ source: "file" });
+        expect(init.headers["Content-Type"]).toBe("application/json");
+    });
+
+    it("should purge a cache and return the removed count", async () => {
+        mockFetch.mockResolvedValueOnce(ok({ name: "mpc", removed: 3 }));
+
+        await expect(purgeCache("secret", "mpc", true)).resolves.toBe(3);
+        expect(mockFetch).toHaveBeenCalledWith(
+            expect.stringContaining("/api/admin/cache/mpc?expired=true"),
+            expect.objectContaining({ method: "DELETE" })
+        );
+    });
+
+    it("should surface the server's error with its status", async () => {
+        mockFetch.mockResolvedValueOnce({
+            ok: false,
+            status: 401,
+            json: async () => ({ error: "Invalid or missing admin token" }),
+        });
+
+        const error = await fetchAdminStats("wrong").catch((err) => err);
+
+        expect(error).toBeInstanceOf(AdminApiError);
+        expect(error.status).toBe(401);
+        expect(error.message).toBe("Invalid or missing admin token");
+    });
+
+    it.each([
+        [0, "0 B"],
+        [1536, "1.5 KB"],
+        [12 * 1024 ** 3, "12.0 GB"],
+    ])("should format %d bytes as %s", (bytes, expected) => {
+        expect(formatBytes(bytes)).toBe(expected);
+    });
+});
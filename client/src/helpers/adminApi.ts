@@ -0,0 +1,99 @@
+/**
+ * Admin API Helper
+ *
+ * Calls the server's token-protected /api/admin routes (see adminRouter).
+ * The token is kept in sessionStorage so it's forgotten with the tab.
+ */
+
+import { API_BASE } from "@/constants";
+import type { AdminCacheName, AdminStats, BulkImportSource, ImportSchedulerStatus } from "../../../shared/types";
+
+const ADMIN_TOKEN_KEY = "admin-token";
+
+export function getStoredAdminToken(): string {
+    return sessionStorage.getItem(ADMIN_TOKEN_KEY) ?? "";
+}
+
+export function storeAdminToken(token: string): void {
+    if (token) {
+        sessionStorage.setItem(ADMIN_TOKEN_KEY, token);
+    } else {
+        sessionStorage.removeItem(ADMIN_TOKEN_KEY);
+    }
+}
+
+/**
+ * Error from the admin API, with the HTTP status so callers can tell a bad
+ * token (401) or a disabled API (503) from other failures.
+ */
+export class AdminApiError extends Error {
+    readonly status: number;
+
+    constructor(message: string, status: number) {
+        super(message);
+        this.name = "AdminApiError";
+        this.status = status;
+    }
+}
+
+async function adminRequest<T>(token: string, path: string, init: RequestInit = {}): Promise<T> {
+    const response = await fetch(`${API_BASE}/api/admin${path}`, {
+        ...init,
+        headers: {
+            ...(init.body ? { "Content-Type": "application/json" } : {}),
+            Authorization: `Bearer ${token}`,
+        },
+    });
+
+    if (!response.ok) {
+        const body = await response.json().catch(() => null) as { error?: string } | null;
+        throw new AdminApiError(body?.error || `Admin request failed: ${response.status}`, response.status);
+    }
+    return await response.json();
+}
+
+export function fetchAdminStats(token: string): Promise<AdminStats> {
+    return adminRequest(token, "/stats");
+}
+
+export function fetchSchedulerStatus(token: string): Promise<ImportSchedulerStatus> {
+    return adminRequest(token, "/scheduler");
+}
+
+/**
+ * Start a bulk import. Resolves with the scheduler status once it has started.
+ */
+export function startBulkImport(token: string, source: BulkImportSource): Promise<ImportSchedulerStatus> {
+    return adminRequest(token, "/import", { method: "POST", body: JSON.stringify({ source }) });
+}
+
+/**
+ * Purge a server cache. Resolves with the number of entries removed.
+ */
+export async function purgeCache(token: string, name: AdminCacheName, expiredOnly = false): Promise<number> {
+    const query = expiredOnly ? "?expired=true" : "";
+    const { removed } = await adminRequest<{ removed: number }>(token, `/cache/${name}${query}`, { method: "DELETE" });
+    return removed;
+}
+
+/**
+ * Delete expired shares. Resolves with the number removed.
+ */
+export async function cleanupExpiredShares(token: string): Promise<number> {
+    const { removed } = await adminRequest<{ removed: number }>(token, "/shares/cleanup", { method: "POST" });
+    return removed;
+}
+
+/**
+ * Human-readable byte size, e.g. 1.5 GB.
+ */
+export function formatBytes(bytes: number): string {
+    const units = ["B", "KB", "MB", "GB", "TB"];
+    let value = bytes;
+    let unit = 0;
+    while (value >= 1024 && unit < units.length - 1) {
+        value /= 1024;
+        unit++;
+    }
+    return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+}
@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import { clampArtScale, getArtTransformKey, getArtTransformMatrix, hasArtTransform, omitArtTransform, type ArtTransform } from "./artTransform";
+
+/** Apply a column-major mat3 to an output UV */
+function mapUv(m: Float32Array, u: number, v: number): [number, number] {
+    return [m[0] * u + m[3] * v + m[6], m[1] * u + m[4] * v + m[7]];
+}
+
+function expectUv(actual: [number, number], expected: [number, number]) {
+    expect(actual[0]).toBeCloseTo(expected[0], 5);
+    expect(actual[1]).toBeCloseTo(expected[1], 5);
+}
+
+describe("artTransform", () => {
+    describe("hasArtTransform", () => {
+        it("should be false for missing or neutral values", () => {
+            expect(hasArtTransform(undefined)).toBe(false);
+            expect(hasArtTransform({})).toBe(false);
+            expect(hasArtTransform({ artScale: 1, artOffsetX: 0, artRotation: 360, artFlipX: false })).toBe(false);
+        });
+
+        it("should be true when the artwork moves", () => {
+            expect(hasArtTransform({ artScale: 1.2 })).toBe(true);
+            expect(hasArtTransform({ artOffsetY: -0.05 })).toBe(true);
+            expect(hasArtTransform({ artRotation: 2 })).toBe(true);
+            expect(hasArtTransform({ artFlipY: true })).toBe(true);
+        });
+    });
+
+    it("should key only the transform fields", () => {
+        expect(getArtTransformKey(undefined)).toBe("");
+        expect(getArtTransformKey({ artScale: 1 })).toBe("");
+        expect(getArtTransformKey({ artScale: 1.5 })).toBe(getArtTransformKey({ artScale: 1.5, brightness: 10 } as ArtTransform));
+        expect(getArtTransformKey({ artScale: 1.5 })).not.toBe(getArtTransformKey({ artScale: 2 }));
+    });
+
+    it("should clamp the scale", () => {
+        expect(clampArtScale(0.1)).toBe(0.5);
+        expect(clampArtScale(2)).toBe(2);
+        expect(clampArtScale(10)).toBe(4);
+    });
+
+    describe("omitArtTransform", () => {
+        it("should keep everything but the transform fields", () => {
+            expect(omitArtTransform({ brightness: 5, artScale: 2, artOffsetX: 0.1, artRotation: 90, artFlipX: true })).toEqual({ brightness: 5 });
+        });
+    });
+
+    describe("getArtTransformMatrix", () => {
+        const at = (t: ArtTransform, u: number, v: number, w = 100, h = 140) =>
+            mapUv(getArtTransformMatrix(t, w, h), u, v);
+
+        it("should be the identity without a transform", () => {
+            expectUv(at({}, 0.2, 0.7), [0.2, 0.7]);
+        });
+
+        it("should zoom around the card center", () => {
+            expectUv(at({ artScale: 2 }, 0.5, 0.5), [0.5, 0.5]);
+            expectUv(at({ artScale: 2 }, 0, 0), [0.25, 0.25]);
+        });
+
+        it("should move the art with the offset", () => {
+            // Art moved right by 10% -> output center shows source left of center
+            expectUv(at({ artOffsetX: 0.1, artOffsetY: -0.2 }, 0.5, 0.5), [0.4, 0.7]);
+        });
+
+        it("should rotate clockwise in pixel space", () => {
+            // Point right of center on screen came from above center in the source
+            // 10px right of center in a 100x140 image = 10px above center
+            expectUv(at({ artRotation: 90 }, 0.6, 0.5), [0.5, 0.5 - 10 / 140]);
+        });
+
+        it("should mirror the art", () => {
+            expectUv(at({ artFlipX: true }, 0.2, 0.3), [0.8, 0.3]);
+            expectUv(at({ artFlipY: true }, 0.2, 0.3), [0.2, 0.7]);
+        });
+    });
+});
@@ -0,0 +1,98 @@
+/**
+ * Artwork transform utilities (scale, offset, rotation, flip)
+ *
+ * Shared between:
+ * - Main thread (Card Editor preview, page view textures)
+ * - Web Workers (cardCanvasWorker, used by PDF/ZIP export and the effect cache)
+ *
+ * The transform is applied to the whole image, bleed included, before any
+ * color effect, so generated bleed follows the repositioned art. Areas the
+ * art no longer covers repeat the nearest edge pixel.
+ */
+
+import type { CardOverrides } from '../../../shared/types';
+
+export type ArtTransform = Pick<CardOverrides, 'artScale' | 'artOffsetX' | 'artOffsetY' | 'artRotation' | 'artFlipX' | 'artFlipY'>;
+
+export const ART_SCALE_MIN = 0.5;
+export const ART_SCALE_MAX = 4;
+
+/**
+ * Check if the overrides move the artwork at all
+ */
+export function hasArtTransform(overrides?: ArtTransform): boolean {
+    if (!overrides) return false;
+    if (overrides.artScale !== undefined && overrides.artScale !== 1) return true;
+    if (overrides.artOffsetX) return true;
+    if (overrides.artOffsetY) return true;
+    if (overrides.artRotation && overrides.artRotation % 360 !== 0) return true;
+    return !!overrides.artFlipX || !!overrides.artFlipY;
+}
+
+/**
+ * Only the transform fields of the overrides
+ */
+export function pickArtTransform(overrides: ArtTransform): ArtTransform {
+    const { artScale, artOffsetX, artOffsetY, artRotation, artFlipX, artFlipY } = overrides;
+    return { artScale, artOffsetX, artOffsetY, artRotation, artFlipX, artFlipY };
+}
+
+/**
+ * The overrides without the transform fields. Looks are shared between cards,
+ * so they never carry one card's crop or rotation.
+ */
+export function omitArtTransform(overrides: CardOverrides): CardOverrides {
+    const result = { ...overrides };
+    for (const key of Object.keys(pickArtTransform(overrides)) as Array<keyof ArtTransform>) {
+        delete result[key];
+    }
+    return result;
+}
+
+/**
+ * Stable key for change detection; empty when the artwork isn't moved
+ */
+export function getArtTransformKey(overrides?: ArtTransform): string {
+    return overrides && hasArtTransform(overrides) ? JSON.stringify(pickArtTransform(overrides)) : '';
+}
+
+export function clampArtScale(scale: number): number {
+    return Math.min(Math.max(scale, ART_SCALE_MIN), ART_SCALE_MAX);
+}
+
+/**
+ * Build the matrix that maps an output UV (0-1, y down) to the UV to sample
+ * in the source image. Rotation is done in pixel space so non-square images
+ * don't shear.
+ *
+ * @returns Column-major mat3, ready for uniformMatrix3fv / PixiJS uniforms
+ */
+export function getArtTransformMatrix(transform: ArtTransform, width: number, height: number): Float32Array {
+    const scale = clampArtScale(transform.artScale ?? 1);
+    const offsetX = transform.artOffsetX ?? 0;
+    const offsetY = transform.artOffsetY ?? 0;
+    const angle = ((transform.artRotation ?? 0) * Math.PI) / 180;
+    const flipX = transform.artFlipX ? -1 : 1;
+    const flipY = transform.artFlipY ? -1 : 1;
+
+    // Inverse of: flip, then scale, then rotate clockwise (y down), in pixels
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    const aspect = width / height;
+    const a = (flipX * cos) / scale;
+    const b = (flipX * sin * (1 / aspect)) / scale;
+    const c = (flipY * -sin * aspect) / scale;
+    const d = (flipY * cos) / scale;
+
+    // source = center + L * (uv - center - offset)
+    const px = 0.5 + offsetX;
+    const py = 0.5 + offsetY;
+    const tx = 0.5 - (a * px + b * py);
+    const ty = 0.5 - (c * px + d * py);
+
+    return new Float32Array([
+        a, c, 0,
+        b, d, 0,
+        tx, ty, 1,
+    ]);
+}
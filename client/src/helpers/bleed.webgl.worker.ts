@@ -4,11 +4,13 @@ import {
     shouldTrimBleed,
     trimBleedByMm,
 } from "./imageProcessing";
-import { STANDARD_ASPECT_RATIO, detectBleed } from "./cardDimensions";
+import { getCardAspectRatio, detectBleed } from "./cardDimensions";
+import { DEFAULT_CARD_SIZE, type CardSize } from "./cardSizes";
 import { CONSTANTS } from "../constants/commonConstants";
 import { processCardImageWebGL, processExistingBleedWebGL } from "./webglImageProcessing";
 import { db } from "../db";
 import { debugLog } from "./debug";
+import { computePerceptualHash } from "./perceptualHash";
 
 export { };
 declare const self: DedicatedWorkerGlobalScope;
@@ -70,7 +72,9 @@ self.onmessage = async (e: MessageEvent) => {
         dpi,
         displayDpi: msgDisplayDpi, // Optional display DPI from message
         darkenMode, // 0=none, 1=darken-all, 2=contrast-edges, 3=contrast-full
+        print, // Optional { name, set, number } of a Scryfall/MPC card
     } = e.data;
+    const cardSize: CardSize = e.data.cardSize ?? DEFAULT_CARD_SIZE;
     API_BASE = apiBase;
 
     const effectiveDisplayDpi = msgDisplayDpi ?? 300; // Default to 300 if not provided
@@ -88,14 +92,17 @@ self.onmessage = async (e: MessageEvent) => {
 
         let blob: Blob | undefined;
         let cacheHit = false;
+        let cachedPhash: string | undefined;
+        const isPersistentlyCached = url.startsWith("http") || url.includes("/api/cards/images/");
 
         // 1. Check persistent IndexedDB cache first (for http URLs including MPC)
-        if (url.startsWith("http") || url.includes("/api/cards/images/")) {
+        if (isPersistentlyCached) {
             try {
                 const cached = await db.imageCache.get(cacheKey);
                 if (cached && (Date.now() - cached.cachedAt) < CACHE_TTL_MS) {
                     blob = cached.blob;
                     cacheHit = true;
+                    cachedPhash = cached.phash;
                     // LRU: touch the timestamp
                     db.imageCache.update(cacheKey, { cachedAt: Date.now() }).catch(() => { });
                 }
@@ -130,7 +137,7 @@ self.onmessage = async (e: MessageEvent) => {
                     blob = await loadPromise;
 
                     // 3. Store in persistent cache (for http URLs including MPC)
-                    if (url.startsWith("http") || url.includes("/api/cards/images/")) {
+                    if (isPersistentlyCached) {
                         try {
                             await db.imageCache.put({
                                 url: cacheKey,
@@ -157,7 +164,7 @@ self.onmessage = async (e: MessageEvent) => {
 
         // Helper function to trim bleed with user-specified amount (in mm)
         async function createTrimmedBitmapWithExistingBleed(inputBlob: Blob, existingMm: number): Promise<ImageBitmap> {
-            return trimBleedByMm(inputBlob, existingMm, existingMm);
+            return trimBleedByMm(inputBlob, existingMm, existingMm, cardSize.heightMm);
         }
 
         // Determine how to handle the image based on bleed mode
@@ -167,11 +174,30 @@ self.onmessage = async (e: MessageEvent) => {
         // 2. Auto-Detect Built-in Bleed if unknown
         let effectiveHasBleed = hasBuiltInBleed;
         if (effectiveHasBleed === undefined) {
-            const hasBleed = detectBleed(imageBitmap.width, imageBitmap.height, 0.015);
+            const hasBleed = detectBleed(imageBitmap.width, imageBitmap.height, 0.015, cardSize);
             const aspect = imageBitmap.width / imageBitmap.height;
-            debugLog(`[Worker] Auto-Detect: ${imageBitmap.width}x${imageBitmap.height} Aspect=${aspect.toFixed(4)} Diff=${Math.abs(aspect - STANDARD_ASPECT_RATIO).toFixed(4)} Tol=0.015 hasBleed=${hasBleed}`);
+            debugLog(`[Worker] Auto-Detect: ${imageBitmap.width}x${imageBitmap.height} Aspect=${aspect.toFixed(4)} Diff=${Math.abs(aspect - getCardAspectRatio(cardSize)).toFixed(4)} Tol=0.015 hasBleed=${hasBleed}`);
             effectiveHasBleed = hasBleed;
         }
+
+        // Remember the print's perceptual hash so matching uploads can be identified
+        if (isPersistentlyCached && print && !cachedPhash) {
+            try {
+                const phash = await computePerceptualHash(imageBitmap, {
+                    hasBuiltInBleed: effectiveHasBleed,
+                    bleedMm: bleedMode === 'existing' ? existingBleedMm : undefined,
+                    cardSize,
+                });
+                await db.imageCache.update(cacheKey, {
+                    phash,
+                    cardName: print.name,
+                    cardSet: print.set,
+                    cardNumber: print.number,
+                });
+            } catch {
+                // Hashing is best-effort - processing continues without it
+            }
+        }
         let result;
 
         // 3. Handle Bleed Modes
@@ -183,6 +209,7 @@ self.onmessage = async (e: MessageEvent) => {
                 exportDpi: dpi,
                 displayDpi: effectiveDisplayDpi,
                 darkenMode,
+                cardSize,
             });
 
         } else if (bleedMode === 'none') {
@@ -192,6 +219,7 @@ self.onmessage = async (e: MessageEvent) => {
                 exportDpi: dpi,
                 displayDpi: effectiveDisplayDpi,
                 darkenMode,
+                cardSize,
             });
 
         } else {
@@ -221,6 +249,7 @@ self.onmessage = async (e: MessageEvent) => {
                         exportDpi: dpi,
                         displayDpi: effectiveDisplayDpi,
                         darkenMode,
+                        cardSize,
                     });
 
                     // Tag result with detection status
@@ -236,6 +265,7 @@ self.onmessage = async (e: MessageEvent) => {
                         displayDpi: effectiveDisplayDpi,
                         inputHasBleedMm: assumedExistingBleedMm,
                         darkenMode,
+                        cardSize,
                     });
 
                     if (hasBuiltInBleed === undefined) {
@@ -250,6 +280,7 @@ self.onmessage = async (e: MessageEvent) => {
                     displayDpi: effectiveDisplayDpi,
                     inputHasBleedMm: undefined,
                     darkenMode,
+                    cardSize,
                 });
 
                 if (hasBuiltInBleed === undefined) {
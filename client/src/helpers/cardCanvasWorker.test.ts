@@ -12,6 +12,7 @@ import {
 } from "./cardCanvasWorker";
 import { DEFAULT_RENDER_PARAMS } from "../components/CardCanvas/types";
 import type { CardOverrides } from "../../../shared/types";
+import { getToneLut } from "./toneCurve";
 
 // Mock WebGL2RenderingContext
 const createMockGl = () => {
@@ -37,6 +38,8 @@ const createMockGl = () => {
         LINEAR: 0x2601,
         RGBA: 0x1908,
         UNSIGNED_BYTE: 0x1401,
+        FRAMEBUFFER: 0x8d40,
+        COLOR_ATTACHMENT0: 0x8ce0,
         NO_ERROR: 0,
 
         // Methods
@@ -68,6 +71,11 @@ const createMockGl = () => {
         uniform1f: vi.fn(),
         uniform2f: vi.fn(),
         uniform3f: vi.fn(),
+        uniformMatrix3fv: vi.fn(),
+        createFramebuffer: vi.fn(() => ({})),
+        bindFramebuffer: vi.fn(),
+        framebufferTexture2D: vi.fn(),
+        deleteFramebuffer: vi.fn(),
         activeTexture: vi.fn(),
         bindTexture: vi.fn(),
         createTexture: vi.fn(() => ({})),
@@ -285,6 +293,15 @@ describe("cardCanvasWorker", () => {
             expect(params.darkenMode).toBe("contrast-edges");
         });
 
+        it("should carry the artwork transform", () => {
+            const params = overridesToRenderParams({ artScale: 1.5, artOffsetY: -0.1, artFlipX: true });
+
+            expect(params.artScale).toBe(1.5);
+            expect(params.artOffsetY).toBe(-0.1);
+            expect(params.artFlipX).toBe(true);
+            expect(params.artRotation).toBe(0);
+        });
+
         it("should use default values when overrides are not provided", () => {
             const overrides: CardOverrides = {};
 
@@ -391,6 +408,15 @@ describe("cardCanvasWorker", () => {
                 darkenMode: "contrast-edges",
             })).toBe(true);
         });
+
+        it("should return true for a tone curve", () => {
+            expect(hasAdvancedOverrides({ toneLut: getToneLut({ master: { inBlack: 10, inWhite: 245, gamma: 1, outBlack: 0, outWhite: 255, points: [[0, 0], [255, 255]] } }) })).toBe(true);
+        });
+
+        it("should return true for an artwork transform", () => {
+            expect(hasAdvancedOverrides({ artOffsetX: 0.1 })).toBe(true);
+            expect(hasAdvancedOverrides({ artFlipY: true })).toBe(true);
+        });
     });
 
     describe("renderCardWithOverridesWorker", () => {
@@ -493,6 +519,61 @@ describe("cardCanvasWorker", () => {
                 .rejects.toThrow("WebGL2 not supported");
         });
 
+        it("should move the artwork in a separate pass before the adjustments", async () => {
+            const mockBitmap = { width: 100, height: 140 } as ImageBitmap;
+            const params = { ...DEFAULT_RENDER_PARAMS, artScale: 2, artRotation: 90 };
+
+            await renderCardWithOverridesWorker(mockBitmap, params);
+
+            const glMock = mockGl as unknown as Record<string, ReturnType<typeof vi.fn>>;
+            expect(glMock.createFramebuffer).toHaveBeenCalledTimes(1);
+            expect(glMock.uniformMatrix3fv).toHaveBeenCalledWith(
+                { name: "u_artTransform" },
+                false,
+                expect.any(Float32Array)
+            );
+            // Transform pass and adjustment pass
+            expect(glMock.drawArrays).toHaveBeenCalledTimes(2);
+            expect(glMock.deleteFramebuffer).toHaveBeenCalled();
+        });
+
+        it("should skip the transform pass when the artwork isn't moved", async () => {
+            const mockBitmap = { width: 100, height: 100 } as ImageBitmap;
+
+            await renderCardWithOverridesWorker(mockBitmap, DEFAULT_RENDER_PARAMS);
+
+            const glMock = mockGl as unknown as Record<string, ReturnType<typeof vi.fn>>;
+            expect(glMock.createFramebuffer).not.toHaveBeenCalled();
+            expect(glMock.drawArrays).toHaveBeenCalledTimes(1);
+        });
+
+        it("should upload the tone curve LUT to a second texture unit", async () => {
+            const mockBitmap = { width: 100, height: 100 } as ImageBitmap;
+            const toneLut = getToneLut({ red: { inBlack: 20, inWhite: 230, gamma: 1.2, outBlack: 0, outWhite: 255, points: [[0, 0], [255, 255]] } });
+
+            await renderCardWithOverridesWorker(mockBitmap, { ...DEFAULT_RENDER_PARAMS, toneLut });
+
+            const glMock = mockGl as unknown as Record<string, ReturnType<typeof vi.fn>>;
+            expect(glMock.activeTexture).toHaveBeenCalledWith(glMock.TEXTURE1);
+            expect(glMock.texImage2D).toHaveBeenCalledWith(
+                glMock.TEXTURE_2D, 0, glMock.RGBA, 256, 1, 0, glMock.RGBA, glMock.UNSIGNED_BYTE, expect.any(Uint8Array)
+            );
+            expect(glMock.uniform1i).toHaveBeenCalledWith({ name: "u_toneLut" }, 1);
+            expect(glMock.uniform1f).toHaveBeenCalledWith({ name: "u_toneLutEnabled" }, 1.0);
+            // Base texture and LUT
+            expect(glMock.deleteTexture).toHaveBeenCalledTimes(2);
+        });
+
+        it("should disable the tone curve without a LUT", async () => {
+            const mockBitmap = { width: 100, height: 100 } as ImageBitmap;
+
+            await renderCardWithOverridesWorker(mockBitmap, DEFAULT_RENDER_PARAMS);
+
+            const glMock = mockGl as unknown as Record<string, ReturnType<typeof vi.fn>>;
+            expect(glMock.uniform1f).toHaveBeenCalledWith({ name: "u_toneLutEnabled" }, 0.0);
+            expect(glMock.activeTexture).not.toHaveBeenCalledWith(glMock.TEXTURE1);
+        });
+
         it("should clean up WebGL resources after rendering", async () => {
             const mockBitmap = { width: 100, height: 100 } as ImageBitmap;
 
@@ -7,7 +7,10 @@ import type { RenderParams } from '../components/CardCanvas/types';
 import { DEFAULT_RENDER_PARAMS } from '../components/CardCanvas/types';
 import type { CardOverrides } from '../../../shared/types';
 import { ADJUSTMENT_FRAGMENT, getWorkerAdjustmentShader } from '../shaders/adjustmentShader';
+import { ART_TRANSFORM_FRAGMENT } from '../shaders/artTransformShader';
 import { hasActiveAdjustments } from './adjustmentUtils';
+import { getArtTransformMatrix, hasArtTransform } from './artTransform';
+import { decodeToneLut } from './toneCurve';
 import { debugLog } from './debug';
 
 // WebGL Debug Logging
@@ -164,6 +167,9 @@ void main() {
 // This includes all effects: gamma, colorReplace, holo, vignette, etc.
 export const FS_CARD_CANVAS = getWorkerAdjustmentShader(ADJUSTMENT_FRAGMENT);
 
+// Artwork transform pre-pass (scale/offset/rotation/flip), run before the adjustments
+export const FS_ART_TRANSFORM = getWorkerAdjustmentShader(ART_TRANSFORM_FRAGMENT);
+
 /**
  * Uniform locations for CardCanvas shader (full adjustment shader)
  */
@@ -220,6 +226,9 @@ export interface UniformLocations {
     u_vignetteAmount: WebGLUniformLocation | null;
     u_vignetteSize: WebGLUniformLocation | null;
     u_vignetteFeather: WebGLUniformLocation | null;
+    // Curves & Levels
+    u_toneLut: WebGLUniformLocation | null;
+    u_toneLutEnabled: WebGLUniformLocation | null;
 }
 
 /**
@@ -291,6 +300,34 @@ export function createTextureFromBitmap(gl: WebGL2RenderingContext, bitmap: Imag
     return texture;
 }
 
+/**
+ * Upload the Curves & Levels LUT to texture unit 1 and enable it in the shader.
+ * Returns the texture (caller deletes it), or null when the params have no valid LUT.
+ */
+export function bindToneLut(
+    gl: WebGL2RenderingContext,
+    uniforms: UniformLocations,
+    params: RenderParams
+): WebGLTexture | null {
+    const rgba = decodeToneLut(params.toneLut);
+    const texture = rgba ? gl.createTexture() : null;
+
+    if (rgba && texture) {
+        gl.activeTexture(gl.TEXTURE1);
+        gl.bindTexture(gl.TEXTURE_2D, texture);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+        gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, 256, 1, 0, gl.RGBA, gl.UNSIGNED_BYTE, rgba);
+        gl.uniform1i(uniforms.u_toneLut, 1);
+        gl.activeTexture(gl.TEXTURE0);
+    }
+    gl.uniform1f(uniforms.u_toneLutEnabled, texture ? 1.0 : 0.0);
+
+    return texture;
+}
+
 /**
  * Helper to parse hex color to RGB floats
  */
@@ -477,10 +514,20 @@ export function overridesToRenderParams(overrides: CardOverrides, globalDarkenMo
         colorReplaceThreshold: overrides.colorReplaceThreshold ?? DEFAULT_RENDER_PARAMS.colorReplaceThreshold,
         // Gamma
         gamma: overrides.gamma ?? DEFAULT_RENDER_PARAMS.gamma,
+        // Curves & Levels
+        toneCurve: overrides.toneCurve ?? DEFAULT_RENDER_PARAMS.toneCurve,
+        toneLut: overrides.toneLut ?? DEFAULT_RENDER_PARAMS.toneLut,
         // Border effects
         vignetteAmount: overrides.vignetteAmount ?? DEFAULT_RENDER_PARAMS.vignetteAmount,
         vignetteSize: overrides.vignetteSize ?? DEFAULT_RENDER_PARAMS.vignetteSize,
         vignetteFeather: overrides.vignetteFeather ?? DEFAULT_RENDER_PARAMS.vignetteFeather,
+        // Artwork transform
+        artScale: overrides.artScale ?? DEFAULT_RENDER_PARAMS.artScale,
+        artOffsetX: overrides.artOffsetX ?? DEFAULT_RENDER_PARAMS.artOffsetX,
+        artOffsetY: overrides.artOffsetY ?? DEFAULT_RENDER_PARAMS.artOffsetY,
+        artRotation: overrides.artRotation ?? DEFAULT_RENDER_PARAMS.artRotation,
+        artFlipX: overrides.artFlipX ?? DEFAULT_RENDER_PARAMS.artFlipX,
+        artFlipY: overrides.artFlipY ?? DEFAULT_RENDER_PARAMS.artFlipY,
     };
 }
 
@@ -489,10 +536,76 @@ export function overridesToRenderParams(overrides: CardOverrides, globalDarkenMo
  * that require WebGL re-rendering.
  * 
  * This is a wrapper around the shared hasActiveAdjustments that includes
- * darken-related settings for worker use.
+ * darken-related settings and the artwork transform for worker use.
  */
 export function hasAdvancedOverrides(overrides?: CardOverrides): boolean {
-    return hasActiveAdjustments(overrides, true);
+    return hasActiveAdjustments(overrides, true) || hasArtTransform(overrides);
+}
+
+/**
+ * Draw the source texture through the artwork transform into a new texture,
+ * so the adjustment pass works on the repositioned art.
+ * Leaves the default framebuffer bound.
+ */
+function renderArtTransformTexture(
+    gl: WebGL2RenderingContext,
+    source: WebGLTexture,
+    positionBuffer: WebGLBuffer | null,
+    params: RenderParams,
+    width: number,
+    height: number
+): WebGLTexture {
+    const vs = createShader(gl, gl.VERTEX_SHADER, VS_CARD_CANVAS);
+    const fs = createShader(gl, gl.FRAGMENT_SHADER, FS_ART_TRANSFORM);
+    const program = createProgram(gl, vs, fs);
+    gl.deleteShader(vs);
+    gl.deleteShader(fs);
+
+    const target = gl.createTexture();
+    const framebuffer = gl.createFramebuffer();
+    const vao = gl.createVertexArray();
+    try {
+        if (!target || !framebuffer || !vao) throw new Error('Failed to create art transform target');
+
+        gl.bindTexture(gl.TEXTURE_2D, target);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+        gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, width, height, 0, gl.RGBA, gl.UNSIGNED_BYTE, null);
+
+        gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+        gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, target, 0);
+
+        gl.bindVertexArray(vao);
+        gl.bindBuffer(gl.ARRAY_BUFFER, positionBuffer);
+        const positionLoc = gl.getAttribLocation(program, 'a_position');
+        gl.enableVertexAttribArray(positionLoc);
+        gl.vertexAttribPointer(positionLoc, 2, gl.FLOAT, false, 0, 0);
+
+        gl.viewport(0, 0, width, height);
+        gl.useProgram(program);
+        gl.activeTexture(gl.TEXTURE0);
+        gl.bindTexture(gl.TEXTURE_2D, source);
+        gl.uniform1i(gl.getUniformLocation(program, 'u_baseTexture'), 0);
+        gl.uniformMatrix3fv(
+            gl.getUniformLocation(program, 'u_artTransform'),
+            false,
+            getArtTransformMatrix(params, width, height)
+        );
+        gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+
+        return target;
+    } catch (err) {
+        if (target) gl.deleteTexture(target);
+        throw err;
+    } finally {
+        gl.bindVertexArray(null);
+        gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+        gl.deleteFramebuffer(framebuffer);
+        gl.deleteVertexArray(vao);
+        gl.deleteProgram(program);
+    }
 }
 
 /**
@@ -500,7 +613,7 @@ export function hasAdvancedOverrides(overrides?: CardOverrides): boolean {
  * Used by PDF worker and ZIP export worker.
  * 
  * @param imageBitmap - The source card image (already processed with bleed)
- * @param params - RenderParams with all adjustments
+ * @param params - RenderParams with all adjustments and the artwork transform
  * @param darknessFactor - 0-1 factor computed from histogram
  * @returns Blob of the rendered image as PNG
  */
@@ -578,6 +691,9 @@ export async function renderCardWithOverridesWorker(
         u_vignetteAmount: gl.getUniformLocation(program, 'u_vignetteAmount'),
         u_vignetteSize: gl.getUniformLocation(program, 'u_vignetteSize'),
         u_vignetteFeather: gl.getUniformLocation(program, 'u_vignetteFeather'),
+        // Curves & Levels
+        u_toneLut: gl.getUniformLocation(program, 'u_toneLut'),
+        u_toneLutEnabled: gl.getUniformLocation(program, 'u_toneLutEnabled'),
     };
 
     // Create quad VAO
@@ -602,10 +718,18 @@ export async function renderCardWithOverridesWorker(
     gl.bindVertexArray(null);
 
     let baseTex: WebGLTexture | null = null;
+    let toneLutTex: WebGLTexture | null = null;
     try {
         // Load texture from ImageBitmap
         baseTex = createTextureFromBitmap(gl, imageBitmap);
 
+        // Move the artwork first so vignette/holo stay anchored to the card
+        if (hasArtTransform(params)) {
+            const transformed = renderArtTransformTexture(gl, baseTex, positionBuffer, params, width, height);
+            gl.deleteTexture(baseTex);
+            baseTex = transformed;
+        }
+
         // Render
         gl.viewport(0, 0, width, height);
         gl.clearColor(0, 0, 0, 0);
@@ -618,6 +742,7 @@ export async function renderCardWithOverridesWorker(
         gl.uniform1i(uniforms.u_baseTexture, 0);
 
         updateUniforms(gl, uniforms, params, width, height);
+        toneLutTex = bindToneLut(gl, uniforms, params);
 
         gl.bindVertexArray(vao);
         gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
@@ -628,6 +753,7 @@ export async function renderCardWithOverridesWorker(
 
         // Cleanup per-render resources only - keep context alive for next render
         gl.deleteTexture(baseTex);
+        if (toneLutTex) gl.deleteTexture(toneLutTex);
         gl.deleteBuffer(positionBuffer);
         gl.deleteVertexArray(vao);
         gl.deleteProgram(program);
@@ -637,6 +763,7 @@ export async function renderCardWithOverridesWorker(
     } catch (err) {
         // Cleanup on error - release per-render resources but keep context
         if (baseTex) gl.deleteTexture(baseTex);
+        if (toneLutTex) gl.deleteTexture(toneLutTex);
         gl.deleteBuffer(positionBuffer);
         gl.deleteVertexArray(vao);
         gl.deleteProgram(program);
@@ -0,0 +1,172 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { db } from "@/db";
+import type { CardOption } from "@/types";
+import { useProjectStore } from "@/store";
+import { useUndoRedoStore } from "@/store/undoRedo";
+
+const mockProcess = vi.hoisted(() => vi.fn());
+
+vi.mock("./ImportOrchestrator", () => ({
+    ImportOrchestrator: { process: mockProcess },
+}));
+
+import {
+    buildCardClipboard,
+    formatClipboardDecklist,
+    parseCardClipboard,
+    pasteCardClipboard,
+    pasteFromClipboard,
+    serializeCardClipboard,
+    CARD_CLIPBOARD_FORMAT,
+} from "./cardClipboard";
+
+const boltImage = "https://cards.scryfall.io/large/front/bolt.jpg";
+
+const front: CardOption = {
+    uuid: "front-1",
+    name: "Lightning Bolt",
+    order: 10,
+    imageId: boltImage,
+    isUserUpload: false,
+    set: "M11",
+    number: "149",
+    bleedMode: "existing",
+    existingBleedMm: 1,
+    overrides: { brightness: 10 },
+    linkedBackId: "back-1",
+    projectId: "p1",
+};
+
+const back: CardOption = {
+    uuid: "back-1",
+    name: "Forest",
+    order: 10,
+    imageId: "mpc-forest-identifier-123",
+    isUserUpload: false,
+    usesDefaultCardback: false,
+    linkedFrontId: "front-1",
+    projectId: "p1",
+};
+
+const single: CardOption = {
+    uuid: "single-1",
+    name: "Lightning Bolt",
+    order: 20,
+    imageId: boltImage,
+    isUserUpload: false,
+    set: "M11",
+    number: "149",
+    projectId: "p1",
+};
+
+describe("cardClipboard", () => {
+    beforeEach(async () => {
+        vi.clearAllMocks();
+        await db.cards.clear();
+        await db.images.clear();
+        await db.cards.bulkAdd([front, back, single]);
+        await db.images.bulkAdd([
+            { id: boltImage, refCount: 2, source: "scryfall", sourceUrl: boltImage, imageUrls: [boltImage] },
+            { id: back.imageId!, refCount: 1, source: "mpc", sourceUrl: "https://example.com/forest.png" },
+        ]);
+        useProjectStore.setState({ currentProjectId: "p2" });
+        useUndoRedoStore.setState({ undoStack: [], redoStack: [], isPerformingAction: false, projectId: null });
+    });
+
+    describe("buildCardClipboard", () => {
+        it("should copy fronts with their linked backs and image references", async () => {
+            const data = await buildCardClipboard(["single-1", "front-1"]);
+
+            expect(data.format).toBe(CARD_CLIPBOARD_FORMAT);
+            expect(data.cards.map((c) => c.front.name)).toEqual(["Lightning Bolt", "Lightning Bolt"]);
+            expect(data.cards[0].front).toMatchObject({ bleedMode: "existing", overrides: { brightness: 10 } });
+            expect(data.cards[0].front).not.toHaveProperty("uuid");
+            expect(data.cards[0].back?.name).toBe("Forest");
+            expect(data.images.map((img) => img.id).sort()).toEqual([back.imageId, boltImage].sort());
+        });
+
+        it("should copy a selected back as its pair", async () => {
+            const data = await buildCardClipboard(["back-1", "front-1"]);
+            expect(data.cards).toHaveLength(1);
+            expect(data.cards[0].back?.name).toBe("Forest");
+        });
+    });
+
+    it("should format copied cards as a decklist", async () => {
+        const data = await buildCardClipboard(["front-1", "single-1"]);
+        expect(formatClipboardDecklist(data)).toBe("2x Lightning Bolt (m11) 149");
+    });
+
+    describe("serialize/parse", () => {
+        it("should round trip through HTML", async () => {
+            const data = await buildCardClipboard(["front-1"]);
+            const html = serializeCardClipboard(data);
+
+            expect(html).toContain("<pre>1x Lightning Bolt (m11) 149</pre>");
+            expect(parseCardClipboard(`<meta charset="utf-8">${html}`)).toEqual(data);
+        });
+
+        it("should ignore HTML from elsewhere", () => {
+            expect(parseCardClipboard("<p>1 Sol Ring</p>")).toBeNull();
+            expect(parseCardClipboard('<div data-proxxied-cards="not json"></div>')).toBeNull();
+        });
+
+        it("should reject payloads from a newer version", () => {
+            const html = `<div data-proxxied-cards="${encodeURIComponent(JSON.stringify({ format: CARD_CLIPBOARD_FORMAT, version: 99, cards: [] }))}"></div>`;
+            expect(() => parseCardClipboard(html)).toThrow(/newer version/);
+        });
+    });
+
+    describe("pasteCardClipboard", () => {
+        it("should recreate cards in the current project as one undoable action", async () => {
+            const data = await buildCardClipboard(["front-1"]);
+
+            const [newFront] = await pasteCardClipboard(data);
+
+            const pasted = await db.cards.where("projectId").equals("p2").toArray();
+            expect(pasted).toHaveLength(2);
+            const pastedFront = pasted.find((c) => c.uuid === newFront)!;
+            const pastedBack = pasted.find((c) => c.uuid === pastedFront.linkedBackId)!;
+            expect(pastedFront).toMatchObject({ imageId: boltImage, bleedMode: "existing", overrides: { brightness: 10 }, order: 10 });
+            expect(pastedBack).toMatchObject({ name: "Forest", linkedFrontId: newFront, order: 10, usesDefaultCardback: false });
+            expect((await db.images.get(boltImage))?.refCount).toBe(3);
+
+            const { undoStack } = useUndoRedoStore.getState();
+            expect(undoStack).toHaveLength(1);
+            expect(undoStack[0]).toMatchObject({ type: "PASTE_CARDS", description: 'Paste "Lightning Bolt"' });
+
+            await useUndoRedoStore.getState().undo();
+            expect(await db.cards.where("projectId").equals("p2").count()).toBe(0);
+            expect((await db.images.get(boltImage))?.refCount).toBe(2);
+        });
+
+        it("should re-add images missing from this database", async () => {
+            const data = await buildCardClipboard(["front-1"]);
+            await db.images.clear();
+
+            await pasteCardClipboard(data);
+
+            expect(await db.images.get(boltImage)).toMatchObject({ sourceUrl: boltImage, refCount: 1 });
+        });
+    });
+
+    describe("pasteFromClipboard", () => {
+        it("should paste copied cards", async () => {
+            const html = serializeCardClipboard(await buildCardClipboard(["single-1"]));
+
+            expect(await pasteFromClipboard({ html, text: "1x Lightning Bolt" })).toBe(true);
+
+            expect(await db.cards.where("projectId").equals("p2").count()).toBe(1);
+            expect(mockProcess).not.toHaveBeenCalled();
+        });
+
+        it("should import plain text as a decklist", async () => {
+            expect(await pasteFromClipboard({ html: "", text: "2 Sol Ring\n1 Forest" })).toBe(true);
+
+            expect(mockProcess).toHaveBeenCalledWith([
+                expect.objectContaining({ name: "Sol Ring", quantity: 2 }),
+                expect.objectContaining({ name: "Forest", quantity: 1 }),
+            ]);
+        });
+    });
+});
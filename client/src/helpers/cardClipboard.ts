@@ -0,0 +1,278 @@
+/**
+ * Card Clipboard - copy/paste cards with their art and edits
+ *
+ * Ctrl+C writes two representations: a plain decklist for other apps and an
+ * HTML fragment carrying the full card data (art, linked back, bleed mode,
+ * overrides) plus references to the images. Ctrl+V in any project or tab
+ * recreates the cards from the HTML payload as one undoable action, and falls
+ * back to importing plain text as a decklist.
+ */
+
+import { db, type Image } from "@/db";
+import type { CardOption } from "@/types";
+import { useProjectStore } from "@/store";
+import { useToastStore } from "@/store/toast";
+import { useUndoRedoStore } from "@/store/undoRedo";
+import { isCardbackId } from "./cardbackLibrary";
+import { parseDeckList } from "./importParsers";
+import { ImportOrchestrator } from "./ImportOrchestrator";
+import { createCardsCommand } from "./undoCommands";
+
+export const CARD_CLIPBOARD_FORMAT = "proxxied-cards";
+export const CARD_CLIPBOARD_VERSION = 1;
+
+// Attribute on the HTML fragment that carries the encoded payload
+const PAYLOAD_ATTRIBUTE = "data-proxxied-cards";
+
+/** Card data without the fields that tie it to a project or slot */
+export type ClipboardCard = Omit<CardOption, "uuid" | "order" | "projectId" | "linkedFrontId" | "linkedBackId">;
+
+/** Where an image comes from, so a tab without it can rebuild it */
+export type ClipboardImage = Pick<Image, "id" | "source" | "sourceUrl" | "imageUrls" | "prints">;
+
+export interface CardClipboardData {
+    format: typeof CARD_CLIPBOARD_FORMAT;
+    version: number;
+    cards: { front: ClipboardCard; back?: ClipboardCard }[];
+    images: ClipboardImage[];
+}
+
+function toClipboardCard(card: CardOption): ClipboardCard {
+    const { uuid: _uuid, order: _order, projectId: _projectId, linkedFrontId: _front, linkedBackId: _back, ...rest } = card;
+    return rest;
+}
+
+/**
+ * Reads the given cards (and their linked backs) in page order.
+ * Selected backs are copied as their front/back pair.
+ */
+export async function buildCardClipboard(uuids: string[]): Promise<CardClipboardData> {
+    const selected = (await db.cards.bulkGet(uuids)).filter((c): c is CardOption => !!c);
+    const frontIds = new Set(selected.map((c) => c.linkedFrontId ?? c.uuid));
+    const fronts = (await db.cards.bulkGet([...frontIds]))
+        .filter((c): c is CardOption => !!c)
+        .sort((a, b) => a.order - b.order);
+
+    const backIds = fronts.map((f) => f.linkedBackId).filter((id): id is string => !!id);
+    const backs = new Map(
+        (await db.cards.bulkGet(backIds)).filter((c): c is CardOption => !!c).map((c) => [c.uuid, c])
+    );
+
+    const cards: CardClipboardData["cards"] = [];
+    const imageIds = new Set<string>();
+    for (const front of fronts) {
+        const back = front.linkedBackId ? backs.get(front.linkedBackId) : undefined;
+        cards.push({ front: toClipboardCard(front), ...(back ? { back: toClipboardCard(back) } : {}) });
+        for (const imageId of [front.imageId, back?.imageId]) {
+            if (imageId && !isCardbackId(imageId)) imageIds.add(imageId);
+        }
+    }
+
+    const images = (await db.images.bulkGet([...imageIds]))
+        .filter((img): img is Image => !!img)
+        .map(({ id, source, sourceUrl, imageUrls, prints }) => ({ id, source, sourceUrl, imageUrls, prints }));
+
+    return { format: CARD_CLIPBOARD_FORMAT, version: CARD_CLIPBOARD_VERSION, cards, images };
+}
+
+/**
+ * Decklist form of the copied cards, grouped as "2x Name (set) number".
+ * Backs are left out.
+ */
+export function formatClipboardDecklist(data: CardClipboardData): string {
+    const groups = new Map<string, { name: string; set?: string; number?: string; count: number }>();
+    for (const { front } of data.cards) {
+        const name = front.name || "Unknown";
+        const set = front.set?.toLowerCase();
+        const number = front.number;
+        const key = `${name}|${set || ""}|${number || ""}`;
+
+        const existing = groups.get(key);
+        if (existing) {
+            existing.count++;
+        } else {
+            groups.set(key, { name, set, number, count: 1 });
+        }
+    }
+
+    const lines: string[] = [];
+    for (const group of groups.values()) {
+        let line = `${group.count}x ${group.name}`;
+        if (group.set && group.number) {
+            line += ` (${group.set}) ${group.number}`;
+        } else if (group.set) {
+            line += ` (${group.set})`;
+        } else if (group.number) {
+            line += ` ${group.number}`;
+        }
+        lines.push(line);
+    }
+    return lines.join("\n");
+}
+
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+/**
+ * HTML fragment holding the payload. Pasting it into a rich text editor
+ * shows the decklist.
+ */
+export function serializeCardClipboard(data: CardClipboardData): string {
+    const payload = encodeURIComponent(JSON.stringify(data));
+    return `<div ${PAYLOAD_ATTRIBUTE}="${payload}"><pre>${escapeHtml(formatClipboardDecklist(data))}</pre></div>`;
+}
+
+/**
+ * Extracts the payload from pasted HTML. Returns null when the HTML didn't
+ * come from a card copy.
+ */
+export function parseCardClipboard(html: string): CardClipboardData | null {
+    const match = html.match(new RegExp(`${PAYLOAD_ATTRIBUTE}="([^"]*)"`));
+    if (!match) return null;
+
+    let data: Partial<CardClipboardData>;
+    try {
+        // Browsers may re-escape attribute text when the HTML is sanitized
+        data = JSON.parse(decodeURIComponent(match[1].replace(/&amp;/g, "&")));
+    } catch {
+        return null;
+    }
+
+    if (data?.format !== CARD_CLIPBOARD_FORMAT || !Array.isArray(data.cards)) return null;
+    if (typeof data.version !== "number" || data.version > CARD_CLIPBOARD_VERSION) {
+        throw new Error("These cards were copied from a newer version of Proxxied");
+    }
+
+    return {
+        format: CARD_CLIPBOARD_FORMAT,
+        version: data.version,
+        cards: data.cards.filter((entry) => typeof entry?.front?.name === "string"),
+        images: Array.isArray(data.images) ? data.images.filter((img) => typeof img?.id === "string") : [],
+    };
+}
+
+/**
+ * Copies cards to the system clipboard. Falls back to the plain decklist
+ * where rich clipboard writes aren't supported.
+ * @returns The number of cards copied
+ */
+export async function copyCardsToClipboard(uuids: string[]): Promise<number> {
+    if (uuids.length === 0) return 0;
+
+    try {
+        const data = await buildCardClipboard(uuids);
+        if (data.cards.length === 0) return 0;
+
+        const text = formatClipboardDecklist(data);
+        if (typeof ClipboardItem !== "undefined" && navigator.clipboard.write) {
+            await navigator.clipboard.write([
+                new ClipboardItem({
+                    "text/plain": new Blob([text], { type: "text/plain" }),
+                    "text/html": new Blob([serializeCardClipboard(data)], { type: "text/html" }),
+                }),
+            ]);
+        } else {
+            await navigator.clipboard.writeText(text);
+        }
+
+        const cardCount = data.cards.length;
+        useToastStore.getState().showCopyToast(`Copied ${cardCount} card${cardCount !== 1 ? "s" : ""}`);
+        return cardCount;
+    } catch (err) {
+        console.error("Failed to copy cards to clipboard:", err);
+        return 0;
+    }
+}
+
+/**
+ * Recreates copied cards at the end of the current project as a single
+ * undoable action. Images missing from this database are re-added from
+ * their references; uploads without one are rebuilt lazily from the imageId.
+ * @returns UUIDs of the new front cards
+ */
+export async function pasteCardClipboard(data: CardClipboardData): Promise<string[]> {
+    const projectId = useProjectStore.getState().currentProjectId;
+    if (!projectId || data.cards.length === 0) return [];
+
+    const added: CardOption[] = [];
+    const frontUuids: string[] = [];
+
+    await db.transaction("rw", db.cards, db.images, async () => {
+        const projectCards = await db.cards.where("projectId").equals(projectId).toArray();
+        let order = projectCards.reduce((max, c) => Math.max(max, c.order), 0);
+
+        const refCounts = new Map<string, number>();
+        const countRef = (imageId?: string) => {
+            if (imageId && !isCardbackId(imageId)) refCounts.set(imageId, (refCounts.get(imageId) ?? 0) + 1);
+        };
+
+        for (const entry of data.cards) {
+            order += 10;
+            const frontUuid = crypto.randomUUID();
+            const backUuid = entry.back ? crypto.randomUUID() : undefined;
+
+            added.push({ ...entry.front, uuid: frontUuid, order, projectId, linkedBackId: backUuid });
+            countRef(entry.front.imageId);
+            frontUuids.push(frontUuid);
+
+            if (entry.back && backUuid) {
+                added.push({ ...entry.back, uuid: backUuid, order, projectId, linkedFrontId: frontUuid });
+                countRef(entry.back.imageId);
+            }
+        }
+
+        const refs = new Map(data.images.map((img) => [img.id, img]));
+        const imageIds = [...refCounts.keys()];
+        const existing = await db.images.bulkGet(imageIds);
+        for (let i = 0; i < imageIds.length; i++) {
+            const imageId = imageIds[i];
+            const count = refCounts.get(imageId)!;
+            const image = existing[i];
+            const ref = refs.get(imageId);
+            if (image) {
+                await db.images.update(imageId, { refCount: image.refCount + count });
+            } else if (ref?.sourceUrl || ref?.imageUrls?.length) {
+                await db.images.add({ ...ref, refCount: count });
+            }
+        }
+
+        await db.cards.bulkAdd(added);
+    });
+
+    const cardCount = frontUuids.length;
+    useUndoRedoStore.getState().pushAction({
+        type: "PASTE_CARDS",
+        description: cardCount === 1 ? `Paste "${data.cards[0].front.name}"` : `Paste ${cardCount} cards`,
+        command: createCardsCommand([], added),
+    });
+
+    return frontUuids;
+}
+
+/**
+ * Handles pasted clipboard contents: copied cards are recreated as-is,
+ * anything else is imported as a decklist.
+ * @returns Whether anything was pasted
+ */
+export async function pasteFromClipboard(clipboard: { html?: string; text?: string }): Promise<boolean> {
+    try {
+        const data = clipboard.html ? parseCardClipboard(clipboard.html) : null;
+        if (data) {
+            const pasted = await pasteCardClipboard(data);
+            if (pasted.length > 0) {
+                useToastStore.getState().showCopyToast(`Pasted ${pasted.length} card${pasted.length !== 1 ? "s" : ""}`);
+            }
+            return pasted.length > 0;
+        }
+
+        const intents = clipboard.text ? parseDeckList(clipboard.text) : [];
+        if (intents.length === 0) return false;
+        await ImportOrchestrator.process(intents);
+        return true;
+    } catch (err) {
+        console.error("Failed to paste cards:", err);
+        useToastStore.getState().showErrorToast(err instanceof Error ? err.message : "Failed to paste cards");
+        return false;
+    }
+}
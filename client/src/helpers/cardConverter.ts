@@ -77,6 +77,8 @@ export async function convertScryfallToCardOptions(
             type_line: card.type_line,
             rarity: card.rarity,
             mana_cost: card.mana_cost,
+            prices: card.prices,
+            legalities: card.legalities,
             token_parts: card.token_parts,
             needs_token: card.needs_token,
             isToken,
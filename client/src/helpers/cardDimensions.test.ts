@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
-import { detectBleed } from './cardDimensions';
+import { detectBleed, getMpcAspectRatio } from './cardDimensions';
+import { CARD_SIZE_PRESETS } from './cardSizes';
 
 describe('detectBleed', () => {
     it('should return false (no bleed) for exact standard aspect ratio', () => {
@@ -56,4 +57,22 @@ describe('detectBleed', () => {
 
         expect(detectBleed(3811, 5277)).toBe(false); // 0.0062 < 0.015 -> Standard -> No Bleed
     });
+
+    it('should compare against the project card size', () => {
+        const tarot = { widthMm: 70, heightMm: 120, cornerRadiusMm: 3 };
+        // 700x1200 is exactly the tarot ratio
+        expect(detectBleed(700, 1200, undefined, tarot)).toBe(false);
+        // A standard 63x88 scan is far off the tarot ratio
+        expect(detectBleed(630, 880, undefined, tarot)).toBe(true);
+    });
+});
+
+describe('getMpcAspectRatio', () => {
+    it('should match the MPC bleed ratio for a standard card', () => {
+        expect(getMpcAspectRatio()).toBeCloseTo(69.35 / 94.35, 6);
+    });
+
+    it('should follow the card size', () => {
+        expect(getMpcAspectRatio(CARD_SIZE_PRESETS.tarot)).toBeCloseTo(76.35 / 126.35, 6);
+    });
 });
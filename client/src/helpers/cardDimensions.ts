@@ -1,4 +1,5 @@
 import { CONSTANTS } from "@/constants/commonConstants";
+import { DEFAULT_CARD_SIZE, type CardSize } from "./cardSizes";
 
 /**
  * Standard aspect ratio (Width / Height)
@@ -7,10 +8,22 @@ import { CONSTANTS } from "@/constants/commonConstants";
 export const STANDARD_ASPECT_RATIO = CONSTANTS.CARD_WIDTH_MM / CONSTANTS.CARD_HEIGHT_MM;
 
 /**
- * MPC-ready aspect ratio (with 1/8" bleed)
- * 63mm + 2*3.175mm / 88mm + 2*3.175mm = 69.35 / 94.35 ≈ 0.7350
+ * Trimmed aspect ratio (width / height) of a card size.
  */
-export const MPC_ASPECT_RATIO = (CONSTANTS.CARD_WIDTH_MM + 6.35) / (CONSTANTS.CARD_HEIGHT_MM + 6.35);
+export function getCardAspectRatio(cardSize: CardSize = DEFAULT_CARD_SIZE): number {
+    return Math.min(cardSize.widthMm, cardSize.heightMm) / Math.max(cardSize.widthMm, cardSize.heightMm);
+}
+
+/**
+ * MPC-ready aspect ratio (with 1/8" bleed on each side) of a card size.
+ * Standard card: 63mm + 2*3.175mm / 88mm + 2*3.175mm = 69.35 / 94.35 ≈ 0.7350
+ */
+export function getMpcAspectRatio(cardSize: CardSize = DEFAULT_CARD_SIZE): number {
+    const bleed = 2 * CONSTANTS.DEFAULT_MPC_BLEED_MM;
+    const short = Math.min(cardSize.widthMm, cardSize.heightMm) + bleed;
+    const long = Math.max(cardSize.widthMm, cardSize.heightMm) + bleed;
+    return short / long;
+}
 
 
 /**
@@ -18,15 +31,16 @@ export const MPC_ASPECT_RATIO = (CONSTANTS.CARD_WIDTH_MM + 6.35) / (CONSTANTS.CA
  * @param width Image width in pixels
  * @param height Image height in pixels
  * @param tolerance Tolerance for aspect ratio comparison (default 0.015)
+ * @param cardSize Project card size the image is compared against (default standard card)
  * @returns true if the image is detected to have bleed (non-standard ratio)
  */
-export function detectBleed(width: number, height: number, tolerance?: number): boolean {
+export function detectBleed(width: number, height: number, tolerance?: number, cardSize: CardSize = DEFAULT_CARD_SIZE): boolean {
     if (!width || !height) return false;
 
     const minDim = Math.min(width, height);
     const maxDim = Math.max(width, height);
     const aspect = minDim / maxDim;
 
-    const deviation = Math.abs(aspect - STANDARD_ASPECT_RATIO);
+    const deviation = Math.abs(aspect - getCardAspectRatio(cardSize));
     return deviation >= (tolerance ?? 0.015);
 }
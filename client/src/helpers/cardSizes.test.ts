@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { CARD_SIZE_PRESETS, DEFAULT_CARD_SIZE, formatCardSize, getCardSize, getCardSizeKey } from './cardSizes';
+
+describe('cardSizes', () => {
+    it('should default to the standard 63x88mm card', () => {
+        expect(DEFAULT_CARD_SIZE).toEqual({ widthMm: 63, heightMm: 88, cornerRadiusMm: 2.5 });
+        expect(CARD_SIZE_PRESETS.mtg).toMatchObject(DEFAULT_CARD_SIZE);
+    });
+
+    describe('getCardSize', () => {
+        it('should read the card size from settings', () => {
+            expect(getCardSize({ cardWidthMm: 59, cardHeightMm: 86, cardCornerRadiusMm: 2 }))
+                .toEqual({ widthMm: 59, heightMm: 86, cornerRadiusMm: 2 });
+        });
+
+        it('should fall back to the standard card for older projects', () => {
+            expect(getCardSize({})).toEqual(DEFAULT_CARD_SIZE);
+        });
+    });
+
+    describe('getCardSizeKey', () => {
+        it('should change with any dimension', () => {
+            const yugioh = CARD_SIZE_PRESETS.yugioh;
+            expect(getCardSizeKey(yugioh)).toBe('59x86r2');
+            expect(getCardSizeKey({ ...yugioh, cornerRadiusMm: 3 })).not.toBe(getCardSizeKey(yugioh));
+            expect(getCardSizeKey()).toBe(getCardSizeKey(DEFAULT_CARD_SIZE));
+        });
+    });
+
+    it('should format sizes for display', () => {
+        expect(formatCardSize(CARD_SIZE_PRESETS.oversized)).toBe('127 × 177.8 mm');
+    });
+});
@@ -0,0 +1,62 @@
+/**
+ * Card sizes a project can be printed at.
+ *
+ * The card size is a per-project setting: grid layout, bleed generation and
+ * detection, cut guides, cutting templates and the PDF export all read it
+ * through these helpers so a Yu-Gi-Oh or tarot deck lays out the same way
+ * everywhere. The default is the standard 63x88mm poker-size card.
+ */
+
+import { CONSTANTS } from '@/constants/commonConstants';
+
+export type CardSizePreset = 'mtg' | 'yugioh' | 'oversized' | 'tarot' | 'mini-american' | 'custom';
+
+export interface CardSize {
+    widthMm: number;
+    heightMm: number;
+    cornerRadiusMm: number;
+}
+
+export interface CardSizePresetOption extends CardSize {
+    id: Exclude<CardSizePreset, 'custom'>;
+    label: string;
+}
+
+export const DEFAULT_CARD_SIZE: CardSize = {
+    widthMm: CONSTANTS.CARD_WIDTH_MM,
+    heightMm: CONSTANTS.CARD_HEIGHT_MM,
+    cornerRadiusMm: CONSTANTS.CORNER_RADIUS_MM,
+};
+
+export const CARD_SIZE_PRESETS: Record<Exclude<CardSizePreset, 'custom'>, CardSizePresetOption> = {
+    mtg: { id: 'mtg', label: 'Standard (MTG, Pokémon)', ...DEFAULT_CARD_SIZE },
+    yugioh: { id: 'yugioh', label: 'Yu-Gi-Oh', widthMm: 59, heightMm: 86, cornerRadiusMm: 2 },
+    oversized: { id: 'oversized', label: 'Oversized Commander', widthMm: 127, heightMm: 177.8, cornerRadiusMm: 5 },
+    tarot: { id: 'tarot', label: 'Tarot', widthMm: 70, heightMm: 120, cornerRadiusMm: 3 },
+    'mini-american': { id: 'mini-american', label: 'Mini American', widthMm: 41, heightMm: 63, cornerRadiusMm: 2 },
+};
+
+/**
+ * Card size of a settings object. Fields missing from older projects fall
+ * back to the standard card.
+ */
+export function getCardSize(settings: { cardWidthMm?: number; cardHeightMm?: number; cardCornerRadiusMm?: number }): CardSize {
+    return {
+        widthMm: settings.cardWidthMm ?? DEFAULT_CARD_SIZE.widthMm,
+        heightMm: settings.cardHeightMm ?? DEFAULT_CARD_SIZE.heightMm,
+        cornerRadiusMm: settings.cardCornerRadiusMm ?? DEFAULT_CARD_SIZE.cornerRadiusMm,
+    };
+}
+
+/**
+ * Stable key for a card size, stored with processed images so they are
+ * regenerated when the project's card size changes.
+ */
+export function getCardSizeKey(size: CardSize = DEFAULT_CARD_SIZE): string {
+    return `${size.widthMm}x${size.heightMm}r${size.cornerRadiusMm}`;
+}
+
+/** Display form, e.g. "63 × 88 mm" */
+export function formatCardSize(size: CardSize): string {
+    return `${size.widthMm} × ${size.heightMm} mm`;
+}
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { applyColorLut, type ColorLut } from './colorLut';
+
+function makeLut(size: number, fn: (rgb: number[]) => number[]): ColorLut {
+    const data = new Uint8Array(size * size * size * 4);
+    for (let b = 0; b < size; b++) {
+        for (let g = 0; g < size; g++) {
+            for (let r = 0; r < size; r++) {
+                const i = (g * size * size + b * size + r) * 4;
+                const [or, og, ob] = fn([r, g, b].map((v) => (v / (size - 1)) * 255));
+                data.set([or, og, ob, 0].map(Math.round), i);
+            }
+        }
+    }
+    return { size, data };
+}
+
+describe('applyColorLut', () => {
+    it('should leave pixels unchanged with an identity table', () => {
+        const pixels = new Uint8ClampedArray([0, 0, 0, 255, 12, 200, 99, 255, 255, 255, 255, 128]);
+        // 18 points puts the grid on exact multiples of 15
+        applyColorLut(pixels, makeLut(18, (rgb) => rgb));
+        expect(Array.from(pixels)).toEqual([0, 0, 0, 255, 12, 200, 99, 255, 255, 255, 255, 128]);
+    });
+
+    it('should interpolate between grid points and keep alpha', () => {
+        // Swap red and blue, darken green
+        const lut = makeLut(2, ([r, g, b]) => [b, g / 2, r]);
+        const pixels = new Uint8ClampedArray([200, 100, 50, 77]);
+        applyColorLut(pixels, lut);
+        expect(Array.from(pixels)).toEqual([50, 50, 200, 77]);
+    });
+
+    it('should skip fully transparent pixels', () => {
+        const pixels = new Uint8ClampedArray([10, 20, 30, 0]);
+        applyColorLut(pixels, makeLut(2, () => [255, 255, 255]));
+        expect(Array.from(pixels)).toEqual([10, 20, 30, 0]);
+    });
+});
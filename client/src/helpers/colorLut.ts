@@ -0,0 +1,73 @@
+/**
+ * 3D color lookup tables
+ *
+ * Soft-proof and export conversions are baked from an ICC profile into a
+ * packed RGBA table (see buildProofLut in iccProfile.ts). The same table is
+ * sampled on the GPU by SoftProofFilter and on the CPU here by the PDF worker.
+ */
+
+export interface ColorLut {
+    /** Grid points per axis */
+    size: number;
+    /**
+     * RGBA entries, `size` slices of `size`x`size` side by side:
+     * x = r + b * size, y = g. Alpha is the gamut warning (255 = out of gamut).
+     */
+    data: Uint8Array;
+}
+
+/**
+ * Convert RGBA pixels in place through a lookup table (trilinear).
+ * Alpha is left unchanged.
+ */
+export function applyColorLut(pixels: Uint8ClampedArray, lut: ColorLut): void {
+    const { size, data } = lut;
+    const max = size - 1;
+    const rowStride = size * size * 4;
+    const scale = max / 255;
+
+    for (let i = 0; i < pixels.length; i += 4) {
+        if (pixels[i + 3] === 0) continue;
+
+        const r = pixels[i] * scale;
+        const g = pixels[i + 1] * scale;
+        const b = pixels[i + 2] * scale;
+        const r0 = Math.min(max - 1, r | 0);
+        const g0 = Math.min(max - 1, g | 0);
+        const b0 = Math.min(max - 1, b | 0);
+        const fr = r - r0;
+        const fg = g - g0;
+        const fb = b - b0;
+
+        // Corner offsets: r steps 4 bytes, b steps one slice, g steps one row
+        const base = g0 * rowStride + (b0 * size + r0) * 4;
+        const dr = 4;
+        const db = size * 4;
+        const dg = rowStride;
+
+        for (let c = 0; c < 3; c++) {
+            const o = base + c;
+            const c00 = data[o] + (data[o + dr] - data[o]) * fr;
+            const c10 = data[o + dg] + (data[o + dg + dr] - data[o + dg]) * fr;
+            const c01 = data[o + db] + (data[o + db + dr] - data[o + db]) * fr;
+            const c11 = data[o + db + dg] + (data[o + db + dg + dr] - data[o + db + dg]) * fr;
+            const c0 = c00 + (c10 - c00) * fg;
+            const c1 = c01 + (c11 - c01) * fg;
+            pixels[i + c] = c0 + (c1 - c0) * fb;
+        }
+    }
+}
+
+/**
+ * Convert a canvas or bitmap through a lookup table into a new canvas
+ */
+export function applyColorLutToImage(source: OffscreenCanvas | ImageBitmap, lut: ColorLut): OffscreenCanvas {
+    const canvas = new OffscreenCanvas(source.width, source.height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Failed to get 2d context for color conversion');
+    ctx.drawImage(source, 0, 0);
+    const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    applyColorLut(image.data, lut);
+    ctx.putImageData(image, 0, 0);
+    return canvas;
+}
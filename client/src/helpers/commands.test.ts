@@ -0,0 +1,94 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+    eventToBinding,
+    findBindingConflicts,
+    findCommandForBinding,
+    formatBindingKeys,
+    fuzzyScore,
+    hasCommandHandler,
+    registerCommandHandler,
+    resolveKeyBindings,
+    runCommand,
+    splitBinding,
+} from "./commands";
+
+const keydown = (init: KeyboardEventInit) => new KeyboardEvent("keydown", init);
+
+describe("commands", () => {
+    describe("eventToBinding", () => {
+        it("should use Mod for Ctrl on Windows and Cmd on macOS", () => {
+            expect(eventToBinding(keydown({ key: "z", ctrlKey: true }), false)).toBe("Mod+Z");
+            expect(eventToBinding(keydown({ key: "z", metaKey: true }), true)).toBe("Mod+Z");
+            expect(eventToBinding(keydown({ key: "z", ctrlKey: true, shiftKey: true }), false)).toBe("Mod+Shift+Z");
+        });
+
+        it("should ignore the platform's other modifier and bare modifier presses", () => {
+            expect(eventToBinding(keydown({ key: "f", metaKey: true }), false)).toBeNull();
+            expect(eventToBinding(keydown({ key: "f", ctrlKey: true }), true)).toBeNull();
+            expect(eventToBinding(keydown({ key: "Shift", shiftKey: true }), false)).toBeNull();
+        });
+
+        it("should leave Shift out of symbol keys", () => {
+            expect(eventToBinding(keydown({ key: "+", ctrlKey: true, shiftKey: true }), false)).toBe("Mod++");
+            expect(eventToBinding(keydown({ key: " " }), false)).toBe("Space");
+            expect(eventToBinding(keydown({ key: "Delete", ctrlKey: true }), false)).toBe("Mod+Delete");
+        });
+    });
+
+    it("should split and format bindings", () => {
+        expect(splitBinding("Mod++")).toEqual(["Mod", "+"]);
+        expect(splitBinding("Mod+Shift+Z")).toEqual(["Mod", "Shift", "Z"]);
+        expect(formatBindingKeys("Mod+Shift+Z", false)).toEqual(["Ctrl", "Shift", "Z"]);
+        expect(formatBindingKeys("Mod+Escape", true)).toEqual(["⌘", "Esc"]);
+    });
+
+    it("should apply overrides on top of the defaults", () => {
+        const bindings = resolveKeyBindings({ flip: ["G"], undo: [] });
+
+        expect(bindings.flip).toEqual(["G"]);
+        expect(bindings.undo).toEqual([]);
+        expect(bindings.redo).toEqual(["Mod+Shift+Z"]);
+        expect(findCommandForBinding(bindings, "G")).toBe("flip");
+        expect(findCommandForBinding(bindings, "Mod+Z")).toBeUndefined();
+    });
+
+    it("should report bindings shared by several commands", () => {
+        expect(findBindingConflicts(resolveKeyBindings(undefined)).size).toBe(0);
+
+        const conflicts = findBindingConflicts(resolveKeyBindings({ flip: ["Mod+Z", "G"], openArtwork: ["G"] }));
+        expect(Object.fromEntries(conflicts)).toEqual({
+            "Mod+Z": ["undo", "flip"],
+            G: ["flip", "openArtwork"],
+        });
+    });
+
+    it("should run registered handlers and keep newer registrations on unregister", () => {
+        const first = vi.fn();
+        const second = vi.fn();
+        const unregisterFirst = registerCommandHandler("export", first);
+        const unregisterSecond = registerCommandHandler("export", second);
+
+        unregisterFirst();
+        expect(runCommand("export")).toBe(true);
+        expect(second).toHaveBeenCalledTimes(1);
+        expect(first).not.toHaveBeenCalled();
+
+        unregisterSecond();
+        expect(hasCommandHandler("export")).toBe(false);
+        expect(runCommand("export")).toBe(false);
+    });
+
+    describe("fuzzyScore", () => {
+        it("should match characters in order", () => {
+            expect(fuzzyScore("dup", "Duplicate Selected Cards")).not.toBeNull();
+            expect(fuzzyScore("dsc", "Duplicate Selected Cards")).not.toBeNull();
+            expect(fuzzyScore("xyz", "Duplicate Selected Cards")).toBeNull();
+        });
+
+        it("should rank word starts and consecutive runs higher", () => {
+            const zoomIn = fuzzyScore("zoom", "Zoom In")!;
+            const scattered = fuzzyScore("zoom", "Customize Zone Options Menu")!;
+            expect(zoomIn).toBeGreaterThan(scattered);
+        });
+    });
+});
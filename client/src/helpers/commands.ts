@@ -0,0 +1,206 @@
+/**
+ * Command Registry
+ *
+ * Every keyboard-driven action in the page view is a command with an id, a
+ * label and default key bindings. Components register a handler for the
+ * commands they can run; the hotkey dispatcher and the command palette only
+ * look commands up here.
+ *
+ * Bindings are strings like "Mod+Shift+Z", where Mod is Cmd on macOS and Ctrl
+ * elsewhere. Users can remap them; overrides live in UserPreferences.
+ */
+
+export type CommandId =
+    | "undo"
+    | "redo"
+    | "selectAll"
+    | "clearSelection"
+    | "duplicate"
+    | "copy"
+    | "cut"
+    | "delete"
+    | "flip"
+    | "openArtwork"
+    | "openCardEditor"
+    | "export"
+    | "zoomIn"
+    | "zoomOut"
+    | "zoomReset"
+    | "switchProject"
+    | "showShortcuts"
+    | "commandPalette";
+
+export type CommandGroup = "Edit" | "Selection" | "Cards" | "View" | "Project";
+
+export interface CommandDefinition {
+    id: CommandId;
+    label: string;
+    group: CommandGroup;
+    defaultBindings: string[];
+}
+
+export type KeyBindings = Partial<Record<CommandId, string[]>>;
+
+export const COMMANDS: CommandDefinition[] = [
+    { id: "undo", label: "Undo", group: "Edit", defaultBindings: ["Mod+Z"] },
+    { id: "redo", label: "Redo", group: "Edit", defaultBindings: ["Mod+Shift+Z"] },
+    { id: "copy", label: "Copy Selected Cards", group: "Edit", defaultBindings: ["Mod+C"] },
+    { id: "cut", label: "Cut Selected Cards", group: "Edit", defaultBindings: ["Mod+X"] },
+    { id: "duplicate", label: "Duplicate Selected Cards", group: "Edit", defaultBindings: ["Mod+D"] },
+    { id: "delete", label: "Delete Selected Cards", group: "Edit", defaultBindings: ["Mod+Delete"] },
+    { id: "selectAll", label: "Select All Cards", group: "Selection", defaultBindings: ["Mod+A"] },
+    { id: "clearSelection", label: "Clear Selection", group: "Selection", defaultBindings: ["Escape"] },
+    { id: "flip", label: "Flip Selected Cards", group: "Cards", defaultBindings: ["F"] },
+    { id: "openArtwork", label: "Change Artwork", group: "Cards", defaultBindings: ["A"] },
+    { id: "openCardEditor", label: "Open Card Editor", group: "Cards", defaultBindings: ["E"] },
+    { id: "export", label: "Export PDF", group: "Project", defaultBindings: ["Mod+E"] },
+    { id: "switchProject", label: "Switch Project", group: "Project", defaultBindings: ["Mod+O"] },
+    { id: "zoomIn", label: "Zoom In", group: "View", defaultBindings: ["Mod+=", "Mod++"] },
+    { id: "zoomOut", label: "Zoom Out", group: "View", defaultBindings: ["Mod+-"] },
+    { id: "zoomReset", label: "Reset Zoom", group: "View", defaultBindings: ["Mod+0"] },
+    { id: "showShortcuts", label: "Show Keyboard Shortcuts", group: "View", defaultBindings: ["Mod+/", "Mod+\\"] },
+    { id: "commandPalette", label: "Command Palette", group: "View", defaultBindings: ["Mod+K"] },
+];
+
+const COMMANDS_BY_ID = new Map(COMMANDS.map((command) => [command.id, command]));
+
+export function getCommand(id: CommandId): CommandDefinition | undefined {
+    return COMMANDS_BY_ID.get(id);
+}
+
+// --- Bindings ---
+
+const MODIFIER_KEYS = new Set(["Control", "Shift", "Alt", "Meta", "OS", "AltGraph", "CapsLock"]);
+
+export function isMacPlatform(): boolean {
+    return typeof navigator !== "undefined" && navigator.platform.toUpperCase().includes("MAC");
+}
+
+/**
+ * Normalize a keydown event to a binding string, or null for bare modifier
+ * presses. Shift is only recorded for letters and named keys; for symbols it
+ * is already part of the character ("+" rather than "Shift+=").
+ */
+export function eventToBinding(e: KeyboardEvent, isMac: boolean = isMacPlatform()): string | null {
+    if (MODIFIER_KEYS.has(e.key)) return null;
+    // The platform's other modifier (Ctrl on macOS, Win elsewhere) is never bound
+    if (isMac ? e.ctrlKey : e.metaKey) return null;
+
+    let key = e.key;
+    if (key === " ") key = "Space";
+    else if (key === "Esc") key = "Escape";
+    else if (key.length === 1) key = key.toUpperCase();
+
+    const isSymbol = key.length === 1 && !/[A-Z0-9]/.test(key);
+    const parts: string[] = [];
+    if (isMac ? e.metaKey : e.ctrlKey) parts.push("Mod");
+    if (e.altKey) parts.push("Alt");
+    if (e.shiftKey && !isSymbol) parts.push("Shift");
+    parts.push(key);
+    return parts.join("+");
+}
+
+/** Split a binding into its keys; "Mod++" is Mod and "+" */
+export function splitBinding(binding: string): string[] {
+    if (binding === "+") return ["+"];
+    const trailingPlus = binding.endsWith("++");
+    const parts = (trailingPlus ? binding.slice(0, -2) : binding).split("+").filter(Boolean);
+    if (trailingPlus) parts.push("+");
+    return parts;
+}
+
+/** Keys to display for a binding, e.g. ["Ctrl", "Shift", "Z"] */
+export function formatBindingKeys(binding: string, isMac: boolean = isMacPlatform()): string[] {
+    return splitBinding(binding).map((key) => {
+        if (key === "Mod") return isMac ? "⌘" : "Ctrl";
+        if (key === "Alt") return isMac ? "⌥" : "Alt";
+        if (key === "Escape") return "Esc";
+        return key;
+    });
+}
+
+/** Effective bindings: user overrides on top of the defaults */
+export function resolveKeyBindings(overrides: KeyBindings | undefined): Record<CommandId, string[]> {
+    const result = {} as Record<CommandId, string[]>;
+    for (const command of COMMANDS) {
+        result[command.id] = overrides?.[command.id] ?? command.defaultBindings;
+    }
+    return result;
+}
+
+/** Bindings used by more than one command, mapped to those commands */
+export function findBindingConflicts(bindings: Record<CommandId, string[]>): Map<string, CommandId[]> {
+    const byBinding = new Map<string, CommandId[]>();
+    for (const command of COMMANDS) {
+        for (const binding of bindings[command.id] ?? []) {
+            byBinding.set(binding, [...(byBinding.get(binding) ?? []), command.id]);
+        }
+    }
+    for (const [binding, ids] of byBinding) {
+        if (ids.length < 2) byBinding.delete(binding);
+    }
+    return byBinding;
+}
+
+/** Command bound to a key, or undefined. With conflicts, the first command wins. */
+export function findCommandForBinding(bindings: Record<CommandId, string[]>, binding: string): CommandId | undefined {
+    return COMMANDS.find((command) => bindings[command.id]?.includes(binding))?.id;
+}
+
+// --- Handlers ---
+
+type CommandHandler = () => void;
+
+const handlers = new Map<CommandId, CommandHandler>();
+
+/**
+ * Register the handler that runs a command. Returns an unregister function
+ * that leaves the command alone if another handler has replaced it since.
+ */
+export function registerCommandHandler(id: CommandId, handler: CommandHandler): () => void {
+    handlers.set(id, handler);
+    return () => {
+        if (handlers.get(id) === handler) handlers.delete(id);
+    };
+}
+
+export function hasCommandHandler(id: CommandId): boolean {
+    return handlers.has(id);
+}
+
+/** Run a command. Returns false when nothing on screen can run it. */
+export function runCommand(id: CommandId): boolean {
+    const handler = handlers.get(id);
+    if (!handler) return false;
+    handler();
+    return true;
+}
+
+// --- Search ---
+
+/**
+ * Fuzzy match for the command palette: every query character must appear in
+ * order. Higher scores for consecutive runs and word starts; null when the
+ * query does not match.
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+    const q = query.trim().toLowerCase();
+    if (!q) return 0;
+    const t = text.toLowerCase();
+
+    let score = 0;
+    let ti = 0;
+    let previousMatch = -2;
+    for (const ch of q) {
+        if (ch === " ") continue;
+        const index = t.indexOf(ch, ti);
+        if (index === -1) return null;
+        score += 1;
+        if (index === previousMatch + 1) score += 2;
+        if (index === 0 || t[index - 1] === " ") score += 3;
+        previousMatch = index;
+        ti = index + 1;
+    }
+    // Prefer shorter labels when scores tie
+    return score - t.length * 0.01;
+}
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import {
+    getCutterPrintArea,
+    getCutterProfile,
+    getRegistrationMarks,
+    isCardInPrintArea,
+    registrationMarkToRects,
+} from './cutterProfiles';
+
+// Letter landscape
+const PAGE_W = 279.4;
+const PAGE_H = 215.9;
+
+describe('cutterProfiles', () => {
+    describe('getCutterProfile', () => {
+        it('should fall back to Silhouette for unknown profiles', () => {
+            expect(getCutterProfile(undefined).id).toBe('silhouette');
+            expect(getCutterProfile('plotter' as never).id).toBe('silhouette');
+        });
+    });
+
+    describe('getRegistrationMarks', () => {
+        it('should place the Silhouette 3-point square at top-left in landscape', () => {
+            const marks = getRegistrationMarks('silhouette', '3', PAGE_W, PAGE_H);
+
+            expect(marks).toHaveLength(3);
+            expect(marks[0]).toEqual({ kind: 'square', x: 10.0076, y: 10.0076, size: 5 });
+            expect(marks.slice(1).map(m => m.kind)).toEqual(['corner', 'corner']);
+        });
+
+        it('should move the origin to bottom-left in portrait', () => {
+            const [origin] = getRegistrationMarks('silhouette', '3', PAGE_W, PAGE_H, true);
+
+            expect(origin).toEqual({ kind: 'square', x: 10.0076, y: PAGE_H - 10.0076 - 5, size: 5 });
+        });
+
+        it('should draw 4 corners for Silhouette 4-point', () => {
+            const marks = getRegistrationMarks('silhouette', '4', PAGE_W, PAGE_H);
+
+            expect(marks).toHaveLength(4);
+            expect(marks.every(m => m.kind === 'corner')).toBe(true);
+        });
+
+        it('should always use 4 corners for ScanNCut', () => {
+            const marks = getRegistrationMarks('scanncut', '3', PAGE_W, PAGE_H);
+
+            expect(marks).toHaveLength(4);
+            expect(marks.every(m => m.kind === 'corner')).toBe(true);
+        });
+
+        it('should frame the Cricut print area with an origin square', () => {
+            const [frame, square] = getRegistrationMarks('cricut', '4', PAGE_W, PAGE_H);
+            const area = getCutterPrintArea('cricut', PAGE_W, PAGE_H);
+
+            expect(frame.kind).toBe('frame');
+            if (frame.kind !== 'frame') return;
+            expect(frame.x + frame.lineWidth).toBeCloseTo(area.x);
+            expect(frame.width - 2 * frame.lineWidth).toBeCloseTo(area.width);
+            expect(square).toMatchObject({ kind: 'square', x: frame.x, y: frame.y });
+        });
+    });
+
+    describe('getCutterPrintArea', () => {
+        it('should clamp to the Cricut Print Then Cut limit', () => {
+            const area = getCutterPrintArea('cricut', PAGE_W, PAGE_H);
+
+            expect(area.width).toBeCloseTo(234.95);
+            expect(area.height).toBeCloseTo(171.45);
+            expect(area.x).toBeCloseTo((PAGE_W - 234.95) / 2);
+        });
+
+        it('should orient the limit to the page', () => {
+            const area = getCutterPrintArea('cricut', PAGE_H, PAGE_W);
+
+            expect(area.width).toBeCloseTo(171.45);
+            expect(area.height).toBeCloseTo(234.95);
+        });
+
+        it('should use the area between the marks for Silhouette', () => {
+            const area = getCutterPrintArea('silhouette', PAGE_W, PAGE_H);
+
+            expect(area.x).toBeCloseTo(10.0076);
+            expect(area.width).toBeCloseTo(PAGE_W - 2 * 10.0076);
+        });
+    });
+
+    describe('registrationMarkToRects', () => {
+        it('should extend L-shape arms by half the line width', () => {
+            const rects = registrationMarkToRects({
+                kind: 'corner', x: 10, y: 10, armLength: 8, lineWidth: 1, vertical: 'down', horizontal: 'right',
+            });
+
+            expect(rects).toEqual([
+                { x: 9.5, y: 9.5, width: 1, height: 9 },
+                { x: 9.5, y: 9.5, width: 9, height: 1 },
+            ]);
+        });
+
+        it('should split a frame into four edges', () => {
+            const rects = registrationMarkToRects({ kind: 'frame', x: 0, y: 0, width: 100, height: 50, lineWidth: 2 });
+
+            expect(rects).toHaveLength(4);
+            expect(rects.reduce((sum, r) => sum + r.width * r.height, 0)).toBe(100 * 50 - 96 * 46);
+        });
+    });
+
+    describe('isCardInPrintArea', () => {
+        it('should check the whole card rectangle', () => {
+            const area = { x: 10, y: 10, width: 100, height: 100 };
+
+            expect(isCardInPrintArea(area, 10, 10)).toBe(true);
+            expect(isCardInPrintArea(area, 50, 10)).toBe(false);
+            expect(isCardInPrintArea(area, 9, 10)).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,246 @@
+/**
+ * Cutter profiles for print & cut.
+ *
+ * Each supported cutting machine reads a different registration mark layout and
+ * only accepts cuts inside a limited area. Marks are described here once, in mm
+ * with the page's top-left corner as origin, so the PDF worker, the page preview
+ * and the cut file export all draw exactly the same geometry.
+ */
+
+import { DEFAULT_CARD_SIZE, type CardSize } from './cardSizes';
+
+export type CutterProfileId = 'silhouette' | 'cricut' | 'scanncut';
+export type RegistrationMarkCount = '3' | '4';
+
+export interface CutterProfile {
+    id: CutterProfileId;
+    label: string;
+    /** Desktop software the cut file is opened in */
+    software: string;
+    /** Mark arrangement: Silhouette-style corner marks or a Cricut-style frame */
+    layout: 'corners' | 'frame';
+    /** Distance from the page edge to the outer corner of the marks */
+    markOffsetMm: number;
+    markArmLengthMm: number;
+    markLineWidthMm: number;
+    /** Solid origin square (3-point Silhouette, Cricut frame corner) */
+    markSquareSizeMm: number;
+    /** Whether the user can choose between 3 and 4 marks */
+    supportsMarkCount: boolean;
+    /**
+     * Largest area (long x short edge) the machine will cut inside the marks.
+     * Undefined means the marks themselves are the only limit.
+     */
+    maxCutAreaMm?: { long: number; short: number };
+    /** Layer (group) names the cutter software maps to cut and print operations */
+    layers: { cut: string; registration: string };
+}
+
+export const CUTTER_PROFILES: Record<CutterProfileId, CutterProfile> = {
+    silhouette: {
+        id: 'silhouette',
+        label: 'Silhouette Cameo',
+        software: 'Silhouette Studio',
+        layout: 'corners',
+        markOffsetMm: 10.0076,  // 0.394" from page edge (Silhouette spec)
+        markArmLengthMm: 8.382,  // 0.33" length of L-shape arms
+        markLineWidthMm: 0.9906, // 0.039" thickness of L-shape lines
+        markSquareSizeMm: 5,
+        supportsMarkCount: true,
+        layers: { cut: 'Cut Lines', registration: 'Registration Marks' },
+    },
+    cricut: {
+        id: 'cricut',
+        label: 'Cricut',
+        software: 'Cricut Design Space',
+        layout: 'frame',
+        markOffsetMm: 12.7,      // 0.5" minimum margin around the frame
+        markArmLengthMm: 0,
+        markLineWidthMm: 1.5875, // 1/16" frame thickness
+        markSquareSizeMm: 6.35,  // 1/4" origin square
+        supportsMarkCount: false,
+        maxCutAreaMm: { long: 234.95, short: 171.45 }, // 9.25" x 6.75" Print Then Cut limit
+        layers: { cut: 'Cut', registration: 'Print' },
+    },
+    scanncut: {
+        id: 'scanncut',
+        label: 'Brother ScanNCut',
+        software: 'CanvasWorkspace',
+        layout: 'corners',
+        markOffsetMm: 10,
+        markArmLengthMm: 10,
+        markLineWidthMm: 1,
+        markSquareSizeMm: 0,
+        supportsMarkCount: false,
+        maxCutAreaMm: { long: 296, short: 296 }, // 12" x 12" mat scan area
+        layers: { cut: 'Cut', registration: 'Registration' },
+    },
+};
+
+export const CUTTER_PROFILE_IDS = Object.keys(CUTTER_PROFILES) as CutterProfileId[];
+
+export function getCutterProfile(id: CutterProfileId | undefined): CutterProfile {
+    return (id && CUTTER_PROFILES[id]) || CUTTER_PROFILES.silhouette;
+}
+
+export type RegistrationMark =
+    | { kind: 'square'; x: number; y: number; size: number }
+    /** L-shape whose corner is at (x, y), arms pointing in the given directions */
+    | { kind: 'corner'; x: number; y: number; armLength: number; lineWidth: number; vertical: 'up' | 'down'; horizontal: 'left' | 'right' }
+    /** Outline rectangle; (x, y, width, height) is the outer edge */
+    | { kind: 'frame'; x: number; y: number; width: number; height: number; lineWidth: number };
+
+export interface RectMm {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * Resolve the mark count a profile actually uses. Profiles with a fixed layout
+ * ignore the 3/4 choice.
+ */
+export function getEffectiveMarkCount(profile: CutterProfile, markCount: RegistrationMarkCount): RegistrationMarkCount {
+    return profile.supportsMarkCount ? markCount : '4';
+}
+
+/**
+ * The area cuts must stay inside, in page mm.
+ * Corner layouts leave the rectangle spanned by the marks' corner points; frame
+ * layouts use the frame interior. Both are clamped to the machine's max cut area, centered.
+ */
+export function getCutterPrintArea(
+    profileId: CutterProfileId,
+    pageWidthMm: number,
+    pageHeightMm: number
+): RectMm {
+    const profile = getCutterProfile(profileId);
+    const clearance = profile.layout === 'frame'
+        ? profile.markOffsetMm + profile.markLineWidthMm
+        : profile.markOffsetMm;
+
+    let width = Math.max(0, pageWidthMm - 2 * clearance);
+    let height = Math.max(0, pageHeightMm - 2 * clearance);
+
+    if (profile.maxCutAreaMm) {
+        const landscape = pageWidthMm >= pageHeightMm;
+        width = Math.min(width, landscape ? profile.maxCutAreaMm.long : profile.maxCutAreaMm.short);
+        height = Math.min(height, landscape ? profile.maxCutAreaMm.short : profile.maxCutAreaMm.long);
+    }
+
+    return {
+        x: (pageWidthMm - width) / 2,
+        y: (pageHeightMm - height) / 2,
+        width,
+        height,
+    };
+}
+
+/**
+ * Registration marks for one page.
+ *
+ * Corner layouts (Silhouette, ScanNCut):
+ *   3-point: origin square + 2 L-shapes, 4-point: 4 L-shapes.
+ *   Landscape puts the origin at top-left; portrait (paper loaded in portrait
+ *   orientation) rotates the layout so the origin sits at bottom-left.
+ * Frame layout (Cricut): a rectangle around the print area with a solid
+ *   square in its origin corner.
+ */
+export function getRegistrationMarks(
+    profileId: CutterProfileId,
+    markCount: RegistrationMarkCount,
+    pageWidthMm: number,
+    pageHeightMm: number,
+    portrait: boolean = false
+): RegistrationMark[] {
+    const profile = getCutterProfile(profileId);
+
+    if (profile.layout === 'frame') {
+        const area = getCutterPrintArea(profileId, pageWidthMm, pageHeightMm);
+        const lw = profile.markLineWidthMm;
+        const frame: RegistrationMark = {
+            kind: 'frame',
+            x: area.x - lw,
+            y: area.y - lw,
+            width: area.width + 2 * lw,
+            height: area.height + 2 * lw,
+            lineWidth: lw,
+        };
+        const size = profile.markSquareSizeMm;
+        const square: RegistrationMark = portrait
+            ? { kind: 'square', x: frame.x, y: frame.y + frame.height - size, size }
+            : { kind: 'square', x: frame.x, y: frame.y, size };
+        return [frame, square];
+    }
+
+    const count = getEffectiveMarkCount(profile, markCount);
+    const offset = profile.markOffsetMm;
+    const left = offset;
+    const right = pageWidthMm - offset;
+    const top = offset;
+    const bottom = pageHeightMm - offset;
+    const corner = (x: number, y: number, vertical: 'up' | 'down', horizontal: 'left' | 'right'): RegistrationMark => ({
+        kind: 'corner', x, y, armLength: profile.markArmLengthMm, lineWidth: profile.markLineWidthMm, vertical, horizontal,
+    });
+    const size = profile.markSquareSizeMm;
+
+    const marks: RegistrationMark[] = [];
+    if (portrait) {
+        marks.push(count === '3'
+            ? { kind: 'square', x: left, y: bottom - size, size }
+            : corner(left, bottom, 'up', 'right'));
+        marks.push(corner(left, top, 'down', 'right'));
+        marks.push(corner(right, bottom, 'up', 'left'));
+        if (count === '4') marks.push(corner(right, top, 'down', 'left'));
+    } else {
+        marks.push(count === '3'
+            ? { kind: 'square', x: left, y: top, size }
+            : corner(left, top, 'down', 'right'));
+        marks.push(corner(right, top, 'down', 'left'));
+        marks.push(corner(left, bottom, 'up', 'right'));
+        if (count === '4') marks.push(corner(right, bottom, 'up', 'left'));
+    }
+    return marks;
+}
+
+/**
+ * Break marks into filled rectangles. L-shapes are extended by half their
+ * thickness to match a square line cap.
+ */
+export function registrationMarkToRects(mark: RegistrationMark): RectMm[] {
+    switch (mark.kind) {
+        case 'square':
+            return [{ x: mark.x, y: mark.y, width: mark.size, height: mark.size }];
+        case 'corner': {
+            const w = mark.lineWidth;
+            const L = mark.armLength;
+            const vy = mark.vertical === 'down' ? mark.y - w / 2 : mark.y - L - w / 2;
+            const hx = mark.horizontal === 'right' ? mark.x - w / 2 : mark.x - L - w / 2;
+            return [
+                { x: mark.x - w / 2, y: vy, width: w, height: L + w },
+                { x: hx, y: mark.y - w / 2, width: L + w, height: w },
+            ];
+        }
+        case 'frame': {
+            const { x, y, width, height, lineWidth: w } = mark;
+            return [
+                { x, y, width, height: w },
+                { x, y: y + height - w, width, height: w },
+                { x, y: y + w, width: w, height: height - 2 * w },
+                { x: x + width - w, y: y + w, width: w, height: height - 2 * w },
+            ];
+        }
+    }
+}
+
+/**
+ * Whether a card cut rectangle at (x, y) lies fully inside the print area.
+ */
+export function isCardInPrintArea(area: RectMm, x: number, y: number, cardSize: CardSize = DEFAULT_CARD_SIZE): boolean {
+    const epsilon = 0.01;
+    return x >= area.x - epsilon
+        && y >= area.y - epsilon
+        && x + cardSize.widthMm <= area.x + area.width + epsilon
+        && y + cardSize.heightMm <= area.y + area.height + epsilon;
+}
@@ -5,6 +5,9 @@ import { isCardbackId } from "./cardbackLibrary";
 import { extractMpcIdentifierFromImageId, getMpcAutofillImageUrl } from "./mpcAutofillApi";
 import { inferSourceFromUrl, getImageSourceSync, isUploadLibrarySource } from "./imageSourceUtils";
 import { detectBleed } from "./cardDimensions";
+import { getCardSize } from "./cardSizes";
+import { computePerceptualHash } from "./perceptualHash";
+import { useSettingsStore } from "@/store/settings";
 
 /**
  * Calculates the SHA-256 hash of a file or blob.
@@ -35,12 +38,15 @@ export async function addUploadLibraryImage(
 ): Promise<string> {
   const hash = await hashBlob(blob);
   const imageId = suffix ? `${hash}${suffix}` : hash;
+  const cardSize = getCardSize(useSettingsStore.getState());
   let effectiveHasBleed = hasBuiltInBleed;
   if (effectiveHasBleed === undefined) {
     const bmp = await createImageBitmap(blob);
-    effectiveHasBleed = detectBleed(bmp.width, bmp.height);
+    effectiveHasBleed = detectBleed(bmp.width, bmp.height, undefined, cardSize);
     bmp.close();
   }
+  // Best-effort: uploads missing a hash are backfilled by the duplicate finder
+  const phash = await computePerceptualHash(blob, { hasBuiltInBleed: effectiveHasBleed, cardSize }).catch(() => undefined);
 
   await db.transaction("rw", db.images, db.user_images, async () => {
     const existingUserImage = await db.user_images.get(imageId);
@@ -48,6 +54,7 @@ export async function addUploadLibraryImage(
       await db.user_images.add({
         hash: imageId,
         data: blob,
+        phash,
         type: blob.type || 'image/png',
         createdAt: Date.now(),
         displayName: displayName || undefined,
@@ -930,3 +937,35 @@ import { sortManual } from "./sortAndFilterUtils";
 export function sortCards(cards: CardOption[]): CardOption[] {
   return sortManual(cards);
 }
+
+/** Helper to get card with its back card and images from database */
+export async function getCardWithImages(allCards: CardOption[], cardUuid: string, globalDpi: number) {
+  const card = allCards.find(c => c.uuid === cardUuid);
+  if (!card || !card.imageId) return null;
+
+  const image = await db.images.get(card.imageId);
+  const backCard = card.linkedBackId
+    ? allCards.find(c => c.uuid === card.linkedBackId)
+    : undefined;
+
+  let backImage: Image | undefined = undefined;
+  if (backCard?.imageId) {
+    backImage = await db.images.get(backCard.imageId);
+    if (!backImage) {
+      const cardback = await db.cardbacks.get(backCard.imageId);
+      if (cardback) {
+        backImage = {
+          id: cardback.id,
+          displayBlob: cardback.displayBlob,
+          exportBlob: cardback.exportBlob,
+          baseDisplayBlob: cardback.displayBlob,
+          baseExportBlob: cardback.exportBlob,
+          displayDpi: 300,
+          exportDpi: globalDpi,
+        } as Image;
+      }
+    }
+  }
+
+  return { card, image: image ?? null, backCard, backImage: backImage ?? null };
+}
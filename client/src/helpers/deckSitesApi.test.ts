@@ -0,0 +1,51 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { extractDeckSiteRef, fetchDeckSiteDeck, isDeckSiteUrl } from "./deckSitesApi";
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+describe("deckSitesApi", () => {
+    beforeEach(() => {
+        mockFetch.mockReset();
+    });
+
+    describe("extractDeckSiteRef", () => {
+        it.each([
+            ["https://scryfall.com/@proxxied/decks/4D8F2C1A-7B3E-4F5A-9C2D-1E6B8A0F3D57", { site: "scryfall", id: "4d8f2c1a-7b3e-4f5a-9c2d-1e6b8a0f3d57" }],
+            ["https://tappedout.net/mtg-decks/atraxa-superfriends/", { site: "tappedout", id: "atraxa-superfriends" }],
+            ["https://deckstats.net/decks/120145/1806476-atraxa-superfriends/en", { site: "deckstats", id: "120145/1806476-atraxa-superfriends" }],
+            ["https://www.mtggoldfish.com/deck/5938234#paper", { site: "mtggoldfish", id: "5938234" }],
+            ["https://www.mtggoldfish.com/deck/download/5938234", { site: "mtggoldfish", id: "5938234" }],
+        ])("should recognize %s", (url, expected) => {
+            expect(extractDeckSiteRef(url)).toEqual(expected);
+            expect(isDeckSiteUrl(url)).toBe(true);
+        });
+
+        it("should return null for unsupported URLs", () => {
+            expect(extractDeckSiteRef("")).toBeNull();
+            expect(extractDeckSiteRef("https://moxfield.com/decks/abc")).toBeNull();
+            expect(extractDeckSiteRef("https://www.mtggoldfish.com/archetype/modern-burn")).toBeNull();
+        });
+    });
+
+    describe("fetchDeckSiteDeck", () => {
+        it("should call the server route for the site", async () => {
+            const deck = { source: "tappedout", id: "burn", name: "Burn", cards: [] };
+            mockFetch.mockResolvedValueOnce({ ok: true, json: async () => deck });
+
+            await expect(fetchDeckSiteDeck({ site: "tappedout", id: "burn" })).resolves.toEqual(deck);
+            expect(mockFetch).toHaveBeenCalledWith(expect.stringContaining("/api/decksites/tappedout/burn"));
+        });
+
+        it("should surface the server's error message", async () => {
+            mockFetch.mockResolvedValueOnce({
+                ok: false,
+                status: 404,
+                statusText: "Not Found",
+                json: async () => ({ error: "Deck not found. It may be private or deleted." }),
+            });
+
+            await expect(fetchDeckSiteDeck({ site: "mtggoldfish", id: "1" })).rejects.toThrow("Deck not found");
+        });
+    });
+});
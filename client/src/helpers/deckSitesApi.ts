@@ -0,0 +1,79 @@
+/**
+ * Deck Sites API Helper
+ *
+ * URL detection and fetching for Scryfall, TappedOut, Deckstats and MTGGoldfish decks.
+ * The server fetches and normalizes these (see deckSitesRouter), so every site
+ * returns the same ImportedDeck shape.
+ */
+
+import { API_BASE } from "@/constants";
+import type { DeckSite, ImportedDeck } from "../../../shared/types";
+
+export interface DeckSiteRef {
+    site: DeckSite;
+    /** Path below /api/decksites/:site/ */
+    id: string;
+}
+
+const DECK_SITE_PATTERNS: { site: DeckSite; pattern: RegExp; toId: (m: RegExpMatchArray) => string }[] = [
+    {
+        // https://scryfall.com/@user/decks/<uuid>
+        site: "scryfall",
+        pattern: /scryfall\.com\/@[^/]+\/decks\/([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})/i,
+        toId: (m) => m[1].toLowerCase(),
+    },
+    {
+        // https://tappedout.net/mtg-decks/<slug>/
+        site: "tappedout",
+        pattern: /tappedout\.net\/mtg-decks\/([a-z0-9_-]+)/i,
+        toId: (m) => m[1].toLowerCase(),
+    },
+    {
+        // https://deckstats.net/decks/<userId>/<deckId>-<slug>/en
+        site: "deckstats",
+        pattern: /deckstats\.net\/decks\/(\d+)\/(\d+(?:-[a-z0-9-]*)?)/i,
+        toId: (m) => `${m[1]}/${m[2]}`,
+    },
+    {
+        // https://www.mtggoldfish.com/deck/<id> (or /deck/download/<id>)
+        site: "mtggoldfish",
+        pattern: /mtggoldfish\.com\/deck\/(?:download\/)?(\d+)/i,
+        toId: (m) => m[1],
+    },
+];
+
+/**
+ * Detect which supported deck site a URL belongs to.
+ * @returns The site and deck ID, or null if the URL isn't recognized
+ */
+export function extractDeckSiteRef(url: string): DeckSiteRef | null {
+    if (!url) return null;
+
+    for (const { site, pattern, toId } of DECK_SITE_PATTERNS) {
+        const match = url.match(pattern);
+        if (match) return { site, id: toId(match) };
+    }
+    return null;
+}
+
+/**
+ * Validate if a string is a deck URL from one of the server-normalized sites
+ */
+export function isDeckSiteUrl(url: string): boolean {
+    return extractDeckSiteRef(url) !== null;
+}
+
+/**
+ * Fetch a normalized deck through the server.
+ */
+export async function fetchDeckSiteDeck(ref: DeckSiteRef): Promise<ImportedDeck> {
+    const response = await fetch(`${API_BASE}/api/decksites/${ref.site}/${ref.id}`);
+
+    if (!response.ok) {
+        const body = await response.json().catch(() => null) as { error?: string } | null;
+        if (body?.error) throw new Error(body.error);
+        throw new Error(`Failed to fetch deck: ${response.status} ${response.statusText}`);
+    }
+
+    return await response.json();
+}
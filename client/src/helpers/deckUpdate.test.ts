@@ -0,0 +1,183 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { CardOption } from '../../../shared/types';
+import type { ImportIntent } from './importParsers';
+
+const mockDeleteBatch = vi.hoisted(() => vi.fn());
+
+vi.mock('./undoableActions', () => ({
+    undoableDeleteCardsBatch: mockDeleteBatch,
+}));
+
+import { applyDeckUpdate, hasDeckUpdateChanges, planDeckUpdate } from './deckUpdate';
+
+let nextOrder = 0;
+function card(name: string, overrides: Partial<CardOption> = {}): CardOption {
+    nextOrder += 10;
+    return {
+        uuid: `${name}-${nextOrder}`,
+        name,
+        order: nextOrder,
+        isUserUpload: false,
+        category: 'Mainboard',
+        projectId: 'p1',
+        ...overrides,
+    };
+}
+
+function intent(name: string, quantity: number, overrides: Partial<ImportIntent> = {}): ImportIntent {
+    return { name, quantity, isToken: false, category: 'Mainboard', ...overrides };
+}
+
+describe('deckUpdate', () => {
+    beforeEach(() => {
+        nextOrder = 0;
+        mockDeleteBatch.mockReset();
+    });
+
+    describe('planDeckUpdate', () => {
+        it('should report additions, removals and quantity changes', () => {
+            const current = [
+                card('Sol Ring'),
+                card('Counterspell'),
+                card('Counterspell'),
+                card('Forest'),
+            ];
+            const incoming = [
+                intent('Sol Ring', 1),
+                intent('Counterspell', 3),
+                intent('Lightning Bolt', 2),
+            ];
+
+            const plan = planDeckUpdate(incoming, current);
+
+            expect(plan.added.map(e => [e.name, e.incomingQuantity])).toEqual([['Lightning Bolt', 2]]);
+            expect(plan.removed.map(e => [e.name, e.currentQuantity])).toEqual([['Forest', 1]]);
+            expect(plan.changed.map(e => [e.name, e.currentQuantity, e.incomingQuantity])).toEqual([['Counterspell', 2, 3]]);
+            expect(plan.unchangedCount).toBe(1);
+            expect(plan.intentsToAdd).toEqual([
+                expect.objectContaining({ name: 'Counterspell', quantity: 1 }),
+                expect.objectContaining({ name: 'Lightning Bolt', quantity: 2 }),
+            ]);
+            expect(plan.cardsToRemove).toEqual([current[3].uuid]);
+        });
+
+        it('should match names case-insensitively and DFCs by front face', () => {
+            const current = [card('Delver of Secrets // Insectile Aberration'), card('Sol Ring', { category: undefined })];
+            const plan = planDeckUpdate([intent('delver of secrets', 1), intent('sol ring', 1)], current);
+
+            expect(hasDeckUpdateChanges(plan)).toBe(false);
+            expect(plan.unchangedCount).toBe(2);
+        });
+
+        it('should treat the same card in another category as separate', () => {
+            const current = [card('Sol Ring')];
+            const plan = planDeckUpdate([intent('Sol Ring', 1, { category: 'sideboard' })], current);
+
+            expect(plan.added.map(e => e.category)).toEqual(['Sideboard']);
+            expect(plan.removed.map(e => e.category)).toEqual(['Mainboard']);
+        });
+
+        it('should keep copies matching the incoming printing when the quantity drops', () => {
+            const matching = card('Forest', { set: 'unh', number: '140' });
+            const other = card('Forest', { set: 'lea', number: '294' });
+            const newest = card('Forest', { set: 'unh', number: '140' });
+
+            const plan = planDeckUpdate([intent('Forest', 2, { set: 'UNH', number: '140' })], [matching, other, newest]);
+
+            expect(plan.cardsToRemove).toEqual([other.uuid]);
+        });
+
+        it('should remove the latest copies first when no printing is given', () => {
+            const first = card('Island');
+            const second = card('Island');
+            const third = card('Island');
+
+            const plan = planDeckUpdate([intent('Island', 1)], [first, second, third]);
+
+            expect(plan.cardsToRemove).toEqual([third.uuid, second.uuid]);
+        });
+
+        it('should ignore back faces and keep tokens that are not in the list', () => {
+            const front = card('Sol Ring', { linkedBackId: 'back' });
+            const back = card('Default', { uuid: 'back', linkedFrontId: front.uuid });
+            const token = card('Treasure', { isToken: true });
+
+            const plan = planDeckUpdate([intent('Sol Ring', 1)], [front, back, token]);
+
+            expect(hasDeckUpdateChanges(plan)).toBe(false);
+            expect(plan.cardsToRemove).toEqual([]);
+        });
+
+        it('should diff tokens that are part of the incoming list', () => {
+            const token = card('Treasure', { isToken: true });
+            const plan = planDeckUpdate([intent('Treasure', 3, { isToken: true })], [token]);
+
+            expect(plan.intentsToAdd).toEqual([expect.objectContaining({ name: 'Treasure', quantity: 2, isToken: true })]);
+        });
+
+        it('should sum duplicate incoming lines', () => {
+            const plan = planDeckUpdate([intent('Island', 2), intent('Island', 3)], [card('Island')]);
+
+            expect(plan.changed[0].incomingQuantity).toBe(5);
+            expect(plan.intentsToAdd.map(i => i.quantity)).toEqual([1, 3]);
+        });
+
+        it('should report a changed printing even when the quantity is the same', () => {
+            const current = card('Sol Ring', { set: 'c21', number: '263' });
+            const plan = planDeckUpdate([intent('Sol Ring', 1, { set: 'ltc', number: '273' })], [current]);
+
+            expect(plan.changed.map(e => [e.currentQuantity, e.incomingQuantity, e.reprintedQuantity])).toEqual([[1, 1, 1]]);
+            expect(plan.unchangedCount).toBe(0);
+            expect(plan.cardsToRemove).toEqual([current.uuid]);
+            expect(plan.intentsToAdd).toEqual([expect.objectContaining({ name: 'Sol Ring', set: 'ltc', number: '273', quantity: 1 })]);
+        });
+
+        it('should add each incoming printing separately and keep copies that still match', () => {
+            const kept = card('Forest', { set: 'unh', number: '140', imageId: 'custom-art' });
+            const current = [kept, card('Forest', { set: 'lea', number: '294' })];
+            const incoming = [
+                intent('Forest', 2, { set: 'unh', number: '140' }),
+                intent('Forest', 1, { set: 'znr', number: '280' }),
+            ];
+
+            const plan = planDeckUpdate(incoming, current);
+
+            expect(plan.cardsToRemove).toEqual([current[1].uuid]);
+            expect(plan.intentsToAdd).toEqual([
+                expect.objectContaining({ set: 'unh', number: '140', quantity: 1 }),
+                expect.objectContaining({ set: 'znr', number: '280', quantity: 1 }),
+            ]);
+            expect(plan.changed[0].reprintedQuantity).toBe(1);
+        });
+
+        it('should keep copies without a known printing for any incoming printing', () => {
+            const upload = card('Sol Ring', { isUserUpload: true });
+            const plan = planDeckUpdate([intent('Sol Ring', 1, { set: 'ltc' })], [upload]);
+
+            expect(hasDeckUpdateChanges(plan)).toBe(false);
+        });
+    });
+
+    describe('applyDeckUpdate', () => {
+        it('should delete removed cards and import only the additions', async () => {
+            const current = [card('Forest'), card('Sol Ring')];
+            const plan = planDeckUpdate([intent('Sol Ring', 2)], current);
+            const importCards = vi.fn().mockResolvedValue(undefined);
+
+            await applyDeckUpdate(plan, importCards);
+
+            expect(mockDeleteBatch).toHaveBeenCalledWith([current[0].uuid]);
+            expect(importCards).toHaveBeenCalledWith([expect.objectContaining({ name: 'Sol Ring', quantity: 1 })]);
+        });
+
+        it('should do nothing for an empty plan', async () => {
+            const plan = planDeckUpdate([intent('Sol Ring', 1)], [card('Sol Ring')]);
+            const importCards = vi.fn();
+
+            await applyDeckUpdate(plan, importCards);
+
+            expect(mockDeleteBatch).not.toHaveBeenCalled();
+            expect(importCards).not.toHaveBeenCalled();
+        });
+    });
+});
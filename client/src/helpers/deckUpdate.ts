@@ -0,0 +1,199 @@
+/**
+ * "Update from source" import mode.
+ * Compares a freshly parsed decklist against the cards already in a project and
+ * applies only the difference, so artwork choices and overrides on cards that
+ * are still in the list are left untouched.
+ */
+
+import { db } from "@/db";
+import type { CardOption } from "../../../shared/types";
+import type { ImportIntent } from "./importParsers";
+import { undoableDeleteCardsBatch } from "./undoableActions";
+
+export interface DeckUpdateEntry {
+    key: string;
+    name: string;
+    category: string;
+    currentQuantity: number;
+    incomingQuantity: number;
+    /** Copies that stay in the list but switch to a different printing */
+    reprintedQuantity: number;
+}
+
+export interface DeckUpdatePlan {
+    added: DeckUpdateEntry[];
+    removed: DeckUpdateEntry[];
+    changed: DeckUpdateEntry[];
+    /** Number of card names whose quantity and printings are the same on both sides */
+    unchangedCount: number;
+    /** Intents for the extra copies that need importing */
+    intentsToAdd: ImportIntent[];
+    /** UUIDs of front cards to delete (their backs are removed with them) */
+    cardsToRemove: string[];
+}
+
+interface CardGroup {
+    name: string;
+    category: string;
+    intents: ImportIntent[];
+    incoming: number;
+    cards: CardOption[];
+}
+
+function normalizeName(name: string): string {
+    // Compare DFCs by their front face so "Delver of Secrets" matches the full Scryfall name
+    return name.split(" // ")[0].trim().toLowerCase();
+}
+
+function normalizeCategory(category: string | undefined): string {
+    if (!category) return "Mainboard";
+    return category.charAt(0).toUpperCase() + category.slice(1).toLowerCase();
+}
+
+function groupKey(name: string, category: string | undefined): string {
+    return `${normalizeCategory(category)}:${normalizeName(name)}`;
+}
+
+function matchesPrinting(card: CardOption, intent: ImportIntent): boolean {
+    // Lines without a set, and cards without a known printing (custom uploads), match any copy
+    if (!intent.set || !card.set) return true;
+    return intent.set.toLowerCase() === card.set.toLowerCase() &&
+        (!intent.number || intent.number === card.number);
+}
+
+function printingSpecificity(intent: ImportIntent): number {
+    return (intent.set ? 2 : 0) + (intent.number ? 1 : 0);
+}
+
+function toEntry(key: string, group: CardGroup, reprintedQuantity: number): DeckUpdateEntry {
+    return {
+        key,
+        name: group.intents[0]?.name ?? group.name,
+        category: group.category,
+        currentQuantity: group.cards.length,
+        incomingQuantity: group.incoming,
+        reprintedQuantity,
+    };
+}
+
+/**
+ * Builds the delta between an incoming decklist and the cards currently in a project.
+ *
+ * Cards are grouped by name and category, then each incoming line claims the copies
+ * matching its set and number, most specific lines first and earliest copies first.
+ * Claimed copies keep their artwork and overrides; unclaimed copies are removed and
+ * each line's shortfall is imported with that line's printing, so a changed printing
+ * shows up as a change even when the quantity is the same. Back faces are never
+ * compared directly, and tokens that are not in the incoming list are kept
+ * (they are usually auto-imported).
+ */
+export function planDeckUpdate(incoming: ImportIntent[], currentCards: CardOption[]): DeckUpdatePlan {
+    const groups = new Map<string, CardGroup>();
+    const getGroup = (name: string, category: string | undefined) => {
+        const key = groupKey(name, category);
+        let group = groups.get(key);
+        if (!group) {
+            group = { name, category: normalizeCategory(category), intents: [], incoming: 0, cards: [] };
+            groups.set(key, group);
+        }
+        return group;
+    };
+
+    for (const intent of incoming) {
+        if (!intent.name || intent.quantity <= 0) continue;
+        const group = getGroup(intent.name, intent.category);
+        group.intents.push(intent);
+        group.incoming += intent.quantity;
+    }
+
+    for (const card of currentCards) {
+        if (card.linkedFrontId) continue;
+        const key = groupKey(card.name, card.category);
+        if (card.isToken && !groups.has(key)) continue;
+        getGroup(card.name, card.category).cards.push(card);
+    }
+
+    const plan: DeckUpdatePlan = {
+        added: [],
+        removed: [],
+        changed: [],
+        unchangedCount: 0,
+        intentsToAdd: [],
+        cardsToRemove: [],
+    };
+
+    for (const [key, group] of groups) {
+        const unclaimed = [...group.cards].sort((a, b) => a.order - b.order);
+        const intents = [...group.intents].sort((a, b) => printingSpecificity(b) - printingSpecificity(a));
+        const shortfall = new Map<ImportIntent, number>();
+        let addedCount = 0;
+
+        for (const intent of intents) {
+            let claimed = 0;
+            for (let i = 0; i < unclaimed.length && claimed < intent.quantity; ) {
+                if (matchesPrinting(unclaimed[i], intent)) {
+                    unclaimed.splice(i, 1);
+                    claimed++;
+                } else {
+                    i++;
+                }
+            }
+            if (claimed < intent.quantity) {
+                shortfall.set(intent, intent.quantity - claimed);
+                addedCount += intent.quantity - claimed;
+            }
+        }
+
+        if (addedCount === 0 && unclaimed.length === 0) {
+            plan.unchangedCount++;
+            continue;
+        }
+
+        const entry = toEntry(key, group, Math.min(addedCount, unclaimed.length));
+        if (group.cards.length === 0) plan.added.push(entry);
+        else if (group.incoming === 0) plan.removed.push(entry);
+        else plan.changed.push(entry);
+
+        for (const intent of group.intents) {
+            const quantity = shortfall.get(intent);
+            if (quantity) plan.intentsToAdd.push({ ...intent, quantity });
+        }
+        plan.cardsToRemove.push(...unclaimed.sort((a, b) => b.order - a.order).map((c) => c.uuid));
+    }
+
+    const byName = (a: DeckUpdateEntry, b: DeckUpdateEntry) =>
+        a.category.localeCompare(b.category) || a.name.localeCompare(b.name);
+    plan.added.sort(byName);
+    plan.removed.sort(byName);
+    plan.changed.sort(byName);
+
+    return plan;
+}
+
+/**
+ * Loads the current cards of a project and plans an update against them.
+ */
+export async function planProjectDeckUpdate(projectId: string, incoming: ImportIntent[]): Promise<DeckUpdatePlan> {
+    const cards = await db.cards.where("projectId").equals(projectId).toArray();
+    return planDeckUpdate(incoming, cards);
+}
+
+/**
+ * Applies a plan: removals go through a single undoable batch delete,
+ * additions are handed to the regular import pipeline.
+ */
+export async function applyDeckUpdate(
+    plan: DeckUpdatePlan,
+    importCards: (intents: ImportIntent[]) => Promise<void>
+): Promise<void> {
+    if (plan.cardsToRemove.length > 0) {
+        await undoableDeleteCardsBatch(plan.cardsToRemove);
+    }
+    if (plan.intentsToAdd.length > 0) {
+        await importCards(plan.intentsToAdd);
+    }
+}
+
+export function hasDeckUpdateChanges(plan: DeckUpdatePlan): boolean {
+    return plan.added.length > 0 || plan.removed.length > 0 || plan.changed.length > 0;
+}
@@ -1,5 +1,8 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { groupCardsForDecklist, formatDecklistLine, buildDecklist, downloadDecklist } from "./decklistHelper";
+import {
+  groupCardsForDecklist, formatDecklistLine, buildDecklist, downloadDecklist,
+  buildArenaDecklist, buildMtgoDek, buildCockatriceCod,
+} from "./decklistHelper";
 import type { CardOption } from '@/types';
 
 // Note: groupCardsForDecklist uses ADJACENT grouping to preserve display order
@@ -196,6 +199,62 @@ describe('DecklistHelper', () => {
     });
   });
 
+  describe('game client exports', () => {
+    const DECK: CardOption[] = [
+      { uuid: 'c', name: "Atraxa, Praetors' Voice", order: 1, isUserUpload: false, set: '2x2', number: '190', category: 'Commander' },
+      { uuid: 'b1', name: 'Lightning Bolt', order: 2, isUserUpload: false, set: 'sta', number: '42', category: 'Burn' },
+      { uuid: 'm', name: 'Mountain', order: 3, isUserUpload: false, category: 'Mainboard' },
+      { uuid: 'b2', name: 'Lightning Bolt', order: 4, isUserUpload: false, set: 'sta', number: '42', category: 'Burn' },
+      { uuid: 's', name: 'Fire // Ice', order: 5, isUserUpload: false, set: 'mh2', number: '290', category: 'Sideboard' },
+      { uuid: 'x', name: 'Maybe Card', order: 6, isUserUpload: false, category: 'Maybeboard' },
+      { uuid: 't', name: 'Treasure', order: 7, isUserUpload: false, isToken: true },
+      { uuid: 'back', name: 'Default', order: 1, isUserUpload: false, linkedFrontId: 'c' },
+    ];
+
+    it('should build an Arena list with sections and merged copies', () => {
+      expect(buildArenaDecklist(DECK)).toBe([
+        'Commander',
+        "1 Atraxa, Praetors' Voice (2X2) 190",
+        '',
+        'Deck',
+        '2 Lightning Bolt (STA) 42',
+        '1 Mountain',
+        '',
+        'Sideboard',
+        '1 Fire /// Ice (MH2) 290',
+      ].join('\n'));
+    });
+
+    it('should build an MTGO .dek with commanders in the sideboard', () => {
+      const dek = buildMtgoDek(DECK);
+      expect(dek).toContain('<Cards CatID="0" Quantity="2" Sideboard="false" Name="Lightning Bolt" Annotation="0" />');
+      expect(dek).toContain('Sideboard="true" Name="Atraxa, Praetors&apos; Voice"');
+      expect(dek).toContain('Name="Fire/Ice"');
+      expect(dek).not.toContain('Maybe Card');
+      expect(dek).not.toContain('Treasure');
+    });
+
+    it('should build a Cockatrice .cod with zones and printings', () => {
+      const cod = buildCockatriceCod(DECK, 'Burn & Co');
+      expect(cod).toContain('<deckname>Burn &amp; Co</deckname>');
+      expect(cod).toContain('<card number="2" name="Lightning Bolt" setShortName="STA" collectorNumber="42"/>');
+      expect(cod).toContain('<card number="1" name="Mountain"/>');
+      expect(cod).toMatch(/<zone name="tokens">\s*<card number="1" name="Treasure"\/>/);
+      expect(cod).not.toContain('Default');
+    });
+
+    it('should round-trip through the matching parsers', async () => {
+      const { parseCockatriceCod, parseMtgoDek, parseArenaDeck } = await import('./importParsers');
+      expect(parseCockatriceCod(buildCockatriceCod(DECK)).map(i => [i.name, i.quantity])).toEqual([
+        ['Lightning Bolt', 2], ['Mountain', 1], ["Atraxa, Praetors' Voice", 1], ['Fire // Ice', 1], ['Treasure', 1],
+      ]);
+      expect(parseMtgoDek(buildMtgoDek(DECK))).toHaveLength(4);
+      expect(parseArenaDeck(buildArenaDecklist(DECK)).map(i => i.category)).toEqual([
+        'Commander', 'Mainboard', 'Mainboard', 'Sideboard',
+      ]);
+    });
+  });
+
   describe('downloadDecklist', () => {
     let mockCreateObjectURL: ReturnType<typeof vi.fn>;
     let mockRevokeObjectURL: ReturnType<typeof vi.fn>;
@@ -1,6 +1,8 @@
 import type { CardOption } from "../../../shared/types";
 import { extractMpcIdentifierFromImageId } from "./mpcAutofillApi";
 import { inferImageSource } from "./imageSourceUtils";
+import { escapeXml } from "./mpcXmlExport";
+import { saveWithNativeDialog } from "./electronFiles";
 
 type DecklistEntry = {
   name: string;
@@ -142,8 +144,151 @@ export function buildDecklist(
   return lines.join("\n");
 }
 
-export function downloadDecklist(filename: string, text: string) {
-  const blob = new Blob([text], { type: "text/plain;charset=utf-8" });
+/**
+ * Deck sections understood by game clients.
+ * Maybeboard cards are not part of the deck and are left out of these exports.
+ */
+type DeckZone = "commander" | "companion" | "main" | "side" | "tokens";
+
+function zoneForEntry(category: string | undefined, isToken: boolean): DeckZone | null {
+  if (isToken) return "tokens";
+  switch (category?.toLowerCase()) {
+    case "commander": return "commander";
+    case "companion": return "companion";
+    case "sideboard": return "side";
+    case "maybeboard": return null;
+    default: return "main";
+  }
+}
+
+/**
+ * Groups cards per deck zone, merging every copy of the same printing
+ * (game clients don't care about display order).
+ */
+function groupCardsByZone(cards: CardOption[]): Map<DeckZone, DecklistEntry[]> {
+  const zones = new Map<DeckZone, DecklistEntry[]>();
+
+  const byZone = new Map<DeckZone, CardOption[]>();
+  for (const c of cards) {
+    const isToken = !!c.isToken || (c.type_line?.toLowerCase().includes("token") ?? false);
+    const zone = zoneForEntry(c.category, isToken);
+    if (!zone) continue;
+    const list = byZone.get(zone) ?? [];
+    list.push(c);
+    byZone.set(zone, list);
+  }
+
+  for (const [zone, zoneCards] of byZone) {
+    const merged = new Map<string, DecklistEntry>();
+    for (const entry of groupCardsForDecklist(zoneCards)) {
+      const key = [entry.name.toLowerCase(), entry.set?.toLowerCase() ?? "", entry.number ?? ""].join("|");
+      const existing = merged.get(key);
+      if (existing) existing.count += entry.count;
+      else merged.set(key, { ...entry });
+    }
+    if (merged.size > 0) zones.set(zone, [...merged.values()]);
+  }
+
+  return zones;
+}
+
+/**
+ * Builds an MTG Arena import list ("Deck"/"Sideboard" sections, "(SET) 123" printings).
+ * Tokens are skipped since Arena creates them itself.
+ */
+export function buildArenaDecklist(cards: CardOption[]): string {
+  const zones = groupCardsByZone(cards);
+  const sections: [DeckZone, string][] = [
+    ["commander", "Commander"],
+    ["companion", "Companion"],
+    ["main", "Deck"],
+    ["side", "Sideboard"],
+  ];
+
+  const blocks: string[] = [];
+  for (const [zone, header] of sections) {
+    const entries = zones.get(zone);
+    if (!entries) continue;
+    const lines = entries.map((e) => {
+      // Arena writes split cards with a triple slash
+      const name = e.name.replace(/\s+\/\/\s+/g, " /// ");
+      return e.set && e.number
+        ? `${e.count} ${name} (${e.set.toUpperCase()}) ${e.number}`
+        : `${e.count} ${name}`;
+    });
+    blocks.push([header, ...lines].join("\n"));
+  }
+
+  return blocks.join("\n\n");
+}
+
+/**
+ * Builds an MTGO .dek file.
+ * MTGO keeps commanders and companions in the sideboard. We don't track MTGO
+ * catalog ids, so cards are identified by name only.
+ */
+export function buildMtgoDek(cards: CardOption[]): string {
+  const zones = groupCardsByZone(cards);
+  const lines = [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<Deck xmlns:xsd="http://www.w3.org/2001/XMLSchema" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">',
+    "  <NetDeckID>0</NetDeckID>",
+    "  <PreconstructedDeckID>0</PreconstructedDeckID>",
+  ];
+
+  const zoneOrder: DeckZone[] = ["main", "commander", "companion", "side"];
+  for (const zone of zoneOrder) {
+    const sideboard = zone !== "main";
+    for (const e of zones.get(zone) ?? []) {
+      // MTGO writes split cards as "Fire/Ice"
+      const name = e.name.replace(/\s+\/\/\s+/g, "/");
+      lines.push(`  <Cards CatID="0" Quantity="${e.count}" Sideboard="${sideboard}" Name="${escapeXml(name)}" Annotation="0" />`);
+    }
+  }
+
+  lines.push("</Deck>");
+  return lines.join("\n");
+}
+
+/**
+ * Builds a Cockatrice .cod deck with main, side and tokens zones.
+ * Commanders and companions go in the sideboard, as Cockatrice has no zone for them.
+ */
+export function buildCockatriceCod(cards: CardOption[], deckName = "Proxxied Deck"): string {
+  const zones = groupCardsByZone(cards);
+  const codZones: [string, DecklistEntry[]][] = [
+    ["main", zones.get("main") ?? []],
+    ["side", [...(zones.get("commander") ?? []), ...(zones.get("companion") ?? []), ...(zones.get("side") ?? [])]],
+    ["tokens", zones.get("tokens") ?? []],
+  ];
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<cockatrice_deck version="1">',
+    `  <deckname>${escapeXml(deckName)}</deckname>`,
+    "  <comments></comments>",
+  ];
+
+  for (const [zoneName, entries] of codZones) {
+    if (entries.length === 0) continue;
+    lines.push(`  <zone name="${zoneName}">`);
+    for (const e of entries) {
+      const printing = e.set
+        ? ` setShortName="${escapeXml(e.set.toUpperCase())}"${e.number ? ` collectorNumber="${escapeXml(e.number)}"` : ""}`
+        : "";
+      lines.push(`    <card number="${e.count}" name="${escapeXml(e.name)}"${printing}/>`);
+    }
+    lines.push("  </zone>");
+  }
+
+  lines.push("</cockatrice_deck>");
+  return lines.join("\n");
+}
+
+export function downloadDecklist(filename: string, text: string, type = "text/plain;charset=utf-8") {
+  const blob = new Blob([text], { type });
+  if (saveWithNativeDialog(blob, filename)) return;
+
   const url = URL.createObjectURL(blob);
   const a = document.createElement("a");
   a.href = url;
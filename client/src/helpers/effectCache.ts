@@ -10,6 +10,7 @@ import { db, type EffectCacheEntry } from '../db';
 import type { CardOverrides, CardOption } from '../../../shared/types';
 import { enforceEffectCacheLimits } from './cacheUtils';
 import { hasActiveAdjustments } from './adjustmentUtils';
+import { hasArtTransform, pickArtTransform } from './artTransform';
 import { overridesToRenderParams } from './cardCanvasWorker';
 import type { RenderParams } from '../components/CardCanvas/types';
 import { useSettingsStore } from '../store/settings';
@@ -369,7 +370,7 @@ export async function preRenderEffect(
     card: CardOption,
     exportBlob: Blob
 ): Promise<void> {
-    if (!card.imageId || !card.overrides || !hasActiveAdjustments(card.overrides)) {
+    if (!card.imageId || !card.overrides || !(hasActiveAdjustments(card.overrides) || hasArtTransform(card.overrides))) {
         return;
     }
 
@@ -383,6 +384,18 @@ export async function preRenderEffect(
     }
 }
 
+/**
+ * Bake only a card's artwork transform into an image using the worker pool.
+ * Used by the page view, which draws display images directly.
+ */
+export async function renderArtTransform(
+    blob: Blob,
+    overrides: CardOverrides
+): Promise<Blob> {
+    const params = overridesToRenderParams(pickArtTransform(overrides));
+    return EffectProcessor.getInstance().process(blob, params);
+}
+
 /**
  * Queue bulk pre-render tasks. Uses the worker pool for non-blocking processing.
  * Fire-and-forget - logs errors but doesn't throw.
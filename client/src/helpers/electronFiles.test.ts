@@ -0,0 +1,42 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { saveWithNativeDialog } from "./electronFiles";
+import { useToastStore } from "@/store/toast";
+
+describe("saveWithNativeDialog", () => {
+    const saveFile = vi.fn();
+
+    beforeEach(() => {
+        saveFile.mockReset();
+    });
+
+    afterEach(() => {
+        delete window.electronAPI;
+    });
+
+    it("should return false outside Electron", () => {
+        expect(saveWithNativeDialog(new Blob(["x"]), "deck.txt")).toBe(false);
+    });
+
+    it("should hand the file to the native save dialog", async () => {
+        saveFile.mockResolvedValueOnce({ saved: true, filePath: "/exports/deck.txt" });
+        window.electronAPI = { saveFile } as unknown as Window["electronAPI"];
+
+        expect(saveWithNativeDialog(new Blob(["4 Island"]), "deck.txt")).toBe(true);
+
+        await vi.waitFor(() => expect(saveFile).toHaveBeenCalled());
+        const [filename, data] = saveFile.mock.calls[0];
+        expect(filename).toBe("deck.txt");
+        expect(new TextDecoder().decode(data)).toBe("4 Island");
+    });
+
+    it("should show an error toast when saving fails", async () => {
+        const showErrorToast = vi.spyOn(useToastStore.getState(), "showErrorToast");
+        saveFile.mockRejectedValueOnce(new Error("EACCES"));
+        window.electronAPI = { saveFile } as unknown as Window["electronAPI"];
+        vi.spyOn(console, "error").mockImplementation(() => {});
+
+        saveWithNativeDialog(new Blob(["x"]), "deck.pdf");
+
+        await vi.waitFor(() => expect(showErrorToast).toHaveBeenCalledWith("Failed to save deck.pdf"));
+    });
+});
@@ -0,0 +1,26 @@
+/**
+ * Electron File Integration
+ *
+ * Native save dialogs for exports when running in the Electron app. In the
+ * browser, exports stay regular downloads.
+ */
+
+import { useToastStore } from "@/store/toast";
+
+/**
+ * Save an export through Electron's native save dialog, which starts in the
+ * last folder used. Returns false when not running in Electron so the caller
+ * can fall back to a browser download.
+ */
+export function saveWithNativeDialog(blob: Blob, filename: string): boolean {
+    const saveFile = window.electronAPI?.saveFile;
+    if (!saveFile) return false;
+
+    blob.arrayBuffer()
+        .then((buffer) => saveFile(filename, new Uint8Array(buffer)))
+        .catch((err: unknown) => {
+            console.error("[electronFiles] Save failed:", err);
+            useToastStore.getState().showErrorToast(`Failed to save ${filename}`);
+        });
+    return true;
+}
@@ -0,0 +1,58 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { canPrintDirectly, getDuplexFlipMode, interleaveDuplexPages, printPages, toMm } from "./electronPrint";
+
+describe("electronPrint", () => {
+    afterEach(() => {
+        delete window.electronAPI;
+    });
+
+    it("should only offer direct printing in Electron", () => {
+        expect(canPrintDirectly()).toBe(false);
+
+        window.electronAPI = { printPages: vi.fn() } as unknown as Window["electronAPI"];
+        expect(canPrintDirectly()).toBe(true);
+    });
+
+    it("should convert page sizes to millimeters", () => {
+        expect(toMm(8.5, "in")).toBeCloseTo(215.9);
+        expect(toMm(210, "mm")).toBe(210);
+    });
+
+    it.each([
+        [8.5, 11, "longEdge"],
+        [11, 8.5, "shortEdge"],
+        [210, 210, "longEdge"],
+    ] as const)("should flip a %s x %s page on the %s", (width, height, expected) => {
+        expect(getDuplexFlipMode(width, height)).toBe(expected);
+    });
+
+    it("should pair each front page with its back", () => {
+        expect(interleaveDuplexPages(["F1", "F2", "F3"], ["B1", "B2", "B3"])).toEqual(["F1", "B1", "F2", "B2", "F3", "B3"]);
+        expect(interleaveDuplexPages(["F1", "F2"], ["B1"])).toEqual(["F1", "B1", "F2"]);
+    });
+
+    it("should send the pages and options to the main process", async () => {
+        const print = vi.fn().mockResolvedValueOnce(true);
+        window.electronAPI = { printPages: print } as unknown as Window["electronAPI"];
+
+        await printPages([new Uint8Array([1, 2]).buffer], { width: 215.9, height: 279.4 }, {
+            deviceName: "PDF",
+            copies: 2,
+            duplexMode: "longEdge",
+        });
+
+        expect(print).toHaveBeenCalledWith({
+            deviceName: "PDF",
+            copies: 2,
+            duplexMode: "longEdge",
+            pageWidthMm: 215.9,
+            pageHeightMm: 279.4,
+            pages: [new Uint8Array([1, 2])],
+        });
+    });
+
+    it("should refuse to print outside Electron", async () => {
+        await expect(printPages([], { width: 1, height: 1 }, { deviceName: "PDF", copies: 1, duplexMode: "simplex" }))
+            .rejects.toThrow("desktop app");
+    });
+});
@@ -0,0 +1,57 @@
+/**
+ * Electron Direct Printing
+ *
+ * Sends rendered pages straight to a system printer from the Electron app,
+ * at 100% scale so the printer driver can't "fit to page" and shift the
+ * cut lines.
+ */
+
+import { CONSTANTS } from "@/constants/commonConstants";
+
+export type PrintOptions = Pick<PrintPagesJob, "deviceName" | "copies" | "duplexMode">;
+
+export function canPrintDirectly(): boolean {
+    return typeof window.electronAPI?.printPages === "function";
+}
+
+export function toMm(value: number, unit: "mm" | "in"): number {
+    return unit === "in" ? value * CONSTANTS.MM_PER_IN : value;
+}
+
+/**
+ * Duplex exports mirror each row of backs left-to-right, so the sheet has to
+ * flip around its vertical edge: the long edge in portrait, the short edge
+ * in landscape.
+ */
+export function getDuplexFlipMode(pageWidth: number, pageHeight: number): Exclude<PrintDuplexMode, "simplex"> {
+    return pageHeight >= pageWidth ? "longEdge" : "shortEdge";
+}
+
+/**
+ * Put each back page right after its front page. Duplex exports render all
+ * fronts, then all backs; a duplex printer needs them paired.
+ */
+export function interleaveDuplexPages<T>(fronts: T[], backs: T[]): T[] {
+    const pages: T[] = [];
+    for (let i = 0; i < Math.max(fronts.length, backs.length); i++) {
+        if (i < fronts.length) pages.push(fronts[i]);
+        if (i < backs.length) pages.push(backs[i]);
+    }
+    return pages;
+}
+
+export async function printPages(
+    pages: ArrayBuffer[],
+    pageSizeMm: { width: number; height: number },
+    options: PrintOptions
+): Promise<void> {
+    const print = window.electronAPI?.printPages;
+    if (!print) throw new Error("Direct printing is only available in the desktop app");
+
+    await print({
+        ...options,
+        pageWidthMm: pageSizeMm.width,
+        pageHeightMm: pageSizeMm.height,
+        pages: pages.map((page) => new Uint8Array(page)),
+    });
+}
@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+    file: vi.fn(),
+    generateAsync: vi.fn().mockResolvedValue(new Blob(['zip-content'])),
+    saveAs: vi.fn(),
+}));
+
+vi.mock('jszip', () => ({
+    default: class MockJSZip {
+        file = mocks.file;
+        generateAsync = mocks.generateAsync;
+    },
+}));
+
+vi.mock('file-saver', () => ({
+    saveAs: mocks.saveAs,
+}));
+
+import {
+    countCardsOutsidePrintArea,
+    downloadCutFiles,
+    generateCutFileSVG,
+    type CuttingTemplateSettings,
+} from './exportCuttingTemplate';
+
+function settings(overrides: Partial<CuttingTemplateSettings> = {}): CuttingTemplateSettings {
+    return {
+        pageWidthMm: 279.4,
+        pageHeightMm: 215.9,
+        columns: 3,
+        rows: 2,
+        bleedMm: 0,
+        spacingMm: 0,
+        positionOffsetXMm: 0,
+        positionOffsetYMm: 0,
+        portrait: false,
+        registrationMarks: '3',
+        cutterProfile: 'silhouette',
+        ...overrides,
+    };
+}
+
+describe('exportCuttingTemplate cut files', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    describe('generateCutFileSVG', () => {
+        it('should put cut lines and marks in the profile layers', () => {
+            const svg = generateCutFileSVG(settings({ cutterProfile: 'cricut' }), 6);
+
+            expect(svg).toContain('inkscape:label="Cut"');
+            expect(svg).toContain('inkscape:label="Print"');
+            expect(svg.match(/stroke="#FF0000"/g)).toHaveLength(6);
+        });
+
+        it('should only cut the cards on the page', () => {
+            const svg = generateCutFileSVG(settings(), 4);
+
+            expect(svg.match(/stroke="#FF0000"/g)).toHaveLength(4);
+        });
+
+        it('should omit the registration layer when marks are off', () => {
+            const svg = generateCutFileSVG(settings({ registrationMarks: 'none' }), 6);
+
+            expect(svg).not.toContain('Registration Marks');
+            expect(svg).toContain('inkscape:label="Cut Lines"');
+        });
+
+        it('should rotate the page for portrait loading', () => {
+            const svg = generateCutFileSVG(settings({ portrait: true }), 1);
+
+            expect(svg).toContain('width="215.9mm"');
+            expect(svg).toContain('width="88" height="63"');
+        });
+
+        it('should cut the project card size', () => {
+            const svg = generateCutFileSVG(settings({ cardSize: { widthMm: 59, heightMm: 86, cornerRadiusMm: 2 } }), 1);
+
+            expect(svg).toContain('width="59" height="86" rx="2"');
+        });
+    });
+
+    describe('countCardsOutsidePrintArea', () => {
+        it('should count the outer slots beyond the Cricut limit', () => {
+            expect(countCardsOutsidePrintArea(settings({ cutterProfile: 'cricut', columns: 4, rows: 1 }))).toBe(2);
+            expect(countCardsOutsidePrintArea(settings({ cutterProfile: 'cricut', columns: 3, rows: 1 }))).toBe(0);
+        });
+    });
+
+    describe('downloadCutFiles', () => {
+        it('should save a single page directly', async () => {
+            await downloadCutFiles(settings(), 5);
+
+            expect(mocks.saveAs).toHaveBeenCalledWith(expect.any(Blob), 'cut_file_silhouette_letter_landscape_3x2_page_01.svg');
+            expect(mocks.file).not.toHaveBeenCalled();
+        });
+
+        it('should zip one file per page', async () => {
+            await downloadCutFiles(settings({ cutterProfile: 'scanncut' }), 13);
+
+            expect(mocks.file).toHaveBeenCalledTimes(3);
+            expect(mocks.file).toHaveBeenLastCalledWith('cut_file_scanncut_letter_landscape_3x2_page_03.svg', expect.any(Blob));
+            expect(mocks.saveAs).toHaveBeenCalledWith(expect.any(Blob), 'cut_file_scanncut_letter_landscape_3x2.zip');
+        });
+    });
+});
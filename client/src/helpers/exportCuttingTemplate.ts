@@ -1,14 +1,28 @@
 /**
  * Generate an SVG cutting template for Silhouette Cameo based on current print settings.
  * The SVG can be imported into Silhouette Studio and saved as a .studio3 file.
+ *
+ * Also generates per-page SVG cut files for the selected cutter profile
+ * matching the PDF's registration marks.
  */
 
 import { debugLog } from './debug';
 import { PDFDocument, rgb, StandardFonts, type PDFFont } from 'pdf-lib';
+import JSZip from 'jszip';
+import { saveAs } from 'file-saver';
 import { CONSTANTS } from '@/constants/commonConstants';
-
-// MTG card corner radius
-const CARD_CORNER_RADIUS_MM = 2.5;
+import {
+    getCutterPrintArea,
+    getCutterProfile,
+    getRegistrationMarks,
+    isCardInPrintArea,
+    registrationMarkToRects,
+    type CutterProfileId,
+    type RectMm,
+    type RegistrationMarkCount,
+} from './cutterProfiles';
+import { DEFAULT_CARD_SIZE, type CardSize } from './cardSizes';
+import { escapeXml } from './mpcXmlExport';
 
 export interface CuttingTemplateSettings {
     pageWidthMm: number;
@@ -23,6 +37,12 @@ export interface CuttingTemplateSettings {
     perCardOffsets?: Record<number, { x: number; y: number; rotation: number }>;
     includeCutGuides?: boolean;
     previewBackOnly?: boolean;
+    /** Cutter the per-page cut files are generated for (default: Silhouette) */
+    cutterProfile?: CutterProfileId;
+    /** Registration marks drawn on the printed pages ('none' omits them from cut files) */
+    registrationMarks?: 'none' | RegistrationMarkCount;
+    /** Trimmed card size and corner radius (default: standard 63x88mm card) */
+    cardSize?: CardSize;
 }
 
 /**
@@ -40,7 +60,8 @@ export function settingsToCuttingTemplate(
     cardSpacingMm: number,
     cardPositionX: number,
     cardPositionY: number,
-    portrait: boolean
+    portrait: boolean,
+    cardSize: CardSize = DEFAULT_CARD_SIZE
 ): CuttingTemplateSettings {
     // Convert page dimensions to mm
     const pageWidthMm = pageSizeUnit === 'in' ? pageWidth * CONSTANTS.MM_PER_IN : pageWidth;
@@ -61,18 +82,20 @@ export function settingsToCuttingTemplate(
         positionOffsetXMm: cardPositionX,
         positionOffsetYMm: cardPositionY,
         portrait,
+        cardSize,
     };
 }
 
 /**
  * Calculate card cut positions based on settings
  */
-function calculateCardPositions(settings: CuttingTemplateSettings): Array<{ x: number; y: number }> {
+export function calculateCardPositions(settings: CuttingTemplateSettings): Array<{ x: number; y: number }> {
     const { pageWidthMm, pageHeightMm, columns, rows, bleedMm, spacingMm, positionOffsetXMm, positionOffsetYMm } = settings;
+    const cardSize = settings.cardSize ?? DEFAULT_CARD_SIZE;
 
     // Card slot size (content + bleed on each side)
-    const slotWidthMm = CONSTANTS.CARD_WIDTH_MM + 2 * bleedMm;
-    const slotHeightMm = CONSTANTS.CARD_HEIGHT_MM + 2 * bleedMm;
+    const slotWidthMm = cardSize.widthMm + 2 * bleedMm;
+    const slotHeightMm = cardSize.heightMm + 2 * bleedMm;
 
     // Grid dimensions
     const gridWidthMm = columns * slotWidthMm + (columns - 1) * spacingMm;
@@ -109,6 +132,7 @@ function calculateCardPositions(settings: CuttingTemplateSettings): Array<{ x: n
  */
 export function generateCuttingTemplateSVG(settings: CuttingTemplateSettings): string {
     const { pageWidthMm, pageHeightMm, columns, portrait } = settings;
+    const { widthMm: cardWidthMm, heightMm: cardHeightMm, cornerRadiusMm } = settings.cardSize ?? DEFAULT_CARD_SIZE;
 
     // Calculate card positions
     const positions = calculateCardPositions(settings);
@@ -131,10 +155,10 @@ export function generateCuttingTemplateSVG(settings: CuttingTemplateSettings): s
     lines.push(`    Generated by Proxies at Home`);
     lines.push(`    `);
     lines.push(`    Page: ${svgWidth.toFixed(1)}mm x ${svgHeight.toFixed(1)}mm${portrait ? ' (portrait)' : ''}`);
-    lines.push(`    Cards: ${positions.length} standard MTG cards (${CONSTANTS.CARD_WIDTH_MM}mm x ${CONSTANTS.CARD_HEIGHT_MM}mm) in ${columns}x${settings.rows} grid`);
+    lines.push(`    Cards: ${positions.length} cards (${cardWidthMm}mm x ${cardHeightMm}mm) in ${columns}x${settings.rows} grid`);
     lines.push(`    Bleed: ${settings.bleedMm}mm`);
     lines.push(`    Spacing: ${settings.spacingMm}mm`);
-    lines.push(`    Corner radius: ${CARD_CORNER_RADIUS_MM}mm`);
+    lines.push(`    Corner radius: ${cornerRadiusMm}mm`);
     lines.push(`  -->`);
     lines.push(``);
     lines.push(`  <style>`);
@@ -166,17 +190,17 @@ export function generateCuttingTemplateSVG(settings: CuttingTemplateSettings): s
         if (portrait) {
             // 90° clockwise rotation: (x, y) -> (y, pageWidth - x - cardWidth)
             x = pos.y;
-            y = pageWidthMm - pos.x - CONSTANTS.CARD_WIDTH_MM;
-            w = CONSTANTS.CARD_HEIGHT_MM;
-            h = CONSTANTS.CARD_WIDTH_MM;
+            y = pageWidthMm - pos.x - cardWidthMm;
+            w = cardHeightMm;
+            h = cardWidthMm;
         } else {
             x = pos.x;
             y = pos.y;
-            w = CONSTANTS.CARD_WIDTH_MM;
-            h = CONSTANTS.CARD_HEIGHT_MM;
+            w = cardWidthMm;
+            h = cardHeightMm;
         }
 
-        lines.push(`  <rect class="cut-line" x="${x.toFixed(2)}" y="${y.toFixed(2)}" width="${w}" height="${h}" rx="${CARD_CORNER_RADIUS_MM}" ry="${CARD_CORNER_RADIUS_MM}"/>`);
+        lines.push(`  <rect class="cut-line" x="${x.toFixed(2)}" y="${y.toFixed(2)}" width="${w}" height="${h}" rx="${cornerRadiusMm}" ry="${cornerRadiusMm}"/>`);
     });
 
     lines.push(``);
@@ -327,6 +351,7 @@ function drawRoundedRect(
 function drawPageCutGuides(
     page: ReturnType<PDFDocument['addPage']>,
     positions: Array<{ x: number; y: number }>,
+    cardSize: CardSize,
     // columns parameter removed
     pageWidthMm: number,
     pageHeightMm: number,
@@ -341,9 +366,9 @@ function drawPageCutGuides(
 
     positions.forEach((pos) => {
         xCuts.add(pos.x);
-        xCuts.add(pos.x + CONSTANTS.CARD_WIDTH_MM);
+        xCuts.add(pos.x + cardSize.widthMm);
         yCuts.add(pos.y);
-        yCuts.add(pos.y + CONSTANTS.CARD_HEIGHT_MM);
+        yCuts.add(pos.y + cardSize.heightMm);
     });
 
     const rgbColor = rgb(...guideColor);
@@ -375,6 +400,7 @@ function drawPageCutGuides(
 function drawCardPlaceholders(
     page: ReturnType<PDFDocument['addPage']>,
     positions: Array<{ x: number; y: number }>,
+    cardSize: CardSize,
     columns: number,
     pageWidthMm: number,
     pageHeightMm: number,
@@ -395,8 +421,8 @@ function drawCardPlaceholders(
         // Use positions and dimensions directly (no rotation for test PDF)
         let x = pos.x;
         let y = pos.y;
-        const w = CONSTANTS.CARD_WIDTH_MM;
-        const h = CONSTANTS.CARD_HEIGHT_MM;
+        const w = cardSize.widthMm;
+        const h = cardSize.heightMm;
 
         // Apply per-card offsets if provided
         const cardOffset = perCardOffsets?.[index];
@@ -414,7 +440,7 @@ function drawCardPlaceholders(
         const rotation = cardOffset?.rotation || 0;
 
         // Draw rounded rectangle matching SVG style
-        const radius = CARD_CORNER_RADIUS_MM * MM_TO_PT;
+        const radius = cardSize.cornerRadiusMm * MM_TO_PT;
 
         if (rotation !== 0) {
             // For rotated cards, draw rectangle with properly rounded corners
@@ -632,6 +658,7 @@ function drawCardPlaceholders(
  */
 export async function generateCuttingTemplatePDFBlob(settings: CuttingTemplateSettings): Promise<Blob> {
     const { pageWidthMm, pageHeightMm, columns, perCardOffsets, includeCutGuides = true, previewBackOnly = false } = settings;
+    const cardSize = settings.cardSize ?? DEFAULT_CARD_SIZE;
 
     // Calculate card positions
     const positions = calculateCardPositions(settings);
@@ -655,11 +682,12 @@ export async function generateCuttingTemplatePDFBlob(settings: CuttingTemplateSe
     if (!previewBackOnly) {
         const frontPage = pdfDoc.addPage([pdfWidth * MM_TO_PT, pdfHeight * MM_TO_PT]);
         if (includeCutGuides) {
-            drawPageCutGuides(frontPage, positions, pageWidthMm, pageHeightMm);
+            drawPageCutGuides(frontPage, positions, cardSize, pageWidthMm, pageHeightMm);
         }
         drawCardPlaceholders(
             frontPage,
             positions,
+            cardSize,
             columns,
             pageWidthMm,
             pageHeightMm,
@@ -674,11 +702,12 @@ export async function generateCuttingTemplatePDFBlob(settings: CuttingTemplateSe
     // Create BACK page (with labels and offsets applied)
     const backPage = pdfDoc.addPage([pdfWidth * MM_TO_PT, pdfHeight * MM_TO_PT]);
     if (includeCutGuides) {
-        drawPageCutGuides(backPage, positions, pageWidthMm, pageHeightMm);
+        drawPageCutGuides(backPage, positions, cardSize, pageWidthMm, pageHeightMm);
     }
     drawCardPlaceholders(
         backPage,
         positions,
+        cardSize,
         columns,
         pageWidthMm,
         pageHeightMm,
@@ -718,4 +747,121 @@ export async function downloadCuttingTemplatePDF(settings: CuttingTemplateSettin
     document.body.removeChild(link);
 
     setTimeout(() => URL.revokeObjectURL(url), 1000);
-}
\ No newline at end of file
+}
+
+// ----- Per-page cut files -----
+
+/**
+ * Rotate a page-space rectangle 90° clockwise when paper is loaded in portrait,
+ * matching generateCuttingTemplateSVG.
+ */
+function toCutterSpace(rect: RectMm, settings: CuttingTemplateSettings): RectMm {
+    if (!settings.portrait) return rect;
+    return {
+        x: rect.y,
+        y: settings.pageWidthMm - rect.x - rect.width,
+        width: rect.height,
+        height: rect.width,
+    };
+}
+
+function getCutFileGeometry(settings: CuttingTemplateSettings, cardCount: number) {
+    const { pageWidthMm, pageHeightMm, portrait, cutterProfile = 'silhouette', registrationMarks = 'none' } = settings;
+    const cardSize = settings.cardSize ?? DEFAULT_CARD_SIZE;
+
+    const cards = calculateCardPositions(settings)
+        .slice(0, Math.max(0, cardCount))
+        .map((pos) => toCutterSpace({ x: pos.x, y: pos.y, width: cardSize.widthMm, height: cardSize.heightMm }, settings));
+
+    const marks = registrationMarks === 'none'
+        ? []
+        : getRegistrationMarks(cutterProfile, registrationMarks, pageWidthMm, pageHeightMm, portrait);
+    const markRects = marks.flatMap(registrationMarkToRects).map((rect) => toCutterSpace(rect, settings));
+
+    return {
+        width: portrait ? pageHeightMm : pageWidthMm,
+        height: portrait ? pageWidthMm : pageHeightMm,
+        cards,
+        cornerRadiusMm: cardSize.cornerRadiusMm,
+        markRects,
+    };
+}
+
+/**
+ * Count layout slots whose cut lines fall outside the cutter's print area.
+ */
+export function countCardsOutsidePrintArea(settings: CuttingTemplateSettings): number {
+    const area = getCutterPrintArea(settings.cutterProfile ?? 'silhouette', settings.pageWidthMm, settings.pageHeightMm);
+    const cardSize = settings.cardSize ?? DEFAULT_CARD_SIZE;
+    return calculateCardPositions(settings).filter((pos) => !isCardInPrintArea(area, pos.x, pos.y, cardSize)).length;
+}
+
+/**
+ * SVG cut file for one page. Cut lines and registration marks go in separate
+ * layers named for the cutter's software, so only the cut layer is cut.
+ */
+export function generateCutFileSVG(settings: CuttingTemplateSettings, cardCount: number, pageLabel = ''): string {
+    const profile = getCutterProfile(settings.cutterProfile);
+    const { width, height, cards, cornerRadiusMm, markRects } = getCutFileGeometry(settings, cardCount);
+
+    const layer = (name: string) =>
+        `  <g id="${escapeXml(name.replace(/\s+/g, '_'))}" inkscape:groupmode="layer" inkscape:label="${escapeXml(name)}">`;
+
+    const lines: string[] = [];
+    lines.push(`<?xml version="1.0" encoding="UTF-8"?>`);
+    lines.push(`<svg xmlns="http://www.w3.org/2000/svg"`);
+    lines.push(`     xmlns:inkscape="http://www.inkscape.org/namespaces/inkscape"`);
+    lines.push(`     width="${width}mm"`);
+    lines.push(`     height="${height}mm"`);
+    lines.push(`     viewBox="0 0 ${width} ${height}">`);
+    lines.push(`  <!-- ${escapeXml(profile.label)} cut file${pageLabel ? ` (${escapeXml(pageLabel)})` : ''}, ${cards.length} cards -->`);
+
+    if (markRects.length > 0) {
+        lines.push(layer(profile.layers.registration));
+        for (const rect of markRects) {
+            lines.push(`    <rect x="${rect.x.toFixed(3)}" y="${rect.y.toFixed(3)}" width="${rect.width.toFixed(3)}" height="${rect.height.toFixed(3)}" fill="#000000" stroke="none"/>`);
+        }
+        lines.push(`  </g>`);
+    }
+
+    lines.push(layer(profile.layers.cut));
+    for (const card of cards) {
+        lines.push(`    <rect x="${card.x.toFixed(2)}" y="${card.y.toFixed(2)}" width="${card.width}" height="${card.height}" rx="${cornerRadiusMm}" ry="${cornerRadiusMm}" fill="none" stroke="#FF0000" stroke-width="0.1"/>`);
+    }
+    lines.push(`  </g>`);
+    lines.push(`</svg>`);
+
+    return lines.join('\n');
+}
+
+/**
+ * Download one cut file per printed page for the selected cutter.
+ * A single page downloads directly; multiple pages are zipped.
+ */
+export async function downloadCutFiles(settings: CuttingTemplateSettings, totalCards: number): Promise<void> {
+    const profile = getCutterProfile(settings.cutterProfile);
+    const perPage = Math.max(1, settings.columns * settings.rows);
+    const pageCount = Math.max(1, Math.ceil(totalCards / perPage));
+    const baseName = `cut_file_${profile.id}_${getPageSizeName(settings.pageWidthMm, settings.pageHeightMm)}_${settings.columns}x${settings.rows}`;
+
+    const files = Array.from({ length: pageCount }, (_, pageIndex) => {
+        // Without cards, export a full-page template
+        const cardCount = totalCards > 0 ? Math.min(perPage, totalCards - pageIndex * perPage) : perPage;
+        const pageLabel = `page ${pageIndex + 1} of ${pageCount}`;
+        const filename = `${baseName}_page_${String(pageIndex + 1).padStart(2, '0')}.svg`;
+        const blob = new Blob([generateCutFileSVG(settings, cardCount, pageLabel)], { type: 'image/svg+xml' });
+        return { filename, blob };
+    });
+
+    debugLog('[Cut Files] Export:', { profile: profile.id, pageCount, totalCards });
+
+    if (files.length === 1) {
+        saveAs(files[0].blob, files[0].filename);
+        return;
+    }
+
+    const zip = new JSZip();
+    files.forEach(({ filename, blob }) => zip.file(filename, blob));
+    const zipBlob = await zip.generateAsync({ type: 'blob' });
+    saveAs(zipBlob, `${baseName}.zip`);
+}
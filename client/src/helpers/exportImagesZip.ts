@@ -6,6 +6,7 @@ import { hasAdvancedOverrides, overridesToRenderParams, renderCardWithOverridesW
 import { useSettingsStore } from "@/store/settings";
 import { getLocalBleedImageUrl } from "./imageHelper";
 import { setEffectCacheEntryWithDpi } from "./effectCache";
+import { saveWithNativeDialog } from "./electronFiles";
 
 // Sanitize filename helper (simple local version sufficient for now, or could move to utils)
 function sanitizeFilename(name: string): string {
@@ -184,7 +185,7 @@ export async function ExportImagesZip(opts: ExportOpts) {
   const date = new Date().toISOString().slice(0, 10);
   const outName = `${fileBaseName || "card_images"}_${date}.zip`;
   const content = await zip.generateAsync({ type: "blob" });
-  saveAs(content, outName);
+  if (!saveWithNativeDialog(content, outName)) saveAs(content, outName);
 }
 
 /**
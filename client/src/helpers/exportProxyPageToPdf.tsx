@@ -5,6 +5,9 @@ import { AsyncLock } from "./AsyncLock";
 import type { WorkerPdfSettings } from "./serializeSettingsForWorker";
 import { getEffectCacheEntry } from "./effectCache";
 import { hasActiveAdjustments } from "./adjustmentUtils";
+import { hasArtTransform } from "./artTransform";
+import { getColorLut } from "./iccProfileLibrary";
+import { saveWithNativeDialog } from "./electronFiles";
 import { CONSTANTS } from "@/constants/commonConstants";
 
 /**
@@ -39,6 +42,7 @@ export async function exportProxyPagesToPdf({
   cancellationPromise,
   filenameSuffix = '',
   returnBuffer = false,
+  onPageImage,
 }: {
   cards: CardOption[];
   imagesById: Map<string, import("../db").Image>;
@@ -48,6 +52,8 @@ export async function exportProxyPagesToPdf({
   cancellationPromise: Promise<void>;
   filenameSuffix?: string;
   returnBuffer?: boolean;
+  /** Receives each rendered page as a JPEG, in page order (used for direct printing) */
+  onPageImage?: (jpeg: ArrayBuffer) => void;
 }): Promise<Uint8Array | void> {
   if (!cards || !cards.length) {
     return returnBuffer ? new Uint8Array() : undefined;
@@ -77,6 +83,7 @@ export async function exportProxyPagesToPdf({
     cutGuideLengthMm,
     registrationMarks,
     registrationMarksPortrait,
+    cutterProfile,
     rightAlignRows,
     darkenThreshold,
     darkenContrast,
@@ -89,6 +96,9 @@ export async function exportProxyPagesToPdf({
     cardBackPositionX,
     cardBackPositionY,
     perCardBackOffsets,
+    cardSize,
+    exportIccProfileId,
+    exportRenderingIntent,
   } = pdfSettings;
 
   const perPage = Math.max(1, columns * rows);
@@ -99,7 +109,7 @@ export async function exportProxyPagesToPdf({
   // Build effect cache map for cards with active adjustments
   const effectCacheById = new Map<string, Blob>();
   for (const card of cards) {
-    if (card.imageId && card.overrides && hasActiveAdjustments(card.overrides)) {
+    if (card.imageId && card.overrides && (hasActiveAdjustments(card.overrides) || hasArtTransform(card.overrides))) {
       const cached = await getEffectCacheEntry(card.imageId, card.overrides);
       if (cached) {
         effectCacheById.set(card.uuid, cached);
@@ -107,6 +117,14 @@ export async function exportProxyPagesToPdf({
     }
   }
 
+  // Printer ICC conversion - the worker runs every card image through this table
+  const exportColorLut = exportIccProfileId
+    ? await getColorLut(exportIccProfileId, 'export', exportRenderingIntent)
+    : null;
+  if (exportIccProfileId && !exportColorLut) {
+    console.warn('[PDF Export] ICC profile not found, exporting without color conversion');
+  }
+
   const pagesIterator = pageGenerator(cards, perPage);
 
   let isDone = false;
@@ -210,6 +228,7 @@ export async function exportProxyPagesToPdf({
                     const response = await fetch(url);
                     const blob = await response.blob();
                     const buffer = await blob.arrayBuffer();
+                    onPageImage?.(buffer);
                     const image = await pdfDoc.embedJpg(buffer);
                     const page = pdfDoc.addPage([pdfWidth, pdfHeight]);
                     page.drawImage(image, {
@@ -279,6 +298,7 @@ export async function exportProxyPagesToPdf({
                       cutGuideLengthMm,
                       registrationMarks,
                       registrationMarksPortrait,
+                      cutterProfile,
                       // Pass normalized source settings directly (no legacy conversion)
                       sourceSettings,
                       withBleedSourceAmount,
@@ -289,8 +309,10 @@ export async function exportProxyPagesToPdf({
                       cardBackPositionX,
                       cardBackPositionY,
                       perCardBackOffsets,
+                      cardSize,
                       // Pre-rendered effect cache (filtered to this page's cards only)
                       effectCacheById: pageEffectCache,
+                      exportColorLut,
                     };
 
                     idleWorker.worker.postMessage({
@@ -409,6 +431,8 @@ export async function exportProxyPagesToPdf({
 
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const blob = new Blob([mergedPdfFile as any], { type: "application/pdf" });
+  if (saveWithNativeDialog(blob, filename)) return;
+
   const url = URL.createObjectURL(blob);
   const link = document.createElement("a");
   link.href = url;
@@ -0,0 +1,214 @@
+import { describe, it, expect } from 'vitest';
+import {
+    buildExportLut,
+    buildProofLut,
+    deltaE,
+    isOutOfGamut,
+    labToSrgb,
+    parseIccProfile,
+    srgbToLab,
+} from './iccProfile';
+import type { ColorLut } from './colorLut';
+
+// --- Synthetic profile builders ---
+
+const ascii = (text: string) => Array.from(text, (c) => c.charCodeAt(0));
+const u16 = (v: number) => [(v >> 8) & 0xff, v & 0xff];
+const u32 = (v: number) => [(v >>> 24) & 0xff, (v >>> 16) & 0xff, (v >>> 8) & 0xff, v & 0xff];
+const s15 = (v: number) => u32(Math.round(v * 65536) >>> 0);
+const pad4 = (bytes: number[]) => [...bytes, ...new Array((4 - (bytes.length % 4)) % 4).fill(0)];
+
+function buildProfile(colorSpace: string, tags: [string, number[]][], pcs = 'Lab '): ArrayBuffer {
+    const header = new Array(128).fill(0);
+    header.splice(12, 4, ...ascii('prtr'));
+    header.splice(16, 4, ...ascii(colorSpace));
+    header.splice(20, 4, ...ascii(pcs));
+    header.splice(36, 4, ...ascii('acsp'));
+
+    const table: number[] = [...u32(tags.length)];
+    const data: number[] = [];
+    let offset = 128 + 4 + tags.length * 12;
+    for (const [sig, bytes] of tags) {
+        table.push(...ascii(sig), ...u32(offset), ...u32(bytes.length));
+        const padded = pad4(bytes);
+        data.push(...padded);
+        offset += padded.length;
+    }
+
+    const bytes = [...header, ...table, ...data];
+    bytes.splice(0, 4, ...u32(bytes.length));
+    return new Uint8Array(bytes).buffer;
+}
+
+const descTag = (text: string) => [...ascii('desc'), 0, 0, 0, 0, ...u32(text.length + 1), ...ascii(text), 0];
+const xyzTag = (x: number, y: number, z: number) => [...ascii('XYZ '), 0, 0, 0, 0, ...s15(x), ...s15(y), ...s15(z)];
+const identityCurve = () => [...ascii('curv'), 0, 0, 0, 0, ...u32(0)];
+// sRGB transfer function as a type 3 parametric curve
+const srgbCurveTag = () => [
+    ...ascii('para'), 0, 0, 0, 0, ...u16(3), 0, 0,
+    ...s15(2.4), ...s15(1 / 1.055), ...s15(0.055 / 1.055), ...s15(1 / 12.92), ...s15(0.04045),
+];
+
+/** lut16 tag with identity input/output tables, CLUT values from `fn` (0-1 in, 0-1 out) */
+function lut16Tag(inputs: number, outputs: number, grid: number, fn: (input: number[]) => number[]): number[] {
+    const bytes = [...ascii('mft2'), 0, 0, 0, 0, inputs, outputs, grid, 0];
+    for (let i = 0; i < 9; i++) bytes.push(...s15(i % 4 === 0 ? 1 : 0));
+    bytes.push(...u16(2), ...u16(2));
+    for (let i = 0; i < inputs; i++) bytes.push(...u16(0), ...u16(65535));
+
+    const count = Math.pow(grid, inputs);
+    for (let n = 0; n < count; n++) {
+        // First input varies slowest
+        const input: number[] = [];
+        let rest = n;
+        for (let i = inputs - 1; i >= 0; i--) {
+            input[i] = (rest % grid) / (grid - 1);
+            rest = Math.floor(rest / grid);
+        }
+        for (const v of fn(input)) bytes.push(...u16(Math.round(Math.min(1, Math.max(0, v)) * 65535)));
+    }
+
+    for (let i = 0; i < outputs; i++) bytes.push(...u16(0), ...u16(65535));
+    return bytes;
+}
+
+// Legacy 16-bit Lab PCS encoding
+const encodeLab16 = ([L, a, b]: number[]) => [L * 652.8 / 65535, (a + 128) * 256 / 65535, (b + 128) * 256 / 65535];
+const decodeLab16 = ([L, a, b]: number[]) => [L * 65535 / 652.8, a * 65535 / 256 - 128, b * 65535 / 256 - 128];
+
+/** A printer that can't reach saturated colors: chroma is clipped at 40 */
+function mutedPrinterProfile(): ArrayBuffer {
+    const toDevice = (encoded: number[]) => {
+        const [L, a, b] = decodeLab16(encoded);
+        const chroma = Math.hypot(a, b);
+        const scale = chroma > 40 ? 40 / chroma : 1;
+        return labToSrgb([L, a * scale, b * scale]);
+    };
+    return buildProfile('RGB ', [
+        ['desc', descTag('Muted Printer')],
+        ['A2B0', lut16Tag(3, 3, 17, (rgb) => encodeLab16(srgbToLab(rgb)))],
+        ['B2A0', lut16Tag(3, 3, 17, toDevice)],
+    ]);
+}
+
+/** Pixel value of a LUT grid point */
+function lutEntry(lut: ColorLut, r: number, g: number, b: number): number[] {
+    const i = (g * lut.size * lut.size + b * lut.size + r) * 4;
+    return Array.from(lut.data.slice(i, i + 4));
+}
+
+describe('iccProfile', () => {
+    describe('parseIccProfile', () => {
+        it('should reject data that is not an ICC profile', () => {
+            expect(() => parseIccProfile(new ArrayBuffer(16))).toThrow(/too small/);
+            expect(() => parseIccProfile(new ArrayBuffer(256))).toThrow('Not an ICC profile');
+        });
+
+        it('should reject profiles without transforms', () => {
+            expect(() => parseIccProfile(buildProfile('CMYK', [['desc', descTag('Empty')]]))).toThrow(/no usable color transforms/);
+        });
+
+        it('should read the header and description', () => {
+            const profile = parseIccProfile(mutedPrinterProfile());
+            expect(profile.description).toBe('Muted Printer');
+            expect(profile.deviceClass).toBe('prtr');
+            expect(profile.colorSpace).toBe('RGB');
+            expect(profile.channels).toBe(3);
+        });
+
+        it('should read v4 lutAtoB/lutBtoA pipelines', () => {
+            // Curves only: device values are v4-encoded Lab
+            const curves = [identityCurve(), identityCurve(), identityCurve()].flat();
+            const lutTag = (sig: string) => [...ascii(sig), 0, 0, 0, 0, 3, 3, 0, 0, ...u32(32), 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, ...curves];
+            const profile = parseIccProfile(buildProfile('RGB ', [['A2B0', lutTag('mAB ')], ['B2A0', lutTag('mBA ')]]));
+
+            const lab = profile.toLab.perceptual([0.5, 128 / 255, 128 / 255]);
+            expect(lab[0]).toBeCloseTo(50, 5);
+            expect(lab[1]).toBeCloseTo(0, 5);
+            expect(profile.fromLab.relative([100, 0, 0])[0]).toBeCloseTo(1, 5);
+        });
+    });
+
+    describe('matrix/TRC profiles', () => {
+        const srgbProfile = () => parseIccProfile(buildProfile('RGB ', [
+            ['rXYZ', xyzTag(0.4360747, 0.2225045, 0.0139322)],
+            ['gXYZ', xyzTag(0.3850649, 0.7168786, 0.0971045)],
+            ['bXYZ', xyzTag(0.1430804, 0.0606169, 0.7141733)],
+            ['rTRC', srgbCurveTag()],
+            ['gTRC', srgbCurveTag()],
+            ['bTRC', srgbCurveTag()],
+        ], 'XYZ '));
+
+        it('should proof sRGB through an sRGB profile unchanged', () => {
+            const lut = buildProofLut(srgbProfile(), 'perceptual', 5);
+            for (const [r, g, b] of [[0, 0, 0], [4, 4, 4], [4, 0, 0], [1, 2, 3], [0, 4, 2]]) {
+                const [pr, pg, pb, warning] = lutEntry(lut, r, g, b);
+                expect(Math.abs(pr - r * 63.75)).toBeLessThanOrEqual(2);
+                expect(Math.abs(pg - g * 63.75)).toBeLessThanOrEqual(2);
+                expect(Math.abs(pb - b * 63.75)).toBeLessThanOrEqual(2);
+                expect(warning).toBe(0);
+            }
+        });
+    });
+
+    describe('gamut', () => {
+        it('should flag colors the printer cannot reach', () => {
+            const profile = parseIccProfile(mutedPrinterProfile());
+            expect(isOutOfGamut(profile, srgbToLab([1, 0, 0]))).toBe(true);
+            expect(isOutOfGamut(profile, srgbToLab([0.5, 0.5, 0.5]))).toBe(false);
+            expect(isOutOfGamut(profile, srgbToLab([0.6, 0.5, 0.45]))).toBe(false);
+        });
+
+        it('should show the printed color and the warning in the proof LUT', () => {
+            const profile = parseIccProfile(mutedPrinterProfile());
+            const lut = buildProofLut(profile, 'perceptual', 5);
+
+            const red = lutEntry(lut, 4, 0, 0);
+            expect(red[3]).toBe(255);
+            // Clipped chroma - the proofed red is much closer to gray
+            const proofed = srgbToLab(red.slice(0, 3).map((v) => v / 255));
+            expect(Math.hypot(proofed[1], proofed[2])).toBeLessThan(45);
+
+            const gray = lutEntry(lut, 2, 2, 2);
+            expect(gray[3]).toBe(0);
+            expect(Math.abs(gray[0] - 127.5)).toBeLessThanOrEqual(3);
+        });
+    });
+
+    describe('buildExportLut', () => {
+        it('should output device values for RGB printers', () => {
+            const profile = parseIccProfile(mutedPrinterProfile());
+            const lut = buildExportLut(profile, 'perceptual', 5);
+            const device = profile.fromLab.perceptual(srgbToLab([1, 0, 0]));
+
+            const red = lutEntry(lut, 4, 0, 0);
+            expect(red.slice(0, 3)).toEqual(device.map((v) => Math.round(v * 255)));
+            expect(red[3]).toBe(255);
+        });
+
+        it('should map CMYK profiles into the printable gamut as sRGB', () => {
+            // Naive CMYK with a paper that can't print pure black
+            const toLab = ([c, m, y, k]: number[]) => encodeLab16(srgbToLab([
+                (1 - c) * (1 - k) * 0.9 + 0.05,
+                (1 - m) * (1 - k) * 0.9 + 0.05,
+                (1 - y) * (1 - k) * 0.9 + 0.05,
+            ]));
+            const fromLab = (encoded: number[]) => {
+                const rgb = labToSrgb(decodeLab16(encoded)).map((v) => Math.min(1, Math.max(0, (v - 0.05) / 0.9)));
+                const k = 1 - Math.max(...rgb);
+                return k >= 1 ? [0, 0, 0, 1] : [...rgb.map((v) => (1 - v - k) / (1 - k)), k];
+            };
+            const profile = parseIccProfile(buildProfile('CMYK', [
+                ['A2B0', lut16Tag(4, 3, 9, toLab)],
+                ['B2A0', lut16Tag(3, 4, 9, fromLab)],
+            ]));
+            expect(profile.channels).toBe(4);
+
+            const lut = buildExportLut(profile, 'relative', 5);
+            const black = lutEntry(lut, 0, 0, 0);
+            // The darkest printable black is lifted
+            expect(black[0]).toBeGreaterThan(5);
+            expect(deltaE(srgbToLab(black.slice(0, 3).map((v) => v / 255)), srgbToLab([0.05, 0.05, 0.05]))).toBeLessThan(5);
+        });
+    });
+});
@@ -0,0 +1,676 @@
+/**
+ * ICC Profile Color Management
+ *
+ * A small pure-TS color management engine - enough of ICC v2/v4 to read
+ * printer and display profiles and turn them into lookup tables:
+ * - lut8 / lut16 and lutAtoB / lutBtoA pipelines (RGB, CMYK, Gray, ...)
+ * - Matrix/TRC RGB and Gray TRC profiles
+ * - Lab and XYZ profile connection spaces
+ *
+ * Everything is normalized to D50 Lab internally. Screen colors are assumed
+ * to be sRGB. Shared between the main thread (soft proofing) and the PDF
+ * export path, so it must not touch the DOM.
+ */
+
+import type { ColorLut } from './colorLut';
+
+export type RenderingIntent = 'perceptual' | 'relative';
+
+/** D50 Lab color: L 0-100, a/b roughly -128..127 */
+export type Lab = [number, number, number];
+
+/** Maps between device values (0-1 per channel) and Lab */
+type Transform = (input: number[]) => number[];
+
+export interface IccProfile {
+    /** Human readable name from the 'desc' tag, empty if missing */
+    description: string;
+    /** Profile class signature, e.g. 'prtr' (printer) or 'mntr' (display) */
+    deviceClass: string;
+    /** Device color space signature without padding, e.g. 'RGB', 'CMYK', 'GRAY' */
+    colorSpace: string;
+    /** Number of device channels */
+    channels: number;
+    /** Device -> Lab per rendering intent */
+    toLab: Record<RenderingIntent, Transform>;
+    /** Lab -> device per rendering intent */
+    fromLab: Record<RenderingIntent, Transform>;
+}
+
+/** Round-trip color difference above which a color counts as out of gamut (CIE76) */
+export const GAMUT_DELTA_E = 5;
+
+/** Grid points per axis of the soft-proof and export lookup tables */
+export const COLOR_LUT_SIZE = 33;
+
+const HEADER_SIZE = 128;
+
+// D50 reference white (PCS illuminant)
+const D50: [number, number, number] = [0.9642, 1.0, 0.8249];
+
+// Linear sRGB <-> XYZ, Bradford-adapted to D50
+const SRGB_TO_XYZ_D50 = [
+    0.4360747, 0.3850649, 0.1430804,
+    0.2225045, 0.7168786, 0.0606169,
+    0.0139322, 0.0971045, 0.7141733,
+];
+const XYZ_D50_TO_SRGB = [
+    3.1338561, -1.6168667, -0.4906146,
+    -0.9787684, 1.9161415, 0.0334540,
+    0.0719453, -0.2289914, 1.4052427,
+];
+
+// Device channels per color space signature
+const COLOR_SPACE_CHANNELS: Record<string, number> = {
+    'GRAY': 1, 'RGB': 3, 'CMY': 3, 'Lab': 3, 'XYZ': 3, 'HSV': 3, 'HLS': 3, 'YCbr': 3, 'Luv': 3, 'Yxy': 3,
+    'CMYK': 4, '2CLR': 2, '3CLR': 3, '4CLR': 4, '5CLR': 5, '6CLR': 6, '7CLR': 7, '8CLR': 8,
+};
+
+const clamp01 = (v: number) => (v < 0 ? 0 : v > 1 ? 1 : v);
+
+// --- Color math ---
+
+function multiply3(m: number[], v: number[]): [number, number, number] {
+    return [
+        m[0] * v[0] + m[1] * v[1] + m[2] * v[2],
+        m[3] * v[0] + m[4] * v[1] + m[5] * v[2],
+        m[6] * v[0] + m[7] * v[1] + m[8] * v[2],
+    ];
+}
+
+function invert3(m: number[]): number[] {
+    const [a, b, c, d, e, f, g, h, i] = m;
+    const det = a * (e * i - f * h) - b * (d * i - f * g) + c * (d * h - e * g);
+    if (Math.abs(det) < 1e-12) throw new Error('ICC profile matrix is not invertible');
+    return [
+        (e * i - f * h) / det, (c * h - b * i) / det, (b * f - c * e) / det,
+        (f * g - d * i) / det, (a * i - c * g) / det, (c * d - a * f) / det,
+        (d * h - e * g) / det, (b * g - a * h) / det, (a * e - b * d) / det,
+    ];
+}
+
+export function xyzToLab(xyz: number[]): Lab {
+    const f = (t: number) => (t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116);
+    const fx = f(xyz[0] / D50[0]);
+    const fy = f(xyz[1] / D50[1]);
+    const fz = f(xyz[2] / D50[2]);
+    return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+}
+
+export function labToXyz(lab: number[]): [number, number, number] {
+    const fy = (lab[0] + 16) / 116;
+    const fx = fy + lab[1] / 500;
+    const fz = fy - lab[2] / 200;
+    const inv = (t: number) => (t > 6 / 29 ? t * t * t : (116 * t - 16) * 27 / 24389);
+    return [inv(fx) * D50[0], inv(fy) * D50[1], inv(fz) * D50[2]];
+}
+
+/** sRGB (0-1) to D50 Lab */
+export function srgbToLab(rgb: number[]): Lab {
+    const linear = rgb.map((c) => (c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4)));
+    return xyzToLab(multiply3(SRGB_TO_XYZ_D50, linear));
+}
+
+/** D50 Lab to sRGB (0-1), clipped to the sRGB gamut */
+export function labToSrgb(lab: number[]): [number, number, number] {
+    const linear = multiply3(XYZ_D50_TO_SRGB, labToXyz(lab));
+    const encode = (c: number) => {
+        const v = clamp01(c);
+        return v <= 0.0031308 ? v * 12.92 : 1.055 * Math.pow(v, 1 / 2.4) - 0.055;
+    };
+    return [encode(linear[0]), encode(linear[1]), encode(linear[2])];
+}
+
+/** CIE76 color difference */
+export function deltaE(a: number[], b: number[]): number {
+    return Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+}
+
+// --- Binary readers ---
+
+const readSig = (view: DataView, offset: number) =>
+    String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));
+
+const readS15Fixed16 = (view: DataView, offset: number) => view.getInt32(offset) / 65536;
+
+const align4 = (n: number) => (n + 3) & ~3;
+
+// --- Curves ---
+
+type Curve = (x: number) => number;
+
+const identityCurve: Curve = (x) => x;
+
+/** Piecewise linear interpolation over evenly spaced table entries (0-1) */
+function tableCurve(table: ArrayLike<number>): Curve {
+    const last = table.length - 1;
+    if (last < 1) return identityCurve;
+    return (x) => {
+        const pos = clamp01(x) * last;
+        const i = Math.min(last - 1, Math.floor(pos));
+        const t = pos - i;
+        return table[i] + (table[i + 1] - table[i]) * t;
+    };
+}
+
+/** Parametric curve ('para') of the given function type */
+function parametricCurve(type: number, p: number[]): Curve {
+    const [g, a = 1, b = 0, c = 0, d = 0, e = 0, f = 0] = p;
+    const pow = (v: number) => Math.pow(Math.max(0, v), g);
+    switch (type) {
+        case 0: return (x) => pow(x);
+        case 1: return (x) => (x >= -b / a ? pow(a * x + b) : 0);
+        case 2: return (x) => (x >= -b / a ? pow(a * x + b) + c : c);
+        case 3: return (x) => (x >= d ? pow(a * x + b) : c * x);
+        case 4: return (x) => (x >= d ? pow(a * x + b) + e : c * x + f);
+        default: throw new Error(`Unsupported ICC parametric curve type ${type}`);
+    }
+}
+
+const PARAMETRIC_PARAM_COUNTS = [1, 3, 4, 5, 7];
+
+/**
+ * Read a 'curv' or 'para' element. Returns the curve and its size in bytes.
+ */
+function readCurve(view: DataView, offset: number): { curve: Curve; size: number } {
+    const type = readSig(view, offset);
+    if (type === 'curv') {
+        const count = view.getUint32(offset + 8);
+        if (count === 0) return { curve: identityCurve, size: 12 };
+        if (count === 1) {
+            const gamma = view.getUint16(offset + 12) / 256;
+            return { curve: (x) => Math.pow(clamp01(x), gamma), size: 14 };
+        }
+        const table = new Float64Array(count);
+        for (let i = 0; i < count; i++) table[i] = view.getUint16(offset + 12 + i * 2) / 65535;
+        return { curve: tableCurve(table), size: 12 + count * 2 };
+    }
+    if (type === 'para') {
+        const fn = view.getUint16(offset + 8);
+        const paramCount = PARAMETRIC_PARAM_COUNTS[fn];
+        if (paramCount === undefined) throw new Error(`Unsupported ICC parametric curve type ${fn}`);
+        const params: number[] = [];
+        for (let i = 0; i < paramCount; i++) params.push(readS15Fixed16(view, offset + 12 + i * 4));
+        const curve = parametricCurve(fn, params);
+        return { curve: (x) => clamp01(curve(clamp01(x))), size: 12 + paramCount * 4 };
+    }
+    throw new Error(`Unsupported ICC curve type '${type}'`);
+}
+
+/** Read `count` curves stored back to back, each padded to 4 bytes */
+function readCurveSet(view: DataView, offset: number, count: number): Curve[] {
+    const curves: Curve[] = [];
+    for (let i = 0; i < count; i++) {
+        const { curve, size } = readCurve(view, offset);
+        curves.push(curve);
+        offset += align4(size);
+    }
+    return curves;
+}
+
+/**
+ * Numerically invert a monotonic curve (used for the inverse of TRC profiles)
+ */
+function invertCurve(curve: Curve, samples = 4096): Curve {
+    const table = new Float64Array(samples);
+    for (let i = 0; i < samples; i++) table[i] = curve(i / (samples - 1));
+    const increasing = table[samples - 1] >= table[0];
+
+    return (y) => {
+        // Binary search for the last sample on the near side of y
+        let lo = 0;
+        let hi = samples - 1;
+        while (hi - lo > 1) {
+            const mid = (lo + hi) >> 1;
+            if ((table[mid] <= y) === increasing) lo = mid;
+            else hi = mid;
+        }
+        const span = table[hi] - table[lo];
+        const t = span === 0 ? 0 : clamp01((y - table[lo]) / span);
+        return (lo + t) / (samples - 1);
+    };
+}
+
+// --- Color lookup tables ---
+
+/**
+ * Multilinear interpolation in an n-dimensional grid.
+ * The first input channel varies slowest, values are 0-1.
+ */
+function createClut(grid: number[], outputs: number, values: ArrayLike<number>): Transform {
+    const inputs = grid.length;
+    const strides = new Array<number>(inputs);
+    let stride = outputs;
+    for (let i = inputs - 1; i >= 0; i--) {
+        strides[i] = stride;
+        stride *= grid[i];
+    }
+    const corners = 1 << inputs;
+    const base = new Array<number>(inputs);
+    const frac = new Array<number>(inputs);
+
+    return (input) => {
+        for (let i = 0; i < inputs; i++) {
+            const max = grid[i] - 1;
+            const pos = clamp01(input[i]) * max;
+            const i0 = Math.min(max - 1, Math.floor(pos));
+            base[i] = Math.max(0, i0);
+            frac[i] = max === 0 ? 0 : pos - base[i];
+        }
+
+        const out = new Array<number>(outputs).fill(0);
+        for (let corner = 0; corner < corners; corner++) {
+            let weight = 1;
+            let index = 0;
+            for (let i = 0; i < inputs; i++) {
+                const high = (corner >> (inputs - 1 - i)) & 1;
+                weight *= high ? frac[i] : 1 - frac[i];
+                index += (base[i] + (grid[i] > 1 ? high : 0)) * strides[i];
+            }
+            if (weight === 0) continue;
+            for (let o = 0; o < outputs; o++) out[o] += weight * values[index + o];
+        }
+        return out;
+    };
+}
+
+const applyCurves = (curves: Curve[], v: number[]) => v.map((x, i) => curves[i](x));
+
+// --- PCS encodings ---
+
+/**
+ * How Lab/XYZ values are packed into 0-1 for a lookup table pipeline.
+ * 'lut16' is the legacy 16-bit Lab encoding (L 100 = 0xFF00).
+ */
+type PcsEncoding = 'lut8' | 'lut16' | 'v4';
+
+function encodePcs(lab: number[], pcs: string, encoding: PcsEncoding): number[] {
+    if (pcs === 'XYZ') {
+        return labToXyz(lab).map((v) => clamp01(v * 32768 / 65535));
+    }
+    if (encoding === 'lut16') {
+        return [
+            clamp01(lab[0] * 652.8 / 65535),
+            clamp01((lab[1] + 128) * 256 / 65535),
+            clamp01((lab[2] + 128) * 256 / 65535),
+        ];
+    }
+    return [clamp01(lab[0] / 100), clamp01((lab[1] + 128) / 255), clamp01((lab[2] + 128) / 255)];
+}
+
+function decodePcs(v: number[], pcs: string, encoding: PcsEncoding): Lab {
+    if (pcs === 'XYZ') {
+        return xyzToLab(v.map((x) => x * 65535 / 32768));
+    }
+    if (encoding === 'lut16') {
+        return [v[0] * 65535 / 652.8, v[1] * 65535 / 256 - 128, v[2] * 65535 / 256 - 128];
+    }
+    return [v[0] * 100, v[1] * 255 - 128, v[2] * 255 - 128];
+}
+
+// --- Tag readers ---
+
+interface TagEntry {
+    offset: number;
+    size: number;
+}
+
+/**
+ * Read a lut8 ('mft1') or lut16 ('mft2') element as a 0-1 in/out transform
+ */
+function readLegacyLut(view: DataView, offset: number, applyMatrix: boolean): { transform: Transform; inputs: number; outputs: number; encoding: PcsEncoding } {
+    const type = readSig(view, offset);
+    const inputs = view.getUint8(offset + 8);
+    const outputs = view.getUint8(offset + 9);
+    const gridPoints = view.getUint8(offset + 10);
+    const matrix: number[] = [];
+    for (let i = 0; i < 9; i++) matrix.push(readS15Fixed16(view, offset + 12 + i * 4));
+
+    const is16 = type === 'mft2';
+    const bytes = is16 ? 2 : 1;
+    const max = is16 ? 65535 : 255;
+    const read = (pos: number) => (is16 ? view.getUint16(pos) : view.getUint8(pos)) / max;
+
+    let pos = offset + 48;
+    let inEntries = 256;
+    let outEntries = 256;
+    if (is16) {
+        inEntries = view.getUint16(offset + 48);
+        outEntries = view.getUint16(offset + 50);
+        pos = offset + 52;
+    }
+
+    const readTables = (count: number, entries: number): Curve[] => {
+        const curves: Curve[] = [];
+        for (let c = 0; c < count; c++) {
+            const table = new Float64Array(entries);
+            for (let i = 0; i < entries; i++, pos += bytes) table[i] = read(pos);
+            curves.push(tableCurve(table));
+        }
+        return curves;
+    };
+
+    const inputCurves = readTables(inputs, inEntries);
+    const clutSize = Math.pow(gridPoints, inputs) * outputs;
+    const clutValues = new Float64Array(clutSize);
+    for (let i = 0; i < clutSize; i++, pos += bytes) clutValues[i] = read(pos);
+    const clut = createClut(new Array(inputs).fill(gridPoints), outputs, clutValues);
+    const outputCurves = readTables(outputs, outEntries);
+
+    // The matrix only applies to XYZ input and is almost always identity
+    const useMatrix = applyMatrix && inputs === 3;
+
+    return {
+        transform: (v) => {
+            const input = useMatrix ? multiply3(matrix, v).map(clamp01) : v;
+            return applyCurves(outputCurves, clut(applyCurves(inputCurves, input)));
+        },
+        inputs,
+        outputs,
+        encoding: is16 ? 'lut16' : 'lut8',
+    };
+}
+
+/**
+ * Read a lutAtoB ('mAB ') or lutBtoA ('mBA ') element as a 0-1 in/out transform
+ */
+function readModernLut(view: DataView, offset: number): { transform: Transform; inputs: number; outputs: number } {
+    const isAtoB = readSig(view, offset) === 'mAB ';
+    const inputs = view.getUint8(offset + 8);
+    const outputs = view.getUint8(offset + 9);
+    const bOffset = view.getUint32(offset + 12);
+    const matrixOffset = view.getUint32(offset + 16);
+    const mOffset = view.getUint32(offset + 20);
+    const clutOffset = view.getUint32(offset + 24);
+    const aOffset = view.getUint32(offset + 28);
+
+    // B curves sit on the PCS side, A curves on the device side
+    const pcsChannels = isAtoB ? outputs : inputs;
+    const deviceChannels = isAtoB ? inputs : outputs;
+
+    const bCurves = bOffset ? readCurveSet(view, offset + bOffset, pcsChannels) : null;
+    const mCurves = mOffset ? readCurveSet(view, offset + mOffset, pcsChannels) : null;
+    const aCurves = aOffset ? readCurveSet(view, offset + aOffset, deviceChannels) : null;
+
+    let matrix: ((v: number[]) => number[]) | null = null;
+    if (matrixOffset) {
+        const m: number[] = [];
+        for (let i = 0; i < 12; i++) m.push(readS15Fixed16(view, offset + matrixOffset + i * 4));
+        matrix = (v) => multiply3(m, v).map((x, i) => clamp01(x + m[9 + i]));
+    }
+
+    let clut: Transform | null = null;
+    if (clutOffset) {
+        const start = offset + clutOffset;
+        const grid: number[] = [];
+        for (let i = 0; i < inputs; i++) grid.push(view.getUint8(start + i));
+        const precision = view.getUint8(start + 16);
+        const count = grid.reduce((a, b) => a * b, 1) * outputs;
+        const values = new Float64Array(count);
+        for (let i = 0; i < count; i++) {
+            values[i] = precision === 1
+                ? view.getUint8(start + 20 + i) / 255
+                : view.getUint16(start + 20 + i * 2) / 65535;
+        }
+        clut = createClut(grid, outputs, values);
+    }
+
+    const stages: ((v: number[]) => number[])[] = [];
+    const add = (stage: ((v: number[]) => number[]) | null) => {
+        if (stage) stages.push(stage);
+    };
+    const curves = (set: Curve[] | null) => (set ? (v: number[]) => applyCurves(set, v) : null);
+
+    if (isAtoB) {
+        add(curves(aCurves)); add(clut); add(curves(mCurves)); add(matrix); add(curves(bCurves));
+    } else {
+        add(curves(bCurves)); add(matrix); add(curves(mCurves)); add(clut); add(curves(aCurves));
+    }
+
+    return {
+        transform: (v) => stages.reduce((acc, stage) => stage(acc), v),
+        inputs,
+        outputs,
+    };
+}
+
+/**
+ * Read an AToB/BToA tag as a device <-> Lab transform
+ */
+function readLutTag(view: DataView, tag: TagEntry, pcs: string, direction: 'toLab' | 'fromLab', channels: number): Transform {
+    const type = readSig(view, tag.offset);
+    const pcsIsInput = direction === 'fromLab';
+
+    let lut: { transform: Transform; inputs: number; outputs: number };
+    let encoding: PcsEncoding = 'v4';
+    if (type === 'mft1' || type === 'mft2') {
+        const legacy = readLegacyLut(view, tag.offset, pcsIsInput && pcs === 'XYZ');
+        lut = legacy;
+        encoding = legacy.encoding;
+    } else if (type === 'mAB ' || type === 'mBA ') {
+        lut = readModernLut(view, tag.offset);
+    } else {
+        throw new Error(`Unsupported ICC lookup table type '${type}'`);
+    }
+
+    const expectedInputs = pcsIsInput ? 3 : channels;
+    const expectedOutputs = pcsIsInput ? channels : 3;
+    if (lut.inputs !== expectedInputs || lut.outputs !== expectedOutputs) {
+        throw new Error('ICC lookup table does not match the profile color space');
+    }
+
+    if (pcsIsInput) {
+        return (lab) => lut.transform(encodePcs(lab, pcs, encoding)).map(clamp01);
+    }
+    return (device) => decodePcs(lut.transform(device.map(clamp01)), pcs, encoding);
+}
+
+function readXyzTag(view: DataView, tag: TagEntry): [number, number, number] {
+    if (readSig(view, tag.offset) !== 'XYZ ') throw new Error('Invalid ICC XYZ tag');
+    return [
+        readS15Fixed16(view, tag.offset + 8),
+        readS15Fixed16(view, tag.offset + 12),
+        readS15Fixed16(view, tag.offset + 16),
+    ];
+}
+
+/**
+ * Build device <-> Lab transforms from an RGB matrix/TRC profile
+ */
+function readMatrixShaper(view: DataView, tags: Map<string, TagEntry>): { toLab: Transform; fromLab: Transform } | null {
+    const needed = ['rXYZ', 'gXYZ', 'bXYZ', 'rTRC', 'gTRC', 'bTRC'];
+    if (!needed.every((sig) => tags.has(sig))) return null;
+
+    const [r, g, b] = ['rXYZ', 'gXYZ', 'bXYZ'].map((sig) => readXyzTag(view, tags.get(sig)!));
+    // Columns are the primaries
+    const matrix = [r[0], g[0], b[0], r[1], g[1], b[1], r[2], g[2], b[2]];
+    const inverse = invert3(matrix);
+    const trc = ['rTRC', 'gTRC', 'bTRC'].map((sig) => readCurve(view, tags.get(sig)!.offset).curve);
+    const inverseTrc = trc.map((curve) => invertCurve(curve));
+
+    return {
+        toLab: (rgb) => xyzToLab(multiply3(matrix, applyCurves(trc, rgb.map(clamp01)))),
+        fromLab: (lab) => applyCurves(inverseTrc, multiply3(inverse, labToXyz(lab)).map(clamp01)),
+    };
+}
+
+/**
+ * Build device <-> Lab transforms from a Gray TRC profile
+ */
+function readGrayTrc(view: DataView, tags: Map<string, TagEntry>): { toLab: Transform; fromLab: Transform } | null {
+    const tag = tags.get('kTRC');
+    if (!tag) return null;
+    const trc = readCurve(view, tag.offset).curve;
+    const inverse = invertCurve(trc);
+    return {
+        toLab: ([gray]) => xyzToLab(D50.map((w) => w * trc(clamp01(gray)))),
+        fromLab: (lab) => [inverse(clamp01(labToXyz([lab[0], 0, 0])[1]))],
+    };
+}
+
+function readDescription(view: DataView, tag: TagEntry | undefined): string {
+    if (!tag) return '';
+    const type = readSig(view, tag.offset);
+    if (type === 'desc') {
+        const length = view.getUint32(tag.offset + 8);
+        let text = '';
+        for (let i = 0; i < length; i++) {
+            const code = view.getUint8(tag.offset + 12 + i);
+            if (code === 0) break;
+            text += String.fromCharCode(code);
+        }
+        return text.trim();
+    }
+    if (type === 'mluc') {
+        const records = view.getUint32(tag.offset + 8);
+        if (records === 0) return '';
+        // First record is good enough - usually en-US
+        const length = view.getUint32(tag.offset + 20);
+        const start = tag.offset + view.getUint32(tag.offset + 24);
+        let text = '';
+        for (let i = 0; i + 1 < length; i += 2) text += String.fromCharCode(view.getUint16(start + i));
+        return text.replace(/\0+$/, '').trim();
+    }
+    if (type === 'text') {
+        let text = '';
+        for (let i = tag.offset + 8; i < tag.offset + tag.size; i++) {
+            const code = view.getUint8(i);
+            if (code === 0) break;
+            text += String.fromCharCode(code);
+        }
+        return text.trim();
+    }
+    return '';
+}
+
+/**
+ * Parse an ICC profile.
+ *
+ * @throws Error if the data is not an ICC profile or uses unsupported features
+ */
+export function parseIccProfile(buffer: ArrayBuffer): IccProfile {
+    if (buffer.byteLength < HEADER_SIZE + 4) throw new Error('File is too small to be an ICC profile');
+    const view = new DataView(buffer);
+    if (readSig(view, 36) !== 'acsp') throw new Error('Not an ICC profile');
+
+    const deviceClass = readSig(view, 12);
+    const colorSpace = readSig(view, 16).trim();
+    const pcs = readSig(view, 20).trim();
+    const channels = COLOR_SPACE_CHANNELS[colorSpace];
+    if (!channels) throw new Error(`Unsupported ICC color space '${colorSpace}'`);
+    if (pcs !== 'Lab' && pcs !== 'XYZ') throw new Error(`Unsupported ICC connection space '${pcs}'`);
+
+    const tagCount = view.getUint32(HEADER_SIZE);
+    const tags = new Map<string, TagEntry>();
+    for (let i = 0; i < tagCount; i++) {
+        const entry = HEADER_SIZE + 4 + i * 12;
+        if (entry + 12 > buffer.byteLength) throw new Error('ICC tag table is truncated');
+        const offset = view.getUint32(entry + 4);
+        const size = view.getUint32(entry + 8);
+        if (offset + size > buffer.byteLength) throw new Error('ICC tag data is truncated');
+        tags.set(readSig(view, entry), { offset, size });
+    }
+
+    const readLut = (sig: string, direction: 'toLab' | 'fromLab') => {
+        const tag = tags.get(sig);
+        return tag ? readLutTag(view, tag, pcs, direction, channels) : null;
+    };
+
+    // Matrix/TRC and Gray TRC profiles are the same for every intent
+    const shaper = colorSpace === 'RGB' ? readMatrixShaper(view, tags)
+        : colorSpace === 'GRAY' ? readGrayTrc(view, tags)
+            : null;
+
+    const a2b0 = readLut('A2B0', 'toLab');
+    const a2b1 = readLut('A2B1', 'toLab');
+    const b2a0 = readLut('B2A0', 'fromLab');
+    const b2a1 = readLut('B2A1', 'fromLab');
+
+    // Fall back to whichever intent the profile does have
+    const toPerceptual = a2b0 ?? a2b1 ?? shaper?.toLab;
+    const toRelative = a2b1 ?? a2b0 ?? shaper?.toLab;
+    const fromPerceptual = b2a0 ?? b2a1 ?? shaper?.fromLab;
+    const fromRelative = b2a1 ?? b2a0 ?? shaper?.fromLab;
+    if (!toPerceptual || !toRelative || !fromPerceptual || !fromRelative) {
+        throw new Error('ICC profile has no usable color transforms');
+    }
+
+    return {
+        description: readDescription(view, tags.get('desc')),
+        deviceClass,
+        colorSpace,
+        channels,
+        toLab: { perceptual: toPerceptual, relative: toRelative },
+        fromLab: { perceptual: fromPerceptual, relative: fromRelative },
+    };
+}
+
+/**
+ * Check whether a color survives a relative colorimetric round trip
+ * through the device.
+ */
+export function isOutOfGamut(profile: IccProfile, lab: Lab): boolean {
+    const device = profile.fromLab.relative(lab);
+    return deltaE(lab, profile.toLab.relative(device)) > GAMUT_DELTA_E;
+}
+
+/**
+ * Fill a packed 3D lookup table. Entries are laid out as `size` slices of
+ * `size`x`size` side by side: x = r + b * size, y = g.
+ */
+function buildLut(size: number, fn: (rgb: number[]) => [number, number, number, number]): ColorLut {
+    const width = size * size;
+    const data = new Uint8Array(width * size * 4);
+    const max = size - 1;
+    for (let b = 0; b < size; b++) {
+        for (let g = 0; g < size; g++) {
+            for (let r = 0; r < size; r++) {
+                const value = fn([r / max, g / max, b / max]);
+                const i = (g * width + b * size + r) * 4;
+                data[i] = Math.round(clamp01(value[0]) * 255);
+                data[i + 1] = Math.round(clamp01(value[1]) * 255);
+                data[i + 2] = Math.round(clamp01(value[2]) * 255);
+                data[i + 3] = Math.round(clamp01(value[3]) * 255);
+            }
+        }
+    }
+    return { size, data };
+}
+
+/**
+ * Soft-proof lookup table: how sRGB colors look once printed.
+ * sRGB -> device (chosen intent) -> Lab (relative) -> sRGB.
+ * Alpha is 255 for colors outside the device gamut.
+ */
+export function buildProofLut(profile: IccProfile, intent: RenderingIntent, size = COLOR_LUT_SIZE): ColorLut {
+    return buildLut(size, (rgb) => {
+        const lab = srgbToLab(rgb);
+        const proofed = labToSrgb(profile.toLab.relative(profile.fromLab[intent](lab)));
+        return [...proofed, isOutOfGamut(profile, lab) ? 1 : 0];
+    });
+}
+
+/**
+ * Export lookup table: sRGB colors converted through the profile.
+ * RGB and Gray profiles produce device values to send to the printer with
+ * its own color management turned off. Other devices (CMYK) can't be stored
+ * in the page image, so colors are mapped into the printable gamut instead.
+ */
+export function buildExportLut(profile: IccProfile, intent: RenderingIntent, size = COLOR_LUT_SIZE): ColorLut {
+    if (profile.colorSpace === 'RGB') {
+        return buildLut(size, (rgb) => {
+            const [r, g, b] = profile.fromLab[intent](srgbToLab(rgb));
+            return [r, g, b, 1];
+        });
+    }
+    if (profile.colorSpace === 'GRAY') {
+        return buildLut(size, (rgb) => {
+            const [gray] = profile.fromLab[intent](srgbToLab(rgb));
+            return [gray, gray, gray, 1];
+        });
+    }
+    return buildLut(size, (rgb) => {
+        const mapped = labToSrgb(profile.toLab.relative(profile.fromLab[intent](srgbToLab(rgb))));
+        return [...mapped, 1];
+    });
+}
@@ -0,0 +1,35 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { db } from '@/db';
+import { deleteIccProfile, getColorLut, importIccProfile, listIccProfiles } from './iccProfileLibrary';
+
+describe('iccProfileLibrary', () => {
+    beforeEach(async () => {
+        await db.iccProfiles.clear();
+    });
+
+    it('should reject files that are not ICC profiles without storing them', async () => {
+        const file = new File([new Uint8Array(200)], 'photo.jpg');
+
+        await expect(importIccProfile(file)).rejects.toThrow('Not an ICC profile');
+        expect(await db.iccProfiles.count()).toBe(0);
+    });
+
+    it('should list profiles by name and delete them', async () => {
+        await db.iccProfiles.bulkAdd([
+            { id: 'b', name: 'Studio', colorSpace: 'RGB', deviceClass: 'prtr', data: new ArrayBuffer(0), createdAt: 1 },
+            { id: 'a', name: 'Office', colorSpace: 'CMYK', deviceClass: 'prtr', data: new ArrayBuffer(0), createdAt: 2 },
+        ]);
+
+        expect((await listIccProfiles()).map((p) => p.name)).toEqual(['Office', 'Studio']);
+
+        await deleteIccProfile('a');
+        expect((await listIccProfiles()).map((p) => p.id)).toEqual(['b']);
+    });
+
+    it('should resolve to null for missing or unreadable profiles', async () => {
+        await db.iccProfiles.add({ id: 'broken', name: 'Broken', colorSpace: 'RGB', deviceClass: 'prtr', data: new ArrayBuffer(8), createdAt: 1 });
+
+        expect(await getColorLut('missing', 'proof', 'perceptual')).toBeNull();
+        expect(await getColorLut('broken', 'export', 'relative')).toBeNull();
+    });
+});
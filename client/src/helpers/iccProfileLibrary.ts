@@ -0,0 +1,80 @@
+/**
+ * ICC Profile Library
+ *
+ * Printer profiles imported by the user, stored in db.iccProfiles and shared
+ * by all projects. Lookup tables built from them are cached in memory since
+ * building one takes a noticeable moment.
+ */
+
+import { db, type IccProfileRecord } from '../db';
+import type { ColorLut } from './colorLut';
+import { buildExportLut, buildProofLut, parseIccProfile, type IccProfile, type RenderingIntent } from './iccProfile';
+
+export type ColorLutKind = 'proof' | 'export';
+
+const profileCache = new Map<string, IccProfile>();
+const lutCache = new Map<string, ColorLut>();
+
+/**
+ * Import an .icc/.icm file.
+ *
+ * @throws Error if the file is not a supported ICC profile
+ */
+export async function importIccProfile(file: File): Promise<IccProfileRecord> {
+    const data = await file.arrayBuffer();
+    const profile = parseIccProfile(data);
+
+    const record: IccProfileRecord = {
+        id: crypto.randomUUID(),
+        name: profile.description || file.name.replace(/\.ic[cm]$/i, ''),
+        colorSpace: profile.colorSpace,
+        deviceClass: profile.deviceClass,
+        data,
+        createdAt: Date.now(),
+    };
+    await db.iccProfiles.add(record);
+    profileCache.set(record.id, profile);
+    return record;
+}
+
+/**
+ * All imported profiles, by name
+ */
+export async function listIccProfiles(): Promise<IccProfileRecord[]> {
+    return db.iccProfiles.orderBy('name').toArray();
+}
+
+export async function deleteIccProfile(id: string): Promise<void> {
+    await db.iccProfiles.delete(id);
+    profileCache.delete(id);
+    for (const key of lutCache.keys()) {
+        if (key.startsWith(`${id}:`)) lutCache.delete(key);
+    }
+}
+
+/**
+ * Soft-proof or export lookup table for a stored profile.
+ * Resolves to null if the profile no longer exists or can't be read.
+ */
+export async function getColorLut(id: string, kind: ColorLutKind, intent: RenderingIntent): Promise<ColorLut | null> {
+    const key = `${id}:${kind}:${intent}`;
+    const cached = lutCache.get(key);
+    if (cached) return cached;
+
+    let profile = profileCache.get(id);
+    if (!profile) {
+        const record = await db.iccProfiles.get(id);
+        if (!record) return null;
+        try {
+            profile = parseIccProfile(record.data);
+        } catch (error) {
+            console.error('[iccProfileLibrary] Failed to read profile:', error);
+            return null;
+        }
+        profileCache.set(id, profile);
+    }
+
+    const lut = kind === 'proof' ? buildProofLut(profile, intent) : buildExportLut(profile, intent);
+    lutCache.set(key, lut);
+    return lut;
+}
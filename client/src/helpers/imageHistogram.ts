@@ -1,25 +1,24 @@
 /**
  * Image histogram utilities for calculating image brightness characteristics.
- * Used to auto-detect optimal darknessFactor for the darken effect.
+ * Used to auto-detect optimal darknessFactor for the darken effect, and to
+ * show the card's histogram in the Curves & Levels editor.
  */
 
 import { computeDarknessFactorFromPixels } from "./imageProcessing";
 
+/** Per-channel value counts (256 bins each) */
+export interface ChannelHistograms {
+    red: Uint32Array;
+    green: Uint32Array;
+    blue: Uint32Array;
+    luminance: Uint32Array;
+}
+
 /**
- * Calculate the darkness factor from an image blob using luminance histogram analysis.
- * 
- * Algorithm:
- * 1. Build luminance histogram (sampled every 4th pixel for speed)
- * 2. Find 10th percentile luminance (p10)
- * 3. darknessFactor = clamp((90 - p10) / 70, 0, 1)
- * 
- * Dark images (low p10) → higher factor → stronger darken effect
- * Light images (high p10) → lower factor → weaker darken effect
- * 
- * @param blob - The image blob to analyze
- * @returns Promise resolving to darknessFactor (0-1)
+ * Draw an image blob to a canvas and read back its pixels.
+ * Resolves to null when the image can't be loaded or read.
  */
-export async function calculateDarknessFactorFromBlob(blob: Blob): Promise<number> {
+function readBlobPixels(blob: Blob): Promise<Uint8ClampedArray | null> {
     return new Promise((resolve) => {
         const img = new Image();
         const url = URL.createObjectURL(blob);
@@ -38,20 +37,16 @@ export async function calculateDarknessFactorFromBlob(blob: Blob): Promise<numbe
 
                 const ctx = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
                 if (!ctx) {
-                    console.warn('[imageHistogram] Could not get canvas context, using default');
-                    resolve(0.5);
+                    console.warn('[imageHistogram] Could not get canvas context');
+                    resolve(null);
                     return;
                 }
 
                 ctx.drawImage(img, 0, 0);
-                const imageData = ctx.getImageData(0, 0, img.width, img.height);
-
-                // Use shared utility for histogram calculation
-                const darknessFactor = computeDarknessFactorFromPixels(imageData.data);
-                resolve(darknessFactor);
+                resolve(ctx.getImageData(0, 0, img.width, img.height).data);
             } catch (err) {
-                console.error('[imageHistogram] Error calculating darkness factor:', err);
-                resolve(0.5); // Default fallback
+                console.error('[imageHistogram] Error reading image pixels:', err);
+                resolve(null);
             } finally {
                 URL.revokeObjectURL(url);
             }
@@ -59,10 +54,73 @@ export async function calculateDarknessFactorFromBlob(blob: Blob): Promise<numbe
 
         img.onerror = () => {
             URL.revokeObjectURL(url);
-            console.warn('[imageHistogram] Failed to load image, using default');
-            resolve(0.5);
+            console.warn('[imageHistogram] Failed to load image');
+            resolve(null);
         };
 
         img.src = url;
     });
 }
+
+/**
+ * Calculate the darkness factor from an image blob using luminance histogram analysis.
+ *
+ * Algorithm:
+ * 1. Build luminance histogram (sampled every 4th pixel for speed)
+ * 2. Find 10th percentile luminance (p10)
+ * 3. darknessFactor = clamp((90 - p10) / 70, 0, 1)
+ *
+ * Dark images (low p10) → higher factor → stronger darken effect
+ * Light images (high p10) → lower factor → weaker darken effect
+ *
+ * @param blob - The image blob to analyze
+ * @returns Promise resolving to darknessFactor (0-1), 0.5 if the image can't be read
+ */
+export async function calculateDarknessFactorFromBlob(blob: Blob): Promise<number> {
+    const pixels = await readBlobPixels(blob);
+    // Use shared utility for histogram calculation
+    return pixels ? computeDarknessFactorFromPixels(pixels) : 0.5;
+}
+
+/**
+ * Build red, green, blue and luminance histograms from raw RGBA pixel data.
+ * Fully transparent pixels are skipped.
+ *
+ * @param pixelData - Raw RGBA pixel data (Uint8ClampedArray from ImageData.data)
+ * @param sampleStep - Number of bytes to skip between samples (default: 16 = every 4th pixel)
+ */
+export function computeChannelHistograms(
+    pixelData: Uint8ClampedArray,
+    sampleStep: number = 16
+): ChannelHistograms {
+    const histograms: ChannelHistograms = {
+        red: new Uint32Array(256),
+        green: new Uint32Array(256),
+        blue: new Uint32Array(256),
+        luminance: new Uint32Array(256),
+    };
+
+    for (let i = 0; i < pixelData.length; i += sampleStep) {
+        if (pixelData[i + 3] === 0) continue;
+        const r = pixelData[i];
+        const g = pixelData[i + 1];
+        const b = pixelData[i + 2];
+        histograms.red[r]++;
+        histograms.green[g]++;
+        histograms.blue[b]++;
+        const l = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+        histograms.luminance[Math.max(0, Math.min(255, l | 0))]++;
+    }
+
+    return histograms;
+}
+
+/**
+ * Calculate the channel histograms of an image blob.
+ *
+ * @returns Promise resolving to the histograms, or null if the image can't be read
+ */
+export async function calculateChannelHistogramsFromBlob(blob: Blob): Promise<ChannelHistograms | null> {
+    const pixels = await readBlobPixels(blob);
+    return pixels ? computeChannelHistograms(pixels) : null;
+}
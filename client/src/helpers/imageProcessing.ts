@@ -96,17 +96,19 @@ export async function trimBleedFromBitmap(img: ImageBitmap, bleedTrimPx?: number
  * @param input - ImageBitmap or Blob to trim
  * @param trimAmountMm - Amount of bleed to remove from each edge (in mm)
  * @param existingBleedMm - The total existing bleed the image has (in mm), used to calculate pixel ratio
+ * @param cardHeightMm - Trimmed card height of the project's card size (in mm)
  * @returns A new ImageBitmap with the specified bleed amount removed
  */
 export async function trimBleedByMm(
     input: ImageBitmap | Blob,
     trimAmountMm: number,
-    existingBleedMm: number
+    existingBleedMm: number,
+    cardHeightMm: number
 ): Promise<ImageBitmap> {
     const tempBitmap = input instanceof Blob ? await createImageBitmap(input) : input;
 
-    // Standard MTG card is 63x88mm, calculate pixel ratio based on existing bleed dimensions
-    const pxPerMm = tempBitmap.height / (CONSTANTS.CARD_HEIGHT_MM + existingBleedMm * 2);
+    // Calculate pixel ratio based on the card height plus existing bleed
+    const pxPerMm = tempBitmap.height / (cardHeightMm + existingBleedMm * 2);
     const trimPx = Math.round(trimAmountMm * pxPerMm);
     const w = tempBitmap.width - trimPx * 2;
     const h = tempBitmap.height - trimPx * 2;
@@ -1,3 +1,5 @@
+import type { CardSize } from './cardSizes';
+
 type IdleWorker = {
   worker: Worker;
   timeoutId: ReturnType<typeof setTimeout> | null;
@@ -20,6 +22,8 @@ interface WorkerMessage {
   existingBleedMm?: number;  // Amount when bleedMode is 'existing'
   dpi: number;
   darkenMode?: number;  // 0=none, 1=darken-all, 2=contrast-edges, 3=contrast-full
+  cardSize?: CardSize;  // Trimmed card size (default: standard 63x88mm card)
+  print?: { name: string; set?: string; number?: string };  // Scryfall/MPC print, stored with the cached image's perceptual hash
 }
 
 interface WorkerSuccessResponse {
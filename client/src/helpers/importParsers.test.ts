@@ -1,6 +1,10 @@
 import { describe, it, expect, vi } from 'vitest';
-import { parseMpcXml, parseLineToIntent, createIntentFromPreloaded, parseDeckBuilderUrl, parseDeckList } from './importParsers';
+import {
+    parseMpcXml, parseLineToIntent, createIntentFromPreloaded, parseDeckBuilderUrl, parseDeckList,
+    parseMtgoDek, parseCockatriceCod, parseArenaDeck, detectDeckFileFormat, parseDeckFile,
+} from './importParsers';
 import * as moxfieldApi from './moxfieldApi';
+import * as deckSitesApi from './deckSitesApi';
 
 describe('importParsers', () => {
     describe('parseLineToIntent', () => {
@@ -119,6 +123,24 @@ describe('importParsers', () => {
             expect(result[0].name).toBe('Card A');
             expect(result[0].quantity).toBe(2);
         });
+
+        it('fetches normalized decks for other deck sites through the server', async () => {
+            const fetchMock = vi.spyOn(deckSitesApi, 'fetchDeckSiteDeck').mockResolvedValue({
+                source: 'mtggoldfish',
+                id: '5938234',
+                name: 'Burn',
+                cards: [{ name: 'Lightning Bolt', quantity: 4, category: 'Mainboard' }],
+            });
+
+            const result = await parseDeckBuilderUrl('https://www.mtggoldfish.com/deck/5938234#paper');
+
+            expect(fetchMock).toHaveBeenCalledWith({ site: 'mtggoldfish', id: '5938234' });
+            expect(result).toEqual([expect.objectContaining({ name: 'Lightning Bolt', quantity: 4, isToken: false, category: 'Mainboard' })]);
+        });
+
+        it('rejects unsupported URLs', async () => {
+            await expect(parseDeckBuilderUrl('https://example.com/deck/1')).rejects.toThrow('Unsupported URL format');
+        });
     });
 
     describe('parseDeckList', () => {
@@ -167,4 +189,111 @@ describe('importParsers', () => {
             expect(parseDeckList('   \n   \n   ')).toEqual([]);
         });
     });
+
+    describe('parseMtgoDek', () => {
+        const dek = `<?xml version="1.0" encoding="utf-8"?>
+<Deck xmlns:xsd="http://www.w3.org/2001/XMLSchema" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+  <NetDeckID>0</NetDeckID>
+  <PreconstructedDeckID>0</PreconstructedDeckID>
+  <Cards CatID="5601" Quantity="4" Sideboard="false" Name="Lightning Bolt" Annotation="0" />
+  <Cards CatID="5602" Quantity="2" Sideboard="false" Name="Lightning Bolt" Annotation="0" />
+  <Cards CatID="2233" Quantity="1" Sideboard="false" Name="Fire/Ice" Annotation="0" />
+  <Cards CatID="9876" Quantity="3" Sideboard="true" Name="Duress" Annotation="0" />
+</Deck>`;
+
+        it('maps the sideboard flag to categories and merges repeated cards', () => {
+            expect(parseMtgoDek(dek)).toEqual([
+                expect.objectContaining({ name: 'Lightning Bolt', quantity: 6, category: 'Mainboard', isToken: false }),
+                expect.objectContaining({ name: 'Fire // Ice', quantity: 1, category: 'Mainboard' }),
+                expect.objectContaining({ name: 'Duress', quantity: 3, category: 'Sideboard' }),
+            ]);
+        });
+
+        it('throws for files without a Deck element', () => {
+            expect(() => parseMtgoDek('<order></order>')).toThrow('Missing <Deck> tag');
+        });
+    });
+
+    describe('parseCockatriceCod', () => {
+        it('maps zones to categories and reads printings', () => {
+            const cod = `<?xml version="1.0" encoding="UTF-8"?>
+<cockatrice_deck version="1">
+    <deckname>Burn</deckname>
+    <zone name="main">
+        <card number="4" name="Lightning Bolt" setShortName="M10" collectorNumber="146"/>
+        <card number="20" name="Mountain"/>
+    </zone>
+    <zone name="side">
+        <card number="2" name="Smash to Smithereens"/>
+    </zone>
+    <zone name="tokens">
+        <card number="1" name="Treasure"/>
+    </zone>
+</cockatrice_deck>`;
+
+            expect(parseCockatriceCod(cod)).toEqual([
+                expect.objectContaining({ name: 'Lightning Bolt', quantity: 4, set: 'm10', number: '146', category: 'Mainboard' }),
+                expect.objectContaining({ name: 'Mountain', quantity: 20, set: undefined, category: 'Mainboard' }),
+                expect.objectContaining({ name: 'Smash to Smithereens', quantity: 2, category: 'Sideboard' }),
+                expect.objectContaining({ name: 'Treasure', quantity: 1, category: 'Tokens', isToken: true }),
+            ]);
+        });
+
+        it('throws for invalid XML', () => {
+            expect(() => parseCockatriceCod('<cockatrice_deck><zone>')).toThrow('Invalid XML format');
+        });
+    });
+
+    describe('parseArenaDeck', () => {
+        it('parses sections and set/collector numbers', () => {
+            const text = `About
+Name Atraxa Superfriends
+
+Commander
+1 Atraxa, Praetors' Voice (2X2) 190
+
+Companion
+1 Lurrus of the Dream-Den (IKO) 226
+
+Deck
+4 Lightning Bolt (STA) 42
+1 Discovery /// Dispersal (GRN) 223
+1 History of Benalia (DAR) 21
+
+Sideboard
+2 Duress (M21) 96`;
+
+            expect(parseArenaDeck(text)).toEqual([
+                expect.objectContaining({ name: "Atraxa, Praetors' Voice", quantity: 1, set: '2x2', number: '190', category: 'Commander' }),
+                expect.objectContaining({ name: 'Lurrus of the Dream-Den', category: 'Companion' }),
+                expect.objectContaining({ name: 'Lightning Bolt', quantity: 4, set: 'sta', number: '42', category: 'Mainboard' }),
+                expect.objectContaining({ name: 'Discovery // Dispersal', set: 'grn', number: '223' }),
+                expect.objectContaining({ name: 'History of Benalia', set: 'dom', number: '21' }),
+                expect.objectContaining({ name: 'Duress', quantity: 2, category: 'Sideboard' }),
+            ]);
+        });
+
+        it('treats cards after a blank line as sideboard when there are no headers', () => {
+            const result = parseArenaDeck('4 Opt (XLN) 65\n\n2 Negate (RIX) 44');
+            expect(result.map(i => i.category)).toEqual(['Mainboard', 'Sideboard']);
+        });
+    });
+
+    describe('detectDeckFileFormat / parseDeckFile', () => {
+        it('detects formats by extension and content', () => {
+            expect(detectDeckFileFormat('deck.dek', '')).toBe('mtgo');
+            expect(detectDeckFileFormat('deck.cod', '')).toBe('cockatrice');
+            expect(detectDeckFileFormat('order.xml', '<order></order>')).toBe('mpc');
+            expect(detectDeckFileFormat('export.txt', '<?xml version="1.0"?>\n<Deck>\n</Deck>')).toBe('mtgo');
+            expect(detectDeckFileFormat('arena.txt', 'Deck\n4 Opt (XLN) 65')).toBe('arena');
+            expect(detectDeckFileFormat('list.txt', '4 Opt\n2 Negate')).toBe('text');
+        });
+
+        it('parses plain lists with the regular decklist parser', () => {
+            expect(parseDeckFile('list.txt', '4 Opt\nSideboard\n2 Negate')).toEqual([
+                expect.objectContaining({ name: 'Opt', quantity: 4, category: 'Mainboard' }),
+                expect.objectContaining({ name: 'Negate', quantity: 2, category: 'Sideboard' }),
+            ]);
+        });
+    });
 });
@@ -1,8 +1,9 @@
 
 import { fetchMoxfieldDeck, extractMoxfieldDeckId, extractCardsFromDeck as extractMoxfieldCards } from "./moxfieldApi";
 import { fetchArchidektDeck, extractArchidektDeckId, extractCardsFromDeck as extractArchidektCards } from "./archidektApi";
+import { extractDeckSiteRef, fetchDeckSiteDeck } from "./deckSitesApi";
 import { inferCardNameFromFilename, extractDriveId } from "./mpc";
-import type { CardOverrides, TokenPart, ScryfallCard } from "../../../shared/types";
+import type { CardLegality, CardOverrides, CardPrices, TokenPart, ScryfallCard } from "../../../shared/types";
 
 /**
  * Pre-fetched card data to skip API calls during import.
@@ -18,6 +19,8 @@ export interface PreloadedCardData {
     type_line?: string;
     rarity?: string;
     mana_cost?: string;
+    prices?: CardPrices;
+    legalities?: Record<string, CardLegality>;
     token_parts?: TokenPart[];
     hasBuiltInBleed?: boolean;
     imageUrl?: string;
@@ -424,8 +427,188 @@ export function parseMpcXml(xmlContent: string): ImportIntent[] {
     return items;
 }
 
+// --------------------------------------------------------------------------
+// GAME CLIENT DECK FILES (MTGO .dek, MTG Arena, Cockatrice .cod)
+// --------------------------------------------------------------------------
+
+export type DeckFileFormat = 'mpc' | 'mtgo' | 'cockatrice' | 'arena' | 'text';
+
+// Arena uses a few set codes that differ from Scryfall's
+const ARENA_SET_CODES: Record<string, string> = {
+    dar: 'dom',
+    conf: 'con',
+};
+
+function parseXmlDocument(xmlContent: string, label: string): Document {
+    const doc = new DOMParser().parseFromString(xmlContent, "text/xml");
+    if (doc.getElementsByTagName("parsererror").length) {
+        throw new Error(`Failed to parse ${label}: Invalid XML format`);
+    }
+    return doc;
+}
+
+/**
+ * Combines intents for the same card/printing/category, since game clients
+ * often list a card once per collector entry.
+ */
+function mergeIntents(intents: ImportIntent[]): ImportIntent[] {
+    const merged = new Map<string, ImportIntent>();
+    for (const intent of intents) {
+        const key = [intent.name.toLowerCase(), intent.set ?? '', intent.number ?? '', intent.category ?? ''].join('|');
+        const existing = merged.get(key);
+        if (existing) {
+            existing.quantity += intent.quantity;
+        } else {
+            merged.set(key, { ...intent });
+        }
+    }
+    return [...merged.values()];
+}
+
+/**
+ * Parses an MTGO .dek file.
+ * Cards carry a Sideboard="true|false" flag; MTGO has no set/collector numbers
+ * (CatID is an MTGO catalog id), so only names are imported.
+ */
+export function parseMtgoDek(xmlContent: string): ImportIntent[] {
+    const doc = parseXmlDocument(xmlContent, "MTGO deck");
+    if (!doc.querySelector("Deck")) throw new Error("Invalid MTGO deck: Missing <Deck> tag");
+
+    const intents: ImportIntent[] = [];
+    for (const el of Array.from(doc.querySelectorAll("Deck > Cards"))) {
+        const name = el.getAttribute("Name")?.trim();
+        const quantity = parseInt(el.getAttribute("Quantity") ?? "1", 10);
+        if (!name || !Number.isFinite(quantity) || quantity <= 0) continue;
+
+        intents.push({
+            // MTGO writes split cards as "Fire/Ice"
+            name: name.replace(/\s*\/{1,2}\s*/g, ' // '),
+            quantity,
+            isToken: false,
+            category: el.getAttribute("Sideboard") === "true" ? 'Sideboard' : 'Mainboard',
+        });
+    }
+    return mergeIntents(intents);
+}
+
 /**
- * Parses a Deck Builder URL (Moxfield/Archidekt) into ImportIntents.
+ * Parses a Cockatrice .cod deck.
+ * Zones map to categories (main, side, tokens); newer Cockatrice versions also
+ * store setShortName and collectorNumber on each card.
+ */
+export function parseCockatriceCod(xmlContent: string): ImportIntent[] {
+    const doc = parseXmlDocument(xmlContent, "Cockatrice deck");
+    if (!doc.querySelector("cockatrice_deck")) throw new Error("Invalid Cockatrice deck: Missing <cockatrice_deck> tag");
+
+    const intents: ImportIntent[] = [];
+    for (const zone of Array.from(doc.querySelectorAll("cockatrice_deck > zone"))) {
+        const zoneName = (zone.getAttribute("name") ?? "main").toLowerCase();
+        const isToken = zoneName === "tokens";
+        const category = zoneName === "side" ? 'Sideboard' : isToken ? 'Tokens' : 'Mainboard';
+
+        for (const el of Array.from(zone.querySelectorAll("card"))) {
+            const name = el.getAttribute("name")?.trim();
+            const quantity = parseInt(el.getAttribute("number") ?? "1", 10);
+            if (!name || !Number.isFinite(quantity) || quantity <= 0) continue;
+
+            intents.push({
+                name,
+                quantity,
+                set: el.getAttribute("setShortName")?.toLowerCase() || undefined,
+                number: el.getAttribute("collectorNumber") || undefined,
+                isToken,
+                category,
+            });
+        }
+    }
+    return mergeIntents(intents);
+}
+
+/**
+ * Parses an MTG Arena export.
+ * Handles the Commander/Companion/Deck/Sideboard sections, the "(SET) 123" syntax,
+ * the "About"/"Name" header and the older convention where the sideboard follows
+ * the main deck after a blank line with no header.
+ */
+export function parseArenaDeck(text: string): ImportIntent[] {
+    const intents: ImportIntent[] = [];
+    let category = 'Mainboard';
+    let sawCards = false;
+    let sawHeader = false;
+    let pendingBlank = false;
+
+    for (const rawLine of text.split(/\r?\n/)) {
+        const line = rawLine.trim();
+        if (!line) {
+            if (sawCards) pendingBlank = true;
+            continue;
+        }
+
+        // "Name <deck name>" belongs to the About block and is not a card
+        if (/^(about\s*|name\s.*)$/i.test(line)) continue;
+
+        const header = line.match(/^(commander|companion|deck|sideboard)\s*$/i);
+        if (header) {
+            const section = header[1].toLowerCase();
+            category = section === 'deck' ? 'Mainboard' : normalizeCategory(section);
+            sawHeader = true;
+            pendingBlank = false;
+            continue;
+        }
+
+        if (pendingBlank && !sawHeader && category === 'Mainboard') {
+            category = 'Sideboard';
+        }
+        pendingBlank = false;
+
+        const intent = parseLineToIntent(line.replace(/\s+\/\/\/\s+/g, ' // '));
+        if (!intent.name) continue;
+        if (intent.set) intent.set = ARENA_SET_CODES[intent.set] ?? intent.set;
+        intent.category = category;
+        intents.push(intent);
+        sawCards = true;
+    }
+    return intents;
+}
+
+/**
+ * Works out which parser a deck file needs from its extension and contents.
+ */
+export function detectDeckFileFormat(filename: string, content: string): DeckFileFormat {
+    const ext = filename.toLowerCase().split('.').pop() ?? '';
+    const head = content.trimStart().slice(0, 500);
+
+    if (ext === 'dek' || /<Deck[\s>]/.test(head)) return 'mtgo';
+    if (ext === 'cod' || head.includes('<cockatrice_deck')) return 'cockatrice';
+    if (ext === 'xml' || head.includes('<order')) return 'mpc';
+    // Arena exports always use "(SET) 123" lines under a "Deck" header
+    if (/^deck\s*$/im.test(content) && /^\d+\s+.+\([A-Z0-9]{2,5}\)\s+\S+\s*$/m.test(content)) return 'arena';
+    return 'text';
+}
+
+/**
+ * Parses any supported deck file into ImportIntents.
+ */
+export function parseDeckFile(filename: string, content: string): ImportIntent[] {
+    switch (detectDeckFileFormat(filename, content)) {
+        case 'mtgo':
+            return parseMtgoDek(content);
+        case 'cockatrice':
+            return parseCockatriceCod(content);
+        case 'mpc':
+            return parseMpcXml(content);
+        case 'arena':
+            return parseArenaDeck(content);
+        case 'text':
+        default:
+            return parseDeckList(content);
+    }
+}
+
+/**
+ * Parses a Deck Builder URL into ImportIntents.
+ * Moxfield and Archidekt are fetched directly; Scryfall, TappedOut, Deckstats
+ * and MTGGoldfish decks come back already normalized from the server.
  * Fetches the deck data from the API.
  */
 export async function parseDeckBuilderUrl(url: string): Promise<ImportIntent[]> {
@@ -457,5 +640,18 @@ export async function parseDeckBuilderUrl(url: string): Promise<ImportIntent[]>
         }));
     }
 
+    const deckSite = extractDeckSiteRef(url);
+    if (deckSite) {
+        const deck = await fetchDeckSiteDeck(deckSite);
+        return deck.cards.map(c => ({
+            name: c.name,
+            set: c.set,
+            number: c.number,
+            quantity: c.quantity,
+            isToken: !!c.isToken,
+            category: c.category
+        }));
+    }
+
     throw new Error("Unsupported URL format");
 }
@@ -120,6 +120,17 @@ describe('computeCardLayouts', () => {
         expect(layouts[0].cardHeightMm).toBe(CONSTANTS.CARD_HEIGHT_MM + 3 * 2);
         expect(layouts[1].bleedMm).toBe(3); // withBleed uses global
     });
+
+    it('should lay out the project card size', () => {
+        const cards: CardOption[] = [
+            { uuid: '1', name: 'Card 1', order: 0, isUserUpload: false, hasBuiltInBleed: false },
+        ];
+
+        const layouts = computeCardLayouts(cards, sourceSettings, globalBleedWidth, { widthMm: 59, heightMm: 86, cornerRadiusMm: 2 });
+
+        expect(layouts[0].cardWidthMm).toBe(59 + 3 * 2);
+        expect(layouts[0].cardHeightMm).toBe(86 + 3 * 2);
+    });
 });
 
 describe('computeGridDimensions', () => {
@@ -163,6 +174,13 @@ describe('computeGridDimensions', () => {
         expect(result.colWidthsMm).toEqual([CONSTANTS.CARD_WIDTH_MM, CONSTANTS.CARD_WIDTH_MM, CONSTANTS.CARD_WIDTH_MM]);
         expect(result.rowHeightsMm).toEqual([CONSTANTS.CARD_HEIGHT_MM, CONSTANTS.CARD_HEIGHT_MM]);
     });
+
+    it('should size empty cells to the project card size', () => {
+        const result = computeGridDimensions([], 2, 1, 0, { widthMm: 70, heightMm: 120, cornerRadiusMm: 3 });
+
+        expect(result.colWidthsMm).toEqual([70, 70]);
+        expect(result.rowHeightsMm).toEqual([120]);
+    });
 });
 
 describe('chunkCards', () => {
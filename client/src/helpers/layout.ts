@@ -1,5 +1,5 @@
 import type { CardOption } from "../../../shared/types";
-import { CONSTANTS } from "@/constants/commonConstants";
+import { DEFAULT_CARD_SIZE, type CardSize } from "./cardSizes";
 
 export type CardLayoutInfo = {
     cardWidthMm: number;
@@ -55,12 +55,13 @@ export function computeCardLayouts(
     pageCards: CardOption[],
     sourceSettings: SourceTypeSettings,
     globalBleedWidth: number,
+    cardSize: CardSize = DEFAULT_CARD_SIZE,
 ): CardLayoutInfo[] {
     return pageCards.map((card) => {
         const bleedMm = getCardTargetBleed(card, sourceSettings, globalBleedWidth);
         return {
-            cardWidthMm: CONSTANTS.CARD_WIDTH_MM + bleedMm * 2,
-            cardHeightMm: CONSTANTS.CARD_HEIGHT_MM + bleedMm * 2,
+            cardWidthMm: cardSize.widthMm + bleedMm * 2,
+            cardHeightMm: cardSize.heightMm + bleedMm * 2,
             bleedMm,
         };
     });
@@ -77,12 +78,13 @@ export function computeGridDimensions(
     layouts: CardLayoutInfo[],
     columns: number,
     rows: number,
-    cardSpacingMm: number = 0
+    cardSpacingMm: number = 0,
+    cardSize: CardSize = DEFAULT_CARD_SIZE,
 ): GridDimensions {
     // Initialize with base dimensions (no bleed) to allow growing only as needed
     // This matches PageView behavior: empty slots or small cards don't force global bleed size
-    const startWidth = CONSTANTS.CARD_WIDTH_MM;
-    const startHeight = CONSTANTS.CARD_HEIGHT_MM;
+    const startWidth = cardSize.widthMm;
+    const startHeight = cardSize.heightMm;
 
     // Compute max width per column
     const colWidthsMm: number[] = Array(columns).fill(startWidth);
@@ -19,6 +19,8 @@ import {
     extractMpcIdentifierFromImageId,
     searchMpcAutofill,
     batchSearchMpcAutofill,
+    fetchMpcSources,
+    hasCustomMpcSearchFilters,
 } from "./mpcAutofillApi";
 
 import { parseMpcCardName } from "./mpcUtils";
@@ -174,6 +176,60 @@ describe("mpcAutofillApi", () => {
             const results = await searchMpcAutofill("");
             expect(results).toEqual([]);
         });
+
+        it("should send filters and key the cache by them", async () => {
+            mockGetCachedMpcSearch.mockResolvedValue(null);
+            vi.mocked(fetch).mockResolvedValue({
+                ok: true,
+                json: () => Promise.resolve({ cards: [] }),
+            } as Response);
+
+            await searchMpcAutofill("Sol Ring", "CARD", true, { sources: ["chilli"], minDpi: 800 });
+
+            const body = JSON.parse(vi.mocked(fetch).mock.calls[0][1]!.body as string);
+            expect(body.filters).toEqual({ sources: ["chilli"], minDpi: 800 });
+            const cacheKey = mockGetCachedMpcSearch.mock.calls[0][0];
+            expect(cacheKey).toMatch(/^sol ring:fuzzy:/);
+            expect(cacheKey).toContain('"minDpi":800');
+        });
+
+        it("should keep the plain cache key for default filters", async () => {
+            mockGetCachedMpcSearch.mockResolvedValue([]);
+
+            await searchMpcAutofill("Sol Ring", "CARD", false, { languages: ["en"], excludesTags: ["NSFW"] });
+
+            expect(mockGetCachedMpcSearch).toHaveBeenCalledWith("sol ring:exact", "CARD");
+        });
+    });
+
+    describe("hasCustomMpcSearchFilters", () => {
+        it("should treat missing and default filters as defaults", () => {
+            expect(hasCustomMpcSearchFilters(null)).toBe(false);
+            expect(hasCustomMpcSearchFilters({ minDpi: 0, maxDpi: 1500, sources: [] })).toBe(false);
+        });
+
+        it("should detect changed filters", () => {
+            expect(hasCustomMpcSearchFilters({ languages: ["EN", "DE"] })).toBe(true);
+            expect(hasCustomMpcSearchFilters({ excludesTags: [] })).toBe(true);
+        });
+    });
+
+    describe("fetchMpcSources", () => {
+        it("should return the source list", async () => {
+            vi.mocked(fetch).mockResolvedValue({
+                ok: true,
+                json: () => Promise.resolve({ sources: [{ pk: 1, key: "chilli", name: "Chilli Axe" }] }),
+            } as Response);
+
+            expect(await fetchMpcSources()).toEqual([{ pk: 1, key: "chilli", name: "Chilli Axe" }]);
+        });
+
+        it("should return an empty list on failure", async () => {
+            vi.spyOn(console, "error").mockImplementation(() => { });
+            vi.mocked(fetch).mockResolvedValue({ ok: false, status: 502 } as Response);
+
+            expect(await fetchMpcSources()).toEqual([]);
+        });
     });
 
     describe("batchSearchMpcAutofill", () => {
@@ -223,6 +279,27 @@ describe("mpcAutofillApi", () => {
             expect(cachedCards[0].name).toBe("Dark Ritual");
         });
 
+        it("should send filters and key the cache by them", async () => {
+            mockGetCachedMpcSearch.mockResolvedValue(null);
+            vi.mocked(fetch).mockResolvedValue({
+                ok: true,
+                json: () => Promise.resolve({
+                    results: {
+                        "Forest": [
+                            { identifier: "id1", name: "Forest", dpi: 1200, tags: [], sourceName: "Test", source: "test", extension: "png", size: 1000, smallThumbnailUrl: "", mediumThumbnailUrl: "" },
+                        ],
+                    },
+                }),
+            } as Response);
+
+            await batchSearchMpcAutofill(["Forest"], "CARD", { languages: ["DE"] });
+
+            const body = JSON.parse(vi.mocked(fetch).mock.calls[0][1]!.body as string);
+            expect(body.filters).toEqual({ languages: ["DE"] });
+            expect(mockGetCachedMpcSearch.mock.calls[0][0]).toContain('"languages":["DE"]');
+            expect(mockCacheMpcSearch.mock.calls[0][0]).toBe(mockGetCachedMpcSearch.mock.calls[0][0]);
+        });
+
         it("should return empty object for empty queries array", async () => {
             const results = await batchSearchMpcAutofill([]);
             expect(results).toEqual({});
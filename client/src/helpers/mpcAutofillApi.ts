@@ -2,6 +2,9 @@ import { API_BASE } from "../constants";
 import { getMpcImageUrl } from "./mpc";
 import { debugLog } from "./debug";
 import { parseMpcCardName } from "./mpcUtils";
+import type { MpcSearchFilters } from "../../../shared/types";
+
+export type { MpcSearchFilters };
 
 /**
  * MPC Autofill card data from the community database
@@ -29,17 +32,83 @@ interface MpcBatchSearchResponse {
     error?: string;
 }
 
+/**
+ * A source (drive) MPC Autofill indexes
+ */
+export interface MpcSource {
+    pk: number;
+    key: string;
+    name: string;
+}
+
+/**
+ * Languages MPC Autofill tags images with
+ */
+export const MPC_LANGUAGES: { code: string; label: string }[] = [
+    { code: "EN", label: "English" },
+    { code: "DE", label: "German" },
+    { code: "ES", label: "Spanish" },
+    { code: "FR", label: "French" },
+    { code: "IT", label: "Italian" },
+    { code: "JA", label: "Japanese" },
+    { code: "KO", label: "Korean" },
+    { code: "PT", label: "Portuguese" },
+    { code: "RU", label: "Russian" },
+    { code: "ZH", label: "Chinese" },
+];
+
+/**
+ * Filters the server searches with when none are set
+ */
+export const DEFAULT_MPC_SEARCH_FILTERS: Required<MpcSearchFilters> = {
+    sources: [],
+    languages: ["EN"],
+    includesTags: [],
+    excludesTags: ["NSFW"],
+    minDpi: 0,
+    maxDpi: 1500,
+};
+
+/**
+ * True when the filters differ from the server defaults
+ */
+export function hasCustomMpcSearchFilters(filters?: MpcSearchFilters | null): boolean {
+    return getMpcFiltersCacheSuffix(filters) !== "";
+}
+
+/**
+ * Cache key suffix for search filters. Default filters add nothing so
+ * existing `query:fuzzy|exact` cache entries stay valid.
+ */
+function getMpcFiltersCacheSuffix(filters?: MpcSearchFilters | null): string {
+    if (!filters) return "";
+    const sorted = (list: string[] | undefined, fallback: string[], upper = false) =>
+        Array.from(new Set((list ?? fallback).map((v) => upper ? v.toUpperCase() : v))).sort();
+    const normalized = {
+        sources: sorted(filters.sources, DEFAULT_MPC_SEARCH_FILTERS.sources),
+        languages: sorted(filters.languages, DEFAULT_MPC_SEARCH_FILTERS.languages, true),
+        includesTags: sorted(filters.includesTags, DEFAULT_MPC_SEARCH_FILTERS.includesTags),
+        excludesTags: sorted(filters.excludesTags, DEFAULT_MPC_SEARCH_FILTERS.excludesTags),
+        minDpi: filters.minDpi ?? DEFAULT_MPC_SEARCH_FILTERS.minDpi,
+        maxDpi: filters.maxDpi ?? DEFAULT_MPC_SEARCH_FILTERS.maxDpi,
+    };
+    const json = JSON.stringify(normalized);
+    return json === JSON.stringify(DEFAULT_MPC_SEARCH_FILTERS) ? "" : `:${json}`;
+}
+
 /**
  * Search MPC Autofill for custom card art
  * @param query Card name to search for
  * @param cardType Type of card to search (default: CARD)
  * @param fuzzySearch Enable fuzzy/approximate name matching (default: true)
+ * @param filters Sources, languages, tags and DPI range to search (default: server defaults)
  * @returns Array of matching MPC cards
  */
 export async function searchMpcAutofill(
     query: string,
     cardType: "CARD" | "CARDBACK" | "TOKEN" = "CARD",
-    fuzzySearch: boolean = true
+    fuzzySearch: boolean = true,
+    filters?: MpcSearchFilters | null
 ): Promise<MpcAutofillCard[]> {
     if (!query.trim()) {
         return [];
@@ -47,9 +116,9 @@ export async function searchMpcAutofill(
 
     const normalizedQuery = query.trim().toLowerCase();
 
-    // Check client cache first (cache key includes fuzzy setting)
+    // Check client cache first (cache key includes fuzzy setting and filters)
     const { getCachedMpcSearch, cacheMpcSearch } = await import('./mpcSearchCache');
-    const cacheKey = `${normalizedQuery}:${fuzzySearch ? 'fuzzy' : 'exact'}`;
+    const cacheKey = `${normalizedQuery}:${fuzzySearch ? 'fuzzy' : 'exact'}${getMpcFiltersCacheSuffix(filters)}`;
     const cached = await getCachedMpcSearch(cacheKey, cardType);
     if (cached) {
         return cached;
@@ -59,7 +128,7 @@ export async function searchMpcAutofill(
         const response = await fetch(`${API_BASE}/api/mpcfill/search`, {
             method: "POST",
             headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({ query: query.trim(), cardType, fuzzySearch }),
+            body: JSON.stringify({ query: query.trim(), cardType, fuzzySearch, filters: filters ?? undefined }),
         });
 
         if (!response.ok) {
@@ -91,11 +160,13 @@ export async function searchMpcAutofill(
  * Uses client cache for each query - only fetches uncached from server
  * @param queries Array of card names to search for
  * @param cardType Type of card to search (default: CARD)
+ * @param filters Sources, languages, tags and DPI range to search (default: server defaults)
  * @returns Object mapping queries to matching MPC cards
  */
 export async function batchSearchMpcAutofill(
     queries: string[],
-    cardType: "CARD" | "CARDBACK" | "TOKEN" = "CARD"
+    cardType: "CARD" | "CARDBACK" | "TOKEN" = "CARD",
+    filters?: MpcSearchFilters | null
 ): Promise<Record<string, MpcAutofillCard[]>> {
     if (queries.length === 0) {
         return {};
@@ -104,11 +175,12 @@ export async function batchSearchMpcAutofill(
     const { getCachedMpcSearch, cacheMpcSearch } = await import('./mpcSearchCache');
     const results: Record<string, MpcAutofillCard[]> = {};
     const uncachedQueries: string[] = [];
+    const filtersSuffix = getMpcFiltersCacheSuffix(filters);
 
     // Batch search always uses fuzzy=true, so cache key includes :fuzzy suffix
     // Check cache for each query first
     for (const query of queries) {
-        const cacheKey = `${query.trim().toLowerCase()}:fuzzy`;
+        const cacheKey = `${query.trim().toLowerCase()}:fuzzy${filtersSuffix}`;
         const cached = await getCachedMpcSearch(cacheKey, cardType);
         if (cached) {
             results[query] = cached;
@@ -130,7 +202,7 @@ export async function batchSearchMpcAutofill(
         const response = await fetch(`${API_BASE}/api/mpcfill/batch-search`, {
             method: "POST",
             headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({ queries: uncachedQueries.map(q => q.trim()), cardType }),
+            body: JSON.stringify({ queries: uncachedQueries.map(q => q.trim()), cardType, filters: filters ?? undefined }),
         });
 
         if (!response.ok) {
@@ -149,7 +221,7 @@ export async function batchSearchMpcAutofill(
             }));
             results[query] = parsedCards;
             if (parsedCards.length > 0) {
-                const cacheKey = `${query.toLowerCase()}:fuzzy`;
+                const cacheKey = `${query.toLowerCase()}:fuzzy${filtersSuffix}`;
                 await cacheMpcSearch(cacheKey, cardType, parsedCards);
             }
         }
@@ -161,6 +233,24 @@ export async function batchSearchMpcAutofill(
     }
 }
 
+/**
+ * List the sources MPC Autofill searches can be limited to
+ */
+export async function fetchMpcSources(): Promise<MpcSource[]> {
+    try {
+        const response = await fetch(`${API_BASE}/api/mpcfill/sources`);
+        if (!response.ok) {
+            console.error("[MPC Autofill] Sources failed:", response.status);
+            return [];
+        }
+        const data: { sources?: MpcSource[] } = await response.json();
+        return data.sources || [];
+    } catch (err) {
+        console.error("[MPC Autofill] Sources error:", err);
+        return [];
+    }
+}
+
 /**
  * Get the full-resolution image URL for an MPC card
  * Uses the existing MPC proxy endpoint
@@ -3,6 +3,11 @@ import { describe, it, expect, vi, beforeEach } from "vitest";
 // Use vi.hoisted to ensure mocks are available before vi.mock factory runs
 const mockBatchSearchMpcAutofill = vi.hoisted(() => vi.fn());
 const mockGetMpcAutofillImageUrl = vi.hoisted(() => vi.fn());
+const mockPreferences = vi.hoisted(() => ({
+    favoriteMpcSources: [] as string[],
+    favoriteMpcTags: [] as string[],
+    mpcSearchFilters: null as { sources?: string[]; minDpi?: number } | null,
+}));
 
 vi.mock("./mpcAutofillApi", () => ({
     batchSearchMpcAutofill: mockBatchSearchMpcAutofill,
@@ -17,10 +22,7 @@ vi.mock("../store", () => ({
     },
     useUserPreferencesStore: {
         getState: () => ({
-            preferences: {
-                favoriteMpcSources: [],
-                favoriteMpcTags: [],
-            },
+            preferences: mockPreferences,
         }),
     },
 }));
@@ -54,6 +56,7 @@ function createCardInfo(name: string): CardInfo {
 describe("mpcImportIntegration", () => {
     beforeEach(() => {
         vi.clearAllMocks();
+        mockPreferences.mpcSearchFilters = null;
         mockGetMpcAutofillImageUrl.mockImplementation((id: string) => `https://example.com/mpc/${id}`);
     });
 
@@ -66,6 +69,16 @@ describe("mpcImportIntegration", () => {
             expect(result).toEqual([]);
         });
 
+        it("should search with the saved search filters", async () => {
+            mockPreferences.mpcSearchFilters = { sources: ["chilli"], minDpi: 1000 };
+            mockBatchSearchMpcAutofill.mockResolvedValue({});
+
+            await findBestMpcMatches([createCardInfo("Lightning Bolt"), { name: "Goblin", isToken: true } as CardInfo]);
+
+            expect(mockBatchSearchMpcAutofill).toHaveBeenCalledWith(["Goblin"], "TOKEN", { sources: ["chilli"], minDpi: 1000 });
+            expect(mockBatchSearchMpcAutofill).toHaveBeenCalledWith(["Lightning Bolt"], "CARD", { sources: ["chilli"], minDpi: 1000 });
+        });
+
         it("should return matches for found cards", async () => {
             const mpcCard = createMpcCard({ identifier: "bolt-123", name: "Lightning Bolt" });
             mockBatchSearchMpcAutofill.mockResolvedValue({
@@ -94,7 +107,7 @@ describe("mpcImportIntegration", () => {
 
             expect(result).toHaveLength(2);
             // Should have deduplicated the search query and use CARD type for non-tokens
-            expect(mockBatchSearchMpcAutofill).toHaveBeenCalledWith(["Lightning Bolt"], "CARD");
+            expect(mockBatchSearchMpcAutofill).toHaveBeenCalledWith(["Lightning Bolt"], "CARD", null);
         });
 
         it("should pick card with highest DPI when multiple matches", async () => {
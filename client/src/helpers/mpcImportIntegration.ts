@@ -53,14 +53,15 @@ export async function findBestMpcMatches(
     const favSources = new Set(prefs?.favoriteMpcSources || []);
     const favTags = new Set(prefs?.favoriteMpcTags || []);
     const minDpi = prefs?.favoriteMpcDpi || 0; // 0 means no DPI filter
+    const searchFilters = prefs?.mpcSearchFilters ?? null;
 
     // Batch search - separate searches for tokens and cards
     const [tokenResults, cardResults] = await Promise.all([
         uniqueTokenNames.length > 0
-            ? batchSearchMpcAutofill(uniqueTokenNames, 'TOKEN')
+            ? batchSearchMpcAutofill(uniqueTokenNames, 'TOKEN', searchFilters)
             : {} as Record<string, MpcAutofillCard[]>,
         uniqueCardNames.length > 0
-            ? batchSearchMpcAutofill(uniqueCardNames, 'CARD')
+            ? batchSearchMpcAutofill(uniqueCardNames, 'CARD', searchFilters)
             : {} as Record<string, MpcAutofillCard[]>,
     ]);
 
@@ -68,6 +69,7 @@ export async function findBestMpcMatches(
         favoriteSources: Array.from(favSources),
         favoriteTags: Array.from(favTags),
         minDpi,
+        searchFilters,
     });
     if (uniqueTokenNames.length > 0) {
         debugLog('[MPC Match] Searching for tokens:', uniqueTokenNames);
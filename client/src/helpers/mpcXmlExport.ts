@@ -1,6 +1,7 @@
 import type { CardOption } from "../../../shared/types";
 import { extractMpcIdentifierFromImageId } from "./mpcAutofillApi";
 import { inferImageSource } from "./imageSourceUtils";
+import { saveWithNativeDialog } from "./electronFiles";
 
 /**
  * Builds an MPC Autofill-compatible XML from cards.
@@ -87,7 +88,7 @@ export function buildMpcXml(cards: CardOption[], defaultCardbackId?: string): st
 /**
  * Escapes special XML characters.
  */
-function escapeXml(str: string): string {
+export function escapeXml(str: string): string {
     return str
         .replace(/&/g, '&amp;')
         .replace(/</g, '&lt;')
@@ -107,10 +108,13 @@ export function downloadMpcXml(cards: CardOption[], filename?: string, defaultCa
     }
 
     const blob = new Blob([xml], { type: 'application/xml;charset=utf-8' });
+    const name = filename || `mpc_decklist_${new Date().toISOString().slice(0, 10)}.xml`;
+    if (saveWithNativeDialog(blob, name)) return true;
+
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = filename || `mpc_decklist_${new Date().toISOString().slice(0, 10)}.xml`;
+    a.download = name;
     a.click();
     URL.revokeObjectURL(url);
     return true;
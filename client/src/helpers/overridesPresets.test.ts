@@ -0,0 +1,161 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const mocks = vi.hoisted(() => ({
+    saveAs: vi.fn(),
+    undoableUpdateCardOverrides: vi.fn(),
+    queueBulkPreRender: vi.fn(),
+    process: vi.fn(),
+    bulkGet: vi.fn(),
+}));
+
+vi.mock("file-saver", () => ({
+    saveAs: mocks.saveAs,
+}));
+
+vi.mock("./undoableActions", () => ({
+    undoableUpdateCardOverrides: mocks.undoableUpdateCardOverrides,
+}));
+
+vi.mock("./effectCache", () => ({
+    queueBulkPreRender: mocks.queueBulkPreRender,
+    getEffectProcessor: () => ({ process: mocks.process }),
+    destroyEffectProcessor: vi.fn(),
+}));
+
+vi.mock("@/db", () => ({
+    db: { images: { bulkGet: mocks.bulkGet } },
+}));
+
+import {
+    applyOverridesPreset,
+    downloadOverridesPresets,
+    parseOverridesPresets,
+    renderPresetThumbnail,
+    serializeOverridesPresets,
+} from "./overridesPresets";
+import type { OverridesPreset } from "@/db";
+import type { CardOption } from "@/types";
+
+describe("overridesPresets", () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    const warm = (): OverridesPreset => ({
+        name: "Warm",
+        overrides: { brightness: 10, redBalance: 20, vignetteAmount: 0.3 },
+        thumbnail: "data:image/png;base64,AAAA",
+        updatedAt: 1,
+    });
+
+    describe("applyOverridesPreset", () => {
+        // Runs the per-card overrides builder against the given cards, like the real undoable action
+        const updateCards = (before: CardOption[]) => {
+            mocks.undoableUpdateCardOverrides.mockImplementationOnce(
+                async (_uuids: string[], build: (card: CardOption) => CardOption["overrides"]) =>
+                    before.map((card) => ({ ...card, overrides: build(card) }))
+            );
+        };
+
+        it("applies the look as one undoable change and pre-renders the export", async () => {
+            const exportBlob = new Blob(["x"]);
+            updateCards([
+                { uuid: "a", imageId: "img" },
+                { uuid: "b", imageId: "img" },
+            ] as unknown as CardOption[]);
+            mocks.bulkGet.mockResolvedValueOnce([{ id: "img", exportBlob }]);
+
+            await applyOverridesPreset(["a", "b"], warm());
+
+            expect(mocks.undoableUpdateCardOverrides).toHaveBeenCalledWith(
+                ["a", "b"],
+                expect.any(Function),
+                'Apply look "Warm" to 2 cards'
+            );
+            expect(mocks.bulkGet).toHaveBeenCalledWith(["img"]);
+            expect(mocks.queueBulkPreRender).toHaveBeenCalledWith([
+                { card: { uuid: "a", imageId: "img", overrides: warm().overrides }, exportBlob },
+                { card: { uuid: "b", imageId: "img", overrides: warm().overrides }, exportBlob },
+            ]);
+        });
+
+        it("keeps each card's own artwork transform", async () => {
+            updateCards([
+                { uuid: "a", imageId: "img", overrides: { gamma: 2, artScale: 1.5, artOffsetX: 0.1 } },
+                { uuid: "b", imageId: "img", overrides: { artFlipX: true } },
+            ] as unknown as CardOption[]);
+            mocks.bulkGet.mockResolvedValueOnce([]);
+
+            // Looks saved before transforms were stripped may still carry one
+            await applyOverridesPreset(["a", "b"], { ...warm(), overrides: { ...warm().overrides, artRotation: 90 } });
+
+            const updated = await mocks.undoableUpdateCardOverrides.mock.results[0].value;
+            expect(updated.map((c: CardOption) => c.overrides)).toEqual([
+                { ...warm().overrides, artScale: 1.5, artOffsetX: 0.1 },
+                { ...warm().overrides, artFlipX: true },
+            ]);
+        });
+
+        it("skips the pre-render for an empty look", async () => {
+            updateCards([{ uuid: "a", imageId: "img" }] as unknown as CardOption[]);
+
+            await applyOverridesPreset(["a"], { name: "Plain", overrides: {}, updatedAt: 1 });
+
+            expect(mocks.undoableUpdateCardOverrides).toHaveBeenCalledWith(["a"], expect.any(Function), 'Apply look "Plain"');
+            expect(mocks.queueBulkPreRender).not.toHaveBeenCalled();
+        });
+    });
+
+    it("returns no thumbnail when the image can't be rendered", async () => {
+        vi.stubGlobal("createImageBitmap", vi.fn().mockRejectedValue(new Error("bad image")));
+        vi.spyOn(console, "warn").mockImplementation(() => { });
+
+        expect(await renderPresetThumbnail(new Blob(["x"]), warm().overrides)).toBeUndefined();
+        expect(mocks.process).not.toHaveBeenCalled();
+
+        vi.unstubAllGlobals();
+    });
+
+    describe("export / import", () => {
+        it("round-trips presets", () => {
+            expect(parseOverridesPresets(serializeOverridesPresets([warm()]))).toEqual([warm()]);
+        });
+
+        it("drops unknown adjustments, mistyped values and non-image thumbnails", () => {
+            const text = JSON.stringify({
+                format: "proxxied-looks",
+                version: 1,
+                presets: [{
+                    name: " Moody ",
+                    overrides: { gamma: 1.4, brightness: "10", holoAngle: 45, cropX: 3 },
+                    thumbnail: "javascript:alert(1)",
+                    updatedAt: 5,
+                }],
+            });
+            expect(parseOverridesPresets(text)).toEqual([
+                { name: "Moody", overrides: { gamma: 1.4 }, thumbnail: undefined, updatedAt: 5 },
+            ]);
+        });
+
+        it("drops artwork transforms from imported looks", () => {
+            const text = JSON.stringify({
+                format: "proxxied-looks",
+                version: 1,
+                presets: [{ name: "Cropped", overrides: { gamma: 1.4, artScale: 2, artOffsetY: 0.2, artFlipY: true }, updatedAt: 5 }],
+            });
+            expect(parseOverridesPresets(text)[0].overrides).toEqual({ gamma: 1.4 });
+        });
+
+        it("rejects files that are not looks", () => {
+            expect(() => parseOverridesPresets("not json")).toThrow("Not a valid looks file");
+            expect(() => parseOverridesPresets(JSON.stringify({ format: "proxxied-print-profiles", profiles: [] }))).toThrow("Not a valid looks file");
+            expect(() => parseOverridesPresets(JSON.stringify({ format: "proxxied-looks", version: 99, presets: [] }))).toThrow("newer version");
+            expect(() => parseOverridesPresets(JSON.stringify({ format: "proxxied-looks", version: 1, presets: [{ overrides: {} }] }))).toThrow("No looks found");
+        });
+
+        it("downloads all presets as one JSON file", () => {
+            downloadOverridesPresets([warm()]);
+            expect(mocks.saveAs).toHaveBeenCalledWith(expect.any(Blob), "proxxied-looks.json");
+        });
+    });
+});
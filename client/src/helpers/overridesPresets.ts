@@ -0,0 +1,169 @@
+/**
+ * Overrides Presets - named card editor "looks" shared by all projects
+ *
+ * A preset is a saved set of CardOverrides (brightness, gamma, color balance,
+ * darken, holo, vignette...) that can be applied to any card in any project.
+ * Presets live in UserPreferences alongside print profiles and can be shared
+ * as JSON files.
+ */
+
+import { saveAs } from "file-saver";
+import { db, type OverridesPreset } from "@/db";
+import type { CardOption, CardOverrides } from "../../../shared/types";
+import { DEFAULT_RENDER_PARAMS, type RenderParams } from "../components/CardCanvas/types";
+import { paramsToOverrides } from "../components/CardEditorModal/paramsToOverrides";
+import { useSettingsStore } from "@/store/settings";
+import { hasActiveAdjustments } from "./adjustmentUtils";
+import { hasArtTransform, omitArtTransform, pickArtTransform } from "./artTransform";
+import { overridesToRenderParams } from "./cardCanvasWorker";
+import { getEffectProcessor, queueBulkPreRender } from "./effectCache";
+import { undoableUpdateCardOverrides } from "./undoableActions";
+
+export const OVERRIDES_PRESETS_FORMAT = "proxxied-looks";
+export const OVERRIDES_PRESETS_VERSION = 1;
+
+/** Width of preset thumbnails in pixels (height follows the card) */
+export const PRESET_THUMBNAIL_WIDTH = 96;
+
+/** On-disk shape of an exported presets file */
+interface OverridesPresetsFile {
+    format: typeof OVERRIDES_PRESETS_FORMAT;
+    version: number;
+    exportedAt: number;
+    presets: OverridesPreset[];
+}
+
+async function blobToDataUrl(blob: Blob): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const r = new FileReader();
+        r.onloadend = () => resolve(String(r.result || ""));
+        r.onerror = () => reject(r.error);
+        r.readAsDataURL(blob);
+    });
+}
+
+/**
+ * Render a small preview of a card with the preset applied, using the same
+ * worker renderer as the PDF export.
+ * @returns PNG data URL, or undefined if the image couldn't be rendered
+ */
+export async function renderPresetThumbnail(source: Blob, overrides: CardOverrides): Promise<string | undefined> {
+    try {
+        const bitmap = await createImageBitmap(source, { resizeWidth: PRESET_THUMBNAIL_WIDTH, resizeQuality: "medium" });
+        const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+        const ctx = canvas.getContext("2d");
+        if (!ctx) {
+            bitmap.close();
+            return undefined;
+        }
+        ctx.drawImage(bitmap, 0, 0);
+        bitmap.close();
+
+        const small = await canvas.convertToBlob({ type: "image/png" });
+        const params = overridesToRenderParams(overrides, useSettingsStore.getState().darkenMode);
+        const rendered = await getEffectProcessor().process(small, params);
+        return await blobToDataUrl(rendered);
+    } catch (err) {
+        console.warn("[overridesPresets] Thumbnail render failed:", err);
+        return undefined;
+    }
+}
+
+/**
+ * Apply a preset to cards as a single undoable change and queue the export
+ * pre-render for the new look. Each card keeps its own artwork transform.
+ */
+export async function applyOverridesPreset(cardUuids: string[], preset: OverridesPreset): Promise<void> {
+    const look = omitArtTransform(preset.overrides);
+    const description = cardUuids.length === 1
+        ? `Apply look "${preset.name}"`
+        : `Apply look "${preset.name}" to ${cardUuids.length} cards`;
+    const updated = await undoableUpdateCardOverrides(cardUuids, (card) => {
+        const transform = Object.fromEntries(
+            Object.entries(pickArtTransform(card.overrides ?? {})).filter(([, value]) => value !== undefined)
+        );
+        return { ...look, ...transform };
+    }, description);
+
+    const cards = updated.filter((c) => hasActiveAdjustments(c.overrides) || hasArtTransform(c.overrides));
+    if (cards.length === 0) return;
+
+    const imageIds = [...new Set(cards.map((c) => c.imageId).filter(Boolean))] as string[];
+    const images = await db.images.bulkGet(imageIds);
+    const imageMap = new Map(images.filter(Boolean).map((img) => [img!.id, img!]));
+
+    const tasks: Array<{ card: CardOption; exportBlob: Blob }> = [];
+    for (const card of cards) {
+        const exportBlob = card.imageId ? imageMap.get(card.imageId)?.exportBlob : undefined;
+        if (exportBlob) tasks.push({ card, exportBlob });
+    }
+    queueBulkPreRender(tasks);
+}
+
+// ----- Export / Import -----
+
+export function serializeOverridesPresets(presets: OverridesPreset[]): string {
+    const file: OverridesPresetsFile = {
+        format: OVERRIDES_PRESETS_FORMAT,
+        version: OVERRIDES_PRESETS_VERSION,
+        exportedAt: Date.now(),
+        presets,
+    };
+    return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Parse an exported presets file. Unknown adjustments are dropped and values
+ * whose type doesn't match the editor's parameters are ignored.
+ */
+export function parseOverridesPresets(text: string): OverridesPreset[] {
+    let file: Partial<OverridesPresetsFile>;
+    try {
+        file = JSON.parse(text);
+    } catch {
+        throw new Error("Not a valid looks file");
+    }
+
+    if (file?.format !== OVERRIDES_PRESETS_FORMAT || !Array.isArray(file.presets)) {
+        throw new Error("Not a valid looks file");
+    }
+    if (typeof file.version !== "number" || file.version > OVERRIDES_PRESETS_VERSION) {
+        throw new Error("This looks file was created by a newer version of Proxxied");
+    }
+
+    const presets: OverridesPreset[] = [];
+
+    for (const entry of file.presets) {
+        const name = typeof entry?.name === "string" ? entry.name.trim() : "";
+        if (!name || typeof entry.overrides !== "object" || entry.overrides === null) continue;
+
+        // Round-trip through the editor's params so only real adjustments survive
+        const params: Record<string, unknown> = { ...DEFAULT_RENDER_PARAMS };
+        for (const [key, value] of Object.entries(entry.overrides)) {
+            if (key in DEFAULT_RENDER_PARAMS && typeof value === typeof params[key]) {
+                params[key] = value;
+            }
+        }
+
+        const thumbnail = typeof entry.thumbnail === "string" && entry.thumbnail.startsWith("data:image/")
+            ? entry.thumbnail
+            : undefined;
+
+        presets.push({
+            name,
+            overrides: omitArtTransform(paramsToOverrides(params as unknown as RenderParams)),
+            thumbnail,
+            updatedAt: typeof entry.updatedAt === "number" ? entry.updatedAt : Date.now(),
+        });
+    }
+
+    if (presets.length === 0) {
+        throw new Error("No looks found in file");
+    }
+    return presets;
+}
+
+export function downloadOverridesPresets(presets: OverridesPreset[]): void {
+    const blob = new Blob([serializeOverridesPresets(presets)], { type: "application/json" });
+    saveAs(blob, "proxxied-looks.json");
+}
@@ -12,7 +12,10 @@ import { generatePerCardGuide, executePathCommands, type GuideStyle } from "./cu
 import { db, type EffectCacheEntry } from "../db";
 import type { CardOption, CardOverrides } from "../../../shared/types";
 import { debugLog } from "./debug";
-import { IN_TO_PX, MM_TO_PX } from "@/constants/commonConstants";
+import { CONSTANTS, IN_TO_PX, MM_TO_PX } from "@/constants/commonConstants";
+import { getRegistrationMarks, registrationMarkToRects, type RegistrationMark } from "./cutterProfiles";
+import { DEFAULT_CARD_SIZE } from "./cardSizes";
+import { applyColorLutToImage } from "./colorLut";
 
 export { };
 declare const self: DedicatedWorkerGlobalScope;
@@ -62,7 +65,7 @@ function hashString(str: string): string {
 
 const WORKER_VERSION = "v2-explicit-dpi";
 
-function computeEffectCacheKey(imageId: string, overrides: CardOverrides, dpi: number): string {
+function hashOverrides(overrides: CardOverrides): string {
     const sortedOverrides = Object.keys(overrides || {})
         .sort()
         .reduce((acc, k) => {
@@ -72,8 +75,11 @@ function computeEffectCacheKey(imageId: string, overrides: CardOverrides, dpi: n
             }
             return acc;
         }, {} as Record<string, unknown>);
-    const overridesHash = hashString(JSON.stringify(sortedOverrides));
-    return `${imageId}:${dpi}:${overridesHash}:${WORKER_VERSION}`;
+    return hashString(JSON.stringify(sortedOverrides));
+}
+
+function computeEffectCacheKey(imageId: string, overrides: CardOverrides, dpi: number): string {
+    return `${imageId}:${dpi}:${hashOverrides(overrides)}:${WORKER_VERSION}`;
 }
 
 async function cacheEffectBlob(imageId: string, overrides: CardOverrides, blob: Blob, dpi: number): Promise<void> {
@@ -256,15 +262,6 @@ function scaleGuideWidthForDPI(screenPx: number, screenPPI = 96, targetDPI: numb
     return Math.round((screenPx / screenPPI) * targetDPI);
 }
 
-// MTG card corner radius: 2.5mm
-const CARD_CORNER_RADIUS_MM = 2.5;
-
-// Silhouette registration mark constants (based on Silhouette Studio standard marks)
-const REG_MARK_OFFSET_MM = 10.0076;  // 0.394" from page edge (Silhouette spec)
-const REG_MARK_SQUARE_SIZE_MM = 5;  // Size of the top-left square (3-point)
-const REG_MARK_ARM_LENGTH_MM = 8.382;   // 0.33" length of L-shape arms (Silhouette spec)
-const REG_MARK_LINE_WIDTH_MM = 0.9906; // 0.039" thickness of L-shape lines
-
 /**
  * Create a reusable L-shape stamp to avoid stroking directly on the huge page canvas
  * (which causes WebGL context loss in Chrome at high DPIs)
@@ -297,93 +294,48 @@ function createLShapeStamp(armLengthPx: number, lineWidthPx: number): OffscreenC
 }
 
 /**
- * Draw Silhouette registration marks on a canvas using stamps
- * 3-point:
- *   - Top-left: solid black square (origin mark)
- *   - Top-right: L-shape (vertical down, horizontal left)
- *   - Bottom-left: L-shape (vertical up, horizontal right)
- * 4-point: L-shapes at all four corners (no square)
+ * Draw the cutter profile's registration marks on a canvas.
+ * L-shapes use a single rotated stamp; squares and frame edges are plain fills.
  */
-function drawSilhouetteRegistrationMarks(
+function drawRegistrationMarks(
     ctx: OffscreenCanvasRenderingContext2D,
-    pageWidthPx: number,
-    pageHeightPx: number,
-    dpi: number,
-    markCount: '3' | '4',
-    portrait: boolean = false
+    marks: RegistrationMark[],
+    dpi: number
 ): void {
-    const offsetPx = MM_TO_PX(REG_MARK_OFFSET_MM, dpi);
-    const squareSizePx = MM_TO_PX(REG_MARK_SQUARE_SIZE_MM, dpi);
-    const armLengthPx = MM_TO_PX(REG_MARK_ARM_LENGTH_MM, dpi);
-    const lineWidthPx = MM_TO_PX(REG_MARK_LINE_WIDTH_MM, dpi);
-
-    // Create the stamp ONCE
-    const lShapeStamp = createLShapeStamp(armLengthPx, lineWidthPx);
-    const stampOffset = lineWidthPx / 2; // The visual corner of the stamp is at this offset
-
     ctx.fillStyle = '#000000';
 
-    // Position coordinates
-    // These coords represent the corner/intersection point of the mark
-    const topLeftX = offsetPx;
-    const topLeftY = offsetPx;
-    const topRightX = pageWidthPx - offsetPx;
-    const topRightY = offsetPx;
-    const bottomLeftX = offsetPx;
-    const bottomLeftY = pageHeightPx - offsetPx;
-    const bottomRightX = pageWidthPx - offsetPx;
-    const bottomRightY = pageHeightPx - offsetPx;
-
-    // Helper to draw L-shape Stamp with rotation
-    // The stamp is a "Down + Right" L-shape
-    const drawStamp = (x: number, y: number, rotationDeg: number) => {
-        ctx.save();
-        ctx.translate(x, y);
-        ctx.rotate(rotationDeg * Math.PI / 180);
-        // Draw image offset by the stamp's internal padding so the visual corner is at (0,0) (which is x,y)
-        ctx.drawImage(lShapeStamp, -stampOffset, -stampOffset);
-        ctx.restore();
-    };
-
-    if (portrait) {
-        // Portrait mode: marks rotated for paper loaded in portrait orientation
-        // Square (3-point) at bottom-left
-        if (markCount === '3') {
-            ctx.fillRect(bottomLeftX, bottomLeftY - squareSizePx, squareSizePx, squareSizePx);
-        } else {
-            // 4-point: L-shape at bottom-left (up + right) -> Rotate -90 (or 270)
-            drawStamp(bottomLeftX, bottomLeftY, -90);
-        }
-
-        // Top-left: L-shape (down + right) -> No rotation
-        drawStamp(topLeftX, topLeftY, 0);
-
-        // Bottom-right: L-shape (up + left) -> Rotate 180
-        drawStamp(bottomRightX, bottomRightY, 180);
-
-        // Top-right: L-shape (only for 4-point, down + left) -> Rotate 90
-        if (markCount === '4') {
-            drawStamp(topRightX, topRightY, 90);
+    const corners = marks.filter((m): m is Extract<RegistrationMark, { kind: 'corner' }> => m.kind === 'corner');
+    if (corners.length > 0) {
+        const armLengthPx = MM_TO_PX(corners[0].armLength, dpi);
+        const lineWidthPx = MM_TO_PX(corners[0].lineWidth, dpi);
+
+        // Create the stamp ONCE
+        const lShapeStamp = createLShapeStamp(armLengthPx, lineWidthPx);
+        const stampOffset = lineWidthPx / 2; // The visual corner of the stamp is at this offset
+
+        // The stamp is a "Down + Right" L-shape; rotate it for the other directions
+        for (const mark of corners) {
+            const rotationDeg = mark.vertical === 'down'
+                ? (mark.horizontal === 'right' ? 0 : 90)
+                : (mark.horizontal === 'right' ? -90 : 180);
+            ctx.save();
+            ctx.translate(MM_TO_PX(mark.x, dpi), MM_TO_PX(mark.y, dpi));
+            ctx.rotate(rotationDeg * Math.PI / 180);
+            // Draw image offset by the stamp's internal padding so the visual corner is at (0,0) (which is x,y)
+            ctx.drawImage(lShapeStamp, -stampOffset, -stampOffset);
+            ctx.restore();
         }
-    } else {
-        // Landscape mode: standard mark positions
-        // Square (3-point) at top-left
-        if (markCount === '3') {
-            ctx.fillRect(topLeftX, topLeftY, squareSizePx, squareSizePx);
-        } else {
-            // 4-point: L-shape at top-left (down + right) -> No rotation
-            drawStamp(topLeftX, topLeftY, 0);
-        }
-
-        // Top-right: L-shape (down + left) -> Rotate 90
-        drawStamp(topRightX, topRightY, 90);
-
-        // Bottom-left: L-shape (up + right) -> Rotate -90 (or 270)
-        drawStamp(bottomLeftX, bottomLeftY, -90);
+    }
 
-        // Bottom-right: L-shape (only for 4-point, up + left) -> Rotate 180
-        if (markCount === '4') {
-            drawStamp(bottomRightX, bottomRightY, 180);
+    for (const mark of marks) {
+        if (mark.kind === 'corner') continue;
+        for (const rect of registrationMarkToRects(mark)) {
+            ctx.fillRect(
+                MM_TO_PX(rect.x, dpi),
+                MM_TO_PX(rect.y, dpi),
+                MM_TO_PX(rect.width, dpi),
+                MM_TO_PX(rect.height, dpi)
+            );
         }
     }
 }
@@ -401,12 +353,13 @@ function createGuideCanvas(
     dpi: number,
     style: GuideStyle = 'corners',
     placement: 'inside' | 'outside' | 'center' = 'outside',
-    cutGuideLengthMm: number = 6.25
+    cutGuideLengthMm: number = 6.25,
+    cornerRadiusMm: number = DEFAULT_CARD_SIZE.cornerRadiusMm
 ): OffscreenCanvas | null {
     if (style === 'none' || guideWidthPx <= 0) return null;
 
     const w = Math.max(0.1, guideWidthPx);
-    const radiusPx = MM_TO_PX(CARD_CORNER_RADIUS_MM, dpi);
+    const radiusPx = MM_TO_PX(cornerRadiusMm, dpi);
     // Use configured guide length
     const targetLegExtendPx = MM_TO_PX(cutGuideLengthMm, dpi);
 
@@ -465,9 +418,10 @@ self.onmessage = async (event: MessageEvent) => {
             bleedEdgeWidthMm, cardSpacingMm, cardPositionX, cardPositionY, guideColor, guideWidthCssPx, DPI,
             imagesById, API_BASE, darkenMode, cutLineStyle, perCardGuideStyle, guidePlacement,
             cutGuideLengthMm,
-            // Silhouette registration marks
+            // Print & cut registration marks
             registrationMarks,
             registrationMarksPortrait,
+            cutterProfile,
             // Darken settings (Global)
             darkenThreshold,
             darkenContrast,
@@ -481,21 +435,25 @@ self.onmessage = async (event: MessageEvent) => {
             rightAlignRows,
             // Pre-rendered effect cache (cardUuid -> Blob)
             effectCacheById,
-            perCardBackOffsets
+            perCardBackOffsets,
+            // Project card size (older callers omit it)
+            cardSize = DEFAULT_CARD_SIZE,
+            // Printer ICC conversion table (null = off)
+            exportColorLut,
         } = settings;
 
         const pageWidthPx = pageSizeUnit === "in" ? IN_TO_PX(pageWidth, DPI) : MM_TO_PX(pageWidth, DPI);
         const pageHeightPx = pageSizeUnit === "in" ? IN_TO_PX(pageHeight, DPI) : MM_TO_PX(pageHeight, DPI);
-        const contentWidthInPx = MM_TO_PX(63, DPI);
-        const contentHeightInPx = MM_TO_PX(88, DPI);
+        const contentWidthInPx = MM_TO_PX(cardSize.widthMm, DPI);
+        const contentHeightInPx = MM_TO_PX(cardSize.heightMm, DPI);
         const spacingPx = MM_TO_PX(cardSpacingMm || 0, DPI);
         const positionOffsetXPx = MM_TO_PX(cardPositionX || 0, DPI);
         const positionOffsetYPx = MM_TO_PX(cardPositionY || 0, DPI);
 
         // sourceSettings is now passed directly from the main thread (already normalized)
 
-        const layoutsMm = computeCardLayouts(pageCards, sourceSettings, bleedEdge ? bleedEdgeWidthMm : 0);
-        const { colWidthsMm, rowHeightsMm } = computeGridDimensions(layoutsMm, columns, rows, cardSpacingMm);
+        const layoutsMm = computeCardLayouts(pageCards, sourceSettings, bleedEdge ? bleedEdgeWidthMm : 0, cardSize);
+        const { colWidthsMm, rowHeightsMm } = computeGridDimensions(layoutsMm, columns, rows, cardSpacingMm, cardSize);
 
         // Convert to pixels for rendering
         const layouts = layoutsMm.map(l => ({
@@ -541,7 +499,7 @@ self.onmessage = async (event: MessageEvent) => {
         const perCardGuideCanvas = createGuideCanvas(
             contentWidthInPx, contentHeightInPx, bleedPxForGuide,
             guideColor, scaledGuideWidth, DPI, perCardGuideStyle ?? 'corners',
-            guidePlacement ?? 'outside', cutGuideLengthMm ?? 6.25
+            guidePlacement ?? 'outside', cutGuideLengthMm ?? 6.25, cardSize.cornerRadiusMm
         );
 
         // Create and draw full page guides (behind cards)
@@ -699,7 +657,9 @@ self.onmessage = async (event: MessageEvent) => {
             // Log first card and all cards in first row to check for accumulating errors
             // Cache key for canvas caching (declare here so it's accessible in both paths and after trimming)
             // INCLUDE DPI IN KEY: Reusing a 900 DPI canvas for 1200 DPI export results in pixelation/upscaling
-            const cacheKey = card.imageId ? `${card.imageId}-${targetBleedMm.toFixed(2)}-${effectiveDarkenMode}-${DPI}` : null;
+            // Per-card overrides (adjustments, artwork transform) are baked in too, so key on them as well
+            const overridesKey = hasAdvancedOverrides(card.overrides) ? `-${hashOverrides(card.overrides!)}` : '';
+            const cacheKey = card.imageId ? `${card.imageId}-${targetBleedMm.toFixed(2)}-${effectiveDarkenMode}-${DPI}${overridesKey}` : null;
             let fromCanvasCache = false; // Track if we retrieved from canvas cache (to avoid re-caching)
 
             if (isCacheValid) {
@@ -821,13 +781,13 @@ self.onmessage = async (event: MessageEvent) => {
                                     if (trimmed !== img) { img.close(); img = trimmed; }
                                 }
                                 finalCardCanvas = await generateBleedCanvasWebGL(img, 0, {
-                                    unit: 'mm', dpi: DPI, darkenMode: effectiveDarkenMode, ...darkenOpts,
+                                    unit: 'mm', dpi: DPI, darkenMode: effectiveDarkenMode, ...darkenOpts, cardSize,
                                 });
                             } else if (effectiveMode === 'existing' || !needsBleedChange || (card.hasBuiltInBleed && existingBleedMm >= targetBleedMm)) {
                                 // Trim to target bleed using shared helper, then process
                                 const trimAmount = existingBleedMm - targetBleedMm;
                                 if (trimAmount > 0.001) {
-                                    const trimmed = await trimBleedByMm(img, trimAmount, existingBleedMm);
+                                    const trimmed = await trimBleedByMm(img, trimAmount, existingBleedMm, cardSize.heightMm);
                                     if (trimmed !== img) {
                                         img.close();
                                         img = trimmed;
@@ -840,6 +800,7 @@ self.onmessage = async (event: MessageEvent) => {
                                     displayDpi: DPI,
                                     darkenMode: darkenModeToInt(effectiveDarkenMode as 'none' | 'darken-all' | 'contrast-edges' | 'contrast-full'),
                                     ...darkenOpts,
+                                    cardSize,
                                 });
                                 finalCardCanvas = await createImageBitmap(result.exportBlob);
                             } else {
@@ -848,7 +809,7 @@ self.onmessage = async (event: MessageEvent) => {
                                 finalCardCanvas = await generateBleedCanvasWebGL(img, targetBleedMm, {
                                     unit: 'mm', dpi: DPI,
                                     inputBleed: (card.hasBuiltInBleed && existingBleedMm > 0) ? existingBleedMm : 0,
-                                    darkenMode: effectiveDarkenMode, ...darkenOpts,
+                                    darkenMode: effectiveDarkenMode, ...darkenOpts, cardSize,
                                 });
                             }
 
@@ -987,7 +948,9 @@ self.onmessage = async (event: MessageEvent) => {
                 ctx.beginPath();
                 ctx.rect(prepared.x, prepared.y, prepared.cardWidthPx, prepared.cardHeightPx);
                 ctx.clip();
-                ctx.drawImage(prepared.canvas, prepared.x + prepared.centerOffsetX, prepared.y + prepared.centerOffsetY, prepared.imageCardWidthPx, prepared.imageCardHeightPx);
+                // Convert a copy so cached canvases stay unconverted
+                const cardImage = exportColorLut ? applyColorLutToImage(prepared.canvas, exportColorLut) : prepared.canvas;
+                ctx.drawImage(cardImage, prepared.x + prepared.centerOffsetX, prepared.y + prepared.centerOffsetY, prepared.imageCardWidthPx, prepared.imageCardHeightPx);
                 ctx.restore();
 
                 if (prepared.canvas instanceof ImageBitmap) {
@@ -1023,9 +986,12 @@ self.onmessage = async (event: MessageEvent) => {
             self.postMessage({ type: 'progress', pageIndex, imagesProcessed });
         }
 
-        // Draw Silhouette registration marks if enabled (on top of everything)
+        // Draw registration marks for the selected cutter if enabled (on top of everything)
         if (registrationMarks && registrationMarks !== 'none') {
-            drawSilhouetteRegistrationMarks(ctx, pageWidthPx, pageHeightPx, DPI, registrationMarks, registrationMarksPortrait);
+            const pageWidthMm = pageSizeUnit === "in" ? pageWidth * CONSTANTS.MM_PER_IN : pageWidth;
+            const pageHeightMm = pageSizeUnit === "in" ? pageHeight * CONSTANTS.MM_PER_IN : pageHeight;
+            const marks = getRegistrationMarks(cutterProfile, registrationMarks, pageWidthMm, pageHeightMm, registrationMarksPortrait);
+            drawRegistrationMarks(ctx, marks, DPI);
         }
 
         const blob = await canvas.convertToBlob({ type: 'image/jpeg', quality: 0.98 });
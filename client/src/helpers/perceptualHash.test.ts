@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { differenceHash, findClosestHash, groupNearDuplicates, hammingDistance } from './perceptualHash';
+
+const makeImage = (width: number, height: number, fn: (x: number, y: number) => number) => {
+    const gray = new Float32Array(width * height);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) gray[y * width + x] = fn(x / width, y / height);
+    }
+    return gray;
+};
+
+describe('perceptualHash', () => {
+    describe('differenceHash', () => {
+        it('should set every bit for an image that brightens left to right', () => {
+            const gray = makeImage(32, 32, (x) => x * 255);
+            expect(differenceHash(gray, 32, 32)).toBe('ffffffffffffffff');
+        });
+
+        it('should hash the same picture alike at different sizes', () => {
+            const art = (x: number, y: number) => 128 + 100 * Math.sin(x * 7 + y * 3) * Math.cos(y * 5);
+            const small = differenceHash(makeImage(32, 32, art), 32, 32);
+            const large = differenceHash(makeImage(96, 128, art), 96, 128);
+            expect(hammingDistance(small, large)).toBeLessThanOrEqual(4);
+        });
+    });
+
+    describe('hammingDistance', () => {
+        it('should count differing bits', () => {
+            expect(hammingDistance('0000', '0000')).toBe(0);
+            expect(hammingDistance('000f', '0001')).toBe(3);
+            expect(hammingDistance('ffff', '0000')).toBe(16);
+        });
+
+        it('should treat hashes of different lengths as unrelated', () => {
+            expect(hammingDistance('00', '0000')).toBe(Infinity);
+        });
+    });
+
+    describe('groupNearDuplicates', () => {
+        it('should group chains of near matches and drop singletons', () => {
+            const entries = [
+                { id: 'a', phash: '0000000000000000' },
+                { id: 'b', phash: '0000000000000007' },
+                { id: 'c', phash: '000000000000007f' },
+                { id: 'd', phash: 'ffffffffffffffff' },
+            ];
+            const groups = groupNearDuplicates(entries, 4);
+            expect(groups.map((group) => group.map((e) => e.id))).toEqual([['a', 'b', 'c']]);
+        });
+    });
+
+    describe('findClosestHash', () => {
+        it('should return the nearest candidate within range', () => {
+            const candidates = [
+                { name: 'Far', phash: '00000000000000ff' },
+                { name: 'Near', phash: '0000000000000001' },
+            ];
+            expect(findClosestHash('0000000000000000', candidates)?.name).toBe('Near');
+            expect(findClosestHash('ffffffffffffffff', candidates)).toBeUndefined();
+        });
+    });
+});
@@ -0,0 +1,165 @@
+import { CONSTANTS } from "@/constants/commonConstants";
+import { DEFAULT_CARD_SIZE, type CardSize } from "./cardSizes";
+import { detectBleed } from "./cardDimensions";
+
+/**
+ * Largest Hamming distance (out of 64 bits) at which two perceptual hashes
+ * are treated as the same artwork. Re-encodes and resizes land well under it.
+ */
+export const NEAR_DUPLICATE_DISTANCE = 10;
+
+// Images are reduced to this size before hashing
+const SAMPLE_SIZE = 32;
+const HASH_COLUMNS = 9;
+const HASH_ROWS = 8;
+
+/**
+ * Difference hash (dHash) of a grayscale image.
+ * The image is box-averaged to a 9x8 grid and each bit records whether a
+ * cell is darker than its right neighbour, giving a 16 character hex string.
+ */
+export function differenceHash(gray: ArrayLike<number>, width: number, height: number): string {
+    const cells = new Float64Array(HASH_COLUMNS * HASH_ROWS);
+    for (let row = 0; row < HASH_ROWS; row++) {
+        const y0 = Math.floor((row * height) / HASH_ROWS);
+        const y1 = Math.max(y0 + 1, Math.floor(((row + 1) * height) / HASH_ROWS));
+        for (let col = 0; col < HASH_COLUMNS; col++) {
+            const x0 = Math.floor((col * width) / HASH_COLUMNS);
+            const x1 = Math.max(x0 + 1, Math.floor(((col + 1) * width) / HASH_COLUMNS));
+            let sum = 0;
+            for (let y = y0; y < y1; y++) {
+                for (let x = x0; x < x1; x++) sum += gray[y * width + x];
+            }
+            cells[row * HASH_COLUMNS + col] = sum / ((y1 - y0) * (x1 - x0));
+        }
+    }
+
+    let hex = "";
+    for (let row = 0; row < HASH_ROWS; row++) {
+        let nibble = 0;
+        for (let col = 0; col < HASH_COLUMNS - 1; col++) {
+            const i = row * HASH_COLUMNS + col;
+            nibble = (nibble << 1) | (cells[i] < cells[i + 1] ? 1 : 0);
+            if (col % 4 === 3) {
+                hex += nibble.toString(16);
+                nibble = 0;
+            }
+        }
+    }
+    return hex;
+}
+
+/**
+ * Number of differing bits between two perceptual hashes.
+ */
+export function hammingDistance(a: string, b: string): number {
+    if (a.length !== b.length) return Infinity;
+    let distance = 0;
+    for (let i = 0; i < a.length; i++) {
+        let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+        while (diff) {
+            distance += diff & 1;
+            diff >>= 1;
+        }
+    }
+    return distance;
+}
+
+export interface PerceptualHashOptions {
+    hasBuiltInBleed?: boolean;  // Detected from the aspect ratio when undefined
+    bleedMm?: number;           // Bleed on each side when the image has it (default 1/8")
+    cardSize?: CardSize;        // Trimmed card size the bleed is measured against
+}
+
+/**
+ * Computes the perceptual hash of an image.
+ * Built-in bleed is cropped off first so bleed and trimmed copies of the same
+ * art hash alike.
+ */
+export async function computePerceptualHash(
+    source: Blob | ImageBitmap,
+    { hasBuiltInBleed, bleedMm, cardSize = DEFAULT_CARD_SIZE }: PerceptualHashOptions = {}
+): Promise<string> {
+    const bitmap = source instanceof Blob ? await createImageBitmap(source) : source;
+    try {
+        const hasBleed = hasBuiltInBleed ?? detectBleed(bitmap.width, bitmap.height, undefined, cardSize);
+        const bleed = hasBleed ? bleedMm ?? CONSTANTS.DEFAULT_MPC_BLEED_MM : 0;
+        const cropX = Math.round(bitmap.width * (bleed / (cardSize.widthMm + 2 * bleed)));
+        const cropY = Math.round(bitmap.height * (bleed / (cardSize.heightMm + 2 * bleed)));
+
+        const canvas = new OffscreenCanvas(SAMPLE_SIZE, SAMPLE_SIZE);
+        const ctx = canvas.getContext("2d");
+        if (!ctx) throw new Error("Failed to get 2D context for perceptual hash");
+        ctx.imageSmoothingQuality = "high";
+        ctx.drawImage(
+            bitmap,
+            cropX, cropY, bitmap.width - 2 * cropX, bitmap.height - 2 * cropY,
+            0, 0, SAMPLE_SIZE, SAMPLE_SIZE
+        );
+
+        const { data } = ctx.getImageData(0, 0, SAMPLE_SIZE, SAMPLE_SIZE);
+        const gray = new Float32Array(SAMPLE_SIZE * SAMPLE_SIZE);
+        for (let i = 0; i < gray.length; i++) {
+            gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+        }
+        return differenceHash(gray, SAMPLE_SIZE, SAMPLE_SIZE);
+    } finally {
+        // Only close bitmaps we decoded ourselves
+        if (source instanceof Blob) bitmap.close();
+    }
+}
+
+/**
+ * Groups entries whose hashes are within maxDistance of each other, directly
+ * or through a chain of near matches. Only groups of two or more are returned.
+ */
+export function groupNearDuplicates<T extends { phash: string }>(
+    entries: T[],
+    maxDistance: number = NEAR_DUPLICATE_DISTANCE
+): T[][] {
+    const parent = entries.map((_, i) => i);
+    const find = (i: number): number => {
+        while (parent[i] !== i) {
+            parent[i] = parent[parent[i]];
+            i = parent[i];
+        }
+        return i;
+    };
+
+    for (let i = 0; i < entries.length; i++) {
+        for (let j = i + 1; j < entries.length; j++) {
+            if (hammingDistance(entries[i].phash, entries[j].phash) <= maxDistance) {
+                parent[find(j)] = find(i);
+            }
+        }
+    }
+
+    const groups = new Map<number, T[]>();
+    entries.forEach((entry, i) => {
+        const root = find(i);
+        const group = groups.get(root);
+        if (group) group.push(entry);
+        else groups.set(root, [entry]);
+    });
+    return Array.from(groups.values()).filter((group) => group.length > 1);
+}
+
+/**
+ * Finds the candidate whose hash is closest to phash, if any is within maxDistance.
+ */
+export function findClosestHash<T extends { phash: string }>(
+    phash: string,
+    candidates: T[],
+    maxDistance: number = NEAR_DUPLICATE_DISTANCE
+): T | undefined {
+    let best: T | undefined;
+    let bestDistance = maxDistance + 1;
+    for (const candidate of candidates) {
+        const distance = hammingDistance(phash, candidate.phash);
+        if (distance < bestDistance) {
+            best = candidate;
+            bestDistance = distance;
+        }
+    }
+    return best;
+}
@@ -0,0 +1,139 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const mocks = vi.hoisted(() => ({
+    saveAs: vi.fn(),
+}));
+
+vi.mock("file-saver", () => ({
+    saveAs: mocks.saveAs,
+}));
+
+import {
+    applyPrintProfile,
+    capturePrintProfileSettings,
+    downloadPrintProfiles,
+    formatPrintProfileValue,
+    getPrintProfileDifferences,
+    parsePrintProfiles,
+    serializePrintProfiles,
+    PRINT_PROFILE_KEYS,
+} from "./printProfiles";
+import { useSettingsStore } from "@/store/settings";
+import { useUndoRedoStore } from "@/store/undoRedo";
+import type { PrintProfile } from "@/db";
+
+describe("printProfiles", () => {
+    const initialSettings = useSettingsStore.getState();
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        useSettingsStore.setState(initialSettings, true);
+        useUndoRedoStore.getState().clearHistory();
+    });
+
+    const officeProfile = (): PrintProfile => ({
+        name: "Office",
+        settings: {
+            ...capturePrintProfileSettings(),
+            dpi: 600,
+            cardPositionX: 1.5,
+            perCardBackOffsets: { 2: { x: 0.5, y: 0, rotation: 0 } },
+        },
+        updatedAt: 1,
+    });
+
+    describe("capturePrintProfileSettings", () => {
+        it("captures only layout settings", () => {
+            const captured = capturePrintProfileSettings();
+            expect(Object.keys(captured).sort()).toEqual([...PRINT_PROFILE_KEYS].sort());
+            expect(captured).not.toHaveProperty("sortBy");
+            expect(captured).not.toHaveProperty("darkenMode");
+        });
+
+        it("copies nested values", () => {
+            useSettingsStore.setState({ perCardBackOffsets: { 0: { x: 1, y: 0, rotation: 0 } } });
+            const captured = capturePrintProfileSettings();
+            expect(captured.perCardBackOffsets).not.toBe(useSettingsStore.getState().perCardBackOffsets);
+            expect(captured.perCardBackOffsets).toEqual({ 0: { x: 1, y: 0, rotation: 0 } });
+        });
+    });
+
+    describe("getPrintProfileDifferences", () => {
+        it("lists settings that diverge from the profile", () => {
+            const differences = getPrintProfileDifferences(officeProfile());
+            expect(differences.map((d) => d.key)).toEqual(["dpi", "cardPositionX", "perCardBackOffsets"]);
+            expect(differences[0]).toMatchObject({ label: "DPI", currentValue: 900, profileValue: 600 });
+        });
+
+        it("ignores settings the profile does not contain", () => {
+            const differences = getPrintProfileDifferences({ name: "Partial", settings: { columns: 4 }, updatedAt: 1 });
+            expect(differences.map((d) => d.key)).toEqual(["columns"]);
+        });
+    });
+
+    describe("applyPrintProfile", () => {
+        it("applies the profile as one undoable change", async () => {
+            useSettingsStore.setState({ sortBy: "name" });
+
+            expect(applyPrintProfile(officeProfile())).toBe(3);
+
+            const state = useSettingsStore.getState();
+            expect(state.dpi).toBe(600);
+            expect(state.cardPositionX).toBe(1.5);
+            expect(state.perCardBackOffsets).toEqual({ 2: { x: 0.5, y: 0, rotation: 0 } });
+            // Non-layout settings are untouched
+            expect(state.sortBy).toBe("name");
+
+            const { undoStack } = useUndoRedoStore.getState();
+            expect(undoStack).toHaveLength(1);
+            expect(undoStack[0].description).toBe('Apply print profile "Office"');
+
+            await useUndoRedoStore.getState().undo();
+            expect(useSettingsStore.getState().dpi).toBe(900);
+            expect(useSettingsStore.getState().cardPositionX).toBe(0);
+        });
+
+        it("does nothing when the project already matches", () => {
+            const profile = { name: "Same", settings: capturePrintProfileSettings(), updatedAt: 1 };
+            expect(applyPrintProfile(profile)).toBe(0);
+            expect(useUndoRedoStore.getState().undoStack).toHaveLength(0);
+        });
+    });
+
+    describe("formatPrintProfileValue", () => {
+        it("formats booleans, offsets and plain values", () => {
+            expect(formatPrintProfileValue("bleedEdge", true)).toBe("On");
+            expect(formatPrintProfileValue("perCardBackOffsets", {})).toBe("None");
+            expect(formatPrintProfileValue("perCardBackOffsets", { 1: {}, 2: {} })).toBe("2 cards");
+            expect(formatPrintProfileValue("dpi", 600)).toBe("600");
+        });
+    });
+
+    describe("export / import", () => {
+        it("round-trips profiles through JSON", () => {
+            const profile = officeProfile();
+            expect(parsePrintProfiles(serializePrintProfiles([profile]))).toEqual([profile]);
+        });
+
+        it("drops unknown settings and mistyped values", () => {
+            const text = JSON.stringify({
+                format: "proxxied-print-profiles",
+                version: 1,
+                profiles: [{ name: " Home ", settings: { dpi: 300, columns: "4", sortBy: "name" }, updatedAt: 5 }],
+            });
+            expect(parsePrintProfiles(text)).toEqual([{ name: "Home", settings: { dpi: 300 }, updatedAt: 5 }]);
+        });
+
+        it("rejects files that are not print profiles", () => {
+            expect(() => parsePrintProfiles("not json")).toThrow("Not a valid print profiles file");
+            expect(() => parsePrintProfiles(JSON.stringify({ format: "proxxied-project", profiles: [] }))).toThrow("Not a valid print profiles file");
+            expect(() => parsePrintProfiles(JSON.stringify({ format: "proxxied-print-profiles", version: 99, profiles: [] }))).toThrow("newer version");
+            expect(() => parsePrintProfiles(JSON.stringify({ format: "proxxied-print-profiles", version: 1, profiles: [{ settings: {} }] }))).toThrow("No print profiles found");
+        });
+
+        it("downloads all profiles as one JSON file", () => {
+            downloadPrintProfiles([officeProfile()]);
+            expect(mocks.saveAs).toHaveBeenCalledWith(expect.any(Blob), "proxxied-print-profiles.json");
+        });
+    });
+});
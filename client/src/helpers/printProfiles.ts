@@ -0,0 +1,221 @@
+/**
+ * Print Profiles - named layout settings shared by all projects
+ *
+ * A print profile captures the settings that depend on the printer and paper
+ * rather than the deck: page size, DPI, spacing, card and back offsets, bleed and
+ * cut guides. Profiles live in UserPreferences, so switching a project between
+ * printers is one click instead of re-entering a dozen values.
+ */
+
+import { saveAs } from "file-saver";
+import type { PrintProfile } from "@/db";
+import { useSettingsStore, type Store } from "@/store/settings";
+import { useUndoRedoStore } from "@/store/undoRedo";
+
+export const PRINT_PROFILES_FORMAT = "proxxied-print-profiles";
+export const PRINT_PROFILES_VERSION = 1;
+
+/** Settings a profile captures, with the label shown when they diverge */
+export const PRINT_PROFILE_FIELDS = {
+    pageSizePreset: "Page size",
+    pageOrientation: "Page orientation",
+    pageSizeUnit: "Page unit",
+    pageWidth: "Page width",
+    pageHeight: "Page height",
+    customPageWidth: "Custom page width",
+    customPageHeight: "Custom page height",
+    customPageUnit: "Custom page unit",
+    columns: "Columns",
+    rows: "Rows",
+    dpi: "DPI",
+    bleedEdge: "Bleed edge",
+    bleedEdgeWidth: "Bleed width",
+    bleedEdgeUnit: "Bleed unit",
+    cardSpacingMm: "Card spacing",
+    cardPositionX: "Card position X",
+    cardPositionY: "Card position Y",
+    useCustomBackOffset: "Separate back offset",
+    cardBackPositionX: "Back position X",
+    cardBackPositionY: "Back position Y",
+    perCardBackOffsets: "Card back offsets",
+    cutLineStyle: "Cut lines",
+    perCardGuideStyle: "Guide style",
+    guidePlacement: "Guide placement",
+    guideColor: "Guide color",
+    guideWidth: "Guide width",
+    cutGuideLengthMm: "Cut guide length",
+    registrationMarks: "Registration marks",
+    registrationMarksPortrait: "Registration marks (portrait)",
+    cutterProfile: "Cutter",
+} as const satisfies Partial<Record<keyof Store, string>>;
+
+export type PrintProfileKey = keyof typeof PRINT_PROFILE_FIELDS;
+export type PrintProfileSettings = Pick<Store, PrintProfileKey>;
+
+export const PRINT_PROFILE_KEYS = Object.keys(PRINT_PROFILE_FIELDS) as PrintProfileKey[];
+
+export interface PrintProfileDifference {
+    key: PrintProfileKey;
+    label: string;
+    currentValue: unknown;
+    profileValue: unknown;
+}
+
+/** On-disk shape of an exported profiles file */
+interface PrintProfilesFile {
+    format: typeof PRINT_PROFILES_FORMAT;
+    version: number;
+    exportedAt: number;
+    profiles: PrintProfile[];
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function clone<T>(value: T): T {
+    return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * The profile subset of the settings store, by reference (for selectors).
+ */
+export function selectPrintProfileSettings(state: Store): PrintProfileSettings {
+    const settings = {} as Record<PrintProfileKey, unknown>;
+    for (const key of PRINT_PROFILE_KEYS) {
+        settings[key] = state[key];
+    }
+    return settings as PrintProfileSettings;
+}
+
+/**
+ * Copy the profile subset out of the settings store.
+ */
+export function capturePrintProfileSettings(state: Store = useSettingsStore.getState()): PrintProfileSettings {
+    const settings = {} as Record<PrintProfileKey, unknown>;
+    for (const key of PRINT_PROFILE_KEYS) {
+        settings[key] = clone(state[key]);
+    }
+    return settings as PrintProfileSettings;
+}
+
+/**
+ * Settings where the project differs from the profile. Keys the profile
+ * doesn't contain (e.g. from an older export) are not compared.
+ */
+export function getPrintProfileDifferences(
+    profile: PrintProfile,
+    state: PrintProfileSettings = useSettingsStore.getState()
+): PrintProfileDifference[] {
+    const differences: PrintProfileDifference[] = [];
+    for (const key of PRINT_PROFILE_KEYS) {
+        if (!(key in profile.settings)) continue;
+        const profileValue = profile.settings[key];
+        if (!sameValue(state[key], profileValue)) {
+            differences.push({ key, label: PRINT_PROFILE_FIELDS[key], currentValue: state[key], profileValue });
+        }
+    }
+    return differences;
+}
+
+/**
+ * Short display form of a profile setting value.
+ */
+export function formatPrintProfileValue(key: PrintProfileKey, value: unknown): string {
+    if (key === "perCardBackOffsets") {
+        const count = Object.keys((value as object | undefined) ?? {}).length;
+        return count === 0 ? "None" : `${count} card${count !== 1 ? "s" : ""}`;
+    }
+    if (typeof value === "boolean") return value ? "On" : "Off";
+    if (value === undefined || value === null) return "-";
+    return String(value);
+}
+
+/**
+ * Apply a profile to the current project as a single undoable change.
+ * @returns Number of settings that changed
+ */
+export function applyPrintProfile(profile: PrintProfile): number {
+    const differences = getPrintProfileDifferences(profile);
+    if (differences.length === 0) return 0;
+
+    const before: Record<string, unknown> = {};
+    const after: Record<string, unknown> = {};
+    for (const { key, currentValue, profileValue } of differences) {
+        before[key] = currentValue;
+        after[key] = clone(profileValue);
+    }
+
+    useSettingsStore.getState().setAllSettings(after as Partial<Store>);
+    useUndoRedoStore.getState().pushAction({
+        type: "CHANGE_SETTING",
+        description: `Apply print profile "${profile.name}"`,
+        command: { kind: "settings", before, after },
+    });
+
+    return differences.length;
+}
+
+// ----- Export / Import -----
+
+export function serializePrintProfiles(profiles: PrintProfile[]): string {
+    const file: PrintProfilesFile = {
+        format: PRINT_PROFILES_FORMAT,
+        version: PRINT_PROFILES_VERSION,
+        exportedAt: Date.now(),
+        profiles,
+    };
+    return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Parse an exported profiles file. Unknown settings are dropped and values
+ * whose type doesn't match the settings store are ignored.
+ */
+export function parsePrintProfiles(text: string): PrintProfile[] {
+    let file: Partial<PrintProfilesFile>;
+    try {
+        file = JSON.parse(text);
+    } catch {
+        throw new Error("Not a valid print profiles file");
+    }
+
+    if (file?.format !== PRINT_PROFILES_FORMAT || !Array.isArray(file.profiles)) {
+        throw new Error("Not a valid print profiles file");
+    }
+    if (typeof file.version !== "number" || file.version > PRINT_PROFILES_VERSION) {
+        throw new Error("This print profiles file was created by a newer version of Proxxied");
+    }
+
+    const reference = useSettingsStore.getState();
+    const profiles: PrintProfile[] = [];
+
+    for (const entry of file.profiles) {
+        const name = typeof entry?.name === "string" ? entry.name.trim() : "";
+        if (!name || typeof entry.settings !== "object" || entry.settings === null) continue;
+
+        const settings: Record<string, unknown> = {};
+        for (const key of PRINT_PROFILE_KEYS) {
+            const value = (entry.settings as Record<string, unknown>)[key];
+            if (value !== undefined && typeof value === typeof reference[key]) {
+                settings[key] = value;
+            }
+        }
+
+        profiles.push({
+            name,
+            settings: settings as Partial<PrintProfileSettings>,
+            updatedAt: typeof entry.updatedAt === "number" ? entry.updatedAt : Date.now(),
+        });
+    }
+
+    if (profiles.length === 0) {
+        throw new Error("No print profiles found in file");
+    }
+    return profiles;
+}
+
+export function downloadPrintProfiles(profiles: PrintProfile[]): void {
+    const blob = new Blob([serializePrintProfiles(profiles)], { type: "application/json" });
+    saveAs(blob, "proxxied-print-profiles.json");
+}
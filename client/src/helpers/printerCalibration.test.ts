@@ -0,0 +1,120 @@
+import { describe, it, expect, vi } from 'vitest';
+import { PDFDocument } from 'pdf-lib';
+
+const mocks = vi.hoisted(() => ({
+    saveAs: vi.fn(),
+}));
+
+vi.mock('file-saver', () => ({
+    saveAs: mocks.saveAs,
+}));
+
+import {
+    CALIBRATION_TARGET_DISTANCE_MM,
+    computeCalibration,
+    computeSlotCorrection,
+    downloadCalibrationSheet,
+    generateCalibrationSheetPDF,
+    type BackAlignment,
+} from './printerCalibration';
+import type { CuttingTemplateSettings } from './exportCuttingTemplate';
+
+const settings: CuttingTemplateSettings = {
+    pageWidthMm: 215.9,
+    pageHeightMm: 279.4,
+    columns: 3,
+    rows: 3,
+    bleedMm: 0,
+    spacingMm: 0,
+    positionOffsetXMm: 0,
+    positionOffsetYMm: 0,
+    portrait: true,
+};
+
+const aligned: BackAlignment = { cardBackPositionX: 0, cardBackPositionY: 0, perCardBackOffsets: {} };
+
+const shifted = (x: number, y: number) => ({ top: { x, y }, bottom: { x, y } });
+
+describe('computeSlotCorrection', () => {
+    it('averages the two readings into a translation', () => {
+        const correction = computeSlotCorrection({ top: { x: 1, y: -0.5 }, bottom: { x: 1, y: 0.5 } });
+        expect(correction).toEqual({ x: 1, y: 0, rotation: 0 });
+    });
+
+    it('derives a clockwise rotation when the top reading is further right', () => {
+        // Top target needs to move right, bottom left: rotate clockwise
+        const spread = 2 * CALIBRATION_TARGET_DISTANCE_MM * Math.sin(Math.PI / 180);
+        const correction = computeSlotCorrection({ top: { x: spread / 2, y: 0 }, bottom: { x: -spread / 2, y: 0 } });
+        expect(correction.x).toBeCloseTo(0);
+        expect(correction.rotation).toBeCloseTo(1);
+    });
+});
+
+describe('computeCalibration', () => {
+    it('moves a uniform misalignment into the global back offset', () => {
+        const result = computeCalibration(aligned, { 0: shifted(1.2, -0.4), 1: shifted(1.2, -0.4) });
+        expect(result).toEqual({ cardBackPositionX: 1.2, cardBackPositionY: -0.4, perCardBackOffsets: {} });
+    });
+
+    it('keeps per-slot residuals relative to the mean', () => {
+        const result = computeCalibration(aligned, { 0: shifted(1, 0), 1: shifted(2, 0), 2: shifted(3, 0) });
+        expect(result.cardBackPositionX).toBe(2);
+        expect(result.perCardBackOffsets).toEqual({
+            0: { x: -1, y: 0, rotation: 0 },
+            2: { x: 1, y: 0, rotation: 0 },
+        });
+    });
+
+    it('builds on the alignment the sheet was printed with', () => {
+        const current: BackAlignment = {
+            cardBackPositionX: 0.5,
+            cardBackPositionY: 1,
+            perCardBackOffsets: {
+                0: { x: 0.3, y: 0, rotation: 0.5 },
+                4: { x: 0, y: -0.2, rotation: 0 },
+            },
+        };
+        const result = computeCalibration(current, {
+            0: { top: { x: 0.3, y: 0 }, bottom: { x: -0.3, y: 0 } },
+            1: shifted(0, 0),
+        });
+
+        expect(result.cardBackPositionX).toBe(0.5);
+        expect(result.cardBackPositionY).toBe(1);
+        expect(result.perCardBackOffsets[0].x).toBe(0.3);
+        expect(result.perCardBackOffsets[0].rotation).toBeCloseTo(0.5 + 0.57, 2);
+        // Unmeasured slot is left alone
+        expect(result.perCardBackOffsets[4]).toEqual({ x: 0, y: -0.2, rotation: 0 });
+    });
+
+    it('ignores residuals below the noise threshold', () => {
+        const result = computeCalibration(aligned, { 0: shifted(0.52, 0), 1: shifted(0.48, 0) });
+        expect(result.cardBackPositionX).toBe(0.5);
+        expect(result.perCardBackOffsets).toEqual({});
+    });
+
+    it('returns the current alignment when nothing was measured', () => {
+        expect(computeCalibration(aligned, {})).toBe(aligned);
+    });
+});
+
+describe('calibration sheet', () => {
+    it('generates a front and a back page at the layout page size', async () => {
+        const blob = await generateCalibrationSheetPDF(settings, {
+            cardBackPositionX: 1,
+            cardBackPositionY: -1,
+            perCardBackOffsets: { 3: { x: 0.5, y: 0, rotation: 1 } },
+        });
+        const pdf = await PDFDocument.load(await blob.arrayBuffer());
+
+        expect(pdf.getPageCount()).toBe(2);
+        const { width, height } = pdf.getPage(1).getSize();
+        expect(width).toBeCloseTo(215.9 * 2.83465, 1);
+        expect(height).toBeCloseTo(279.4 * 2.83465, 1);
+    });
+
+    it('saves the sheet named after the grid', async () => {
+        await downloadCalibrationSheet(settings, aligned);
+        expect(mocks.saveAs).toHaveBeenCalledWith(expect.any(Blob), 'printer_calibration_3x3.pdf');
+    });
+});
@@ -0,0 +1,264 @@
+/**
+ * Printer calibration for duplex back alignment.
+ *
+ * The calibration sheet prints two crosshairs per card slot on the front page,
+ * above and below the card center. The back page prints a fine ruler at the
+ * same spots, placed with the current back offsets. Held against a light with
+ * the back facing you, the front crosshairs show through the paper, and where
+ * each one falls on its ruler is how far that back target still has to move.
+ *
+ * Two readings per slot give the slot's translation and rotation. The average
+ * translation of all measured slots becomes the global back offset; what is
+ * left over (and the rotation) is stored per slot.
+ */
+
+import { PDFDocument, rgb, StandardFonts, type PDFFont, type PDFPage } from 'pdf-lib';
+import { saveAs } from 'file-saver';
+import { calculateCardPositions, type CuttingTemplateSettings } from './exportCuttingTemplate';
+import { DEFAULT_CARD_SIZE, type CardSize } from './cardSizes';
+
+/** Distance of the top and bottom targets from the card center */
+export const CALIBRATION_TARGET_DISTANCE_MM = 30;
+/** Rulers on the back page cover -5mm..+5mm around each target */
+export const CALIBRATION_RULER_RANGE_MM = 5;
+
+// Residuals below these are printer jitter, not worth a per-slot change
+const MIN_OFFSET_MM = 0.05;
+const MIN_ROTATION_DEG = 0.02;
+
+const MM_TO_PT = 2.83465;
+
+export type CardBackOffset = { x: number; y: number; rotation: number };
+
+export interface BackAlignment {
+    cardBackPositionX: number;
+    cardBackPositionY: number;
+    perCardBackOffsets: Record<number, CardBackOffset>;
+}
+
+/**
+ * Where the front crosshair's center sits on a back ruler, in mm.
+ * Right and down are positive, as seen looking at the back of the sheet.
+ */
+export interface TargetReading {
+    x: number;
+    y: number;
+}
+
+export interface SlotReading {
+    top: TargetReading;
+    bottom: TargetReading;
+}
+
+function round(value: number, decimals: number): number {
+    const factor = 10 ** decimals;
+    return Math.round(value * factor) / factor;
+}
+
+/**
+ * Correction one slot needs, from its two target readings.
+ *
+ * A clockwise rotation θ about the card center moves the top target right and
+ * the bottom target left by d·sin θ, so half the horizontal difference between
+ * the readings gives the rotation and their mean gives the translation.
+ */
+export function computeSlotCorrection(reading: SlotReading): CardBackOffset {
+    const d = CALIBRATION_TARGET_DISTANCE_MM;
+    const sin = Math.max(-1, Math.min(1, (reading.top.x - reading.bottom.x) / (2 * d)));
+
+    return {
+        x: (reading.top.x + reading.bottom.x) / 2,
+        y: (reading.top.y + reading.bottom.y) / 2,
+        rotation: (Math.asin(sin) * 180) / Math.PI,
+    };
+}
+
+/**
+ * New back alignment after applying measured readings (keyed by slot index) on
+ * top of the alignment the calibration sheet was printed with.
+ * Slots without readings keep their per-slot offset.
+ */
+export function computeCalibration(current: BackAlignment, readings: Record<number, SlotReading>): BackAlignment {
+    const corrections = Object.entries(readings).map(([index, reading]) => ({
+        index: Number(index),
+        ...computeSlotCorrection(reading),
+    }));
+    if (corrections.length === 0) return current;
+
+    const meanX = corrections.reduce((sum, c) => sum + c.x, 0) / corrections.length;
+    const meanY = corrections.reduce((sum, c) => sum + c.y, 0) / corrections.length;
+
+    const perCardBackOffsets: Record<number, CardBackOffset> = { ...current.perCardBackOffsets };
+    for (const correction of corrections) {
+        const existing = current.perCardBackOffsets[correction.index] ?? { x: 0, y: 0, rotation: 0 };
+        const dx = correction.x - meanX;
+        const dy = correction.y - meanY;
+
+        const offset = {
+            x: round(Math.abs(dx) < MIN_OFFSET_MM ? existing.x : existing.x + dx, 2),
+            y: round(Math.abs(dy) < MIN_OFFSET_MM ? existing.y : existing.y + dy, 2),
+            rotation: round(Math.abs(correction.rotation) < MIN_ROTATION_DEG ? existing.rotation : existing.rotation + correction.rotation, 2),
+        };
+
+        if (offset.x === 0 && offset.y === 0 && offset.rotation === 0) {
+            delete perCardBackOffsets[correction.index];
+        } else {
+            perCardBackOffsets[correction.index] = offset;
+        }
+    }
+
+    return {
+        cardBackPositionX: round(current.cardBackPositionX + meanX, 2),
+        cardBackPositionY: round(current.cardBackPositionY + meanY, 2),
+        perCardBackOffsets,
+    };
+}
+
+// ----- Calibration sheet -----
+
+type PointMm = { x: number; y: number };
+
+/**
+ * Maps points relative to a card center (mm, y down) to page mm, rotating
+ * clockwise by the given degrees like the PDF export does.
+ */
+function cardTransform(center: PointMm, rotationDeg: number) {
+    const angle = (rotationDeg * Math.PI) / 180;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    return (dx: number, dy: number): PointMm => ({
+        x: center.x + dx * cos - dy * sin,
+        y: center.y + dx * sin + dy * cos,
+    });
+}
+
+function drawLineMm(page: PDFPage, pageHeightMm: number, a: PointMm, b: PointMm, thicknessMm: number, gray = 0) {
+    page.drawLine({
+        start: { x: a.x * MM_TO_PT, y: (pageHeightMm - a.y) * MM_TO_PT },
+        end: { x: b.x * MM_TO_PT, y: (pageHeightMm - b.y) * MM_TO_PT },
+        thickness: thicknessMm * MM_TO_PT,
+        color: rgb(gray, gray, gray),
+    });
+}
+
+function drawTextMm(page: PDFPage, pageHeightMm: number, text: string, at: PointMm, size: number, font: PDFFont, centered = false) {
+    const width = centered ? font.widthOfTextAtSize(text, size) : 0;
+    page.drawText(text, {
+        x: at.x * MM_TO_PT - width / 2,
+        y: (pageHeightMm - at.y) * MM_TO_PT,
+        size,
+        font,
+        color: rgb(0, 0, 0),
+    });
+}
+
+/**
+ * Millimetre rulers along the top and left page edges. Ticks the printer cuts
+ * off show its unprintable margin.
+ */
+function drawEdgeRulers(page: PDFPage, widthMm: number, heightMm: number, font: PDFFont) {
+    const tick = (i: number) => (i % 10 === 0 ? 4 : i % 5 === 0 ? 2.5 : 1.5);
+
+    for (let x = 0; x <= widthMm; x++) {
+        drawLineMm(page, heightMm, { x, y: 0 }, { x, y: tick(x) }, 0.1);
+        if (x > 0 && x % 10 === 0) drawTextMm(page, heightMm, String(x), { x, y: 7 }, 5, font, true);
+    }
+    for (let y = 0; y <= heightMm; y++) {
+        drawLineMm(page, heightMm, { x: 0, y }, { x: tick(y), y }, 0.1);
+        if (y > 0 && y % 10 === 0) drawTextMm(page, heightMm, String(y), { x: 5, y: y + 0.8 }, 5, font);
+    }
+}
+
+function drawCardOutline(page: PDFPage, pageHeightMm: number, cardSize: CardSize, toPage: (dx: number, dy: number) => PointMm) {
+    const hw = cardSize.widthMm / 2;
+    const hh = cardSize.heightMm / 2;
+    const corners = [toPage(-hw, -hh), toPage(hw, -hh), toPage(hw, hh), toPage(-hw, hh)];
+    corners.forEach((corner, i) => drawLineMm(page, pageHeightMm, corner, corners[(i + 1) % 4], 0.2, 0.6));
+}
+
+/** Bold crosshair printed on the front, meant to show through the paper */
+function drawCrosshair(page: PDFPage, pageHeightMm: number, toPage: (dx: number, dy: number) => PointMm, cy: number) {
+    const arm = 4;
+    drawLineMm(page, pageHeightMm, toPage(-arm, cy), toPage(arm, cy), 0.35);
+    drawLineMm(page, pageHeightMm, toPage(0, cy - arm), toPage(0, cy + arm), 0.35);
+}
+
+/** Fine ruler printed on the back: 0.5mm ticks, numbered every millimetre */
+function drawRuler(page: PDFPage, pageHeightMm: number, toPage: (dx: number, dy: number) => PointMm, cy: number, font: PDFFont) {
+    const range = CALIBRATION_RULER_RANGE_MM;
+    drawLineMm(page, pageHeightMm, toPage(-range, cy), toPage(range, cy), 0.08);
+    drawLineMm(page, pageHeightMm, toPage(0, cy - range), toPage(0, cy + range), 0.08);
+
+    for (let step = -2 * range; step <= 2 * range; step++) {
+        if (step === 0) continue;
+        const v = step / 2;
+        const len = step % 2 === 0 ? 1.2 : 0.6;
+        drawLineMm(page, pageHeightMm, toPage(v, cy - len / 2), toPage(v, cy + len / 2), 0.08);
+        drawLineMm(page, pageHeightMm, toPage(-len / 2, cy + v), toPage(len / 2, cy + v), 0.08);
+        if (step % 2 === 0) {
+            drawTextMm(page, pageHeightMm, String(v), toPage(v, cy - 1.1), 3, font, true);
+            drawTextMm(page, pageHeightMm, String(v), toPage(1, cy + v + 0.4), 3, font);
+        }
+    }
+}
+
+/**
+ * Two-page duplex calibration sheet. The front uses the layout's card
+ * position; the back uses the given back alignment, so repeated calibrations
+ * refine the current values.
+ */
+export async function generateCalibrationSheetPDF(settings: CuttingTemplateSettings, back: BackAlignment): Promise<Blob> {
+    const { pageWidthMm, pageHeightMm } = settings;
+    const d = CALIBRATION_TARGET_DISTANCE_MM;
+    const cardSize = settings.cardSize ?? DEFAULT_CARD_SIZE;
+    const halfW = cardSize.widthMm / 2;
+    const halfH = cardSize.heightMm / 2;
+
+    const frontPositions = calculateCardPositions(settings);
+    const backPositions = calculateCardPositions({
+        ...settings,
+        positionOffsetXMm: back.cardBackPositionX,
+        positionOffsetYMm: back.cardBackPositionY,
+    });
+
+    const pdfDoc = await PDFDocument.create();
+    const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+    const boldFont = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+
+    // FRONT: crosshairs only
+    const front = pdfDoc.addPage([pageWidthMm * MM_TO_PT, pageHeightMm * MM_TO_PT]);
+    drawEdgeRulers(front, pageWidthMm, pageHeightMm, font);
+    drawTextMm(front, pageHeightMm, 'FRONT - print double-sided (flip on long edge) at 100% scale', { x: 12, y: 14 }, 7, boldFont);
+    frontPositions.forEach((pos) => {
+        const toPage = cardTransform({ x: pos.x + halfW, y: pos.y + halfH }, 0);
+        drawCardOutline(front, pageHeightMm, cardSize, toPage);
+        drawCrosshair(front, pageHeightMm, toPage, -d);
+        drawCrosshair(front, pageHeightMm, toPage, d);
+    });
+
+    // BACK: numbered slots with rulers, placed with the current back offsets
+    const backPage = pdfDoc.addPage([pageWidthMm * MM_TO_PT, pageHeightMm * MM_TO_PT]);
+    drawEdgeRulers(backPage, pageWidthMm, pageHeightMm, font);
+    drawTextMm(backPage, pageHeightMm, 'BACK - hold against a light and read where each front crosshair falls on the T and B rulers', { x: 12, y: 14 }, 7, boldFont);
+    backPositions.forEach((pos, index) => {
+        const offset = back.perCardBackOffsets[index];
+        const center = { x: pos.x + halfW + (offset?.x ?? 0), y: pos.y + halfH + (offset?.y ?? 0) };
+        const toPage = cardTransform(center, offset?.rotation ?? 0);
+
+        drawCardOutline(backPage, pageHeightMm, cardSize, toPage);
+        drawRuler(backPage, pageHeightMm, toPage, -d, font);
+        drawRuler(backPage, pageHeightMm, toPage, d, font);
+        drawTextMm(backPage, pageHeightMm, 'T', toPage(-CALIBRATION_RULER_RANGE_MM - 2.5, -d + 1), 7, boldFont, true);
+        drawTextMm(backPage, pageHeightMm, 'B', toPage(-CALIBRATION_RULER_RANGE_MM - 2.5, d + 1), 7, boldFont, true);
+        drawTextMm(backPage, pageHeightMm, String(index + 1), toPage(0, 5), 28, boldFont, true);
+    });
+
+    const pdfBytes = await pdfDoc.save();
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return new Blob([pdfBytes as any], { type: 'application/pdf' });
+}
+
+export async function downloadCalibrationSheet(settings: CuttingTemplateSettings, back: BackAlignment): Promise<void> {
+    const blob = await generateCalibrationSheetPDF(settings, back);
+    saveAs(blob, `printer_calibration_${settings.columns}x${settings.rows}.pdf`);
+}
@@ -0,0 +1,209 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import JSZip from 'jszip';
+import type { CardOption } from '@/types';
+
+// fake-indexeddb can't round-trip jsdom Blobs, so back the tables with plain Maps
+const mocks = vi.hoisted(() => {
+    function createTable<T extends object>(key: keyof T) {
+        const rows = new Map<unknown, T>();
+        return {
+            rows,
+            get: async (id: unknown) => rows.get(id),
+            toArray: async () => [...rows.values()],
+            count: async () => rows.size,
+            clear: async () => rows.clear(),
+            add: async (row: T) => { rows.set(row[key], row); },
+            bulkAdd: async (items: T[]) => { items.forEach(r => rows.set(r[key], r)); },
+            bulkPut: async (items: T[]) => { items.forEach(r => rows.set(r[key], r)); },
+            where: (field: string) => ({
+                equals: (value: unknown) => {
+                    const matches = () => [...rows.values()].filter(r => (r as Record<string, unknown>)[field] === value);
+                    return {
+                        toArray: async () => matches(),
+                        count: async () => matches().length,
+                        sortBy: async (by: string) => matches().sort((a, b) =>
+                            ((a as Record<string, number>)[by]) - ((b as Record<string, number>)[by])),
+                    };
+                },
+            }),
+        };
+    }
+    return { createTable };
+});
+
+vi.mock('@/db', () => ({
+    db: {
+        projects: mocks.createTable<{ id: string }>('id'),
+        cards: mocks.createTable<{ uuid: string }>('uuid'),
+        user_images: mocks.createTable<{ hash: string }>('hash'),
+        cardbacks: mocks.createTable<{ id: string }>('id'),
+        transaction: async (...args: unknown[]) => (args[args.length - 1] as () => Promise<void>)(),
+    },
+}));
+
+// jsdom's ArrayBuffer isn't accepted by Node's SubtleCrypto; a size/type key is enough here
+vi.mock('./dbUtils', () => ({
+    hashBlob: async (blob: Blob) => `${blob.type}:${blob.size}`,
+}));
+
+import { db } from '@/db';
+import { exportProjectArchive, importProjectArchive, PROJECT_ARCHIVE_FORMAT } from './projectArchive';
+
+async function seedProject() {
+    await db.projects.add({
+        id: 'project-a',
+        name: 'My Deck',
+        createdAt: 1,
+        lastOpenedAt: 1,
+        cardCount: 2,
+        settings: { columns: 3, rows: 3 },
+        shareId: 'share-123',
+    });
+
+    await db.user_images.add({
+        hash: 'abc123-std',
+        data: new Blob(['upload-bytes'], { type: 'image/png' }),
+        type: 'image/png',
+        createdAt: 1,
+        displayName: 'Custom Art',
+    });
+
+    await db.cardbacks.add({
+        id: 'cardback_custom_1',
+        originalBlob: new Blob(['cardback-bytes'], { type: 'image/png' }),
+        displayName: 'Team Back',
+        hasBuiltInBleed: true,
+    });
+
+    const cards: CardOption[] = [
+        {
+            uuid: 'front-1',
+            name: 'Custom Art',
+            order: 10,
+            imageId: 'abc123-std',
+            isUserUpload: true,
+            linkedBackId: 'back-1',
+            overrides: { brightness: 10, holoEffect: 'rainbow' },
+            projectId: 'project-a',
+        },
+        {
+            uuid: 'back-1',
+            name: 'Team Back',
+            order: 10,
+            imageId: 'cardback_custom_1',
+            isUserUpload: true,
+            linkedFrontId: 'front-1',
+            projectId: 'project-a',
+        },
+        {
+            uuid: 'sol-ring',
+            name: 'Sol Ring',
+            order: 20,
+            imageId: 'https://cards.scryfall.io/png/front/sol-ring.png',
+            isUserUpload: false,
+            set: 'cmm',
+            number: '1',
+            projectId: 'project-a',
+        },
+    ];
+    await db.cards.bulkAdd(cards);
+}
+
+describe('projectArchive', () => {
+    beforeEach(async () => {
+        await db.projects.clear();
+        await db.cards.clear();
+        await db.user_images.clear();
+        await db.cardbacks.clear();
+        await seedProject();
+    });
+
+    it('should write a versioned manifest with cards, settings and referenced blobs', async () => {
+        const { blob, filename } = await exportProjectArchive('project-a');
+        expect(filename).toBe('My Deck.proxxied');
+
+        const zip = await JSZip.loadAsync(await blob.arrayBuffer());
+        const manifest = JSON.parse(await zip.file('manifest.json')!.async('string'));
+
+        expect(manifest.format).toBe(PROJECT_ARCHIVE_FORMAT);
+        expect(manifest.version).toBe(1);
+        expect(manifest.project).toMatchObject({ name: 'My Deck', settings: { columns: 3, rows: 3 } });
+        expect(manifest.cards).toHaveLength(3);
+        expect(manifest.cards[0].projectId).toBeUndefined();
+        expect(manifest.userImages).toHaveLength(1);
+        expect(manifest.cardbacks).toHaveLength(1);
+        expect(zip.file(manifest.userImages[0].file)).not.toBeNull();
+        expect(zip.file(manifest.cardbacks[0].file)).not.toBeNull();
+    });
+
+    it('should throw for a missing project', async () => {
+        await expect(exportProjectArchive('nope')).rejects.toThrow('not found');
+    });
+
+    it('should import into a new project with remapped UUIDs and preserved links', async () => {
+        const { blob } = await exportProjectArchive('project-a');
+        const result = await importProjectArchive(await blob.arrayBuffer());
+
+        expect(result.projectId).not.toBe('project-a');
+        expect(result.cardCount).toBe(2);
+
+        const project = await db.projects.get(result.projectId);
+        expect(project?.name).toBe('My Deck');
+        expect(project?.shareId).toBeUndefined();
+
+        const imported = await db.cards.where('projectId').equals(result.projectId).toArray();
+        expect(imported).toHaveLength(3);
+        const originalUuids = ['front-1', 'back-1', 'sol-ring'];
+        imported.forEach(c => expect(originalUuids).not.toContain(c.uuid));
+
+        const front = imported.find(c => c.name === 'Custom Art')!;
+        const back = imported.find(c => c.name === 'Team Back')!;
+        expect(front.linkedBackId).toBe(back.uuid);
+        expect(back.linkedFrontId).toBe(front.uuid);
+        expect(front.overrides).toEqual({ brightness: 10, holoEffect: 'rainbow' });
+
+        // Original project untouched
+        expect(await db.cards.where('projectId').equals('project-a').count()).toBe(3);
+    });
+
+    it('should dedupe existing upload images and cardbacks instead of duplicating them', async () => {
+        const { blob } = await exportProjectArchive('project-a');
+        const result = await importProjectArchive(await blob.arrayBuffer());
+
+        expect(result.imagesAdded).toBe(0);
+        expect(result.imagesReused).toBe(2);
+        expect(await db.user_images.count()).toBe(1);
+        expect(await db.cardbacks.count()).toBe(1);
+    });
+
+    it('should restore blobs into an empty library', async () => {
+        const { blob } = await exportProjectArchive('project-a');
+        await db.user_images.clear();
+        await db.cardbacks.clear();
+
+        const result = await importProjectArchive(await blob.arrayBuffer());
+
+        expect(result.imagesAdded).toBe(2);
+        const restored = await db.user_images.get('abc123-std');
+        expect(restored?.displayName).toBe('Custom Art');
+        expect(new TextDecoder().decode(await restored!.data.arrayBuffer())).toBe('upload-bytes');
+        expect(await db.cardbacks.get('cardback_custom_1')).toBeDefined();
+    });
+
+    it('should reject archives without a valid manifest', async () => {
+        const zip = new JSZip();
+        zip.file('manifest.json', JSON.stringify({ format: 'something-else', version: 1, cards: [] }));
+        const data = await zip.generateAsync({ type: 'arraybuffer' });
+        await expect(importProjectArchive(data)).rejects.toThrow('unrecognized format');
+
+        const empty = await new JSZip().generateAsync({ type: 'arraybuffer' });
+        await expect(importProjectArchive(empty)).rejects.toThrow('missing manifest');
+    });
+
+    it('should reject archives from a newer version', async () => {
+        const zip = new JSZip();
+        zip.file('manifest.json', JSON.stringify({ format: PROJECT_ARCHIVE_FORMAT, version: 99, cards: [] }));
+        const data = await zip.generateAsync({ type: 'arraybuffer' });
+        await expect(importProjectArchive(data)).rejects.toThrow('Unsupported project archive version');
+    });
+});
@@ -0,0 +1,287 @@
+/**
+ * Project Archive - Self-contained .proxxied export/import
+ *
+ * Bundles a project (record, settings, cards with overrides and DFC links) plus
+ * every referenced upload library image and custom cardback into a single zip.
+ * Unlike share links, archives carry the image blobs themselves so uploads survive
+ * moving between machines and browsers.
+ */
+
+import JSZip from "jszip";
+import { db, type Cardback, type Json, type Project, type UserImage } from "@/db";
+import type { CardOption } from "@/types";
+import { hashBlob } from "./dbUtils";
+import { BUILTIN_CARDBACKS, isCardbackId } from "./cardbackLibrary";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const PROJECT_ARCHIVE_FORMAT = "proxxied-project";
+export const PROJECT_ARCHIVE_VERSION = 1;
+export const PROJECT_ARCHIVE_EXTENSION = ".proxxied";
+
+const MANIFEST_FILE = "manifest.json";
+
+/** Upload library entry as stored in the manifest (blob lives in the zip) */
+type ArchivedUserImage = Omit<UserImage, "data"> & { file: string };
+
+/** Custom cardback as stored in the manifest (original blob lives in the zip) */
+interface ArchivedCardback {
+    id: string;
+    file: string;
+    displayName?: string;
+    hasBuiltInBleed?: boolean;
+    sourceUrl?: string;
+}
+
+/** Versioned manifest written to manifest.json at the archive root */
+export interface ProjectArchiveManifest {
+    format: typeof PROJECT_ARCHIVE_FORMAT;
+    version: number;
+    exportedAt: number;
+    project: {
+        name: string;
+        createdAt: number;
+        settings: Json;
+    };
+    cards: Omit<CardOption, "projectId">[];
+    userImages: ArchivedUserImage[];
+    cardbacks: ArchivedCardback[];
+}
+
+export interface ProjectArchiveImportResult {
+    projectId: string;
+    cardCount: number;
+    imagesAdded: number;
+    imagesReused: number;
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+function extensionForType(type: string | undefined): string {
+    if (type === "image/jpeg") return "jpg";
+    if (type === "image/webp") return "webp";
+    return "png";
+}
+
+function isBuiltinCardback(id: string): boolean {
+    return BUILTIN_CARDBACKS.some(b => b.id === id);
+}
+
+/**
+ * Build a .proxxied archive for a project.
+ * Built-in cardbacks and remote (Scryfall/MPC) images are referenced by ID only,
+ * since every install can recreate them.
+ */
+export async function exportProjectArchive(projectId: string): Promise<{ blob: Blob; filename: string }> {
+    const project = await db.projects.get(projectId);
+    if (!project) throw new Error(`Project ${projectId} not found`);
+
+    const cards = await db.cards.where("projectId").equals(projectId).sortBy("order");
+
+    const referencedIds = new Set<string>();
+    for (const card of cards) {
+        if (card.imageId) referencedIds.add(card.imageId);
+    }
+
+    const zip = new JSZip();
+    const userImages: ArchivedUserImage[] = [];
+    const cardbacks: ArchivedCardback[] = [];
+
+    for (const id of referencedIds) {
+        if (isCardbackId(id)) {
+            if (isBuiltinCardback(id)) continue;
+            const cardback = await db.cardbacks.get(id);
+            if (!cardback?.originalBlob) continue;
+            const file = `cardbacks/${id}.${extensionForType(cardback.originalBlob.type)}`;
+            zip.file(file, await cardback.originalBlob.arrayBuffer());
+            cardbacks.push({
+                id,
+                file,
+                displayName: cardback.displayName,
+                hasBuiltInBleed: cardback.hasBuiltInBleed,
+                sourceUrl: cardback.sourceUrl,
+            });
+            continue;
+        }
+
+        const userImage = await db.user_images.get(id);
+        if (!userImage?.data) continue;
+        const { data, ...meta } = userImage;
+        const file = `images/${id}.${extensionForType(userImage.type)}`;
+        zip.file(file, await data.arrayBuffer());
+        userImages.push({ ...meta, file });
+    }
+
+    const manifest: ProjectArchiveManifest = {
+        format: PROJECT_ARCHIVE_FORMAT,
+        version: PROJECT_ARCHIVE_VERSION,
+        exportedAt: Date.now(),
+        project: {
+            name: project.name,
+            createdAt: project.createdAt,
+            settings: project.settings,
+        },
+        cards: cards.map(({ projectId: _projectId, ...card }) => card),
+        userImages,
+        cardbacks,
+    };
+
+    zip.file(MANIFEST_FILE, JSON.stringify(manifest));
+
+    const blob = await zip.generateAsync({ type: "blob", compression: "DEFLATE" });
+    const safeName = project.name.replace(/[/\\?%*:|"<>]/g, "_").trim() || "project";
+    return { blob, filename: `${safeName}${PROJECT_ARCHIVE_EXTENSION}` };
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+function parseManifest(raw: string): ProjectArchiveManifest {
+    let manifest: ProjectArchiveManifest;
+    try {
+        manifest = JSON.parse(raw);
+    } catch {
+        throw new Error("Invalid project archive: manifest is not valid JSON");
+    }
+    if (manifest?.format !== PROJECT_ARCHIVE_FORMAT) {
+        throw new Error("Invalid project archive: unrecognized format");
+    }
+    if (typeof manifest.version !== "number" || manifest.version > PROJECT_ARCHIVE_VERSION) {
+        throw new Error(`Unsupported project archive version: ${manifest.version}`);
+    }
+    if (!Array.isArray(manifest.cards)) {
+        throw new Error("Invalid project archive: missing cards");
+    }
+    return manifest;
+}
+
+async function readZipBlob(zip: JSZip, path: string, type?: string): Promise<Blob | null> {
+    const entry = zip.file(path);
+    if (!entry) return null;
+    const buffer = await entry.async("arraybuffer");
+    return new Blob([buffer], { type: type || "image/png" });
+}
+
+/**
+ * Import a .proxxied archive as a new project.
+ * Card UUIDs are always regenerated so the import never collides with an existing
+ * project. Upload library images are deduped by their SHA-256 hash key; custom
+ * cardbacks are deduped by content hash against the existing cardback library.
+ * @returns The new project's ID. The caller decides whether to switch to it.
+ */
+export async function importProjectArchive(file: Blob | ArrayBuffer): Promise<ProjectArchiveImportResult> {
+    let zip: JSZip;
+    try {
+        zip = await JSZip.loadAsync(file);
+    } catch {
+        throw new Error("Invalid project archive: not a zip file");
+    }
+
+    const manifestEntry = zip.file(MANIFEST_FILE);
+    if (!manifestEntry) throw new Error("Invalid project archive: missing manifest");
+    const manifest = parseManifest(await manifestEntry.async("string"));
+
+    // 1. Read image blobs up front (outside the transaction - zip reads are async I/O)
+    const userImagesToAdd: UserImage[] = [];
+    let imagesReused = 0;
+
+    for (const archived of manifest.userImages ?? []) {
+        const { file: path, ...meta } = archived;
+        if (await db.user_images.get(meta.hash)) {
+            imagesReused++;
+            continue;
+        }
+        const data = await readZipBlob(zip, path, meta.type);
+        if (!data) continue;
+        userImagesToAdd.push({ ...meta, data });
+    }
+
+    // Existing custom cardbacks keyed by content hash, so re-importing the same
+    // archive doesn't pile up copies of the same cardback under new IDs.
+    const cardbackIdRemap = new Map<string, string>();
+    const cardbacksToAdd: Cardback[] = [];
+    const archivedCardbacks = manifest.cardbacks ?? [];
+
+    if (archivedCardbacks.length > 0) {
+        const existingByHash = new Map<string, string>();
+        for (const existing of await db.cardbacks.toArray()) {
+            if (existing.originalBlob && !isBuiltinCardback(existing.id)) {
+                existingByHash.set(await hashBlob(existing.originalBlob), existing.id);
+            }
+        }
+
+        for (const archived of archivedCardbacks) {
+            const blob = await readZipBlob(zip, archived.file);
+            if (!blob) continue;
+            const hash = await hashBlob(blob);
+            const existingId = existingByHash.get(hash);
+            if (existingId) {
+                cardbackIdRemap.set(archived.id, existingId);
+                imagesReused++;
+                continue;
+            }
+            const id = (await db.cardbacks.get(archived.id))
+                ? `cardback_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+                : archived.id;
+            cardbackIdRemap.set(archived.id, id);
+            existingByHash.set(hash, id);
+            cardbacksToAdd.push({
+                id,
+                originalBlob: blob,
+                displayName: archived.displayName,
+                hasBuiltInBleed: archived.hasBuiltInBleed,
+                sourceUrl: archived.sourceUrl,
+            });
+        }
+    }
+
+    // 2. Remap card UUIDs (and DFC links) into the new project
+    const projectId = crypto.randomUUID();
+    const uuidRemap = new Map<string, string>();
+    for (const card of manifest.cards) {
+        uuidRemap.set(card.uuid, crypto.randomUUID());
+    }
+
+    const cards: CardOption[] = manifest.cards.map(card => {
+        const imageId = card.imageId ? (cardbackIdRemap.get(card.imageId) ?? card.imageId) : card.imageId;
+        const remapped: CardOption = {
+            ...card,
+            uuid: uuidRemap.get(card.uuid)!,
+            imageId,
+            projectId,
+        };
+        if (card.linkedFrontId) remapped.linkedFrontId = uuidRemap.get(card.linkedFrontId);
+        if (card.linkedBackId) remapped.linkedBackId = uuidRemap.get(card.linkedBackId);
+        return remapped;
+    });
+
+    const now = Date.now();
+    const project: Project = {
+        id: projectId,
+        name: manifest.project?.name || "Imported Project",
+        createdAt: now,
+        lastOpenedAt: now,
+        cardCount: cards.filter(c => !c.linkedFrontId).length,
+        settings: manifest.project?.settings ?? {},
+    };
+
+    // 3. Write everything atomically
+    await db.transaction("rw", db.projects, db.cards, db.user_images, db.cardbacks, async () => {
+        if (userImagesToAdd.length > 0) await db.user_images.bulkPut(userImagesToAdd);
+        if (cardbacksToAdd.length > 0) await db.cardbacks.bulkPut(cardbacksToAdd);
+        await db.projects.add(project);
+        if (cards.length > 0) await db.cards.bulkAdd(cards);
+    });
+
+    return {
+        projectId,
+        cardCount: project.cardCount,
+        imagesAdded: userImagesToAdd.length + cardbacksToAdd.length,
+        imagesReused,
+    };
+}
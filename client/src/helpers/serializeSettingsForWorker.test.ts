@@ -26,6 +26,12 @@ const mockSettingsState = vi.hoisted(() => ({
     perCardGuideStyle: "corners" as const,
     guidePlacement: "inside" as const,
     cutGuideLengthMm: 5,
+    cardWidthMm: 59 as number | undefined,
+    cardHeightMm: 86 as number | undefined,
+    cardCornerRadiusMm: 2 as number | undefined,
+    softProofProfileId: "profile-1" as string | null,
+    softProofIntent: "relative" as const,
+    exportConvertToProfile: false,
 }));
 
 vi.mock("../store/settings", () => ({
@@ -42,6 +48,10 @@ describe("serializeSettingsForWorker", () => {
         // Reset to defaults
         mockSettingsState.bleedEdgeUnit = "mm";
         mockSettingsState.bleedEdgeWidth = 3;
+        mockSettingsState.cardWidthMm = 59;
+        mockSettingsState.cardHeightMm = 86;
+        mockSettingsState.cardCornerRadiusMm = 2;
+        mockSettingsState.exportConvertToProfile = false;
     });
 
     describe("serializePdfSettingsForWorker", () => {
@@ -114,5 +124,31 @@ describe("serializeSettingsForWorker", () => {
 
             expect(result.withBleedSourceAmount).toBe(3);
         });
+
+        it("should include the project card size", () => {
+            const result = serializePdfSettingsForWorker();
+
+            expect(result.cardSize).toEqual({ widthMm: 59, heightMm: 86, cornerRadiusMm: 2 });
+        });
+
+        it("should fall back to the standard card size for older projects", () => {
+            mockSettingsState.cardWidthMm = undefined;
+            mockSettingsState.cardHeightMm = undefined;
+            mockSettingsState.cardCornerRadiusMm = undefined;
+
+            const result = serializePdfSettingsForWorker();
+
+            expect(result.cardSize).toEqual({ widthMm: 63, heightMm: 88, cornerRadiusMm: 2.5 });
+        });
+
+        it("should only pass the ICC profile when export conversion is on", () => {
+            expect(serializePdfSettingsForWorker().exportIccProfileId).toBeNull();
+
+            mockSettingsState.exportConvertToProfile = true;
+            const result = serializePdfSettingsForWorker();
+
+            expect(result.exportIccProfileId).toBe("profile-1");
+            expect(result.exportRenderingIntent).toBe("relative");
+        });
     });
 });
@@ -6,6 +6,9 @@
 import type { SourceTypeSettings } from './layout';
 import { useSettingsStore } from '../store/settings';
 import { CONSTANTS } from '@/constants/commonConstants';
+import type { CutterProfileId } from './cutterProfiles';
+import { getCardSize, type CardSize } from './cardSizes';
+import type { RenderingIntent } from './iccProfile';
 
 /**
  * Normalized settings for worker consumption.
@@ -31,6 +34,9 @@ interface WorkerBleedSettings {
     darkenBrightness: number;
     darkenAutoDetect: boolean;
     dpi: number;
+
+    // Trimmed card size and corner radius (mm)
+    cardSize: CardSize;
 }
 
 /**
@@ -64,12 +70,17 @@ export interface WorkerPdfSettings extends WorkerBleedSettings {
     guidePlacement: 'inside' | 'outside' | 'center';
     cutGuideLengthMm: number;
 
-    // Silhouette registration marks
+    // Print & cut registration marks
     registrationMarks: 'none' | '3' | '4';
     registrationMarksPortrait: boolean;
+    cutterProfile: CutterProfileId;
 
     // Right-align incomplete rows (for backs export)
     rightAlignRows?: boolean;
+
+    // Convert card images through a printer ICC profile (null = no conversion)
+    exportIccProfileId: string | null;
+    exportRenderingIntent: RenderingIntent;
 }
 
 /**
@@ -105,6 +116,7 @@ function serializeBleedSettingsForWorker(): WorkerBleedSettings {
         darkenBrightness: state.darkenBrightness,
         darkenAutoDetect: state.darkenAutoDetect,
         dpi: state.dpi,
+        cardSize: getCardSize(state),
     };
 }
 
@@ -142,5 +154,9 @@ export function serializePdfSettingsForWorker(): WorkerPdfSettings {
         cutGuideLengthMm: state.cutGuideLengthMm,
         registrationMarks: state.registrationMarks,
         registrationMarksPortrait: state.registrationMarksPortrait,
+        cutterProfile: state.cutterProfile,
+        // Color conversion uses the soft-proof profile and intent
+        exportIccProfileId: state.exportConvertToProfile ? state.softProofProfileId : null,
+        exportRenderingIntent: state.softProofIntent,
     };
 }
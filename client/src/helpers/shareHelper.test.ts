@@ -4,9 +4,15 @@ import {
     serializeSettings,
     getShareWarnings,
     deserializeForImport,
+    createShare,
+    deleteShare,
+    loadShare,
+    listShareRevisions,
+    diffShareData,
     type ShareData,
 } from './shareHelper';
 import type { CardOption } from '@/types';
+import { db } from '@/db';
 
 // Mock dependencies
 vi.mock('./mpcAutofillApi', () => ({
@@ -339,6 +345,16 @@ describe('shareHelper', () => {
             expect(result.cards[0].overrides?.contrast).toBe(1.2);
         });
 
+        it('should round-trip the artwork transform', () => {
+            const overrides = { artScale: 1.25, artOffsetX: -0.05, artOffsetY: 0.1, artRotation: -3, artFlipX: true };
+            const { shareCards } = serializeCards([
+                { uuid: 'c1', name: 'Sol Ring', order: 0, set: 'cmd', number: '235', imageId: 'scryfall/cmd/235', isUserUpload: false, overrides },
+            ] as CardOption[]);
+
+            expect(shareCards[0][4]).toEqual({ as: 1.25, ax: -0.05, ay: 0.1, ar: -3, afx: true });
+            expect(deserializeForImport({ v: 1, c: shareCards }).cards[0].overrides).toEqual(overrides);
+        });
+
         it('should include DFC links', () => {
             const data: ShareData = {
                 v: 1,
@@ -385,4 +401,164 @@ describe('shareHelper', () => {
             expect(result.settings?.c).toBe(3);
         });
     });
+
+    describe('createShare edit tokens', () => {
+        const cards: CardOption[] = [
+            { uuid: 'c1', name: 'Sol Ring', order: 10, set: 'cmm', number: '1', imageId: 'scryfall/cmm/1', isUserUpload: false },
+        ];
+
+        beforeEach(async () => {
+            await db.projects.clear();
+            await db.projects.add({ id: 'p1', name: 'Deck', createdAt: 0, lastOpenedAt: 0, cardCount: 1, settings: {} });
+        });
+
+        it('should persist a newly issued edit token on the project', async () => {
+            vi.mocked(fetch).mockResolvedValueOnce({
+                ok: true,
+                status: 200,
+                json: async () => ({ id: 'abcd1234', expiresAt: 1, editToken: 'secret-token' }),
+            } as Response);
+
+            const result = await createShare(cards, {}, 'p1');
+
+            expect(result.id).toBe('abcd1234');
+            expect((await db.projects.get('p1'))?.shareEditToken).toBe('secret-token');
+        });
+
+        it('should send the stored edit token when updating', async () => {
+            await db.projects.update('p1', { shareEditToken: 'stored-token' });
+            vi.mocked(fetch).mockResolvedValueOnce({
+                ok: true,
+                status: 200,
+                json: async () => ({ id: 'abcd1234', expiresAt: 1 }),
+            } as Response);
+
+            await createShare(cards, {}, 'p1');
+
+            const body = JSON.parse(vi.mocked(fetch).mock.calls[0][1]!.body as string);
+            expect(body.editToken).toBe('stored-token');
+            expect((await db.projects.get('p1'))?.shareEditToken).toBe('stored-token');
+        });
+
+        it('should explain a rejected token', async () => {
+            vi.mocked(fetch).mockResolvedValueOnce({
+                ok: false,
+                status: 403,
+                json: async () => ({ error: 'Invalid or missing edit token' }),
+            } as Response);
+
+            await expect(createShare(cards, {}, 'p1')).rejects.toThrow('cannot be updated');
+        });
+    });
+
+    describe('deleteShare', () => {
+        it('should send the edit token as a bearer token', async () => {
+            vi.mocked(fetch).mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ deleted: true }) } as Response);
+
+            await deleteShare('abcd1234', 'secret-token');
+
+            const [url, init] = vi.mocked(fetch).mock.calls[0];
+            expect(url).toContain('/api/share/abcd1234');
+            expect(init?.method).toBe('DELETE');
+            expect((init?.headers as Record<string, string>).Authorization).toBe('Bearer secret-token');
+        });
+
+        it('should treat an already-deleted share as success', async () => {
+            vi.mocked(fetch).mockResolvedValueOnce({ ok: false, status: 404, json: async () => ({}) } as Response);
+            await expect(deleteShare('abcd1234', 'secret-token')).resolves.toBeUndefined();
+        });
+
+        it('should throw when the token is rejected', async () => {
+            vi.mocked(fetch).mockResolvedValueOnce({
+                ok: false,
+                status: 403,
+                json: async () => ({ error: 'Invalid or missing edit token' }),
+            } as Response);
+            await expect(deleteShare('abcd1234', 'bad')).rejects.toThrow('Invalid or missing edit token');
+        });
+    });
+
+    describe('share revisions', () => {
+        it('should request a specific revision when rev is given', async () => {
+            vi.mocked(fetch).mockResolvedValueOnce({
+                ok: true,
+                status: 200,
+                json: async () => ({ data: { v: 1, c: [] }, expiresAt: 1, rev: 3 }),
+            } as Response);
+
+            await loadShare('abcd1234', 3);
+
+            expect(vi.mocked(fetch).mock.calls[0][0]).toContain('rev=3');
+        });
+
+        it('should list revisions', async () => {
+            vi.mocked(fetch).mockResolvedValueOnce({
+                ok: true,
+                status: 200,
+                json: async () => ({ revisions: [{ rev: 2, createdAt: 2, size: 10 }, { rev: 1, createdAt: 1, size: 9 }] }),
+            } as Response);
+
+            const revisions = await listShareRevisions('abcd1234');
+
+            expect(vi.mocked(fetch).mock.calls[0][0]).toContain('/api/share/abcd1234/revisions');
+            expect(revisions.map(r => r.rev)).toEqual([2, 1]);
+        });
+
+        it('should report a missing share when listing revisions', async () => {
+            vi.mocked(fetch).mockResolvedValueOnce({ ok: false, status: 404, json: async () => ({}) } as Response);
+            await expect(listShareRevisions('gone')).rejects.toThrow('Share not found or expired');
+        });
+    });
+
+    describe('diffShareData', () => {
+        const snapshot = (c: ShareData['c'], extra: Partial<ShareData> = {}): ShareData => ({ v: 1, c, ...extra });
+
+        it('should report added and removed copies with multiplicity', () => {
+            const older = snapshot([
+                ['s', 'cmm/1', 0, null, null, 'Sol Ring'],
+                ['s', 'cmm/1', 1, null, null, 'Sol Ring'],
+                ['m', 'mpc-1', 2, null, null, 'Forest'],
+            ]);
+            const newer = snapshot([
+                ['s', 'cmm/1', 0, null, null, 'Sol Ring'],
+                ['s', 'cmm/1', 1, null, null, 'Sol Ring'],
+                ['s', 'cmm/1', 2, null, null, 'Sol Ring'],
+            ]);
+
+            const diff = diffShareData(older, newer);
+
+            expect(diff.added).toEqual([{ key: 's:cmm/1', name: 'Sol Ring', count: 1 }]);
+            expect(diff.removed).toEqual([{ key: 'm:mpc-1', name: 'Forest', count: 1 }]);
+            expect(diff.changed).toEqual([]);
+            expect(diff.settingsChanged).toBe(false);
+        });
+
+        it('should report copies whose overrides or category changed', () => {
+            const older = snapshot([['s', 'cmm/1', 0, null, null, 'Sol Ring']], { st: { c: 3 } });
+            const newer = snapshot([['s', 'cmm/1', 0, 'Ramp', { br: 10 }, 'Sol Ring']], { st: { c: 4 } });
+
+            const diff = diffShareData(older, newer);
+
+            expect(diff.changed).toEqual([{ key: 's:cmm/1', name: 'Sol Ring', count: 1 }]);
+            expect(diff.added).toEqual([]);
+            expect(diff.settingsChanged).toBe(true);
+        });
+
+        it('should ignore reordering and DFC back faces', () => {
+            const older = snapshot(
+                [['s', 'a/1', 0, null, null, 'A'], ['s', 'b/1', 1, null, null, 'B'], ['b', 'cardback_x', 0, null, null]],
+                { dfc: [[0, 2]] }
+            );
+            const newer = snapshot(
+                [['s', 'b/1', 0, null, null, 'B'], ['s', 'a/1', 1, null, null, 'A'], ['b', 'cardback_y', 1, null, null]],
+                { dfc: [[1, 2]] }
+            );
+
+            const diff = diffShareData(older, newer);
+
+            expect(diff.added).toEqual([]);
+            expect(diff.removed).toEqual([]);
+            expect(diff.changed).toEqual([]);
+        });
+    });
 });
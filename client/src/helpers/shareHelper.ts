@@ -6,6 +6,7 @@
  */
 
 import { API_BASE } from '../constants';
+import { db } from '../db';
 import type { CardOption, CardOverrides } from '@/types';
 import { extractMpcIdentifierFromImageId } from './mpcAutofillApi';
 import { inferImageSource } from './imageSourceUtils';
@@ -36,6 +37,10 @@ export interface ShareSettings {
     c?: number;    // columns
     r?: number;    // rows
     dpi?: number;  // dpi
+    csp?: string;  // cardSizePreset
+    cW?: number;   // cardWidthMm
+    cH?: number;   // cardHeightMm
+    cR?: number;   // cardCornerRadiusMm
 
     // Bleed
     bl?: boolean;  // bleedEdge
@@ -63,6 +68,7 @@ export interface ShareSettings {
     cls?: string;  // cutLineStyle
     rm?: string;   // registrationMarks
     rmp?: boolean; // registrationMarksPortrait
+    cp?: string;   // cutterProfile
     dci?: string;  // defaultCardbackId
 
     // Spacing/Position
@@ -89,6 +95,8 @@ export interface ShareSettings {
     fcat?: string[]; // filterCategories
     ffeat?: string[]; // filterFeatures
     fmt?: string;  // filterMatchType
+    lf?: string;   // legalityFormat
+    flg?: string;  // filterLegality
 
     // Export
     em?: string;   // exportMode
@@ -101,6 +109,10 @@ export interface SettingsInput {
     columns?: number;
     rows?: number;
     dpi?: number;
+    cardSizePreset?: string;
+    cardWidthMm?: number;
+    cardHeightMm?: number;
+    cardCornerRadiusMm?: number;
     bleedEdge?: boolean;
     bleedEdgeWidth?: number;
     withBleedSourceAmount?: number;
@@ -122,6 +134,7 @@ export interface SettingsInput {
     cutLineStyle?: string;
     registrationMarks?: string;
     registrationMarksPortrait?: boolean;
+    cutterProfile?: string;
     defaultCardbackId?: string;
     cardSpacingMm?: number;
     cardPositionX?: number;
@@ -142,6 +155,8 @@ export interface SettingsInput {
     filterCategories?: string[];
     filterFeatures?: string[];
     filterMatchType?: string;
+    legalityFormat?: string;
+    filterLegality?: string;
     exportMode?: string;
     decklistSortAlpha?: boolean;
 }
@@ -150,11 +165,35 @@ export interface SettingsInput {
 interface CreateShareResponse {
     id: string;
     expiresAt: number;
+    editToken?: string;  // Only present when the server issued a new token
 }
 
 interface LoadShareResponse {
     data: ShareData;
     expiresAt: number;
+    rev?: number;
+}
+
+/** A stored snapshot of a share, newest first from the server */
+export interface ShareRevision {
+    rev: number;
+    createdAt: number;
+    size: number;  // Compressed payload size in bytes
+}
+
+/** One card identity that differs between two share snapshots */
+export interface ShareDiffEntry {
+    key: string;          // `${type}:${id}`
+    name: string;
+    count: number;        // Number of copies added/removed/changed
+}
+
+/** Card-level difference between two share snapshots */
+export interface ShareDiff {
+    added: ShareDiffEntry[];
+    removed: ShareDiffEntry[];
+    changed: ShareDiffEntry[];   // Same card, different category/overrides/art
+    settingsChanged: boolean;
 }
 
 // ============================================================================
@@ -211,6 +250,14 @@ const OVERRIDE_KEY_MAP: Record<string, string> = {
     shadowsIntensity: 'si',
     midtonesIntensity: 'mi',
     highlightsIntensity: 'hi',
+    toneCurve: 'tcv',
+    toneLut: 'tl',
+    artScale: 'as',
+    artOffsetX: 'ax',
+    artOffsetY: 'ay',
+    artRotation: 'ar',
+    artFlipX: 'afx',
+    artFlipY: 'afy',
 };
 
 const OVERRIDE_KEY_REVERSE = Object.fromEntries(
@@ -364,6 +411,10 @@ export function serializeSettings(settings: SettingsInput): ShareSettings {
     if (settings.columns !== undefined) result.c = settings.columns;
     if (settings.rows !== undefined) result.r = settings.rows;
     if (settings.dpi !== undefined) result.dpi = settings.dpi;
+    if (settings.cardSizePreset) result.csp = settings.cardSizePreset;
+    if (settings.cardWidthMm !== undefined) result.cW = settings.cardWidthMm;
+    if (settings.cardHeightMm !== undefined) result.cH = settings.cardHeightMm;
+    if (settings.cardCornerRadiusMm !== undefined) result.cR = settings.cardCornerRadiusMm;
 
     // Bleed
     if (settings.bleedEdge !== undefined) result.bl = settings.bleedEdge;
@@ -389,6 +440,9 @@ export function serializeSettings(settings: SettingsInput): ShareSettings {
     if (settings.guidePlacement) result.gp = settings.guidePlacement;
     if (settings.cutGuideLengthMm !== undefined) result.cgL = settings.cutGuideLengthMm;
     if (settings.cutLineStyle) result.cls = settings.cutLineStyle;
+    if (settings.registrationMarks) result.rm = settings.registrationMarks;
+    if (settings.registrationMarksPortrait !== undefined) result.rmp = settings.registrationMarksPortrait;
+    if (settings.cutterProfile) result.cp = settings.cutterProfile;
 
     // Spacing/Position
     if (settings.cardSpacingMm !== undefined) result.spc = settings.cardSpacingMm;
@@ -414,6 +468,8 @@ export function serializeSettings(settings: SettingsInput): ShareSettings {
     if (settings.filterCategories?.length) result.fcat = settings.filterCategories;
     if (settings.filterFeatures?.length) result.ffeat = settings.filterFeatures;
     if (settings.filterMatchType) result.fmt = settings.filterMatchType;
+    if (settings.legalityFormat) result.lf = settings.legalityFormat;
+    if (settings.filterLegality && settings.filterLegality !== "all") result.flg = settings.filterLegality;
 
     // Export
     if (settings.exportMode) result.em = settings.exportMode;
@@ -434,7 +490,9 @@ import { sortCards } from './dbUtils';
 
 /**
  * Create a share on the server and return the share URL
- * Uses projectId for stable share links - same project = same link
+ * Uses projectId for stable share links - same project = same link.
+ * The project's stored edit token is sent to prove ownership of an existing share,
+ * and any newly issued token is persisted back onto the Project record.
  */
 export async function createShare(
     cards: CardOption[],
@@ -464,19 +522,28 @@ export async function createShare(
         shareData.skipped = skipped;
     }
 
+    const editToken = projectId ? (await db.projects.get(projectId))?.shareEditToken : undefined;
+
     const response = await fetch(`${API_BASE}/api/share`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ data: shareData, projectId }),
+        body: JSON.stringify({ data: shareData, projectId, editToken }),
     });
 
     if (!response.ok) {
+        if (response.status === 403) {
+            throw new Error('This share link belongs to another copy of the project and cannot be updated');
+        }
         const error = await response.json().catch(() => ({ error: 'Failed to create share' }));
         throw new Error(error.error || 'Failed to create share');
     }
 
     const result: CreateShareResponse = await response.json();
 
+    if (projectId && result.editToken) {
+        await db.projects.update(projectId, { shareEditToken: result.editToken });
+    }
+
     // Generate the share URL
     const baseUrl = window.location.origin + window.location.pathname;
     const url = `${baseUrl}?share=${result.id}`;
@@ -485,10 +552,28 @@ export async function createShare(
 }
 
 /**
- * Load a share from the server
+ * Delete a share from the server using its edit token
  */
-export async function loadShare(id: string): Promise<ShareData> {
-    const response = await fetch(`${API_BASE}/api/share/${id}?t=${Date.now()}`);
+export async function deleteShare(id: string, editToken: string): Promise<void> {
+    const response = await fetch(`${API_BASE}/api/share/${id}`, {
+        method: 'DELETE',
+        headers: { Authorization: `Bearer ${editToken}` },
+    });
+
+    // Already gone (expired or deleted elsewhere) counts as success
+    if (!response.ok && response.status !== 404) {
+        const error = await response.json().catch(() => ({ error: 'Failed to delete share' }));
+        throw new Error(error.error || 'Failed to delete share');
+    }
+}
+
+/**
+ * Load a share from the server.
+ * Pass `rev` to load a specific historical revision instead of the latest.
+ */
+export async function loadShare(id: string, rev?: number): Promise<ShareData> {
+    const revParam = rev !== undefined ? `&rev=${rev}` : '';
+    const response = await fetch(`${API_BASE}/api/share/${id}?t=${Date.now()}${revParam}`);
 
     if (!response.ok) {
         if (response.status === 404) {
@@ -502,6 +587,81 @@ export async function loadShare(id: string): Promise<ShareData> {
     return result.data;
 }
 
+/**
+ * List the stored revisions of a share, newest first
+ */
+export async function listShareRevisions(id: string): Promise<ShareRevision[]> {
+    const response = await fetch(`${API_BASE}/api/share/${id}/revisions?t=${Date.now()}`);
+
+    if (!response.ok) {
+        if (response.status === 404) {
+            throw new Error('Share not found or expired');
+        }
+        const error = await response.json().catch(() => ({ error: 'Failed to load share history' }));
+        throw new Error(error.error || 'Failed to load share history');
+    }
+
+    const result: { revisions: ShareRevision[] } = await response.json();
+    return result.revisions;
+}
+
+/**
+ * Compare two share snapshots card by card.
+ * Cards are matched by identity (source + id) with multiplicity, so going from
+ * 2x to 3x of a card reports one added copy. Matched copies whose category,
+ * overrides or exact art differ are reported as changed.
+ */
+export function diffShareData(older: ShareData, newer: ShareData): ShareDiff {
+    const group = (data: ShareData) => {
+        // Back faces are part of their front's identity, not standalone cards
+        const backIndices = new Set((data.dfc || []).map(([, back]) => back));
+        const groups = new Map<string, { name: string; details: string[] }>();
+        data.c.forEach(([type, id, , category, overrides, name, imageId], index) => {
+            if (backIndices.has(index)) return;
+            const key = `${type}:${id}`;
+            const entry = groups.get(key) ?? { name: name || id, details: [] };
+            entry.details.push(JSON.stringify([category, overrides, imageId ?? null]));
+            groups.set(key, entry);
+        });
+        return groups;
+    };
+
+    const before = group(older);
+    const after = group(newer);
+    const diff: ShareDiff = {
+        added: [],
+        removed: [],
+        changed: [],
+        settingsChanged: JSON.stringify(older.st ?? {}) !== JSON.stringify(newer.st ?? {}),
+    };
+
+    for (const [key, { name, details }] of after) {
+        const previous = before.get(key)?.details ?? [];
+        const addedCount = Math.max(0, details.length - previous.length);
+        if (addedCount > 0) diff.added.push({ key, name, count: addedCount });
+
+        // Pair up identical copies first; unmatched copies beyond the added ones were edited
+        const remaining = [...previous];
+        let unmatched = 0;
+        for (const detail of details) {
+            const match = remaining.indexOf(detail);
+            if (match >= 0) remaining.splice(match, 1);
+            else unmatched++;
+        }
+        const changed = unmatched - addedCount;
+        if (changed > 0) diff.changed.push({ key, name, count: changed });
+    }
+
+    for (const [key, { name, details }] of before) {
+        const nextCount = after.get(key)?.details.length ?? 0;
+        if (details.length > nextCount) {
+            diff.removed.push({ key, name, count: details.length - nextCount });
+        }
+    }
+
+    return diff;
+}
+
 /**
  * Get warnings about the share (e.g., upload library items being excluded)
  * Only warns about actual user uploads, not placeholder cards
@@ -1,10 +1,12 @@
 
-import type { CardOption } from "../../../shared/types";
+import type { CardLegality, CardOption } from "../../../shared/types";
 import { extractCardInfo } from "./cardInfoHelper";
 
 export type FilterMatchType = "partial" | "exact";
-export type SortBy = "manual" | "name" | "type" | "cmc" | "color" | "rarity";
+export type SortBy = "manual" | "name" | "type" | "cmc" | "color" | "rarity" | "price_usd" | "price_eur";
 export type SortOrder = "asc" | "desc";
+export type LegalityFilter = "all" | "legal" | "not_legal";
+export type PriceCurrency = "usd" | "eur";
 
 export interface FilterCriteria {
     manaCost: number[];
@@ -19,6 +21,19 @@ export interface SortCriteria {
     order: SortOrder;
 }
 
+/** Formats offered by the legality filter, keyed by Scryfall's format id */
+export const LEGALITY_FORMATS: { id: string; label: string }[] = [
+    { id: "commander", label: "Commander" },
+    { id: "standard", label: "Standard" },
+    { id: "pioneer", label: "Pioneer" },
+    { id: "modern", label: "Modern" },
+    { id: "legacy", label: "Legacy" },
+    { id: "vintage", label: "Vintage" },
+    { id: "pauper", label: "Pauper" },
+    { id: "brawl", label: "Brawl" },
+    { id: "oathbreaker", label: "Oathbreaker" },
+];
+
 // Constants
 const COLOR_ORDER: string[] = ['g', 'u', 'r', 'w', 'b', 'c'];
 const WUBRG_ORDER: Record<string, number> = { w: 1, u: 2, b: 3, r: 4, g: 5 };
@@ -86,6 +101,10 @@ export function sortCards(cards: CardOption[], criteria: SortCriteria): CardOpti
             case "rarity":
                 comparison = getRarityValue(a) - getRarityValue(b);
                 break;
+            case "price_usd":
+            case "price_eur":
+                comparison = comparePrices(a, b, criteria.by === "price_usd" ? "usd" : "eur");
+                break;
             default:
                 comparison = a.order - b.order;
         }
@@ -139,6 +158,73 @@ export function extractAvailableFilters(cards: CardOption[]) {
     };
 }
 
+/**
+ * Price of a single copy in the given currency. Falls back to the foil price
+ * for foil-only printings; undefined when Scryfall has no price.
+ */
+export function getCardPrice(card: CardOption, currency: PriceCurrency): number | undefined {
+    const prices = card.prices;
+    if (!prices) return undefined;
+    return currency === "usd" ? prices.usd ?? prices.usd_foil : prices.eur ?? prices.eur_foil;
+}
+
+/**
+ * Legality of a card in a format. Restricted cards are playable, so they
+ * count as legal. Returns undefined when the legalities are unknown
+ * (custom uploads, cards imported before legalities were stored).
+ */
+export function isLegalIn(card: CardOption, format: string): boolean | undefined {
+    const status: CardLegality | undefined = card.legalities?.[format];
+    if (!status) return undefined;
+    return status === "legal" || status === "restricted";
+}
+
+/**
+ * Whether a card passes the legality filter. Cards with unknown legality
+ * only show up under "all", so the "legal" view never hides a problem.
+ */
+export function matchesLegality(card: CardOption, format: string, filter: LegalityFilter): boolean {
+    if (filter === "all") return true;
+    const legal = isLegalIn(card, format);
+    if (legal === undefined) return false;
+    return filter === "legal" ? legal : !legal;
+}
+
+export interface ProjectSummary {
+    totalUsd: number;
+    totalEur: number;
+    /** Cards with no price in either currency */
+    unpriced: number;
+    /** Cards known to be not legal in the chosen format */
+    notLegal: number;
+    /** Cards whose legality is unknown */
+    unknownLegality: number;
+}
+
+/**
+ * Cost and legality totals for a project. Only front faces count (a DFC is
+ * one card), and tokens are skipped since they are never part of the deck.
+ */
+export function summarizeProject(cards: CardOption[], format: string): ProjectSummary {
+    const summary: ProjectSummary = { totalUsd: 0, totalEur: 0, unpriced: 0, notLegal: 0, unknownLegality: 0 };
+
+    for (const card of cards) {
+        if (card.linkedFrontId || card.isToken) continue;
+
+        const usd = getCardPrice(card, "usd");
+        const eur = getCardPrice(card, "eur");
+        if (usd === undefined && eur === undefined) summary.unpriced++;
+        summary.totalUsd += usd ?? 0;
+        summary.totalEur += eur ?? 0;
+
+        const legal = isLegalIn(card, format);
+        if (legal === undefined) summary.unknownLegality++;
+        else if (!legal) summary.notLegal++;
+    }
+
+    return summary;
+}
+
 // --- Helpers ---
 
 function getSortableType(typeLine: string = "") {
@@ -186,6 +272,13 @@ export function getCardTypes(typeLine: string | undefined): string[] {
     return types;
 }
 
+function comparePrices(a: CardOption, b: CardOption, currency: PriceCurrency): number {
+    const priceA = getCardPrice(a, currency);
+    const priceB = getCardPrice(b, currency);
+    // Unpriced cards sort as free
+    return (priceA ?? 0) - (priceB ?? 0);
+}
+
 function compareColors(a: CardOption, b: CardOption): number {
     // Primary Sort: Color (WUBRG order)
     const primaryColorA = getPrimaryColor(a.colors);
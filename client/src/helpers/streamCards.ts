@@ -573,6 +573,8 @@ export async function streamCards(options: StreamCardsOptions): Promise<StreamCa
                                     type_line: cardData.type_line,
                                     rarity: cardData.rarity,
                                     mana_cost: cardData.mana_cost,
+                                    prices: cardData.prices,
+                                    legalities: cardData.legalities,
                                     token_parts: cardData.token_parts,
                                     needs_token: cardData.needs_token,
                                     isToken: cardData.isToken,
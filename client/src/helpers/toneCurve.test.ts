@@ -0,0 +1,120 @@
+import { describe, it, expect } from "vitest";
+import type { ToneChannelSettings } from "../../../shared/types";
+import {
+    DEFAULT_TONE_CHANNEL,
+    buildToneLut,
+    computeAutoLevels,
+    createCurve,
+    createToneChannelMap,
+    decodeToneLut,
+    encodeToneLut,
+    getToneLut,
+    hasToneCurve,
+} from "./toneCurve";
+import { computeChannelHistograms } from "./imageHistogram";
+
+const channel = (patch: Partial<ToneChannelSettings>): ToneChannelSettings => ({ ...DEFAULT_TONE_CHANNEL, ...patch });
+
+describe("toneCurve", () => {
+    describe("hasToneCurve", () => {
+        it("should be false for missing or default channels", () => {
+            expect(hasToneCurve(undefined)).toBe(false);
+            expect(hasToneCurve({})).toBe(false);
+            expect(hasToneCurve({ master: channel({}), red: channel({ points: [[0, 0], [128, 128], [255, 255]] }) })).toBe(false);
+        });
+
+        it("should be true when any channel changes values", () => {
+            expect(hasToneCurve({ green: channel({ inWhite: 200 }) })).toBe(true);
+            expect(hasToneCurve({ master: channel({ points: [[0, 0], [128, 160], [255, 255]] }) })).toBe(true);
+        });
+    });
+
+    describe("createCurve", () => {
+        it("should pass through the control points", () => {
+            const curve = createCurve([[0, 0], [64, 100], [192, 200], [255, 255]]);
+            expect(curve(64)).toBeCloseTo(100, 5);
+            expect(curve(192)).toBeCloseTo(200, 5);
+        });
+
+        it("should stay monotonic between increasing points", () => {
+            const curve = createCurve([[0, 0], [100, 200], [110, 205], [255, 255]]);
+            let previous = -1;
+            for (let x = 0; x <= 255; x++) {
+                const y = curve(x);
+                expect(y).toBeGreaterThanOrEqual(previous);
+                previous = y;
+            }
+        });
+
+        it("should hold the end values outside the points", () => {
+            const curve = createCurve([[20, 30], [230, 240]]);
+            expect(curve(0)).toBe(30);
+            expect(curve(255)).toBe(240);
+        });
+    });
+
+    it("should apply input levels, gamma and output levels", () => {
+        const map = createToneChannelMap(channel({ inBlack: 50, inWhite: 150, outBlack: 10, outWhite: 210 }));
+        expect(map(40)).toBeCloseTo(10, 5);
+        expect(map(100)).toBeCloseTo(110, 5);
+        expect(map(200)).toBeCloseTo(210, 5);
+
+        const brighter = createToneChannelMap(channel({ gamma: 2 }));
+        expect(brighter(64)).toBeGreaterThan(64);
+    });
+
+    it("should apply color channels before the master channel", () => {
+        const lut = buildToneLut({
+            red: channel({ outBlack: 100 }),
+            master: channel({ points: [[0, 0], [100, 50], [255, 255]] }),
+        });
+        // Red 0 -> 100 (red levels) -> 50 (master curve)
+        expect(lut[0]).toBe(50);
+        // Green untouched by red
+        expect(lut[1]).toBe(0);
+        expect(lut[255 * 3 + 2]).toBe(255);
+    });
+
+    describe("encoding", () => {
+        it("should round-trip into RGBA texture rows", () => {
+            const lut = buildToneLut({ blue: channel({ inWhite: 128 }) });
+            const rgba = decodeToneLut(encodeToneLut(lut));
+
+            expect(rgba).toHaveLength(256 * 4);
+            expect(rgba![64 * 4]).toBe(lut[64 * 3]);
+            expect(rgba![64 * 4 + 2]).toBe(lut[64 * 3 + 2]);
+            expect(rgba![64 * 4 + 3]).toBe(255);
+        });
+
+        it("should be empty for an identity curve", () => {
+            expect(getToneLut({ master: channel({}) })).toBe("");
+        });
+
+        it("should reject malformed LUTs", () => {
+            expect(decodeToneLut("")).toBeNull();
+            expect(decodeToneLut("not base64!")).toBeNull();
+            expect(decodeToneLut(btoa("short"))).toBeNull();
+        });
+    });
+
+    describe("computeAutoLevels", () => {
+        it("should stretch each channel to its own range", () => {
+            // Red spans 40-200, green 10-250, blue is flat
+            const pixels = new Uint8ClampedArray(256 * 4);
+            for (let i = 0; i < 256; i++) {
+                pixels[i * 4] = 40 + Math.round((i / 255) * 160);
+                pixels[i * 4 + 1] = 10 + Math.round((i / 255) * 240);
+                pixels[i * 4 + 2] = 128;
+                pixels[i * 4 + 3] = 255;
+            }
+            const histograms = computeChannelHistograms(pixels, 4);
+
+            const curve = computeAutoLevels({ master: channel({ gamma: 1.5 }) }, histograms, 0);
+
+            expect(curve.red).toMatchObject({ inBlack: 40, inWhite: 200 });
+            expect(curve.green).toMatchObject({ inBlack: 10, inWhite: 250 });
+            expect(curve.blue).toBeUndefined();
+            expect(curve.master?.gamma).toBe(1.5);
+        });
+    });
+});
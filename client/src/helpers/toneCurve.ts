@@ -0,0 +1,232 @@
+/**
+ * Curves & Levels utilities
+ *
+ * The editor state (per-channel levels + curve control points) is baked into
+ * a 256-entry RGB lookup table. Only the LUT is used for rendering, so the
+ * Pixi preview, the effect worker and PDF export sample exactly the same data.
+ *
+ * Shared between:
+ * - Main thread (Card Editor, PixiJS AdjustmentFilter)
+ * - Web Workers (cardCanvasWorker)
+ */
+
+import type { ToneChannel, ToneChannelSettings, ToneCurve } from '../../../shared/types';
+import type { ChannelHistograms } from './imageHistogram';
+
+export const TONE_CHANNELS: ToneChannel[] = ['master', 'red', 'green', 'blue'];
+
+export const DEFAULT_TONE_CHANNEL: ToneChannelSettings = {
+    inBlack: 0,
+    inWhite: 255,
+    gamma: 1,
+    outBlack: 0,
+    outWhite: 255,
+    points: [[0, 0], [255, 255]],
+};
+
+/** Bytes in an encoded LUT: 256 entries x RGB */
+const LUT_SIZE = 256 * 3;
+
+/**
+ * Check if a channel leaves every value unchanged
+ */
+export function isIdentityToneChannel(channel?: ToneChannelSettings): boolean {
+    if (!channel) return true;
+    if (channel.inBlack !== 0 || channel.inWhite !== 255 || channel.gamma !== 1) return false;
+    if (channel.outBlack !== 0 || channel.outWhite !== 255) return false;
+    return channel.points.every(([x, y]) => x === y);
+}
+
+/**
+ * Check if the curve changes the image at all
+ */
+export function hasToneCurve(curve?: ToneCurve): boolean {
+    if (!curve) return false;
+    return TONE_CHANNELS.some((channel) => !isIdentityToneChannel(curve[channel]));
+}
+
+/**
+ * Build a smooth curve through the control points (monotone cubic, so the
+ * curve never overshoots between points). Values are 0-255.
+ */
+export function createCurve(points: [number, number][]): (x: number) => number {
+    // Sort and drop duplicate inputs (the last point wins)
+    const sorted = [...points].sort((a, b) => a[0] - b[0]);
+    const xs: number[] = [];
+    const ys: number[] = [];
+    for (const [x, y] of sorted) {
+        if (xs.length > 0 && xs[xs.length - 1] === x) {
+            ys[ys.length - 1] = y;
+        } else {
+            xs.push(x);
+            ys.push(y);
+        }
+    }
+
+    const n = xs.length;
+    if (n === 0) return (x) => x;
+    if (n === 1) return () => ys[0];
+
+    // Secant slopes and Fritsch-Carlson tangents
+    const secants: number[] = [];
+    for (let i = 0; i < n - 1; i++) {
+        secants.push((ys[i + 1] - ys[i]) / (xs[i + 1] - xs[i]));
+    }
+    const tangents: number[] = [secants[0]];
+    for (let i = 1; i < n - 1; i++) {
+        tangents.push(secants[i - 1] * secants[i] <= 0 ? 0 : (secants[i - 1] + secants[i]) / 2);
+    }
+    tangents.push(secants[n - 2]);
+    for (let i = 0; i < n - 1; i++) {
+        if (secants[i] === 0) {
+            tangents[i] = 0;
+            tangents[i + 1] = 0;
+            continue;
+        }
+        const a = tangents[i] / secants[i];
+        const b = tangents[i + 1] / secants[i];
+        const s = a * a + b * b;
+        if (s > 9) {
+            const t = 3 / Math.sqrt(s);
+            tangents[i] = t * a * secants[i];
+            tangents[i + 1] = t * b * secants[i];
+        }
+    }
+
+    return (x: number) => {
+        if (x <= xs[0]) return ys[0];
+        if (x >= xs[n - 1]) return ys[n - 1];
+
+        let k = 0;
+        while (x > xs[k + 1]) k++;
+
+        const h = xs[k + 1] - xs[k];
+        const t = (x - xs[k]) / h;
+        const t2 = t * t;
+        const t3 = t2 * t;
+        const y = (2 * t3 - 3 * t2 + 1) * ys[k]
+            + (t3 - 2 * t2 + t) * h * tangents[k]
+            + (-2 * t3 + 3 * t2) * ys[k + 1]
+            + (t3 - t2) * h * tangents[k + 1];
+        return Math.min(255, Math.max(0, y));
+    };
+}
+
+/**
+ * Build the mapping for one channel: input levels, then gamma, then output levels, then the curve
+ */
+export function createToneChannelMap(channel: ToneChannelSettings): (x: number) => number {
+    const curve = createCurve(channel.points);
+    const range = Math.max(1, channel.inWhite - channel.inBlack);
+    const gamma = Math.max(0.1, channel.gamma);
+
+    return (x: number) => {
+        let v = Math.min(1, Math.max(0, (x - channel.inBlack) / range));
+        v = Math.pow(v, 1 / gamma);
+        return curve(channel.outBlack + v * (channel.outWhite - channel.outBlack));
+    };
+}
+
+/**
+ * Bake the curve into a lookup table: 256 entries of [r, g, b].
+ * Each color channel is mapped by its own settings first, then by the master channel.
+ */
+export function buildToneLut(curve: ToneCurve): Uint8Array {
+    const lut = new Uint8Array(LUT_SIZE);
+    const master = createToneChannelMap(curve.master ?? DEFAULT_TONE_CHANNEL);
+    const channels = (['red', 'green', 'blue'] as const).map((id) =>
+        createToneChannelMap(curve[id] ?? DEFAULT_TONE_CHANNEL)
+    );
+
+    for (let i = 0; i < 256; i++) {
+        for (let c = 0; c < 3; c++) {
+            lut[i * 3 + c] = Math.round(master(channels[c](i)));
+        }
+    }
+    return lut;
+}
+
+/**
+ * Encode a LUT for storage in CardOverrides
+ */
+export function encodeToneLut(lut: Uint8Array): string {
+    let binary = '';
+    for (let i = 0; i < lut.length; i++) {
+        binary += String.fromCharCode(lut[i]);
+    }
+    return btoa(binary);
+}
+
+/**
+ * The encoded LUT for a curve, or an empty string when it changes nothing
+ */
+export function getToneLut(curve: ToneCurve): string {
+    return hasToneCurve(curve) ? encodeToneLut(buildToneLut(curve)) : '';
+}
+
+/**
+ * Decode a stored LUT into RGBA rows for a 256x1 texture.
+ * Returns null for a missing or malformed LUT.
+ */
+export function decodeToneLut(encoded?: string): Uint8Array | null {
+    if (!encoded) return null;
+
+    let binary: string;
+    try {
+        binary = atob(encoded);
+    } catch {
+        return null;
+    }
+    if (binary.length !== LUT_SIZE) return null;
+
+    const rgba = new Uint8Array(256 * 4);
+    for (let i = 0; i < 256; i++) {
+        rgba[i * 4] = binary.charCodeAt(i * 3);
+        rgba[i * 4 + 1] = binary.charCodeAt(i * 3 + 1);
+        rgba[i * 4 + 2] = binary.charCodeAt(i * 3 + 2);
+        rgba[i * 4 + 3] = 255;
+    }
+    return rgba;
+}
+
+/**
+ * Find the darkest and lightest values of a histogram, ignoring a small
+ * fraction of outlier pixels on each end.
+ */
+function findHistogramRange(histogram: Uint32Array, clipFraction: number): [number, number] {
+    const total = histogram.reduce((a, b) => a + b, 0);
+    const clip = total * clipFraction;
+
+    let low = 0;
+    for (let sum = 0; low < 255; low++) {
+        sum += histogram[low];
+        if (sum > clip) break;
+    }
+    let high = 255;
+    for (let sum = 0; high > 0; high--) {
+        sum += histogram[high];
+        if (sum > clip) break;
+    }
+    return [low, high];
+}
+
+/**
+ * Auto Levels: stretch each color channel so its darkest and lightest pixels
+ * reach black and white. Curve points and the master channel are kept.
+ *
+ * @param clipFraction - Share of pixels allowed to clip on each end (default 0.1%)
+ */
+export function computeAutoLevels(
+    curve: ToneCurve,
+    histograms: ChannelHistograms,
+    clipFraction: number = 0.001
+): ToneCurve {
+    const next: ToneCurve = { ...curve };
+    for (const id of ['red', 'green', 'blue'] as const) {
+        const [low, high] = findHistogramRange(histograms[id], clipFraction);
+        // Leave flat channels alone rather than blowing them up
+        if (high - low < 2) continue;
+        next[id] = { ...(curve[id] ?? DEFAULT_TONE_CHANNEL), inBlack: low, inWhite: high, gamma: 1 };
+    }
+    return next;
+}
@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { db } from "@/db";
+import type { CardOption } from "@/types";
+import { useSettingsStore } from "@/store/settings";
+import { useUndoRedoStore } from "@/store/undoRedo";
+import { applyUndoCommand, captureCards, createCardsCommand } from "./undoCommands";
+
+const front: CardOption = {
+    uuid: "front-1",
+    name: "Sol Ring",
+    order: 10,
+    imageId: "https://cards.scryfall.io/sol-ring.png",
+    isUserUpload: false,
+    linkedBackId: "back-1",
+    projectId: "p1",
+};
+
+const back: CardOption = {
+    uuid: "back-1",
+    name: "Default",
+    order: 10,
+    imageId: "cardback_builtin_mtg",
+    isUserUpload: false,
+    linkedFrontId: "front-1",
+    projectId: "p1",
+};
+
+describe("undoCommands", () => {
+    beforeEach(async () => {
+        await db.cards.clear();
+        await db.images.clear();
+        useUndoRedoStore.setState({ undoStack: [], redoStack: [], isPerformingAction: false, projectId: null });
+    });
+
+    describe("createCardsCommand", () => {
+        it("should drop cards that are identical before and after", () => {
+            const moved = { ...front, order: 20 };
+            const command = createCardsCommand([front, back], [moved, back]);
+
+            expect(command).toEqual({ kind: "cards", before: [front], after: [moved] });
+        });
+
+        it("should survive a JSON round trip", () => {
+            const command = createCardsCommand([], [front], { rebalance: true });
+            expect(JSON.parse(JSON.stringify(command))).toEqual(command);
+        });
+    });
+
+    describe("cards commands", () => {
+        it("should restore deleted cards on undo and delete them again on redo", async () => {
+            await db.images.add({ id: front.imageId!, refCount: 2 });
+            const command = createCardsCommand([front, back], []);
+
+            await applyUndoCommand(command, "undo");
+
+            expect((await captureCards(["front-1", "back-1"])).map(c => c.uuid)).toEqual(["front-1", "back-1"]);
+            expect((await db.images.get(front.imageId!))?.refCount).toBe(3);
+
+            await applyUndoCommand(command, "redo");
+
+            expect(await db.cards.count()).toBe(0);
+            expect((await db.images.get(front.imageId!))?.refCount).toBe(2);
+        });
+
+        it("should remove added cards on undo", async () => {
+            await db.cards.bulkAdd([front, back]);
+            await db.images.add({ id: front.imageId!, refCount: 1 });
+            const command = createCardsCommand([], [front, back]);
+
+            await applyUndoCommand(command, "undo");
+
+            expect(await db.cards.count()).toBe(0);
+            // Last reference gone - the cached image is dropped
+            expect(await db.images.get(front.imageId!)).toBeUndefined();
+        });
+
+        it("should swap image refs when the artwork differs", async () => {
+            const newArt = { ...front, imageId: "https://cards.scryfall.io/other.png" };
+            await db.cards.add(newArt);
+            await db.images.bulkAdd([
+                { id: front.imageId!, refCount: 1 },
+                { id: newArt.imageId!, refCount: 2 },
+            ]);
+
+            await applyUndoCommand(createCardsCommand([front], [newArt]), "undo");
+
+            expect((await db.cards.get("front-1"))?.imageId).toBe(front.imageId);
+            expect((await db.images.get(front.imageId!))?.refCount).toBe(2);
+            expect((await db.images.get(newArt.imageId!))?.refCount).toBe(1);
+        });
+
+        it("should invalidate generated bleed when bleed fields revert", async () => {
+            const changed = { ...front, bleedMode: "none" as const };
+            await db.cards.add(changed);
+            await db.images.add({ id: front.imageId!, refCount: 1, generatedBleedMode: "none" });
+
+            await applyUndoCommand(createCardsCommand([front], [changed]), "undo");
+
+            expect((await db.cards.get("front-1"))?.bleedMode).toBeUndefined();
+            expect((await db.images.get(front.imageId!))?.generatedBleedMode).toBeUndefined();
+        });
+    });
+
+    describe("settings commands", () => {
+        it("should apply a single setting through its setter", async () => {
+            useSettingsStore.getState().setColumns(4);
+
+            await applyUndoCommand({ kind: "setting", key: "columns", oldValue: 2, newValue: 4 }, "undo");
+            expect(useSettingsStore.getState().columns).toBe(2);
+
+            await applyUndoCommand({ kind: "setting", key: "columns", oldValue: 2, newValue: 4 }, "redo");
+            expect(useSettingsStore.getState().columns).toBe(4);
+        });
+
+        it("should apply several settings at once", async () => {
+            await applyUndoCommand({ kind: "settings", before: { rows: 2, columns: 2 }, after: { rows: 3, columns: 3 } }, "undo");
+
+            expect(useSettingsStore.getState().rows).toBe(2);
+            expect(useSettingsStore.getState().columns).toBe(2);
+        });
+    });
+});
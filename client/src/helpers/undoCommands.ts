@@ -0,0 +1,138 @@
+/**
+ * Runner for data-only undo commands.
+ * Commands only hold plain data (card snapshots, setting values), so they can be
+ * persisted with the project and replayed after a reload.
+ */
+
+import { db } from "@/db";
+import type { CardOption } from "@/types";
+import type { UndoCommand } from "@/store/undoRedo";
+import { useSettingsStore, type Store as SettingsStore } from "@/store/settings";
+import { modifyImageRefCount, rebalanceCardOrders } from "./dbUtils";
+import { isCardbackId } from "./cardbackLibrary";
+
+// Card fields that affect generated bleed; changing them invalidates the processed image
+const BLEED_FIELDS = ["hasBuiltInBleed", "bleedMode", "existingBleedMm", "generateBleedMm"] as const;
+
+/**
+ * Reads the current state of the given cards (missing cards are skipped).
+ */
+export async function captureCards(uuids: Iterable<string | undefined>): Promise<CardOption[]> {
+    const unique = [...new Set(uuids)].filter((id): id is string => !!id);
+    if (unique.length === 0) return [];
+    const cards = await db.cards.bulkGet(unique);
+    return cards.filter((c): c is CardOption => !!c);
+}
+
+/**
+ * Builds a cards command from before/after snapshots.
+ * Cards that are identical in both snapshots are dropped to keep persisted history small.
+ */
+export function createCardsCommand(
+    before: CardOption[],
+    after: CardOption[],
+    options?: { rebalance?: boolean }
+): UndoCommand {
+    const beforeById = new Map(before.map((c) => [c.uuid, JSON.stringify(c)]));
+    const unchanged = new Set(
+        after.filter((c) => beforeById.get(c.uuid) === JSON.stringify(c)).map((c) => c.uuid)
+    );
+
+    return {
+        kind: "cards",
+        before: before.filter((c) => !unchanged.has(c.uuid)),
+        after: after.filter((c) => !unchanged.has(c.uuid)),
+        ...(options?.rebalance ? { rebalance: true } : {}),
+    };
+}
+
+/**
+ * Moves the cards table from one snapshot to another:
+ * cards only in `from` are deleted, cards in `to` are written back verbatim.
+ * Image ref counts follow the imageId changes; missing images are left for
+ * useImageProcessing to rebuild lazily from the imageId.
+ */
+async function restoreCards(to: CardOption[], from: CardOption[], rebalance?: boolean): Promise<void> {
+    const targetIds = new Set(to.map((c) => c.uuid));
+    const removeIds = from.map((c) => c.uuid).filter((id) => !targetIds.has(id));
+
+    await db.transaction("rw", db.cards, db.images, db.cardbacks, async () => {
+        const current = await captureCards([...removeIds, ...targetIds]);
+        const currentById = new Map(current.map((c) => [c.uuid, c]));
+
+        const refDeltas = new Map<string, number>();
+        const adjustRef = (imageId: string | undefined, delta: number) => {
+            if (!imageId || isCardbackId(imageId)) return;
+            refDeltas.set(imageId, (refDeltas.get(imageId) ?? 0) + delta);
+        };
+        const invalidated = new Set<string>();
+
+        for (const id of removeIds) {
+            adjustRef(currentById.get(id)?.imageId, -1);
+        }
+        for (const card of to) {
+            const existing = currentById.get(card.uuid);
+            if (existing?.imageId !== card.imageId) {
+                adjustRef(existing?.imageId, -1);
+                adjustRef(card.imageId, 1);
+            }
+            if (existing && card.imageId && BLEED_FIELDS.some((f) => existing[f] !== card[f])) {
+                invalidated.add(card.imageId);
+            }
+        }
+
+        if (removeIds.length > 0) await db.cards.bulkDelete(removeIds);
+        if (to.length > 0) await db.cards.bulkPut(to);
+
+        for (const [imageId, delta] of refDeltas) {
+            if (delta !== 0) await modifyImageRefCount(imageId, delta);
+        }
+
+        for (const imageId of invalidated) {
+            const invalidation = { generatedBleedMode: undefined, generatedHasBuiltInBleed: undefined };
+            if (isCardbackId(imageId)) {
+                await db.cardbacks.update(imageId, invalidation);
+            } else {
+                await db.images.update(imageId, invalidation);
+            }
+        }
+    });
+
+    if (rebalance) {
+        const projectIds = new Set([...to, ...from].map((c) => c.projectId));
+        for (const projectId of projectIds) {
+            await rebalanceCardOrders(projectId);
+        }
+    }
+}
+
+function applySetting(key: string, value: unknown): void {
+    const state = useSettingsStore.getState();
+    const setter = state[`set${key.charAt(0).toUpperCase()}${key.slice(1)}` as keyof SettingsStore];
+    if (typeof setter === "function") {
+        (setter as (value: unknown) => void)(value);
+    } else {
+        useSettingsStore.setState({ [key]: value } as Partial<SettingsStore>);
+    }
+}
+
+/**
+ * Applies a command in reverse ("undo") or forward ("redo").
+ */
+export async function applyUndoCommand(command: UndoCommand, direction: "undo" | "redo"): Promise<void> {
+    const isUndo = direction === "undo";
+
+    switch (command.kind) {
+        case "cards":
+            await (isUndo
+                ? restoreCards(command.before, command.after, command.rebalance)
+                : restoreCards(command.after, command.before, command.rebalance));
+            break;
+        case "setting":
+            applySetting(command.key, isUndo ? command.oldValue : command.newValue);
+            break;
+        case "settings":
+            useSettingsStore.setState((isUndo ? command.before : command.after) as Partial<SettingsStore>);
+            break;
+    }
+}
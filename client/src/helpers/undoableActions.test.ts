@@ -5,9 +5,11 @@ import {
     undoableDeleteCard,
     undoableAddCards,
     undoableDuplicateCard,
+    undoableUpdateCardOverrides,
 } from "./undoableActions";
 import { db } from "@/db";
 import { addCards } from "./dbUtils";
+import { captureCards } from "./undoCommands";
 import type { CardOption } from "@/types";
 
 // Mock the database
@@ -22,6 +24,7 @@ vi.mock("@/db", () => ({
             bulkDelete: vi.fn(),
             bulkAdd: vi.fn(),
             bulkUpdate: vi.fn(),
+            bulkPut: vi.fn(),
             where: vi.fn(() => ({
                 equals: vi.fn(() => ({
                     first: vi.fn(),
@@ -68,6 +71,17 @@ vi.mock("./dbUtils", () => ({
     addRemoteImage: vi.fn(),
 }));
 
+// Mock snapshot helpers (the command runner itself is covered in undoCommands.test.ts)
+vi.mock("./undoCommands", () => ({
+    captureCards: vi.fn().mockResolvedValue([]),
+    createCardsCommand: vi.fn((before: CardOption[], after: CardOption[], options?: { rebalance?: boolean }) => ({
+        kind: "cards",
+        before,
+        after,
+        rebalance: options?.rebalance,
+    })),
+}));
+
 // Mock undoRedo store
 const mockPushAction = vi.fn();
 vi.mock("@/store/undoRedo", () => ({
@@ -115,15 +129,23 @@ describe("undoableActions", () => {
             );
         });
 
-        it("should include undo and redo functions in the action", async () => {
+        it("should record a data-only cards command with the old order", async () => {
             const mockCard = { uuid: "card-123", order: 0 };
             vi.mocked(db.cards.get).mockResolvedValue(mockCard as unknown as CardOption);
+            vi.mocked(captureCards)
+                .mockResolvedValueOnce([{ uuid: "card-123", order: 2 }] as unknown as CardOption[])
+                .mockResolvedValueOnce([{ uuid: "card-123", order: 2 }] as unknown as CardOption[]);
 
             await undoableReorderCards("card-123", 0, 2);
 
             const pushedAction = mockPushAction.mock.calls[0][0];
-            expect(typeof pushedAction.undo).toBe("function");
-            expect(typeof pushedAction.redo).toBe("function");
+            expect(pushedAction.command).toEqual({
+                kind: "cards",
+                before: [{ uuid: "card-123", order: 0 }],
+                after: [{ uuid: "card-123", order: 2 }],
+                rebalance: true,
+            });
+            expect(JSON.parse(JSON.stringify(pushedAction))).toEqual(pushedAction);
         });
     });
 
@@ -155,7 +177,7 @@ describe("undoableActions", () => {
             expect(mockPushAction).not.toHaveBeenCalled();
         });
 
-        it("should include undo and redo functions in the action", async () => {
+        it("should record a cards command instead of closures", async () => {
             const adjustments = [
                 { uuid: "card-1", oldOrder: 0, newOrder: 2 },
             ];
@@ -163,8 +185,8 @@ describe("undoableActions", () => {
             await undoableReorderMultipleCards(adjustments);
 
             const pushedAction = mockPushAction.mock.calls[0][0];
-            expect(typeof pushedAction.undo).toBe("function");
-            expect(typeof pushedAction.redo).toBe("function");
+            expect(pushedAction.command.kind).toBe("cards");
+            expect(pushedAction.undo).toBeUndefined();
         });
     });
     describe("undoableDeleteCard", () => {
@@ -224,4 +246,26 @@ describe("undoableActions", () => {
             );
         });
     });
+
+    describe("undoableUpdateCardOverrides", () => {
+        it("should replace the overrides and record the previous ones", async () => {
+            const card = { uuid: "a", name: "Forest", overrides: { brightness: 10 } } as unknown as CardOption;
+            vi.mocked(captureCards).mockResolvedValueOnce([card]);
+
+            const updated = await undoableUpdateCardOverrides(["a"], { gamma: 1.2 }, 'Apply look "Warm"');
+
+            expect(updated).toEqual([{ ...card, overrides: { gamma: 1.2 } }]);
+            expect(db.cards.bulkPut).toHaveBeenCalledWith(updated);
+            expect(mockPushAction).toHaveBeenCalledWith({
+                type: "UPDATE_OVERRIDES",
+                description: 'Apply look "Warm"',
+                command: expect.objectContaining({ before: [card], after: updated }),
+            });
+        });
+
+        it("should do nothing without cards", async () => {
+            expect(await undoableUpdateCardOverrides([], { gamma: 1.2 }, "x")).toEqual([]);
+            expect(mockPushAction).not.toHaveBeenCalled();
+        });
+    });
 });
@@ -1,58 +1,46 @@
 /**
  * Undoable action wrappers for database operations.
- * These wrappers capture the necessary state before performing operations
- * so that they can be undone/redone.
+ * These wrappers snapshot the affected cards before and after performing operations
+ * and record the difference as a data-only command, so it can be undone/redone
+ * (including after a reload).
  */
 
-import { db, type Image } from "@/db";
-import type { CardOption } from "../../../shared/types";
+import { db } from "@/db";
+import type { CardOption, CardOverrides } from "../../../shared/types";
 import {
     deleteCard,
     duplicateCard,
     addCards,
-    addRemoteImage,
     changeCardArtwork,
-    rebalanceCardOrders,
-    createLinkedBackCard,
     createLinkedBackCardsBulk,
-    modifyImageRefCount,
 } from "./dbUtils";
 import { useUndoRedoStore } from "@/store/undoRedo";
-import { useProjectStore } from "@/store/projectStore";
 import { useSettingsStore } from "@/store/settings";
 import { BUILTIN_CARDBACKS, isCardbackId } from "./cardbackLibrary";
+import { captureCards, createCardsCommand } from "./undoCommands";
 
 /**
  * Deletes a card with undo support.
  * Captures the full card data before deletion for restoration on undo.
  */
 export async function undoableDeleteCard(uuid: string): Promise<void> {
-    // Capture the card and its image data before deletion
+    // Capture the card and its DFC partner before deletion
     const card = await db.cards.get(uuid);
     if (!card) return;
 
-    let imageData: Image | undefined;
-    if (card.imageId) {
-        imageData = await db.images.get(card.imageId);
-    }
+    const affectedUuids = [card.uuid, card.linkedBackId, card.linkedFrontId];
+    const before = await captureCards(affectedUuids);
 
     // Perform the deletion
     await deleteCard(uuid);
 
+    const after = await captureCards(affectedUuids);
+
     // Record the action for undo
     useUndoRedoStore.getState().pushAction({
         type: "DELETE_CARD",
         description: `Delete "${card.name}"`,
-        undo: async () => {
-            // Restore the card
-            await db.cards.add(card);
-            if (card.imageId && imageData) {
-                await modifyImageRefCount(card.imageId, 1, imageData);
-            }
-        },
-        redo: async () => {
-            await deleteCard(card.uuid);
-        },
+        command: createCardsCommand(before, after),
     });
 }
 
@@ -83,15 +71,14 @@ export async function undoableDeleteCardsBatch(uuids: string[]): Promise<void> {
         }
     }
 
-    // Capture image data for UNDO (restoration)
-    const cardImageData: Map<string, { card: CardOption; imageData?: Image }> = new Map();
+    // Snapshot everything that changes: the deleted cards plus surviving fronts whose back is removed
+    const affectedUuids = [...idsToDelete];
     for (const card of allCardsToDelete.values()) {
-        let imageData: Image | undefined;
-        if (card.imageId) {
-            imageData = await db.images.get(card.imageId);
+        if (card.linkedFrontId && !idsToDelete.has(card.linkedFrontId)) {
+            affectedUuids.push(card.linkedFrontId);
         }
-        cardImageData.set(card.uuid, { card, imageData });
     }
+    const before = await captureCards(affectedUuids);
 
     // Perform bulk deletion
     await db.transaction("rw", db.cards, db.images, db.cardbacks, async () => {
@@ -148,98 +135,13 @@ export async function undoableDeleteCardsBatch(uuids: string[]): Promise<void> {
         ? `Delete "${validCards[0].name}"`
         : `Delete ${validCards.length} cards`;
 
+    const after = await captureCards(affectedUuids);
+
     // Record the batch action for undo
     useUndoRedoStore.getState().pushAction({
         type: "DELETE_CARDS_BATCH",
         description,
-        undo: async () => {
-            // Restore all cards
-            const cardsToRestore = Array.from(cardImageData.values()).map(x => x.card);
-
-            // We need to restore image refs
-            const imageRefIncrements = new Map<string, { count: number, data?: Image }>();
-
-            for (const { card, imageData } of cardImageData.values()) {
-                if (card.imageId && !isCardbackId(card.imageId)) {
-                    const entry = imageRefIncrements.get(card.imageId) || { count: 0, data: imageData };
-                    entry.count++;
-                    imageRefIncrements.set(card.imageId, entry);
-                }
-            }
-
-            await db.transaction("rw", db.cards, db.images, db.cardbacks, async () => {
-                await db.cards.bulkAdd(cardsToRestore);
-
-                // Restore images (add back if deleted, increment if exists)
-                const imageIds = Array.from(imageRefIncrements.keys());
-                const existingImages = await db.images.bulkGet(imageIds);
-
-                const imageUpdates: { key: string; changes: { refCount: number } }[] = [];
-                const imagesToAdd: Image[] = [];
-
-                for (let i = 0; i < imageIds.length; i++) {
-                    const id = imageIds[i];
-                    const existing = existingImages[i];
-                    const { count, data } = imageRefIncrements.get(id)!;
-
-                    if (existing) {
-                        imageUpdates.push({ key: id, changes: { refCount: existing.refCount + count } });
-                    } else if (data) {
-                        // Restore deleted image
-                        imagesToAdd.push({ ...data, refCount: count });
-                    }
-                }
-
-                if (imageUpdates.length > 0) await db.images.bulkUpdate(imageUpdates);
-                if (imagesToAdd.length > 0) await db.images.bulkAdd(imagesToAdd);
-            });
-        },
-        redo: async () => {
-            await db.transaction("rw", db.cards, db.images, db.cardbacks, async () => {
-                // Re-calculate image ref decrements from the captured 'cardImageData' to be robust
-                const imageRefDecrements = new Map<string, number>();
-                for (const { card } of cardImageData.values()) {
-                    if (card.imageId && !isCardbackId(card.imageId)) {
-                        imageRefDecrements.set(card.imageId, (imageRefDecrements.get(card.imageId) || 0) + 1);
-                    }
-                }
-
-                // Clear back links
-                const backCards = Array.from(allCardsToDelete.values()).filter(c => c.linkedFrontId);
-                for (const back of backCards) {
-                    // Check if front is still there and not in our delete list (it shouldn't be in delete list if it wasn't before)
-                    const front = await db.cards.get(back.linkedFrontId!);
-                    if (front && !idsToDelete.has(front.uuid)) {
-                        await db.cards.update(front.uuid, { linkedBackId: undefined });
-                    }
-                }
-
-                await db.cards.bulkDelete(Array.from(idsToDelete));
-
-                // Update images
-                if (imageRefDecrements.size > 0) {
-                    const imageIds = Array.from(imageRefDecrements.keys());
-                    const images = await db.images.bulkGet(imageIds);
-                    const imageUpdates: { key: string; changes: { refCount: number } }[] = [];
-                    const imagesToDelete: string[] = [];
-
-                    for (let i = 0; i < imageIds.length; i++) {
-                        const image = images[i];
-                        if (image) {
-                            const decrement = imageRefDecrements.get(imageIds[i]) || 0;
-                            const newRefCount = image.refCount - decrement;
-                            if (newRefCount > 0) {
-                                imageUpdates.push({ key: imageIds[i], changes: { refCount: newRefCount } });
-                            } else {
-                                imagesToDelete.push(imageIds[i]);
-                            }
-                        }
-                    }
-                    if (imageUpdates.length > 0) await db.images.bulkUpdate(imageUpdates);
-                    if (imagesToDelete.length > 0) await db.images.bulkDelete(imagesToDelete);
-                }
-            });
-        },
+        command: createCardsCommand(before, after),
     });
 }
 
@@ -268,18 +170,13 @@ export async function undoableDuplicateCard(uuid: string): Promise<string | unde
         return undefined;
     }
 
+    const after = await captureCards([newCard.uuid, newCard.linkedBackId]);
+
     // Record the action for undo
     useUndoRedoStore.getState().pushAction({
         type: "DUPLICATE_CARD",
         description: `Duplicate "${originalCard.name}"`,
-        undo: async () => {
-            // Delete the duplicated card
-            await deleteCard(newCard.uuid);
-        },
-        redo: async () => {
-            // Re-duplicate from the original
-            await duplicateCard(uuid);
-        },
+        command: createCardsCommand([], after, { rebalance: true }),
     });
 
     return newCard.uuid;
@@ -293,6 +190,8 @@ export async function undoableDuplicateCardsBatch(uuids: string[]): Promise<stri
     if (uuids.length === 0) return [];
 
     let newUuidsResult: string[] = [];
+    let before: CardOption[] = [];
+    let after: CardOption[] = [];
 
     await db.transaction("rw", db.cards, db.images, db.cardbacks, async () => {
         const validUuids = new Set(uuids);
@@ -385,6 +284,8 @@ export async function undoableDuplicateCardsBatch(uuids: string[]): Promise<stri
 
         // Bulk put (updates existing, adds new)
         await db.cards.bulkPut(allUpdates);
+        before = allCards;
+        after = allUpdates;
 
         // Update image refs
         if (imageRefIncrements.size > 0) {
@@ -412,52 +313,11 @@ export async function undoableDuplicateCardsBatch(uuids: string[]): Promise<stri
     const description = originalCount === 1
         ? "Duplicate 1 card"
         : `Duplicate ${originalCount} cards`;
-    const uuidsOfNewCards = [...newUuidsResult];
-    const sourceUuids = [...uuids];
 
     useUndoRedoStore.getState().pushAction({
         type: "DUPLICATE_CARDS_BATCH",
         description,
-        undo: async () => {
-            await db.transaction("rw", db.cards, db.images, db.cardbacks, async () => {
-                const cardsToDelete = await db.cards.bulkGet(uuidsOfNewCards);
-                const validCards = cardsToDelete.filter((c): c is CardOption => !!c);
-
-                const imageRefDecrements = new Map<string, number>();
-                for (const card of validCards) {
-                    if (card.imageId && !isCardbackId(card.imageId)) {
-                        imageRefDecrements.set(card.imageId, (imageRefDecrements.get(card.imageId) || 0) + 1);
-                    }
-                }
-
-                await db.cards.bulkDelete(uuidsOfNewCards);
-
-                if (imageRefDecrements.size > 0) {
-                    const imageIds = Array.from(imageRefDecrements.keys());
-                    const images = await db.images.bulkGet(imageIds);
-                    const imageUpdates = [];
-                    const imagesToDelete = [];
-
-                    for (let i = 0; i < imageIds.length; i++) {
-                        const img = images[i];
-                        if (img) {
-                            const dec = imageRefDecrements.get(imageIds[i]) || 0;
-                            const newRef = img.refCount - dec;
-                            if (newRef > 0) imageUpdates.push({ key: imageIds[i], changes: { refCount: newRef } });
-                            else imagesToDelete.push(imageIds[i]);
-                        }
-                    }
-                    if (imageUpdates.length > 0) await db.images.bulkUpdate(imageUpdates);
-                    if (imagesToDelete.length > 0) await db.images.bulkDelete(imagesToDelete);
-                }
-
-                await rebalanceCardOrders(useProjectStore.getState().currentProjectId ?? undefined);
-            });
-        },
-        redo: async () => {
-            // Re-run the bulk duplicate
-            await undoableDuplicateCardsBatch(sourceUuids);
-        },
+        command: createCardsCommand(before, after),
     });
 
     return newUuidsResult;
@@ -480,23 +340,7 @@ export async function undoableAddCards(
 
     if (addedCards.length === 0) return [];
 
-    // Capture added card UUIDs and image info
     const addedUuids = addedCards.map((c) => c.uuid);
-    const addedImageIds = [...new Set(addedCards.map((c) => c.imageId).filter(Boolean))] as string[];
-
-    // Capture source URLs for images before any undo might delete them
-    // This is needed because redo needs to re-fetch images using their original URLs
-    const imageSourceUrls = new Map<string, string>();
-    const existingImages = await db.images.bulkGet(addedImageIds);
-    for (let i = 0; i < addedImageIds.length; i++) {
-        const image = existingImages[i];
-        const imageId = addedImageIds[i];
-        if (image?.sourceUrl) {
-            imageSourceUrls.set(imageId, image.sourceUrl);
-        } else if (image?.imageUrls?.[0]) {
-            imageSourceUrls.set(imageId, image.imageUrls[0]);
-        }
-    }
 
     // Create linked back cards for all added front cards (cards without linkedFrontId)
     const frontCards = addedCards.filter(c => !c.linkedFrontId);
@@ -515,124 +359,17 @@ export async function undoableAddCards(
         }))
     );
 
+    // Fronts are re-read so the snapshot includes their new linkedBackId.
+    // Images removed by undo are rebuilt lazily from the imageId on redo.
+    const after = await captureCards([...addedUuids, ...linkedBackUuids]);
+
     // Record the action for undo
     useUndoRedoStore.getState().pushAction({
         type: "ADD_CARDS",
         description: addedCards.length === 1
             ? `Add "${addedCards[0].name}"`
             : `Add ${addedCards.length} cards`,
-        undo: async () => {
-            // Delete all added cards AND their linked back cards using bulk operations
-            await db.transaction("rw", db.cards, db.images, db.cardbacks, async () => {
-                // Gather all cards to delete
-                const allUuidsToDelete = [...linkedBackUuids, ...addedUuids];
-                const allCards = await db.cards.bulkGet(allUuidsToDelete);
-
-                // Collect image refs to decrement (cardbacks don't need ref counting)
-                const imageRefDecrements = new Map<string, number>();
-                const imagesToDelete: string[] = [];
-
-                for (const card of allCards) {
-                    if (card?.imageId) {
-                        // Only track refs for non-cardback images
-                        if (!isCardbackId(card.imageId)) {
-                            imageRefDecrements.set(card.imageId, (imageRefDecrements.get(card.imageId) || 0) + 1);
-                        }
-                    }
-                }
-
-                // Update regular images (cardbacks don't need ref counting)
-                const imageIds = Array.from(imageRefDecrements.keys());
-                const images = await db.images.bulkGet(imageIds);
-                const imageUpdates: { key: string; changes: { refCount: number } }[] = [];
-
-                for (let i = 0; i < imageIds.length; i++) {
-                    const image = images[i];
-                    const imageId = imageIds[i];
-                    const decrement = imageRefDecrements.get(imageId) || 0;
-
-                    if (image) {
-                        const newRefCount = image.refCount - decrement;
-                        if (newRefCount > 0) {
-                            imageUpdates.push({ key: imageId, changes: { refCount: newRefCount } });
-                        } else {
-                            imagesToDelete.push(imageId);
-                        }
-                    }
-                }
-
-                // Perform bulk operations
-                if (allUuidsToDelete.length > 0) {
-                    await db.cards.bulkDelete(allUuidsToDelete);
-                }
-                if (imageUpdates.length > 0) {
-                    await db.images.bulkUpdate(imageUpdates);
-                }
-                if (imagesToDelete.length > 0) {
-                    await db.images.bulkDelete(imagesToDelete);
-                }
-            });
-        },
-        redo: async () => {
-            // Re-add cards with original data
-            // Restore image refs using bulk operations
-            const existingImages = await db.images.bulkGet(addedImageIds);
-            const imageUpdates: { key: string; changes: { refCount: number } }[] = [];
-            const missingImageIds: string[] = [];
-
-            for (let i = 0; i < addedImageIds.length; i++) {
-                const image = existingImages[i];
-                const imageId = addedImageIds[i];
-                if (image) {
-                    imageUpdates.push({ key: imageId, changes: { refCount: image.refCount + 1 } });
-                } else {
-                    missingImageIds.push(imageId);
-                }
-            }
-
-            if (imageUpdates.length > 0) {
-                await db.images.bulkUpdate(imageUpdates);
-            }
-
-            // Recreate missing images using their original source URLs (with retry for transient failures)
-            for (const imageId of missingImageIds) {
-                // Skip restoring upload-library or custom images here, useImageProcessing will handle their regeneration
-                // from the user_images table on demand
-                if (/^[a-f0-9]{64}(-[a-z]+)?$/i.test(imageId)) {
-                    continue;
-                }
-
-                const sourceUrl = imageSourceUrls.get(imageId);
-                const urlToFetch = sourceUrl || imageId; // Fallback to imageId as URL
-
-                // Retry up to 3 times with exponential backoff
-                for (let attempt = 0; attempt < 3; attempt++) {
-                    try {
-                        await addRemoteImage([urlToFetch], 1);
-                        break; // Success - exit retry loop
-                    } catch (e) {
-                        if (attempt === 2) {
-                            console.error(`[Redo] Failed to re-fetch image after 3 attempts: ${urlToFetch}`, e);
-                            // Continue with other images rather than failing entire redo
-                        } else {
-                            await new Promise(r => setTimeout(r, 500 * (attempt + 1)));
-                        }
-                    }
-                }
-            }
-
-            const redoAddedCards = await addCards(cardsData);
-            // Re-create linked back cards for front cards using bulk
-            const redoFrontCards = redoAddedCards.filter(c => !c.linkedFrontId);
-            await createLinkedBackCardsBulk(
-                redoFrontCards.map(frontCard => ({
-                    frontUuid: frontCard.uuid,
-                    backImageId: defaultCardbackId,
-                    backName: defaultCardbackName,
-                    options: { hasBuiltInBleed, usesDefaultCardback: true },
-                }))
-            );
-        },
+        command: createCardsCommand([], after),
     });
 
     return addedCards;
@@ -655,6 +392,8 @@ export async function undoableReorderCards(
     if (card.linkedBackId) uuidsToUpdate.push(card.linkedBackId);
     if (card.linkedFrontId) uuidsToUpdate.push(card.linkedFrontId);
 
+    const before = (await captureCards(uuidsToUpdate)).map(c => ({ ...c, order: oldOrder }));
+
     // 2. Perform the update
     await db.transaction("rw", db.cards, async () => {
         for (const uuid of uuidsToUpdate) {
@@ -662,29 +401,13 @@ export async function undoableReorderCards(
         }
     });
 
-    // 3. Record the action for undo
+    const after = await captureCards(uuidsToUpdate);
+
+    // 3. Record the action for undo (orders are rebalanced after undo/redo to clean up)
     useUndoRedoStore.getState().pushAction({
         type: "REORDER_CARDS",
         description: "Reorder cards",
-        undo: async () => {
-            // Restore the original order
-            await db.transaction("rw", db.cards, async () => {
-                for (const uuid of uuidsToUpdate) {
-                    await db.cards.update(uuid, { order: oldOrder });
-                }
-                // Rebalance to clean up
-                await rebalanceCardOrders(useProjectStore.getState().currentProjectId ?? undefined);
-            });
-        },
-        redo: async () => {
-            // Apply the new order again
-            await db.transaction("rw", db.cards, async () => {
-                for (const uuid of uuidsToUpdate) {
-                    await db.cards.update(uuid, { order: newOrder });
-                }
-                await rebalanceCardOrders(useProjectStore.getState().currentProjectId ?? undefined);
-            });
-        },
+        command: createCardsCommand(before, after, { rebalance: true }),
     });
 }
 
@@ -734,6 +457,10 @@ export async function undoableReorderMultipleCards(
         });
     }
 
+    const affectedUuids = finalAdjustments.map(adj => adj.uuid);
+    const oldOrders = new Map(finalAdjustments.map(adj => [adj.uuid, adj.oldOrder]));
+    const before = (await captureCards(affectedUuids)).map(c => ({ ...c, order: oldOrders.get(c.uuid) ?? c.order }));
+
     // 2. Perform the updates
     await db.transaction("rw", db.cards, async () => {
         for (const adj of finalAdjustments) {
@@ -741,29 +468,13 @@ export async function undoableReorderMultipleCards(
         }
     });
 
-    // 3. Record the action for undo
+    const after = await captureCards(affectedUuids);
+
+    // 3. Record the action for undo (orders are rebalanced after undo/redo to clean up)
     useUndoRedoStore.getState().pushAction({
         type: "REORDER_MULTIPLE_CARDS",
         description: `Reorder ${adjustments.length} cards`,
-        undo: async () => {
-            // Restore the original order for each card
-            await db.transaction("rw", db.cards, async () => {
-                for (const adj of finalAdjustments) {
-                    await db.cards.update(adj.uuid, { order: adj.oldOrder });
-                }
-            });
-            // Rebalance to clean up
-            await rebalanceCardOrders(useProjectStore.getState().currentProjectId ?? undefined);
-        },
-        redo: async () => {
-            // Apply the new order for each card
-            await db.transaction("rw", db.cards, async () => {
-                for (const adj of finalAdjustments) {
-                    await db.cards.update(adj.uuid, { order: adj.newOrder });
-                }
-            });
-            await rebalanceCardOrders(useProjectStore.getState().currentProjectId ?? undefined);
-        },
+        command: createCardsCommand(before, after, { rebalance: true }),
     });
 }
 
@@ -796,22 +507,6 @@ export async function undoableUpdateCardBleedSettings(
         allAffectedCards.push(...cardsWithImage);
     }
 
-    // Capture old settings for ALL affected cards (for proper undo)
-    const oldSettings: Map<string, {
-        hasBuiltInBleed?: boolean;
-        bleedMode?: CardOption['bleedMode'];
-        existingBleedMm?: number;
-        generateBleedMm?: number;
-    }> = new Map();
-    for (const card of allAffectedCards) {
-        oldSettings.set(card.uuid, {
-            hasBuiltInBleed: card.hasBuiltInBleed,
-            bleedMode: card.bleedMode,
-            existingBleedMm: card.existingBleedMm,
-            generateBleedMm: card.generateBleedMm,
-        });
-    }
-
     const cardName = selectedCards.length === 1 ? selectedCards[0]?.name || 'card' : `${selectedCards.length} cards`;
     const allAffectedUuids = allAffectedCards.map(c => c.uuid);
 
@@ -847,55 +542,13 @@ export async function undoableUpdateCardBleedSettings(
         }
     });
 
-    // Record the action for undo
+    const after = await captureCards(allAffectedUuids);
+
+    // Record the action for undo (image caches are invalidated again when the bleed fields revert)
     useUndoRedoStore.getState().pushAction({
         type: "UPDATE_BLEED_SETTINGS",
         description: `Change bleed settings for "${cardName}"`,
-        undo: async () => {
-            // Restore old settings for ALL affected cards
-            await db.transaction("rw", db.cards, db.images, db.cardbacks, async () => {
-                for (const [uuid, settings] of oldSettings) {
-                    await db.cards.update(uuid, {
-                        hasBuiltInBleed: settings.hasBuiltInBleed,
-                        bleedMode: settings.bleedMode,
-                        existingBleedMm: settings.existingBleedMm,
-                        generateBleedMm: settings.generateBleedMm,
-                    });
-                }
-                // Invalidate image cache to trigger regeneration
-                for (const imageId of imageIds) {
-                    await db.images.update(imageId, {
-                        generatedBleedMode: undefined,
-                        generatedHasBuiltInBleed: undefined,
-                    });
-                }
-            });
-        },
-        redo: async () => {
-            // Re-apply new settings to ALL affected cards
-            await db.transaction("rw", db.cards, db.images, db.cardbacks, async () => {
-                const changes: Partial<CardOption> = {
-                    hasBuiltInBleed: newSettings.hasBuiltInBleed,
-                    bleedMode: newSettings.bleedMode,
-                    existingBleedMm: newSettings.existingBleedMm,
-                    generateBleedMm: newSettings.generateBleedMm,
-                };
-
-                await db.cards.bulkUpdate(
-                    allAffectedUuids.map((uuid) => ({
-                        key: uuid,
-                        changes,
-                    }))
-                );
-                // Invalidate image cache to trigger regeneration
-                for (const imageId of imageIds) {
-                    await db.images.update(imageId, {
-                        generatedBleedMode: undefined,
-                        generatedHasBuiltInBleed: undefined,
-                    });
-                }
-            });
-        },
+        command: createCardsCommand(allAffectedCards, after),
     });
 }
 
@@ -915,17 +568,6 @@ export async function undoableChangeCardback(
     const frontCards = await db.cards.where('uuid').anyOf(frontCardUuids).toArray();
     if (frontCards.length === 0) return;
 
-    // Capture old state for all affected back cards
-    type OldBackState = {
-        frontUuid: string;
-        backUuid?: string;
-        oldImageId?: string;
-        oldName?: string;
-        oldUsesDefaultCardback?: boolean;
-        hadBackCard: boolean;
-    };
-    const oldStates: OldBackState[] = [];
-
     // Batch fetch all back cards at once for performance
     const backCardUuids = frontCards
         .filter(fc => fc.linkedBackId)
@@ -938,26 +580,8 @@ export async function undoableChangeCardback(
         }
     }
 
-    for (const frontCard of frontCards) {
-        if (frontCard.linkedBackId) {
-            const backCard = backCardsMap.get(frontCard.linkedBackId);
-            if (backCard) {
-                oldStates.push({
-                    frontUuid: frontCard.uuid,
-                    backUuid: backCard.uuid,
-                    oldImageId: backCard.imageId,
-                    oldName: backCard.name,
-                    oldUsesDefaultCardback: backCard.usesDefaultCardback,
-                    hadBackCard: true,
-                });
-            }
-        } else {
-            oldStates.push({
-                frontUuid: frontCard.uuid,
-                hadBackCard: false,
-            });
-        }
-    }
+    // Snapshot fronts (new backs get linked to them) and their existing backs
+    const before = [...frontCards, ...backCardsMap.values()];
 
     // Perform the cardback changes
     // Separate cards into those with existing backs and those that need new backs
@@ -1023,82 +647,42 @@ export async function undoableChangeCardback(
             ? `Change cardback for ${frontCards.length} "${uniqueNames[0]}" cards`
             : `Change cardback for ${frontCards.length} cards`;
 
+    const updatedFronts = await captureCards(frontCardUuids);
+    const after = [...updatedFronts, ...await captureCards(updatedFronts.map(c => c.linkedBackId))];
+
     // Record the action for undo
     useUndoRedoStore.getState().pushAction({
         type: "CHANGE_CARDBACK",
         description,
-        undo: async () => {
-            await db.transaction("rw", db.cards, db.images, db.cardbacks, async () => {
-                for (const oldState of oldStates) {
-                    if (oldState.hadBackCard && oldState.backUuid && oldState.oldImageId) {
-                        // Restore old cardback
-                        const backCard = await db.cards.get(oldState.backUuid);
-                        if (backCard) {
-                            await changeCardArtwork(
-                                backCard.imageId,
-                                oldState.oldImageId,
-                                backCard,
-                                false,
-                                oldState.oldName,
-                                undefined,
-                                undefined,
-                                true // Assume old cardback had bleed
-                            );
-                            await db.cards.update(oldState.backUuid, {
-                                usesDefaultCardback: oldState.oldUsesDefaultCardback,
-                            });
-                        }
-                    } else {
-                        // Card didn't have a back card - delete the newly created one
-                        const frontCard = await db.cards.get(oldState.frontUuid);
-                        if (frontCard?.linkedBackId) {
-                            const backCard = await db.cards.get(frontCard.linkedBackId);
-                            if (backCard) {
-                                // Decrement image ref for non-cardback images
-                                if (backCard.imageId && !isCardbackId(backCard.imageId)) {
-                                    const image = await db.images.get(backCard.imageId);
-                                    if (image && image.refCount > 1) {
-                                        await db.images.update(backCard.imageId, { refCount: image.refCount - 1 });
-                                    } else if (image) {
-                                        await db.images.delete(backCard.imageId);
-                                    }
-                                }
-                                await db.cards.delete(frontCard.linkedBackId);
-                            }
-                            await db.cards.update(oldState.frontUuid, { linkedBackId: undefined });
-                        }
-                    }
-                }
-            });
-        },
-        redo: async () => {
-            // Re-apply cardback changes
-            for (const frontCard of frontCards) {
-                const currentFront = await db.cards.get(frontCard.uuid);
-                if (!currentFront) continue;
-
-                if (currentFront.linkedBackId) {
-                    const existingBack = await db.cards.get(currentFront.linkedBackId);
-                    if (existingBack) {
-                        await changeCardArtwork(
-                            existingBack.imageId,
-                            newCardbackId,
-                            existingBack,
-                            false,
-                            newCardbackName,
-                            undefined,
-                            undefined,
-                            hasBuiltInBleed
-                        );
-                        await db.cards.update(existingBack.uuid, { usesDefaultCardback: false });
-                    }
-                } else {
-                    await createLinkedBackCard(currentFront.uuid, newCardbackId, newCardbackName, {
-                        hasBuiltInBleed,
-                        usesDefaultCardback: false,
-                    });
-                }
-            }
-        },
+        command: createCardsCommand(before, after),
+    });
+}
+
+/**
+ * Replaces the overrides of one or more cards with undo support.
+ * @param overrides The new overrides, or a function building them per card
+ * @returns The updated cards
+ */
+export async function undoableUpdateCardOverrides(
+    cardUuids: string[],
+    overrides: CardOverrides | ((card: CardOption) => CardOverrides),
+    description: string
+): Promise<CardOption[]> {
+    if (cardUuids.length === 0) return [];
+
+    const before = await captureCards(cardUuids);
+    if (before.length === 0) return [];
+
+    const after = before.map((c) => ({
+        ...c,
+        overrides: typeof overrides === "function" ? overrides(c) : overrides,
+    }));
+    await db.cards.bulkPut(after);
+
+    useUndoRedoStore.getState().pushAction({
+        type: "UPDATE_OVERRIDES",
+        description,
+        command: createCardsCommand(before, after),
     });
+    return after;
 }
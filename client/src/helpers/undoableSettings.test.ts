@@ -70,51 +70,27 @@ describe("undoableSettings", () => {
             expect(mockPushAction).toHaveBeenCalledTimes(2);
         });
 
-        it("should create undo/redo callbacks that call the setter", async () => {
-            const mockSetter = vi.fn();
-
-            // Re-mock to capture the undo/redo action
-            vi.doMock("@/store/settings", () => ({
-                useSettingsStore: {
-                    getState: () => ({
-                        pageSizePreset: "A4",
-                        setPageSizePreset: mockSetter,
-                    }),
-                },
-            }));
-
+        it("should record the old and new value as a data-only command", () => {
             recordSettingChange("pageSizePreset", "Letter");
             vi.advanceTimersByTime(600);
 
-            // Verify pushAction was called with undo/redo functions
             expect(mockPushAction).toHaveBeenCalled();
             const action = mockPushAction.mock.calls[0][0];
             expect(action.type).toBe("CHANGE_SETTING");
             expect(action.description).toBe("Change page size");
-            expect(typeof action.undo).toBe("function");
-            expect(typeof action.redo).toBe("function");
-        });
-
-        it("should execute undo callback which calls setter with initial value", async () => {
-            recordSettingChange("pageSizePreset", "Letter");
-            vi.advanceTimersByTime(600);
-
-            const action = mockPushAction.mock.calls[0][0];
-
-            // Execute the undo callback - this covers lines 123-127
-            await action.undo();
-            // The mock setter was called in the undo callback
+            expect(action.command).toEqual({
+                kind: "setting",
+                key: "pageSizePreset",
+                oldValue: "Letter",
+                newValue: "A4",
+            });
         });
 
-        it("should execute redo callback which calls setter with current value", async () => {
-            recordSettingChange("pageSizePreset", "Letter");
+        it("should not record when the value ends where it started", () => {
+            recordSettingChange("pageSizePreset", "A4");
             vi.advanceTimersByTime(600);
 
-            const action = mockPushAction.mock.calls[0][0];
-
-            // Execute the redo callback - this covers lines 129-133
-            await action.redo();
-            // The mock setter was called in the redo callback
+            expect(mockPushAction).not.toHaveBeenCalled();
         });
     });
 });
@@ -36,6 +36,8 @@ export type UndoableSettingKey =
     | "filterCategories"
     | "filterFeatures"
     | "filterMatchType"
+    | "legalityFormat"
+    | "filterLegality"
     | "bleedEdgeUnit"
     | "withBleedSourceAmount"
     | "withBleedTargetMode"
@@ -50,7 +52,8 @@ export type UndoableSettingKey =
     | "cutGuideLengthMm"
     | "perCardBackOffsets"
     | "registrationMarks"
-    | "registrationMarksPortrait";
+    | "registrationMarksPortrait"
+    | "cutterProfile";
 
 // Human-readable descriptions for each setting
 const settingDescriptions: Record<UndoableSettingKey, string> = {
@@ -82,6 +85,8 @@ const settingDescriptions: Record<UndoableSettingKey, string> = {
     filterCategories: "category filter",
     filterFeatures: "feature filter",
     filterMatchType: "filter match type",
+    legalityFormat: "legality format",
+    filterLegality: "legality filter",
     bleedEdgeUnit: "bleed unit",
     withBleedSourceAmount: "provided bleed amount",
     withBleedTargetMode: "bleed generation mode",
@@ -97,6 +102,7 @@ const settingDescriptions: Record<UndoableSettingKey, string> = {
     perCardBackOffsets: "card back offsets",
     registrationMarks: "registration marks",
     registrationMarksPortrait: "registration marks (portrait)",
+    cutterProfile: "cutter profile",
 };
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -129,23 +135,11 @@ function commitPendingChange(key: UndoableSettingKey): void {
     if (JSON.stringify(pending.initialValue) === JSON.stringify(currentValue)) return;
 
     const description = settingDescriptions[key] || key;
-    const setterName = `set${key.charAt(0).toUpperCase()}${key.slice(1)}` as keyof ReturnType<typeof useSettingsStore.getState>;
 
     useUndoRedoStore.getState().pushAction({
         type: "CHANGE_SETTING",
         description: `Change ${description}`,
-        undo: async () => {
-            const setter = useSettingsStore.getState()[setterName];
-            if (typeof setter === "function") {
-                (setter as (value: SettingValue) => void)(pending.initialValue);
-            }
-        },
-        redo: async () => {
-            const setter = useSettingsStore.getState()[setterName];
-            if (typeof setter === "function") {
-                (setter as (value: SettingValue) => void)(currentValue);
-            }
-        },
+        command: { kind: "setting", key, oldValue: pending.initialValue, newValue: currentValue },
     });
 }
 
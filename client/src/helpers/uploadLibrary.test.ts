@@ -1,5 +1,7 @@
 import { describe, it, expect, vi, afterEach } from 'vitest';
+import { db } from '../db';
 import {
+    addImageToUploadLibrary,
     getFlexibleCardTypes,
     filterUploadLibraryItems,
     sortUploadLibraryItems,
@@ -18,10 +20,14 @@ vi.mock('../db', () => ({
             get: vi.fn(),
         },
         images: { get: vi.fn(), delete: vi.fn(), update: vi.fn() },
-        transaction: vi.fn((_mode: string, _t1: unknown, _t2: unknown, cb: () => void) => cb()),
+        transaction: vi.fn((...args: unknown[]) => (args[args.length - 1] as () => unknown)()),
     },
 }));
 
+vi.mock('./dbUtils', () => ({
+    hashBlob: vi.fn(async () => 'abc123'),
+}));
+
 describe('uploadLibrary', () => {
     describe('getFlexibleCardTypes', () => {
         it('should return empty array for empty type line', () => {
@@ -136,4 +142,26 @@ describe('uploadLibrary', () => {
             expect(mockRevokeObjectURL).not.toHaveBeenCalled();
         });
     });
+
+    describe('addImageToUploadLibrary', () => {
+        it('should add a new image keyed by its content hash', async () => {
+            vi.mocked(db.user_images.get).mockResolvedValueOnce(undefined);
+            const blob = new Blob(['img'], { type: 'image/jpeg' });
+
+            await expect(addImageToUploadLibrary(blob, 'Goblin Guide')).resolves.toBe(true);
+            expect(db.user_images.add).toHaveBeenCalledWith(expect.objectContaining({
+                hash: 'abc123-auto',
+                type: 'image/jpeg',
+                displayName: 'Goblin Guide',
+            }));
+        });
+
+        it('should skip images that are already in the library', async () => {
+            vi.mocked(db.user_images.get).mockResolvedValueOnce({ hash: 'abc123-auto' } as never);
+            vi.mocked(db.user_images.add).mockClear();
+
+            await expect(addImageToUploadLibrary(new Blob(['img']), 'Goblin Guide')).resolves.toBe(false);
+            expect(db.user_images.add).not.toHaveBeenCalled();
+        });
+    });
 });
@@ -1,4 +1,5 @@
 import { db, type UserImage } from '../db';
+import { hashBlob } from './dbUtils';
 
 
 export interface UploadLibraryItem {
@@ -85,6 +86,26 @@ export async function getUploadLibraryItems(): Promise<UploadLibraryItem[]> {
     });
 }
 
+/**
+ * Add an image to the upload library without creating a card for it.
+ * Keyed like an auto-detect upload, so bleed is detected when it's first used.
+ * Returns false if the library already had the image.
+ */
+export async function addImageToUploadLibrary(blob: Blob, displayName: string): Promise<boolean> {
+    const hash = `${await hashBlob(blob)}-auto`;
+    return db.transaction('rw', db.user_images, async () => {
+        if (await db.user_images.get(hash)) return false;
+        await db.user_images.add({
+            hash,
+            data: blob,
+            type: blob.type || 'image/png',
+            createdAt: Date.now(),
+            displayName: displayName || undefined,
+        });
+        return true;
+    });
+}
+
 export async function updateUploadLibraryMetadata(
     hash: string,
     updates: Partial<Pick<UserImage, 'displayName' | 'typeLine' | 'canonicalCardName' | 'canonicalCardSet' | 'canonicalCardNumber' | 'isFavorite' | 'tags' | 'hasBuiltInBleed' | 'linkedFrontHash' | 'linkedBackHash'>>
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { db, type UserImage } from '@/db';
+import { findUploadNearDuplicates, mergeUploadLibraryItems, suggestCanonicalCard } from './uploadLibraryDuplicates';
+
+const makeUpload = (hash: string, phash: string, overrides: Partial<UserImage> = {}): UserImage => ({
+    hash,
+    phash,
+    data: new Blob(['x'], { type: 'image/png' }),
+    type: 'image/png',
+    createdAt: 1,
+    ...overrides,
+});
+
+describe('uploadLibraryDuplicates', () => {
+    beforeEach(async () => {
+        await Promise.all([db.user_images.clear(), db.images.clear(), db.cards.clear(), db.imageCache.clear()]);
+    });
+
+    describe('findUploadNearDuplicates', () => {
+        it('should group uploads with close hashes, largest first', async () => {
+            await db.user_images.bulkAdd([
+                makeUpload('small', '0000000000000000', { data: new Blob(['a']) }),
+                makeUpload('large', '0000000000000003', { data: new Blob(['abcdef']) }),
+                makeUpload('other', 'ffffffffffffffff'),
+            ]);
+
+            expect(await findUploadNearDuplicates()).toEqual([['large', 'small']]);
+        });
+    });
+
+    describe('mergeUploadLibraryItems', () => {
+        it('should move cards and references to the kept upload and remove the rest', async () => {
+            await db.user_images.bulkAdd([
+                makeUpload('keep', '0000000000000000', { hasBuiltInBleed: true }),
+                makeUpload('dupe', '0000000000000001', {
+                    canonicalCardName: 'Lightning Bolt',
+                    canonicalCardSet: 'lea',
+                    canonicalCardNumber: '161',
+                    isFavorite: true,
+                    tags: ['burn'],
+                }),
+            ]);
+            await db.images.bulkAdd([
+                { id: 'keep', refCount: 1, source: 'upload-library' },
+                { id: 'dupe', refCount: 2, source: 'upload-library' },
+            ]);
+            await db.cards.bulkAdd([
+                { uuid: 'c1', name: 'Bolt', order: 10, imageId: 'dupe', isUserUpload: true },
+                { uuid: 'c2', name: 'Bolt', order: 20, imageId: 'dupe', isUserUpload: true },
+            ]);
+
+            await mergeUploadLibraryItems('keep', ['dupe']);
+
+            expect(await db.user_images.get('dupe')).toBeUndefined();
+            expect(await db.images.get('dupe')).toBeUndefined();
+            expect((await db.images.get('keep'))?.refCount).toBe(3);
+
+            const cards = await db.cards.toArray();
+            expect(cards.map((c) => c.imageId)).toEqual(['keep', 'keep']);
+            expect(cards.every((c) => c.hasBuiltInBleed === true)).toBe(true);
+
+            const kept = await db.user_images.get('keep');
+            expect(kept).toMatchObject({
+                canonicalCardName: 'Lightning Bolt',
+                canonicalCardSet: 'lea',
+                canonicalCardNumber: '161',
+                isFavorite: true,
+                tags: ['burn'],
+            });
+        });
+
+        it('should keep the kept upload\'s own identification', async () => {
+            await db.user_images.bulkAdd([
+                makeUpload('keep', '0000000000000000', { canonicalCardName: 'Shock' }),
+                makeUpload('dupe', '0000000000000001', { canonicalCardName: 'Lightning Bolt' }),
+            ]);
+
+            await mergeUploadLibraryItems('keep', ['keep', 'dupe']);
+
+            expect((await db.user_images.get('keep'))?.canonicalCardName).toBe('Shock');
+            expect(await db.user_images.count()).toBe(1);
+        });
+    });
+
+    describe('suggestCanonicalCard', () => {
+        it('should suggest the cached print closest to the upload', async () => {
+            await db.user_images.add(makeUpload('upload', '00000000000000f0'));
+            await db.imageCache.bulkAdd([
+                { url: 'scry:a', blob: new Blob(), cachedAt: 1, size: 0, phash: '00000000000000f1', cardName: 'Counterspell', cardSet: 'mh2', cardNumber: '267' },
+                { url: 'scry:b', blob: new Blob(), cachedAt: 1, size: 0, phash: 'ffffffffffffffff', cardName: 'Island' },
+                { url: 'scry:c', blob: new Blob(), cachedAt: 1, size: 0 },
+            ]);
+
+            expect(await suggestCanonicalCard('upload')).toEqual({ name: 'Counterspell', set: 'mh2', number: '267' });
+        });
+
+        it('should return null when nothing cached looks alike', async () => {
+            await db.user_images.add(makeUpload('upload', '0000000000000000'));
+            await db.imageCache.add({ url: 'scry:b', blob: new Blob(), cachedAt: 1, size: 0, phash: 'ffffffffffffffff', cardName: 'Island' });
+
+            expect(await suggestCanonicalCard('upload')).toBeNull();
+            expect(await suggestCanonicalCard('missing')).toBeNull();
+        });
+    });
+});
@@ -0,0 +1,137 @@
+import { db, type UserImage } from '../db';
+import { computePerceptualHash, findClosestHash, groupNearDuplicates } from './perceptualHash';
+import { invalidateUploadLibraryUrl, unlinkUploadFaces } from './uploadLibrary';
+import { getCardSize } from './cardSizes';
+import { useSettingsStore } from '@/store/settings';
+
+export interface CanonicalCardSuggestion {
+    name: string;
+    set?: string;
+    number?: string;
+}
+
+async function hashUpload(image: UserImage): Promise<string | undefined> {
+    try {
+        const phash = await computePerceptualHash(image.data, {
+            hasBuiltInBleed: image.hasBuiltInBleed,
+            cardSize: getCardSize(useSettingsStore.getState()),
+        });
+        await db.user_images.update(image.hash, { phash });
+        return phash;
+    } catch (e) {
+        console.warn('[uploadLibraryDuplicates] Failed to hash upload:', image.hash, e);
+        return undefined;
+    }
+}
+
+/**
+ * Computes perceptual hashes for uploads added before hashing existed,
+ * or whose hash couldn't be computed when they were added.
+ */
+export async function ensureUploadPerceptualHashes(): Promise<void> {
+    const missing = await db.user_images.filter(img => !img.phash).toArray();
+    for (const image of missing) {
+        await hashUpload(image);
+    }
+}
+
+/**
+ * Finds groups of uploads that look like the same artwork.
+ * Each group is ordered largest file first, so the first hash is the best keep candidate.
+ */
+export async function findUploadNearDuplicates(): Promise<string[][]> {
+    await ensureUploadPerceptualHashes();
+    const uploads = await db.user_images.filter(img => !!img.phash).toArray();
+    const groups = groupNearDuplicates(uploads.map(img => ({ hash: img.hash, phash: img.phash!, size: img.data.size })));
+    return groups.map(group => group.sort((a, b) => b.size - a.size).map(entry => entry.hash));
+}
+
+/**
+ * Merges near-duplicate uploads into the one being kept.
+ * Cards using a merged upload are pointed at the kept one, identification,
+ * tags and favorite status carry over where the kept upload lacks them,
+ * then the merged uploads are removed from the library.
+ */
+export async function mergeUploadLibraryItems(keepHash: string, mergeHashes: string[]): Promise<void> {
+    const toMerge = mergeHashes.filter(h => h !== keepHash);
+    if (toMerge.length === 0) return;
+
+    for (const hash of toMerge) {
+        invalidateUploadLibraryUrl(hash);
+        await unlinkUploadFaces(hash);
+    }
+
+    await db.transaction('rw', db.user_images, db.images, db.cards, async () => {
+        const keep = await db.user_images.get(keepHash);
+        if (!keep) throw new Error('Upload to keep no longer exists');
+
+        const updates: Partial<UserImage> = {};
+        const tags = new Set(keep.tags ?? []);
+        let movedRefs = 0;
+
+        for (const hash of toMerge) {
+            const merged = await db.user_images.get(hash);
+            if (!merged) continue;
+
+            if (!keep.canonicalCardName && !updates.canonicalCardName && merged.canonicalCardName) {
+                updates.canonicalCardName = merged.canonicalCardName;
+                updates.canonicalCardSet = merged.canonicalCardSet;
+                updates.canonicalCardNumber = merged.canonicalCardNumber;
+                updates.typeLine = merged.typeLine;
+            }
+            if (merged.isFavorite) updates.isFavorite = true;
+            merged.tags?.forEach(tag => tags.add(tag));
+
+            await db.cards.where('imageId').equals(hash).modify({
+                imageId: keepHash,
+                hasBuiltInBleed: keep.hasBuiltInBleed,
+            });
+
+            const image = await db.images.get(hash);
+            if (image) {
+                movedRefs += image.refCount;
+                await db.images.delete(hash);
+            }
+            await db.user_images.delete(hash);
+        }
+
+        if (tags.size > 0) updates.tags = Array.from(tags);
+        await db.user_images.update(keepHash, updates);
+
+        if (movedRefs > 0) {
+            const keepImage = await db.images.get(keepHash);
+            if (keepImage) {
+                await db.images.update(keepHash, { refCount: keepImage.refCount + movedRefs });
+            } else {
+                await db.images.add({
+                    id: keepHash,
+                    originalBlob: keep.data,
+                    refCount: movedRefs,
+                    source: 'upload-library',
+                });
+            }
+        }
+    });
+}
+
+/**
+ * Suggests which card an upload shows by matching its perceptual hash
+ * against Scryfall/MPC prints in the image cache.
+ * Returns null when no cached print looks close enough.
+ */
+export async function suggestCanonicalCard(hash: string): Promise<CanonicalCardSuggestion | null> {
+    const upload = await db.user_images.get(hash);
+    if (!upload) return null;
+    const phash = upload.phash ?? await hashUpload(upload);
+    if (!phash) return null;
+
+    const prints = await db.imageCache.filter(entry => !!entry.phash && !!entry.cardName).toArray();
+    const match = findClosestHash(phash, prints.map(entry => ({
+        phash: entry.phash!,
+        name: entry.cardName!,
+        set: entry.cardSet,
+        number: entry.cardNumber,
+    })));
+    if (!match) return null;
+    return { name: match.name, set: match.set, number: match.number };
+}
@@ -14,6 +14,7 @@ import type { DarkenMode } from "../store/settings";
 import { darkenModeToInt } from "../components/CardCanvas/types";
 import { debugLog } from "./debug";
 import { CONSTANTS, MM_TO_PX } from "../constants/commonConstants";
+import { DEFAULT_CARD_SIZE, type CardSize } from "./cardSizes";
 
 // WebGL Debug Logging
 const WEBGL_DEBUG = true;
@@ -301,11 +302,12 @@ function calculateImagePlacement(
 export async function generateBleedCanvasWebGL(
     img: ImageBitmap,
     bleedWidth: number,
-    opts: { unit?: "mm" | "in"; dpi?: number; inputBleed?: number; darkenMode?: DarkenMode; darkenThreshold?: number; darkenContrast?: number; darkenEdgeWidth?: number; darkenAmount?: number; darkenBrightness?: number; darkenAutoDetect?: boolean }
+    opts: { unit?: "mm" | "in"; dpi?: number; inputBleed?: number; darkenMode?: DarkenMode; darkenThreshold?: number; darkenContrast?: number; darkenEdgeWidth?: number; darkenAmount?: number; darkenBrightness?: number; darkenAutoDetect?: boolean; cardSize?: CardSize }
 ): Promise<OffscreenCanvas> {
     const dpi = opts?.dpi ?? CONSTANTS.DEFAULT_DISPLAY_DPI;
-    const targetCardWidth = MM_TO_PX(CONSTANTS.CARD_WIDTH_MM, dpi);
-    const targetCardHeight = MM_TO_PX(CONSTANTS.CARD_HEIGHT_MM, dpi);
+    const cardSize = opts?.cardSize ?? DEFAULT_CARD_SIZE;
+    const targetCardWidth = MM_TO_PX(cardSize.widthMm, dpi);
+    const targetCardHeight = MM_TO_PX(cardSize.heightMm, dpi);
     const bleed = Math.round(getBleedInPixels(bleedWidth, opts?.unit ?? "mm", dpi));
 
     const finalWidth = Math.ceil(targetCardWidth + bleed * 2);
@@ -404,7 +406,7 @@ export async function generateBleedCanvasWebGL(
 
     // Determine corner radius in source pixels for masking inside the shader
     // We add 2mm to ensure the JFA floods fully over the corners 
-    const targetCornerRadiusPx = MM_TO_PX(CONSTANTS.CORNER_RADIUS_MM + 2, dpi);
+    const targetCornerRadiusPx = MM_TO_PX(cardSize.cornerRadiusMm + 2, dpi);
 
     // Uniforms
     gl.activeTexture(gl.TEXTURE0);
@@ -487,7 +489,7 @@ export async function generateBleedCanvasWebGL(
 export async function processCardImageWebGL(
     img: ImageBitmap,
     bleedWidthMm: number,
-    opts?: { unit?: "mm" | "in"; exportDpi?: number; displayDpi?: number; inputHasBleedMm?: number; darkenMode?: number; darkenThreshold?: number; darkenContrast?: number; darkenEdgeWidth?: number; darkenAmount?: number; darkenBrightness?: number; darkenAutoDetect?: boolean }
+    opts?: { unit?: "mm" | "in"; exportDpi?: number; displayDpi?: number; inputHasBleedMm?: number; darkenMode?: number; darkenThreshold?: number; darkenContrast?: number; darkenEdgeWidth?: number; darkenAmount?: number; darkenBrightness?: number; darkenAutoDetect?: boolean; cardSize?: CardSize }
 ): Promise<{
     exportBlob: Blob;
     exportDpi: number;
@@ -515,6 +517,7 @@ export async function processCardImageWebGL(
     const displayDpi = opts?.displayDpi ?? 300;
     const unit = opts?.unit ?? "mm";
     const inputHasBleedMm = opts?.inputHasBleedMm ?? 0;
+    const cardSize = opts?.cardSize ?? DEFAULT_CARD_SIZE;
 
     // Convert bleedWidthMm to mm if unit is inches
     const totalBleedMm = unit === 'in' ? bleedWidthMm * CONSTANTS.MM_PER_IN : bleedWidthMm;
@@ -522,8 +525,8 @@ export async function processCardImageWebGL(
     // The additional bleed we need to generate (beyond what's already in the image)
     const additionalBleedMm = Math.max(0, totalBleedMm - inputHasBleedMm);
 
-    const targetCardWidth = MM_TO_PX(CONSTANTS.CARD_WIDTH_MM, exportDpi);
-    const targetCardHeight = MM_TO_PX(CONSTANTS.CARD_HEIGHT_MM, exportDpi);
+    const targetCardWidth = MM_TO_PX(cardSize.widthMm, exportDpi);
+    const targetCardHeight = MM_TO_PX(cardSize.heightMm, exportDpi);
 
     // When input has existing bleed, use actual input dimensions instead of forcing to expected
     // This prevents shrinking when aspect ratios don't exactly match
@@ -595,7 +598,7 @@ export async function processCardImageWebGL(
 
     // Determine corner radius in source pixels for masking inside the shader
     // We add 2mm to ensure the JFA floods fully over the corners
-    const targetCornerRadiusPx = MM_TO_PX(CONSTANTS.CORNER_RADIUS_MM + 2, exportDpi);
+    const targetCornerRadiusPx = MM_TO_PX(cardSize.cornerRadiusMm + 2, exportDpi);
 
     // --- PASS 1: INIT (run once) ---
     gl.useProgram(progs.init);
@@ -750,7 +753,7 @@ export async function processCardImageWebGL(
 export async function processExistingBleedWebGL(
     img: ImageBitmap,
     bleedWidthMm: number,
-    opts?: { unit?: "mm" | "in"; exportDpi?: number; displayDpi?: number; darkenMode?: number; darkenThreshold?: number; darkenContrast?: number; darkenEdgeWidth?: number; darkenAmount?: number; darkenBrightness?: number; darkenAutoDetect?: boolean; inputBleedMm?: number }
+    opts?: { unit?: "mm" | "in"; exportDpi?: number; displayDpi?: number; darkenMode?: number; darkenThreshold?: number; darkenContrast?: number; darkenEdgeWidth?: number; darkenAmount?: number; darkenBrightness?: number; darkenAutoDetect?: boolean; inputBleedMm?: number; cardSize?: CardSize }
 ): Promise<{
     exportBlob: Blob;
     exportDpi: number;
@@ -784,10 +787,11 @@ export async function processExistingBleedWebGL(
     // Calculate dimensions at each DPI
     const exportBleedPx = Math.round(getBleedInPixels(bleedMm, "mm", exportDpi));
     const displayBleedPx = Math.round(getBleedInPixels(bleedMm, "mm", displayDpi));
-    const exportWidth = Math.ceil(MM_TO_PX(CONSTANTS.CARD_WIDTH_MM, exportDpi) + exportBleedPx * 2);
-    const exportHeight = Math.ceil(MM_TO_PX(CONSTANTS.CARD_HEIGHT_MM, exportDpi) + exportBleedPx * 2);
-    const displayWidth = Math.ceil(MM_TO_PX(CONSTANTS.CARD_WIDTH_MM, displayDpi) + displayBleedPx * 2);
-    const displayHeight = Math.ceil(MM_TO_PX(CONSTANTS.CARD_HEIGHT_MM, displayDpi) + displayBleedPx * 2);
+    const cardSize = opts?.cardSize ?? DEFAULT_CARD_SIZE;
+    const exportWidth = Math.ceil(MM_TO_PX(cardSize.widthMm, exportDpi) + exportBleedPx * 2);
+    const exportHeight = Math.ceil(MM_TO_PX(cardSize.heightMm, exportDpi) + exportBleedPx * 2);
+    const displayWidth = Math.ceil(MM_TO_PX(cardSize.widthMm, displayDpi) + displayBleedPx * 2);
+    const displayHeight = Math.ceil(MM_TO_PX(cardSize.heightMm, displayDpi) + displayBleedPx * 2);
 
     // Compute darknessFactor for adaptive effects
     const darknessFactor = computeDarknessFactor(img);
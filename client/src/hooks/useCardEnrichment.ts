@@ -1,6 +1,7 @@
 import { useState, useEffect, useRef, useCallback } from "react";
 import { db, METADATA_CACHE_VERSION, type CachedMetadata } from "../db";
 import type { CardOption } from "@/types";
+import type { CardLegality, CardPrices } from "../../../shared/types";
 import { API_BASE } from "../constants";
 import { getCurrentSession } from "../helpers/importSession";
 import { useToastStore } from "../store/toast";
@@ -50,6 +51,8 @@ interface EnrichedCardData {
     type_line?: string;
     rarity?: string;
     lang?: string;
+    prices?: CardPrices;
+    legalities?: Record<string, CardLegality>;
     // DFC Support
     layout?: string;
     card_faces?: Array<{
@@ -394,6 +397,8 @@ export function useCardEnrichment() {
                                     colors: data.colors,
                                     cmc: data.cmc,
                                     rarity: data.rarity,
+                                    prices: data.prices,
+                                    legalities: data.legalities,
                                     lang: data.lang,
                                     needsEnrichment: false,
                                     enrichmentRetryCount: undefined,
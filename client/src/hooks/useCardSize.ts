@@ -0,0 +1,11 @@
+import { useShallow } from "zustand/react/shallow";
+import { useSettingsStore } from "../store/settings";
+import { getCardSize, type CardSize } from "../helpers/cardSizes";
+
+/**
+ * The current project's card size. The returned object keeps its identity
+ * until one of the dimensions changes, so it is safe to use as a dependency.
+ */
+export function useCardSize(): CardSize {
+    return useSettingsStore(useShallow(getCardSize));
+}
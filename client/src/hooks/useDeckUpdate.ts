@@ -0,0 +1,55 @@
+import { useCallback, useState } from "react";
+import type { ImportIntent } from "@/helpers/importParsers";
+import { applyDeckUpdate, planProjectDeckUpdate, type DeckUpdatePlan } from "@/helpers/deckUpdate";
+import { useProjectStore } from "@/store/projectStore";
+import { useToastStore } from "@/store/toast";
+
+export interface UseDeckUpdateReturn {
+    /** Plan awaiting confirmation, or null when no preview is open */
+    plan: DeckUpdatePlan | null;
+    isApplying: boolean;
+    /** Compare the intents against the current project and open the preview */
+    preview: (intents: ImportIntent[]) => Promise<void>;
+    apply: () => Promise<void>;
+    dismiss: () => void;
+}
+
+/**
+ * Shared state for the "update from source" import mode used by
+ * DecklistUploader and DeckBuilderImporter.
+ */
+export function useDeckUpdate(
+    processCards: (intents: ImportIntent[]) => Promise<void>,
+    onApplied?: () => void
+): UseDeckUpdateReturn {
+    const [plan, setPlan] = useState<DeckUpdatePlan | null>(null);
+    const [isApplying, setIsApplying] = useState(false);
+
+    const preview = useCallback(async (intents: ImportIntent[]) => {
+        const projectId = useProjectStore.getState().currentProjectId;
+        if (!projectId) {
+            useToastStore.getState().showErrorToast("No active project");
+            return;
+        }
+        setPlan(await planProjectDeckUpdate(projectId, intents));
+    }, []);
+
+    const apply = useCallback(async () => {
+        if (!plan) return;
+        setIsApplying(true);
+        try {
+            await applyDeckUpdate(plan, processCards);
+            setPlan(null);
+            onApplied?.();
+        } catch (err) {
+            const message = err instanceof Error ? err.message : "Failed to update deck";
+            useToastStore.getState().showErrorToast(message);
+        } finally {
+            setIsApplying(false);
+        }
+    }, [plan, processCards, onApplied]);
+
+    const dismiss = useCallback(() => setPlan(null), []);
+
+    return { plan, isApplying, preview, apply, dismiss };
+}
@@ -0,0 +1,56 @@
+import { useEffect } from "react";
+import { parseDeckFile } from "@/helpers/importParsers";
+import { addImageToUploadLibrary } from "@/helpers/uploadLibrary";
+import { useToastStore } from "@/store/toast";
+import { useCardImport } from "./useCardImport";
+
+/**
+ * Wires up the Electron app's file integration: deck files opened through a
+ * file association or dropped on the dock icon are imported into the project,
+ * and images that land in the watch folder are added to the upload library.
+ *
+ * No-op in the browser.
+ */
+export function useElectronFileIntegration(): void {
+    const { processCards } = useCardImport();
+
+    useEffect(() => {
+        const api = window.electronAPI;
+        if (!api?.onOpenFile || !api.takePendingOpenFiles) return;
+
+        const openDeckFile = (file: OpenedDeckFile) => {
+            const intents = parseDeckFile(file.name, file.content);
+            if (intents.length === 0) {
+                useToastStore.getState().showErrorToast(`No cards found in ${file.name}`);
+                return;
+            }
+            useToastStore.getState().showInfoToast(`Importing ${file.name}`);
+            void processCards(intents);
+        };
+
+        const unsubscribe = api.onOpenFile(openDeckFile);
+        // Files opened before the app had loaded are queued in the main process
+        api.takePendingOpenFiles()
+            .then((files) => files.forEach(openDeckFile))
+            .catch((err: unknown) => console.error("[ElectronFiles] Failed to read opened files:", err));
+        return unsubscribe;
+    }, [processCards]);
+
+    useEffect(() => {
+        const onWatchFolderImage = window.electronAPI?.onWatchFolderImage;
+        if (!onWatchFolderImage) return;
+
+        return onWatchFolderImage((file) => {
+            const blob = new Blob([file.data], { type: file.type });
+            const displayName = file.name.replace(/\.[^.]+$/, "");
+            addImageToUploadLibrary(blob, displayName)
+                .then((added) => {
+                    if (added) useToastStore.getState().showInfoToast(`Added ${file.name} to the upload library`);
+                })
+                .catch((err: unknown) => {
+                    console.error("[ElectronFiles] Failed to import watched image:", err);
+                    useToastStore.getState().showErrorToast(`Failed to import ${file.name}`);
+                });
+        });
+    }, []);
+}
@@ -13,6 +13,8 @@ const mockSettingsState = vi.hoisted(() => ({
     filterTypes: [] as string[],
     filterCategories: [] as string[],
     filterMatchType: "partial" as "partial" | "exact",
+    legalityFormat: "commander",
+    filterLegality: "all" as "all" | "legal" | "not_legal",
 }));
 
 vi.mock("../store/settings", () => ({
@@ -49,6 +51,8 @@ describe("useFilteredAndSortedCards", () => {
         mockSettingsState.filterTypes = [];
         mockSettingsState.filterCategories = [];
         mockSettingsState.filterMatchType = "partial";
+        mockSettingsState.legalityFormat = "commander";
+        mockSettingsState.filterLegality = "all";
         // Reset flipped cards
         mockFlippedCards.clear();
     });
@@ -199,6 +203,24 @@ describe("useFilteredAndSortedCards", () => {
             expect(result.current.filteredAndSortedCards[0].name).toBe("Commander");
         });
 
+        it("should filter by legality in the chosen format", () => {
+            const cards = [
+                createCard({ name: "Sol Ring", legalities: { commander: "legal", modern: "banned" } }),
+                createCard({ name: "Black Lotus", legalities: { commander: "banned", vintage: "restricted" } }),
+                createCard({ name: "Custom Art" }),
+            ];
+            mockSettingsState.filterLegality = "not_legal";
+
+            const { result, rerender } = renderHook(() => useFilteredAndSortedCards(cards));
+            expect(result.current.filteredAndSortedCards.map(c => c.name)).toEqual(["Black Lotus"]);
+
+            // Restricted counts as legal; unknown legality is never listed
+            mockSettingsState.legalityFormat = "vintage";
+            mockSettingsState.filterLegality = "legal";
+            rerender();
+            expect(result.current.filteredAndSortedCards.map(c => c.name)).toEqual(["Black Lotus"]);
+        });
+
         it("should filter by feature (dfc) using Dual Faced type", () => {
             const cards = [
                 createCard({ name: "Regular" }),
@@ -378,6 +400,19 @@ describe("useFilteredAndSortedCards", () => {
             expect(result.current.filteredAndSortedCards[1].name).toBe("A");
         });
 
+        it("should sort by price with unpriced cards first", () => {
+            const cards = [
+                createCard({ name: "Pricey", order: 1, prices: { usd: 40 } }),
+                createCard({ name: "Unpriced", order: 2 }),
+                createCard({ name: "Foil Only", order: 3, prices: { usd_foil: 2.5 } }),
+            ];
+            mockSettingsState.sortBy = "price_usd";
+
+            const { result } = renderHook(() => useFilteredAndSortedCards(cards));
+
+            expect(result.current.filteredAndSortedCards.map(c => c.name)).toEqual(["Unpriced", "Foil Only", "Pricey"]);
+        });
+
         it("should preserve order for manual sort", () => {
             const cards = [
                 createCard({ name: "First", order: 1 }),
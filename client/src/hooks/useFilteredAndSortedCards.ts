@@ -4,7 +4,7 @@ import type { CardOption } from "../../../shared/types";
 import { isCardbackId } from "../helpers/cardbackLibrary";
 import { useSelectionStore } from "../store/selection";
 import { useShallow } from "zustand/shallow";
-import { sortCards, matchesFilters, getCardTypes, type FilterCriteria } from "../helpers/sortAndFilterUtils";
+import { sortCards, matchesFilters, matchesLegality, getCardTypes, type FilterCriteria } from "../helpers/sortAndFilterUtils";
 
 /**
  * Hook to filter and sort cards based on global settings.
@@ -12,7 +12,10 @@ import { sortCards, matchesFilters, getCardTypes, type FilterCriteria } from "..
  */
 export function useFilteredAndSortedCards(cards: CardOption[] = []) {
     // Use single combined selector with shallow comparison to reduce re-renders
-    const { sortBy, sortOrder, filterManaCost, filterColors, filterTypes, filterCategories, filterMatchType } =
+    const {
+        sortBy, sortOrder, filterManaCost, filterColors, filterTypes, filterCategories, filterMatchType,
+        legalityFormat, filterLegality,
+    } =
         useSettingsStore(
             useShallow((state) => ({
                 sortBy: state.sortBy,
@@ -22,6 +25,8 @@ export function useFilteredAndSortedCards(cards: CardOption[] = []) {
                 filterTypes: state.filterTypes,
                 filterCategories: state.filterCategories,
                 filterMatchType: state.filterMatchType,
+                legalityFormat: state.legalityFormat,
+                filterLegality: state.filterLegality,
             }))
         );
     const flippedCardsSet = useSelectionStore((state) => state.flippedCards);
@@ -61,6 +66,9 @@ export function useFilteredAndSortedCards(cards: CardOption[] = []) {
                 if (!c.category || !criteria.categories.includes(c.category)) continue;
             }
 
+            // 1b. Filter by format legality (front face holds the card's legalities)
+            if (!matchesLegality(c, legalityFormat, filterLegality)) continue;
+
             // 2. Filter by Dual Faced pseudo-type
             const otherTypes = criteria.types.filter(t => t !== "Dual Faced");
             const dfcIsStrictRequirement = criteria.types.includes("Dual Faced") &&
@@ -122,7 +130,7 @@ export function useFilteredAndSortedCards(cards: CardOption[] = []) {
         }
 
         return { result, idsToFlip };
-    }, [cards, cardMap, filterManaCost, filterColors, filterTypes, filterCategories, filterMatchType, flippedCardsSet]);
+    }, [cards, cardMap, filterManaCost, filterColors, filterTypes, filterCategories, filterMatchType, legalityFormat, filterLegality, flippedCardsSet]);
 
     // Step 2: Sort filtered cards
     const filteredAndSortedCards = useMemo(() => {
@@ -12,6 +12,8 @@ import { toProxied } from "../helpers/imageHelper";
 import { darkenModeToInt } from "../components/CardCanvas/types";
 import { emergencyCleanup } from "../helpers/cacheUtils";
 import { debugLog } from "@/helpers/debug";
+import { getCardSize, getCardSizeKey } from "@/helpers/cardSizes";
+import { useShallow } from "zustand/react/shallow";
 
 /** Creates a GlobalSettings object from the current store state */
 function getGlobalSettings(bleedWidth: number): GlobalSettings {
@@ -101,6 +103,7 @@ export function useImageProcessing({
 }) {
   const dpi = useSettingsStore((state) => state.dpi);
   const darkenMode = useSettingsStore((state) => state.darkenMode);
+  const cardSize = useSettingsStore(useShallow(getCardSize));
   // Source-type bleed settings (withBleedMode, noBleedMode, etc.) are read
   // directly from useSettingsStore.getState() in usage to avoid stale closures
 
@@ -283,7 +286,9 @@ export function useImageProcessing({
           (card.hasBuiltInBleed === undefined
             ? currentImage.generatedHasBuiltInBleed !== undefined
             : currentImage.generatedHasBuiltInBleed === card.hasBuiltInBleed) &&
-          currentImage.generatedBleedMode === effectiveBleedMode
+          currentImage.generatedBleedMode === effectiveBleedMode &&
+          // Images processed before card sizes existed were generated at the standard size
+          (currentImage.generatedCardSize ?? getCardSizeKey()) === getCardSizeKey(cardSize)
         ) {
           debugLog('[DEBUG processCardInternal] DB CACHE HIT - skipping processing');
           processedImageIds.current.add(imageId);
@@ -312,6 +317,10 @@ export function useImageProcessing({
             existingBleedMm: effectiveExistingBleedMm,
             dpi,
             darkenMode: darkenModeToInt(darkenMode),
+            cardSize,
+            print: card.isUserUpload || isCardbackId(imageId)
+              ? undefined
+              : { name: card.name, set: card.set, number: card.number },
           }, priority);
 
           if ("displayBlob" in result) {
@@ -329,6 +338,7 @@ export function useImageProcessing({
               baseDisplayBlob, baseExportBlob, darknessFactor,
               generatedHasBuiltInBleed: result.detectedHasBuiltInBleed ?? card.hasBuiltInBleed ?? false,
               generatedBleedMode: effectiveBleedMode,
+              generatedCardSize: getCardSizeKey(cardSize),
             });
 
             await persistDetectedBleed(card, result.detectedHasBuiltInBleed);
@@ -370,6 +380,7 @@ export function useImageProcessing({
                     baseExportBlob: result.baseExportBlob,
                     generatedHasBuiltInBleed: hasBuiltInBleed,
                     generatedBleedMode: effectiveBleedMode,
+                    generatedCardSize: getCardSizeKey(cardSize),
                   });
                   await persistDetectedBleed(card, result.detectedHasBuiltInBleed);
                   processedImageIds.current.add(imageId);
@@ -403,7 +414,7 @@ export function useImageProcessing({
     inFlight.current[imageId] = p;
     p.finally(() => { delete inFlight.current[imageId]; });
     return p.then(() => true);
-  }, [bleedEdgeWidth, unit, dpi, imageProcessor, hydrated, darkenMode]);
+  }, [bleedEdgeWidth, unit, dpi, imageProcessor, hydrated, darkenMode, cardSize]);
 
   const ensureProcessed = useCallback(async (card: CardOption, priority: Priority = Priority.LOW): Promise<void> => {
     // Normal processing uses standard settings and checks session cache
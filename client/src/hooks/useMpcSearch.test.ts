@@ -7,6 +7,8 @@ vi.mock('@/helpers/mpcAutofillApi', () => ({
     searchMpcAutofill: vi.fn(),
 }));
 
+const mockSearchFilters = vi.hoisted(() => ({ current: null as { minDpi?: number } | null }));
+
 vi.mock('@/store', () => ({
     useSettingsStore: vi.fn((selector) => {
         const state = {
@@ -21,6 +23,7 @@ vi.mock('@/store', () => ({
                 favoriteMpcTags: [],
                 favoriteMpcDpi: 800,
                 favoriteMpcSort: 'dpi',
+                mpcSearchFilters: mockSearchFilters.current,
             },
         };
         return selector(state);
@@ -33,6 +36,7 @@ describe('useMpcSearch', () => {
     beforeEach(() => {
         vi.clearAllMocks();
         vi.useFakeTimers();
+        mockSearchFilters.current = null;
     });
 
     afterEach(() => {
@@ -75,7 +79,7 @@ describe('useMpcSearch', () => {
                 expect(searchMpcAutofill).toHaveBeenCalled();
             });
 
-            expect(searchMpcAutofill).toHaveBeenCalledWith('Sol Ring', 'CARD', true);
+            expect(searchMpcAutofill).toHaveBeenCalledWith('Sol Ring', 'CARD', true, null);
         });
 
         it('should update cards on successful search', async () => {
@@ -133,8 +137,8 @@ describe('useMpcSearch', () => {
             expect(result.current.isLoading).toBe(false);
 
             // Should have called searchMpcAutofill twice - once for CARD, once for TOKEN
-            expect(searchMpcAutofill).toHaveBeenCalledWith('treasure', 'CARD', true);
-            expect(searchMpcAutofill).toHaveBeenCalledWith('treasure', 'TOKEN', true);
+            expect(searchMpcAutofill).toHaveBeenCalledWith('treasure', 'CARD', true, null);
+            expect(searchMpcAutofill).toHaveBeenCalledWith('treasure', 'TOKEN', true, null);
         });
 
         it('should merge token and card results for collision names', async () => {
@@ -175,7 +179,28 @@ describe('useMpcSearch', () => {
 
             // Should only call once with CARD type
             expect(searchMpcAutofill).toHaveBeenCalledTimes(1);
-            expect(searchMpcAutofill).toHaveBeenCalledWith('Sol Ring', 'CARD', true);
+            expect(searchMpcAutofill).toHaveBeenCalledWith('Sol Ring', 'CARD', true, null);
+        });
+
+        it('should search again with saved search filters when they change', async () => {
+            (searchMpcAutofill as ReturnType<typeof vi.fn>).mockResolvedValue([]);
+
+            const { rerender } = renderHook(() => useMpcSearch('Sol Ring'));
+
+            await act(async () => {
+                vi.advanceTimersByTime(600);
+            });
+            await vi.waitFor(() => {
+                expect(searchMpcAutofill).toHaveBeenCalledTimes(1);
+            });
+
+            mockSearchFilters.current = { minDpi: 1000 };
+            rerender();
+
+            await vi.waitFor(() => {
+                expect(searchMpcAutofill).toHaveBeenCalledTimes(2);
+            });
+            expect(searchMpcAutofill).toHaveBeenLastCalledWith('Sol Ring', 'CARD', true, { minDpi: 1000 });
         });
     });
 
@@ -1,5 +1,5 @@
 import { useState, useEffect, useRef, useCallback, useMemo } from "react";
-import { searchMpcAutofill, type MpcAutofillCard } from "@/helpers/mpcAutofillApi";
+import { searchMpcAutofill, type MpcAutofillCard, type MpcSearchFilters } from "@/helpers/mpcAutofillApi";
 import { buildMpcSearchParams, TOKEN_TYPE_COLLISIONS, type MpcCardType } from "@/helpers/tokenQueryUtils";
 import { useSettingsStore, useUserPreferencesStore } from "@/store";
 
@@ -70,6 +70,7 @@ export function useMpcSearch(
     const favoriteMpcTags = useMemo(() => preferences?.favoriteMpcTags ?? [], [preferences?.favoriteMpcTags]);
     const favoriteMpcDpi = preferences?.favoriteMpcDpi ?? null;
     const favoriteMpcSort = preferences?.favoriteMpcSort ?? null;
+    const mpcSearchFilters = preferences?.mpcSearchFilters ?? null;
 
     // Settings for fuzzy search
     const mpcFuzzySearch = useSettingsStore(s => s.mpcFuzzySearch);
@@ -95,7 +96,7 @@ export function useMpcSearch(
     };
 
     // Refs for search deduplication
-    const lastSearchParams = useRef<{ name: string; fuzzy: boolean; cardType: MpcCardType; isCollision?: boolean } | null>(null);
+    const lastSearchParams = useRef<{ name: string; fuzzy: boolean; cardType: MpcCardType; isCollision?: boolean; filters?: MpcSearchFilters | null } | null>(null);
     const lastSearchedName = useRef<string>("");
 
     // Search handler
@@ -115,9 +116,10 @@ export function useMpcSearch(
         if (lastSearchParams.current?.name === searchQuery &&
             lastSearchParams.current?.fuzzy === mpcFuzzySearch &&
             lastSearchParams.current?.cardType === effectiveCardType &&
-            lastSearchParams.current?.isCollision === isCollision) return;
+            lastSearchParams.current?.isCollision === isCollision &&
+            lastSearchParams.current?.filters === mpcSearchFilters) return;
 
-        lastSearchParams.current = { name: searchQuery, fuzzy: mpcFuzzySearch, cardType: effectiveCardType, isCollision };
+        lastSearchParams.current = { name: searchQuery, fuzzy: mpcFuzzySearch, cardType: effectiveCardType, isCollision, filters: mpcSearchFilters };
         lastSearchedName.current = query;
         setIsLoading(true);
         setHasSearched(true);
@@ -126,13 +128,13 @@ export function useMpcSearch(
             if (isCollision) {
                 // Dual search: get both regular cards and tokens for collision names
                 const [cardResults, tokenResults] = await Promise.all([
-                    searchMpcAutofill(searchQuery, 'CARD', mpcFuzzySearch),
-                    searchMpcAutofill(searchQuery, 'TOKEN', mpcFuzzySearch),
+                    searchMpcAutofill(searchQuery, 'CARD', mpcFuzzySearch, mpcSearchFilters),
+                    searchMpcAutofill(searchQuery, 'TOKEN', mpcFuzzySearch, mpcSearchFilters),
                 ]);
                 // Merge results (tokens first, then cards)
                 setCards([...tokenResults, ...cardResults]);
             } else {
-                const results = await searchMpcAutofill(searchQuery, effectiveCardType, mpcFuzzySearch);
+                const results = await searchMpcAutofill(searchQuery, effectiveCardType, mpcFuzzySearch, mpcSearchFilters);
                 setCards(results);
             }
         } catch (err) {
@@ -141,7 +143,7 @@ export function useMpcSearch(
         } finally {
             setIsLoading(false);
         }
-    }, [query, mpcFuzzySearch, cardData, overrideCardType]);
+    }, [query, mpcFuzzySearch, mpcSearchFilters, cardData, overrideCardType]);
 
     // Auto-search effect
     useEffect(() => {
@@ -166,12 +168,13 @@ export function useMpcSearch(
         return () => clearTimeout(timeoutId);
     }, [autoSearch, query, performSearch]);
 
-    // Re-search when fuzzy toggle changes
+    // Re-search when fuzzy toggle or search filters change
     useEffect(() => {
         if (!hasSearched || !query || query !== lastSearchedName.current) return;
-        if (lastSearchParams.current?.fuzzy === mpcFuzzySearch) return;
+        if (lastSearchParams.current?.fuzzy === mpcFuzzySearch &&
+            lastSearchParams.current?.filters === mpcSearchFilters) return;
         performSearch();
-    }, [mpcFuzzySearch, hasSearched, query, performSearch]);
+    }, [mpcFuzzySearch, mpcSearchFilters, hasSearched, query, performSearch]);
 
     // Filtered results
     const filteredCards = useMemo(() => {
@@ -3,6 +3,11 @@ import { renderHook } from "@testing-library/react";
 import { usePageViewHotkeys } from "./usePageViewHotkeys";
 import { useSelectionStore } from "../store/selection";
 import { useUndoRedoStore } from "../store/undoRedo";
+import { copyCardsToClipboard, pasteFromClipboard } from "../helpers/cardClipboard";
+import { useUserPreferencesStore } from "../store/userPreferences";
+import { useKeyboardShortcutsStore } from "../store/keyboardShortcuts";
+import { useSettingsStore } from "../store/settings";
+import { hasCommandHandler } from "../helpers/commands";
 
 // Mock the stores
 vi.mock("../store/selection", () => ({
@@ -11,6 +16,11 @@ vi.mock("../store/selection", () => ({
     },
 }));
 
+vi.mock("../helpers/cardClipboard", () => ({
+    copyCardsToClipboard: vi.fn().mockResolvedValue(2),
+    pasteFromClipboard: vi.fn().mockResolvedValue(true),
+}));
+
 vi.mock("../store/undoRedo", () => ({
     useUndoRedoStore: {
         getState: vi.fn(),
@@ -173,6 +183,110 @@ describe("usePageViewHotkeys", () => {
         });
     });
 
+    describe("Ctrl/Cmd+C and paste", () => {
+        function pasteEvent(data: Record<string, string>) {
+            const event = new Event("paste", { cancelable: true });
+            Object.defineProperty(event, "clipboardData", {
+                value: { getData: (type: string) => data[type] ?? "" },
+            });
+            return event;
+        }
+
+        it("should copy the selected cards on Ctrl+C", () => {
+            renderHook(() => usePageViewHotkeys(["card-1", "card-2"], true));
+
+            Object.defineProperty(navigator, 'platform', {
+                value: 'Win32',
+                configurable: true,
+            });
+
+            document.dispatchEvent(new KeyboardEvent("keydown", { key: "c", ctrlKey: true }));
+
+            expect(copyCardsToClipboard).toHaveBeenCalledWith(["card-1", "card-2"]);
+        });
+
+        it("should paste clipboard HTML and text", () => {
+            renderHook(() => usePageViewHotkeys(["card-1"], true));
+
+            const event = pasteEvent({ "text/html": "<div data-proxxied-cards=\"x\"></div>", "text/plain": "1x Sol Ring" });
+            document.dispatchEvent(event);
+
+            expect(event.defaultPrevented).toBe(true);
+            expect(pasteFromClipboard).toHaveBeenCalledWith({
+                html: "<div data-proxxied-cards=\"x\"></div>",
+                text: "1x Sol Ring",
+            });
+        });
+
+        it("should ignore empty pastes and pastes when not active", () => {
+            const { unmount } = renderHook(() => usePageViewHotkeys(["card-1"], true));
+            document.dispatchEvent(pasteEvent({ "text/plain": "  " }));
+            unmount();
+
+            renderHook(() => usePageViewHotkeys(["card-1"], false));
+            document.dispatchEvent(pasteEvent({ "text/plain": "1x Sol Ring" }));
+
+            expect(pasteFromClipboard).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("command bindings", () => {
+        beforeEach(() => {
+            Object.defineProperty(navigator, 'platform', {
+                value: 'Win32',
+                configurable: true,
+            });
+        });
+
+        afterEach(() => {
+            useUserPreferencesStore.setState({ preferences: null });
+            useKeyboardShortcutsStore.getState().closePalette();
+        });
+
+        it("should follow remapped bindings from user preferences", () => {
+            useUserPreferencesStore.setState({
+                preferences: { id: "default", settings: {}, favoriteCardbacks: [], keyBindings: { flip: ["Mod+Shift+F"] } },
+            });
+            renderHook(() => usePageViewHotkeys(["card-1"], true));
+
+            document.dispatchEvent(new KeyboardEvent("keydown", { key: "f" }));
+            expect(mockToggleFlip).not.toHaveBeenCalled();
+
+            document.dispatchEvent(new KeyboardEvent("keydown", { key: "F", ctrlKey: true, shiftKey: true }));
+            expect(mockToggleFlip).toHaveBeenCalledWith("card-1");
+        });
+
+        it("should open the command palette on Ctrl+K", () => {
+            renderHook(() => usePageViewHotkeys(["card-1"], true));
+
+            const event = new KeyboardEvent("keydown", { key: "k", ctrlKey: true, cancelable: true });
+            document.dispatchEvent(event);
+
+            expect(event.defaultPrevented).toBe(true);
+            expect(useKeyboardShortcutsStore.getState().isPaletteOpen).toBe(true);
+        });
+
+        it("should zoom with Ctrl+= and Ctrl+-", () => {
+            useSettingsStore.getState().setZoom(1);
+            renderHook(() => usePageViewHotkeys(["card-1"], true));
+
+            document.dispatchEvent(new KeyboardEvent("keydown", { key: "=", ctrlKey: true }));
+            expect(useSettingsStore.getState().zoom).toBeCloseTo(1.1);
+
+            document.dispatchEvent(new KeyboardEvent("keydown", { key: "-", ctrlKey: true }));
+            document.dispatchEvent(new KeyboardEvent("keydown", { key: "-", ctrlKey: true }));
+            expect(useSettingsStore.getState().zoom).toBeCloseTo(0.9);
+        });
+
+        it("should unregister its commands on unmount", () => {
+            const { unmount } = renderHook(() => usePageViewHotkeys(["card-1"], true));
+            expect(hasCommandHandler("undo")).toBe(true);
+
+            unmount();
+            expect(hasCommandHandler("undo")).toBe(false);
+        });
+    });
+
     describe("active state", () => {
         it("should not handle keys when not active", () => {
             renderHook(() => usePageViewHotkeys(["card-1", "card-2"], false));
@@ -23,6 +23,7 @@ const mockSettingsState = vi.hoisted(() => ({
     filterColors: [] as string[],
     filterTypes: [] as string[],
     filterCategories: [] as string[],
+    filterLegality: "all" as "all" | "legal" | "not_legal",
     cardPositionX: 0,
     cardPositionY: 0,
     withBleedTargetMode: "global" as const,
@@ -97,6 +98,7 @@ describe("usePageViewSettings", () => {
         mockSettingsState.filterColors = [];
         mockSettingsState.filterTypes = [];
         mockSettingsState.filterCategories = [];
+        mockSettingsState.filterLegality = "all";
     });
 
     it("should return all settings", () => {
@@ -180,6 +182,14 @@ describe("usePageViewSettings", () => {
 
             expect(result.current.dndDisabled).toBe(true);
         });
+
+        it("should be true when legality filter is active", () => {
+            mockSettingsState.filterLegality = "not_legal";
+
+            const { result } = renderHook(() => usePageViewSettings());
+
+            expect(result.current.dndDisabled).toBe(true);
+        });
     });
 
     describe("sourceSettings", () => {
@@ -24,6 +24,7 @@ export function usePageViewSettings() {
             filterColors: state.filterColors,
             filterTypes: state.filterTypes,
             filterCategories: state.filterCategories,
+            filterLegality: state.filterLegality,
             cardPositionX: state.cardPositionX,
             cardPositionY: state.cardPositionY,
             withBleedTargetMode: state.withBleedTargetMode,
@@ -61,6 +62,7 @@ export function usePageViewSettings() {
         filterColors,
         filterTypes,
         filterCategories,
+        filterLegality,
     } = settings;
 
     // Build source settings object for computeCardLayouts
@@ -76,7 +78,8 @@ export function usePageViewSettings() {
         : 0;
 
     const dndDisabled =
-        sortBy !== "manual" || filterManaCost.length > 0 || filterColors.length > 0 || filterTypes.length > 0 || filterCategories.length > 0;
+        sortBy !== "manual" || filterManaCost.length > 0 || filterColors.length > 0 || filterTypes.length > 0 || filterCategories.length > 0 ||
+        filterLegality !== "all";
 
     const {
         setIsSettingsPanelCollapsed,
@@ -41,7 +41,7 @@ function clearShareFromUrl(): void {
 /**
  * Apply share settings to the settings store
  */
-function applyShareSettings(settings: ShareSettings): void {
+export function applyShareSettings(settings: ShareSettings): void {
     const store = useSettingsStore.getState();
 
     // Layout
@@ -49,6 +49,12 @@ function applyShareSettings(settings: ShareSettings): void {
     if (settings.c !== undefined) store.setColumns(settings.c);
     if (settings.r !== undefined) store.setRows(settings.r);
     if (settings.dpi !== undefined) store.setDpi(settings.dpi);
+    if (settings.csp) store.setCardSizePreset(settings.csp as Parameters<typeof store.setCardSizePreset>[0]);
+    if (settings.csp === 'custom') {
+        if (settings.cW !== undefined) store.setCardWidthMm(settings.cW);
+        if (settings.cH !== undefined) store.setCardHeightMm(settings.cH);
+        if (settings.cR !== undefined) store.setCardCornerRadiusMm(settings.cR);
+    }
 
     // Bleed
     if (settings.bl !== undefined) store.setBleedEdge(settings.bl);
@@ -76,6 +82,7 @@ function applyShareSettings(settings: ShareSettings): void {
     if (settings.cls) store.setCutLineStyle(settings.cls as Parameters<typeof store.setCutLineStyle>[0]);
     if (settings.rm) store.setRegistrationMarks(settings.rm as Parameters<typeof store.setRegistrationMarks>[0]);
     if (settings.rmp !== undefined) store.setRegistrationMarksPortrait(settings.rmp);
+    if (settings.cp) store.setCutterProfile(settings.cp as Parameters<typeof store.setCutterProfile>[0]);
 
     // Spacing/Position
     if (settings.spc !== undefined) store.setCardSpacingMm(settings.spc);
@@ -102,6 +109,8 @@ function applyShareSettings(settings: ShareSettings): void {
     if (settings.fcat) store.setFilterCategories(settings.fcat);
     if (settings.ffeat) store.setFilterFeatures(settings.ffeat);
     if (settings.fmt) store.setFilterMatchType(settings.fmt as Parameters<typeof store.setFilterMatchType>[0]);
+    if (settings.lf) store.setLegalityFormat(settings.lf);
+    if (settings.flg) store.setFilterLegality(settings.flg as Parameters<typeof store.setFilterLegality>[0]);
 
     // Export
     if (settings.em) store.setExportMode(settings.em as Parameters<typeof store.setExportMode>[0]);
@@ -112,7 +121,7 @@ function applyShareSettings(settings: ShareSettings): void {
  * Convert deserialized share data to ImportIntents
  * Handles DFC links by filtering out back cards and attaching their IDs to front card intents.
  */
-function convertToImportIntents(
+export function convertToImportIntents(
     cards: ReturnType<typeof deserializeForImport>['cards'],
     dfcLinks: [number, number][]
 ): ImportIntent[] {
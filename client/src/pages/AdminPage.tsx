@@ -0,0 +1,311 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Button, Label, TextInput } from "flowbite-react";
+import { ArrowLeft, Download, RefreshCw, Trash2 } from "lucide-react";
+import type { AdminCacheName, AdminStats, BulkImportSource, ImportSchedulerStatus } from "../../../shared/types";
+import {
+  AdminApiError,
+  cleanupExpiredShares,
+  fetchAdminStats,
+  fetchSchedulerStatus,
+  formatBytes,
+  getStoredAdminToken,
+  purgeCache,
+  startBulkImport,
+  storeAdminToken,
+} from "../helpers/adminApi";
+
+// How often to poll the scheduler while an import runs
+const IMPORT_POLL_MS = 2000;
+
+function formatDate(iso: string | number | null): string {
+  return iso === null ? "never" : new Date(iso).toLocaleString();
+}
+
+function StatRow({ label, value }: { label: string; value: string | number }) {
+  return (
+    <div className="flex justify-between gap-4 text-sm">
+      <span className="text-gray-600 dark:text-gray-400">{label}</span>
+      <span className="font-medium text-gray-900 dark:text-white">{value}</span>
+    </div>
+  );
+}
+
+function Panel({ title, children, actions }: { title: string; children: React.ReactNode; actions?: React.ReactNode }) {
+  return (
+    <section className="rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-4 space-y-3">
+      <h2 className="text-lg font-semibold text-gray-900 dark:text-white">{title}</h2>
+      <div className="space-y-1">{children}</div>
+      {actions && <div className="flex flex-wrap gap-2 pt-1">{actions}</div>}
+    </section>
+  );
+}
+
+/**
+ * Server admin dashboard, opened with ?admin. Talks to the token-protected
+ * /api/admin routes; nothing here touches the local project.
+ */
+export default function AdminPage() {
+  const [tokenInput, setTokenInput] = useState(getStoredAdminToken);
+  const [token, setToken] = useState(getStoredAdminToken);
+  const [stats, setStats] = useState<AdminStats | null>(null);
+  const [scheduler, setScheduler] = useState<ImportSchedulerStatus | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const wasImporting = useRef(false);
+
+  const handleError = useCallback((err: unknown) => {
+    if (err instanceof AdminApiError && err.status === 401) {
+      storeAdminToken("");
+      setToken("");
+      setStats(null);
+      setScheduler(null);
+    }
+    setError(err instanceof Error ? err.message : String(err));
+  }, []);
+
+  const refresh = useCallback(async () => {
+    if (!token) return;
+    try {
+      const [nextStats, nextScheduler] = await Promise.all([fetchAdminStats(token), fetchSchedulerStatus(token)]);
+      setStats(nextStats);
+      setScheduler(nextScheduler);
+      setError(null);
+    } catch (err) {
+      handleError(err);
+    }
+  }, [token, handleError]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  // Poll import progress; refresh the stats once it finishes
+  const importing = scheduler?.import.running ?? false;
+  useEffect(() => {
+    if (!importing) {
+      if (wasImporting.current) void refresh();
+      wasImporting.current = false;
+      return;
+    }
+    wasImporting.current = true;
+    const timer = setInterval(() => {
+      fetchSchedulerStatus(token).then(setScheduler).catch(handleError);
+    }, IMPORT_POLL_MS);
+    return () => clearInterval(timer);
+  }, [importing, token, refresh, handleError]);
+
+  const runAction = async (action: () => Promise<string>) => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      setMessage(await action());
+      await refresh();
+    } catch (err) {
+      handleError(err);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleConnect = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = tokenInput.trim();
+    storeAdminToken(trimmed);
+    setToken(trimmed);
+    setError(null);
+  };
+
+  const handlePurge = (name: AdminCacheName, expiredOnly = false) => {
+    const what = expiredOnly ? `expired entries from the ${name} cache` : `the whole ${name} cache`;
+    if (!expiredOnly && !window.confirm(`Purge ${what}?`)) return;
+    void runAction(async () => {
+      const removed = await purgeCache(token, name, expiredOnly);
+      return `Removed ${removed} ${expiredOnly ? "expired " : ""}entries from the ${name} cache.`;
+    });
+  };
+
+  const handleImport = (source: BulkImportSource) => {
+    void runAction(async () => {
+      setScheduler(await startBulkImport(token, source));
+      return source === "file" ? "Bulk data file import started." : "Bulk data download started.";
+    });
+  };
+
+  const handleShareCleanup = () => {
+    void runAction(async () => `Removed ${await cleanupExpiredShares(token)} expired shares.`);
+  };
+
+  const progress = scheduler?.import.progress;
+  const progressPercent = progress?.totalBytes
+    ? Math.min(100, Math.round((progress.bytesRead / progress.totalBytes) * 100))
+    : null;
+
+  return (
+    <div className="min-h-dvh bg-gray-50 dark:bg-gray-900">
+      <div className="max-w-5xl mx-auto p-4 space-y-4">
+        <header className="flex items-center justify-between gap-4">
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Server admin</h1>
+          <div className="flex gap-2">
+            {token && (
+              <Button size="sm" color="light" onClick={() => void refresh()} disabled={busy}>
+                <RefreshCw className="w-4 h-4 mr-1" /> Refresh
+              </Button>
+            )}
+            <Button size="sm" color="light" href={window.location.pathname}>
+              <ArrowLeft className="w-4 h-4 mr-1" /> Back to Proxxied
+            </Button>
+          </div>
+        </header>
+
+        {error && (
+          <div role="alert" className="rounded-lg bg-red-50 dark:bg-red-900/30 p-3 text-sm text-red-700 dark:text-red-300">
+            {error}
+          </div>
+        )}
+        {message && (
+          <div role="status" className="rounded-lg bg-green-50 dark:bg-green-900/30 p-3 text-sm text-green-700 dark:text-green-300">
+            {message}
+          </div>
+        )}
+
+        {!token && (
+          <form onSubmit={handleConnect} className="max-w-sm space-y-2">
+            <Label htmlFor="admin-token">Admin token</Label>
+            <TextInput
+              id="admin-token"
+              type="password"
+              value={tokenInput}
+              onChange={(e) => setTokenInput(e.target.value)}
+              placeholder="PROXXIED_ADMIN_TOKEN"
+              autoComplete="current-password"
+            />
+            <Button type="submit" disabled={!tokenInput.trim()}>Connect</Button>
+          </form>
+        )}
+
+        {token && stats && scheduler && (
+          <div className="grid gap-4 md:grid-cols-2">
+            <Panel
+              title="Bulk import"
+              actions={
+                <>
+                  <Button size="sm" onClick={() => handleImport("scryfall")} disabled={busy || importing || stats.offline}>
+                    <Download className="w-4 h-4 mr-1" /> Import from Scryfall
+                  </Button>
+                  {scheduler.bulkDataFile && (
+                    <Button size="sm" color="light" onClick={() => handleImport("file")} disabled={busy || importing}>
+                      Re-import file
+                    </Button>
+                  )}
+                </>
+              }
+            >
+              <StatRow label="Schedule" value={scheduler.enabled ? scheduler.description : "disabled"} />
+              <StatRow label="Next run" value={formatDate(scheduler.nextRun)} />
+              <StatRow label="Last import" value={formatDate(scheduler.lastImport)} />
+              {scheduler.bulkDataFile && <StatRow label="Bulk data file" value={scheduler.bulkDataFile} />}
+              {importing && (
+                <div className="pt-2 space-y-1">
+                  <StatRow
+                    label={`Importing (${scheduler.import.source})`}
+                    value={`${(progress?.cardsProcessed ?? 0).toLocaleString()} cards`}
+                  />
+                  {progressPercent !== null && (
+                    <div
+                      className="h-2 rounded bg-gray-200 dark:bg-gray-700"
+                      role="progressbar"
+                      aria-valuenow={progressPercent}
+                      aria-valuemin={0}
+                      aria-valuemax={100}
+                    >
+                      <div className="h-2 rounded bg-blue-600" style={{ width: `${progressPercent}%` }} />
+                    </div>
+                  )}
+                </div>
+              )}
+              {!importing && scheduler.import.lastResult && (
+                <StatRow
+                  label="Last result"
+                  value={`${scheduler.import.lastResult.cardsImported.toLocaleString()} cards in ${(scheduler.import.lastResult.durationMs / 1000).toFixed(0)}s`}
+                />
+              )}
+              {scheduler.import.lastError && (
+                <p className="text-sm text-red-600 dark:text-red-400">
+                  Last error ({formatDate(scheduler.import.lastError.at)}): {scheduler.import.lastError.message}
+                </p>
+              )}
+            </Panel>
+
+            <Panel
+              title="Card database"
+              actions={
+                <Button size="sm" color="red" onClick={() => handlePurge("cards")} disabled={busy || importing}>
+                  <Trash2 className="w-4 h-4 mr-1" /> Purge cards
+                </Button>
+              }
+            >
+              <StatRow label="Cards" value={stats.cards.count.toLocaleString()} />
+              <StatRow label="Database size" value={formatBytes(stats.cards.dbSizeBytes)} />
+              <StatRow label="Mode" value={stats.offline ? "offline" : "online"} />
+            </Panel>
+
+            <Panel
+              title="Scryfall response cache"
+              actions={
+                <>
+                  <Button size="sm" color="light" onClick={() => handlePurge("scryfall", true)} disabled={busy}>Purge expired</Button>
+                  <Button size="sm" color="red" onClick={() => handlePurge("scryfall")} disabled={busy}>Purge all</Button>
+                </>
+              }
+            >
+              {stats.scryfallCache.length === 0 && <StatRow label="Entries" value={0} />}
+              {stats.scryfallCache.map((entry) => (
+                <StatRow key={entry.endpoint} label={entry.endpoint} value={`${entry.count} (${entry.expired} expired)`} />
+              ))}
+            </Panel>
+
+            <Panel
+              title="MPC search cache"
+              actions={
+                <>
+                  <Button size="sm" color="light" onClick={() => handlePurge("mpc", true)} disabled={busy}>Purge expired</Button>
+                  <Button size="sm" color="red" onClick={() => handlePurge("mpc")} disabled={busy}>Purge all</Button>
+                </>
+              }
+            >
+              <StatRow label="Entries" value={stats.mpcCache.count} />
+              <StatRow label="Oldest entry" value={formatDate(stats.mpcCache.oldestTimestamp)} />
+            </Panel>
+
+            <Panel
+              title="Image cache"
+              actions={
+                <Button size="sm" color="red" onClick={() => handlePurge("images")} disabled={busy}>
+                  <Trash2 className="w-4 h-4 mr-1" /> Purge images
+                </Button>
+              }
+            >
+              <StatRow label="Files" value={stats.imageCache.files.toLocaleString()} />
+              <StatRow label="Size" value={`${formatBytes(stats.imageCache.bytes)} of ${formatBytes(stats.imageCache.maxBytes)}`} />
+            </Panel>
+
+            <Panel
+              title="Shares"
+              actions={
+                <Button size="sm" color="light" onClick={handleShareCleanup} disabled={busy || stats.shares.expired === 0}>
+                  Clean up expired
+                </Button>
+              }
+            >
+              <StatRow label="Shares" value={stats.shares.count} />
+              <StatRow label="Expired" value={stats.shares.expired} />
+              <StatRow label="Revisions" value={stats.shares.revisions} />
+              <StatRow label="Stored size" value={formatBytes(stats.shares.bytes)} />
+            </Panel>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
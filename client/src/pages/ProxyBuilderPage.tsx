@@ -12,6 +12,7 @@ import { UploadSection } from "../components/UploadSection";
 import { useImageProcessing } from "../hooks/useImageProcessing";
 import { useProcessingMonitor } from "../hooks/useProcessingMonitor";
 import { useCardEnrichment } from "../hooks/useCardEnrichment";
+import { useElectronFileIntegration } from "../hooks/useElectronFileIntegration";
 import { useSettingsStore, useProjectStore, useUserPreferencesStore } from "../store";
 import { useLoadingStore } from "../store/loading";
 import { db, type Image } from "../db";
@@ -20,11 +21,13 @@ import { rebalanceCardOrders } from "@/helpers/dbUtils";
 import { enforceImageCacheLimits, enforceMetadataCacheLimits } from "../helpers/cacheUtils";
 import { queueBulkPreRender } from "../helpers/effectCache";
 import { hasActiveAdjustments } from "../helpers/adjustmentUtils";
+import { hasArtTransform } from "../helpers/artTransform";
 import { ensureBuiltinCardbacksInDb } from "../helpers/cardbackLibrary";
 import { initializeFlipState, useSelectionStore } from "../store/selection";
 import { useFilteredAndSortedCards } from "../hooks/useFilteredAndSortedCards";
 
 import { getExpectedBleedWidth, getHasBuiltInBleed, getEffectiveBleedMode, type GlobalSettings } from "../helpers/imageSpecs";
+import { getCardSize, getCardSizeKey } from "../helpers/cardSizes";
 import { CONSTANTS } from "@/constants/commonConstants";
 
 
@@ -67,6 +70,9 @@ export default function ProxyBuilderPage() {
   // Monitor worker activity to show/hide processing toast at the right time
   useProcessingMonitor(imageProcessor);
 
+  // Electron: opened deck files and the watch folder
+  useElectronFileIntegration();
+
   const isUploadPanelCollapsed = useUserPreferencesStore((state) => state.preferences?.isUploadPanelCollapsed ?? false);
   const setIsUploadPanelCollapsed = useUserPreferencesStore((state) => state.setIsUploadPanelCollapsed);
   const toggleUploadPanel = useCallback(() => setIsUploadPanelCollapsed(!isUploadPanelCollapsed), [isUploadPanelCollapsed, setIsUploadPanelCollapsed]);
@@ -192,6 +198,8 @@ export default function ProxyBuilderPage() {
 
   // Get current DPI for comparison in processUnprocessed
   const dpi = useSettingsStore((state) => state.dpi);
+  // Processed images are generated at the project's card size
+  const cardSizeKey = useSettingsStore((state) => getCardSizeKey(getCardSize(state)));
 
   // Subscribe to imageVersion to trigger refresh when images are processed
   // This works around a Dexie useLiveQuery reactivity issue where updates to
@@ -350,8 +358,9 @@ export default function ProxyBuilderPage() {
         // Also check generation parameters match (same as ensureProcessed smart cache)
         const isBuiltInBleedMatch = img.generatedHasBuiltInBleed === hasBuiltInBleed;
         const isBleedModeMatch = img.generatedBleedMode === effectiveBleedMode;
+        const isCardSizeMatch = (img.generatedCardSize ?? getCardSizeKey()) === cardSizeKey;
 
-        const isProcessed = isDpiMatch && isBleedMatch && isBuiltInBleedMatch && isBleedModeMatch;
+        const isProcessed = isDpiMatch && isBleedMatch && isBuiltInBleedMatch && isBleedModeMatch && isCardSizeMatch;
 
         if (!isProcessed) {
           imageIdToRepresentativeCard.set(card.imageId, card);
@@ -372,10 +381,11 @@ export default function ProxyBuilderPage() {
     // Debounce slightly to avoid thrashing on bulk adds
     const timer = setTimeout(() => processUnprocessed(), 200);
     return () => clearTimeout(timer);
-  }, [allCards, ensureProcessed, dpi, bleedEdge, bleedEdgeWidthMm, bleedEdgeUnit]);
+  }, [allCards, ensureProcessed, dpi, cardSizeKey, bleedEdge, bleedEdgeWidthMm, bleedEdgeUnit]);
 
   // Trigger reprocessing when DPI or bleed settings actually change
   const prevDpi = useRef(dpi);
+  const prevCardSizeKey = useRef(cardSizeKey);
   const prevBleedEdge = useRef(bleedEdge);
   const prevBleedEdgeWidth = useRef(bleedEdgeWidth);
   // Track previous bleed settings to trigger updates (new schema)
@@ -387,6 +397,7 @@ export default function ProxyBuilderPage() {
 
   useEffect(() => {
     const dpiChanged = prevDpi.current !== dpi;
+    const cardSizeChanged = prevCardSizeKey.current !== cardSizeKey;
     const bleedEdgeChanged = prevBleedEdge.current !== bleedEdge;
     const bleedWidthChanged = prevBleedEdgeWidth.current !== bleedEdgeWidthMm;
 
@@ -400,6 +411,7 @@ export default function ProxyBuilderPage() {
 
     // Update all refs for next comparison
     prevDpi.current = dpi;
+    prevCardSizeKey.current = cardSizeKey;
     prevBleedEdge.current = bleedEdge;
     prevBleedEdgeWidth.current = bleedEdgeWidthMm;
     prevWithBleedSourceAmount.current = withBleedSourceAmount;
@@ -409,7 +421,7 @@ export default function ProxyBuilderPage() {
     prevNoBleedTargetAmount.current = noBleedTargetAmount;
 
     // Only reprocess if settings actually changed
-    if (!dpiChanged && !bleedEdgeChanged && !bleedWidthChanged && !bleedSettingsChanged) {
+    if (!dpiChanged && !cardSizeChanged && !bleedEdgeChanged && !bleedWidthChanged && !bleedSettingsChanged) {
       return;
     }
 
@@ -451,12 +463,15 @@ export default function ProxyBuilderPage() {
         // 1. Export DPI mismatch
         if (img.exportDpi !== dpi) return true;
 
-        // 2. Export bleed width mismatch (allow small float diff)
+        // 2. Generated for a different card size
+        if ((img.generatedCardSize ?? getCardSizeKey()) !== cardSizeKey) return true;
+
+        // 3. Export bleed width mismatch (allow small float diff)
         if (img.exportBleedWidth === undefined) return true;
         const diff = Math.abs(img.exportBleedWidth - expectedBleedWidth);
         if (diff > 0.001) return true;
 
-        // 3. Missing blobs (shouldn't happen if fully processed, but good safety)
+        // 4. Missing blobs (shouldn't happen if fully processed, but good safety)
         if (!img.displayBlob || !img.exportBlob) return true;
 
         return false;
@@ -467,7 +482,7 @@ export default function ProxyBuilderPage() {
 
         // After reprocessing, queue effect re-rendering for cards with active adjustments
         // This is scheduled after a delay to let base image processing complete first
-        if (dpiChanged) {
+        if (dpiChanged || cardSizeChanged) {
           setTimeout(async () => {
             const freshImages = await db.images.toArray();
             const freshImageMap = new Map(freshImages.map(i => [i.id, i]));
@@ -475,7 +490,7 @@ export default function ProxyBuilderPage() {
             const effectTasks = cardsToReprocess
               .filter(card => {
                 const img = card.imageId ? freshImageMap.get(card.imageId) : undefined;
-                return card.overrides && hasActiveAdjustments(card.overrides) && img?.exportBlob;
+                return card.overrides && (hasActiveAdjustments(card.overrides) || hasArtTransform(card.overrides)) && img?.exportBlob;
               })
               .map(card => ({
                 card,
@@ -492,7 +507,7 @@ export default function ProxyBuilderPage() {
 
     return () => clearTimeout(timer);
   }, [
-    allCards, ensureProcessed, dpi, bleedEdgeUnit,
+    allCards, ensureProcessed, dpi, cardSizeKey, bleedEdgeUnit,
     withBleedSourceAmount, withBleedTargetMode, withBleedTargetAmount,
     noBleedTargetMode, noBleedTargetAmount,
     // Add missing deps
@@ -55,6 +55,9 @@ uniform vec3 uColorReplaceTarget;   // RGB (0-1)
 uniform float uColorReplaceThreshold; // 0-100
 // Gamma
 uniform float uGamma;               // 0.1-3.0
+// Curves & Levels
+uniform sampler2D uToneLut;         // 256x1 RGB lookup table (Curves & Levels)
+uniform float uToneLutEnabled;      // 0 or 1
 
 #ifdef IS_PIXI
 uniform vec4 uOutputFrame;          // x, y = offset, z, w = size
@@ -531,12 +534,24 @@ vec3 applyGamma(vec3 color) {
     return pow(color, vec3(1.0 / uGamma));
 }
 
+vec3 applyToneCurve(vec3 color) {
+    if (uToneLutEnabled < 0.5) return color;
+    // Sample texel centers so 0 and 1 map to the first and last entries
+    vec3 c = clamp(color, 0.0, 1.0) * (255.0 / 256.0) + (0.5 / 256.0);
+    return vec3(
+        texture(uToneLut, vec2(c.r, 0.5)).r,
+        texture(uToneLut, vec2(c.g, 0.5)).g,
+        texture(uToneLut, vec2(c.b, 0.5)).b
+    );
+}
+
 void main() {
     vec4 color = texture(uTexture, vTextureCoord);
     vec3 rgb = color.rgb;
     
     rgb = applyNoiseReduction(rgb, vTextureCoord);
     rgb = applySharpness(rgb, vTextureCoord);
+    rgb = applyToneCurve(rgb);
     rgb = applyGamma(rgb);
     rgb = applyBrightnessContrast(rgb);
     rgb = applySaturation(rgb);
@@ -0,0 +1,44 @@
+/**
+ * Shared artwork transform shader (scale, offset, rotation, flip).
+ * Used by:
+ * - ArtTransformFilter (Card Editor preview)
+ * - cardCanvasWorker (PDF/ZIP export, effect cache), via getWorkerAdjustmentShader()
+ *
+ * uArtTransform comes from getArtTransformMatrix() and maps output UVs to
+ * source UVs. Samples are clamped so uncovered areas repeat the edge pixels.
+ */
+
+export const ART_TRANSFORM_FRAGMENT = `
+precision highp float;
+
+in vec2 vTextureCoord;
+out vec4 finalColor;
+
+uniform sampler2D uTexture;
+uniform mat3 uArtTransform;
+
+#ifdef IS_PIXI
+uniform vec4 uOutputFrame;          // x, y = offset, z, w = size
+uniform vec4 uInputSize;            // x, y = texture size, z, w = 1/texture size
+uniform vec4 uInputClamp;           // min/max UV of the filter input
+#endif
+
+void main() {
+#ifdef IS_PIXI
+    vec2 ratio = uOutputFrame.zw * uInputSize.zw;
+    vec2 uv = vTextureCoord / ratio;
+#else
+    // Worker draws into a framebuffer: flip so row 0 stays the top row,
+    // like the uploaded source bitmap
+    vec2 uv = vec2(vTextureCoord.x, 1.0 - vTextureCoord.y);
+#endif
+
+    vec2 src = clamp((uArtTransform * vec3(uv, 1.0)).xy, 0.0, 1.0);
+
+#ifdef IS_PIXI
+    finalColor = texture(uTexture, clamp(src * ratio, uInputClamp.xy, uInputClamp.zw));
+#else
+    finalColor = texture(uTexture, src);
+#endif
+}
+`;
@@ -42,4 +42,21 @@ describe("keyboardShortcutsStore", () => {
             expect(useKeyboardShortcutsStore.getState().isOpen).toBe(false);
         });
     });
+
+    describe("command palette", () => {
+        it("should open in commands mode by default", () => {
+            useKeyboardShortcutsStore.getState().openPalette();
+            expect(useKeyboardShortcutsStore.getState().isPaletteOpen).toBe(true);
+            expect(useKeyboardShortcutsStore.getState().paletteMode).toBe("commands");
+
+            useKeyboardShortcutsStore.getState().closePalette();
+            expect(useKeyboardShortcutsStore.getState().isPaletteOpen).toBe(false);
+        });
+
+        it("should open in projects mode", () => {
+            useKeyboardShortcutsStore.getState().openPalette("projects");
+            expect(useKeyboardShortcutsStore.getState().paletteMode).toBe("projects");
+            useKeyboardShortcutsStore.getState().closePalette();
+        });
+    });
 });
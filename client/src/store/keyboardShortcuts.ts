@@ -1,13 +1,21 @@
 /**
- * Store for keyboard shortcuts modal visibility
+ * Store for keyboard shortcuts modal and command palette visibility
  */
 import { create } from 'zustand';
 
+/** The palette lists commands, or projects to switch to */
+export type CommandPaletteMode = 'commands' | 'projects';
+
 export interface KeyboardShortcutsState {
     isOpen: boolean;
     openModal: () => void;
     closeModal: () => void;
     toggleModal: () => void;
+
+    isPaletteOpen: boolean;
+    paletteMode: CommandPaletteMode;
+    openPalette: (mode?: CommandPaletteMode) => void;
+    closePalette: () => void;
 }
 
 export const useKeyboardShortcutsStore = create<KeyboardShortcutsState>((set, get) => ({
@@ -15,4 +23,9 @@ export const useKeyboardShortcutsStore = create<KeyboardShortcutsState>((set, ge
     openModal: () => set({ isOpen: true }),
     closeModal: () => set({ isOpen: false }),
     toggleModal: () => set({ isOpen: !get().isOpen }),
+
+    isPaletteOpen: false,
+    paletteMode: 'commands',
+    openPalette: (mode = 'commands') => set({ isPaletteOpen: true, paletteMode: mode }),
+    closePalette: () => set({ isPaletteOpen: false }),
 }));
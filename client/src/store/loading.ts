@@ -4,6 +4,7 @@ type LoadingTask =
   | "Fetching cards"
   | "Processing Images"
   | "Generating PDF"
+  | "Printing"
   | "Uploading Images"
   | "Clearing Images"
   | "Exporting ZIP"
@@ -34,8 +34,9 @@ type PersistableSettings = Omit<SettingsStore,
     | 'setDpi' | 'setCutLineStyle' | 'setPerCardGuideStyle' | 'setGuidePlacement' | 'setCutGuideLengthMm' | 'setGlobalLanguage'
     | 'setRegistrationMarks' | 'setRegistrationMarksPortrait'
     | 'setSortBy' | 'setSortOrder' | 'setFilterManaCost' | 'setFilterColors' | 'setFilterTypes' | 'setFilterCategories' | 'setFilterFeatures'
-    | 'setFilterMatchType' | 'setDecklistSortAlpha' | 'setShowProcessingToasts' | 'setDefaultCardbackId' | 'setExportMode'
+    | 'setFilterMatchType' | 'setLegalityFormat' | 'setFilterLegality' | 'setDecklistSortAlpha' | 'setShowProcessingToasts' | 'setDefaultCardbackId' | 'setExportMode'
     | 'setAutoImportTokens' | 'setMpcFuzzySearch' | 'setPreferredArtSource'
+    | 'setSoftProofProfileId' | 'setSoftProofEnabled' | 'setSoftProofGamutWarning' | 'setSoftProofIntent' | 'setExportConvertToProfile'
     | 'hasHydrated'
 >;
 
@@ -94,8 +95,8 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
         set({ isLoading: true, loadingMessage: "Switching project..." });
 
         try {
-            // 1. Clear undo history (prevents cross-project undo bugs)
-            useUndoRedoStore.getState().clearHistory();
+            // 1. Detach undo history (prevents cross-project undo bugs; the target's history loads below)
+            await useUndoRedoStore.getState().loadHistory(null);
 
             // 2. Cancel any in-progress processing
             cancelAllProcessing();
@@ -119,6 +120,9 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
             useSettingsStore.getState().setAllSettings(migratedSettings);
             useSettingsStore.getState().setHasHydrated(true);
 
+            // 5b. Restore the project's persisted undo history
+            await useUndoRedoStore.getState().loadHistory(targetProjectId);
+
             // 6. Update current project ID (triggers UI refresh via useLiveQuery)
             set({ currentProjectId: targetProjectId });
 
@@ -157,12 +161,13 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
         set({ isLoading: true, loadingMessage: "Deleting project..." });
 
         try {
-            await db.transaction('rw', db.projects, db.cards, db.images, async () => {
+            await db.transaction('rw', db.projects, db.cards, db.images, db.undoHistory, async () => {
                 // 1. Delete all cards for this project
                 await db.cards.where('projectId').equals(id).delete();
 
-                // 2. Delete project record
+                // 2. Delete project record and its undo history
                 await db.projects.delete(id);
+                await db.undoHistory.delete(id);
             });
 
             // Refresh list
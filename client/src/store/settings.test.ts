@@ -43,6 +43,10 @@ describe("useSettingsStore", () => {
             filterTypes: [],
             filterCategories: [],
             filterMatchType: "partial",
+            cardSizePreset: "mtg",
+            cardWidthMm: 63,
+            cardHeightMm: 88,
+            cardCornerRadiusMm: 2.5,
         });
     });
 
@@ -120,6 +124,39 @@ describe("useSettingsStore", () => {
         });
     });
 
+    describe("card size", () => {
+        it("should apply preset dimensions", () => {
+            useSettingsStore.getState().setCardSizePreset("yugioh");
+
+            const state = useSettingsStore.getState();
+            expect(state.cardSizePreset).toBe("yugioh");
+            expect(state.cardWidthMm).toBe(59);
+            expect(state.cardHeightMm).toBe(86);
+            expect(state.cardCornerRadiusMm).toBe(2);
+        });
+
+        it("should keep dimensions when switching to custom", () => {
+            useSettingsStore.getState().setCardSizePreset("tarot");
+            useSettingsStore.getState().setCardSizePreset("custom");
+
+            const state = useSettingsStore.getState();
+            expect(state.cardSizePreset).toBe("custom");
+            expect(state.cardWidthMm).toBe(70);
+            expect(state.cardHeightMm).toBe(120);
+        });
+
+        it("should switch to custom when a dimension is edited", () => {
+            useSettingsStore.getState().setCardWidthMm(64);
+            useSettingsStore.getState().setCardCornerRadiusMm(3);
+
+            const state = useSettingsStore.getState();
+            expect(state.cardSizePreset).toBe("custom");
+            expect(state.cardWidthMm).toBe(64);
+            expect(state.cardHeightMm).toBe(88);
+            expect(state.cardCornerRadiusMm).toBe(3);
+        });
+    });
+
     describe("setPageSizeUnit", () => {
         it("should convert dimensions from inches to mm", () => {
             const { setPageSizeUnit } = useSettingsStore.getState();
@@ -2,6 +2,10 @@ import { create } from "zustand";
 import { recordSettingChange } from "../helpers/undoableSettings";
 import { useUndoRedoStore } from "./undoRedo";
 import { CONSTANTS } from "@/constants/commonConstants";
+import type { CutterProfileId } from "@/helpers/cutterProfiles";
+import type { RenderingIntent } from "@/helpers/iccProfile";
+import { CARD_SIZE_PRESETS, DEFAULT_CARD_SIZE, type CardSizePreset } from "@/helpers/cardSizes";
+import type { LegalityFilter, SortBy } from "@/helpers/sortAndFilterUtils";
 
 export type LayoutPreset = "A4" | "A3" | "Letter" | "Tabloid" | "Legal" | "ArchA" | "ArchB" | "SuperB" | "A2" | "A1" | "Custom";
 export type PageOrientation = "portrait" | "landscape";
@@ -25,6 +29,15 @@ export type Store = {
   setColumns: (value: number) => void;
   rows: number;
   setRows: (value: number) => void;
+  // Trimmed card size for this project (drives layout, bleed, guides and cut files)
+  cardSizePreset: CardSizePreset;
+  setCardSizePreset: (value: CardSizePreset) => void;
+  cardWidthMm: number;
+  setCardWidthMm: (mm: number) => void;
+  cardHeightMm: number;
+  setCardHeightMm: (mm: number) => void;
+  cardCornerRadiusMm: number;
+  setCardCornerRadiusMm: (mm: number) => void;
   bleedEdgeWidth: number;
   setBleedEdgeWidth: (value: number) => void;
   bleedEdge: boolean;
@@ -80,6 +93,7 @@ export type Store = {
   perCardBackOffsets: Record<number, { x: number; y: number; rotation: number }>;
   setPerCardBackOffset: (index: number, offset: { x: number; y: number; rotation: number }) => void;
   bulkSetPerCardBackOffsets: (indices: number[], offset: { x: number; y: number; rotation: number }) => void;
+  setPerCardBackOffsets: (offsets: Record<number, { x: number; y: number; rotation: number }>) => void;
   clearPerCardBackOffsets: () => void;
   dpi: number;
   setDpi: (value: number) => void;
@@ -91,17 +105,19 @@ export type Store = {
   setGuidePlacement: (value: 'inside' | 'outside' | 'center') => void;
   cutGuideLengthMm: number;
   setCutGuideLengthMm: (value: number) => void;
-  // Silhouette Cameo registration marks for print & cut
+  // Registration marks for print & cut, laid out for the selected cutter
   registrationMarks: 'none' | '3' | '4';
   setRegistrationMarks: (value: 'none' | '3' | '4') => void;
   registrationMarksPortrait: boolean;
   setRegistrationMarksPortrait: (value: boolean) => void;
+  cutterProfile: CutterProfileId;
+  setCutterProfile: (value: CutterProfileId) => void;
   globalLanguage: string;
   setGlobalLanguage: (lang: string) => void;
 
   // Sort & Filter
-  sortBy: "name" | "type" | "cmc" | "color" | "manual" | "rarity";
-  setSortBy: (value: "manual" | "name" | "type" | "cmc" | "color" | "rarity") => void;
+  sortBy: SortBy;
+  setSortBy: (value: SortBy) => void;
   sortOrder: "asc" | "desc";
   setSortOrder: (value: "asc" | "desc") => void;
   filterManaCost: number[];
@@ -117,6 +133,10 @@ export type Store = {
 
   filterMatchType: "partial" | "exact";
   setFilterMatchType: (value: "partial" | "exact") => void;
+  legalityFormat: string;
+  setLegalityFormat: (value: string) => void;
+  filterLegality: LegalityFilter;
+  setFilterLegality: (value: LegalityFilter) => void;
   decklistSortAlpha: boolean;
   setDecklistSortAlpha: (value: boolean) => void;
   showProcessingToasts: boolean;
@@ -125,6 +145,17 @@ export type Store = {
   setDefaultCardbackId: (id: string) => void;
   exportMode: 'fronts' | 'interleaved-all' | 'interleaved-custom' | 'duplex' | 'backs' | 'visible_faces';
   setExportMode: (value: 'fronts' | 'interleaved-all' | 'interleaved-custom' | 'duplex' | 'backs' | 'visible_faces') => void;
+  // Soft proofing and export conversion through a printer ICC profile
+  softProofProfileId: string | null;
+  setSoftProofProfileId: (id: string | null) => void;
+  softProofEnabled: boolean;
+  setSoftProofEnabled: (enabled: boolean) => void;
+  softProofGamutWarning: boolean;
+  setSoftProofGamutWarning: (enabled: boolean) => void;
+  softProofIntent: RenderingIntent;
+  setSoftProofIntent: (value: RenderingIntent) => void;
+  exportConvertToProfile: boolean;
+  setExportConvertToProfile: (enabled: boolean) => void;
 
   // Auto-import tokens
   autoImportTokens: boolean;
@@ -140,6 +171,23 @@ export type Store = {
   setHasHydrated: (value: boolean) => void;
 };
 
+/**
+ * Card size changes touch the preset and the dimensions together, so they are
+ * recorded as one undo step instead of per key.
+ */
+function recordCardSizeChange(state: Store, after: Partial<Store>): Partial<Store> {
+  const before: Record<string, unknown> = {};
+  for (const key of Object.keys(after) as (keyof Store)[]) {
+    before[key] = state[key];
+  }
+  useUndoRedoStore.getState().pushAction({
+    type: "CHANGE_SETTING",
+    description: "Change card size",
+    command: { kind: "settings", before, after },
+  });
+  return after;
+}
+
 const defaultPageSettings = {
   pageSizeUnit: "in" as "in" | "mm",
   pageOrientation: "portrait" as "portrait" | "landscape",
@@ -151,6 +199,10 @@ const defaultPageSettings = {
   customPageUnit: "in" as "in" | "mm",
   columns: 3,
   rows: 3,
+  cardSizePreset: "mtg" as CardSizePreset,
+  cardWidthMm: DEFAULT_CARD_SIZE.widthMm,
+  cardHeightMm: DEFAULT_CARD_SIZE.heightMm,
+  cardCornerRadiusMm: DEFAULT_CARD_SIZE.cornerRadiusMm,
   bleedEdgeWidth: 1,
   bleedEdge: true,
   bleedEdgeUnit: "mm" as "mm" | "in",
@@ -187,9 +239,10 @@ const defaultPageSettings = {
   cutGuideLengthMm: 6.25,
   registrationMarks: 'none' as 'none' | '3' | '4',
   registrationMarksPortrait: false,
+  cutterProfile: 'silhouette' as CutterProfileId,
   globalLanguage: "en",
 
-  sortBy: "manual" as "name" | "type" | "cmc" | "color" | "manual" | "rarity",
+  sortBy: "manual" as SortBy,
   sortOrder: "asc" as "asc" | "desc",
   filterManaCost: [] as number[],
   filterColors: [] as string[],
@@ -198,10 +251,17 @@ const defaultPageSettings = {
   filterFeatures: [] as string[],
 
   filterMatchType: "partial" as "partial" | "exact",
+  legalityFormat: "commander",
+  filterLegality: "all" as LegalityFilter,
   decklistSortAlpha: false,
   showProcessingToasts: true,
   defaultCardbackId: "cardback_builtin_mtg",  // Default to MTG cardback
   exportMode: "fronts" as 'fronts' | 'interleaved-all' | 'interleaved-custom' | 'duplex' | 'backs',
+  softProofProfileId: null as string | null,
+  softProofEnabled: false,
+  softProofGamutWarning: false,
+  softProofIntent: 'perceptual' as RenderingIntent,
+  exportConvertToProfile: false,
 
   autoImportTokens: false,
   mpcFuzzySearch: true, // Default to fuzzy search enabled
@@ -315,6 +375,25 @@ export const useSettingsStore = create<Store>()((set) => ({
     recordSettingChange("rows", state.rows);
     return { rows };
   }),
+  setCardSizePreset: (value) => set((state) => {
+    if (value === state.cardSizePreset) return {};
+    if (value === "custom") {
+      return recordCardSizeChange(state, { cardSizePreset: value });
+    }
+    const { widthMm, heightMm, cornerRadiusMm } = CARD_SIZE_PRESETS[value];
+    return recordCardSizeChange(state, {
+      cardSizePreset: value,
+      cardWidthMm: widthMm,
+      cardHeightMm: heightMm,
+      cardCornerRadiusMm: cornerRadiusMm,
+    });
+  }),
+  setCardWidthMm: (mm) => set((state) =>
+    recordCardSizeChange(state, { cardSizePreset: "custom", cardWidthMm: mm })),
+  setCardHeightMm: (mm) => set((state) =>
+    recordCardSizeChange(state, { cardSizePreset: "custom", cardHeightMm: mm })),
+  setCardCornerRadiusMm: (mm) => set((state) =>
+    recordCardSizeChange(state, { cardSizePreset: "custom", cardCornerRadiusMm: mm })),
   setBleedEdgeWidth: (value) => set((state) => {
     recordSettingChange("bleedEdgeWidth", state.bleedEdgeWidth);
     return { bleedEdgeWidth: value };
@@ -425,6 +504,10 @@ export const useSettingsStore = create<Store>()((set) => ({
     });
     return { perCardBackOffsets: newOffsets };
   }),
+  setPerCardBackOffsets: (offsets) => set((state) => {
+    recordSettingChange("perCardBackOffsets", state.perCardBackOffsets);
+    return { perCardBackOffsets: offsets };
+  }),
   clearPerCardBackOffsets: () => set((state) => {
     recordSettingChange("perCardBackOffsets", state.perCardBackOffsets);
     return { perCardBackOffsets: {} };
@@ -457,6 +540,10 @@ export const useSettingsStore = create<Store>()((set) => ({
     recordSettingChange("registrationMarksPortrait", state.registrationMarksPortrait);
     return { registrationMarksPortrait: value };
   }),
+  setCutterProfile: (value) => set((state) => {
+    recordSettingChange("cutterProfile", state.cutterProfile);
+    return { cutterProfile: value };
+  }),
   setGlobalLanguage: (lang) => set((state) => {
     recordSettingChange("globalLanguage", state.globalLanguage);
     return { globalLanguage: lang };
@@ -504,6 +591,16 @@ export const useSettingsStore = create<Store>()((set) => ({
     recordSettingChange("filterMatchType", state.filterMatchType);
     return { filterMatchType: value };
   }),
+  legalityFormat: "commander",
+  setLegalityFormat: (value) => set((state) => {
+    recordSettingChange("legalityFormat", state.legalityFormat);
+    return { legalityFormat: value };
+  }),
+  filterLegality: "all",
+  setFilterLegality: (value) => set((state) => {
+    recordSettingChange("filterLegality", state.filterLegality);
+    return { filterLegality: value };
+  }),
   decklistSortAlpha: false,
   setDecklistSortAlpha: (value) => set({ decklistSortAlpha: value }),
   showProcessingToasts: true,
@@ -512,6 +609,17 @@ export const useSettingsStore = create<Store>()((set) => ({
   setDefaultCardbackId: (id) => set({ defaultCardbackId: id }),
   exportMode: "fronts",
   setExportMode: (value) => set({ exportMode: value }),
+  // Soft proofing
+  softProofProfileId: null,
+  setSoftProofProfileId: (id) => set({ softProofProfileId: id }),
+  softProofEnabled: false,
+  setSoftProofEnabled: (enabled) => set({ softProofEnabled: enabled }),
+  softProofGamutWarning: false,
+  setSoftProofGamutWarning: (enabled) => set({ softProofGamutWarning: enabled }),
+  softProofIntent: 'perceptual',
+  setSoftProofIntent: (value) => set({ softProofIntent: value }),
+  exportConvertToProfile: false,
+  setExportConvertToProfile: (enabled) => set({ exportConvertToProfile: enabled }),
 
   // Auto-import tokens
   autoImportTokens: false,
@@ -537,6 +645,10 @@ export const useSettingsStore = create<Store>()((set) => ({
       pageHeight: currentState.pageHeight,
       columns: currentState.columns,
       rows: currentState.rows,
+      cardSizePreset: currentState.cardSizePreset,
+      cardWidthMm: currentState.cardWidthMm,
+      cardHeightMm: currentState.cardHeightMm,
+      cardCornerRadiusMm: currentState.cardCornerRadiusMm,
       bleedEdge: currentState.bleedEdge,
       bleedEdgeWidth: currentState.bleedEdgeWidth,
       darkenMode: currentState.darkenMode,
@@ -556,6 +668,7 @@ export const useSettingsStore = create<Store>()((set) => ({
       cutGuideLengthMm: currentState.cutGuideLengthMm,
       registrationMarks: currentState.registrationMarks,
       registrationMarksPortrait: currentState.registrationMarksPortrait,
+      cutterProfile: currentState.cutterProfile,
       globalLanguage: currentState.globalLanguage,
       sortBy: currentState.sortBy,
       sortOrder: currentState.sortOrder,
@@ -563,6 +676,8 @@ export const useSettingsStore = create<Store>()((set) => ({
       filterColors: currentState.filterColors,
       filterFeatures: currentState.filterFeatures,
       filterMatchType: currentState.filterMatchType,
+      legalityFormat: currentState.legalityFormat,
+      filterLegality: currentState.filterLegality,
       autoImportTokens: currentState.autoImportTokens,
     };
 
@@ -573,12 +688,7 @@ export const useSettingsStore = create<Store>()((set) => ({
     useUndoRedoStore.getState().pushAction({
       type: "CHANGE_SETTING",
       description: "Reset settings",
-      undo: async () => {
-        useSettingsStore.setState(oldSettings);
-      },
-      redo: async () => {
-        useSettingsStore.setState({ ...defaultPageSettings });
-      },
+      command: { kind: "settings", before: oldSettings, after: { ...defaultPageSettings } },
     });
   },
 }));
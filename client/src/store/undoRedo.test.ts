@@ -1,13 +1,28 @@
 import { describe, it, expect, beforeEach, vi } from "vitest";
-import { useUndoRedoStore } from "./undoRedo";
+import { useUndoRedoStore, type UndoCommand } from "./undoRedo";
+import { db } from "../db";
+
+const mockApplyUndoCommand = vi.hoisted(() => vi.fn().mockResolvedValue(undefined));
+vi.mock("../helpers/undoCommands", () => ({
+    applyUndoCommand: mockApplyUndoCommand,
+}));
+
+const command: UndoCommand = { kind: "setting", key: "columns", oldValue: 3, newValue: 4 };
+
+// Persistence is queued; give it a tick to land
+const flushPersistence = () => new Promise((resolve) => setTimeout(resolve, 20));
 
 describe("undoRedo store", () => {
-    beforeEach(() => {
+    beforeEach(async () => {
+        vi.clearAllMocks();
+        mockApplyUndoCommand.mockResolvedValue(undefined);
+        await db.undoHistory.clear();
         // Reset the store before each test
         useUndoRedoStore.setState({
             undoStack: [],
             redoStack: [],
             isPerformingAction: false,
+            projectId: null,
         });
     });
 
@@ -16,8 +31,7 @@ describe("undoRedo store", () => {
             const action = {
                 type: "DELETE_CARD" as const,
                 description: "Delete test card",
-                undo: vi.fn().mockResolvedValue(undefined),
-                redo: vi.fn().mockResolvedValue(undefined),
+                command,
             };
 
             useUndoRedoStore.getState().pushAction(action);
@@ -33,8 +47,7 @@ describe("undoRedo store", () => {
             const action1 = {
                 type: "DELETE_CARD" as const,
                 description: "Action 1",
-                undo: vi.fn().mockResolvedValue(undefined),
-                redo: vi.fn().mockResolvedValue(undefined),
+                command,
             };
 
             // Simulate having something in redo stack
@@ -44,8 +57,7 @@ describe("undoRedo store", () => {
                     type: "ADD_CARDS" as const,
                     description: "Old action",
                     timestamp: Date.now(),
-                    undo: vi.fn().mockResolvedValue(undefined),
-                    redo: vi.fn().mockResolvedValue(undefined),
+                    command,
                 }],
             });
 
@@ -60,8 +72,7 @@ describe("undoRedo store", () => {
                 useUndoRedoStore.getState().pushAction({
                     type: "DELETE_CARD" as const,
                     description: `Action ${i}`,
-                    undo: vi.fn().mockResolvedValue(undefined),
-                    redo: vi.fn().mockResolvedValue(undefined),
+                    command,
                 });
             }
 
@@ -77,8 +88,7 @@ describe("undoRedo store", () => {
             useUndoRedoStore.getState().pushAction({
                 type: "DELETE_CARD" as const,
                 description: "Should be ignored",
-                undo: vi.fn().mockResolvedValue(undefined),
-                redo: vi.fn().mockResolvedValue(undefined),
+                command,
             });
 
             const state = useUndoRedoStore.getState();
@@ -87,19 +97,17 @@ describe("undoRedo store", () => {
     });
 
     describe("undo", () => {
-        it("should call undo function and move action to redo stack", async () => {
-            const undoFn = vi.fn().mockResolvedValue(undefined);
+        it("should apply the command in reverse and move action to redo stack", async () => {
             const action = {
                 type: "DELETE_CARD" as const,
                 description: "Test action",
-                undo: undoFn,
-                redo: vi.fn().mockResolvedValue(undefined),
+                command,
             };
 
             useUndoRedoStore.getState().pushAction(action);
             await useUndoRedoStore.getState().undo();
 
-            expect(undoFn).toHaveBeenCalled();
+            expect(mockApplyUndoCommand).toHaveBeenCalledWith(command, "undo");
 
             const state = useUndoRedoStore.getState();
             expect(state.undoStack).toHaveLength(0);
@@ -115,36 +123,32 @@ describe("undoRedo store", () => {
         });
 
         it("should do nothing if isPerformingAction is true", async () => {
-            const undoFn = vi.fn().mockResolvedValue(undefined);
             useUndoRedoStore.getState().pushAction({
                 type: "DELETE_CARD" as const,
                 description: "Test",
-                undo: undoFn,
-                redo: vi.fn().mockResolvedValue(undefined),
+                command,
             });
 
             useUndoRedoStore.setState({ isPerformingAction: true });
             await useUndoRedoStore.getState().undo();
 
-            expect(undoFn).not.toHaveBeenCalled();
+            expect(mockApplyUndoCommand).not.toHaveBeenCalled();
         });
     });
 
     describe("redo", () => {
-        it("should call redo function and move action back to undo stack", async () => {
-            const redoFn = vi.fn().mockResolvedValue(undefined);
+        it("should apply the command forward and move action back to undo stack", async () => {
             const action = {
                 type: "DELETE_CARD" as const,
                 description: "Test action",
-                undo: vi.fn().mockResolvedValue(undefined),
-                redo: redoFn,
+                command,
             };
 
             useUndoRedoStore.getState().pushAction(action);
             await useUndoRedoStore.getState().undo();
             await useUndoRedoStore.getState().redo();
 
-            expect(redoFn).toHaveBeenCalled();
+            expect(mockApplyUndoCommand).toHaveBeenLastCalledWith(command, "redo");
 
             const state = useUndoRedoStore.getState();
             expect(state.undoStack).toHaveLength(1);
@@ -170,8 +174,7 @@ describe("undoRedo store", () => {
             useUndoRedoStore.getState().pushAction({
                 type: "DELETE_CARD" as const,
                 description: "Test",
-                undo: vi.fn().mockResolvedValue(undefined),
-                redo: vi.fn().mockResolvedValue(undefined),
+                command,
             });
 
             expect(useUndoRedoStore.getState().canUndo()).toBe(true);
@@ -187,8 +190,7 @@ describe("undoRedo store", () => {
             useUndoRedoStore.getState().pushAction({
                 type: "DELETE_CARD" as const,
                 description: "Test",
-                undo: vi.fn().mockResolvedValue(undefined),
-                redo: vi.fn().mockResolvedValue(undefined),
+                command,
             });
 
             useUndoRedoStore.setState({ isPerformingAction: true });
@@ -202,14 +204,12 @@ describe("undoRedo store", () => {
             useUndoRedoStore.getState().pushAction({
                 type: "DELETE_CARD" as const,
                 description: "Test 1",
-                undo: vi.fn().mockResolvedValue(undefined),
-                redo: vi.fn().mockResolvedValue(undefined),
+                command,
             });
             useUndoRedoStore.getState().pushAction({
                 type: "DELETE_CARD" as const,
                 description: "Test 2",
-                undo: vi.fn().mockResolvedValue(undefined),
-                redo: vi.fn().mockResolvedValue(undefined),
+                command,
             });
 
             await useUndoRedoStore.getState().undo(); // Move one to redo
@@ -232,8 +232,7 @@ describe("undoRedo store", () => {
             useUndoRedoStore.getState().pushAction({
                 type: "DELETE_CARD" as const,
                 description: "Delete Sol Ring",
-                undo: vi.fn().mockResolvedValue(undefined),
-                redo: vi.fn().mockResolvedValue(undefined),
+                command,
             });
 
             expect(useUndoRedoStore.getState().getUndoDescription()).toBe("Delete Sol Ring");
@@ -245,4 +244,101 @@ describe("undoRedo store", () => {
             expect(useUndoRedoStore.getState().getRedoDescription()).toBe("Delete Sol Ring");
         });
     });
+
+    describe("jumpTo", () => {
+        function pushThree() {
+            for (const description of ["A", "B", "C"]) {
+                useUndoRedoStore.getState().pushAction({ type: "CHANGE_SETTING", description, command });
+            }
+            return useUndoRedoStore.getState().undoStack.map((a) => a.id);
+        }
+
+        it("should undo back to the chosen action", async () => {
+            const [a] = pushThree();
+
+            await useUndoRedoStore.getState().jumpTo(a);
+
+            const state = useUndoRedoStore.getState();
+            expect(state.undoStack.map((x) => x.description)).toEqual(["A"]);
+            expect(state.redoStack.map((x) => x.description)).toEqual(["C", "B"]);
+        });
+
+        it("should redo forward to the chosen action", async () => {
+            const [, , c] = pushThree();
+            await useUndoRedoStore.getState().jumpTo(null);
+            expect(useUndoRedoStore.getState().undoStack).toHaveLength(0);
+
+            await useUndoRedoStore.getState().jumpTo(c);
+
+            expect(useUndoRedoStore.getState().undoStack).toHaveLength(3);
+            expect(useUndoRedoStore.getState().redoStack).toHaveLength(0);
+        });
+
+        it("should ignore unknown action ids", async () => {
+            pushThree();
+            await useUndoRedoStore.getState().jumpTo("missing");
+            expect(useUndoRedoStore.getState().undoStack).toHaveLength(3);
+        });
+
+        it("should stop when a step fails", async () => {
+            const [a] = pushThree();
+            mockApplyUndoCommand.mockRejectedValueOnce(new Error("boom"));
+            vi.spyOn(console, "error").mockImplementation(() => { });
+
+            await useUndoRedoStore.getState().jumpTo(a);
+
+            expect(useUndoRedoStore.getState().undoStack).toHaveLength(3);
+        });
+    });
+
+    describe("persistence", () => {
+        it("should persist history for the loaded project and restore it after a reload", async () => {
+            await useUndoRedoStore.getState().loadHistory("project-1");
+            useUndoRedoStore.getState().pushAction({ type: "CHANGE_SETTING", description: "First", command });
+            useUndoRedoStore.getState().pushAction({ type: "CHANGE_SETTING", description: "Second", command });
+            await useUndoRedoStore.getState().undo();
+            await flushPersistence();
+
+            // Simulate a reload
+            useUndoRedoStore.setState({ undoStack: [], redoStack: [], projectId: null });
+            await useUndoRedoStore.getState().loadHistory("project-1");
+
+            const state = useUndoRedoStore.getState();
+            expect(state.undoStack.map((a) => a.description)).toEqual(["First"]);
+            expect(state.redoStack.map((a) => a.description)).toEqual(["Second"]);
+            expect(state.undoStack[0].command).toEqual(command);
+        });
+
+        it("should keep histories separate per project", async () => {
+            await useUndoRedoStore.getState().loadHistory("project-1");
+            useUndoRedoStore.getState().pushAction({ type: "CHANGE_SETTING", description: "In 1", command });
+            await flushPersistence();
+
+            await useUndoRedoStore.getState().loadHistory("project-2");
+            expect(useUndoRedoStore.getState().undoStack).toHaveLength(0);
+
+            await useUndoRedoStore.getState().loadHistory("project-1");
+            expect(useUndoRedoStore.getState().undoStack).toHaveLength(1);
+        });
+
+        it("should not persist while detached", async () => {
+            await useUndoRedoStore.getState().loadHistory(null);
+            useUndoRedoStore.getState().pushAction({ type: "CHANGE_SETTING", description: "Detached", command });
+            await flushPersistence();
+
+            expect(await db.undoHistory.count()).toBe(0);
+        });
+
+        it("should delete the persisted record when history is cleared", async () => {
+            await useUndoRedoStore.getState().loadHistory("project-1");
+            useUndoRedoStore.getState().pushAction({ type: "CHANGE_SETTING", description: "Gone", command });
+            await flushPersistence();
+            expect(await db.undoHistory.get("project-1")).toBeDefined();
+
+            useUndoRedoStore.getState().clearHistory();
+            await flushPersistence();
+
+            expect(await db.undoHistory.get("project-1")).toBeUndefined();
+        });
+    });
 });
@@ -1,4 +1,6 @@
 import { create } from "zustand";
+import { db } from "../db";
+import type { CardOption } from "@/types";
 
 /**
  * Action types that can be undone/redone
@@ -9,12 +11,25 @@ export type ActionType =
     | "DELETE_CARDS_BATCH"
     | "DUPLICATE_CARD"
     | "DUPLICATE_CARDS_BATCH"
+    | "PASTE_CARDS"
     | "REORDER_CARDS"
     | "REORDER_MULTIPLE_CARDS"
     | "CHANGE_ARTWORK"
     | "CHANGE_CARDBACK"
     | "CHANGE_SETTING"
-    | "UPDATE_BLEED_SETTINGS";
+    | "UPDATE_BLEED_SETTINGS"
+    | "UPDATE_OVERRIDES";
+
+/**
+ * Data-only description of a change, replayable after a reload.
+ * - cards: snapshots of every affected card before and after (absent = didn't exist)
+ * - setting: a single settings store key
+ * - settings: several settings store keys at once (e.g. "Reset settings")
+ */
+export type UndoCommand =
+    | { kind: "cards"; before: CardOption[]; after: CardOption[]; rebalance?: boolean }
+    | { kind: "setting"; key: string; oldValue: unknown; newValue: unknown }
+    | { kind: "settings"; before: Record<string, unknown>; after: Record<string, unknown> };
 
 /**
  * Represents an undoable action in the history
@@ -24,10 +39,8 @@ export interface UndoableAction {
     type: ActionType;
     timestamp: number;
     description: string;
-    /** Function to reverse this action */
-    undo: () => Promise<void>;
-    /** Function to replay this action */
-    redo: () => Promise<void>;
+    /** Command applied in reverse on undo and forward on redo */
+    command: UndoCommand;
 }
 
 const MAX_HISTORY_SIZE = 50;
@@ -36,6 +49,7 @@ interface UndoRedoState {
     undoStack: UndoableAction[];
     redoStack: UndoableAction[];
     isPerformingAction: boolean; // Prevents recording during undo/redo
+    projectId: string | null;    // Project whose history is loaded (and persisted to)
 }
 
 interface UndoRedoActions {
@@ -45,12 +59,19 @@ interface UndoRedoActions {
     undo: () => Promise<void>;
     /** Redo the last undone action */
     redo: () => Promise<void>;
+    /** Undo or redo until the given action is the latest applied one (null = before all actions) */
+    jumpTo: (actionId: string | null) => Promise<void>;
     /** Check if undo is available */
     canUndo: () => boolean;
     /** Check if redo is available */
     canRedo: () => boolean;
     /** Clear all history (called on "Clear All Cards") */
     clearHistory: () => void;
+    /**
+     * Load a project's persisted history, replacing the current stacks (called on project switch).
+     * Passing null detaches the store: stacks are emptied and nothing is persisted until the next load.
+     */
+    loadHistory: (projectId: string | null) => Promise<void>;
     /** Get the description of the action that would be undone */
     getUndoDescription: () => string | null;
     /** Get the description of the action that would be redone */
@@ -59,10 +80,35 @@ interface UndoRedoActions {
 
 type UndoRedoStore = UndoRedoState & UndoRedoActions;
 
+// Serializes writes so a slow put can't land after a newer one
+let persistQueue: Promise<unknown> = Promise.resolve();
+
+function persistHistory(state: UndoRedoState): void {
+    const { projectId, undoStack, redoStack } = state;
+    if (!projectId) return;
+
+    persistQueue = persistQueue
+        .then(async () => {
+            if (undoStack.length === 0 && redoStack.length === 0) {
+                await db.undoHistory.delete(projectId);
+            } else {
+                await db.undoHistory.put({ projectId, undoStack, redoStack, updatedAt: Date.now() });
+            }
+        })
+        .catch((error) => console.error("[UndoRedo] Failed to persist history:", error));
+}
+
+async function runCommand(action: UndoableAction, direction: "undo" | "redo"): Promise<void> {
+    // Loaded lazily: the command runner depends on the settings store, which imports this store
+    const { applyUndoCommand } = await import("../helpers/undoCommands");
+    await applyUndoCommand(action.command, direction);
+}
+
 export const useUndoRedoStore = create<UndoRedoStore>()((set, get) => ({
     undoStack: [],
     redoStack: [],
     isPerformingAction: false,
+    projectId: null,
 
     pushAction: (action) => {
         // Don't record actions during undo/redo operations
@@ -86,6 +132,7 @@ export const useUndoRedoStore = create<UndoRedoStore>()((set, get) => ({
                 redoStack: [],
             };
         });
+        persistHistory(get());
     },
 
     undo: async () => {
@@ -97,12 +144,13 @@ export const useUndoRedoStore = create<UndoRedoStore>()((set, get) => ({
         set({ isPerformingAction: true });
 
         try {
-            await action.undo();
+            await runCommand(action, "undo");
 
             set((state) => ({
                 undoStack: state.undoStack.slice(0, -1),
                 redoStack: [...state.redoStack, action],
             }));
+            persistHistory(get());
         } catch (error) {
             console.error("[UndoRedo] Failed to undo action:", error);
         } finally {
@@ -119,12 +167,13 @@ export const useUndoRedoStore = create<UndoRedoStore>()((set, get) => ({
         set({ isPerformingAction: true });
 
         try {
-            await action.redo();
+            await runCommand(action, "redo");
 
             set((state) => ({
                 redoStack: state.redoStack.slice(0, -1),
                 undoStack: [...state.undoStack, action],
             }));
+            persistHistory(get());
         } catch (error) {
             console.error("[UndoRedo] Failed to redo action:", error);
         } finally {
@@ -132,6 +181,28 @@ export const useUndoRedoStore = create<UndoRedoStore>()((set, get) => ({
         }
     },
 
+    jumpTo: async (actionId) => {
+        const { undoStack, redoStack } = get();
+        if (actionId !== null && ![...undoStack, ...redoStack].some((a) => a.id === actionId)) return;
+
+        const isTarget = () => {
+            const { undoStack } = get();
+            return actionId === null
+                ? undoStack.length === 0
+                : undoStack[undoStack.length - 1]?.id === actionId;
+        };
+        const step = actionId !== null && get().redoStack.some((a) => a.id === actionId)
+            ? get().redo
+            : get().undo;
+
+        // Step one action at a time; stop if a step fails to make progress
+        while (!isTarget()) {
+            const before = get().undoStack.length;
+            await step();
+            if (get().undoStack.length === before) break;
+        }
+    },
+
     canUndo: () => {
         const { undoStack, isPerformingAction } = get();
         return undoStack.length > 0 && !isPerformingAction;
@@ -144,6 +215,21 @@ export const useUndoRedoStore = create<UndoRedoStore>()((set, get) => ({
 
     clearHistory: () => {
         set({ undoStack: [], redoStack: [] });
+        persistHistory(get());
+    },
+
+    loadHistory: async (projectId) => {
+        set({ projectId, undoStack: [], redoStack: [] });
+        if (!projectId) return;
+
+        try {
+            const record = await db.undoHistory.get(projectId);
+            // Ignore the result if another project was loaded meanwhile
+            if (!record || get().projectId !== projectId) return;
+            set({ undoStack: record.undoStack, redoStack: record.redoStack });
+        } catch (error) {
+            console.error("[UndoRedo] Failed to load history:", error);
+        }
     },
 
     getUndoDescription: () => {
@@ -167,5 +167,150 @@ describe("useUserPreferencesStore", () => {
             expect(prefs?.favoriteMpcSources).not.toContain("source1");
             expect(db.userPreferences.put).toHaveBeenCalledTimes(2);
         });
+
+        it("should persist MPC search filters", async () => {
+            const filters = { sources: ["chilli"], languages: ["EN", "DE"], minDpi: 800 };
+            await useUserPreferencesStore.getState().setMpcSearchFilters(filters);
+
+            const prefs = useUserPreferencesStore.getState().preferences;
+            expect(prefs?.mpcSearchFilters).toEqual(filters);
+            expect(db.userPreferences.put).toHaveBeenCalledWith(prefs);
+        });
+    });
+
+    describe("printer calibrations", () => {
+        const profile = (name: string, x: number) => ({
+            name,
+            columns: 3,
+            rows: 3,
+            cardBackPositionX: x,
+            cardBackPositionY: 0,
+            perCardBackOffsets: {},
+            updatedAt: 1,
+        });
+
+        beforeEach(() => {
+            useUserPreferencesStore.setState({
+                preferences: {
+                    id: 'default',
+                    settings: {},
+                    favoriteCardbacks: [],
+                    printerCalibrations: [profile("Office", 1)],
+                }
+            });
+        });
+
+        it("should add a calibration for a new printer", async () => {
+            await useUserPreferencesStore.getState().savePrinterCalibration(profile("Home", 2));
+
+            const prefs = useUserPreferencesStore.getState().preferences;
+            expect(prefs?.printerCalibrations?.map((p) => p.name)).toEqual(["Office", "Home"]);
+            expect(db.userPreferences.put).toHaveBeenCalledWith(prefs);
+        });
+
+        it("should replace the calibration saved under the same printer name", async () => {
+            await useUserPreferencesStore.getState().savePrinterCalibration(profile("office ", 5));
+
+            const calibrations = useUserPreferencesStore.getState().preferences?.printerCalibrations;
+            expect(calibrations).toHaveLength(1);
+            expect(calibrations?.[0].cardBackPositionX).toBe(5);
+        });
+
+        it("should delete a calibration by printer name", async () => {
+            await useUserPreferencesStore.getState().deletePrinterCalibration("OFFICE");
+
+            expect(useUserPreferencesStore.getState().preferences?.printerCalibrations).toEqual([]);
+            expect(db.userPreferences.put).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe("print profiles", () => {
+        const profile = (name: string, dpi: number) => ({ name, settings: { dpi }, updatedAt: 1 });
+
+        beforeEach(() => {
+            useUserPreferencesStore.setState({
+                preferences: {
+                    id: 'default',
+                    settings: {},
+                    favoriteCardbacks: [],
+                    printProfiles: [profile("Office", 600), profile("Home", 300)],
+                    selectedPrintProfile: "Home",
+                }
+            });
+        });
+
+        it("should merge saved profiles, replacing same-named ones", async () => {
+            await useUserPreferencesStore.getState().savePrintProfiles([profile("OFFICE", 1200), profile("Library", 300)]);
+
+            const prefs = useUserPreferencesStore.getState().preferences;
+            expect(prefs?.printProfiles?.map((p) => [p.name, p.settings.dpi])).toEqual([
+                ["Home", 300],
+                ["OFFICE", 1200],
+                ["Library", 300],
+            ]);
+            expect(db.userPreferences.put).toHaveBeenCalledWith(prefs);
+        });
+
+        it("should clear the selection when deleting the selected profile", async () => {
+            await useUserPreferencesStore.getState().deletePrintProfile("home");
+
+            const prefs = useUserPreferencesStore.getState().preferences;
+            expect(prefs?.printProfiles?.map((p) => p.name)).toEqual(["Office"]);
+            expect(prefs?.selectedPrintProfile).toBeNull();
+        });
+
+        it("should persist the selected profile", async () => {
+            await useUserPreferencesStore.getState().setSelectedPrintProfile("Office");
+
+            expect(useUserPreferencesStore.getState().preferences?.selectedPrintProfile).toBe("Office");
+            expect(db.userPreferences.put).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe("key bindings", () => {
+        it("should persist remapped shortcuts", async () => {
+            useUserPreferencesStore.setState({
+                preferences: { id: 'default', settings: {}, favoriteCardbacks: [] }
+            });
+
+            await useUserPreferencesStore.getState().setKeyBindings({ flip: ["Mod+Shift+F"] });
+
+            const prefs = useUserPreferencesStore.getState().preferences;
+            expect(prefs?.keyBindings).toEqual({ flip: ["Mod+Shift+F"] });
+            expect(db.userPreferences.put).toHaveBeenCalledWith(prefs);
+        });
+    });
+
+    describe("overrides presets", () => {
+        const preset = (name: string, brightness: number) => ({ name, overrides: { brightness }, updatedAt: 1 });
+
+        beforeEach(() => {
+            useUserPreferencesStore.setState({
+                preferences: {
+                    id: 'default',
+                    settings: {},
+                    favoriteCardbacks: [],
+                    overridesPresets: [preset("Bright", 20), preset("Moody", -10)],
+                }
+            });
+        });
+
+        it("should merge saved presets, replacing same-named ones", async () => {
+            await useUserPreferencesStore.getState().saveOverridesPresets([preset("bright", 30), preset("Faded", 5)]);
+
+            const prefs = useUserPreferencesStore.getState().preferences;
+            expect(prefs?.overridesPresets?.map((p) => [p.name, p.overrides.brightness])).toEqual([
+                ["Moody", -10],
+                ["bright", 30],
+                ["Faded", 5],
+            ]);
+            expect(db.userPreferences.put).toHaveBeenCalledWith(prefs);
+        });
+
+        it("should delete a preset by name, ignoring case", async () => {
+            await useUserPreferencesStore.getState().deleteOverridesPreset("MOODY");
+
+            expect(useUserPreferencesStore.getState().preferences?.overridesPresets?.map((p) => p.name)).toEqual(["Bright"]);
+        });
     });
 });
@@ -1,6 +1,8 @@
 import { create } from 'zustand';
-import { db, type UserPreferences } from '../db';
+import { db, type OverridesPreset, type PrintProfile, type PrinterCalibrationProfile, type UserPreferences } from '../db';
 import { useSettingsStore } from './settings';
+import type { MpcSearchFilters } from '@/types';
+import type { KeyBindings } from '@/helpers/commands';
 
 interface UserPreferencesState {
     preferences: UserPreferences | null;
@@ -13,6 +15,7 @@ interface UserPreferencesState {
     setFavoriteMpcDpi: (dpi: number | null) => Promise<void>;
     setFavoriteMpcSort: (sort: 'name' | 'dpi' | 'source' | null) => Promise<void>;
     setFavoriteMpcGroupBySource: (enabled: boolean) => Promise<void>;
+    setMpcSearchFilters: (filters: MpcSearchFilters | null) => Promise<void>;
 
     toggleFavoriteScryfallSet: (set: string) => Promise<void>;
     setFavoriteScryfallSort: (sort: 'name' | 'released' | null) => Promise<void>;
@@ -32,6 +35,22 @@ interface UserPreferencesState {
     setCardEditorSectionCollapsed: (collapsed: Record<string, boolean>) => Promise<void>;
     setCardEditorSectionOrder: (order: string[]) => Promise<void>;
     setFilterSectionCollapsed: (collapsed: Record<string, boolean>) => Promise<void>;
+
+    // Printer calibration profiles
+    savePrinterCalibration: (profile: PrinterCalibrationProfile) => Promise<void>;
+    deletePrinterCalibration: (name: string) => Promise<void>;
+
+    // Print profiles
+    savePrintProfiles: (profiles: PrintProfile[]) => Promise<void>;
+    deletePrintProfile: (name: string) => Promise<void>;
+    setSelectedPrintProfile: (name: string | null) => Promise<void>;
+
+    // Keyboard shortcuts
+    setKeyBindings: (bindings: KeyBindings) => Promise<void>;
+
+    // Card editor looks
+    saveOverridesPresets: (presets: OverridesPreset[]) => Promise<void>;
+    deleteOverridesPreset: (name: string) => Promise<void>;
 }
 
 export const useUserPreferencesStore = create<UserPreferencesState>((set, get) => ({
@@ -67,6 +86,9 @@ export const useUserPreferencesStore = create<UserPreferencesState>((set, get) =
             if (!prefs.favoriteMpcSources) prefs.favoriteMpcSources = [];
             if (!prefs.favoriteMpcTags) prefs.favoriteMpcTags = [];
             if (!prefs.favoriteScryfallSets) prefs.favoriteScryfallSets = [];
+            if (!prefs.printerCalibrations) prefs.printerCalibrations = [];
+            if (!prefs.printProfiles) prefs.printProfiles = [];
+            if (!prefs.overridesPresets) prefs.overridesPresets = [];
 
             // Migration: customXXX -> uploadLibraryXXX
             /* eslint-disable @typescript-eslint/no-explicit-any */
@@ -363,6 +385,15 @@ export const useUserPreferencesStore = create<UserPreferencesState>((set, get) =
         set({ preferences: newPrefs });
     },
 
+    setMpcSearchFilters: async (filters: MpcSearchFilters | null) => {
+        const prefs = get().preferences;
+        if (!prefs) return;
+
+        const newPrefs = { ...prefs, mpcSearchFilters: filters };
+        await db.userPreferences.put(newPrefs);
+        set({ preferences: newPrefs });
+    },
+
     setUploadLibrarySort: async (sort: 'name' | 'date' | 'type' | null) => {
         const prefs = get().preferences;
         if (!prefs) return;
@@ -387,5 +418,99 @@ export const useUserPreferencesStore = create<UserPreferencesState>((set, get) =
         const newPrefs = { ...prefs, favoriteUploadLibraryGroupByType: enabled };
         await db.userPreferences.put(newPrefs);
         set({ preferences: newPrefs });
+    },
+
+    savePrinterCalibration: async (profile: PrinterCalibrationProfile) => {
+        const prefs = get().preferences;
+        if (!prefs) return;
+
+        // Saving under an existing printer name replaces that calibration
+        const key = profile.name.trim().toLowerCase();
+        const others = (prefs.printerCalibrations ?? []).filter((p) => p.name.trim().toLowerCase() !== key);
+        const newPrefs = { ...prefs, printerCalibrations: [...others, profile] };
+        await db.userPreferences.put(newPrefs);
+        set({ preferences: newPrefs });
+    },
+
+    deletePrinterCalibration: async (name: string) => {
+        const prefs = get().preferences;
+        if (!prefs) return;
+
+        const key = name.trim().toLowerCase();
+        const newPrefs = {
+            ...prefs,
+            printerCalibrations: (prefs.printerCalibrations ?? []).filter((p) => p.name.trim().toLowerCase() !== key),
+        };
+        await db.userPreferences.put(newPrefs);
+        set({ preferences: newPrefs });
+    },
+
+    savePrintProfiles: async (profiles: PrintProfile[]) => {
+        const prefs = get().preferences;
+        if (!prefs) return;
+
+        // Profiles with an existing name (case-insensitive) replace it
+        const keys = new Set(profiles.map((p) => p.name.trim().toLowerCase()));
+        const others = (prefs.printProfiles ?? []).filter((p) => !keys.has(p.name.trim().toLowerCase()));
+        const newPrefs = { ...prefs, printProfiles: [...others, ...profiles] };
+        await db.userPreferences.put(newPrefs);
+        set({ preferences: newPrefs });
+    },
+
+    deletePrintProfile: async (name: string) => {
+        const prefs = get().preferences;
+        if (!prefs) return;
+
+        const key = name.trim().toLowerCase();
+        const newPrefs = {
+            ...prefs,
+            printProfiles: (prefs.printProfiles ?? []).filter((p) => p.name.trim().toLowerCase() !== key),
+            selectedPrintProfile: prefs.selectedPrintProfile?.trim().toLowerCase() === key ? null : prefs.selectedPrintProfile,
+        };
+        await db.userPreferences.put(newPrefs);
+        set({ preferences: newPrefs });
+    },
+
+    setSelectedPrintProfile: async (name: string | null) => {
+        const prefs = get().preferences;
+        if (!prefs) return;
+
+        const newPrefs = { ...prefs, selectedPrintProfile: name };
+        await db.userPreferences.put(newPrefs);
+        set({ preferences: newPrefs });
+    },
+
+    setKeyBindings: async (bindings: KeyBindings) => {
+        const prefs = get().preferences;
+        if (!prefs) return;
+
+        const newPrefs = { ...prefs, keyBindings: bindings };
+        await db.userPreferences.put(newPrefs);
+        set({ preferences: newPrefs });
+    },
+
+    saveOverridesPresets: async (presets: OverridesPreset[]) => {
+        const prefs = get().preferences;
+        if (!prefs) return;
+
+        // Presets with an existing name (case-insensitive) replace it
+        const keys = new Set(presets.map((p) => p.name.trim().toLowerCase()));
+        const others = (prefs.overridesPresets ?? []).filter((p) => !keys.has(p.name.trim().toLowerCase()));
+        const newPrefs = { ...prefs, overridesPresets: [...others, ...presets] };
+        await db.userPreferences.put(newPrefs);
+        set({ preferences: newPrefs });
+    },
+
+    deleteOverridesPreset: async (name: string) => {
+        const prefs = get().preferences;
+        if (!prefs) return;
+
+        const key = name.trim().toLowerCase();
+        const newPrefs = {
+            ...prefs,
+            overridesPresets: (prefs.overridesPresets ?? []).filter((p) => p.name.trim().toLowerCase() !== key),
+        };
+        await db.userPreferences.put(newPrefs);
+        set({ preferences: newPrefs });
     }
 }));
@@ -40,6 +40,42 @@ type UpdateStatus = 'checking' | 'available' | 'not-available' | 'error' | 'down
 
 type UpdateEventInfo = UpdateInfo | ProgressInfo | string | null;
 
+// Image picked up from the Electron watch folder
+interface WatchFolderImage {
+  name: string;
+  type: string;
+  data: Uint8Array<ArrayBuffer>;
+}
+
+// Deck file opened via file association or dock drop
+interface OpenedDeckFile {
+  name: string;
+  content: string;
+}
+
+// Direct printing
+type PrintDuplexMode = 'simplex' | 'longEdge' | 'shortEdge';
+
+interface PrinterDefaults {
+  copies: number;
+  duplexMode?: Exclude<PrintDuplexMode, 'simplex'>;
+}
+
+interface PrintSetup {
+  printers: { name: string; displayName: string }[];
+  lastPrinter: string | null;
+  defaults: Record<string, PrinterDefaults>;
+}
+
+interface PrintPagesJob {
+  deviceName: string;
+  copies: number;
+  duplexMode: PrintDuplexMode;
+  pageWidthMm: number;
+  pageHeightMm: number;
+  pages: Uint8Array[];
+}
+
 interface Window {
   electronAPI?: {
     serverUrl: () => Promise<string>;
@@ -53,5 +89,16 @@ interface Window {
     checkForUpdates: () => Promise<void>;
     downloadUpdate: () => Promise<void>;
     installUpdate: () => Promise<void>;
+    // Native file integration
+    saveFile?: (filename: string, data: Uint8Array) => Promise<{ saved: boolean; filePath?: string }>;
+    getWatchFolder?: () => Promise<string | null>;
+    chooseWatchFolder?: () => Promise<string | null>;
+    clearWatchFolder?: () => Promise<boolean>;
+    onWatchFolderImage?: (callback: (file: WatchFolderImage) => void) => () => void;
+    onOpenFile?: (callback: (file: OpenedDeckFile) => void) => () => void;
+    takePendingOpenFiles?: () => Promise<OpenedDeckFile[]>;
+    // Direct printing
+    getPrintSetup?: () => Promise<PrintSetup>;
+    printPages?: (job: PrintPagesJob) => Promise<boolean>;
   };
 }
@@ -1,4 +1,4 @@
-import { app, BrowserWindow, ipcMain, nativeTheme, dialog, Menu, MenuItemConstructorOptions, net } from 'electron';
+import { app, BrowserWindow, ipcMain, nativeTheme, dialog, Menu, MenuItemConstructorOptions, net, FileFilter, OpenDialogOptions, SaveDialogOptions } from 'electron';
 import path from 'path';
 import { fileURLToPath, pathToFileURL } from 'url';
 import fs from 'fs';
@@ -10,7 +10,16 @@ function getSettingsPath() {
     return path.join(app.getPath('userData'), 'electron-settings.json');
 }
 
-function loadElectronSettings(): { autoUpdateEnabled?: boolean, updateChannel?: string } {
+interface ElectronSettings {
+    autoUpdateEnabled?: boolean;
+    updateChannel?: string;
+    lastExportDir?: string; // Folder of the last native save, reused as the next default
+    watchFolder?: string; // Folder whose new images are imported into the upload library
+    lastPrinter?: string; // Printer used for the last direct print
+    printerDefaults?: Record<string, PrinterDefaults>; // Last options used per printer
+}
+
+function loadElectronSettings(): ElectronSettings {
     try {
         const settingsPath = getSettingsPath();
         if (fs.existsSync(settingsPath)) {
@@ -22,7 +31,7 @@ function loadElectronSettings(): { autoUpdateEnabled?: boolean, updateChannel?:
     return {};
 }
 
-function saveElectronSettings(settings: { autoUpdateEnabled?: boolean, updateChannel?: string }) {
+function saveElectronSettings(settings: ElectronSettings) {
     try {
         const settingsPath = getSettingsPath();
         const existing = loadElectronSettings();
@@ -73,6 +82,244 @@ function configureUpdateChannel() {
     console.log('[Electron] Update channel: latest (default)');
 }
 
+// --- Native file integration ---
+
+// Save dialog filters by export extension
+const EXPORT_FILTERS: Record<string, FileFilter> = {
+    pdf: { name: 'PDF', extensions: ['pdf'] },
+    zip: { name: 'ZIP Archive', extensions: ['zip'] },
+    xml: { name: 'MPC XML', extensions: ['xml'] },
+    txt: { name: 'Decklist', extensions: ['txt'] },
+    dek: { name: 'MTGO Deck', extensions: ['dek'] },
+    cod: { name: 'Cockatrice Deck', extensions: ['cod'] },
+};
+
+const WATCH_IMAGE_TYPES: Record<string, string> = {
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.webp': 'image/webp',
+};
+
+// Deck files the app opens via file association or dock drop
+const OPENABLE_EXTENSIONS = new Set(['.xml', '.txt', '.dek']);
+
+// Wait for a new file to stop changing before importing it
+const WATCH_SETTLE_MS = 1000;
+
+let folderWatcher: fs.FSWatcher | null = null;
+const knownWatchFiles = new Set<string>();
+const watchTimers = new Map<string, NodeJS.Timeout>();
+
+// Files opened before the renderer asked for them (e.g. on launch)
+const pendingOpenFiles: string[] = [];
+let rendererWantsFiles = false;
+
+function stopWatchFolder() {
+    folderWatcher?.close();
+    folderWatcher = null;
+    watchTimers.forEach((timer) => clearTimeout(timer));
+    watchTimers.clear();
+    knownWatchFiles.clear();
+}
+
+async function importWatchedFile(filePath: string) {
+    watchTimers.delete(filePath);
+    const stats = await fs.promises.stat(filePath).catch(() => null);
+    if (!stats?.isFile()) {
+        knownWatchFiles.delete(filePath);
+        return;
+    }
+    if (knownWatchFiles.has(filePath) || !mainWindow) return;
+
+    try {
+        const data = await fs.promises.readFile(filePath);
+        knownWatchFiles.add(filePath);
+        mainWindow.webContents.send('watch-folder-image', {
+            name: path.basename(filePath),
+            type: WATCH_IMAGE_TYPES[path.extname(filePath).toLowerCase()],
+            data: new Uint8Array(data),
+        });
+        console.log(`[Electron] Watch folder: imported ${filePath}`);
+    } catch (err) {
+        console.error(`[Electron] Watch folder: failed to read ${filePath}:`, err);
+    }
+}
+
+/**
+ * Watch `folder` for new images. Files already in the folder are ignored;
+ * only images added while the app runs are sent to the renderer.
+ */
+function startWatchFolder(folder: string | undefined) {
+    stopWatchFolder();
+    if (!folder || !fs.existsSync(folder)) return;
+
+    for (const name of fs.readdirSync(folder)) {
+        knownWatchFiles.add(path.join(folder, name));
+    }
+
+    try {
+        folderWatcher = fs.watch(folder, (_event, filename) => {
+            if (!filename) return;
+            const filePath = path.join(folder, filename.toString());
+            if (!WATCH_IMAGE_TYPES[path.extname(filePath).toLowerCase()]) return;
+
+            clearTimeout(watchTimers.get(filePath));
+            watchTimers.set(filePath, setTimeout(() => importWatchedFile(filePath), WATCH_SETTLE_MS));
+        });
+        folderWatcher.on('error', (err) => {
+            console.error('[Electron] Watch folder error:', err);
+            stopWatchFolder();
+        });
+        console.log(`[Electron] Watching folder: ${folder}`);
+    } catch (err) {
+        console.error(`[Electron] Failed to watch ${folder}:`, err);
+    }
+}
+
+function isOpenableFile(filePath: string): boolean {
+    return OPENABLE_EXTENSIONS.has(path.extname(filePath).toLowerCase()) && fs.existsSync(filePath);
+}
+
+async function readOpenedFile(filePath: string): Promise<{ name: string; content: string } | null> {
+    try {
+        return { name: path.basename(filePath), content: await fs.promises.readFile(filePath, 'utf8') };
+    } catch (err) {
+        console.error(`[Electron] Failed to open ${filePath}:`, err);
+        return null;
+    }
+}
+
+/**
+ * Hand a deck file to the renderer, or queue it until the renderer is ready.
+ */
+async function openDeckFile(filePath: string) {
+    if (!isOpenableFile(filePath)) return;
+    if (!rendererWantsFiles || !mainWindow) {
+        pendingOpenFiles.push(filePath);
+        return;
+    }
+    const file = await readOpenedFile(filePath);
+    if (file) mainWindow.webContents.send('open-file', file);
+}
+
+// Deck files passed on the command line (Windows/Linux file association)
+function openFilesFromArgv(argv: string[]) {
+    argv.slice(app.isPackaged ? 1 : 2).filter(isOpenableFile).forEach(openDeckFile);
+}
+
+// Only one window: files opened while running go to the existing instance
+if (!app.requestSingleInstanceLock()) {
+    app.quit();
+} else {
+    app.on('second-instance', (_event, argv) => {
+        openFilesFromArgv(argv);
+        if (mainWindow) {
+            if (mainWindow.isMinimized()) mainWindow.restore();
+            mainWindow.focus();
+        }
+    });
+}
+
+// macOS: file association and files dropped onto the dock icon
+app.on('open-file', (event, filePath) => {
+    event.preventDefault();
+    openDeckFile(filePath);
+});
+
+// --- Direct printing ---
+
+type PrintDuplexMode = 'simplex' | 'longEdge' | 'shortEdge';
+
+interface PrinterDefaults {
+    copies: number;
+    duplexMode?: Exclude<PrintDuplexMode, 'simplex'>; // Flip edge used for duplex jobs
+}
+
+interface PrintPagesJob {
+    deviceName: string;
+    copies: number;
+    duplexMode: PrintDuplexMode;
+    pageWidthMm: number;
+    pageHeightMm: number;
+    pages: Uint8Array[]; // JPEG page images in print order
+}
+
+// One full-bleed image per page; @page keeps Chromium from adding margins
+function buildPrintDocument(pageWidthMm: number, pageHeightMm: number, pageFiles: string[]): string {
+    return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<style>
+@page { size: ${pageWidthMm}mm ${pageHeightMm}mm; margin: 0; }
+html, body { margin: 0; padding: 0; }
+img { display: block; width: ${pageWidthMm}mm; height: ${pageHeightMm}mm; break-after: page; }
+img:last-child { break-after: auto; }
+</style>
+</head>
+<body>
+${pageFiles.map((file) => `<img src="${file}">`).join('\n')}
+</body>
+</html>`;
+}
+
+/**
+ * Print page images at 100% scale through a hidden window. Setting
+ * PROXXIED_PRINT_TO_PDF to a file path writes the job there with printToPDF
+ * instead, so the output can be checked without a printer.
+ */
+async function printPages(job: PrintPagesJob): Promise<void> {
+    const jobDir = fs.mkdtempSync(path.join(app.getPath('temp'), 'proxxied-print-'));
+    const printWindow = new BrowserWindow({ show: false, webPreferences: { javascript: false } });
+
+    try {
+        const pageFiles = job.pages.map((page, index) => {
+            const name = `page-${index + 1}.jpg`;
+            fs.writeFileSync(path.join(jobDir, name), page);
+            return name;
+        });
+        const documentPath = path.join(jobDir, 'print.html');
+        fs.writeFileSync(documentPath, buildPrintDocument(job.pageWidthMm, job.pageHeightMm, pageFiles));
+        await printWindow.loadFile(documentPath);
+
+        const pdfPath = process.env.PROXXIED_PRINT_TO_PDF;
+        if (pdfPath) {
+            const pdf = await printWindow.webContents.printToPDF({
+                preferCSSPageSize: true,
+                printBackground: true,
+                margins: { top: 0, bottom: 0, left: 0, right: 0 },
+            });
+            fs.writeFileSync(pdfPath, pdf);
+            console.log(`[Electron/Print] Wrote ${job.pages.length} pages to ${pdfPath}`);
+            return;
+        }
+
+        await new Promise<void>((resolve, reject) => {
+            printWindow.webContents.print({
+                silent: true,
+                deviceName: job.deviceName,
+                copies: job.copies,
+                duplexMode: job.duplexMode,
+                printBackground: true,
+                margins: { marginType: 'none' },
+                pageSize: {
+                    width: Math.round(job.pageWidthMm * 1000), // microns
+                    height: Math.round(job.pageHeightMm * 1000),
+                },
+                scaleFactor: 100,
+            }, (success, failureReason) => {
+                if (success) resolve();
+                else reject(new Error(failureReason === 'cancelled' ? 'Printing was cancelled' : 'Printing failed'));
+            });
+        });
+        console.log(`[Electron/Print] Sent ${job.pages.length} pages to ${job.deviceName}`);
+    } finally {
+        printWindow.destroy();
+        fs.rmSync(jobDir, { recursive: true, force: true });
+    }
+}
+
 function createWindow() {
     const isDev = !app.isPackaged;
 
@@ -181,8 +428,14 @@ function createWindow() {
         }
     }
 
+    // A reload drops the renderer's file listeners until it asks again
+    mainWindow.webContents.on('did-start-loading', () => {
+        rendererWantsFiles = false;
+    });
+
     mainWindow.on('closed', () => {
         mainWindow = null;
+        rendererWantsFiles = false;
     });
 }
 
@@ -290,6 +543,87 @@ app.whenReady().then(async () => {
         return true;
     });
 
+    // Native save dialog for exports, starting in the last folder used
+    ipcMain.handle('save-file', async (_event, filename: string, data: Uint8Array) => {
+        const settings = loadElectronSettings();
+        const folder = settings.lastExportDir && fs.existsSync(settings.lastExportDir)
+            ? settings.lastExportDir
+            : app.getPath('downloads');
+        const filter = EXPORT_FILTERS[path.extname(filename).slice(1).toLowerCase()];
+        const options: SaveDialogOptions = {
+            defaultPath: path.join(folder, path.basename(filename)),
+            filters: filter ? [filter, { name: 'All Files', extensions: ['*'] }] : [],
+        };
+
+        const result = mainWindow
+            ? await dialog.showSaveDialog(mainWindow, options)
+            : await dialog.showSaveDialog(options);
+        if (result.canceled || !result.filePath) return { saved: false };
+
+        await fs.promises.writeFile(result.filePath, data);
+        saveElectronSettings({ lastExportDir: path.dirname(result.filePath) });
+        console.log(`[Electron] Saved ${result.filePath}`);
+        return { saved: true, filePath: result.filePath };
+    });
+
+    ipcMain.handle('get-watch-folder', () => loadElectronSettings().watchFolder ?? null);
+    ipcMain.handle('choose-watch-folder', async () => {
+        const options: OpenDialogOptions = {
+            title: 'Choose a folder to import new images from',
+            properties: ['openDirectory', 'createDirectory'],
+        };
+        const result = mainWindow
+            ? await dialog.showOpenDialog(mainWindow, options)
+            : await dialog.showOpenDialog(options);
+        const folder = result.filePaths[0];
+        if (result.canceled || !folder) return null;
+
+        saveElectronSettings({ watchFolder: folder });
+        startWatchFolder(folder);
+        return folder;
+    });
+    ipcMain.handle('clear-watch-folder', () => {
+        saveElectronSettings({ watchFolder: undefined });
+        stopWatchFolder();
+        return true;
+    });
+
+    // The renderer calls this once its open-file listener is registered
+    ipcMain.handle('take-pending-open-files', async () => {
+        rendererWantsFiles = true;
+        const files = await Promise.all(pendingOpenFiles.splice(0).map(readOpenedFile));
+        return files.filter((file) => file !== null);
+    });
+
+    // Direct printing
+    ipcMain.handle('get-print-setup', async () => {
+        const printers = mainWindow ? await mainWindow.webContents.getPrintersAsync() : [];
+        const settings = loadElectronSettings();
+        return {
+            printers: printers.map((printer) => ({ name: printer.name, displayName: printer.displayName || printer.name })),
+            lastPrinter: settings.lastPrinter ?? null,
+            defaults: settings.printerDefaults ?? {},
+        };
+    });
+    ipcMain.handle('print-pages', async (_event, job: PrintPagesJob) => {
+        await printPages(job);
+
+        const { printerDefaults = {} } = loadElectronSettings();
+        const previous = printerDefaults[job.deviceName];
+        saveElectronSettings({
+            lastPrinter: job.deviceName,
+            printerDefaults: {
+                ...printerDefaults,
+                [job.deviceName]: {
+                    copies: job.copies,
+                    // Simplex jobs keep the flip edge chosen for duplex ones
+                    duplexMode: job.duplexMode === 'simplex' ? previous?.duplexMode : job.duplexMode,
+                },
+            },
+        });
+        return true;
+    });
+
     // Moxfield deck fetch handler - uses Chromium's network stack to bypass Cloudflare
     ipcMain.handle('fetch-moxfield-deck', async (_event, deckId: string) => {
         const MOXFIELD_API = 'https://api2.moxfield.com/v2';
@@ -342,6 +676,8 @@ app.whenReady().then(async () => {
         }
     });
     createWindow();
+    startWatchFolder(loadElectronSettings().watchFolder);
+    openFilesFromArgv(process.argv);
 
     app.on('activate', () => {
         if (BrowserWindow.getAllWindows().length === 0) createWindow();
@@ -351,3 +687,7 @@ app.whenReady().then(async () => {
 app.on('window-all-closed', () => {
     if (process.platform !== 'darwin') app.quit();
 });
+
+app.on('will-quit', () => {
+    stopWatchFolder();
+});
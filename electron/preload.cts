@@ -15,6 +15,25 @@ contextBridge.exposeInMainWorld('electronAPI', {
     onShowAbout: (callback: () => void) => {
         ipcRenderer.on('show-about', () => callback());
     },
+    // Native file integration
+    saveFile: (filename: string, data: Uint8Array) => ipcRenderer.invoke('save-file', filename, data),
+    getWatchFolder: () => ipcRenderer.invoke('get-watch-folder'),
+    chooseWatchFolder: () => ipcRenderer.invoke('choose-watch-folder'),
+    clearWatchFolder: () => ipcRenderer.invoke('clear-watch-folder'),
+    onWatchFolderImage: (callback: (file: { name: string; type: string; data: Uint8Array }) => void) => {
+        const listener = (_event: unknown, file: { name: string; type: string; data: Uint8Array }) => callback(file);
+        ipcRenderer.on('watch-folder-image', listener);
+        return () => ipcRenderer.removeListener('watch-folder-image', listener);
+    },
+    onOpenFile: (callback: (file: { name: string; content: string }) => void) => {
+        const listener = (_event: unknown, file: { name: string; content: string }) => callback(file);
+        ipcRenderer.on('open-file', listener);
+        return () => ipcRenderer.removeListener('open-file', listener);
+    },
+    takePendingOpenFiles: () => ipcRenderer.invoke('take-pending-open-files'),
+    // Direct printing
+    getPrintSetup: () => ipcRenderer.invoke('get-print-setup'),
+    printPages: (job: unknown) => ipcRenderer.invoke('print-pages', job),
     checkForUpdates: () => ipcRenderer.invoke('check-for-updates'),
     downloadUpdate: () => ipcRenderer.invoke('download-update'),
     installUpdate: () => ipcRenderer.invoke('install-update'),
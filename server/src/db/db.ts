@@ -9,7 +9,7 @@ const __dirname = path.dirname(__filename);
 const DB_PATH = path.join(__dirname, '..', '..', 'data', 'proxxied-cards.db');
 
 // Current schema version - increment when adding migrations
-const CURRENT_DB_VERSION = 5;
+const CURRENT_DB_VERSION = 9;
 
 // Migration definitions - each entry upgrades from (version-1) to (version)
 // Add new migrations to the end of this array
@@ -111,6 +111,48 @@ const migrations: Migration[] = [
       'CREATE INDEX IF NOT EXISTS idx_shares_expires ON shares(expires_at);',
     ],
   },
+  {
+    version: 6,
+    description: 'Add edit token hash to shares for ownership checks',
+    up: [
+      // SHA-256 of the secret edit token issued on share creation (NULL for legacy shares)
+      'ALTER TABLE shares ADD COLUMN edit_token_hash TEXT;',
+    ],
+  },
+  {
+    version: 7,
+    description: 'Add share_revisions table for share history',
+    up: [
+      // Bounded per-share history of gzipped deck snapshots (pruned on write)
+      `CREATE TABLE IF NOT EXISTS share_revisions (
+        share_id TEXT NOT NULL,        -- References shares.id
+        rev INTEGER NOT NULL,          -- Monotonic per share, starting at 1
+        data BLOB NOT NULL,            -- gzipped JSON
+        created_at INTEGER NOT NULL,   -- Unix timestamp
+        PRIMARY KEY (share_id, rev)
+      );`,
+    ],
+  },
+  {
+    version: 8,
+    description: 'Add oracle_text and color_identity columns for local search',
+    up: [
+      'ALTER TABLE cards ADD COLUMN oracle_text TEXT;',
+      'ALTER TABLE cards ADD COLUMN color_identity TEXT;',
+      // Existing rows lack the new columns - force a fresh bulk import
+      "DELETE FROM metadata WHERE key = 'last_import';",
+    ],
+  },
+  {
+    version: 9,
+    description: 'Add prices and legalities columns for deck cost and format checks',
+    up: [
+      'ALTER TABLE cards ADD COLUMN prices TEXT;',
+      'ALTER TABLE cards ADD COLUMN legalities TEXT;',
+      // Existing rows lack the new columns - force a fresh bulk import
+      "DELETE FROM metadata WHERE key = 'last_import';",
+    ],
+  },
 ];
 
 let db: Database.Database | null = null;
@@ -199,6 +241,10 @@ export function initDatabase(): Database.Database {
       type_line TEXT,                   -- e.g., "Sorcery // Land"
       rarity TEXT,                      -- common, uncommon, rare, mythic
       layout TEXT,                      -- normal, transform, mdfc, split, etc.
+      oracle_text TEXT,                 -- Rules text (all faces for DFCs)
+      color_identity TEXT,              -- JSON array: ["W", "U"]
+      prices TEXT,                      -- JSON: { "usd": "0.25", "eur": "0.20", ... }
+      legalities TEXT,                  -- JSON: { "commander": "legal", ... }
       
       -- Image data
       image_uris TEXT,                  -- JSON: { "png": "https://...", ... }
@@ -246,7 +292,16 @@ export function initDatabase(): Database.Database {
       id TEXT PRIMARY KEY,
       data BLOB NOT NULL,
       created_at INTEGER NOT NULL,
-      expires_at INTEGER NOT NULL
+      expires_at INTEGER NOT NULL,
+      edit_token_hash TEXT
+    );
+
+    CREATE TABLE IF NOT EXISTS share_revisions (
+      share_id TEXT NOT NULL,
+      rev INTEGER NOT NULL,
+      data BLOB NOT NULL,
+      created_at INTEGER NOT NULL,
+      PRIMARY KEY (share_id, rev)
     );
   `);
 
@@ -294,11 +349,16 @@ export function closeDatabase(): void {
 
 /**
  * Clear all cached cards from the database.
- * Useful for forcing fresh fetches from Scryfall.
+ * Useful for forcing fresh fetches from Scryfall. Also forgets the last bulk
+ * import so the scheduler imports again on its next check.
  */
 export function clearCardsCache(): number {
   const database = getDatabase();
-  const result = database.prepare('DELETE FROM cards').run();
+  const result = database.transaction(() => {
+    database.prepare('DELETE FROM card_types').run();
+    database.prepare("DELETE FROM metadata WHERE key = 'last_import'").run();
+    return database.prepare('DELETE FROM cards').run();
+  })();
   console.log(`[DB] Cleared ${result.changes} cached cards`);
   return result.changes;
 }
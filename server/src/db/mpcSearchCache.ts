@@ -168,3 +168,15 @@ export function clearExpiredMpcCache(): number {
         return 0;
     }
 }
+
+/**
+ * Clear the whole cache, fresh entries included.
+ */
+export function clearMpcCache(): number {
+    try {
+        return getDatabase().prepare('DELETE FROM mpc_search_cache').run().changes;
+    } catch (error) {
+        debugLog('[MPC Cache] Failed to clear cache:', (error as Error).message);
+        return 0;
+    }
+}
@@ -137,6 +137,69 @@ export function lookupCardByName(
   }
 }
 
+/**
+ * Look up every printing of a card by name (case-insensitive).
+ * Falls back to DFCs where either face matches, e.g. "Bala Ged Sanctuary".
+ * Used to answer prints queries in offline mode.
+ */
+export function lookupCardPrints(
+  name: string,
+  lang: string = 'en'
+): ScryfallApiCard[] {
+  try {
+    const exactStmt = getPreparedStatement(
+      `SELECT * FROM cards WHERE name = ? COLLATE NOCASE AND lang = ? ORDER BY set_code, collector_number`
+    );
+    let rows = exactStmt.all(name, lang.toLowerCase()) as CardRow[];
+
+    if (rows.length === 0) {
+      const faceStmt = getPreparedStatement(
+        `SELECT * FROM cards WHERE (name LIKE ? OR name LIKE ?) AND lang = ? ORDER BY set_code, collector_number`
+      );
+      rows = faceStmt.all(`${name} //%`, `% // ${name}`, lang.toLowerCase()) as CardRow[];
+    }
+
+    return rows.map(rowToScryfallCard);
+  } catch {
+    // Database might not be initialized yet
+    return [];
+  }
+}
+
+export interface LocalCardQuery {
+  /** SQL condition on the cards table, with ? placeholders */
+  where: string;
+  params: Array<string | number>;
+  /** Collapse rows sharing this expression (e.g. one row per card) */
+  groupBy?: string;
+  orderBy: string;
+  limit: number;
+  offset: number;
+}
+
+/**
+ * Run a compiled search (see utils/localCardSearch.ts) against the local
+ * cards table. Returns one page of cards and the total number of matches.
+ */
+export function queryCardsLocally(query: LocalCardQuery): {
+  cards: ScryfallApiCard[];
+  total: number;
+} {
+  const db = getDatabase();
+  const groupBy = query.groupBy ? ` GROUP BY ${query.groupBy}` : '';
+  const from = `FROM cards WHERE ${query.where}${groupBy}`;
+
+  // Not cached: every search produces different SQL
+  const rows = db
+    .prepare(`SELECT * ${from} ORDER BY ${query.orderBy} LIMIT ? OFFSET ?`)
+    .all(...query.params, query.limit, query.offset) as CardRow[];
+  const { total } = db
+    .prepare(`SELECT COUNT(*) AS total FROM (SELECT 1 ${from})`)
+    .get(...query.params) as { total: number };
+
+  return { cards: rows.map(rowToScryfallCard), total };
+}
+
 /**
  * Insert or update a card in the database.
  * Used to cache Scryfall API responses.
@@ -146,10 +209,12 @@ const INSERT_CARD_SQL = `
   INSERT OR REPLACE INTO cards (
     id, oracle_id, name, set_code, collector_number, lang,
     colors, mana_cost, cmc, type_line, rarity, layout,
+    oracle_text, color_identity, prices, legalities,
     image_uris, card_faces, all_parts
   ) VALUES (
     @id, @oracle_id, @name, @set_code, @collector_number, @lang,
     @colors, @mana_cost, @cmc, @type_line, @rarity, @layout,
+    @oracle_text, @color_identity, @prices, @legalities,
     @image_uris, @card_faces, @all_parts
   )
 `;
@@ -173,6 +238,13 @@ function mapCardToSqlParams(card: ScryfallApiCard) {
     type_line: card.type_line || null,
     rarity: card.rarity || null,
     layout: card.layout || null,
+    // DFCs only have oracle text per face
+    oracle_text:
+      card.oracle_text ??
+      (card.card_faces?.map((face) => face.oracle_text ?? "").join("\n//\n") || null),
+    color_identity: card.color_identity ? JSON.stringify(card.color_identity) : null,
+    prices: card.prices ? JSON.stringify(card.prices) : null,
+    legalities: card.legalities ? JSON.stringify(card.legalities) : null,
     image_uris: card.image_uris ? JSON.stringify(card.image_uris) : null,
     card_faces: card.card_faces ? JSON.stringify(card.card_faces) : null,
     // Store '[]' for cards without tokens so we can distinguish "never fetched" (null) from "has no tokens" ([])
@@ -275,6 +347,10 @@ interface CardRow {
   type_line: string | null;
   rarity: string | null;
   layout: string | null;
+  oracle_text: string | null;
+  color_identity: string | null;
+  prices: string | null;
+  legalities: string | null;
   image_uris: string | null;
   card_faces: string | null;
   all_parts: string | null;
@@ -299,6 +375,10 @@ function rowToScryfallCard(row: CardRow): ScryfallApiCard {
     type_line: row.type_line || undefined,
     rarity: row.rarity || undefined,
     layout: row.layout || undefined,
+    oracle_text: row.oracle_text ?? undefined,
+    color_identity: row.color_identity ? JSON.parse(row.color_identity) : undefined,
+    prices: row.prices ? JSON.parse(row.prices) : undefined,
+    legalities: row.legalities ? JSON.parse(row.legalities) : undefined,
     image_uris: row.image_uris ? JSON.parse(row.image_uris) : undefined,
     card_faces: row.card_faces ? JSON.parse(row.card_faces) : undefined,
     all_parts: row.all_parts ? JSON.parse(row.all_parts) : undefined,
@@ -4,14 +4,17 @@ import express from "express";
 import { fileURLToPath } from "url";
 import { archidektRouter } from "./routes/archidektRouter.js";
 import { moxfieldRouter } from "./routes/moxfieldRouter.js";
+import { deckSitesRouter } from "./routes/deckSitesRouter.js";
 import { imageRouter } from "./routes/imageRouter.js";
 import { streamRouter } from "./routes/streamRouter.js";
 import { mpcAutofillRouter } from "./routes/mpcAutofillRouter.js";
 import { scryfallRouter } from "./routes/scryfallRouter.js";
 import { shareRouter, cleanupExpiredShares } from "./routes/shareRouter.js";
+import { adminRouter } from "./routes/adminRouter.js";
 import { initDatabase } from "./db/db.js";
-import { startImportScheduler } from "./services/importScheduler.js";
+import { startImportScheduler, importBulkFile, getBulkDataFilePath } from "./services/importScheduler.js";
 import { initCatalogs } from "./utils/scryfallCatalog.js";
+import { isOfflineMode } from "./utils/offline.js";
 
 // Initialize database (creates tables if needed)
 initDatabase();
@@ -19,6 +22,17 @@ initDatabase();
 // Initialize Scryfall type catalogs (for t: prefix detection)
 initCatalogs();
 
+// Import a previously downloaded bulk data file (--import-bulk <path>) first,
+// so the scheduler doesn't start a download alongside it
+const bulkDataFile = getBulkDataFilePath();
+if (bulkDataFile) {
+  importBulkFile(bulkDataFile);
+}
+
+if (isOfflineMode()) {
+  console.log("[Server] Offline mode: card data is served from the local database only.");
+}
+
 // Start import scheduler (triggers cold-start import if needed)
 startImportScheduler();
 
@@ -55,11 +69,13 @@ export function startServer(port: number = 3001): Promise<number> {
   app.use(express.json({ limit: "1mb" }));
   app.use("/api/archidekt", archidektRouter);
   app.use("/api/moxfield", moxfieldRouter);
+  app.use("/api/decksites", deckSitesRouter);
   app.use("/api/cards/images", imageRouter);
   app.use("/api/stream", streamRouter);
   app.use("/api/mpcfill", mpcAutofillRouter);
   app.use("/api/scryfall", scryfallRouter);
   app.use("/api/share", shareRouter);
+  app.use("/api/admin", adminRouter);
 
   return new Promise((resolve) => {
     const server = app.listen(port, "0.0.0.0", () => {
@@ -0,0 +1,191 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+
+vi.mock('../db/db.js', () => ({
+    clearCardsCache: vi.fn(() => 120),
+}));
+
+vi.mock('../db/proxxiedCardLookup.js', () => ({
+    clearScoringCache: vi.fn(),
+    getCardCount: vi.fn(() => 120),
+    getDbSizeBytes: vi.fn(() => 4096),
+}));
+
+vi.mock('../db/mpcSearchCache.js', () => ({
+    clearExpiredMpcCache: vi.fn(() => 2),
+    clearMpcCache: vi.fn(() => 7),
+    getMpcCacheStats: vi.fn(() => ({ count: 7, oldestTimestamp: 1000 })),
+}));
+
+vi.mock('../services/bulkDataService.js', () => ({
+    getLastImportTime: vi.fn(() => '2026-01-01T00:00:00.000Z'),
+}));
+
+vi.mock('../services/importScheduler.js', () => ({
+    getBulkDataFilePath: vi.fn(() => null),
+    getSchedulerStatus: vi.fn(() => ({ enabled: true, cron: '0 3 * * 3', nextRun: null })),
+    triggerImport: vi.fn(() => true),
+}));
+
+vi.mock('./imageRouter.js', () => ({
+    clearImageCache: vi.fn(async () => 3),
+    getImageCacheStats: vi.fn(async () => ({ files: 3, bytes: 300, maxBytes: 1000 })),
+}));
+
+vi.mock('./scryfallRouter.js', () => ({
+    clearScryfallCache: vi.fn(() => 5),
+    getScryfallCacheStats: vi.fn(() => [{ endpoint: 'search', count: 5, expired: 1 }]),
+}));
+
+vi.mock('./shareRouter.js', () => ({
+    cleanupExpiredShares: vi.fn(() => 4),
+    getShareStats: vi.fn(() => ({ count: 10, expired: 4, revisions: 12, bytes: 2048 })),
+}));
+
+import { adminRouter } from './adminRouter.js';
+import { clearCardsCache } from '../db/db.js';
+import { clearExpiredMpcCache } from '../db/mpcSearchCache.js';
+import { getBulkDataFilePath, triggerImport } from '../services/importScheduler.js';
+import { clearScryfallCache } from './scryfallRouter.js';
+import { setOfflineMode } from '../utils/offline.js';
+
+const TOKEN = 'test-admin-token';
+
+describe('adminRouter', () => {
+    let app: express.Application;
+
+    const authed = (req: request.Test) => req.set('Authorization', `Bearer ${TOKEN}`);
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.stubEnv('PROXXIED_ADMIN_TOKEN', TOKEN);
+        app = express();
+        app.use(express.json());
+        app.use('/api/admin', adminRouter);
+    });
+
+    afterEach(() => {
+        vi.unstubAllEnvs();
+        setOfflineMode(false);
+    });
+
+    describe('authentication', () => {
+        it('should be disabled without a configured token', async () => {
+            vi.stubEnv('PROXXIED_ADMIN_TOKEN', '');
+
+            const res = await authed(request(app).get('/api/admin/stats'));
+
+            expect(res.status).toBe(503);
+            expect(res.body.error).toContain('PROXXIED_ADMIN_TOKEN');
+        });
+
+        it('should reject missing and wrong tokens', async () => {
+            const missing = await request(app).get('/api/admin/stats');
+            const wrong = await request(app).get('/api/admin/stats').set('Authorization', 'Bearer nope');
+
+            expect(missing.status).toBe(401);
+            expect(wrong.status).toBe(401);
+            expect(clearCardsCache).not.toHaveBeenCalled();
+        });
+    });
+
+    it('should report stats', async () => {
+        const res = await authed(request(app).get('/api/admin/stats'));
+
+        expect(res.status).toBe(200);
+        expect(res.body).toEqual({
+            offline: false,
+            cards: { count: 120, dbSizeBytes: 4096, lastImport: '2026-01-01T00:00:00.000Z' },
+            scryfallCache: [{ endpoint: 'search', count: 5, expired: 1 }],
+            mpcCache: { count: 7, oldestTimestamp: 1000 },
+            imageCache: { files: 3, bytes: 300, maxBytes: 1000 },
+            shares: { count: 10, expired: 4, revisions: 12, bytes: 2048 },
+        });
+    });
+
+    it('should report scheduler status', async () => {
+        const res = await authed(request(app).get('/api/admin/scheduler'));
+
+        expect(res.status).toBe(200);
+        expect(res.body.cron).toBe('0 3 * * 3');
+    });
+
+    describe('POST /import', () => {
+        it('should start a Scryfall import', async () => {
+            const res = await authed(request(app).post('/api/admin/import').send({}));
+
+            expect(res.status).toBe(202);
+            expect(triggerImport).toHaveBeenCalledWith(undefined);
+        });
+
+        it('should re-import the configured bulk data file', async () => {
+            vi.mocked(getBulkDataFilePath).mockReturnValueOnce('/data/all-cards.json');
+
+            const res = await authed(request(app).post('/api/admin/import').send({ source: 'file' }));
+
+            expect(res.status).toBe(202);
+            expect(triggerImport).toHaveBeenCalledWith('/data/all-cards.json');
+        });
+
+        it('should reject file imports without a configured file', async () => {
+            const res = await authed(request(app).post('/api/admin/import').send({ source: 'file' }));
+
+            expect(res.status).toBe(400);
+            expect(triggerImport).not.toHaveBeenCalled();
+        });
+
+        it('should refuse downloads in offline mode', async () => {
+            setOfflineMode(true);
+
+            const res = await authed(request(app).post('/api/admin/import').send({ source: 'scryfall' }));
+
+            expect(res.status).toBe(503);
+            expect(res.body.offline).toBe(true);
+        });
+
+        it('should report an import that is already running', async () => {
+            vi.mocked(triggerImport).mockReturnValueOnce(false);
+
+            const res = await authed(request(app).post('/api/admin/import').send({}));
+
+            expect(res.status).toBe(409);
+        });
+    });
+
+    describe('DELETE /cache/:name', () => {
+        it.each([
+            ['cards', 120],
+            ['scryfall', 5],
+            ['mpc', 7],
+            ['images', 3],
+        ])('should purge the %s cache', async (name, removed) => {
+            const res = await authed(request(app).delete(`/api/admin/cache/${name}`));
+
+            expect(res.status).toBe(200);
+            expect(res.body).toEqual({ name, removed });
+        });
+
+        it('should purge only expired entries when asked', async () => {
+            await authed(request(app).delete('/api/admin/cache/scryfall?expired=true'));
+            const mpc = await authed(request(app).delete('/api/admin/cache/mpc?expired=true'));
+
+            expect(clearScryfallCache).toHaveBeenCalledWith(true);
+            expect(clearExpiredMpcCache).toHaveBeenCalled();
+            expect(mpc.body.removed).toBe(2);
+        });
+
+        it('should reject unknown caches', async () => {
+            const res = await authed(request(app).delete('/api/admin/cache/shares'));
+
+            expect(res.status).toBe(404);
+        });
+    });
+
+    it('should clean up expired shares', async () => {
+        const res = await authed(request(app).post('/api/admin/shares/cleanup'));
+
+        expect(res.status).toBe(200);
+        expect(res.body).toEqual({ removed: 4 });
+    });
+});
@@ -0,0 +1,162 @@
+/**
+ * Admin Router
+ *
+ * Maintenance endpoints for self-hosted instances: cache and share statistics,
+ * cache purges, manual bulk imports and scheduler status. Disabled unless
+ * PROXXIED_ADMIN_TOKEN is set; every request must send it as a bearer token.
+ */
+
+import { Router, type NextFunction, type Request, type Response } from "express";
+import { createHash, timingSafeEqual } from "crypto";
+import type { AdminCacheName, AdminStats } from "../../../shared/types.js";
+import { clearCardsCache } from "../db/db.js";
+import { clearScoringCache, getCardCount, getDbSizeBytes } from "../db/proxxiedCardLookup.js";
+import { clearExpiredMpcCache, clearMpcCache, getMpcCacheStats } from "../db/mpcSearchCache.js";
+import { getLastImportTime } from "../services/bulkDataService.js";
+import { getBulkDataFilePath, getSchedulerStatus, triggerImport } from "../services/importScheduler.js";
+import { clearImageCache, getImageCacheStats } from "./imageRouter.js";
+import { clearScryfallCache, getScryfallCacheStats } from "./scryfallRouter.js";
+import { cleanupExpiredShares, getShareStats } from "./shareRouter.js";
+import { isOfflineMode, sendOfflineUnavailable } from "../utils/offline.js";
+
+const router = Router();
+
+const CACHE_NAMES: AdminCacheName[] = ["cards", "scryfall", "mpc", "images"];
+
+/**
+ * Constant-time comparison of the presented token with PROXXIED_ADMIN_TOKEN.
+ * Both sides are hashed first so their lengths always match.
+ */
+function isValidAdminToken(presented: string | undefined, expected: string): boolean {
+    if (!presented) return false;
+    const digest = (token: string) => createHash("sha256").update(token).digest();
+    return timingSafeEqual(digest(presented), digest(expected));
+}
+
+function requireAdminToken(req: Request, res: Response, next: NextFunction) {
+    const expected = process.env.PROXXIED_ADMIN_TOKEN;
+    if (!expected) {
+        res.status(503).json({ error: "Admin API is disabled. Set PROXXIED_ADMIN_TOKEN to enable it." });
+        return;
+    }
+
+    const bearer = req.get("Authorization")?.replace(/^Bearer\s+/i, "");
+    if (!isValidAdminToken(bearer, expected)) {
+        res.status(401).json({ error: "Invalid or missing admin token" });
+        return;
+    }
+    next();
+}
+
+router.use(requireAdminToken);
+
+/**
+ * GET /api/admin/stats
+ * Card database, cache and share statistics.
+ */
+router.get("/stats", async (_req: Request, res: Response) => {
+    try {
+        const stats: AdminStats = {
+            offline: isOfflineMode(),
+            cards: { count: getCardCount(), dbSizeBytes: getDbSizeBytes(), lastImport: getLastImportTime() },
+            scryfallCache: getScryfallCacheStats(),
+            mpcCache: getMpcCacheStats(),
+            imageCache: await getImageCacheStats(),
+            shares: getShareStats(),
+        };
+        res.json(stats);
+    } catch (err) {
+        console.error("[Admin] Failed to collect stats:", err);
+        res.status(500).json({ error: "Failed to collect stats" });
+    }
+});
+
+/**
+ * GET /api/admin/scheduler
+ * Import schedule, next run and the progress of a running import.
+ */
+router.get("/scheduler", (_req: Request, res: Response) => {
+    res.json(getSchedulerStatus());
+});
+
+/**
+ * POST /api/admin/import
+ * Start a bulk import now. Body: { source?: "scryfall" | "file" }
+ * "file" re-imports the file configured with --import-bulk / PROXXIED_BULK_DATA_FILE.
+ * Responds 202 with the scheduler status; poll GET /scheduler for progress.
+ */
+router.post("/import", (req: Request, res: Response) => {
+    const source = req.body?.source ?? "scryfall";
+    if (source !== "scryfall" && source !== "file") {
+        return res.status(400).json({ error: 'source must be "scryfall" or "file"' });
+    }
+
+    let filePath: string | undefined;
+    if (source === "file") {
+        filePath = getBulkDataFilePath() ?? undefined;
+        if (!filePath) {
+            return res.status(400).json({ error: "No bulk data file configured. Start the server with --import-bulk <file>." });
+        }
+    } else if (isOfflineMode()) {
+        return sendOfflineUnavailable(res, "Downloading bulk data");
+    }
+
+    if (!triggerImport(filePath)) {
+        return res.status(409).json({ error: "An import is already running" });
+    }
+    return res.status(202).json(getSchedulerStatus());
+});
+
+/**
+ * DELETE /api/admin/cache/:name
+ * Purge one cache: cards, scryfall, mpc or images.
+ * ?expired=true limits scryfall and mpc purges to expired entries.
+ * Response: { name, removed }
+ */
+router.delete("/cache/:name", async (req: Request, res: Response) => {
+    const name = req.params.name as AdminCacheName;
+    if (!CACHE_NAMES.includes(name)) {
+        return res.status(404).json({ error: `Unknown cache "${name}"` });
+    }
+    const expiredOnly = req.query.expired === "true";
+
+    try {
+        let removed: number;
+        switch (name) {
+            case "cards":
+                removed = clearCardsCache();
+                clearScoringCache();
+                break;
+            case "scryfall":
+                removed = clearScryfallCache(expiredOnly);
+                break;
+            case "mpc":
+                removed = expiredOnly ? clearExpiredMpcCache() : clearMpcCache();
+                break;
+            case "images":
+                removed = await clearImageCache();
+                break;
+        }
+        console.log(`[Admin] Purged ${removed} entries from the ${name} cache`);
+        return res.json({ name, removed });
+    } catch (err) {
+        console.error(`[Admin] Failed to purge the ${name} cache:`, err);
+        return res.status(500).json({ error: `Failed to purge the ${name} cache` });
+    }
+});
+
+/**
+ * POST /api/admin/shares/cleanup
+ * Delete expired shares now instead of waiting for the hourly cleanup.
+ * Response: { removed }
+ */
+router.post("/shares/cleanup", (_req: Request, res: Response) => {
+    try {
+        res.json({ removed: cleanupExpiredShares() });
+    } catch (err) {
+        console.error("[Admin] Share cleanup failed:", err);
+        res.status(500).json({ error: "Failed to clean up shares" });
+    }
+});
+
+export { router as adminRouter };
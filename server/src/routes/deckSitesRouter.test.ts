@@ -0,0 +1,137 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+
+vi.mock('../utils/lruCache.js', () => ({
+    // Disable caching so every test sees its own fetch mock
+    LRUCache: class {
+        get() { return undefined; }
+        set() { }
+    },
+}));
+
+import { deckSitesRouter } from './deckSitesRouter.js';
+
+function fixture(name: string): string {
+    return readFileSync(fileURLToPath(new URL(`../__fixtures__/decksites/${name}`, import.meta.url)), 'utf-8');
+}
+
+const mockFetch = vi.fn();
+
+function respondWith(body: string, status = 200) {
+    mockFetch.mockResolvedValueOnce(new Response(body, { status }));
+}
+
+describe('deckSitesRouter', () => {
+    let app: express.Application;
+
+    beforeEach(() => {
+        app = express();
+        app.use('/api/decksites', deckSitesRouter);
+        vi.stubGlobal('fetch', mockFetch);
+        mockFetch.mockReset();
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    describe('GET /scryfall/:id', () => {
+        const deckId = '4d8f2c1a-7b3e-4f5a-9c2d-1e6b8a0f3d57';
+
+        it('should return the normalized deck', async () => {
+            respondWith(fixture('scryfall-deck.json'));
+
+            const res = await request(app).get(`/api/decksites/scryfall/${deckId}`);
+
+            expect(res.status).toBe(200);
+            expect(res.body).toMatchObject({ source: 'scryfall', id: deckId, name: 'Atraxa Superfriends' });
+            expect(res.body.cards).toHaveLength(5);
+            expect(mockFetch).toHaveBeenCalledWith(
+                `https://api.scryfall.com/decks/${deckId}/export/json`,
+                expect.anything()
+            );
+        });
+
+        it('should reject IDs that are not UUIDs', async () => {
+            const res = await request(app).get('/api/decksites/scryfall/not-a-uuid');
+            expect(res.status).toBe(400);
+            expect(mockFetch).not.toHaveBeenCalled();
+        });
+
+        it('should forward 404s with a friendly message', async () => {
+            respondWith('{}', 404);
+
+            const res = await request(app).get(`/api/decksites/scryfall/${deckId}`);
+
+            expect(res.status).toBe(404);
+            expect(res.body.error).toBe('Deck not found. It may be private or deleted.');
+        });
+    });
+
+    describe('GET /tappedout/:slug', () => {
+        it('should parse the CSV export and name the deck from its slug', async () => {
+            respondWith(fixture('tappedout-deck.csv'));
+
+            const res = await request(app).get('/api/decksites/tappedout/atraxa-superfriends');
+
+            expect(res.status).toBe(200);
+            expect(res.body.name).toBe('Atraxa Superfriends');
+            expect(res.body.cards[0]).toMatchObject({ name: "Atraxa, Praetors' Voice", category: 'Commander' });
+            expect(mockFetch).toHaveBeenCalledWith('https://tappedout.net/mtg-decks/atraxa-superfriends/?fmt=csv', expect.anything());
+        });
+
+        it('should reject slugs with path characters', async () => {
+            const res = await request(app).get('/api/decksites/tappedout/..%2Fadmin');
+            expect(res.status).toBe(400);
+        });
+    });
+
+    describe('GET /deckstats/:userId/:deckId', () => {
+        it('should parse the text export', async () => {
+            respondWith(fixture('deckstats-deck.txt'));
+
+            const res = await request(app).get('/api/decksites/deckstats/120145/1806476-atraxa-superfriends');
+
+            expect(res.status).toBe(200);
+            expect(res.body).toMatchObject({ source: 'deckstats', id: '120145/1806476-atraxa-superfriends', name: 'Atraxa Superfriends' });
+            expect(res.body.cards).toHaveLength(6);
+        });
+
+        it('should reject non-numeric user IDs', async () => {
+            const res = await request(app).get('/api/decksites/deckstats/bob/1806476');
+            expect(res.status).toBe(400);
+        });
+    });
+
+    describe('GET /mtggoldfish/:id', () => {
+        it('should parse the download text', async () => {
+            respondWith(fixture('mtggoldfish-deck.txt'));
+
+            const res = await request(app).get('/api/decksites/mtggoldfish/5938234');
+
+            expect(res.status).toBe(200);
+            expect(res.body.cards.filter((c: { category: string }) => c.category === 'Sideboard')).toHaveLength(2);
+        });
+
+        it('should return 422 for empty decks', async () => {
+            respondWith('');
+
+            const res = await request(app).get('/api/decksites/mtggoldfish/5938234');
+
+            expect(res.status).toBe(422);
+        });
+
+        it('should return 500 when the site is unreachable', async () => {
+            mockFetch.mockRejectedValueOnce(new Error('ECONNRESET'));
+            vi.spyOn(console, 'error').mockImplementation(() => { });
+
+            const res = await request(app).get('/api/decksites/mtggoldfish/5938234');
+
+            expect(res.status).toBe(500);
+            expect(res.body.error).toBe('Failed to fetch deck from MTGGoldfish');
+        });
+    });
+});
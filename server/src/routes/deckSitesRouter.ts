@@ -0,0 +1,169 @@
+/**
+ * Deck Sites Router
+ *
+ * Fetches decks from Scryfall, TappedOut, Deckstats and MTGGoldfish and
+ * normalizes them into ImportedDeck, so the client handles every site the
+ * same way. Unlike the Archidekt/Moxfield proxies, these sites only offer
+ * text/CSV exports (or a different JSON shape), so parsing happens here.
+ * Includes 5-minute LRU cache to reduce external API load.
+ */
+
+import express from "express";
+import { LRUCache } from "../utils/lruCache.js";
+import {
+    deckNameFromSlug,
+    normalizeScryfallDeck,
+    parseDeckstatsText,
+    parseMtgGoldfishText,
+    parseTappedOutCsv,
+    type ScryfallDeckExport,
+} from "../utils/deckSiteParsers.js";
+import type { DeckSite, ImportedDeck } from "../../../shared/types.js";
+
+export const deckSitesRouter = express.Router();
+
+const SITE_LABELS: Record<DeckSite, string> = {
+    scryfall: "Scryfall",
+    tappedout: "TappedOut",
+    deckstats: "Deckstats",
+    mtggoldfish: "MTGGoldfish",
+};
+
+// Cache normalized decks for 5 minutes to reduce API load
+interface DeckCacheEntry {
+    data: ImportedDeck;
+    timestamp: number;
+}
+const deckCache = new LRUCache<string, DeckCacheEntry>(100);
+const DECK_CACHE_TTL_MS = 5 * 60 * 1000; // 5 minutes
+
+class UpstreamError extends Error {
+    readonly status: number;
+
+    constructor(status: number, message: string) {
+        super(message);
+        this.status = status;
+    }
+}
+
+async function fetchUpstream(site: DeckSite, url: string, accept: string): Promise<string> {
+    const response = await fetch(url, {
+        headers: {
+            Accept: accept,
+            "User-Agent": "ProxxiedApp/1.0",
+        },
+    });
+
+    if (!response.ok) {
+        throw new UpstreamError(
+            response.status,
+            response.status === 404
+                ? "Deck not found. It may be private or deleted."
+                : `${SITE_LABELS[site]} error: ${response.status}`
+        );
+    }
+
+    return response.text();
+}
+
+/**
+ * Shared handler: cache lookup, fetch + normalize, error mapping.
+ */
+async function serveDeck(
+    res: express.Response,
+    site: DeckSite,
+    id: string,
+    load: () => Promise<ImportedDeck>
+) {
+    const cacheKey = `${site}:${id}`;
+    const cached = deckCache.get(cacheKey);
+    if (cached && Date.now() - cached.timestamp < DECK_CACHE_TTL_MS) {
+        return res.json(cached.data);
+    }
+
+    try {
+        const deck = await load();
+        if (deck.cards.length === 0) {
+            return res.status(422).json({ error: "No cards found in deck. The deck may be empty." });
+        }
+
+        deckCache.set(cacheKey, { data: deck, timestamp: Date.now() });
+        return res.json(deck);
+    } catch (error) {
+        if (error instanceof UpstreamError) {
+            return res.status(error.status).json({ error: error.message });
+        }
+        console.error(`[deckSitesRouter] Error fetching ${site} deck:`, error);
+        return res.status(500).json({ error: `Failed to fetch deck from ${SITE_LABELS[site]}` });
+    }
+}
+
+/**
+ * GET /scryfall/:id
+ * Scryfall deck (UUID from scryfall.com/@user/decks/:id)
+ */
+deckSitesRouter.get("/scryfall/:id", async (req, res) => {
+    const deckId = req.params.id.toLowerCase();
+    if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/.test(deckId)) {
+        return res.status(400).json({ error: "Invalid deck ID" });
+    }
+
+    return serveDeck(res, "scryfall", deckId, async () => {
+        const body = await fetchUpstream("scryfall", `https://api.scryfall.com/decks/${deckId}/export/json`, "application/json");
+        const data = JSON.parse(body) as ScryfallDeckExport;
+        return { source: "scryfall", id: deckId, name: data.name || "Scryfall Deck", cards: normalizeScryfallDeck(data) };
+    });
+});
+
+/**
+ * GET /tappedout/:slug
+ * TappedOut deck (slug from tappedout.net/mtg-decks/:slug/)
+ */
+deckSitesRouter.get("/tappedout/:slug", async (req, res) => {
+    const slug = req.params.slug.toLowerCase();
+    if (!/^[a-z0-9_-]+$/.test(slug)) {
+        return res.status(400).json({ error: "Invalid deck ID" });
+    }
+
+    return serveDeck(res, "tappedout", slug, async () => {
+        const csv = await fetchUpstream("tappedout", `https://tappedout.net/mtg-decks/${slug}/?fmt=csv`, "text/csv");
+        return { source: "tappedout", id: slug, name: deckNameFromSlug(slug, "TappedOut Deck"), cards: parseTappedOutCsv(csv) };
+    });
+});
+
+/**
+ * GET /deckstats/:userId/:deckId
+ * Deckstats deck (from deckstats.net/decks/:userId/:deckId-slug/)
+ */
+deckSitesRouter.get("/deckstats/:userId/:deckId", async (req, res) => {
+    const { userId, deckId } = req.params;
+    if (!/^\d+$/.test(userId) || !/^\d+(-[a-zA-Z0-9-]*)?$/.test(deckId)) {
+        return res.status(400).json({ error: "Invalid deck ID" });
+    }
+
+    return serveDeck(res, "deckstats", `${userId}/${deckId}`, async () => {
+        const text = await fetchUpstream("deckstats", `https://deckstats.net/decks/${userId}/${deckId}/en?export_txt=1`, "text/plain");
+        return {
+            source: "deckstats",
+            id: `${userId}/${deckId}`,
+            name: deckNameFromSlug(deckId, "Deckstats Deck"),
+            cards: parseDeckstatsText(text),
+        };
+    });
+});
+
+/**
+ * GET /mtggoldfish/:id
+ * MTGGoldfish deck (from mtggoldfish.com/deck/:id)
+ */
+deckSitesRouter.get("/mtggoldfish/:id", async (req, res) => {
+    const deckId = req.params.id;
+    if (!/^\d+$/.test(deckId)) {
+        return res.status(400).json({ error: "Invalid deck ID" });
+    }
+
+    return serveDeck(res, "mtggoldfish", deckId, async () => {
+        const text = await fetchUpstream("mtggoldfish", `https://www.mtggoldfish.com/deck/download/${deckId}`, "text/plain");
+        return { source: "mtggoldfish", id: deckId, name: `MTGGoldfish Deck ${deckId}`, cards: parseMtgGoldfishText(text) };
+    });
+});
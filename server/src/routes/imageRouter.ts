@@ -6,6 +6,9 @@ import crypto from "crypto";
 import { fileURLToPath } from "url";
 import { getCardDataForCardInfo, batchFetchCards } from "../utils/getCardImagesPaged.js";
 import { extractTokenParts } from "../utils/tokenUtils.js";
+import { parseCardPrices } from "../utils/cardUtils.js";
+import { isOfflineMode, sendOfflineUnavailable } from "../utils/offline.js";
+import type { CardLegality, CardPrices } from "../../../shared/types.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -111,6 +114,61 @@ const writeInProgress = new Set<string>();
 import { LRUCache } from "../utils/lruCache.js";
 const urlPathCache = new LRUCache<string, string>(5000); // Cache 5000 hot URLs
 
+/**
+ * List the files in the image cache with their access time and size.
+ */
+async function listCacheFiles(): Promise<{ path: string; atime: number; size: number }[]> {
+  // Use async filesystem operations to avoid blocking event loop
+  const files = await fs.promises.readdir(cacheDir);
+  const fileStats: { path: string; atime: number; size: number }[] = [];
+
+  for (const file of files) {
+    const filePath = path.join(cacheDir, file);
+    try {
+      const stats = await fs.promises.stat(filePath);
+      if (stats.isFile()) {
+        fileStats.push({ path: filePath, atime: stats.atimeMs, size: stats.size });
+      }
+    } catch {
+      // File might have been deleted, skip it
+      continue;
+    }
+  }
+  return fileStats;
+}
+
+/**
+ * Image cache size, for the admin API.
+ */
+export async function getImageCacheStats(): Promise<{ files: number; bytes: number; maxBytes: number }> {
+  const files = await listCacheFiles();
+  return {
+    files: files.length,
+    bytes: files.reduce((sum, file) => sum + file.size, 0),
+    maxBytes: MAX_CACHE_SIZE_BYTES,
+  };
+}
+
+/**
+ * Delete every cached image. Returns the number of files removed.
+ */
+export async function clearImageCache(): Promise<number> {
+  const files = await listCacheFiles();
+  let removedCount = 0;
+  for (const file of files) {
+    try {
+      await fs.promises.unlink(file.path);
+      removedCount++;
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : String(err);
+      console.warn(`[CACHE] Failed to delete ${file.path}:`, msg);
+    }
+  }
+  urlPathCache.clear();
+  console.log(`[CACHE] Cleared ${removedCount} cached images`);
+  return removedCount;
+}
+
 async function checkAndCleanCache() {
   const now = Date.now();
   // Only check every 5 minutes to avoid excessive disk I/O
@@ -118,24 +176,8 @@ async function checkAndCleanCache() {
   lastCacheCleanup = now;
 
   try {
-    // Use async filesystem operations to avoid blocking event loop
-    const files = await fs.promises.readdir(cacheDir);
-    const fileStats: { path: string; atime: number; size: number }[] = [];
-    let totalSize = 0;
-
-    for (const file of files) {
-      const filePath = path.join(cacheDir, file);
-      try {
-        const stats = await fs.promises.stat(filePath);
-        if (stats.isFile()) {
-          fileStats.push({ path: filePath, atime: stats.atimeMs, size: stats.size });
-          totalSize += stats.size;
-        }
-      } catch {
-        // File might have been deleted, skip it
-        continue;
-      }
-    }
+    const fileStats = await listCacheFiles();
+    const totalSize = fileStats.reduce((sum, file) => sum + file.size, 0);
 
     if (totalSize > MAX_CACHE_SIZE_BYTES) {
       console.log(`[CACHE] Size ${(totalSize / 1024 / 1024 / 1024).toFixed(2)}GB exceeds 12GB limit. Cleaning...`);
@@ -197,6 +239,8 @@ interface EnrichedCard {
   cmc?: number;
   type_line?: string;
   rarity?: string;
+  prices?: CardPrices;
+  legalities?: Record<string, CardLegality>;
   lang?: string;
   layout?: string;
   card_faces?: Array<{
@@ -246,6 +290,8 @@ function extractEnrichedCard(
     cmc: data.cmc,
     type_line: data.type_line,
     rarity: data.rarity,
+    prices: parseCardPrices(data.prices),
+    legalities: data.legalities as Record<string, CardLegality> | undefined,
     lang: data.lang,
     layout: data.layout,
     card_faces: data.card_faces?.map(f => ({
@@ -487,6 +533,11 @@ imageRouter.get("/proxy", async (req: Request, res: Response) => {
       }
     }
 
+    // Offline: only the on-disk cache can answer
+    if (isOfflineMode()) {
+      return sendOfflineUnavailable(res, "Uncached image");
+    }
+
     // Mark path as being written to prevent concurrent corruption
     writeInProgress.add(localPath);
 
@@ -551,6 +602,10 @@ imageRouter.get("/mpc", async (req: Request, res: Response) => {
     // Cache check failed, proceed to fetch
   }
 
+  if (isOfflineMode()) {
+    return sendOfflineUnavailable(res, "Uncached image");
+  }
+
   // URL candidates to try (in order of preference)
   // Google Drive direct download is preferred but often fails due to:
   // - Access restrictions
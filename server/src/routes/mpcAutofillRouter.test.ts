@@ -0,0 +1,189 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+
+const mocks = vi.hoisted(() => ({
+    getCachedMpcSearch: vi.fn(),
+    cacheMpcSearch: vi.fn(),
+}));
+
+vi.mock('../db/mpcSearchCache.js', () => ({
+    getCachedMpcSearch: mocks.getCachedMpcSearch,
+    cacheMpcSearch: mocks.cacheMpcSearch,
+}));
+
+vi.mock('../utils/debug.js', () => ({
+    debugLog: vi.fn(),
+}));
+
+vi.mock('axios', () => {
+    const mockAxios = {
+        get: vi.fn(),
+        post: vi.fn(),
+        isAxiosError: vi.fn((err) => err?.isAxiosError === true),
+    };
+    return { default: mockAxios };
+});
+
+import axios from 'axios';
+import { mpcAutofillRouter, clearSourcesCache, getSearchCacheKey, normalizeSearchFilters } from './mpcAutofillRouter.js';
+
+const card = {
+    identifier: 'abc',
+    name: 'Sol Ring',
+    smallThumbnailUrl: 's',
+    mediumThumbnailUrl: 'm',
+    dpi: 1200,
+    tags: [],
+    sourceName: 'Chilli Axe',
+    source: 'chilli',
+    extension: 'png',
+    size: 1,
+};
+
+const sources = {
+    results: {
+        1: { pk: 1, key: 'chilli', name: 'Chilli Axe', sourceType: 'Google Drive' },
+        2: { pk: 2, key: 'other', name: 'Other', sourceType: 'Google Drive' },
+    },
+};
+
+function respondToSearch() {
+    vi.mocked(axios.post).mockImplementation(async (url: string) => {
+        if (url.endsWith('/2/editorSearch/')) {
+            return { data: { results: { 'sol ring': { CARD: ['abc'] } } } };
+        }
+        return { data: { results: { abc: card } } };
+    });
+}
+
+function searchSettingsSent() {
+    const call = vi.mocked(axios.post).mock.calls.find(([url]) => String(url).endsWith('/2/editorSearch/'));
+    return (call![1] as { searchSettings: Record<string, Record<string, unknown>> }).searchSettings;
+}
+
+describe('mpcAutofillRouter', () => {
+    let app: express.Application;
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        clearSourcesCache();
+        mocks.getCachedMpcSearch.mockReturnValue(null);
+        app = express();
+        app.use(express.json());
+        app.use('/api/mpcfill', mpcAutofillRouter);
+    });
+
+    describe('normalizeSearchFilters', () => {
+        it('should fill in the defaults', () => {
+            expect(normalizeSearchFilters(undefined)).toEqual({
+                sources: [],
+                languages: ['EN'],
+                includesTags: [],
+                excludesTags: ['NSFW'],
+                minDpi: 0,
+                maxDpi: 1500,
+            });
+        });
+
+        it('should sort lists, upper-case languages and drop bad values', () => {
+            const filters = normalizeSearchFilters({
+                sources: ['b', 'a', 'a', 5],
+                languages: ['de', 'EN'],
+                excludesTags: [],
+                minDpi: 1200,
+                maxDpi: 600,
+            });
+            expect(filters.sources).toEqual(['a', 'b']);
+            expect(filters.languages).toEqual(['DE', 'EN']);
+            expect(filters.excludesTags).toEqual([]);
+            expect(filters).toMatchObject({ minDpi: 600, maxDpi: 1200 });
+        });
+    });
+
+    describe('getSearchCacheKey', () => {
+        it('should keep the original key for default filters', () => {
+            expect(getSearchCacheKey(' Sol Ring ', true, normalizeSearchFilters({}))).toBe('sol ring:fuzzy');
+        });
+
+        it('should separate entries by filters', () => {
+            const key = getSearchCacheKey('Sol Ring', false, normalizeSearchFilters({ minDpi: 800 }));
+            expect(key).not.toBe('sol ring:exact');
+            expect(key).toBe(getSearchCacheKey('sol ring', false, normalizeSearchFilters({ minDpi: 800, maxDpi: 1500 })));
+        });
+    });
+
+    describe('POST /search', () => {
+        it('should search with the default filters', async () => {
+            respondToSearch();
+
+            const res = await request(app).post('/api/mpcfill/search').send({ query: 'Sol Ring' });
+
+            expect(res.status).toBe(200);
+            expect(res.body.cards).toHaveLength(1);
+            const settings = searchSettingsSent();
+            expect(settings.filterSettings).toMatchObject({ languages: ['EN'], excludesTags: ['NSFW'], minimumDPI: 0, maximumDPI: 1500 });
+            expect((settings.sourceSettings.sources as unknown[]).length).toBe(264);
+            expect(axios.get).not.toHaveBeenCalled();
+            expect(mocks.cacheMpcSearch).toHaveBeenCalledWith('sol ring:fuzzy', 'CARD', expect.any(Array));
+        });
+
+        it('should pass filters to MPC Autofill and key the cache by them', async () => {
+            respondToSearch();
+            vi.mocked(axios.get).mockResolvedValueOnce({ data: sources });
+
+            const filters = { sources: ['chilli'], languages: ['EN', 'DE'], excludesTags: [], minDpi: 800 };
+            const res = await request(app).post('/api/mpcfill/search').send({ query: 'Sol Ring', filters });
+
+            expect(res.status).toBe(200);
+            const settings = searchSettingsSent();
+            expect(settings.sourceSettings.sources).toEqual([[1, true], [2, false]]);
+            expect(settings.filterSettings).toMatchObject({ languages: ['DE', 'EN'], excludesTags: [], minimumDPI: 800 });
+            const [cacheKey] = mocks.cacheMpcSearch.mock.calls[0];
+            expect(cacheKey).toBe(getSearchCacheKey('Sol Ring', true, normalizeSearchFilters(filters)));
+            expect(cacheKey).not.toBe('sol ring:fuzzy');
+        });
+    });
+
+    describe('POST /batch-search', () => {
+        it('should look up cached results under the filtered key', async () => {
+            mocks.getCachedMpcSearch.mockReturnValue([card]);
+
+            const res = await request(app)
+                .post('/api/mpcfill/batch-search')
+                .send({ queries: ['Sol Ring'], filters: { minDpi: 1000 } });
+
+            expect(res.status).toBe(200);
+            expect(res.body.results['Sol Ring']).toHaveLength(1);
+            expect(mocks.getCachedMpcSearch).toHaveBeenCalledWith(
+                getSearchCacheKey('Sol Ring', true, normalizeSearchFilters({ minDpi: 1000 })),
+                'CARD'
+            );
+            expect(axios.post).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('GET /sources', () => {
+        it('should list sources and cache them', async () => {
+            vi.mocked(axios.get).mockResolvedValueOnce({ data: sources });
+
+            const res = await request(app).get('/api/mpcfill/sources');
+            await request(app).get('/api/mpcfill/sources');
+
+            expect(res.status).toBe(200);
+            expect(res.body.sources).toEqual([
+                { pk: 1, key: 'chilli', name: 'Chilli Axe' },
+                { pk: 2, key: 'other', name: 'Other' },
+            ]);
+            expect(axios.get).toHaveBeenCalledTimes(1);
+        });
+
+        it('should report upstream failures', async () => {
+            vi.mocked(axios.get).mockRejectedValueOnce(new Error('down'));
+
+            const res = await request(app).get('/api/mpcfill/sources');
+
+            expect(res.status).toBe(502);
+        });
+    });
+});
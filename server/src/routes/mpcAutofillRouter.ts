@@ -2,39 +2,140 @@ import express, { type Request, type Response } from "express";
 import axios from "axios";
 import { getCachedMpcSearch, cacheMpcSearch, type MpcCard } from "../db/mpcSearchCache.js";
 import { debugLog } from "../utils/debug.js";
+import type { MpcSearchFilters } from "../../../shared/types.js";
 
 const MPC_AUTOFILL_BASE = "https://mpcfill.com";
+const SOURCE_COUNT = 264;
+const SOURCES_TTL_MS = 24 * 60 * 60 * 1000;
+
+const DEFAULT_FILTERS: Required<MpcSearchFilters> = {
+    sources: [],
+    languages: ["EN"],
+    includesTags: [],
+    excludesTags: ["NSFW"],
+    minDpi: 0,
+    maxDpi: 1500,
+};
 
 const mpcAutofillRouter = express.Router();
-// Search settings - API requires sourceSettings
-// Base settings without fuzzySearch (will be set per-request)
-const getSearchSettings = (fuzzySearch: boolean = true) => ({
-    searchTypeSettings: {
-        filterCardbacks: false,
-        fuzzySearch,
-    },
-    sourceSettings: {
-        sources: Array.from({ length: 264 }, (_, i) => [i + 1, true] as [number, boolean]),
-    },
-    filterSettings: {
-        excludesTags: ["NSFW"],
-        includesTags: [],
-        languages: ["EN"],
-        maximumDPI: 1500,
-        maximumSize: 30,
-        minimumDPI: 0,
-    },
-});
+
+export interface MpcSource {
+    pk: number;
+    key: string;
+    name: string;
+}
+
+interface SourcesResponse {
+    results: Record<string, MpcSource>;
+}
+
+let sourcesCache: { sources: MpcSource[]; fetchedAt: number } | null = null;
+
+async function getSources(): Promise<MpcSource[]> {
+    if (sourcesCache && Date.now() - sourcesCache.fetchedAt < SOURCES_TTL_MS) {
+        return sourcesCache.sources;
+    }
+    const response = await axios.get<SourcesResponse>(`${MPC_AUTOFILL_BASE}/2/sources/`, { timeout: 15000 });
+    const sources = Object.values(response.data.results || {})
+        .map(({ pk, key, name }) => ({ pk, key, name }))
+        .sort((a, b) => a.pk - b.pk);
+    sourcesCache = { sources, fetchedAt: Date.now() };
+    return sources;
+}
+
+/** Test hook: forget the cached source list */
+export function clearSourcesCache(): void {
+    sourcesCache = null;
+}
+
+function stringList(value: unknown): string[] | undefined {
+    if (!Array.isArray(value)) return undefined;
+    return value.filter((v): v is string => typeof v === "string" && v.trim() !== "").map((v) => v.trim());
+}
+
+function dpiValue(value: unknown): number | undefined {
+    return typeof value === "number" && Number.isFinite(value) && value >= 0 ? value : undefined;
+}
+
+/**
+ * Validate request filters and fill in defaults. Lists are de-duplicated and
+ * sorted so equivalent filters share a cache entry.
+ */
+export function normalizeSearchFilters(filters: unknown): Required<MpcSearchFilters> {
+    const input = (typeof filters === "object" && filters !== null ? filters : {}) as Record<string, unknown>;
+    const list = (value: unknown, fallback: string[], upper = false) => {
+        const values = stringList(value);
+        if (!values) return fallback;
+        return Array.from(new Set(upper ? values.map((v) => v.toUpperCase()) : values)).sort();
+    };
+
+    const minDpi = dpiValue(input.minDpi) ?? DEFAULT_FILTERS.minDpi;
+    const maxDpi = dpiValue(input.maxDpi) ?? DEFAULT_FILTERS.maxDpi;
+
+    return {
+        sources: list(input.sources, DEFAULT_FILTERS.sources),
+        languages: list(input.languages, DEFAULT_FILTERS.languages, true),
+        includesTags: list(input.includesTags, DEFAULT_FILTERS.includesTags),
+        excludesTags: list(input.excludesTags, DEFAULT_FILTERS.excludesTags),
+        minDpi: Math.min(minDpi, maxDpi),
+        maxDpi: Math.max(minDpi, maxDpi),
+    };
+}
+
+/**
+ * Cache key for a query. Default filters keep the original
+ * `query:fuzzy|exact` form so existing cache entries stay valid.
+ */
+export function getSearchCacheKey(query: string, fuzzySearch: boolean, filters: Required<MpcSearchFilters>): string {
+    const base = `${query.toLowerCase().trim()}:${fuzzySearch ? "fuzzy" : "exact"}`;
+    if (JSON.stringify(filters) === JSON.stringify(DEFAULT_FILTERS)) {
+        return base;
+    }
+    return `${base}:${JSON.stringify(filters)}`;
+}
+
+/**
+ * Search settings for /2/editorSearch/. The API requires sourceSettings, so
+ * with no source filter every source is enabled; otherwise only the
+ * requested source keys are.
+ */
+async function getSearchSettings(fuzzySearch: boolean, filters: Required<MpcSearchFilters>) {
+    let sources: [number, boolean][];
+    if (filters.sources.length === 0) {
+        sources = Array.from({ length: SOURCE_COUNT }, (_, i) => [i + 1, true]);
+    } else {
+        const wanted = new Set(filters.sources);
+        sources = (await getSources()).map((source) => [source.pk, wanted.has(source.key)]);
+    }
+
+    return {
+        searchTypeSettings: {
+            filterCardbacks: false,
+            fuzzySearch,
+        },
+        sourceSettings: { sources },
+        filterSettings: {
+            excludesTags: filters.excludesTags,
+            includesTags: filters.includesTags,
+            languages: filters.languages,
+            maximumDPI: filters.maxDpi,
+            maximumSize: 30,
+            minimumDPI: filters.minDpi,
+        },
+    };
+}
 
 interface MpcSearchRequest {
     query: string;
     cardType?: "CARD" | "CARDBACK" | "TOKEN";
     fuzzySearch?: boolean;
+    filters?: MpcSearchFilters;
 }
 
 interface MpcBatchSearchRequest {
     queries: string[];
     cardType?: "CARD" | "CARDBACK" | "TOKEN";
+    filters?: MpcSearchFilters;
 }
 
 interface EditorSearchResponse {
@@ -122,15 +223,15 @@ async function fetchCardsData(identifiers: string[]): Promise<Record<string, Mpc
  */
 mpcAutofillRouter.post("/search", async (req: Request<unknown, unknown, MpcSearchRequest>, res: Response) => {
     const { query, cardType = "CARD", fuzzySearch = true } = req.body;
+    const filters = normalizeSearchFilters(req.body.filters);
 
     if (!query || typeof query !== "string") {
         return res.status(400).json({ error: "Missing or invalid query" });
     }
 
     try {
-        const normalizedQuery = query.toLowerCase().trim();
-        // Include fuzzy setting in cache key
-        const cacheKey = `${normalizedQuery}:${fuzzySearch ? 'fuzzy' : 'exact'}`;
+        // Include fuzzy setting and filters in cache key
+        const cacheKey = getSearchCacheKey(query, fuzzySearch, filters);
 
         // Check server cache first
         const cached = getCachedMpcSearch(cacheKey, cardType);
@@ -146,7 +247,7 @@ mpcAutofillRouter.post("/search", async (req: Request<unknown, unknown, MpcSearc
             `${MPC_AUTOFILL_BASE}/2/editorSearch/`,
             {
                 queries: [{ query: query.toLowerCase(), cardType }],
-                searchSettings: getSearchSettings(fuzzySearch),
+                searchSettings: await getSearchSettings(fuzzySearch, filters),
             },
             {
                 headers: { "Content-Type": "application/json" },
@@ -248,6 +349,7 @@ mpcAutofillRouter.post("/search", async (req: Request<unknown, unknown, MpcSearc
  */
 mpcAutofillRouter.post("/batch-search", async (req: Request<unknown, unknown, MpcBatchSearchRequest>, res: Response) => {
     const { queries, cardType = "CARD" } = req.body;
+    const filters = normalizeSearchFilters(req.body.filters);
 
     if (!queries || !Array.isArray(queries) || queries.length === 0) {
         return res.status(400).json({ error: "Missing or invalid queries array" });
@@ -259,7 +361,7 @@ mpcAutofillRouter.post("/batch-search", async (req: Request<unknown, unknown, Mp
 
         // Check server cache first for each query (batch always uses fuzzy=true)
         for (const q of queries) {
-            const cacheKey = `${q.toLowerCase().trim()}:fuzzy`;
+            const cacheKey = getSearchCacheKey(q, true, filters);
             const cached = getCachedMpcSearch(cacheKey, cardType);
             if (cached) {
                 finalResults[q] = cached;
@@ -284,7 +386,7 @@ mpcAutofillRouter.post("/batch-search", async (req: Request<unknown, unknown, Mp
             `${MPC_AUTOFILL_BASE}/2/editorSearch/`,
             {
                 queries: uncachedQueries.map(q => ({ query: q.toLowerCase(), cardType })),
-                searchSettings: getSearchSettings(true), // Always fuzzy for batch imports
+                searchSettings: await getSearchSettings(true, filters), // Always fuzzy for batch imports
             },
             {
                 headers: { "Content-Type": "application/json" },
@@ -335,7 +437,7 @@ mpcAutofillRouter.post("/batch-search", async (req: Request<unknown, unknown, Mp
 
             // Cache the results for this query
             if (cards.length > 0) {
-                const cacheKey = `${query.toLowerCase().trim()}:fuzzy`;
+                const cacheKey = getSearchCacheKey(query, true, filters);
                 cacheMpcSearch(cacheKey, cardType, cards);
             }
         });
@@ -360,4 +462,17 @@ mpcAutofillRouter.post("/batch-search", async (req: Request<unknown, unknown, Mp
     }
 });
 
+/**
+ * Sources the search can be limited to
+ */
+mpcAutofillRouter.get("/sources", async (_req: Request, res: Response) => {
+    try {
+        return res.json({ sources: await getSources() });
+    } catch (err: unknown) {
+        const msg = err instanceof Error ? err.message : String(err);
+        console.error("[MPC Autofill] Sources error:", msg);
+        return res.status(502).json({ error: "Failed to load MPC Autofill sources", details: msg });
+    }
+});
+
 export { mpcAutofillRouter };
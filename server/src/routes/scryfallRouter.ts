@@ -5,7 +5,12 @@ import crypto from "crypto";
 import { getDatabase } from "../db/db.js";
 import { debugLog } from "../utils/debug.js";
 import { isValidScryfallType, isKnownToken } from "../utils/scryfallCatalog.js";
-import { getCardsWithImagesForCardInfo } from "../utils/getCardImagesPaged.js";
+import { getCardsWithImagesForCardInfo, type ScryfallApiCard } from "../utils/getCardImagesPaged.js";
+import { lookupCardByName, lookupCardBySetNumber } from "../db/proxxiedCardLookup.js";
+import { searchLocalCards, UnsupportedQueryError } from "../utils/localCardSearch.js";
+import { ScryfallQuerySyntaxError } from "../utils/scryfallQueryParser.js";
+import { hasBulkData } from "../services/bulkDataService.js";
+import { isOfflineMode, sendOfflineUnavailable } from "../utils/offline.js";
 
 const router = Router();
 
@@ -95,6 +100,83 @@ function storeInCache(
     }
 }
 
+/**
+ * Cached Scryfall responses per endpoint, for the admin API.
+ */
+export function getScryfallCacheStats(): { endpoint: string; count: number; expired: number }[] {
+    return getDatabase()
+        .prepare(
+            `SELECT endpoint, COUNT(*) as count, COALESCE(SUM(expires_at < ?), 0) as expired
+       FROM scryfall_cache GROUP BY endpoint ORDER BY endpoint`
+        )
+        .all(Date.now()) as { endpoint: string; count: number; expired: number }[];
+}
+
+/**
+ * Delete cached Scryfall responses (only expired ones if `expiredOnly`).
+ * Returns the number of entries removed.
+ */
+export function clearScryfallCache(expiredOnly = false): number {
+    const db = getDatabase();
+    const result = expiredOnly
+        ? db.prepare("DELETE FROM scryfall_cache WHERE expires_at < ?").run(Date.now())
+        : db.prepare("DELETE FROM scryfall_cache").run();
+    return result.changes;
+}
+
+// --- Offline mode helpers ---
+
+// Scryfall-shaped 404 so clients handle offline misses like live ones
+function sendOfflineNotFound(res: Response, details: string): Response {
+    return res.status(404).json({ object: "error", code: "not_found", status: 404, details });
+}
+
+function toCardObject(card: ScryfallApiCard) {
+    return { object: "card", ...card };
+}
+
+function getCardPng(card: ScryfallApiCard, faceName?: string): string | undefined {
+    if (card.image_uris?.png) return card.image_uris.png;
+    const face = card.card_faces?.find((f) => f.name?.toLowerCase() === faceName?.toLowerCase());
+    return (face ?? card.card_faces?.[0])?.image_uris?.png;
+}
+
+/**
+ * Answer /cards/named from the local cards table.
+ */
+function findNamedCardLocally(name: string, fuzzy: boolean, set?: string): ScryfallApiCard | null {
+    const quoted = (text: string) => `"${text.replace(/"/g, "")}"`;
+
+    if (set) {
+        const { cards } = searchLocalCards(`!${quoted(name)} set:${quoted(set)} include:extras`, { unique: "prints" });
+        if (cards.length) return cards[0];
+    }
+
+    const exact = lookupCardByName(name);
+    if (exact || !fuzzy) return exact;
+
+    // Fuzzy: every word has to appear in the name
+    const words = name.split(/\s+/).filter(Boolean).map(quoted);
+    return searchLocalCards(words.join(" ")).cards[0] ?? null;
+}
+
+/**
+ * Scryfall-shaped list response for local search results.
+ */
+function sendLocalSearch(res: Response, query: string, params: Record<string, string>): Response {
+    const { cards, total, hasMore } = searchLocalCards(query, {
+        unique: params.unique,
+        order: params.order,
+        dir: params.dir,
+        page: Number(params.page) || 1,
+    });
+    if (total === 0) {
+        // Scryfall answers an empty search with a 404
+        return sendOfflineNotFound(res, "Your query didn't match any cards.");
+    }
+    return res.json({ object: "list", total_cards: total, has_more: hasMore, data: cards.map(toCardObject) });
+}
+
 /**
  * GET /api/scryfall/autocomplete
  * Proxies Scryfall /cards/autocomplete
@@ -112,6 +194,10 @@ router.get("/autocomplete", async (req: Request, res: Response) => {
         return res.json(cached);
     }
 
+    if (isOfflineMode()) {
+        return sendOfflineUnavailable(res, "Autocomplete");
+    }
+
     try {
         const data = await rateLimitedRequest(() =>
             scryfallAxios.get("/cards/autocomplete", { params })
@@ -149,6 +235,20 @@ router.get("/named", async (req: Request, res: Response) => {
     if (format) params.format = format;
     if (version) params.version = version;
 
+    if (isOfflineMode()) {
+        const card = findNamedCardLocally((exact || fuzzy)!, !exact, set);
+        if (!card) {
+            return sendOfflineNotFound(res, `No card named "${exact || fuzzy}" in the offline card database.`);
+        }
+        if (format === "image") {
+            // Serve from the on-disk image cache instead of Scryfall's CDN
+            const png = getCardPng(card, exact || fuzzy);
+            if (!png) return sendOfflineUnavailable(res, "This card's image");
+            return res.redirect(`/api/cards/images/proxy?url=${encodeURIComponent(png)}`);
+        }
+        return res.json(toCardObject(card));
+    }
+
     // For image format requests, redirect to Scryfall directly (CDN has no rate limits)
     if (format === "image") {
         const queryString = new URLSearchParams(params).toString();
@@ -288,6 +388,25 @@ router.get("/search", async (req: Request, res: Response) => {
     if (req.query.dir) params.dir = req.query.dir as string;
     if (req.query.page) params.page = req.query.page as string;
 
+    // Answer from the imported bulk data when the query is supported locally
+    if (isOfflineMode() || hasBulkData()) {
+        try {
+            return sendLocalSearch(res, processedQ, params);
+        } catch (err) {
+            if (isOfflineMode()) {
+                if (err instanceof UnsupportedQueryError) {
+                    return res.status(503).json({ error: err.message, offline: true });
+                }
+                if (err instanceof ScryfallQuerySyntaxError) {
+                    return res.status(400).json({ object: "error", code: "bad_request", status: 400, details: err.message });
+                }
+                debugLog("[ScryfallProxy] Local search error:", err);
+                return res.status(500).json({ error: "Failed to search cards" });
+            }
+            debugLog(`[ScryfallProxy] Local search not possible (${(err as Error).message}), using Scryfall`);
+        }
+    }
+
     const queryHash = getCacheKey("search", params);
     const cached = getFromCache("search", queryHash);
     if (cached) {
@@ -330,6 +449,14 @@ router.get("/cards/:set/:number", async (req: Request, res: Response) => {
         return res.json(cached);
     }
 
+    if (isOfflineMode()) {
+        const card = lookupCardBySetNumber(set, number, lang);
+        if (!card) {
+            return sendOfflineNotFound(res, `No card ${set}/${number} in the offline card database.`);
+        }
+        return res.json(toCardObject(card));
+    }
+
     try {
         const url = lang ? `/cards/${set}/${number}/${lang}` : `/cards/${set}/${number}`;
         const data = await rateLimitedRequest(() => scryfallAxios.get(url));
@@ -421,7 +548,10 @@ router.get("/prints", async (req: Request, res: Response) => {
             prints,
         };
 
-        storeInCache("prints", queryHash, result, CACHE_TTL.search);
+        // Offline results only cover the local DB, don't let them outlive offline mode
+        if (!isOfflineMode()) {
+            storeInCache("prints", queryHash, result, CACHE_TTL.search);
+        }
         return res.json(result);
 
     } catch (err) {
@@ -449,6 +579,10 @@ router.get("/sets", async (_req: Request, res: Response) => {
         return res.json(cached);
     }
 
+    if (isOfflineMode()) {
+        return sendOfflineUnavailable(res, "The set list");
+    }
+
     try {
         const data = await rateLimitedRequest(() => scryfallAxios.get("/sets"));
 
@@ -0,0 +1,225 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+
+vi.mock('../db/db.js', () => ({
+    getDatabase: vi.fn(() => ({
+        prepare: vi.fn(() => ({
+            get: vi.fn(() => undefined),
+            run: vi.fn(),
+        })),
+    })),
+}));
+
+vi.mock('../utils/debug.js', () => ({
+    debugLog: vi.fn(),
+}));
+
+vi.mock('axios', () => {
+    const mockAxios = {
+        create: vi.fn(() => mockAxios),
+        get: vi.fn(),
+        isAxiosError: vi.fn((err) => err?.isAxiosError === true),
+    };
+    return { default: mockAxios };
+});
+
+vi.mock('../db/proxxiedCardLookup.js', () => ({
+    lookupCardByName: vi.fn(),
+    lookupCardBySetNumber: vi.fn(),
+}));
+
+vi.mock('../utils/localCardSearch.js', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('../utils/localCardSearch.js')>()),
+    searchLocalCards: vi.fn(),
+}));
+
+vi.mock('../services/bulkDataService.js', () => ({
+    hasBulkData: vi.fn(() => false),
+}));
+
+vi.mock('../utils/getCardImagesPaged.js', () => ({
+    getCardsWithImagesForCardInfo: vi.fn(),
+}));
+
+import axios from 'axios';
+import { scryfallRouter } from './scryfallRouter.js';
+import { lookupCardByName, lookupCardBySetNumber } from '../db/proxxiedCardLookup.js';
+import { searchLocalCards, UnsupportedQueryError } from '../utils/localCardSearch.js';
+import { ScryfallQuerySyntaxError } from '../utils/scryfallQueryParser.js';
+import { hasBulkData } from '../services/bulkDataService.js';
+import { getCardsWithImagesForCardInfo } from '../utils/getCardImagesPaged.js';
+import { setOfflineMode } from '../utils/offline.js';
+
+const solRing = {
+    name: 'Sol Ring',
+    set: 'cmd',
+    collector_number: '261',
+    lang: 'en',
+    image_uris: { png: 'https://cards.scryfall.io/png/sol-ring.png' },
+};
+
+describe('scryfallRouter - offline mode', () => {
+    let app: express.Application;
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        setOfflineMode(true);
+        app = express();
+        app.use('/api/scryfall', scryfallRouter);
+        vi.mocked(searchLocalCards).mockReturnValue({ cards: [], total: 0, hasMore: false });
+    });
+
+    afterEach(() => {
+        setOfflineMode(false);
+    });
+
+    describe('GET /named', () => {
+        it('should answer exact lookups from the local database', async () => {
+            vi.mocked(lookupCardByName).mockReturnValue(solRing);
+
+            const res = await request(app).get('/api/scryfall/named?exact=Sol%20Ring');
+
+            expect(res.status).toBe(200);
+            expect(res.body).toMatchObject({ object: 'card', name: 'Sol Ring', set: 'cmd' });
+            expect(axios.get).not.toHaveBeenCalled();
+        });
+
+        it('should fall back to a word search for fuzzy lookups', async () => {
+            vi.mocked(lookupCardByName).mockReturnValue(null);
+            vi.mocked(searchLocalCards).mockReturnValue({ cards: [solRing], total: 1, hasMore: false });
+
+            const res = await request(app).get('/api/scryfall/named?fuzzy=sol%20rin');
+
+            expect(res.status).toBe(200);
+            expect(res.body.name).toBe('Sol Ring');
+            expect(searchLocalCards).toHaveBeenCalledWith('"sol" "rin"');
+        });
+
+        it('should return a Scryfall-style 404 for unknown cards', async () => {
+            vi.mocked(lookupCardByName).mockReturnValue(null);
+
+            const res = await request(app).get('/api/scryfall/named?exact=Nope');
+
+            expect(res.status).toBe(404);
+            expect(res.body).toMatchObject({ object: 'error', code: 'not_found' });
+            expect(res.body.details).toContain('offline card database');
+        });
+
+        it('should redirect image requests to the image cache', async () => {
+            vi.mocked(lookupCardByName).mockReturnValue(solRing);
+
+            const res = await request(app).get('/api/scryfall/named?exact=Sol%20Ring&format=image');
+
+            expect(res.status).toBe(302);
+            expect(res.headers.location).toBe(
+                `/api/cards/images/proxy?url=${encodeURIComponent(solRing.image_uris.png)}`
+            );
+        });
+    });
+
+    describe('GET /search', () => {
+        it('should search the local database', async () => {
+            vi.mocked(searchLocalCards).mockReturnValue({ cards: [solRing], total: 1, hasMore: false });
+
+            const res = await request(app).get('/api/scryfall/search?q=sol%20ring%20set:cmd&unique=prints&page=2');
+
+            expect(res.status).toBe(200);
+            expect(res.body).toMatchObject({ object: 'list', total_cards: 1, has_more: false });
+            expect(res.body.data[0]).toMatchObject({ object: 'card', name: 'Sol Ring' });
+            expect(searchLocalCards).toHaveBeenCalledWith('sol ring set:cmd', expect.objectContaining({ unique: 'prints', page: 2 }));
+            expect(axios.get).not.toHaveBeenCalled();
+        });
+
+        it('should return a Scryfall-style 404 when nothing matches', async () => {
+            const res = await request(app).get('/api/scryfall/search?q=t:goblin');
+
+            expect(res.status).toBe(404);
+            expect(res.body).toMatchObject({ object: 'error', code: 'not_found' });
+        });
+
+        it('should reject unsupported keywords with an offline error', async () => {
+            vi.mocked(searchLocalCards).mockImplementation(() => {
+                throw new UnsupportedQueryError('f:');
+            });
+
+            const res = await request(app).get('/api/scryfall/search?q=f:modern');
+
+            expect(res.status).toBe(503);
+            expect(res.body).toEqual({ error: 'Search keyword "f:" is not available offline', offline: true });
+        });
+
+        it('should reject malformed queries as a bad request', async () => {
+            vi.mocked(searchLocalCards).mockImplementation(() => {
+                throw new ScryfallQuerySyntaxError('Unbalanced "("');
+            });
+
+            const res = await request(app).get('/api/scryfall/search?q=(t:goblin');
+
+            expect(res.status).toBe(400);
+            expect(res.body).toMatchObject({ object: 'error', code: 'bad_request', details: 'Unbalanced "("' });
+        });
+
+        describe('online with imported bulk data', () => {
+            beforeEach(() => {
+                setOfflineMode(false);
+                vi.mocked(hasBulkData).mockReturnValue(true);
+            });
+
+            afterEach(() => {
+                vi.mocked(hasBulkData).mockReturnValue(false);
+            });
+
+            it('should answer supported queries locally', async () => {
+                vi.mocked(searchLocalCards).mockReturnValue({ cards: [solRing], total: 1, hasMore: false });
+
+                const res = await request(app).get('/api/scryfall/search?q=t:artifact%20mv=1');
+
+                expect(res.status).toBe(200);
+                expect(res.body.data[0].name).toBe('Sol Ring');
+                expect(axios.get).not.toHaveBeenCalled();
+            });
+
+            it('should fall back to Scryfall for unsupported keywords', async () => {
+                vi.mocked(searchLocalCards).mockImplementation(() => {
+                    throw new UnsupportedQueryError('usd');
+                });
+                vi.mocked(axios.get).mockResolvedValue({ data: { object: 'list', data: [] } });
+
+                const res = await request(app).get('/api/scryfall/search?q=usd<1');
+
+                expect(res.status).toBe(200);
+                expect(axios.get).toHaveBeenCalledWith('/cards/search', { params: { q: 'usd<1' } });
+            });
+        });
+    });
+
+    it('should look up set and collector number locally', async () => {
+        vi.mocked(lookupCardBySetNumber).mockReturnValue(solRing);
+
+        const res = await request(app).get('/api/scryfall/cards/cmd/261');
+
+        expect(res.status).toBe(200);
+        expect(res.body.name).toBe('Sol Ring');
+        expect(lookupCardBySetNumber).toHaveBeenCalledWith('cmd', '261', undefined);
+    });
+
+    it('should answer /prints from the local card lookup', async () => {
+        vi.mocked(getCardsWithImagesForCardInfo).mockResolvedValue([solRing]);
+
+        const res = await request(app).get('/api/scryfall/prints?name=Sol%20Ring');
+
+        expect(res.status).toBe(200);
+        expect(res.body.total).toBe(1);
+    });
+
+    it('should fail fast for endpoints that need Scryfall', async () => {
+        const autocomplete = await request(app).get('/api/scryfall/autocomplete?q=sol');
+        const sets = await request(app).get('/api/scryfall/sets');
+
+        expect(autocomplete.status).toBe(503);
+        expect(autocomplete.body.error).toBe('Autocomplete is not available offline');
+        expect(sets.status).toBe(503);
+        expect(axios.get).not.toHaveBeenCalled();
+    });
+});
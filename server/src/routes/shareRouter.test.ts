@@ -4,7 +4,9 @@ import request from 'supertest';
 import { gzipSync, gunzipSync } from 'zlib';
 
 // Create mock database with in-memory storage for testing
-let mockShares: Map<string, { data: Buffer; created_at: number; expires_at: number }>;
+let mockShares: Map<string, { data: Buffer; created_at: number; expires_at: number; edit_token_hash?: string | null }>;
+
+let mockRevisions: Array<{ share_id: string; rev: number; data: Buffer; created_at: number }> = [];
 
 // Initialize mockShares before vi.mock runs
 beforeAll(() => {
@@ -22,6 +24,78 @@ vi.mock('../db/db.js', () => ({
                     get: vi.fn((id: string) => mockShares.has(id) ? { id } : undefined),
                 };
             }
+            if (sql.includes('SELECT rev, data FROM share_revisions')) {
+                return {
+                    get: vi.fn((id: string) => mockRevisions
+                        .filter(r => r.share_id === id)
+                        .sort((a, b) => b.rev - a.rev)[0]),
+                };
+            }
+            if (sql.includes('INSERT INTO share_revisions')) {
+                return {
+                    run: vi.fn((share_id: string, rev: number, data: Buffer, created_at: number) => {
+                        mockRevisions.push({ share_id, rev, data, created_at });
+                    }),
+                };
+            }
+            if (sql.includes('DELETE FROM share_revisions WHERE share_id = ? AND rev <=')) {
+                return {
+                    run: vi.fn((id: string, maxRev: number) => {
+                        mockRevisions = mockRevisions.filter(r => r.share_id !== id || r.rev > maxRev);
+                    }),
+                };
+            }
+            if (sql.includes('DELETE FROM share_revisions WHERE share_id NOT IN')) {
+                return {
+                    run: vi.fn(() => {
+                        mockRevisions = mockRevisions.filter(r => mockShares.has(r.share_id));
+                    }),
+                };
+            }
+            if (sql.includes('DELETE FROM share_revisions WHERE share_id = ?')) {
+                return {
+                    run: vi.fn((id: string) => {
+                        mockRevisions = mockRevisions.filter(r => r.share_id !== id);
+                    }),
+                };
+            }
+            if (sql.includes('SELECT rev, created_at')) {
+                return {
+                    all: vi.fn((id: string) => mockRevisions
+                        .filter(r => r.share_id === id)
+                        .sort((a, b) => b.rev - a.rev)
+                        .map(r => ({ rev: r.rev, created_at: r.created_at, size: r.data.length }))),
+                };
+            }
+            if (sql.includes('SELECT data FROM share_revisions')) {
+                return {
+                    get: vi.fn((id: string, rev: number) => mockRevisions.find(r => r.share_id === id && r.rev === rev)),
+                };
+            }
+            if (sql.includes('SELECT expires_at FROM shares WHERE id')) {
+                return {
+                    get: vi.fn((id: string) => {
+                        const share = mockShares.get(id);
+                        return share ? { expires_at: share.expires_at } : undefined;
+                    }),
+                };
+            }
+            if (sql.includes('SELECT id, edit_token_hash FROM shares WHERE id')) {
+                return {
+                    get: vi.fn((id: string) => {
+                        const share = mockShares.get(id);
+                        return share ? { id, edit_token_hash: share.edit_token_hash ?? null } : undefined;
+                    }),
+                };
+            }
+            if (sql.includes('SELECT edit_token_hash FROM shares WHERE id')) {
+                return {
+                    get: vi.fn((id: string) => {
+                        const share = mockShares.get(id);
+                        return share ? { edit_token_hash: share.edit_token_hash ?? null } : undefined;
+                    }),
+                };
+            }
             if (sql.includes('SELECT data, expires_at FROM shares WHERE id')) {
                 return {
                     get: vi.fn((id: string) => {
@@ -33,8 +107,24 @@ vi.mock('../db/db.js', () => ({
             }
             if (sql.includes('INSERT INTO shares')) {
                 return {
-                    run: vi.fn((id: string, data: Buffer, created_at: number, expires_at: number) => {
-                        mockShares.set(id, { data, created_at, expires_at });
+                    run: vi.fn((id: string, data: Buffer, created_at: number, expires_at: number, edit_token_hash?: string) => {
+                        mockShares.set(id, { data, created_at, expires_at, edit_token_hash });
+                    }),
+                };
+            }
+            if (sql.includes('UPDATE shares SET data = ?, expires_at = ?, edit_token_hash = ?')) {
+                return {
+                    run: vi.fn((data: Buffer, expires_at: number, edit_token_hash: string, id: string) => {
+                        const share = mockShares.get(id);
+                        if (share) Object.assign(share, { data, expires_at, edit_token_hash });
+                    }),
+                };
+            }
+            if (sql.includes('UPDATE shares SET data = ?, expires_at = ? WHERE id')) {
+                return {
+                    run: vi.fn((data: Buffer, expires_at: number, id: string) => {
+                        const share = mockShares.get(id);
+                        if (share) Object.assign(share, { data, expires_at });
                     }),
                 };
             }
@@ -76,7 +166,7 @@ vi.mock('../db/db.js', () => ({
     })),
 }));
 
-import { shareRouter, cleanupExpiredShares } from './shareRouter.js';
+import { shareRouter, cleanupExpiredShares, MAX_SHARE_REVISIONS } from './shareRouter.js';
 
 describe('shareRouter', () => {
     let app: express.Application;
@@ -86,6 +176,7 @@ describe('shareRouter', () => {
         app.use(express.json());
         app.use('/api/share', shareRouter);
         mockShares.clear();
+        mockRevisions = [];
         vi.clearAllMocks();
     });
 
@@ -145,6 +236,224 @@ describe('shareRouter', () => {
         });
     });
 
+    describe('edit tokens', () => {
+        it('should issue an edit token when a share is created and store only its hash', async () => {
+            const res = await request(app)
+                .post('/api/share')
+                .send({ data: { v: 1, c: [] }, projectId: 'project-1' });
+
+            expect(res.status).toBe(200);
+            expect(typeof res.body.editToken).toBe('string');
+            expect(res.body.editToken.length).toBeGreaterThanOrEqual(32);
+
+            const stored = mockShares.get(res.body.id);
+            expect(stored?.edit_token_hash).toBeDefined();
+            expect(stored?.edit_token_hash).not.toBe(res.body.editToken);
+        });
+
+        it('should reject updates to a project share without the edit token', async () => {
+            const created = await request(app)
+                .post('/api/share')
+                .send({ data: { v: 1, c: [] }, projectId: 'project-1' });
+
+            const res = await request(app)
+                .post('/api/share')
+                .send({ data: { v: 1, c: [['s', 'hijacked', 0]] }, projectId: 'project-1' });
+
+            expect(res.status).toBe(403);
+            expect(res.body.error).toBe('Invalid or missing edit token');
+            const stored = JSON.parse(gunzipSync(mockShares.get(created.body.id)!.data).toString('utf-8'));
+            expect(stored.c).toEqual([]);
+        });
+
+        it('should reject updates with the wrong edit token', async () => {
+            await request(app)
+                .post('/api/share')
+                .send({ data: { v: 1, c: [] }, projectId: 'project-1' });
+
+            const res = await request(app)
+                .post('/api/share')
+                .send({ data: { v: 1, c: [] }, projectId: 'project-1', editToken: 'not-the-token' });
+
+            expect(res.status).toBe(403);
+        });
+
+        it('should accept updates with the correct edit token without issuing a new one', async () => {
+            const created = await request(app)
+                .post('/api/share')
+                .send({ data: { v: 1, c: [] }, projectId: 'project-1' });
+
+            const updated = { v: 1, c: [['s', 'abc/1', 0]] };
+            const res = await request(app)
+                .post('/api/share')
+                .send({ data: updated, projectId: 'project-1', editToken: created.body.editToken });
+
+            expect(res.status).toBe(200);
+            expect(res.body.id).toBe(created.body.id);
+            expect(res.body.editToken).toBeUndefined();
+            const stored = JSON.parse(gunzipSync(mockShares.get(created.body.id)!.data).toString('utf-8'));
+            expect(stored).toEqual(updated);
+        });
+
+        it('should leave legacy shares without a token read-only and move the project to a new ID', async () => {
+            const legacy = await request(app)
+                .post('/api/share')
+                .send({ data: { v: 1, c: [] }, projectId: 'legacy-project' });
+            const legacyRow = mockShares.get(legacy.body.id)!;
+            legacyRow.edit_token_hash = null;
+            const legacyData = legacyRow.data;
+
+            const updated = { v: 1, c: [['s', 'abc/1', 0]] };
+            const moved = await request(app)
+                .post('/api/share')
+                .send({ data: updated, projectId: 'legacy-project' });
+
+            expect(moved.status).toBe(200);
+            expect(moved.body.id).not.toBe(legacy.body.id);
+            expect(typeof moved.body.editToken).toBe('string');
+            // The legacy share is untouched and still has no token
+            expect(mockShares.get(legacy.body.id)?.edit_token_hash).toBeNull();
+            expect(mockShares.get(legacy.body.id)?.data).toBe(legacyData);
+
+            // Later updates land on the new ID and need its token
+            const denied = await request(app)
+                .post('/api/share')
+                .send({ data: updated, projectId: 'legacy-project' });
+            expect(denied.status).toBe(403);
+
+            const again = await request(app)
+                .post('/api/share')
+                .send({ data: updated, projectId: 'legacy-project', editToken: moved.body.editToken });
+            expect(again.status).toBe(200);
+            expect(again.body.id).toBe(moved.body.id);
+        });
+    });
+
+    describe('DELETE /api/share/:id', () => {
+        it('should delete a share with the correct edit token', async () => {
+            const created = await request(app)
+                .post('/api/share')
+                .send({ data: { v: 1, c: [] }, projectId: 'project-1' });
+
+            const res = await request(app)
+                .delete(`/api/share/${created.body.id}`)
+                .set('Authorization', `Bearer ${created.body.editToken}`);
+
+            expect(res.status).toBe(200);
+            expect(res.body.deleted).toBe(true);
+            expect(mockShares.has(created.body.id)).toBe(false);
+        });
+
+        it('should return 403 without a valid edit token', async () => {
+            const created = await request(app)
+                .post('/api/share')
+                .send({ data: { v: 1, c: [] }, projectId: 'project-1' });
+
+            const missing = await request(app).delete(`/api/share/${created.body.id}`);
+            expect(missing.status).toBe(403);
+
+            const wrong = await request(app)
+                .delete(`/api/share/${created.body.id}`)
+                .set('Authorization', 'Bearer wrong-token');
+            expect(wrong.status).toBe(403);
+            expect(mockShares.has(created.body.id)).toBe(true);
+        });
+
+        it('should return 404 for non-existent share', async () => {
+            const res = await request(app)
+                .delete('/api/share/notfound')
+                .set('Authorization', 'Bearer whatever');
+
+            expect(res.status).toBe(404);
+        });
+
+        it('should return 400 for invalid ID length', async () => {
+            const res = await request(app).delete('/api/share/short');
+
+            expect(res.status).toBe(400);
+        });
+    });
+
+    describe('revision history', () => {
+        async function publish(c: unknown[], editToken?: string) {
+            return request(app)
+                .post('/api/share')
+                .send({ data: { v: 1, c }, projectId: 'project-1', editToken });
+        }
+
+        it('should record a revision for each distinct write', async () => {
+            const first = await publish([]);
+            expect(first.body.rev).toBe(1);
+            const token = first.body.editToken;
+
+            const second = await publish([['s', 'a/1', 10]], token);
+            expect(second.body.rev).toBe(2);
+
+            const list = await request(app).get(`/api/share/${first.body.id}/revisions`);
+            expect(list.status).toBe(200);
+            expect(list.body.revisions.map((r: { rev: number }) => r.rev)).toEqual([2, 1]);
+            expect(list.body.revisions[0].createdAt).toBeGreaterThan(0);
+            expect(list.body.revisions[0].size).toBeGreaterThan(0);
+        });
+
+        it('should not record a new revision when the data is unchanged', async () => {
+            const first = await publish([['s', 'a/1', 10]]);
+            const again = await publish([['s', 'a/1', 10]], first.body.editToken);
+
+            expect(again.body.rev).toBe(1);
+            expect(mockRevisions).toHaveLength(1);
+        });
+
+        it('should retrieve a specific revision with ?rev=N', async () => {
+            const first = await publish([['s', 'old/1', 10]]);
+            await publish([['s', 'new/1', 10]], first.body.editToken);
+
+            const old = await request(app).get(`/api/share/${first.body.id}?rev=1`);
+            expect(old.status).toBe(200);
+            expect(old.body.rev).toBe(1);
+            expect(old.body.data.c).toEqual([['s', 'old/1', 10]]);
+
+            const latest = await request(app).get(`/api/share/${first.body.id}`);
+            expect(latest.body.data.c).toEqual([['s', 'new/1', 10]]);
+        });
+
+        it('should return 404 for a missing revision and 400 for an invalid one', async () => {
+            const first = await publish([]);
+
+            const missing = await request(app).get(`/api/share/${first.body.id}?rev=99`);
+            expect(missing.status).toBe(404);
+            expect(missing.body.error).toBe('Revision not found');
+
+            const invalid = await request(app).get(`/api/share/${first.body.id}?rev=abc`);
+            expect(invalid.status).toBe(400);
+        });
+
+        it('should keep at most MAX_SHARE_REVISIONS revisions', async () => {
+            const first = await publish([['s', 'x/0', 0]]);
+            for (let i = 1; i <= MAX_SHARE_REVISIONS + 4; i++) {
+                await publish([['s', `x/${i}`, i]], first.body.editToken);
+            }
+
+            const list = await request(app).get(`/api/share/${first.body.id}/revisions`);
+            expect(list.body.revisions).toHaveLength(MAX_SHARE_REVISIONS);
+            expect(list.body.revisions[0].rev).toBe(MAX_SHARE_REVISIONS + 5);
+        });
+
+        it('should return 404 listing revisions for an unknown share', async () => {
+            const res = await request(app).get('/api/share/notfound/revisions');
+            expect(res.status).toBe(404);
+        });
+
+        it('should drop history when the share is deleted', async () => {
+            const first = await publish([]);
+            await request(app)
+                .delete(`/api/share/${first.body.id}`)
+                .set('Authorization', `Bearer ${first.body.editToken}`);
+
+            expect(mockRevisions).toHaveLength(0);
+        });
+    });
+
     describe('GET /api/share/:id', () => {
         it('should retrieve a share and return the data', async () => {
             // Create a share first
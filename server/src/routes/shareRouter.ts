@@ -1,5 +1,5 @@
 import { Router } from 'express';
-import { randomBytes, createHash } from 'crypto';
+import { randomBytes, createHash, timingSafeEqual } from 'crypto';
 import { getDatabase } from '../db/db.js';
 import { gzipSync, gunzipSync } from 'zlib';
 
@@ -8,6 +8,9 @@ const router = Router();
 // TTL in milliseconds (30 days)
 const SHARE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
 
+// Revisions kept per share (oldest are pruned on write)
+export const MAX_SHARE_REVISIONS = 20;
+
 /**
  * Generate a random 8-character alphanumeric ID.
  * Uses crypto.randomBytes for secure random generation.
@@ -28,6 +31,65 @@ function projectIdToShareId(projectId: string): string {
         .substring(0, 8);
 }
 
+/**
+ * Stable share ID for a project whose original ID is held by a legacy share.
+ * Legacy shares have no edit token, so nobody can prove they own them; they
+ * stay read-only and the project's updates move to this ID instead.
+ */
+function projectIdToTokenShareId(projectId: string): string {
+    return projectIdToShareId(`${projectId}:edit-token`);
+}
+
+/**
+ * Generate a secret edit token (returned to the creator exactly once).
+ * 24 bytes = 192 bits = 32 base64url characters.
+ */
+function generateEditToken(): string {
+    return randomBytes(24).toString('base64url');
+}
+
+/**
+ * Hash an edit token for storage. Only the hash is persisted.
+ */
+function hashEditToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Constant-time check of a presented token against a stored hash.
+ */
+function verifyEditToken(token: unknown, storedHash: string): boolean {
+    if (typeof token !== 'string' || token.length === 0) return false;
+    const presented = Buffer.from(hashEditToken(token), 'hex');
+    const stored = Buffer.from(storedHash, 'hex');
+    return presented.length === stored.length && timingSafeEqual(presented, stored);
+}
+
+/**
+ * Append a revision snapshot for a share and prune history beyond MAX_SHARE_REVISIONS.
+ * Skips the write when the data is identical to the latest revision, so repeated
+ * auto-syncs of an unchanged deck don't push real history out of the window.
+ */
+function recordRevision(id: string, compressed: Buffer, now: number): number {
+    const db = getDatabase();
+    const latest = db.prepare(
+        'SELECT rev, data FROM share_revisions WHERE share_id = ? ORDER BY rev DESC LIMIT 1'
+    ).get(id) as { rev: number; data: Buffer } | undefined;
+
+    if (latest && Buffer.compare(latest.data, compressed) === 0) {
+        return latest.rev;
+    }
+
+    const rev = (latest?.rev ?? 0) + 1;
+    db.prepare(
+        'INSERT INTO share_revisions (share_id, rev, data, created_at) VALUES (?, ?, ?, ?)'
+    ).run(id, rev, compressed, now);
+    db.prepare(
+        'DELETE FROM share_revisions WHERE share_id = ? AND rev <= ?'
+    ).run(id, rev - MAX_SHARE_REVISIONS);
+    return rev;
+}
+
 /**
  * Clean up expired shares.
  * Called on router init and can be called periodically.
@@ -39,19 +101,45 @@ export function cleanupExpiredShares(): number {
     if (result.changes > 0) {
         console.log(`[Share] Cleaned up ${result.changes} expired shares`);
     }
+    // Drop history for shares that no longer exist
+    db.prepare('DELETE FROM share_revisions WHERE share_id NOT IN (SELECT id FROM shares)').run();
     return result.changes;
 }
 
+/**
+ * Share counts and stored size, for the admin API.
+ */
+export function getShareStats(): { count: number; expired: number; revisions: number; bytes: number } {
+    const db = getDatabase();
+    const shares = db.prepare(
+        'SELECT COUNT(*) as count, COALESCE(SUM(expires_at < ?), 0) as expired, COALESCE(SUM(LENGTH(data)), 0) as bytes FROM shares'
+    ).get(Date.now()) as { count: number; expired: number; bytes: number };
+    const revisions = db.prepare(
+        'SELECT COUNT(*) as count, COALESCE(SUM(LENGTH(data)), 0) as bytes FROM share_revisions'
+    ).get() as { count: number; bytes: number };
+    return {
+        count: shares.count,
+        expired: shares.expired,
+        revisions: revisions.count,
+        bytes: shares.bytes + revisions.bytes,
+    };
+}
+
 /**
  * POST /api/share
  * Create or update a share from JSON data.
  * If projectId is provided, uses stable ID (UPSERT). Otherwise generates random ID.
- * Request body: { data: object, projectId?: string }
- * Response: { id: string, expiresAt: number }
+ * New shares are issued a secret edit token; updating an existing share requires it.
+ * Legacy shares created before edit tokens existed are read-only; a project whose
+ * stable ID is held by one is moved to a second stable ID (the response id changes).
+ * Request body: { data: object, projectId?: string, editToken?: string }
+ * Every successful write also appends a revision to the share's history.
+ * Response: { id: string, expiresAt: number, rev: number, editToken?: string }
+ * (editToken is only returned when a new token was issued)
  */
 router.post('/', (req, res) => {
     try {
-        const { data, projectId } = req.body;
+        const { data, projectId, editToken } = req.body;
 
         if (!data || typeof data !== 'object') {
             res.status(400).json({ error: 'Missing or invalid data' });
@@ -67,22 +155,37 @@ router.post('/', (req, res) => {
         const compressed = gzipSync(Buffer.from(jsonStr, 'utf-8'));
 
         let id: string;
+        let issuedToken: string | undefined;
 
         if (projectId && typeof projectId === 'string') {
             // Stable ID from projectId - use UPSERT
+            const selectStmt = db.prepare('SELECT id, edit_token_hash FROM shares WHERE id = ?');
             id = projectIdToShareId(projectId);
+            let existing = selectStmt.get(id) as
+                | { id: string; edit_token_hash: string | null }
+                | undefined;
+
+            // Legacy share without a token - leave it read-only and use the second ID
+            if (existing && !existing.edit_token_hash) {
+                id = projectIdToTokenShareId(projectId);
+                existing = selectStmt.get(id) as typeof existing;
+            }
 
-            // UPSERT: update if exists, insert if not
-            const existing = db.prepare('SELECT id FROM shares WHERE id = ?').get(id);
+            // UPSERT: update if exists (token required), insert if not
             if (existing) {
+                if (!existing.edit_token_hash || !verifyEditToken(editToken, existing.edit_token_hash)) {
+                    res.status(403).json({ error: 'Invalid or missing edit token' });
+                    return;
+                }
                 db.prepare(
                     'UPDATE shares SET data = ?, expires_at = ? WHERE id = ?'
                 ).run(compressed, expiresAt, id);
                 console.log(`[Share] Updated share ${id} (${compressed.length} bytes)`);
             } else {
+                issuedToken = generateEditToken();
                 db.prepare(
-                    'INSERT INTO shares (id, data, created_at, expires_at) VALUES (?, ?, ?, ?)'
-                ).run(id, compressed, now, expiresAt);
+                    'INSERT INTO shares (id, data, created_at, expires_at, edit_token_hash) VALUES (?, ?, ?, ?, ?)'
+                ).run(id, compressed, now, expiresAt, hashEditToken(issuedToken));
                 console.log(`[Share] Created share ${id} (${compressed.length} bytes)`);
             }
         } else {
@@ -101,15 +204,20 @@ router.post('/', (req, res) => {
                 return;
             }
 
+            issuedToken = generateEditToken();
             db.prepare(
-                'INSERT INTO shares (id, data, created_at, expires_at) VALUES (?, ?, ?, ?)'
-            ).run(id, compressed, now, expiresAt);
+                'INSERT INTO shares (id, data, created_at, expires_at, edit_token_hash) VALUES (?, ?, ?, ?, ?)'
+            ).run(id, compressed, now, expiresAt, hashEditToken(issuedToken));
             console.log(`[Share] Created share ${id} (${compressed.length} bytes)`);
         }
 
+        const rev = recordRevision(id, compressed, now);
+
         res.json({
             id,
             expiresAt,
+            rev,
+            ...(issuedToken ? { editToken: issuedToken } : {}),
         });
     } catch (error) {
         console.error('[Share] Error creating share:', error);
@@ -117,10 +225,48 @@ router.post('/', (req, res) => {
     }
 });
 
+/**
+ * GET /api/share/:id/revisions
+ * List the stored revisions for a share, newest first.
+ * Response: { revisions: Array<{ rev: number, createdAt: number, size: number }> }
+ */
+router.get('/:id/revisions', (req, res) => {
+    try {
+        const { id } = req.params;
+
+        if (!id || id.length !== 8) {
+            res.status(400).json({ error: 'Invalid share ID' });
+            return;
+        }
+
+        const db = getDatabase();
+        const share = db.prepare('SELECT expires_at FROM shares WHERE id = ?').get(id) as
+            | { expires_at: number }
+            | undefined;
+
+        if (!share || share.expires_at < Date.now()) {
+            res.status(404).json({ error: 'Share not found or expired' });
+            return;
+        }
+
+        const rows = db.prepare(
+            'SELECT rev, created_at, length(data) AS size FROM share_revisions WHERE share_id = ? ORDER BY rev DESC'
+        ).all(id) as Array<{ rev: number; created_at: number; size: number }>;
+
+        res.json({
+            revisions: rows.map(r => ({ rev: r.rev, createdAt: r.created_at, size: r.size })),
+        });
+    } catch (error) {
+        console.error('[Share] Error listing revisions:', error);
+        res.status(500).json({ error: 'Failed to list revisions' });
+    }
+});
+
 /**
  * GET /api/share/:id
  * Retrieve a share and refresh its TTL.
- * Response: { data: object, expiresAt: number }
+ * Pass ?rev=N to retrieve a specific revision from the share's history instead.
+ * Response: { data: object, expiresAt: number, rev?: number }
  */
 router.get('/:id', (req, res) => {
     try {
@@ -154,13 +300,33 @@ router.get('/:id', (req, res) => {
         const newExpiresAt = now + SHARE_TTL_MS;
         db.prepare('UPDATE shares SET expires_at = ? WHERE id = ?').run(newExpiresAt, id);
 
+        let payload = row.data;
+        let rev: number | undefined;
+
+        if (req.query.rev !== undefined) {
+            rev = Number(req.query.rev);
+            if (!Number.isInteger(rev) || rev < 1) {
+                res.status(400).json({ error: 'Invalid revision' });
+                return;
+            }
+            const revision = db.prepare(
+                'SELECT data FROM share_revisions WHERE share_id = ? AND rev = ?'
+            ).get(id, rev) as { data: Buffer } | undefined;
+            if (!revision) {
+                res.status(404).json({ error: 'Revision not found' });
+                return;
+            }
+            payload = revision.data;
+        }
+
         // Decompress and parse
-        const decompressed = gunzipSync(row.data).toString('utf-8');
+        const decompressed = gunzipSync(payload).toString('utf-8');
         const data = JSON.parse(decompressed);
 
         res.json({
             data,
             expiresAt: newExpiresAt,
+            ...(rev !== undefined ? { rev } : {}),
         });
     } catch (error) {
         console.error('[Share] Error retrieving share:', error);
@@ -168,4 +334,46 @@ router.get('/:id', (req, res) => {
     }
 });
 
+/**
+ * DELETE /api/share/:id
+ * Permanently delete a share. Requires the edit token as "Authorization: Bearer <token>".
+ * Response: { deleted: true }
+ */
+router.delete('/:id', (req, res) => {
+    try {
+        const { id } = req.params;
+
+        if (!id || id.length !== 8) {
+            res.status(400).json({ error: 'Invalid share ID' });
+            return;
+        }
+
+        const db = getDatabase();
+        const row = db.prepare('SELECT edit_token_hash FROM shares WHERE id = ?').get(id) as
+            | { edit_token_hash: string | null }
+            | undefined;
+
+        if (!row) {
+            res.status(404).json({ error: 'Share not found or expired' });
+            return;
+        }
+
+        // Legacy shares have no token, so nobody can prove ownership of them
+        const bearer = req.get('Authorization')?.replace(/^Bearer\s+/i, '');
+        if (!row.edit_token_hash || !verifyEditToken(bearer, row.edit_token_hash)) {
+            res.status(403).json({ error: 'Invalid or missing edit token' });
+            return;
+        }
+
+        db.prepare('DELETE FROM shares WHERE id = ?').run(id);
+        db.prepare('DELETE FROM share_revisions WHERE share_id = ?').run(id);
+        console.log(`[Share] Deleted share ${id}`);
+
+        res.json({ deleted: true });
+    } catch (error) {
+        console.error('[Share] Error deleting share:', error);
+        res.status(500).json({ error: 'Failed to delete share' });
+    }
+});
+
 export { router as shareRouter };
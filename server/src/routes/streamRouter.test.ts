@@ -252,5 +252,24 @@ describe("Stream Router", () => {
         expect(cardErrorData.error).toBe("No images found for card on Scryfall.");
     });
 
+    it("should return prices and legalities from /metadata", async () => {
+        const mockBatchResults = new Map();
+        mockBatchResults.set("sol ring", {
+            name: "Sol Ring",
+            image_uris: { png: "some_url" },
+            set: "cmd",
+            collector_number: "123",
+            prices: { usd: "1.99", usd_foil: null, eur: "1.50" },
+            legalities: { commander: "legal", vintage: "restricted" },
+        });
+        vi.mocked(getCardImagesPaged.batchFetchCards).mockResolvedValue(mockBatchResults);
+
+        const res = await request(app)
+            .post("/stream/metadata")
+            .send({ cardQueries: [{ name: "Sol Ring" }] })
+            .expect(200);
 
-});
\ No newline at end of file
+        expect(res.body.results[0].card.prices).toEqual({ usd: 1.99, eur: 1.5 });
+        expect(res.body.results[0].card.legalities).toEqual({ commander: "legal", vintage: "restricted" });
+    });
+});
@@ -1,9 +1,10 @@
 import express, { type Request, type Response } from "express";
 import { batchFetchCards, lookupCardFromBatch, getCardsWithImagesForCardInfo, type ScryfallApiCard } from "../utils/getCardImagesPaged.js";
-import { normalizeCardInfos } from "../utils/cardUtils.js";
+import { normalizeCardInfos, parseCardPrices } from "../utils/cardUtils.js";
 import { debugLog } from "../utils/debug.js";
 import { extractTokenParts } from "../utils/tokenUtils.js";
-import { type ScryfallCard } from "../../../shared/types.js";
+import { isOfflineMode } from "../utils/offline.js";
+import { type CardLegality, type ScryfallCard } from "../../../shared/types.js";
 
 const streamRouter = express.Router();
 
@@ -134,6 +135,8 @@ function buildCardResponse(
     cmc: card.cmc,
     type_line: card.type_line,
     rarity: card.rarity,
+    prices: parseCardPrices(card.prices),
+    legalities: card.legalities as Record<string, CardLegality> | undefined,
     card_faces,
     token_parts, // Return [] if empty so client knows it was checked
     needs_token: needs_token || undefined,
@@ -251,10 +254,14 @@ streamRouter.post("/cards", async (req: Request, res: Response) => {
               debugLog(`[STREAM] Sending imageUrls[0]:`, cardToSend.imageUrls[0]?.substring(0, 80) + '...');
               res.write(`event: card-found\ndata: ${JSON.stringify(cardToSend)}\n\n`);
             } else {
-              throw new Error("No images found for card on Scryfall.");
+              throw new Error(isOfflineMode()
+                ? "No images found for card in the offline card database."
+                : "No images found for card on Scryfall.");
             }
           } else {
-            throw new Error("Card not found on Scryfall.");
+            throw new Error(isOfflineMode()
+              ? "Card not found in the offline card database."
+              : "Card not found on Scryfall.");
           }
         } catch (e: unknown) {
           const msg = e instanceof Error ? e.message : String(e);
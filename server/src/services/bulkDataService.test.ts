@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const mocks = vi.hoisted(() => ({
+    run: vi.fn(),
+    batchInsertCards: vi.fn((cards: unknown[]) => ({ inserted: cards.length, updated: 0 })),
+}));
+
+vi.mock('../db/db.js', () => ({
+    getDatabase: vi.fn(() => ({
+        prepare: vi.fn(() => ({ run: mocks.run, get: vi.fn() })),
+    })),
+}));
+
+vi.mock('../db/proxxiedCardLookup.js', () => ({
+    batchInsertCards: mocks.batchInsertCards,
+    getCardCount: vi.fn(() => 0),
+}));
+
+vi.mock('../utils/scryfallCatalog.js', () => ({
+    parseTypeLine: vi.fn((typeLine: string) => typeLine.toLowerCase().split(/\s+/).filter((t) => t !== '—')),
+    batchInsertCardTypes: vi.fn(),
+    batchInsertTokenNames: vi.fn(),
+}));
+
+vi.mock('../utils/debug.js', () => ({
+    debugLog: vi.fn(),
+}));
+
+vi.mock('axios', () => ({
+    default: { get: vi.fn() },
+}));
+
+import axios from 'axios';
+import { importBulkDataFromFile } from './bulkDataService.js';
+import { batchInsertTokenNames } from '../utils/scryfallCatalog.js';
+
+describe('bulkDataService', () => {
+    let tmpDir: string;
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'proxxied-bulk-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    describe('importBulkDataFromFile', () => {
+        it('should import cards from a downloaded bulk data file', async () => {
+            const filePath = path.join(tmpDir, 'default-cards.json');
+            fs.writeFileSync(filePath, JSON.stringify([
+                {
+                    id: 'a', name: 'Sol Ring', set: 'cmd', collector_number: '261', lang: 'en', type_line: 'Artifact', extra: 'ignored',
+                    prices: { usd: '1.99', eur: null }, legalities: { commander: 'legal' },
+                },
+                { id: 'b', name: 'Treasure', set: 'tcmr', collector_number: '11', lang: 'en', type_line: 'Token Artifact — Treasure' },
+            ]));
+
+            const result = await importBulkDataFromFile(filePath);
+
+            expect(result.cardsImported).toBe(2);
+            expect(mocks.batchInsertCards).toHaveBeenCalledWith([
+                expect.objectContaining({
+                    id: 'a', name: 'Sol Ring', set: 'cmd',
+                    prices: { usd: '1.99', eur: null }, legalities: { commander: 'legal' },
+                }),
+                expect.objectContaining({ id: 'b', name: 'Treasure' }),
+            ]);
+            expect(mocks.batchInsertCards.mock.calls[0][0][0]).not.toHaveProperty('extra');
+            expect(batchInsertTokenNames).toHaveBeenCalledWith(['Treasure']);
+            expect(mocks.run).toHaveBeenCalledWith('last_import', expect.any(String));
+            expect(axios.get).not.toHaveBeenCalled();
+        });
+
+        it('should report progress against the file size', async () => {
+            const filePath = path.join(tmpDir, 'default-cards.json');
+            const contents = JSON.stringify([
+                { id: 'a', name: 'Sol Ring', set: 'cmd', collector_number: '261', lang: 'en', type_line: 'Artifact' },
+            ]);
+            fs.writeFileSync(filePath, contents);
+            const onProgress = vi.fn();
+
+            await importBulkDataFromFile(filePath, onProgress);
+
+            expect(onProgress).toHaveBeenLastCalledWith({
+                cardsProcessed: 1,
+                bytesRead: contents.length,
+                totalBytes: contents.length,
+            });
+        });
+
+        it('should reject a missing file', async () => {
+            await expect(importBulkDataFromFile(path.join(tmpDir, 'missing.json')))
+                .rejects.toThrow('Bulk data file not found');
+            expect(mocks.batchInsertCards).not.toHaveBeenCalled();
+        });
+
+        it('should reject a file that is not a JSON array', async () => {
+            const filePath = path.join(tmpDir, 'broken.json');
+            fs.writeFileSync(filePath, '{"object": "error"}');
+
+            await expect(importBulkDataFromFile(filePath)).rejects.toThrow();
+            expect(mocks.run).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -1,9 +1,11 @@
 import axios from "axios";
+import fs from "fs";
 import { pipeline } from "stream/promises";
 import { Readable } from "stream";
 import StreamJsonParser from "stream-json";
 import StreamArray from "stream-json/streamers/StreamArray.js";
 import { getDatabase } from "../db/db.js";
+import type { BulkImportProgress } from "../../../shared/types.js";
 import { batchInsertCards, getCardCount } from "../db/proxxiedCardLookup.js";
 import {
   parseTypeLine,
@@ -14,7 +16,7 @@ import type { ScryfallApiCard } from "../utils/getCardImagesPaged.js";
 import { debugLog } from "../utils/debug.js";
 
 // Use all-cards bulk data for broad coverage on set+number lookups.
-// Name-only queries bypass this cache and use live Scryfall API search with scoring.
+// Once imported it also answers /api/scryfall/search (see utils/localCardSearch.ts).
 const BULK_DATA_API = "https://api.scryfall.com/bulk-data/all-cards";
 const BATCH_SIZE = 10000;
 
@@ -48,6 +50,14 @@ export function getLastImportTime(): string | null {
   }
 }
 
+/**
+ * Whether a full bulk import has completed, so the local cards table can
+ * answer searches on its own (not just cache individual lookups).
+ */
+export function hasBulkData(): boolean {
+  return getLastImportTime() !== null;
+}
+
 /**
  * Set the last import timestamp in the metadata table.
  */
@@ -75,17 +85,23 @@ export function shouldImport(): boolean {
   return daysSinceImport > 7;
 }
 
+export interface BulkImportResult {
+  cardsImported: number;
+  cardsNew: number;
+  cardsUpdated: number;
+  durationMs: number;
+}
+
+export type BulkImportProgressCallback = (progress: BulkImportProgress) => void;
+
 /**
  * Download and import bulk data from Scryfall.
  * Uses streaming to avoid loading the entire file into memory.
  * Always downloads and processes - no skip logic for simplicity.
  */
-export async function downloadAndImportBulkData(): Promise<{
-  cardsImported: number;
-  cardsNew: number;
-  cardsUpdated: number;
-  durationMs: number;
-}> {
+export async function downloadAndImportBulkData(
+  onProgress?: BulkImportProgressCallback
+): Promise<BulkImportResult> {
   const startTime = Date.now();
   debugLog("[Bulk Import] Starting bulk data import...");
 
@@ -102,13 +118,55 @@ export async function downloadAndImportBulkData(): Promise<{
     headers: { "User-Agent": "Proxxied/1.0" },
   });
 
+  return importBulkDataStream(response.data as Readable, startTime, bulkInfo.size, onProgress);
+}
+
+/**
+ * Import a previously downloaded Scryfall bulk data file (`default-cards` or
+ * `all-cards` JSON) from disk. Used to populate the database without internet.
+ */
+export async function importBulkDataFromFile(
+  filePath: string,
+  onProgress?: BulkImportProgressCallback
+): Promise<BulkImportResult> {
+  const startTime = Date.now();
+
+  const stats = await fs.promises.stat(filePath).catch(() => null);
+  if (!stats?.isFile()) {
+    throw new Error(`Bulk data file not found: ${filePath}`);
+  }
+
+  debugLog(
+    `[Bulk Import] Importing from file: ${filePath} (${(stats.size / 1024 / 1024).toFixed(1)} MB)`
+  );
+
+  return importBulkDataStream(fs.createReadStream(filePath), startTime, stats.size, onProgress);
+}
+
+/**
+ * Parse a bulk data JSON array stream and insert the cards in batches.
+ */
+async function importBulkDataStream(
+  source: Readable,
+  startTime: number,
+  totalBytes: number | null,
+  onProgress?: BulkImportProgressCallback
+): Promise<BulkImportResult> {
   let cardsProcessed = 0;
+  let bytesRead = 0;
   let batch: ScryfallApiCard[] = [];
   let typeEntries: Array<{ cardId: string; type: string; isToken: boolean }> = [];
   let tokenNames: string[] = [];
   let totalInserted = 0;
   let totalUpdated = 0;
 
+  const reportProgress = () => onProgress?.({ cardsProcessed, bytesRead, totalBytes });
+  if (onProgress) {
+    source.on("data", (chunk: Buffer) => {
+      bytesRead += chunk.length;
+    });
+  }
+
   // Create a transform pipeline to parse the JSON stream
   const jsonParser = StreamJsonParser.parser();
   const arrayStreamer = StreamArray.streamArray();
@@ -153,6 +211,7 @@ export async function downloadAndImportBulkData(): Promise<{
       batch = [];
       typeEntries = [];
       tokenNames = [];
+      reportProgress();
 
       if (cardsProcessed % BATCH_SIZE === 0) {
         debugLog(
@@ -163,7 +222,7 @@ export async function downloadAndImportBulkData(): Promise<{
   });
 
   // Wait for the stream to complete
-  await pipeline(response.data as Readable, jsonParser, arrayStreamer);
+  await pipeline(source, jsonParser, arrayStreamer);
 
   // Check if stream had parsing errors
   if (streamError) {
@@ -179,6 +238,7 @@ export async function downloadAndImportBulkData(): Promise<{
     batchInsertCardTypes(typeEntries);
     batchInsertTokenNames(tokenNames);
   }
+  reportProgress();
 
   // Update last import time
   setLastImportTime(new Date().toISOString());
@@ -210,16 +270,22 @@ interface ScryfallBulkCard {
   collector_number: string;
   lang: string;
   colors?: string[];
+  color_identity?: string[];
   mana_cost?: string;
   cmc?: number;
   type_line?: string;
+  oracle_text?: string;
   rarity?: string;
   layout?: string;
+  prices?: Record<string, string | null>;
+  legalities?: Record<string, string>;
   image_uris?: { png?: string;[key: string]: string | undefined };
   card_faces?: Array<{
     name?: string;
     colors?: string[];
     mana_cost?: string;
+    type_line?: string;
+    oracle_text?: string;
     image_uris?: { png?: string;[key: string]: string | undefined };
   }>;
   all_parts?: Array<{
@@ -245,11 +311,15 @@ function convertBulkCard(
     collector_number: bulk.collector_number,
     lang: bulk.lang,
     colors: bulk.colors,
+    color_identity: bulk.color_identity,
     mana_cost: bulk.mana_cost,
     cmc: bulk.cmc,
     type_line: bulk.type_line,
+    oracle_text: bulk.oracle_text,
     rarity: bulk.rarity,
     layout: bulk.layout,
+    prices: bulk.prices,
+    legalities: bulk.legalities,
     image_uris: bulk.image_uris,
     card_faces: bulk.card_faces,
     all_parts: bulk.all_parts,
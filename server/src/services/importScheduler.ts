@@ -1,9 +1,55 @@
-import cron from 'node-cron';
-import { shouldImport, downloadAndImportBulkData, getLastImportTime } from './bulkDataService.js';
+import cron, { type ScheduledTask } from 'node-cron';
+import {
+    shouldImport,
+    downloadAndImportBulkData,
+    importBulkDataFromFile,
+    getLastImportTime,
+    type BulkImportResult,
+} from './bulkDataService.js';
+import type {
+    BulkImportProgress,
+    BulkImportSource,
+    BulkImportStatus,
+    ImportSchedulerStatus,
+} from '../../../shared/types.js';
 import { getCardCount, getDbSizeBytes, formatBytes } from '../db/proxxiedCardLookup.js';
 import { initCatalogs } from '../utils/scryfallCatalog.js';
+import { getCliOption, isOfflineMode } from '../utils/offline.js';
 
 let isImporting = false;
+let scheduledTask: ScheduledTask | null = null;
+
+const importStatus: BulkImportStatus = {
+    running: false,
+    source: null,
+    startedAt: null,
+    progress: null,
+    lastResult: null,
+    lastError: null,
+};
+
+function beginImport(source: BulkImportSource): void {
+    isImporting = true;
+    Object.assign(importStatus, { running: true, source, startedAt: new Date().toISOString(), progress: null });
+}
+
+function endImport(): void {
+    isImporting = false;
+    importStatus.running = false;
+}
+
+function recordProgress(progress: BulkImportProgress): void {
+    importStatus.progress = progress;
+}
+
+function recordResult(source: BulkImportSource, result: BulkImportResult): void {
+    importStatus.lastResult = { ...result, source, finishedAt: new Date().toISOString() };
+    importStatus.lastError = null;
+}
+
+function recordError(message: string): void {
+    importStatus.lastError = { message, at: new Date().toISOString() };
+}
 
 // Cron expression for scheduling imports
 // Use '* * * * *' for testing (every minute)
@@ -34,10 +80,19 @@ function getNextRunTime(cronExpr: string): string {
     return `cron: ${cronExpr}`;
 }
 
+/**
+ * Path of a downloaded bulk data file given with --import-bulk or
+ * PROXXIED_BULK_DATA_FILE, if any.
+ */
+export function getBulkDataFilePath(): string | null {
+    return getCliOption('--import-bulk') || process.env.PROXXIED_BULK_DATA_FILE || null;
+}
+
 /**
  * Start the import scheduler.
  * - Runs based on CRON_EXPRESSION
  * - Triggers import on startup if needed (cold start)
+ * - Does nothing in offline mode (cards come from importBulkFile instead)
  */
 export function startImportScheduler(): void {
     console.log('[Scheduler] Starting import scheduler...');
@@ -50,6 +105,11 @@ export function startImportScheduler(): void {
     console.log(`[Scheduler] Last import: ${lastImport || 'never'}`);
     console.log(`[Scheduler] Cards in database: ${cardCount} (${dbSize})`);
 
+    if (isOfflineMode()) {
+        console.log('[Scheduler] Offline mode: Scryfall bulk downloads are disabled.');
+        return;
+    }
+
     const nextRunDescription = getNextRunTime(CRON_EXPRESSION);
 
     if (shouldImport()) {
@@ -60,7 +120,7 @@ export function startImportScheduler(): void {
     }
 
     // Schedule the import
-    cron.schedule(CRON_EXPRESSION, () => {
+    scheduledTask = cron.schedule(CRON_EXPRESSION, () => {
         console.log('[Scheduler] Scheduled import triggered.');
         runImport();
     }, {
@@ -70,6 +130,34 @@ export function startImportScheduler(): void {
     console.log(`[Scheduler] Import scheduled: ${nextRunDescription}`);
 }
 
+/**
+ * Import a previously downloaded bulk data file from disk.
+ * Scheduled downloads are skipped while this runs.
+ */
+export async function importBulkFile(filePath: string): Promise<void> {
+    if (isImporting) {
+        console.log('[Scheduler] Import already in progress. Skipping file import.');
+        return;
+    }
+
+    beginImport('file');
+    try {
+        console.log(`[Scheduler] Importing bulk data from ${filePath}...`);
+        const result = await importBulkDataFromFile(filePath, recordProgress);
+        recordResult('file', result);
+        const dbSize = formatBytes(getDbSizeBytes());
+        console.log(`[Scheduler] File import complete: ${result.cardsImported} cards in ${(result.durationMs / 1000).toFixed(1)} seconds. DB size: ${dbSize}`);
+
+        await initCatalogs();
+    } catch (error) {
+        const msg = error instanceof Error ? error.message : String(error);
+        console.error(`[Scheduler] File import failed: ${msg}`);
+        recordError(msg);
+    } finally {
+        endImport();
+    }
+}
+
 /**
  * Run the bulk data import with retry logic.
  * Uses exponential backoff: 5 min, 30 min, 2 hours between retries.
@@ -80,7 +168,7 @@ async function runImport(): Promise<void> {
         return;
     }
 
-    isImporting = true;
+    beginImport('scryfall');
 
     const RETRY_DELAYS_MS = [
         5 * 60 * 1000,    // 5 minutes
@@ -98,18 +186,20 @@ async function runImport(): Promise<void> {
                 console.log(`[Scheduler] Retry attempt ${attempt}/${MAX_RETRIES}...`);
             }
 
-            const result = await downloadAndImportBulkData();
+            const result = await downloadAndImportBulkData(recordProgress);
+            recordResult('scryfall', result);
             const dbSize = formatBytes(getDbSizeBytes());
             console.log(`[Scheduler] Import complete: ${result.cardsImported} cards in ${(result.durationMs / 1000 / 60).toFixed(1)} minutes. DB size: ${dbSize}`);
 
             // Refresh type catalogs from Scryfall API after successful import
             await initCatalogs();
 
-            isImporting = false;
+            endImport();
             return; // Success - exit retry loop
         } catch (error) {
             lastError = error instanceof Error ? error : new Error(String(error));
             const msg = lastError.message;
+            recordError(msg);
 
             if (attempt < MAX_RETRIES) {
                 const delayMs = RETRY_DELAYS_MS[attempt];
@@ -126,5 +216,37 @@ async function runImport(): Promise<void> {
         }
     }
 
-    isImporting = false;
+    endImport();
+}
+
+/**
+ * Start an import now, outside the cron schedule.
+ * Imports `filePath` from disk when given, otherwise downloads from Scryfall.
+ * Returns false if an import is already running.
+ */
+export function triggerImport(filePath?: string): boolean {
+    if (isImporting) return false;
+
+    if (filePath) {
+        void importBulkFile(filePath);
+    } else {
+        console.log('[Scheduler] Manual import triggered.');
+        void runImport();
+    }
+    return true;
+}
+
+/**
+ * Current scheduler and import state.
+ */
+export function getSchedulerStatus(): ImportSchedulerStatus {
+    return {
+        enabled: scheduledTask !== null,
+        cron: CRON_EXPRESSION,
+        description: getNextRunTime(CRON_EXPRESSION),
+        nextRun: scheduledTask?.getNextRun()?.toISOString() ?? null,
+        lastImport: getLastImportTime(),
+        bulkDataFile: getBulkDataFilePath(),
+        import: { ...importStatus },
+    };
 }
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { normalizeCardInfos } from './cardUtils';
+import { normalizeCardInfos, parseCardPrices } from './cardUtils';
 
 describe('cardUtils', () => {
     describe('normalizeCardInfos', () => {
@@ -65,4 +65,20 @@ describe('cardUtils', () => {
             });
         });
     });
+
+    describe('parseCardPrices', () => {
+        it('should convert price strings to numbers', () => {
+            expect(parseCardPrices({ usd: '0.25', usd_foil: '1.50', eur: '0.20', tix: '0.01' }))
+                .toEqual({ usd: 0.25, usd_foil: 1.5, eur: 0.2 });
+        });
+
+        it('should drop missing prices', () => {
+            expect(parseCardPrices({ usd: null, eur: '3.10' })).toEqual({ eur: 3.1 });
+        });
+
+        it('should return undefined when nothing is priced', () => {
+            expect(parseCardPrices({ usd: null, eur: null })).toBeUndefined();
+            expect(parseCardPrices(undefined)).toBeUndefined();
+        });
+    });
 });
@@ -1,4 +1,6 @@
-import type { CardInfo } from "../../../shared/types.js";
+import type { CardInfo, CardPrices } from "../../../shared/types.js";
+
+const PRICE_KEYS = ["usd", "usd_foil", "eur", "eur_foil"] as const;
 
 /**
  * Normalizes incoming card queries or names into a standard CardInfo array.
@@ -30,3 +32,19 @@ export function normalizeCardInfos(
     return [];
 }
 
+
+/**
+ * Converts Scryfall's price strings (e.g. { usd: "0.25", eur: null }) to numbers,
+ * dropping missing prices. Returns undefined when the card has no prices at all.
+ */
+export function parseCardPrices(
+    prices: Record<string, string | null> | null | undefined
+): CardPrices | undefined {
+    if (!prices) return undefined;
+    const result: CardPrices = {};
+    for (const key of PRICE_KEYS) {
+        const value = Number.parseFloat(prices[key] ?? "");
+        if (Number.isFinite(value)) result[key] = value;
+    }
+    return Object.keys(result).length > 0 ? result : undefined;
+}
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import {
+    deckNameFromSlug,
+    normalizeScryfallDeck,
+    parseCsv,
+    parseDeckstatsText,
+    parseMtgGoldfishText,
+    parseTappedOutCsv,
+} from './deckSiteParsers.js';
+
+function fixture(name: string): string {
+    return readFileSync(fileURLToPath(new URL(`../__fixtures__/decksites/${name}`, import.meta.url)), 'utf-8');
+}
+
+describe('deckSiteParsers', () => {
+    describe('normalizeScryfallDeck', () => {
+        it('should map sections to categories and skip unresolved entries', () => {
+            const cards = normalizeScryfallDeck(JSON.parse(fixture('scryfall-deck.json')));
+
+            expect(cards).toEqual([
+                { name: "Atraxa, Praetors' Voice", set: '2x2', number: '190', quantity: 1, category: 'Commander', isToken: false },
+                { name: 'Sol Ring', set: 'cmm', number: '410', quantity: 1, category: 'Mainboard', isToken: false },
+                { name: 'Forest', set: 'one', number: '276', quantity: 10, category: 'Mainboard', isToken: false },
+                { name: 'Treasure', set: 'tc21', number: '14', quantity: 2, category: 'Tokens', isToken: true },
+                { name: 'Doubling Season', set: '2x2', number: '139', quantity: 1, category: 'Maybeboard', isToken: false },
+            ]);
+        });
+
+        it('should handle a deck without entries', () => {
+            expect(normalizeScryfallDeck({ id: 'x', name: 'Empty', entries: {} })).toEqual([]);
+        });
+    });
+
+    describe('parseTappedOutCsv', () => {
+        it('should read boards, printings and the commander flag', () => {
+            const cards = parseTappedOutCsv(fixture('tappedout-deck.csv'));
+
+            expect(cards).toEqual([
+                { name: "Atraxa, Praetors' Voice", set: '2x2', quantity: 1, category: 'Commander', isToken: false },
+                { name: 'Sol Ring', set: 'cmm', quantity: 1, category: 'Mainboard', isToken: false },
+                { name: 'Forest', set: 'one', quantity: 9, category: 'Mainboard', isToken: false },
+                { name: 'Forest', set: undefined, quantity: 1, category: 'Mainboard', isToken: false },
+                { name: 'Fire // Ice', set: 'mh2', quantity: 2, category: 'Sideboard', isToken: false },
+                { name: 'Doubling Season', set: undefined, quantity: 1, category: 'Maybeboard', isToken: false },
+            ]);
+        });
+
+        it('should reject CSVs without name or quantity columns', () => {
+            expect(() => parseTappedOutCsv('foo,bar\n1,2')).toThrow('Unrecognized TappedOut export');
+        });
+    });
+
+    describe('parseDeckstatsText', () => {
+        it('should read sections, printings, commander flags and SB: lines', () => {
+            const cards = parseDeckstatsText(fixture('deckstats-deck.txt'));
+
+            expect(cards).toEqual([
+                { name: "Atraxa, Praetors' Voice", set: '2x2', number: '190', quantity: 1, category: 'Commander', isToken: false },
+                { name: 'Sol Ring', set: 'cmm', number: undefined, quantity: 1, category: 'Mainboard', isToken: false },
+                { name: 'Forest', set: undefined, number: undefined, quantity: 10, category: 'Mainboard', isToken: false },
+                { name: 'Doubling Season', set: '2x2', number: '139', quantity: 1, category: 'Maybeboard', isToken: false },
+                { name: 'Treasure', set: undefined, number: undefined, quantity: 2, category: 'Tokens', isToken: true },
+                { name: 'Swords to Plowshares', set: undefined, number: undefined, quantity: 1, category: 'Sideboard', isToken: false },
+            ]);
+        });
+    });
+
+    describe('parseMtgGoldfishText', () => {
+        it('should treat cards after the blank line as sideboard', () => {
+            const cards = parseMtgGoldfishText(fixture('mtggoldfish-deck.txt'));
+
+            expect(cards.map(c => [c.name, c.quantity, c.category])).toEqual([
+                ['Lightning Bolt', 4, 'Mainboard'],
+                ['Monastery Swiftspear', 4, 'Mainboard'],
+                ['Mountain', 20, 'Mainboard'],
+                ['Smash to Smithereens', 3, 'Sideboard'],
+                ['Roiling Vortex', 2, 'Sideboard'],
+            ]);
+        });
+
+        it('should merge repeated lines', () => {
+            expect(parseMtgGoldfishText('2 Opt\n2 Opt')).toEqual([{ name: 'Opt', quantity: 4, category: 'Mainboard' }]);
+        });
+    });
+
+    describe('helpers', () => {
+        it('should parse quoted CSV fields with escaped quotes', () => {
+            expect(parseCsv('a,"b, c","say ""hi"""\r\n1,2,3')).toEqual([['a', 'b, c', 'say "hi"'], ['1', '2', '3']]);
+        });
+
+        it('should derive deck names from slugs', () => {
+            expect(deckNameFromSlug('1806476-mono-red-burn', 'Fallback')).toBe('Mono Red Burn');
+            expect(deckNameFromSlug('1806476', 'Fallback')).toBe('Fallback');
+        });
+    });
+});
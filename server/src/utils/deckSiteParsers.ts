@@ -0,0 +1,279 @@
+/**
+ * Normalizers for deck sites without a JSON API we can proxy as-is.
+ * Each parser turns the site's export format into ImportedDeckCard[],
+ * the same fields the client extracts from Archidekt and Moxfield decks.
+ */
+
+import type { ImportedDeckCard } from "../../../shared/types.js";
+
+// ----- Helpers -----
+
+function titleCase(value: string): string {
+    return value.charAt(0).toUpperCase() + value.slice(1).toLowerCase();
+}
+
+/**
+ * Turns a URL slug ("mono-red-burn") into a readable deck name.
+ */
+export function deckNameFromSlug(slug: string, fallback: string): string {
+    const words = slug.split("-").filter((w) => w && !/^\d+$/.test(w));
+    return words.length > 0 ? words.map(titleCase).join(" ") : fallback;
+}
+
+/**
+ * Merges repeated name/printing/category entries, which text exports produce
+ * when a card is listed once per printing or per section comment.
+ */
+function mergeCards(cards: ImportedDeckCard[]): ImportedDeckCard[] {
+    const merged = new Map<string, ImportedDeckCard>();
+    for (const card of cards) {
+        const key = [card.name.toLowerCase(), card.set ?? "", card.number ?? "", card.category].join("|");
+        const existing = merged.get(key);
+        if (existing) {
+            existing.quantity += card.quantity;
+        } else {
+            merged.set(key, { ...card });
+        }
+    }
+    return [...merged.values()];
+}
+
+/**
+ * Minimal RFC 4180 CSV reader (quoted fields, escaped quotes, CRLF).
+ */
+export function parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = "";
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (inQuotes) {
+            if (ch === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (ch === '"') {
+                inQuotes = false;
+            } else {
+                field += ch;
+            }
+        } else if (ch === '"') {
+            inQuotes = true;
+        } else if (ch === ",") {
+            row.push(field);
+            field = "";
+        } else if (ch === "\n" || ch === "\r") {
+            if (ch === "\r" && text[i + 1] === "\n") i++;
+            row.push(field);
+            if (row.some((f) => f !== "")) rows.push(row);
+            row = [];
+            field = "";
+        } else {
+            field += ch;
+        }
+    }
+    row.push(field);
+    if (row.some((f) => f !== "")) rows.push(row);
+    return rows;
+}
+
+// ----- Scryfall -----
+
+interface ScryfallDeckEntry {
+    count: number;
+    section?: string;
+    card_digest: {
+        name: string;
+        set?: string;
+        collector_number?: string;
+        type_line?: string;
+    } | null;
+}
+
+export interface ScryfallDeckExport {
+    id: string;
+    name: string;
+    entries: Record<string, ScryfallDeckEntry[]>;
+}
+
+const SCRYFALL_SECTIONS: Record<string, string> = {
+    commanders: "Commander",
+    companions: "Companion",
+    sideboard: "Sideboard",
+    maybeboard: "Maybeboard",
+};
+
+/**
+ * Normalizes Scryfall's /decks/:id/export/json response.
+ * Sections other than commanders/sideboard/maybeboard (nonlands, lands, ...) are mainboard.
+ * Entries that Scryfall could not resolve have no card_digest and are skipped.
+ */
+export function normalizeScryfallDeck(deck: ScryfallDeckExport): ImportedDeckCard[] {
+    const cards: ImportedDeckCard[] = [];
+
+    for (const [section, entries] of Object.entries(deck.entries ?? {})) {
+        for (const entry of entries ?? []) {
+            const digest = entry.card_digest;
+            if (!digest?.name || entry.count <= 0) continue;
+
+            const isToken = digest.type_line?.toLowerCase().includes("token") ?? false;
+            cards.push({
+                name: digest.name,
+                set: digest.set?.toLowerCase(),
+                number: digest.collector_number,
+                quantity: entry.count,
+                category: isToken ? "Tokens" : SCRYFALL_SECTIONS[section] ?? "Mainboard",
+                isToken,
+            });
+        }
+    }
+
+    return mergeCards(cards);
+}
+
+// ----- TappedOut -----
+
+const TAPPEDOUT_BOARDS: Record<string, string> = {
+    main: "Mainboard",
+    side: "Sideboard",
+    maybe: "Maybeboard",
+    acquire: "Acquire",
+    token: "Tokens",
+};
+
+/**
+ * Parses TappedOut's ?fmt=csv export (Board, Qty, Name, Printing, ..., Commander).
+ * Columns are looked up by header so extra or reordered columns are fine.
+ */
+export function parseTappedOutCsv(csv: string): ImportedDeckCard[] {
+    const [header, ...rows] = parseCsv(csv);
+    if (!header) return [];
+
+    const columns = header.map((h) => h.trim().toLowerCase());
+    const col = (name: string) => columns.indexOf(name);
+    const boardCol = col("board");
+    const qtyCol = col("qty");
+    const nameCol = col("name");
+    const printingCol = col("printing");
+    const commanderCol = col("commander");
+    if (nameCol < 0 || qtyCol < 0) {
+        throw new Error("Unrecognized TappedOut export");
+    }
+
+    const cards: ImportedDeckCard[] = [];
+    for (const row of rows) {
+        const name = row[nameCol]?.trim();
+        const quantity = parseInt(row[qtyCol] ?? "", 10);
+        if (!name || !Number.isFinite(quantity) || quantity <= 0) continue;
+
+        const board = (row[boardCol] ?? "main").trim().toLowerCase();
+        const isCommander = (row[commanderCol] ?? "").trim().toLowerCase() === "true";
+        const printing = row[printingCol]?.trim().toLowerCase();
+
+        cards.push({
+            name,
+            set: printing || undefined,
+            quantity,
+            category: isCommander ? "Commander" : TAPPEDOUT_BOARDS[board] ?? titleCase(board),
+            isToken: board === "token",
+        });
+    }
+
+    return mergeCards(cards);
+}
+
+// ----- Deckstats -----
+
+/**
+ * Parses Deckstats' ?export_txt=1 format:
+ *
+ *   //Main
+ *   1 [2X2#190] Atraxa, Praetors' Voice #!Commander
+ *   4 [M10] Lightning Bolt
+ *   //Sideboard
+ *   SB: 2 Duress
+ */
+export function parseDeckstatsText(text: string): ImportedDeckCard[] {
+    const cards: ImportedDeckCard[] = [];
+    let section = "Mainboard";
+
+    for (const rawLine of text.split(/\r?\n/)) {
+        let line = rawLine.trim();
+        if (!line) continue;
+
+        const header = line.match(/^\/\/\s*(.+)$/);
+        if (header) {
+            const name = header[1].trim().toLowerCase();
+            section = name === "main" ? "Mainboard" : titleCase(name);
+            continue;
+        }
+
+        let category = section;
+        const sideboard = line.match(/^SB:\s*/i);
+        if (sideboard) {
+            category = "Sideboard";
+            line = line.slice(sideboard[0].length);
+        }
+
+        // Trailing comment holds flags like "!Commander"
+        const commentIndex = line.indexOf(" #");
+        const comment = commentIndex >= 0 ? line.slice(commentIndex + 2) : "";
+        if (commentIndex >= 0) line = line.slice(0, commentIndex).trim();
+        if (/!commander/i.test(comment)) category = "Commander";
+
+        const match = line.match(/^(\d+)x?\s+(?:\[([A-Za-z0-9]+)(?:#([A-Za-z0-9-]+))?\]\s*)?(.+)$/);
+        if (!match) continue;
+
+        const [, qty, set, number, name] = match;
+        cards.push({
+            name: name.trim(),
+            set: set?.toLowerCase(),
+            number,
+            quantity: parseInt(qty, 10),
+            category,
+            isToken: category === "Tokens",
+        });
+    }
+
+    return mergeCards(cards);
+}
+
+// ----- MTGGoldfish -----
+
+/**
+ * Parses MTGGoldfish's /deck/download/:id text.
+ * The sideboard follows the main deck after a blank line, or under a "Sideboard" header.
+ */
+export function parseMtgGoldfishText(text: string): ImportedDeckCard[] {
+    const cards: ImportedDeckCard[] = [];
+    let category = "Mainboard";
+    let sawCards = false;
+
+    for (const rawLine of text.split(/\r?\n/)) {
+        const line = rawLine.trim();
+        if (!line) {
+            if (sawCards) category = "Sideboard";
+            continue;
+        }
+
+        const header = line.match(/^(deck|sideboard|commander|companion):?$/i);
+        if (header) {
+            const name = header[1].toLowerCase();
+            category = name === "deck" ? "Mainboard" : titleCase(name);
+            continue;
+        }
+
+        const match = line.match(/^(\d+)x?\s+(.+)$/);
+        if (!match) continue;
+
+        cards.push({
+            name: match[2].trim(),
+            quantity: parseInt(match[1], 10),
+            category,
+        });
+        sawCards = true;
+    }
+
+    return mergeCards(cards);
+}
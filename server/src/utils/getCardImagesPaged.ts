@@ -3,9 +3,11 @@ import type { CardInfo } from "../../../shared/types.js";
 import {
   lookupCardBySetNumber,
   lookupCardByName,
+  lookupCardPrints,
   insertOrUpdateCard,
 } from "../db/proxxiedCardLookup.js";
 import { debugLog } from "./debug.js";
+import { isOfflineMode, offlineErrorMessage } from "./offline.js";
 
 const SCRYFALL_API = "https://api.scryfall.com/cards/search";
 
@@ -35,6 +37,11 @@ const scryfallMutex = new Mutex();
 let lastScryfallRequest = 0;
 
 async function delayScryfallRequest() {
+  // Fail fast instead of waiting for a network timeout
+  if (isOfflineMode()) {
+    throw new Error(offlineErrorMessage("Scryfall"));
+  }
+
   const unlock = await scryfallMutex.lock();
   try {
     const now = Date.now();
@@ -108,6 +115,7 @@ interface ScryfallCardFace {
   colors?: string[];
   mana_cost?: string;
   type_line?: string;
+  oracle_text?: string;
 }
 
 export interface ScryfallApiCard {
@@ -120,15 +128,20 @@ export interface ScryfallApiCard {
   };
   card_faces?: ScryfallCardFace[];
   colors?: string[];
+  color_identity?: string[];
   mana_cost?: string;
   cmc?: number;
   type_line?: string;
+  oracle_text?: string;
   layout?: string;
   rarity?: string;
   set?: string;
   collector_number?: string;
   lang?: string;
   prints_search_uri?: string;
+  // Scryfall's daily prices (decimal strings, null when unpriced) and format legalities
+  prices?: Record<string, string | null>;
+  legalities?: Record<string, string>;
   // Related cards/tokens from Scryfall
   all_parts?: Array<{
     id?: string;
@@ -289,6 +302,13 @@ export async function batchFetchCards(
     }
   }
 
+  if (isOfflineMode()) {
+    debugLog(
+      `[batchFetchCards] Offline mode: ${cardsToFetch.length} cards not in local DB`
+    );
+    return results;
+  }
+
   // Step 2: Fetch missing cards from Scryfall
   debugLog(
     `[batchFetchCards] ${results.size} from cache, ${cardsToFetch.length} to fetch from Scryfall`
@@ -650,6 +670,53 @@ async function searchScryfallWithFallback<T>(
   return results;
 }
 
+/**
+ * Offline counterpart of the Scryfall search strategies below: finds the
+ * printings of a card in the local DB, narrowed to the exact printing or set
+ * when given. Art isn't tracked locally, so every printing is returned.
+ */
+function findCardsLocally(
+  cardInfo: CardInfo,
+  language: string,
+  fallbackToEnglish: boolean
+): ScryfallApiCard[] {
+  const { name, set, number, isToken } = cardInfo || {};
+  if (!name) return [];
+
+  const find = (lang: string): ScryfallApiCard[] => {
+    if (set && number) {
+      const exact = lookupCardBySetNumber(set, number, lang);
+      if (exact) return [exact];
+    }
+
+    let prints = lookupCardPrints(name, lang);
+    if (isToken) {
+      prints = prints.filter((card) => card.type_line?.toLowerCase().includes("token"));
+    }
+    if (set) {
+      const inSet = prints.filter((card) => card.set?.toLowerCase() === set.toLowerCase());
+      if (inSet.length) return inSet;
+    }
+
+    // Put the best scored printing first, as the live search ordering would
+    const best = isToken ? null : lookupCardByName(name, lang);
+    if (best) {
+      const rest = prints.filter(
+        (card) => card.set !== best.set || card.collector_number !== best.collector_number
+      );
+      return [best, ...rest];
+    }
+    return prints;
+  };
+
+  const lang = (language || "en").toLowerCase();
+  const results = find(lang);
+  if (!results.length && fallbackToEnglish && lang !== "en") {
+    return find("en");
+  }
+  return results;
+}
+
 /**
  * Core: given a CardInfo { name, set?, number?, language? }, return PNG urls.
  * If set && number => try exact printing (that language); else set+name; else name-only.
@@ -708,6 +775,10 @@ export async function getCardsWithImagesForCardInfo(
 ): Promise<ScryfallApiCard[]> {
   const { name, set, number, isToken } = cardInfo || {};
 
+  if (isOfflineMode()) {
+    return findCardsLocally(cardInfo, language, fallbackToEnglish);
+  }
+
   // Create cache key for request deduplication
   const cacheKey = `cards:${name}:${set || ""}:${number || ""}:${unique}:${language}:${isToken || false}`;
 
@@ -808,6 +879,10 @@ export async function getCardDataForCardInfo(
   const { name, set, number, isToken } = cardInfo || {};
   if (!name) return null;
 
+  if (isOfflineMode()) {
+    return findCardsLocally(cardInfo, language, fallbackToEnglish)[0] ?? null;
+  }
+
   // Add type:token filter for explicit token searches
   const tokenFilter = isToken ? " type:token" : "";
 
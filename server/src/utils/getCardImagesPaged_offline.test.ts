@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import axios from 'axios';
+
+vi.mock('axios', () => {
+  const mockGet = vi.fn();
+  const mockInstance = { get: mockGet, post: vi.fn() };
+  return {
+    default: {
+      create: vi.fn(() => mockInstance),
+      get: mockGet,
+    },
+  };
+});
+
+vi.mock('../db/proxxiedCardLookup.js', () => ({
+  lookupCardBySetNumber: vi.fn(() => null),
+  lookupCardByName: vi.fn(() => null),
+  lookupCardPrints: vi.fn(() => []),
+  insertOrUpdateCard: vi.fn(),
+}));
+
+import {
+  batchFetchCards,
+  getCardDataForCardInfo,
+  getCardsWithImagesForCardInfo,
+  getImagesForCardInfo,
+} from './getCardImagesPaged';
+import { lookupCardByName, lookupCardBySetNumber, lookupCardPrints } from '../db/proxxiedCardLookup.js';
+import { setOfflineMode } from './offline.js';
+
+const print = (set: string, number: string, extra: Record<string, unknown> = {}) => ({
+  name: 'Sol Ring',
+  set,
+  collector_number: number,
+  lang: 'en',
+  image_uris: { png: `https://cards.scryfall.io/png/${set}-${number}.png` },
+  ...extra,
+});
+
+describe('getCardImagesPaged - offline mode', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    setOfflineMode(true);
+  });
+
+  afterEach(() => {
+    setOfflineMode(false);
+  });
+
+  it('should return every local print with the best scored one first', async () => {
+    vi.mocked(lookupCardPrints).mockReturnValue([print('c21', '263'), print('cmd', '261'), print('ltc', '3')]);
+    vi.mocked(lookupCardByName).mockReturnValue(print('cmd', '261'));
+
+    const cards = await getCardsWithImagesForCardInfo({ name: 'Sol Ring' }, 'prints');
+
+    expect(cards.map((c) => c.set)).toEqual(['cmd', 'c21', 'ltc']);
+    expect(axios.create().get).not.toHaveBeenCalled();
+  });
+
+  it('should narrow to the requested printing or set', async () => {
+    vi.mocked(lookupCardBySetNumber).mockReturnValue(print('cmd', '261'));
+    vi.mocked(lookupCardPrints).mockReturnValue([print('c21', '263'), print('cmd', '261')]);
+
+    expect(await getCardsWithImagesForCardInfo({ name: 'Sol Ring', set: 'cmd', number: '261' })).toEqual([print('cmd', '261')]);
+    expect((await getCardsWithImagesForCardInfo({ name: 'Sol Ring', set: 'C21' })).map((c) => c.set)).toEqual(['c21']);
+  });
+
+  it('should keep only tokens for token lookups and fall back to English', async () => {
+    vi.mocked(lookupCardPrints).mockImplementation((_name, lang) =>
+      lang === 'en'
+        ? [print('tcmr', '11', { name: 'Treasure', type_line: 'Token Artifact — Treasure' }), print('snc', '1', { name: 'Treasure', type_line: 'Artifact' })]
+        : []
+    );
+
+    const cards = await getCardsWithImagesForCardInfo({ name: 'Treasure', isToken: true }, 'art', 'de');
+
+    expect(cards.map((c) => c.set)).toEqual(['tcmr']);
+    expect(lookupCardPrints).toHaveBeenCalledWith('Treasure', 'de');
+  });
+
+  it('should return the first local match as card data', async () => {
+    vi.mocked(lookupCardByName).mockReturnValue(print('cmd', '261'));
+
+    expect(await getCardDataForCardInfo({ name: 'Sol Ring' })).toMatchObject({ set: 'cmd' });
+  });
+
+  it('should only use the local database for batch fetches', async () => {
+    vi.mocked(lookupCardByName).mockImplementation((name) => (name === 'Sol Ring' ? print('cmd', '261') : null));
+
+    const results = await batchFetchCards([{ name: 'Sol Ring' }, { name: 'Missing Card' }]);
+
+    expect(results.get('sol ring')).toMatchObject({ set: 'cmd' });
+    expect(results.has('missing card')).toBe(false);
+    expect(axios.create().post).not.toHaveBeenCalled();
+    expect(axios.create().get).not.toHaveBeenCalled();
+  });
+
+  it('should not wait on Scryfall for live-only searches', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(await getImagesForCardInfo({ name: 'Sol Ring' })).toEqual([]);
+    expect(axios.create().get).not.toHaveBeenCalled();
+    expect(warn).toHaveBeenCalledWith('[Scryfall] Query failed:', expect.any(String), 'Scryfall is not available offline');
+
+    warn.mockRestore();
+  });
+});
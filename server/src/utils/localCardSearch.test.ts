@@ -0,0 +1,226 @@
+import { describe, it, expect, vi, beforeAll } from 'vitest';
+import Database from 'better-sqlite3';
+
+const testDb = vi.hoisted(() => ({ current: null as Database.Database | null }));
+
+vi.mock('../db/db.js', () => ({
+    getDatabase: () => testDb.current,
+}));
+
+import { batchInsertCards } from '../db/proxxiedCardLookup.js';
+import { batchInsertCardTypes, parseTypeLine } from './scryfallCatalog.js';
+import type { ScryfallApiCard } from './getCardImagesPaged.js';
+import { compileScryfallQuery, searchLocalCards, UnsupportedQueryError } from './localCardSearch.js';
+import { ScryfallQuerySyntaxError } from './scryfallQueryParser.js';
+
+type TestCard = ScryfallApiCard & { id: string };
+
+const card = (id: string, fields: Partial<TestCard>): TestCard => ({
+    id,
+    oracle_id: `oracle-${fields.name ?? id}`,
+    lang: 'en',
+    layout: 'normal',
+    rarity: 'common',
+    colors: [],
+    color_identity: [],
+    ...fields,
+});
+
+const CARDS: TestCard[] = [
+    card('bolt-m11', { name: 'Lightning Bolt', set: 'm11', collector_number: '149', cmc: 1, colors: ['R'], color_identity: ['R'], type_line: 'Instant', oracle_text: 'Lightning Bolt deals 3 damage to any target.' }),
+    card('bolt-2xm', { name: 'Lightning Bolt', oracle_id: 'oracle-Lightning Bolt', set: '2xm', collector_number: '129', cmc: 1, colors: ['R'], color_identity: ['R'], type_line: 'Instant', rarity: 'uncommon', oracle_text: 'Lightning Bolt deals 3 damage to any target.' }),
+    card('bolt-de', { name: 'Lightning Bolt', oracle_id: 'oracle-Lightning Bolt', set: 'm11', collector_number: '149', lang: 'de', cmc: 1, colors: ['R'], type_line: 'Instant' }),
+    card('goblin-guide', { name: 'Goblin Guide', set: 'zen', collector_number: '126', cmc: 1, colors: ['R'], color_identity: ['R'], type_line: 'Creature — Goblin Scout', rarity: 'rare', oracle_text: 'Haste' }),
+    card('krenko', { name: 'Krenko, Mob Boss', set: 'm13', collector_number: '139', cmc: 4, colors: ['R'], color_identity: ['R'], type_line: 'Legendary Creature — Goblin Warrior', rarity: 'rare', oracle_text: '{T}: Create X 1/1 red Goblin creature tokens.' }),
+    card('llanowar', { name: 'Llanowar Elves', set: 'dom', collector_number: '168', cmc: 1, colors: ['G'], color_identity: ['G'], type_line: 'Creature — Elf Druid', oracle_text: '{T}: Add {G}.' }),
+    card('sol-ring', { name: 'Sol Ring', set: 'cmd', collector_number: '261', cmc: 1, type_line: 'Artifact', rarity: 'uncommon', oracle_text: '{T}: Add {C}{C}.' }),
+    card('niv', { name: 'Niv-Mizzet, Parun', set: 'grn', collector_number: '192', cmc: 6, colors: ['U', 'R'], color_identity: ['U', 'R'], type_line: 'Legendary Creature — Dragon Wizard', rarity: 'rare', oracle_text: 'Whenever you draw a card, Niv-Mizzet, Parun deals 1 damage to any target.' }),
+    card('bala-ged', {
+        name: 'Bala Ged Recovery // Bala Ged Sanctuary', set: 'znr', collector_number: '180', cmc: 3, layout: 'modal_dfc', color_identity: ['G'], type_line: 'Sorcery // Land', rarity: 'mythic', colors: undefined,
+        card_faces: [
+            { name: 'Bala Ged Recovery', colors: ['G'], oracle_text: 'Return target card from your graveyard to your hand.' },
+            { name: 'Bala Ged Sanctuary', colors: [], oracle_text: 'Bala Ged Sanctuary enters tapped.' },
+        ],
+    }),
+    card('delver', { name: 'Delver of Secrets // Insectile Aberration', set: 'isd', collector_number: '51', cmc: 1, layout: 'transform', color_identity: ['U'], type_line: 'Creature — Human Wizard // Creature — Human Insect', colors: undefined, card_faces: [{ name: 'Delver of Secrets', colors: ['U'] }, { name: 'Insectile Aberration', colors: ['U'] }] }),
+    card('goblin-token', { name: 'Goblin', set: 'tm13', collector_number: '4', layout: 'token', colors: ['R'], color_identity: ['R'], type_line: 'Token Creature — Goblin' }),
+];
+
+function names(query: string, options = {}): string[] {
+    return searchLocalCards(query, options).cards.map((c) => c.name!);
+}
+
+describe('localCardSearch', () => {
+    beforeAll(() => {
+        testDb.current = new Database(':memory:');
+        testDb.current.exec(`
+            CREATE TABLE cards (
+                id TEXT PRIMARY KEY, oracle_id TEXT, name TEXT NOT NULL, set_code TEXT, collector_number TEXT,
+                lang TEXT DEFAULT 'en', colors TEXT, mana_cost TEXT, cmc REAL, type_line TEXT, rarity TEXT,
+                layout TEXT, oracle_text TEXT, color_identity TEXT, prices TEXT, legalities TEXT, image_uris TEXT, card_faces TEXT,
+                all_parts TEXT, updated_at TEXT
+            );
+            CREATE TABLE card_types (
+                card_id TEXT NOT NULL, type TEXT NOT NULL COLLATE NOCASE, is_token INTEGER DEFAULT 0,
+                PRIMARY KEY (card_id, type)
+            );
+        `);
+        batchInsertCards(CARDS);
+        batchInsertCardTypes(CARDS.flatMap((c) => {
+            const types = parseTypeLine(c.type_line ?? '');
+            return types.map((type) => ({ cardId: c.id, type, isToken: types.includes('token') }));
+        }));
+    });
+
+    describe('names', () => {
+        it('should match every word in the name', () => {
+            expect(names('bolt lightning')).toEqual(['Lightning Bolt']);
+            expect(names('"mob boss"')).toEqual(['Krenko, Mob Boss']);
+        });
+
+        it('should match exact names, including either DFC face', () => {
+            expect(names('!"lightning bolt"')).toEqual(['Lightning Bolt']);
+            expect(names('!"Bala Ged Sanctuary"')).toEqual(['Bala Ged Recovery // Bala Ged Sanctuary']);
+            expect(names('!"Lightning"')).toEqual([]);
+        });
+
+        it('should treat LIKE wildcards literally', () => {
+            expect(names('bol%')).toEqual([]);
+            expect(names('name:_olt')).toEqual([]);
+        });
+    });
+
+    describe('types', () => {
+        it('should match type words by prefix', () => {
+            expect(names('t:goblin')).toEqual(['Goblin Guide', 'Krenko, Mob Boss']);
+            expect(names('t:legend t:creature')).toEqual(['Krenko, Mob Boss', 'Niv-Mizzet, Parun']);
+        });
+
+        it('should match quoted phrases against the type line', () => {
+            expect(names('type:"legendary creature — goblin"')).toEqual(['Krenko, Mob Boss']);
+        });
+
+        it('should include tokens when asked for', () => {
+            expect(names('t:token')).toEqual(['Goblin']);
+            expect(names('goblin')).toEqual(['Goblin Guide']);
+            expect(names('goblin include:extras')).toEqual(['Goblin', 'Goblin Guide']);
+        });
+    });
+
+    describe('colors', () => {
+        it('should match cards containing the colors for c:', () => {
+            expect(names('c:r t:creature')).toEqual(['Goblin Guide', 'Krenko, Mob Boss', 'Niv-Mizzet, Parun']);
+            expect(names('c:ur')).toEqual(['Niv-Mizzet, Parun']);
+            expect(names('c:izzet')).toEqual(['Niv-Mizzet, Parun']);
+        });
+
+        it('should support exact, subset and count comparisons', () => {
+            expect(names('c=r t:creature')).toEqual(['Goblin Guide', 'Krenko, Mob Boss']);
+            expect(names('c:m')).toEqual(['Niv-Mizzet, Parun']);
+            expect(names('c:c')).toEqual(['Sol Ring']);
+            expect(names('c>r')).toEqual(['Niv-Mizzet, Parun']);
+            expect(names('c<=ur c:u')).toEqual(['Delver of Secrets // Insectile Aberration', 'Niv-Mizzet, Parun']);
+        });
+
+        it('should read colors from DFC faces', () => {
+            expect(names('c:g')).toEqual(['Bala Ged Recovery // Bala Ged Sanctuary', 'Llanowar Elves']);
+        });
+
+        it('should treat id: as "fits in these colors"', () => {
+            expect(names('id:g')).toEqual(['Bala Ged Recovery // Bala Ged Sanctuary', 'Llanowar Elves', 'Sol Ring']);
+            expect(names('id:izzet t:wizard')).toEqual(['Delver of Secrets // Insectile Aberration', 'Niv-Mizzet, Parun']);
+            expect(names('id>=2')).toEqual(['Niv-Mizzet, Parun']);
+        });
+    });
+
+    describe('numbers, rarity, sets', () => {
+        it('should compare mana value', () => {
+            expect(names('mv>=4')).toEqual(['Krenko, Mob Boss', 'Niv-Mizzet, Parun']);
+            expect(names('cmc=3')).toEqual(['Bala Ged Recovery // Bala Ged Sanctuary']);
+            expect(names('mv:6')).toEqual(['Niv-Mizzet, Parun']);
+        });
+
+        it('should compare rarity', () => {
+            expect(names('r:mythic')).toEqual(['Bala Ged Recovery // Bala Ged Sanctuary']);
+            expect(names('r>=r t:creature')).toEqual(['Goblin Guide', 'Krenko, Mob Boss', 'Niv-Mizzet, Parun']);
+        });
+
+        it('should filter by set and collector number', () => {
+            expect(names('s:M11')).toEqual(['Lightning Bolt']);
+            expect(names('e:2xm cn:129')).toEqual(['Lightning Bolt']);
+            expect(names('set:dom or set:cmd')).toEqual(['Llanowar Elves', 'Sol Ring']);
+            expect(names('cn>150 cn<200')).toEqual(['Bala Ged Recovery // Bala Ged Sanctuary', 'Llanowar Elves', 'Niv-Mizzet, Parun']);
+        });
+    });
+
+    describe('layouts and text', () => {
+        it('should match is: and not: layouts', () => {
+            expect(names('is:dfc')).toEqual(['Bala Ged Recovery // Bala Ged Sanctuary', 'Delver of Secrets // Insectile Aberration']);
+            expect(names('is:mdfc')).toEqual(['Bala Ged Recovery // Bala Ged Sanctuary']);
+            expect(names('not:dfc mv>=3')).toEqual(['Krenko, Mob Boss', 'Niv-Mizzet, Parun']);
+        });
+
+        it('should search oracle text, with ~ as the card name', () => {
+            expect(names('o:"any target"')).toEqual(['Lightning Bolt', 'Niv-Mizzet, Parun']);
+            expect(names('o:"~ deals"')).toEqual(['Lightning Bolt', 'Niv-Mizzet, Parun']);
+            expect(names('oracle:"enters tapped"')).toEqual(['Bala Ged Recovery // Bala Ged Sanctuary']);
+        });
+    });
+
+    describe('boolean logic', () => {
+        it('should combine or, negation and groups', () => {
+            expect(names('(t:elf or t:goblin) -t:legendary')).toEqual(['Goblin Guide', 'Llanowar Elves']);
+            expect(names('mv=1 -c:r -is:dfc')).toEqual(['Llanowar Elves', 'Sol Ring']);
+            expect(names('-(c:r or c:g) mv<=1')).toEqual(['Delver of Secrets // Insectile Aberration', 'Sol Ring']);
+        });
+
+        it('should treat unknown values as not matching so negation includes them', () => {
+            expect(names('-o:haste t:instant')).toEqual(['Lightning Bolt']);
+        });
+    });
+
+    describe('options', () => {
+        it('should return one row per card unless unique:prints', () => {
+            expect(names('bolt')).toEqual(['Lightning Bolt']);
+            expect(searchLocalCards('bolt unique:prints').cards.map((c) => c.set)).toEqual(['2xm', 'm11']);
+            expect(searchLocalCards('bolt', { unique: 'prints' }).total).toBe(2);
+        });
+
+        it('should filter by language', () => {
+            expect(searchLocalCards('bolt lang:de').cards.map((c) => c.lang)).toEqual(['de']);
+            expect(searchLocalCards('bolt lang:any unique:prints').total).toBe(3);
+        });
+
+        it('should order results', () => {
+            expect(names('t:creature order:cmc dir:desc')).toEqual([
+                'Niv-Mizzet, Parun', 'Krenko, Mob Boss', 'Delver of Secrets // Insectile Aberration', 'Goblin Guide', 'Llanowar Elves',
+            ]);
+            expect(names('t:creature', { order: 'rarity' })[0]).toBe('Delver of Secrets // Insectile Aberration');
+        });
+
+        it('should page results', () => {
+            const result = searchLocalCards('mv>=0', { page: 2 });
+            expect(result.cards).toEqual([]);
+            expect(result.total).toBe(8);
+            expect(result.hasMore).toBe(false);
+        });
+    });
+
+    describe('unsupported queries', () => {
+        it.each(['f:modern', 'usd<1', 'pow>=3', 'is:commander', 'mv:even', 'c:purple', 't>goblin'])(
+            'should reject %s for the live API',
+            (query) => {
+                expect(() => compileScryfallQuery(query)).toThrow(UnsupportedQueryError);
+            }
+        );
+
+        it('should name the keyword in the error', () => {
+            expect(() => compileScryfallQuery('t:goblin f:modern')).toThrow('Search keyword "f:" is not available offline');
+        });
+
+        it('should report syntax errors', () => {
+            expect(() => compileScryfallQuery('(t:goblin')).toThrow(ScryfallQuerySyntaxError);
+            expect(() => compileScryfallQuery(' ')).toThrow(ScryfallQuerySyntaxError);
+        });
+    });
+});
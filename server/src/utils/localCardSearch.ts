@@ -0,0 +1,340 @@
+/**
+ * Local Card Search
+ *
+ * Compiles Scryfall search syntax to SQL over the `cards` and `card_types`
+ * tables, so searches can be answered from the bulk data already in SQLite.
+ *
+ * Supported: name words / "phrases" / !"exact name", t:, c:, id:, mv:, r:,
+ * s:/set:, cn:, is:/not: (layouts), o:, lang:, plus `or`, `-` and
+ * parentheses. unique:, order:, dir: and include: are honored as options.
+ * Anything else throws UnsupportedQueryError so callers can fall back to the
+ * live API (or report it when offline).
+ */
+
+import { queryCardsLocally, type LocalCardQuery } from '../db/proxxiedCardLookup.js';
+import type { ScryfallApiCard } from './getCardImagesPaged.js';
+import { offlineErrorMessage } from './offline.js';
+import {
+    parseScryfallQuery,
+    ScryfallQuerySyntaxError,
+    type QueryNode,
+    type QueryOperator,
+} from './scryfallQueryParser.js';
+
+export class UnsupportedQueryError extends Error {
+    readonly keyword: string;
+
+    constructor(keyword: string) {
+        super(offlineErrorMessage(`Search keyword "${keyword}"`));
+        this.name = 'UnsupportedQueryError';
+        this.keyword = keyword;
+    }
+}
+
+// Scryfall returns at most 175 cards per page
+const PAGE_SIZE = 175;
+
+const KEY_ALIASES: Record<string, string> = {
+    type: 't',
+    color: 'c',
+    identity: 'id',
+    manavalue: 'mv',
+    cmc: 'mv',
+    rarity: 'r',
+    s: 'set',
+    e: 'set',
+    edition: 'set',
+    number: 'cn',
+    oracle: 'o',
+    language: 'lang',
+    direction: 'dir',
+};
+
+const COLORS = ['W', 'U', 'B', 'R', 'G'];
+
+const COLOR_NAMES: Record<string, string> = {
+    white: 'w', blue: 'u', black: 'b', red: 'r', green: 'g',
+    azorius: 'wu', dimir: 'ub', rakdos: 'br', gruul: 'rg', selesnya: 'gw',
+    orzhov: 'wb', izzet: 'ur', golgari: 'bg', boros: 'rw', simic: 'gu',
+    bant: 'gwu', esper: 'wub', grixis: 'ubr', jund: 'brg', naya: 'rgw',
+    abzan: 'wbg', jeskai: 'urw', sultai: 'bgu', mardu: 'rwb', temur: 'gur',
+};
+
+const RARITY_RANK_SQL =
+    "CASE rarity WHEN 'common' THEN 0 WHEN 'uncommon' THEN 1 WHEN 'rare' THEN 2 " +
+    "WHEN 'mythic' THEN 3 WHEN 'special' THEN 4 WHEN 'bonus' THEN 5 END";
+
+const RARITIES: Record<string, number> = {
+    c: 0, common: 0, u: 1, uncommon: 1, r: 2, rare: 2,
+    m: 3, mythic: 3, s: 4, special: 4, b: 5, bonus: 5,
+};
+
+// is: keywords answered from the layout column
+const LAYOUTS: Record<string, string[]> = {
+    dfc: ['transform', 'modal_dfc', 'double_faced_token', 'reversible_card'],
+    mdfc: ['modal_dfc'],
+    transform: ['transform'],
+    split: ['split'],
+    flip: ['flip'],
+    meld: ['meld'],
+    adventure: ['adventure'],
+    token: ['token', 'double_faced_token'],
+};
+
+// Left out unless include:extras or the query asks for them, as on Scryfall
+const EXTRA_LAYOUTS = ['token', 'double_faced_token', 'emblem', 'art_series', 'planar', 'scheme', 'vanguard'];
+const EXTRA_TYPES = ['token', 'emblem', 'plane', 'phenomenon', 'scheme', 'vanguard'];
+
+const ORDER_COLUMNS: Record<string, string> = {
+    name: 'name COLLATE NOCASE',
+    cmc: 'cmc',
+    mv: 'cmc',
+    set: 'set_code, CAST(collector_number AS INTEGER), collector_number',
+    rarity: RARITY_RANK_SQL,
+};
+
+const SQL_OPERATORS: Record<QueryOperator, string> = {
+    ':': '=', '=': '=', '!=': '<>', '<': '<', '<=': '<=', '>': '>', '>=': '>=',
+};
+
+export interface LocalSearchOptions {
+    unique?: string;
+    order?: string;
+    dir?: string;
+    page?: number;
+}
+
+export interface LocalSearchResult {
+    cards: ScryfallApiCard[];
+    total: number;
+    hasMore: boolean;
+}
+
+interface CompileState {
+    params: Array<string | number>;
+    langFiltered: boolean;
+    includeExtras: boolean;
+    options: LocalSearchOptions;
+}
+
+function escapeLike(text: string): string {
+    return text.replace(/[\\%_]/g, (c) => `\\${c}`);
+}
+
+function like(state: CompileState, column: string, pattern: string): string {
+    state.params.push(pattern);
+    return `${column} LIKE ? ESCAPE '\\'`;
+}
+
+function inList(column: string, values: string[]): string {
+    return `${column} IN (${values.map((v) => `'${v}'`).join(', ')})`;
+}
+
+function parseNumber(key: string, value: string): number {
+    const number = Number(value);
+    if (value.trim() === '' || !Number.isFinite(number)) {
+        throw new UnsupportedQueryError(`${key}:${value}`);
+    }
+    return number;
+}
+
+/**
+ * c: and id: compare the card's colors with a set of colors, like Scryfall:
+ * `:`/`>=` contains all of them, `=` exactly them, `<=` within them.
+ */
+function compileColors(key: string, operator: QueryOperator, value: string): string {
+    // Colors live as JSON arrays. DFCs only carry them on their faces.
+    const column = key === 'id' ? "COALESCE(color_identity, '')" : "COALESCE(colors, card_faces, '')";
+    const has = (color: string) => `(${column} LIKE '%"${color}"%')`;
+    const count = `(${COLORS.map(has).join(' + ')})`;
+    const lower = value.toLowerCase();
+
+    // Number of colors, e.g. c=2 or id>=3
+    if (/^\d+$/.test(lower)) {
+        return `${count} ${SQL_OPERATORS[operator === ':' ? '=' : operator]} ${Number(lower)}`;
+    }
+    if (lower === 'm' || lower === 'multicolor') {
+        return `${count} >= 2`;
+    }
+
+    const letters = lower === 'c' || lower === 'colorless' ? '' : (COLOR_NAMES[lower] ?? lower);
+    if (!/^[wubrg]*$/.test(letters)) {
+        throw new UnsupportedQueryError(`${key}:${value}`);
+    }
+
+    const wanted = COLORS.filter((c) => letters.includes(c.toLowerCase()));
+    const others = COLORS.filter((c) => !wanted.includes(c));
+    const hasAll = wanted.length ? wanted.map(has).join(' AND ') : '1';
+    const hasNoOthers = others.length ? `NOT (${others.map(has).join(' OR ')})` : '1';
+
+    // A bare id: means "fits in a deck of these colors"
+    const op = operator === ':' ? (key === 'id' ? '<=' : '>=') : operator;
+    switch (op) {
+        case '>=':
+            return wanted.length ? hasAll : `${count} = 0`;
+        case '=':
+            return `(${hasAll} AND ${hasNoOthers})`;
+        case '!=':
+            return `NOT (${hasAll} AND ${hasNoOthers})`;
+        case '<=':
+            return hasNoOthers;
+        case '<':
+            return `(${hasNoOthers} AND ${count} < ${wanted.length})`;
+        case '>':
+            return `(${hasAll} AND ${count} > ${wanted.length})`;
+        default:
+            throw new UnsupportedQueryError(`${key}${operator}`);
+    }
+}
+
+function compileTerm(state: CompileState, rawKey: string, operator: QueryOperator, value: string): string {
+    const key = KEY_ALIASES[rawKey] ?? rawKey;
+    const lower = value.toLowerCase();
+    const equality = operator === ':' || operator === '=';
+
+    switch (key) {
+        case 't': {
+            if (!equality) break;
+            if (EXTRA_TYPES.includes(lower)) state.includeExtras = true;
+            if (/\s/.test(value)) {
+                return like(state, "COALESCE(type_line, '')", `%${escapeLike(value)}%`);
+            }
+            // Indexed per-word types; prefix match so t:legend finds legendary
+            state.params.push(`${escapeLike(lower)}%`);
+            return "EXISTS (SELECT 1 FROM card_types ct WHERE ct.card_id = cards.id AND ct.type LIKE ? ESCAPE '\\')";
+        }
+        case 'c':
+        case 'id':
+            return compileColors(key, operator, value);
+        case 'mv':
+            state.params.push(parseNumber(rawKey, value));
+            return `COALESCE(cmc, 0) ${SQL_OPERATORS[operator]} ?`;
+        case 'r': {
+            const rank = RARITIES[lower];
+            if (rank === undefined) break;
+            state.params.push(rank);
+            return `${RARITY_RANK_SQL} ${SQL_OPERATORS[operator]} ?`;
+        }
+        case 'set':
+            if (!equality && operator !== '!=') break;
+            state.params.push(lower);
+            return `set_code ${SQL_OPERATORS[operator]} ?`;
+        case 'cn':
+            if (equality || operator === '!=') {
+                state.params.push(value);
+                return `collector_number ${SQL_OPERATORS[operator]} ?`;
+            }
+            state.params.push(parseNumber(rawKey, value));
+            return `CAST(collector_number AS INTEGER) ${SQL_OPERATORS[operator]} ?`;
+        case 'is':
+        case 'not': {
+            const layouts = equality ? LAYOUTS[lower] : undefined;
+            if (!layouts) break;
+            if (lower === 'token') state.includeExtras = true;
+            const condition = inList('layout', layouts);
+            return key === 'not' ? `NOT COALESCE(${condition}, 0)` : condition;
+        }
+        case 'o':
+            if (!equality) break;
+            // ~ stands for the card's own name
+            state.params.push(`%${escapeLike(value)}%`);
+            return "COALESCE(oracle_text, '') LIKE REPLACE(?, '~', name) ESCAPE '\\'";
+        case 'name':
+            if (!equality) break;
+            return like(state, 'name', `%${escapeLike(value)}%`);
+        case 'lang':
+            if (!equality) break;
+            state.langFiltered = true;
+            if (lower === 'any') return '1';
+            state.params.push(lower);
+            return 'lang = ?';
+        case 'include':
+            if (lower === 'extras') state.includeExtras = true;
+            return '1';
+        case 'unique':
+            state.options.unique ??= lower;
+            return '1';
+        case 'order':
+            state.options.order ??= lower;
+            return '1';
+        case 'dir':
+            state.options.dir ??= lower;
+            return '1';
+    }
+
+    throw new UnsupportedQueryError(`${rawKey}${operator}`);
+}
+
+function compileNode(state: CompileState, node: QueryNode): string {
+    switch (node.type) {
+        case 'and':
+            return `(${node.children.map((child) => compileNode(state, child)).join(' AND ')})`;
+        case 'or':
+            return `(${node.children.map((child) => compileNode(state, child)).join(' OR ')})`;
+        case 'not':
+            // Unknown (NULL) values don't match, so their negation should
+            return `NOT COALESCE(${compileNode(state, node.child)}, 0)`;
+        case 'term':
+            return compileTerm(state, node.key, node.operator, node.value);
+        case 'name':
+            if (node.exact) {
+                // Either face of a DFC counts as its name
+                const name = escapeLike(node.value);
+                state.params.push(node.value, `${name} //%`, `% // ${name}`);
+                return "(name = ? COLLATE NOCASE OR name LIKE ? ESCAPE '\\' OR name LIKE ? ESCAPE '\\')";
+            }
+            return like(state, 'name', `%${escapeLike(node.value)}%`);
+    }
+}
+
+/**
+ * Compile a Scryfall query to a query on the local cards table.
+ * Keywords in the query (unique:, order:, dir:) take precedence over options.
+ */
+export function compileScryfallQuery(query: string, options: LocalSearchOptions = {}): LocalCardQuery {
+    const tree = parseScryfallQuery(query);
+    if (!tree) {
+        throw new ScryfallQuerySyntaxError('Empty query');
+    }
+
+    const state: CompileState = {
+        params: [],
+        langFiltered: false,
+        includeExtras: false,
+        options: {},
+    };
+
+    const conditions = [compileNode(state, tree)];
+    if (!state.langFiltered) {
+        conditions.push("lang = 'en'");
+    }
+    if (!state.includeExtras) {
+        conditions.push(`NOT COALESCE(${inList('layout', EXTRA_LAYOUTS)}, 0)`);
+    }
+
+    const unique = state.options.unique ?? options.unique ?? 'cards';
+    const order = ORDER_COLUMNS[state.options.order ?? options.order ?? 'name'] ?? ORDER_COLUMNS.name;
+    const dir = (state.options.dir ?? options.dir) === 'desc' ? ' DESC' : '';
+    const page = Math.max(1, options.page ?? 1);
+
+    return {
+        where: conditions.join(' AND '),
+        params: state.params,
+        // Art isn't tracked locally, so unique:art lists every printing
+        groupBy: unique === 'cards' ? 'COALESCE(oracle_id, name)' : undefined,
+        orderBy: `${order.split(', ').map((col) => col + dir).join(', ')}, name COLLATE NOCASE, set_code, collector_number`,
+        limit: PAGE_SIZE,
+        offset: (page - 1) * PAGE_SIZE,
+    };
+}
+
+/**
+ * Run a Scryfall query against the local cards table.
+ * Throws ScryfallQuerySyntaxError for malformed queries and
+ * UnsupportedQueryError for keywords that need the live API.
+ */
+export function searchLocalCards(query: string, options: LocalSearchOptions = {}): LocalSearchResult {
+    const compiled = compileScryfallQuery(query, options);
+    const { cards, total } = queryCardsLocally(compiled);
+    return { cards, total, hasMore: compiled.offset + cards.length < total };
+}
@@ -0,0 +1,49 @@
+/**
+ * Offline mode utilities.
+ *
+ * For places without internet (e.g. conventions). Enabled with the `--offline`
+ * CLI flag or `PROXXIED_OFFLINE=1`. While offline, card lookups are answered only
+ * from the local `cards` table and images only from the on-disk cache, and
+ * anything that would need Scryfall fails fast with a clear error instead of
+ * waiting for a network timeout.
+ */
+
+import type { Response } from 'express';
+
+let offlineMode =
+    process.argv.includes('--offline') ||
+    ['1', 'true'].includes((process.env.PROXXIED_OFFLINE || '').toLowerCase());
+
+export function isOfflineMode(): boolean {
+    return offlineMode;
+}
+
+export function setOfflineMode(enabled: boolean): void {
+    offlineMode = enabled;
+}
+
+/**
+ * Read the value following a CLI flag, e.g. `--import-bulk ./all-cards.json`
+ * or `--import-bulk=./all-cards.json`.
+ */
+export function getCliOption(name: string, argv: string[] = process.argv): string | undefined {
+    const index = argv.indexOf(name);
+    if (index !== -1) {
+        const value = argv[index + 1];
+        return value && !value.startsWith('--') ? value : undefined;
+    }
+    const prefixed = argv.find(arg => arg.startsWith(`${name}=`));
+    return prefixed ? prefixed.slice(name.length + 1) : undefined;
+}
+
+export function offlineErrorMessage(what: string): string {
+    return `${what} is not available offline`;
+}
+
+/**
+ * Respond with 503 for something that can't be answered without internet.
+ * The `offline` flag lets clients tell this apart from upstream failures.
+ */
+export function sendOfflineUnavailable(res: Response, what: string): Response {
+    return res.status(503).json({ error: offlineErrorMessage(what), offline: true });
+}
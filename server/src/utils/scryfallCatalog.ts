@@ -7,6 +7,7 @@
  */
 
 import { getDatabase } from '../db/db.js';
+import { isOfflineMode } from './offline.js';
 
 // In-memory cache of valid types from Scryfall catalogs
 const validTypes = new Set<string>();
@@ -18,8 +19,14 @@ interface CatalogResponse {
 /**
  * Initialize catalogs by fetching type lists from Scryfall API.
  * Should be called once at server startup.
+ * In offline mode the types are read from the imported cards instead.
  */
 export async function initCatalogs(): Promise<void> {
+    if (isOfflineMode()) {
+        loadTypesFromDatabase();
+        return;
+    }
+
     try {
         // Fetch all type-related catalogs from Scryfall
         const catalogEndpoints = [
@@ -63,6 +70,20 @@ export async function initCatalogs(): Promise<void> {
     }
 }
 
+/**
+ * Fill the type set from the card_types index built during bulk import.
+ */
+function loadTypesFromDatabase(): void {
+    try {
+        const db = getDatabase();
+        const rows = db.prepare('SELECT DISTINCT type FROM card_types WHERE is_token = 0').all() as Array<{ type: string }>;
+        rows.forEach(row => validTypes.add(row.type.toLowerCase()));
+        console.log(`[Catalog] Offline mode: loaded ${validTypes.size} types from the local database`);
+    } catch (error) {
+        console.error('[Catalog] Failed to load types from the local database:', error);
+    }
+}
+
 /**
  * Check if a type is a valid Scryfall type (from card-types or creature-types catalogs).
  * @param type The type to check (e.g., "artifact", "creature", "human")
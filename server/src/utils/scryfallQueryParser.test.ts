@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import { parseScryfallQuery, ScryfallQuerySyntaxError, type QueryNode } from './scryfallQueryParser.js';
+
+const name = (value: string, exact = false): QueryNode => ({ type: 'name', value, exact });
+const term = (key: string, operator: string, value: string): QueryNode =>
+    ({ type: 'term', key, operator, value }) as QueryNode;
+
+describe('parseScryfallQuery', () => {
+    it('should return null for an empty query', () => {
+        expect(parseScryfallQuery('')).toBeNull();
+        expect(parseScryfallQuery('   ')).toBeNull();
+    });
+
+    describe('terms', () => {
+        it('should parse a bare word as a name search', () => {
+            expect(parseScryfallQuery('bolt')).toEqual(name('bolt'));
+        });
+
+        it('should parse quoted phrases and exact names', () => {
+            expect(parseScryfallQuery('"lightning bolt"')).toEqual(name('lightning bolt'));
+            expect(parseScryfallQuery('!"Lightning Bolt"')).toEqual(name('Lightning Bolt', true));
+            expect(parseScryfallQuery('!fire')).toEqual(name('fire', true));
+            expect(parseScryfallQuery("'urza'")).toEqual(name('urza'));
+            expect(parseScryfallQuery("urza's")).toEqual(name("urza's"));
+        });
+
+        it('should parse keywords with every operator', () => {
+            expect(parseScryfallQuery('t:goblin')).toEqual(term('t', ':', 'goblin'));
+            expect(parseScryfallQuery('mv=3')).toEqual(term('mv', '=', '3'));
+            expect(parseScryfallQuery('mv!=3')).toEqual(term('mv', '!=', '3'));
+            expect(parseScryfallQuery('mv<3')).toEqual(term('mv', '<', '3'));
+            expect(parseScryfallQuery('mv<=3')).toEqual(term('mv', '<=', '3'));
+            expect(parseScryfallQuery('mv>3')).toEqual(term('mv', '>', '3'));
+            expect(parseScryfallQuery('mv>=3')).toEqual(term('mv', '>=', '3'));
+        });
+
+        it('should lower-case keys but keep values as written', () => {
+            expect(parseScryfallQuery('SET:CMD')).toEqual(term('set', ':', 'CMD'));
+        });
+
+        it('should parse quoted keyword values', () => {
+            expect(parseScryfallQuery('o:"draw a card"')).toEqual(term('o', ':', 'draw a card'));
+            expect(parseScryfallQuery("t:'legendary creature'")).toEqual(term('t', ':', 'legendary creature'));
+        });
+
+        it('should keep hyphens and slashes inside words', () => {
+            expect(parseScryfallQuery('half-elf')).toEqual(name('half-elf'));
+            expect(parseScryfallQuery('cn:12a')).toEqual(term('cn', ':', '12a'));
+        });
+    });
+
+    describe('boolean structure', () => {
+        it('should join terms with an implicit AND', () => {
+            expect(parseScryfallQuery('t:goblin c:r mv<=2')).toEqual({
+                type: 'and',
+                children: [term('t', ':', 'goblin'), term('c', ':', 'r'), term('mv', '<=', '2')],
+            });
+        });
+
+        it('should ignore an explicit "and"', () => {
+            expect(parseScryfallQuery('t:goblin and c:r')).toEqual(parseScryfallQuery('t:goblin c:r'));
+        });
+
+        it('should bind AND tighter than OR', () => {
+            expect(parseScryfallQuery('t:goblin c:r or t:elf')).toEqual({
+                type: 'or',
+                children: [
+                    { type: 'and', children: [term('t', ':', 'goblin'), term('c', ':', 'r')] },
+                    term('t', ':', 'elf'),
+                ],
+            });
+        });
+
+        it('should treat OR case-insensitively', () => {
+            expect(parseScryfallQuery('bolt OR shock')).toEqual({ type: 'or', children: [name('bolt'), name('shock')] });
+        });
+
+        it('should group with parentheses', () => {
+            expect(parseScryfallQuery('(t:goblin or t:elf) c:g')).toEqual({
+                type: 'and',
+                children: [
+                    { type: 'or', children: [term('t', ':', 'goblin'), term('t', ':', 'elf')] },
+                    term('c', ':', 'g'),
+                ],
+            });
+        });
+
+        it('should stop unquoted values at a closing parenthesis', () => {
+            expect(parseScryfallQuery('(t:goblin)')).toEqual(term('t', ':', 'goblin'));
+        });
+
+        it('should handle nested groups', () => {
+            expect(parseScryfallQuery('((bolt))')).toEqual(name('bolt'));
+            expect(parseScryfallQuery('a (b or (c d))')).toEqual({
+                type: 'and',
+                children: [
+                    name('a'),
+                    { type: 'or', children: [name('b'), { type: 'and', children: [name('c'), name('d')] }] },
+                ],
+            });
+        });
+
+        it('should negate terms, names and groups', () => {
+            expect(parseScryfallQuery('-t:creature')).toEqual({ type: 'not', child: term('t', ':', 'creature') });
+            expect(parseScryfallQuery('-"goblin"')).toEqual({ type: 'not', child: name('goblin') });
+            expect(parseScryfallQuery('-(c:r or c:g)')).toEqual({
+                type: 'not',
+                child: { type: 'or', children: [term('c', ':', 'r'), term('c', ':', 'g')] },
+            });
+            expect(parseScryfallQuery('--bolt')).toEqual({ type: 'not', child: { type: 'not', child: name('bolt') } });
+        });
+
+        it('should treat a lone hyphen as a word', () => {
+            expect(parseScryfallQuery('a - b')).toEqual({ type: 'and', children: [name('a'), name('-'), name('b')] });
+        });
+    });
+
+    describe('errors', () => {
+        it.each([
+            ['(t:goblin', 'Unbalanced "("'],
+            ['t:goblin)', 'Unbalanced ")"'],
+            ['()', 'Expected a search term'],
+            ['bolt or', 'Expected a search term'],
+            ['or bolt', 'Expected a search term'],
+            ['o:"draw', 'Unterminated quote'],
+            ['t: goblin', 'Missing value for "t:"'],
+        ])('should reject %s', (query, message) => {
+            expect(() => parseScryfallQuery(query)).toThrow(ScryfallQuerySyntaxError);
+            expect(() => parseScryfallQuery(query)).toThrow(message);
+        });
+    });
+});
@@ -0,0 +1,210 @@
+/**
+ * Scryfall Query Parser
+ *
+ * Parses Scryfall search syntax (https://scryfall.com/docs/syntax) into a
+ * small syntax tree: implicit AND between terms, `or`, `-` negation and
+ * parentheses. Keywords aren't validated here - the compiler in
+ * localCardSearch.ts decides which ones it can answer locally.
+ */
+
+export type QueryOperator = ':' | '=' | '!=' | '<' | '<=' | '>' | '>=';
+
+export type QueryNode =
+    | { type: 'and'; children: QueryNode[] }
+    | { type: 'or'; children: QueryNode[] }
+    | { type: 'not'; child: QueryNode }
+    /** keyword:value, e.g. t:goblin or mv>=3 */
+    | { type: 'term'; key: string; operator: QueryOperator; value: string }
+    /** Bare word or "quoted phrase" (name contains), or !"name" (exact name) */
+    | { type: 'name'; value: string; exact: boolean };
+
+export class ScryfallQuerySyntaxError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ScryfallQuerySyntaxError';
+    }
+}
+
+type Token =
+    | { kind: 'lparen' }
+    | { kind: 'rparen' }
+    | { kind: 'or' }
+    | { kind: 'not' }
+    | { kind: 'atom'; node: QueryNode };
+
+// Longest operators first so "<=" isn't read as "<"
+const OPERATORS: QueryOperator[] = ['!=', '<=', '>=', ':', '=', '<', '>'];
+
+const KEY_PATTERN = /^[a-z]+/i;
+
+function isSpace(char: string | undefined): boolean {
+    return char !== undefined && /\s/.test(char);
+}
+
+/**
+ * Read a quoted string starting at `start` (which holds the quote).
+ * Returns the unquoted text and the index after the closing quote.
+ */
+function readQuoted(input: string, start: number): { text: string; end: number } {
+    const quote = input[start];
+    const close = input.indexOf(quote, start + 1);
+    if (close === -1) {
+        throw new ScryfallQuerySyntaxError(`Unterminated quote in "${input.slice(start)}"`);
+    }
+    return { text: input.slice(start + 1, close), end: close + 1 };
+}
+
+/** Read an unquoted word, stopping at whitespace and parentheses. */
+function readWord(input: string, start: number): { text: string; end: number } {
+    let end = start;
+    while (end < input.length && !isSpace(input[end]) && input[end] !== '(' && input[end] !== ')') {
+        end++;
+    }
+    return { text: input.slice(start, end), end };
+}
+
+function readValue(input: string, start: number): { text: string; end: number } {
+    const char = input[start];
+    return char === '"' || char === "'" ? readQuoted(input, start) : readWord(input, start);
+}
+
+function tokenize(input: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < input.length) {
+        const char = input[i];
+
+        if (isSpace(char)) {
+            i++;
+        } else if (char === '(') {
+            tokens.push({ kind: 'lparen' });
+            i++;
+        } else if (char === ')') {
+            tokens.push({ kind: 'rparen' });
+            i++;
+        } else if (char === '-' && i + 1 < input.length && !isSpace(input[i + 1])) {
+            tokens.push({ kind: 'not' });
+            i++;
+        } else if (char === '!' && i + 1 < input.length && !isSpace(input[i + 1])) {
+            const { text, end } = readValue(input, i + 1);
+            tokens.push({ kind: 'atom', node: { type: 'name', value: text.trim(), exact: true } });
+            i = end;
+        } else if (char === '"' || char === "'") {
+            const { text, end } = readQuoted(input, i);
+            if (text.trim()) {
+                tokens.push({ kind: 'atom', node: { type: 'name', value: text.trim(), exact: false } });
+            }
+            i = end;
+        } else {
+            const key = input.slice(i).match(KEY_PATTERN)?.[0];
+            const operator = key
+                ? OPERATORS.find((op) => input.startsWith(op, i + key.length))
+                : undefined;
+
+            if (key && operator) {
+                const valueStart = i + key.length + operator.length;
+                const { text, end } = readValue(input, valueStart);
+                if (!text) {
+                    throw new ScryfallQuerySyntaxError(`Missing value for "${key}${operator}"`);
+                }
+                tokens.push({ kind: 'atom', node: { type: 'term', key: key.toLowerCase(), operator, value: text } });
+                i = end;
+                continue;
+            }
+
+            const { text, end } = readWord(input, i);
+            const lower = text.toLowerCase();
+            if (lower === 'or') {
+                tokens.push({ kind: 'or' });
+            } else if (lower !== 'and') {
+                // "and" is the implicit default between terms
+                tokens.push({ kind: 'atom', node: { type: 'name', value: text, exact: false } });
+            }
+            i = end;
+        }
+    }
+
+    return tokens;
+}
+
+/**
+ * Recursive descent over the tokens:
+ *   or    := and ("or" and)*
+ *   and   := unary+
+ *   unary := "-" unary | "(" or ")" | atom
+ */
+class Parser {
+    private readonly tokens: Token[];
+    private pos = 0;
+
+    constructor(tokens: Token[]) {
+        this.tokens = tokens;
+    }
+
+    parse(): QueryNode | null {
+        if (this.tokens.length === 0) return null;
+        const node = this.parseOr();
+        const leftover = this.peek();
+        if (leftover) {
+            throw new ScryfallQuerySyntaxError(
+                leftover.kind === 'rparen' ? 'Unbalanced ")"' : 'Unexpected input'
+            );
+        }
+        return node;
+    }
+
+    private peek(): Token | undefined {
+        return this.tokens[this.pos];
+    }
+
+    private parseOr(): QueryNode {
+        const children = [this.parseAnd()];
+        while (this.peek()?.kind === 'or') {
+            this.pos++;
+            children.push(this.parseAnd());
+        }
+        return children.length === 1 ? children[0] : { type: 'or', children };
+    }
+
+    private parseAnd(): QueryNode {
+        const children: QueryNode[] = [];
+        for (let token = this.peek(); token && token.kind !== 'or' && token.kind !== 'rparen'; token = this.peek()) {
+            children.push(this.parseUnary());
+        }
+        if (children.length === 0) {
+            throw new ScryfallQuerySyntaxError('Expected a search term');
+        }
+        return children.length === 1 ? children[0] : { type: 'and', children };
+    }
+
+    private parseUnary(): QueryNode {
+        const token = this.peek();
+        this.pos++;
+
+        switch (token?.kind) {
+            case 'not':
+                return { type: 'not', child: this.parseUnary() };
+            case 'lparen': {
+                const node = this.parseOr();
+                if (this.peek()?.kind !== 'rparen') {
+                    throw new ScryfallQuerySyntaxError('Unbalanced "("');
+                }
+                this.pos++;
+                return node;
+            }
+            case 'atom':
+                return token.node;
+            default:
+                throw new ScryfallQuerySyntaxError('Expected a search term');
+        }
+    }
+}
+
+/**
+ * Parse a Scryfall query. Returns null for an empty query.
+ * Throws ScryfallQuerySyntaxError for malformed queries.
+ */
+export function parseScryfallQuery(query: string): QueryNode | null {
+    return new Parser(tokenize(query)).parse();
+}
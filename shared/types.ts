@@ -1,3 +1,19 @@
+/** Channels of the Curves & Levels editor */
+export type ToneChannel = "master" | "red" | "green" | "blue";
+
+/** Levels and curve for one channel, all values 0-255 */
+export interface ToneChannelSettings {
+  inBlack: number;
+  inWhite: number;
+  gamma: number; // 0.1-10, midtone of the input levels (1 = linear)
+  outBlack: number;
+  outWhite: number;
+  points: [number, number][]; // curve control points [input, output], sorted by input
+}
+
+/** Editable Curves & Levels state; missing channels are left unchanged */
+export type ToneCurve = Partial<Record<ToneChannel, ToneChannelSettings>>;
+
 /**
  * Per-card rendering overrides.
  * Used in the Card Editor for fine-tuning individual cards.
@@ -75,8 +91,30 @@ export interface CardOverrides {
   vignetteAmount?: number; // 0-1.0
   vignetteSize?: number; // 0-1.0 (higher = more center visible)
   vignetteFeather?: number; // 0-1.0 (higher = softer edge)
+
+  // Curves & Levels
+  toneCurve?: ToneCurve; // editor state, only used to edit the curve again
+  toneLut?: string; // baked 256-entry RGB lookup table (base64), what renderers apply
+
+  // Artwork transform (applied before all other effects, bleed included)
+  artScale?: number; // 0.5-4.0 zoom around the card center
+  artOffsetX?: number; // fraction of card width, positive = right
+  artOffsetY?: number; // fraction of card height, positive = down
+  artRotation?: number; // -180 to +180 degrees, clockwise
+  artFlipX?: boolean; // mirror horizontally
+  artFlipY?: boolean; // mirror vertically
 }
 
+/** Paper prices from Scryfall's daily data, in dollars and euros */
+export interface CardPrices {
+  usd?: number;
+  usd_foil?: number;
+  eur?: number;
+  eur_foil?: number;
+}
+
+export type CardLegality = "legal" | "not_legal" | "restricted" | "banned";
+
 export interface CardOption {
   uuid: string;
   name: string;
@@ -95,6 +133,8 @@ export interface CardOption {
   cmc?: number;
   type_line?: string;
   rarity?: string;
+  prices?: CardPrices;
+  legalities?: Record<string, CardLegality>; // Keyed by format (e.g., "commander")
   category?: string; // Archidekt deck category (Commander, Mainboard, Sideboard, etc.)
   // Enrichment tracking
   needsEnrichment?: boolean;
@@ -142,6 +182,8 @@ export interface ScryfallCard {
   rarity?: string;
   released_at?: string;
   layout?: string; // Card layout (e.g., 'transform', 'modal_dfc', 'normal')
+  prices?: CardPrices;
+  legalities?: Record<string, CardLegality>;
   prints?: PrintInfo[];
   // DFC support: face information
   card_faces?: Array<{
@@ -193,3 +235,99 @@ export interface ScryfallSet {
   card_count: number;
   digital: boolean;
 }
+
+/**
+ * Deck sites imported through the server's /api/decksites routes.
+ */
+export type DeckSite = "scryfall" | "tappedout" | "deckstats" | "mtggoldfish";
+
+/**
+ * A card from a deck site, normalized to the same fields the Archidekt and
+ * Moxfield extractors produce.
+ */
+export interface ImportedDeckCard {
+  name: string;
+  set?: string | undefined;
+  number?: string | undefined;
+  quantity: number;
+  category: string; // Commander, Mainboard, Sideboard, Maybeboard, ...
+  isToken?: boolean | undefined;
+}
+
+export interface ImportedDeck {
+  source: DeckSite;
+  id: string;
+  name: string;
+  cards: ImportedDeckCard[];
+}
+
+/**
+ * Search filters passed to MPC Autofill by the server's /api/mpcfill routes.
+ * Omitted fields use the defaults: every source, English, NSFW excluded and
+ * 0-1500 DPI.
+ */
+export interface MpcSearchFilters {
+  sources?: string[] | undefined; // Source keys to search; empty or omitted = all sources
+  languages?: string[] | undefined; // Language codes, e.g. "EN", "DE"
+  includesTags?: string[] | undefined;
+  excludesTags?: string[] | undefined;
+  minDpi?: number | undefined;
+  maxDpi?: number | undefined;
+}
+
+/**
+ * Progress of a running bulk data import.
+ */
+export interface BulkImportProgress {
+  cardsProcessed: number;
+  bytesRead: number;
+  totalBytes: number | null; // Size of the source, when known
+}
+
+export type BulkImportSource = "scryfall" | "file";
+
+/**
+ * Current/last bulk import, reported by GET /api/admin/scheduler.
+ */
+export interface BulkImportStatus {
+  running: boolean;
+  source: BulkImportSource | null;
+  startedAt: string | null; // ISO timestamps throughout
+  progress: BulkImportProgress | null;
+  lastResult: {
+    source: BulkImportSource;
+    cardsImported: number;
+    cardsNew: number;
+    cardsUpdated: number;
+    durationMs: number;
+    finishedAt: string;
+  } | null;
+  lastError: { message: string; at: string } | null;
+}
+
+export interface ImportSchedulerStatus {
+  enabled: boolean; // False in offline mode
+  cron: string;
+  description: string;
+  nextRun: string | null;
+  lastImport: string | null;
+  bulkDataFile: string | null; // File imported by "file" imports, if configured
+  import: BulkImportStatus;
+}
+
+/**
+ * Caches that can be purged through DELETE /api/admin/cache/:name.
+ */
+export type AdminCacheName = "cards" | "scryfall" | "mpc" | "images";
+
+/**
+ * Server statistics returned by GET /api/admin/stats.
+ */
+export interface AdminStats {
+  offline: boolean;
+  cards: { count: number; dbSizeBytes: number; lastImport: string | null };
+  scryfallCache: { endpoint: string; count: number; expired: number }[];
+  mpcCache: { count: number; oldestTimestamp: number | null };
+  imageCache: { files: number; bytes: number; maxBytes: number };
+  shares: { count: number; expired: number; revisions: number; bytes: number };
+}